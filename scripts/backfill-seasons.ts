@@ -0,0 +1,16 @@
+/**
+ * Re-ingest every Netflix week so rows are attached to their Season
+ */
+import { ingestNetflixWeekly } from '../src/jobs/ingestNetflixWeekly';
+
+async function main() {
+  console.log('Re-ingesting all Netflix weeks with season tracking...');
+  try {
+    const result = await ingestNetflixWeekly(0);
+    console.log('Result:', JSON.stringify({ ...result, errors: result.errors.slice(0, 20) }, null, 2));
+  } catch (error) {
+    console.error('Error:', error);
+  }
+}
+
+main();
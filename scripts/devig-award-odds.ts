@@ -0,0 +1,49 @@
+/**
+ * De-vig sportsbook and Gold Derby odds stored before margins were removed
+ * on entry, using each source's default method, one book per category.
+ *
+ * The stored probability moves to rawProbability. Safe to re-run: rows that
+ * already have a rawProbability are left alone. Snapshots keep the values
+ * they were taken with.
+ */
+import type { OddsSource } from '@prisma/client';
+import prisma from '../src/lib/prisma';
+import { MANUAL_ODDS_SOURCES } from '../src/lib/oddsEntry';
+import { devig, overround } from '../src/lib/odds';
+
+async function devigAwardOdds() {
+  const rows = await prisma.awardOdds.findMany({
+    where: { source: { in: Object.keys(MANUAL_ODDS_SOURCES) }, rawProbability: null },
+    select: { id: true, source: true, probability: true, nominee: { select: { categoryId: true } } },
+  }) as Array<{ id: string; source: OddsSource; probability: number; nominee: { categoryId: string } }>;
+
+  const books = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const key = `${row.source}:${row.nominee.categoryId}`;
+    books.set(key, [...(books.get(key) ?? []), row]);
+  }
+
+  let devigged = 0;
+  for (const [key, book] of books) {
+    const method = MANUAL_ODDS_SOURCES[book[0].source]!.devig;
+    const implied = book.map((r) => r.probability);
+    const fair = devig(implied, method);
+    const applied = fair.some((p, i) => p !== implied[i]);
+
+    await prisma.$transaction(
+      book.map((row, i) =>
+        prisma.awardOdds.update({
+          where: { id: row.id },
+          data: { probability: fair[i], rawProbability: implied[i], devigMethod: applied ? method : null },
+        })
+      )
+    );
+    if (applied) devigged++;
+    console.log(`${key}: ${book.length} lines, ${((1 + overround(implied)) * 100).toFixed(1)}% book${applied ? ` -> ${method}` : ''}`);
+  }
+
+  console.log(`De-vigged ${devigged} of ${books.size} books`);
+  await prisma.$disconnect();
+}
+
+devigAwardOdds();
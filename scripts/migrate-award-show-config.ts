@@ -0,0 +1,114 @@
+/**
+ * Move the Golden Globes 2026 Polymarket event slugs and prediction articles
+ * that used to be hard-coded in the awards jobs into the database, where
+ * /admin/awards manages them.
+ *
+ * Creates the show if it is missing. Safe to re-run: slugs are merged and
+ * existing article sources are left alone.
+ */
+import prisma from '../src/lib/prisma';
+import { parseSlugList } from '../src/lib/awardShows';
+
+const SHOW = {
+  name: 'Golden Globes 2026',
+  slug: 'golden-globes-2026',
+  ceremonyDate: new Date('2026-01-11T20:00:00-08:00'),
+};
+
+const EVENT_SLUGS = [
+  'golden-globes-best-actor-drama-winner',
+  'golden-globes-best-actor-musical-or-comedy-winner',
+  'golden-globes-best-actor-television-musical-or-comedy-winner',
+  'golden-globes-best-actress-limited-series-winner',
+  'golden-globes-best-actress-television-drama-winner',
+  'golden-globes-best-director-winner',
+  'golden-globes-best-motion-picture-animated-winner',
+  'golden-globes-best-motion-picture-drama-winner',
+  'golden-globes-best-motion-picture-musical-or-comedy-winner',
+  'golden-globes-best-motion-picture-non-english-language-winner',
+  'golden-globes-best-original-song-motion-picture-winner',
+  'golden-globes-best-performance-in-stand-up-comedy-on-television-winner',
+  'golden-globes-best-screenplay-motion-picture-winner',
+  'golden-globes-best-supporting-actor-motion-picture-winner',
+  'golden-globes-best-supporting-actor-television-winner',
+  'golden-globes-best-supporting-actress-motion-picture-winner',
+  'golden-globes-best-supporting-actress-television-winner',
+  'golden-globes-best-television-series-comedy-or-musical-winner',
+  'golden-globes-best-television-series-drama-winner',
+  'golden-globes-cinematic-and-box-office-achievement-winner',
+  'golden-globes-best-actress-drama-winner',
+  'golden-globes-best-actress-musical-or-comedy-winner',
+  'golden-globes-best-actor-limited-series-winner',
+  'golden-globes-best-actor-television-drama-winner',
+  'golden-globes-best-actress-television-musical-or-comedy-winner',
+  'golden-globes-best-limited-series-winner',
+  'golden-globes-best-original-score-winner',
+];
+
+const ARTICLE_SOURCES: Array<{ source: string; title: string; url: string }> = [
+  {
+    source: 'Variety',
+    title: 'Golden Globes Predictions 2026: Winners That Could Make History',
+    url: 'https://variety.com/2026/film/awards/golden-globes-predictions-winners-2026-history-upsets-1236625141/',
+  },
+  {
+    source: 'Variety',
+    title: '2026 Golden Globes Predictions in Every Category',
+    url: 'https://variety.com/lists/2026-golden-globes-predictions/',
+  },
+  {
+    source: 'Variety',
+    title: 'Golden Globes 2026 Analysis: Oscar Season Contenders Gaining Momentum',
+    url: 'https://variety.com/2025/film/awards/golden-globes-2026-oscars-analysis-international-breakdown-1236603434/',
+  },
+  {
+    source: 'Awards Daily',
+    title: 'Predict the 2026 Golden Globe Winners',
+    url: 'https://www.awardsdaily.com/2025/12/16/contest-alert-2026-predict-the-golden-globe-winners-open-for-business/',
+  },
+  {
+    source: 'Gold Derby',
+    title: 'Golden Globes 2026 Predictions: Best Scores by Experts',
+    url: 'https://www.goldderby.com/film/2025/golden-globes-2026-nominations-best-prediction-scores/',
+  },
+  {
+    source: 'Award Expert',
+    title: '2026 Golden Globes Predictions in All Categories',
+    url: 'https://awardexpert.media/golden-globes',
+  },
+  {
+    source: 'StyleRave',
+    title: 'Golden Globes 2026 Predictions: Sinners Leads The Pack',
+    url: 'https://www.stylerave.com/golden-globes-2026-predictions/',
+  },
+];
+
+async function migrateAwardShowConfig() {
+  const existing = await prisma.awardShow.findUnique({ where: { slug: SHOW.slug } });
+  const polymarketEventSlugs = [...new Set([...parseSlugList(existing?.polymarketEventSlugs), ...EVENT_SLUGS])];
+
+  const show = existing
+    ? await prisma.awardShow.update({ where: { id: existing.id }, data: { polymarketEventSlugs } })
+    : await prisma.awardShow.create({ data: { ...SHOW, polymarketEventSlugs } });
+  console.log(`${existing ? 'Updated' : 'Created'} ${show.name} with ${polymarketEventSlugs.length} event slugs`);
+
+  let added = 0;
+  for (const source of ARTICLE_SOURCES) {
+    const found = await prisma.awardArticleSource.findUnique({
+      where: { showId_url: { showId: show.id, url: source.url } },
+    });
+    if (found) continue;
+
+    // Articles the old job already analyzed count as fetched
+    const article = await prisma.awardArticle.findUnique({ where: { url: source.url } });
+    await prisma.awardArticleSource.create({
+      data: { showId: show.id, ...source, lastFetchedAt: article?.fetchedAt ?? null },
+    });
+    added++;
+  }
+
+  console.log(`Added ${added} of ${ARTICLE_SOURCES.length} article sources`);
+  await prisma.$disconnect();
+}
+
+migrateAwardShowConfig();
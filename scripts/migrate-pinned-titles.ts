@@ -0,0 +1,49 @@
+/**
+ * Copy legacy global PinnedTitle rows into per-user watchlists.
+ *
+ * Each pin lands on its pinner's default watchlist. Pins with no recorded
+ * pinner go to the user passed as --owner=<clerkUserId>, or are skipped.
+ * Safe to re-run: titles already on the target list are left alone.
+ */
+import prisma from '../src/lib/prisma';
+import { getDefaultWatchlist } from '../src/lib/watchlists';
+
+async function migratePinnedTitles() {
+  const ownerArg = process.argv.find((arg) => arg.startsWith('--owner='));
+  const fallbackOwner = ownerArg ? ownerArg.split('=')[1] : null;
+
+  const pins = await prisma.pinnedTitle.findMany({ orderBy: { pinnedAt: 'asc' } });
+  console.log(`Found ${pins.length} legacy pinned titles\n`);
+
+  let copied = 0;
+  let skipped = 0;
+
+  for (const pin of pins) {
+    const userId = pin.pinnedBy || fallbackOwner;
+    if (!userId) {
+      console.log(`  - Skipped ${pin.titleId}: no pinner recorded (pass --owner=<userId>)`);
+      skipped++;
+      continue;
+    }
+
+    const watchlist = await getDefaultWatchlist(userId);
+    const existing = await prisma.watchlistItem.findUnique({
+      where: { watchlistId_titleId: { watchlistId: watchlist.id, titleId: pin.titleId } },
+    });
+    if (existing) {
+      skipped++;
+      continue;
+    }
+
+    await prisma.watchlistItem.create({
+      data: { watchlistId: watchlist.id, titleId: pin.titleId, addedAt: pin.pinnedAt },
+    });
+    console.log(`  ✓ ${pin.titleId} -> ${userId} / ${watchlist.name}`);
+    copied++;
+  }
+
+  console.log(`\nCopied ${copied}, skipped ${skipped}`);
+  await prisma.$disconnect();
+}
+
+migratePinnedTitles();
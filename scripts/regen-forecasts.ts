@@ -1,12 +1,23 @@
 /**
- * Regenerate forecasts with Wikipedia data
+ * Regenerate forecasts
+ *
+ * With --as-of=YYYY-MM-DD, replays the run using only data known at that
+ * date and stores it as a new forecast version; live forecasts are untouched.
  */
 import { generateForecastsJob } from '../src/jobs/generateForecasts';
 
 async function main() {
-  console.log('Regenerating forecasts with Wikipedia data...');
+  const asOfArg = process.argv.find((arg) => arg.startsWith('--as-of='));
+  const asOf = asOfArg ? new Date(asOfArg.split('=')[1]) : undefined;
+
+  if (asOf && isNaN(asOf.getTime())) {
+    console.error(`Invalid --as-of date: ${asOfArg}`);
+    return;
+  }
+
+  console.log(asOf ? `Regenerating forecasts as of ${asOf.toISOString()}...` : 'Regenerating forecasts...');
   try {
-    const result = await generateForecastsJob();
+    const result = await generateForecastsJob(asOf);
     console.log('Result:', JSON.stringify(result, null, 2));
   } catch (error) {
     console.error('Error:', error);
@@ -0,0 +1,377 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  MANUAL_ODDS_SOURCES,
+  OddsPreviewRow,
+  OddsRowStatus,
+  OddsBook,
+  EntryCategory,
+  NomineeOverrides,
+} from "@/lib/oddsEntry";
+import { DEVIG_METHODS, DevigMethod, ODDS_FORMATS, OddsFormat } from "@/lib/odds";
+
+interface ShowOption {
+  id: string;
+  name: string;
+  status: string;
+  categories: { id: string; name: string }[];
+}
+
+interface Preview {
+  format: OddsFormat;
+  devigMethod: DevigMethod;
+  rows: OddsPreviewRow[];
+  books: OddsBook[];
+  categories: EntryCategory[];
+  matched: number;
+}
+
+const statusLabels: Record<OddsRowStatus, { label: string; style: string }> = {
+  matched: { label: "Matched", style: "bg-green-100 text-green-700" },
+  invalid_odds: { label: "Bad odds", style: "bg-red-100 text-red-700" },
+  unknown_category: { label: "No category", style: "bg-red-100 text-red-700" },
+  unknown_nominee: { label: "No nominee", style: "bg-yellow-100 text-yellow-800" },
+  skipped: { label: "Skipped", style: "bg-gray-100 text-gray-500" },
+};
+
+const sources = Object.entries(MANUAL_ODDS_SOURCES).map(([source, config]) => ({ source, ...config! }));
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pine-blue";
+
+export default function AdminAwardOddsPage() {
+  const [shows, setShows] = useState<ShowOption[]>([]);
+  const [showId, setShowId] = useState("");
+  const [source, setSource] = useState(sources[0].source);
+  const [format, setFormat] = useState<OddsFormat>(sources[0].format);
+  const [devigMethod, setDevigMethod] = useState<DevigMethod>(sources[0].devig);
+  const [categoryId, setCategoryId] = useState("");
+  const [url, setUrl] = useState("");
+  const [text, setText] = useState("");
+  const [overrides, setOverrides] = useState<NomineeOverrides>({});
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/admin/award-shows")
+      .then((response) => response.json())
+      .then((json) => {
+        if (!json.success) {
+          setError(json.error || "Failed to load award shows");
+          return;
+        }
+        setShows(json.data);
+        const tracked = (json.data as ShowOption[]).find((s) => s.status !== "COMPLETED") ?? json.data[0];
+        if (tracked) setShowId(tracked.id);
+      })
+      .catch(() => setError("Failed to load award shows"));
+  }, []);
+
+  const show = shows.find((s) => s.id === showId);
+  const body = (withOverrides: NomineeOverrides) => ({
+    showId,
+    source,
+    format,
+    devigMethod,
+    text,
+    url,
+    categoryId: categoryId || null,
+    overrides: withOverrides,
+  });
+
+  const runPreview = async (withOverrides: NomineeOverrides) => {
+    setWorking(true);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/admin/award-odds/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body(withOverrides)),
+      });
+      const json = await response.json();
+      if (json.success) {
+        setPreview(json.data);
+        setError(null);
+      } else {
+        setError(json.error || "Preview failed");
+      }
+    } catch {
+      setError("Preview failed");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleOverride = (line: number, value: string) => {
+    const next = { ...overrides };
+    if (value === "") delete next[line];
+    else next[line] = value === "skip" ? null : value;
+    setOverrides(next);
+    runPreview(next);
+  };
+
+  const handleCommit = async () => {
+    if (!preview || !confirm(`Store ${preview.matched} odds for ${show?.name}?`)) return;
+    setWorking(true);
+    try {
+      const response = await fetch("/api/admin/award-odds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body(overrides)),
+      });
+      const json = await response.json();
+      if (json.success) {
+        setMessage(
+          `Stored ${json.data.snapshots} odds (${json.data.oddsCreated} new, ${json.data.oddsUpdated} updated); ` +
+          `${json.data.unmatched.length} lines left out.`
+        );
+        setPreview(null);
+        setText("");
+        setOverrides({});
+      } else {
+        setError(json.error || "Commit failed");
+      }
+    } catch {
+      setError("Commit failed");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setPreview(null);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6">
+        <ol className="flex items-center space-x-2 text-sm text-gray-500">
+          <li>
+            <Link href="/admin" className="hover:text-gunmetal">
+              Admin
+            </Link>
+          </li>
+          <li>/</li>
+          <li>
+            <Link href="/admin/awards" className="hover:text-gunmetal">
+              Award Shows
+            </Link>
+          </li>
+          <li>/</li>
+          <li className="text-gunmetal font-medium">Enter Odds</li>
+        </ol>
+      </nav>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gunmetal">Enter Odds</h1>
+        <p className="text-gray-600 mt-1">
+          Paste or upload sportsbook and Gold Derby odds, check how each line matches the show&apos;s nominees, then store
+          them. Lines are <span className="font-mono">category,nominee,odds</span> or{" "}
+          <span className="font-mono">nominee,odds</span> for the category picked below.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">{error}</div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-700 mb-6">{message}</div>
+      )}
+
+      <div className="bg-white border border-dust-grey rounded-lg p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+          <label className="text-sm text-gray-600">
+            Show
+            <select value={showId} onChange={(e) => { setShowId(e.target.value); setCategoryId(""); setPreview(null); }} className={`${inputClass} block w-full mt-1`}>
+              {shows.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            Source
+            <select
+              value={source}
+              onChange={(e) => {
+                const picked = sources.find((s) => s.source === e.target.value)!;
+                setSource(picked.source);
+                setFormat(picked.format);
+                setDevigMethod(picked.devig);
+                setPreview(null);
+              }}
+              className={`${inputClass} block w-full mt-1`}
+            >
+              {sources.map((s) => (
+                <option key={s.source} value={s.source}>{s.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            Odds format
+            <select value={format} onChange={(e) => setFormat(e.target.value as OddsFormat)} className={`${inputClass} block w-full mt-1`}>
+              {ODDS_FORMATS.map((f) => (
+                <option key={f} value={f}>{f}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            Remove margin
+            <select
+              value={devigMethod}
+              onChange={(e) => { setDevigMethod(e.target.value as DevigMethod); setPreview(null); }}
+              className={`${inputClass} block w-full mt-1`}
+            >
+              {DEVIG_METHODS.map((m) => (
+                <option key={m} value={m}>{m}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            Category
+            <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={`${inputClass} block w-full mt-1`}>
+              <option value="">From each line</option>
+              {show?.categories.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="text-sm text-gray-600 block mb-4">
+          Source page (optional)
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://www.goldderby.com/odds/..."
+            className={`${inputClass} block w-full mt-1`}
+          />
+        </label>
+
+        <textarea
+          value={text}
+          onChange={(e) => { setText(e.target.value); setPreview(null); }}
+          rows={10}
+          placeholder={"Best Director,Paul Thomas Anderson,-500\nBest Director,Ryan Coogler,+650"}
+          className={`${inputClass} block w-full font-mono mb-4`}
+        />
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => { setOverrides({}); runPreview({}); }}
+            disabled={working || !showId || !text.trim()}
+            className="bg-pine-blue text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors disabled:opacity-50"
+          >
+            Preview
+          </button>
+          <label className="border border-gunmetal text-gunmetal px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors cursor-pointer">
+            Upload CSV
+            <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} className="hidden" />
+          </label>
+          {showId && (
+            <a
+              href={`/api/admin/award-odds/template?showId=${showId}&source=${source}`}
+              className="text-sm text-pine-blue hover:underline"
+            >
+              Download {sources.find((s) => s.source === source)?.label} template
+            </a>
+          )}
+        </div>
+      </div>
+
+      {preview && (
+        <div className="bg-white border border-dust-grey rounded-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-sm text-gray-600">
+              {preview.matched} of {preview.rows.length} lines matched · bare numbers read as {preview.format} ·
+              margin removed with {preview.devigMethod}
+            </p>
+            <button
+              onClick={handleCommit}
+              disabled={working || preview.matched === 0}
+              className="bg-gunmetal text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors disabled:opacity-50"
+            >
+              Store {preview.matched} odds
+            </button>
+          </div>
+
+          {preview.books.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {preview.books.map((book) => (
+                <span
+                  key={book.categoryId}
+                  className={`text-xs px-2 py-1 rounded-full ${
+                    book.overround > 0.3 || book.overround < 0 ? "bg-yellow-100 text-yellow-800" : "bg-gray-100 text-gray-600"
+                  }`}
+                >
+                  {book.categoryName}: {book.lines} lines, {((1 + book.overround) * 100).toFixed(1)}% book
+                </span>
+              ))}
+            </div>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="py-2 font-medium">Line</th>
+                <th className="py-2 font-medium">Entered</th>
+                <th className="py-2 font-medium">Odds</th>
+                <th className="py-2 font-medium">Implied</th>
+                <th className="py-2 font-medium">Fair</th>
+                <th className="py-2 font-medium">Nominee</th>
+                <th className="py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {preview.rows.map((row) => (
+                <tr key={row.line}>
+                  <td className="py-2 text-gray-400">{row.line}</td>
+                  <td className="py-2">
+                    <div className="text-gunmetal">{row.nominee}</div>
+                    {row.category && <div className="text-xs text-gray-400">{row.category}</div>}
+                  </td>
+                  <td className="py-2 font-mono">{row.rawOdds}</td>
+                  <td className="py-2">{row.probability !== null ? `${(row.probability * 100).toFixed(1)}%` : "—"}</td>
+                  <td className="py-2 font-medium">
+                    {row.fairProbability !== null ? `${(row.fairProbability * 100).toFixed(1)}%` : "—"}
+                  </td>
+                  <td className="py-2">
+                    <select
+                      value={row.line in overrides ? overrides[row.line] ?? "skip" : ""}
+                      onChange={(e) => handleOverride(row.line, e.target.value)}
+                      className={`${inputClass} w-full`}
+                    >
+                      <option value="">{row.nomineeName ? `${row.nomineeName} (${row.categoryName})` : "Pick a nominee..."}</option>
+                      <option value="skip">Skip this line</option>
+                      {preview.categories
+                        .filter((c) => !row.categoryId || c.id === row.categoryId)
+                        .map((c) => (
+                          <optgroup key={c.id} label={c.name}>
+                            {c.nominees.map((n) => (
+                              <option key={n.id} value={n.id}>{n.name}</option>
+                            ))}
+                          </optgroup>
+                        ))}
+                    </select>
+                  </td>
+                  <td className="py-2">
+                    <span className={`text-xs px-2 py-1 rounded-full ${statusLabels[row.status].style}`}>
+                      {statusLabels[row.status].label}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
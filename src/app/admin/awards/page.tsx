@@ -0,0 +1,489 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type ShowStatus = "UPCOMING" | "ACTIVE" | "COMPLETED";
+
+const STATUSES: ShowStatus[] = ["UPCOMING", "ACTIVE", "COMPLETED"];
+
+const statusStyles: Record<ShowStatus, string> = {
+  UPCOMING: "bg-gray-100 text-gray-600",
+  ACTIVE: "bg-green-100 text-green-700",
+  COMPLETED: "bg-old-gold text-gunmetal",
+};
+
+interface AwardCategory {
+  id: string;
+  name: string;
+  slug: string;
+  polymarketSlug: string | null;
+  displayOrder: number;
+  _count: { nominees: number };
+}
+
+interface ArticleSource {
+  id: string;
+  source: string;
+  title: string;
+  url: string;
+  active: boolean;
+  lastFetchedAt: string | null;
+}
+
+interface AwardShow {
+  id: string;
+  name: string;
+  slug: string;
+  ceremonyDate: string;
+  status: ShowStatus;
+  description: string | null;
+  polymarketEventSlugs: string[];
+  categories: AwardCategory[];
+  articleSources: ArticleSource[];
+}
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pine-blue";
+
+/**
+ * Send a change to the admin API; alerts and returns false on failure
+ */
+async function send(url: string, method: "POST" | "PATCH" | "DELETE", body?: object): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const json = await response.json();
+    if (!json.success) alert(json.error || "Request failed");
+    return json.success === true;
+  } catch {
+    alert("Request failed");
+    return false;
+  }
+}
+
+function NewShowForm({ onCreated }: { onCreated: () => void }) {
+  const [name, setName] = useState("");
+  const [ceremonyDate, setCeremonyDate] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    if (await send("/api/admin/award-shows", "POST", { name, ceremonyDate })) {
+      setName("");
+      setCeremonyDate("");
+      onCreated();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white border border-dust-grey rounded-lg p-4 mb-6 flex flex-wrap gap-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Show name, e.g. Oscars 2027"
+        className={`${inputClass} flex-1 min-w-60`}
+      />
+      <input
+        type="date"
+        value={ceremonyDate}
+        onChange={(e) => setCeremonyDate(e.target.value)}
+        className={inputClass}
+      />
+      <button
+        type="submit"
+        disabled={saving || !name || !ceremonyDate}
+        className="bg-gunmetal text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors disabled:opacity-50"
+      >
+        Add show
+      </button>
+    </form>
+  );
+}
+
+function ShowSettings({ show, onSaved }: { show: AwardShow; onSaved: () => void }) {
+  const [status, setStatus] = useState<ShowStatus>(show.status);
+  const [ceremonyDate, setCeremonyDate] = useState(show.ceremonyDate.slice(0, 10));
+  const [eventSlugs, setEventSlugs] = useState(show.polymarketEventSlugs.join("\n"));
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    if (await send(`/api/admin/award-shows/${show.id}`, "PATCH", {
+      status,
+      ceremonyDate,
+      polymarketEventSlugs: eventSlugs,
+    })) {
+      onSaved();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+      <label className="text-sm text-gray-600">
+        Status
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ShowStatus)}
+          className={`${inputClass} block w-full mt-1`}
+        >
+          {STATUSES.map((s) => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm text-gray-600">
+        Ceremony date
+        <input
+          type="date"
+          value={ceremonyDate}
+          onChange={(e) => setCeremonyDate(e.target.value)}
+          className={`${inputClass} block w-full mt-1`}
+        />
+      </label>
+      <div className="flex items-end">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-pine-blue text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save settings"}
+        </button>
+      </div>
+      <label className="text-sm text-gray-600 md:col-span-3">
+        Extra Polymarket events (slugs or URLs, one per line). Each becomes a category on the next sync.
+        <textarea
+          value={eventSlugs}
+          onChange={(e) => setEventSlugs(e.target.value)}
+          rows={4}
+          className={`${inputClass} block w-full mt-1 font-mono`}
+        />
+      </label>
+    </div>
+  );
+}
+
+function CategoryRow({ showId, category, onChanged }: { showId: string; category: AwardCategory; onChanged: () => void }) {
+  const [polymarketSlug, setPolymarketSlug] = useState(category.polymarketSlug ?? "");
+  const url = `/api/admin/award-shows/${showId}/categories/${category.id}`;
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${category.name}" with its ${category._count.nominees} nominees and their odds?`)) return;
+    if (await send(url, "DELETE")) onChanged();
+  };
+
+  return (
+    <tr>
+      <td className="py-2 text-gunmetal">{category.name}</td>
+      <td className="py-2 text-gray-500">{category._count.nominees}</td>
+      <td className="py-2">
+        <input
+          type="text"
+          value={polymarketSlug}
+          onChange={(e) => setPolymarketSlug(e.target.value)}
+          onBlur={async () => {
+            if (polymarketSlug !== (category.polymarketSlug ?? "") && await send(url, "PATCH", { polymarketSlug })) {
+              onChanged();
+            }
+          }}
+          placeholder="Not synced from Polymarket"
+          className={`${inputClass} w-full font-mono`}
+        />
+      </td>
+      <td className="py-2 text-right">
+        <button onClick={handleDelete} className="text-xs text-red-600 hover:underline">
+          Delete
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+function NewCategoryForm({ showId, onCreated }: { showId: string; onCreated: () => void }) {
+  const [name, setName] = useState("");
+  const [polymarketSlug, setPolymarketSlug] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await send(`/api/admin/award-shows/${showId}/categories`, "POST", { name, polymarketSlug })) {
+      setName("");
+      setPolymarketSlug("");
+      onCreated();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap gap-2 mt-3">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Category name"
+        className={`${inputClass} flex-1 min-w-48`}
+      />
+      <input
+        type="text"
+        value={polymarketSlug}
+        onChange={(e) => setPolymarketSlug(e.target.value)}
+        placeholder="Polymarket event slug or URL (optional)"
+        className={`${inputClass} flex-1 min-w-48 font-mono`}
+      />
+      <button
+        type="submit"
+        disabled={!name}
+        className="border border-gunmetal text-gunmetal px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+      >
+        Add category
+      </button>
+    </form>
+  );
+}
+
+function NewSourceForm({ showId, onCreated }: { showId: string; onCreated: () => void }) {
+  const [source, setSource] = useState("");
+  const [title, setTitle] = useState("");
+  const [url, setUrl] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await send(`/api/admin/award-shows/${showId}/sources`, "POST", { source, title, url })) {
+      setSource("");
+      setTitle("");
+      setUrl("");
+      onCreated();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap gap-2 mt-3">
+      <input
+        type="text"
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        placeholder="Outlet, e.g. Variety"
+        className={`${inputClass} w-40`}
+      />
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Article title"
+        className={`${inputClass} flex-1 min-w-48`}
+      />
+      <input
+        type="url"
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder="https://..."
+        className={`${inputClass} flex-1 min-w-48`}
+      />
+      <button
+        type="submit"
+        disabled={!source || !title || !url}
+        className="border border-gunmetal text-gunmetal px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+      >
+        Add article
+      </button>
+    </form>
+  );
+}
+
+function ShowCard({ show, onChanged }: { show: AwardShow; onChanged: () => void }) {
+  const [open, setOpen] = useState(show.status !== "COMPLETED");
+  const showUrl = `/api/admin/award-shows/${show.id}`;
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete ${show.name} with all its categories, nominees, odds and articles?`)) return;
+    if (await send(showUrl, "DELETE")) onChanged();
+  };
+
+  return (
+    <div className="bg-white border border-dust-grey rounded-lg p-6">
+      <div className="flex items-start justify-between">
+        <button onClick={() => setOpen(!open)} className="text-left">
+          <div className="flex items-center gap-2">
+            <h2 className="text-xl font-semibold text-gunmetal">{show.name}</h2>
+            <span className={`text-xs px-2 py-1 rounded-full font-medium ${statusStyles[show.status]}`}>
+              {show.status}
+            </span>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            {show.slug} · ceremony {new Date(show.ceremonyDate).toLocaleDateString()} · {show.categories.length}{" "}
+            categories · {show.articleSources.length} article sources
+          </p>
+        </button>
+        <div className="flex items-center gap-3">
+          <Link href={`/awards/${show.slug}`} className="text-sm text-pine-blue hover:underline">
+            View
+          </Link>
+          <button onClick={handleDelete} className="text-sm text-red-600 hover:underline">
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {open && (
+        <div className="mt-6">
+          <ShowSettings show={show} onSaved={onChanged} />
+
+          <h3 className="font-semibold text-gunmetal mb-2">Categories</h3>
+          {show.categories.length === 0 ? (
+            <p className="text-sm text-gray-500">No categories yet. Add them here or list Polymarket events above.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-2 font-medium">Category</th>
+                  <th className="py-2 font-medium">Nominees</th>
+                  <th className="py-2 font-medium">Polymarket event</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {show.categories.map((category) => (
+                  <CategoryRow key={category.id} showId={show.id} category={category} onChanged={onChanged} />
+                ))}
+              </tbody>
+            </table>
+          )}
+          <NewCategoryForm showId={show.id} onCreated={onChanged} />
+
+          <h3 className="font-semibold text-gunmetal mt-6 mb-2">Prediction articles</h3>
+          {show.articleSources.length === 0 ? (
+            <p className="text-sm text-gray-500">No article sources yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {show.articleSources.map((source) => (
+                <li key={source.id} className="flex items-center justify-between py-2 gap-4">
+                  <div className={source.active ? "" : "opacity-50"}>
+                    <span className="font-medium text-gunmetal">{source.source}</span>{" "}
+                    <a href={source.url} target="_blank" rel="noopener noreferrer" className="hover:text-pine-blue">
+                      {source.title}
+                    </a>
+                    <div className="text-xs text-gray-400">
+                      {source.lastFetchedAt
+                        ? `Analyzed ${new Date(source.lastFetchedAt).toLocaleDateString()}`
+                        : "Not analyzed yet"}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <button
+                      onClick={async () => {
+                        if (await send(`${showUrl}/sources/${source.id}`, "PATCH", { active: !source.active })) onChanged();
+                      }}
+                      className="text-xs text-gunmetal hover:underline"
+                    >
+                      {source.active ? "Pause" : "Resume"}
+                    </button>
+                    <button
+                      onClick={async () => {
+                        if (await send(`${showUrl}/sources/${source.id}`, "DELETE")) onChanged();
+                      }}
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          <NewSourceForm showId={show.id} onCreated={onChanged} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AdminAwardsPage() {
+  const [shows, setShows] = useState<AwardShow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = async () => {
+    try {
+      const response = await fetch("/api/admin/award-shows");
+      const json = await response.json();
+      if (json.success) {
+        setShows(json.data);
+        setError(null);
+      } else {
+        setError(json.error || "Failed to load award shows");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load data");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6">
+        <ol className="flex items-center space-x-2 text-sm text-gray-500">
+          <li>
+            <Link href="/admin" className="hover:text-gunmetal">
+              Admin
+            </Link>
+          </li>
+          <li>/</li>
+          <li className="text-gunmetal font-medium">Award Shows</li>
+        </ol>
+      </nav>
+
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gunmetal">Award Shows</h1>
+          <p className="text-gray-600 mt-1">
+            The awards jobs sync every UPCOMING and ACTIVE show: Polymarket odds for its categories and events, and
+            predictions from its articles.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link
+            href="/admin/awards/weights"
+            className="border border-gunmetal text-gunmetal px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors whitespace-nowrap"
+          >
+            Consensus Weights
+          </Link>
+          <Link
+            href="/admin/awards/odds"
+            className="bg-pine-blue text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors whitespace-nowrap"
+          >
+            Enter Odds
+          </Link>
+        </div>
+      </div>
+
+      <NewShowForm onCreated={loadData} />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="bg-gray-100 rounded-lg h-40 animate-pulse" />
+      ) : shows.length === 0 ? (
+        <p className="text-sm text-gray-500">No award shows yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {shows.map((show) => (
+            <ShowCard key={show.id} show={show} onChanged={loadData} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { ConsensusWeights } from "@/lib/consensusCalculator";
+import type { ConsensusWeightsConfig, WeightProposal } from "@/lib/consensusWeights";
+
+interface WeightsData {
+  applied: ConsensusWeightsConfig | null;
+  defaults: ConsensusWeights;
+  asOfHours: number;
+  shrinkage: number;
+  shows: number;
+  proposal: WeightProposal;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pine-blue";
+
+export default function AdminConsensusWeightsPage() {
+  const [data, setData] = useState<WeightsData | null>(null);
+  const [asOfHours, setAsOfHours] = useState("24");
+  const [shrinkage, setShrinkage] = useState("50");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadData = useCallback(async (fitAsOfHours: string, fitShrinkage: string) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ asOfHours: fitAsOfHours, shrinkage: fitShrinkage });
+      const response = await fetch(`/api/admin/consensus-weights?${params}`);
+      const json = await response.json();
+      if (json.success) {
+        setData(json.data);
+        setError(null);
+      } else {
+        setError(json.error || "Failed to fit consensus weights");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load data");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData("24", "50");
+  }, [loadData]);
+
+  const applyWeights = async (weights: ConsensusWeights, fitAsOfHours: number | null, label: string) => {
+    if (!confirm(`Apply ${label}? The awards consensus will use them everywhere right away.`)) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/config", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: "consensusWeights", value: { weights, asOfHours: fitAsOfHours } }),
+      });
+      const json = await response.json();
+      if (json.success) {
+        setMessage(`Applied ${label}.`);
+        await loadData(asOfHours, shrinkage);
+      } else {
+        setError(json.error || "Failed to apply weights");
+      }
+    } catch {
+      setError("Failed to apply weights");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const proposal = data?.proposal;
+  const improvement =
+    proposal?.logLoss.current != null && proposal.logLoss.proposed != null
+      ? proposal.logLoss.current - proposal.logLoss.proposed
+      : null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6">
+        <ol className="flex items-center space-x-2 text-sm text-gray-500">
+          <li>
+            <Link href="/admin" className="hover:text-gunmetal">
+              Admin
+            </Link>
+          </li>
+          <li>/</li>
+          <li>
+            <Link href="/admin/awards" className="hover:text-gunmetal">
+              Award Shows
+            </Link>
+          </li>
+          <li>/</li>
+          <li className="text-gunmetal font-medium">Consensus Weights</li>
+        </ol>
+      </nav>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gunmetal">Consensus Weights</h1>
+        <p className="text-gray-600 mt-1">
+          How much each source counts in the PredictEasy Best Estimate. Proposals are fit to the log loss of every
+          resolved category of a completed show, using each source&apos;s odds as of the cutoff, and shrunk toward the
+          defaults for sources with few observations.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">{error}</div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-700 mb-6">{message}</div>
+      )}
+
+      <div className="bg-white border border-dust-grey rounded-lg p-6 mb-6 flex flex-wrap items-end gap-4">
+        <label className="text-sm text-gray-600">
+          Odds as of (hours before ceremony)
+          <input
+            type="number"
+            min={0}
+            value={asOfHours}
+            onChange={(e) => setAsOfHours(e.target.value)}
+            className={`${inputClass} block w-40 mt-1`}
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Shrinkage (observations)
+          <input
+            type="number"
+            min={0}
+            value={shrinkage}
+            onChange={(e) => setShrinkage(e.target.value)}
+            className={`${inputClass} block w-40 mt-1`}
+          />
+        </label>
+        <button
+          onClick={() => loadData(asOfHours, shrinkage)}
+          disabled={loading}
+          className="bg-pine-blue text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors disabled:opacity-50"
+        >
+          {loading ? "Fitting..." : "Refit"}
+        </button>
+      </div>
+
+      {loading && !data ? (
+        <div className="bg-gray-100 rounded-lg h-40 animate-pulse" />
+      ) : data && proposal && (
+        <div className="bg-white border border-dust-grey rounded-lg p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div className="text-sm text-gray-600">
+              <p>
+                {proposal.observations} nominee lines across {proposal.categories} categories from {data.shows} shows,
+                as of {data.asOfHours}h before each ceremony.
+              </p>
+              <p className="mt-1">
+                Consensus log loss: {proposal.logLoss.current?.toFixed(4) ?? "—"} applied,{" "}
+                {proposal.logLoss.proposed?.toFixed(4) ?? "—"} proposed
+                {improvement !== null && (
+                  <span className={improvement > 0 ? "text-green-700" : "text-gray-500"}>
+                    {" "}({improvement > 0 ? "-" : "+"}{Math.abs(improvement).toFixed(4)})
+                  </span>
+                )}
+              </p>
+              <p className="mt-1 text-gray-500">
+                Applied:{" "}
+                {data.applied
+                  ? data.applied.asOfHours !== null
+                    ? `fit at ${data.applied.asOfHours}h before the ceremony`
+                    : "set by hand"
+                  : "defaults"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {data.applied && (
+                <button
+                  onClick={() => applyWeights(data.defaults, null, "the default weights")}
+                  disabled={saving}
+                  className="border border-gunmetal text-gunmetal px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  Reset to defaults
+                </button>
+              )}
+              <button
+                onClick={() => applyWeights(proposal.weights, data.asOfHours, "the proposed weights")}
+                disabled={saving || proposal.observations === 0}
+                className="bg-gunmetal text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors disabled:opacity-50"
+              >
+                {saving ? "Applying..." : "Apply proposed weights"}
+              </button>
+            </div>
+          </div>
+
+          {proposal.observations === 0 && (
+            <p className="text-sm text-gray-500 mb-4">
+              No resolved categories with odds before the cutoff yet. Weights can be fit once a show is COMPLETED and
+              its winners are set.
+            </p>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="py-2 font-medium">Source</th>
+                <th className="py-2 font-medium">Lines</th>
+                <th className="py-2 font-medium">Categories</th>
+                <th className="py-2 font-medium">Log loss</th>
+                <th className="py-2 font-medium">Default</th>
+                <th className="py-2 font-medium">Applied</th>
+                <th className="py-2 font-medium">Fitted</th>
+                <th className="py-2 font-medium">Proposed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {proposal.sources.map((source) => (
+                <tr key={source.source}>
+                  <td className="py-2 text-gunmetal font-medium">{source.source}</td>
+                  <td className="py-2">{source.observations}</td>
+                  <td className="py-2">{source.categories}</td>
+                  <td className="py-2">{source.logLoss?.toFixed(4) ?? "—"}</td>
+                  <td className="py-2 text-gray-500">{percent(source.defaultWeight)}</td>
+                  <td className="py-2">{percent(source.currentWeight)}</td>
+                  <td className="py-2 text-gray-500">{source.observations > 0 ? percent(source.fittedWeight) : "—"}</td>
+                  <td className="py-2 font-medium">{percent(source.proposedWeight)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+interface ModelRun {
+  id: string;
+  modelVersion: string;
+  targetWeekStart: string;
+  champion: boolean;
+  forecastCount: number;
+  createdAt: string;
+}
+
+interface ForecastModelInfo {
+  id: string;
+  version: string;
+  description: string;
+  champion: boolean;
+  recentRuns: ModelRun[];
+}
+
+export default function AdminModelsPage() {
+  const [models, setModels] = useState<ForecastModelInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadData = async () => {
+    try {
+      const response = await fetch("/api/admin/forecast-models");
+      const json = await response.json();
+      if (json.success) {
+        setModels(json.data.models);
+        setError(null);
+      } else {
+        setError(json.error || "Failed to load forecast models");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load data");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const handleMakeChampion = async (modelId: string) => {
+    if (!confirm(`Make "${modelId}" the champion? Its latest forecasts will replace the live ones.`)) return;
+
+    setSaving(modelId);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/config", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: "championModel", value: { value: modelId } }),
+      });
+      const json = await response.json();
+      if (json.success) {
+        const published = json.data.forecastsPublished;
+        setMessage(
+          published !== undefined
+            ? `${modelId} is now champion; ${published} forecasts published.`
+            : `${modelId} is now champion; its forecasts go live at the next forecast run.`
+        );
+        await loadData();
+      } else {
+        setError(json.error || "Failed to change champion");
+      }
+    } catch {
+      setError("Failed to change champion");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6">
+        <ol className="flex items-center space-x-2 text-sm text-gray-500">
+          <li>
+            <Link href="/admin" className="hover:text-gunmetal">
+              Admin
+            </Link>
+          </li>
+          <li>/</li>
+          <li className="text-gunmetal font-medium">Forecast Models</li>
+        </ol>
+      </nav>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gunmetal">Forecast Models</h1>
+        <p className="text-gray-600 mt-1">
+          Every model runs on each forecast job. The champion&apos;s forecasts feed opportunities and the rest of the
+          app; challengers are stored for comparison.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">{error}</div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-700 mb-6">{message}</div>
+      )}
+
+      {loading ? (
+        <div className="bg-gray-100 rounded-lg h-40 animate-pulse" />
+      ) : (
+        <div className="space-y-4">
+          {models.map((model) => (
+            <div key={model.id} className="bg-white border border-dust-grey rounded-lg p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h2 className="text-xl font-semibold text-gunmetal">{model.id}</h2>
+                    <span className="text-xs text-gray-400">v{model.version}</span>
+                    {model.champion && (
+                      <span className="text-xs px-2 py-1 rounded-full bg-old-gold text-gunmetal font-medium">
+                        Champion
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">{model.description}</p>
+                </div>
+                {!model.champion && (
+                  <button
+                    onClick={() => handleMakeChampion(model.id)}
+                    disabled={saving !== null}
+                    className="bg-gunmetal text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors disabled:opacity-50"
+                  >
+                    {saving === model.id ? "Switching..." : "Make champion"}
+                  </button>
+                )}
+              </div>
+
+              {model.recentRuns.length === 0 ? (
+                <p className="text-sm text-gray-500">No live runs yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-100">
+                      <th className="py-2 font-medium">Run</th>
+                      <th className="py-2 font-medium">Target week</th>
+                      <th className="py-2 font-medium">Version</th>
+                      <th className="py-2 font-medium">Forecasts</th>
+                      <th className="py-2 font-medium">Live</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {model.recentRuns.map((run) => (
+                      <tr key={run.id}>
+                        <td className="py-2 text-gunmetal">{new Date(run.createdAt).toLocaleString()}</td>
+                        <td className="py-2">{run.targetWeekStart}</td>
+                        <td className="py-2">{run.modelVersion}</td>
+                        <td className="py-2">{run.forecastCount}</td>
+                        <td className="py-2">{run.champion ? "Yes" : "No"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type MappingStatus = "PENDING" | "CONFIRMED";
+type MappingReason = "FUZZY_MATCH" | "AUTO_CREATED";
+
+const reasonLabels: Record<MappingReason, string> = {
+  FUZZY_MATCH: "Fuzzy match",
+  AUTO_CREATED: "New title created",
+};
+
+interface MappingTitle {
+  id: string;
+  canonicalName: string;
+  type: "SHOW" | "MOVIE";
+  aliases: string[] | null;
+}
+
+interface OutcomeMapping {
+  id: string;
+  outcomeName: string;
+  titleType: "SHOW" | "MOVIE";
+  reason: MappingReason;
+  status: MappingStatus;
+  marketSlug: string | null;
+  seenCount: number;
+  lastSeenAt: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  suggestedTitle: MappingTitle | null;
+  title: MappingTitle | null;
+}
+
+function MappingCard({ mapping, onReviewed }: { mapping: OutcomeMapping; onReviewed: () => void }) {
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<{ id: string; canonicalName: string; type: string }[]>([]);
+  const [remapTo, setRemapTo] = useState<{ id: string; canonicalName: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const chosen = remapTo ?? mapping.suggestedTitle;
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (search.length < 2) return;
+    const response = await fetch(`/api/titles?search=${encodeURIComponent(search)}&type=${mapping.titleType}&pageSize=10`);
+    const json = await response.json();
+    if (json.success) setResults(json.data);
+  };
+
+  const handleConfirm = async (addAlias: boolean) => {
+    if (!chosen) return;
+    if (remapTo && mapping.reason === "AUTO_CREATED" && mapping.suggestedTitle) {
+      if (!confirm(`"${mapping.suggestedTitle.canonicalName}" will be merged into "${remapTo.canonicalName}". Continue?`)) return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/admin/outcome-mappings/${mapping.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ titleId: remapTo?.id, addAlias }),
+      });
+      const json = await response.json();
+      if (!json.success) alert(json.error || "Review failed");
+      onReviewed();
+    } catch {
+      alert("Review failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-dust-grey rounded-lg p-4">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <div className="font-medium text-gunmetal">{mapping.outcomeName}</div>
+          <div className="text-xs text-gray-400">
+            {mapping.titleType} · seen {mapping.seenCount}x · last {new Date(mapping.lastSeenAt).toLocaleDateString()}
+            {mapping.marketSlug && <> · {mapping.marketSlug}</>}
+          </div>
+        </div>
+        <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600">{reasonLabels[mapping.reason]}</span>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-3">
+        {mapping.suggestedTitle ? (
+          <>
+            Suggested:{" "}
+            <Link href={`/netflix/${mapping.suggestedTitle.id}`} className="text-gunmetal hover:text-pine-blue font-medium">
+              {mapping.suggestedTitle.canonicalName}
+            </Link>
+            {(mapping.suggestedTitle.aliases ?? []).length > 0 && (
+              <span className="text-xs text-gray-400"> aka {(mapping.suggestedTitle.aliases ?? []).join(", ")}</span>
+            )}
+          </>
+        ) : (
+          "No suggestion; pick a title below."
+        )}
+      </p>
+
+      <form onSubmit={handleSearch} className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Remap to another title..."
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pine-blue"
+        />
+        <button type="submit" className="px-4 py-2 text-sm bg-pine-blue text-white rounded-lg hover:bg-opacity-90">
+          Search
+        </button>
+      </form>
+
+      {results.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {results.map((r) => (
+            <li key={r.id}>
+              <button
+                onClick={() => {
+                  setRemapTo(r);
+                  setResults([]);
+                }}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+              >
+                {r.canonicalName} <span className="text-gray-400">({r.type})</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {remapTo && (
+        <p className="text-sm text-gray-600 mb-3">
+          Remap to <span className="font-medium text-gunmetal">{remapTo.canonicalName}</span>{" "}
+          <button onClick={() => setRemapTo(null)} className="text-xs text-red-600 hover:underline">
+            clear
+          </button>
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => handleConfirm(false)}
+          disabled={saving || !chosen}
+          className="bg-gunmetal text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors disabled:opacity-50"
+        >
+          {remapTo ? "Remap" : "Confirm"}
+        </button>
+        <button
+          onClick={() => handleConfirm(true)}
+          disabled={saving || !chosen}
+          className="border border-gunmetal text-gunmetal px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          {remapTo ? "Remap" : "Confirm"} + add alias
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminOutcomeMappingsPage() {
+  const [status, setStatus] = useState<MappingStatus>("PENDING");
+  const [mappings, setMappings] = useState<OutcomeMapping[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = async (forStatus: MappingStatus) => {
+    try {
+      const response = await fetch(`/api/admin/outcome-mappings?status=${forStatus}`);
+      const json = await response.json();
+      if (json.success) {
+        setMappings(json.data);
+        setError(null);
+      } else {
+        setError(json.error || "Failed to load outcome mappings");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load data");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData(status);
+  }, [status]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6">
+        <ol className="flex items-center space-x-2 text-sm text-gray-500">
+          <li>
+            <Link href="/admin" className="hover:text-gunmetal">
+              Admin
+            </Link>
+          </li>
+          <li>/</li>
+          <li className="text-gunmetal font-medium">Outcome Mappings</li>
+        </ol>
+      </nav>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gunmetal">Outcome Mappings</h1>
+        <p className="text-gray-600 mt-1">
+          Polymarket outcomes the sync job could not match exactly. Confirmed decisions are reused on every later sync.
+        </p>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {(["PENDING", "CONFIRMED"] as MappingStatus[]).map((s) => (
+          <button
+            key={s}
+            onClick={() => setStatus(s)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium ${
+              status === s ? "bg-gunmetal text-white" : "bg-white border border-dust-grey text-gunmetal"
+            }`}
+          >
+            {s === "PENDING" ? "Needs review" : "Confirmed"}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="bg-gray-100 rounded-lg h-40 animate-pulse" />
+      ) : mappings.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {status === "PENDING" ? "Nothing to review." : "No confirmed mappings yet."}
+        </p>
+      ) : status === "PENDING" ? (
+        <div className="space-y-4">
+          {mappings.map((mapping) => (
+            <MappingCard key={mapping.id} mapping={mapping} onReviewed={() => loadData(status)} />
+          ))}
+        </div>
+      ) : (
+        <div className="bg-white border border-dust-grey rounded-lg divide-y divide-gray-100">
+          {mappings.map((mapping) => (
+            <div key={mapping.id} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <span className="text-gunmetal">{mapping.outcomeName}</span>
+                <span className="mx-2 text-gray-400">→</span>
+                {mapping.title ? (
+                  <Link href={`/netflix/${mapping.title.id}`} className="text-gunmetal hover:text-pine-blue font-medium">
+                    {mapping.title.canonicalName}
+                  </Link>
+                ) : (
+                  <span className="text-gray-400">deleted title</span>
+                )}
+              </div>
+              <span className="text-xs text-gray-400">
+                {mapping.reviewedAt && new Date(mapping.reviewedAt).toLocaleDateString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -52,6 +52,36 @@ export default function AdminPage() {
           description="Fetch pacing signals for watchlist titles"
           endpoint="/api/jobs/ingest-pacing"
         />
+        <JobCard
+          title="Backtest Forecasts"
+          description="Score forecasts against realized Top 10 ranks"
+          endpoint="/api/jobs/backtest-forecasts"
+        />
+        <JobCard
+          title="Fit Premiere Curves"
+          description="Learn day-by-day release curves by type and genre"
+          endpoint="/api/jobs/fit-premiere-curves"
+        />
+        <JobCard
+          title="Track Calibration"
+          description="Snapshot market probabilities and score resolved markets"
+          endpoint="/api/jobs/track-calibration"
+        />
+        <JobCard
+          title="Paper Trading"
+          description="Settle resolved paper positions and trade current signals"
+          endpoint="/api/jobs/paper-trading"
+        />
+        <JobCard
+          title="Resolve Awards"
+          description="Mark winners from resolved Polymarket events and complete shows"
+          endpoint="/api/jobs/resolve-awards"
+        />
+        <JobCard
+          title="Ingest Order Books"
+          description="Snapshot CLOB bid/ask ladders for active markets"
+          endpoint="/api/jobs/ingest-order-books"
+        />
       </div>
 
       {/* Admin Links */}
@@ -94,6 +124,58 @@ export default function AdminPage() {
             Manage Releases
           </a>
         </div>
+
+        <div className="bg-white border border-dust-grey rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-gunmetal mb-4">Title Resolution</h2>
+          <p className="text-gray-600 mb-4">
+            Merge duplicate titles, split wrong merges, and undo either.
+          </p>
+          <a
+            href="/admin/titles"
+            className="inline-block bg-gunmetal text-white px-4 py-2 rounded-lg hover:bg-opacity-90 transition-colors font-medium"
+          >
+            Resolve Titles
+          </a>
+        </div>
+
+        <div className="bg-white border border-dust-grey rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-gunmetal mb-4">Outcome Mappings</h2>
+          <p className="text-gray-600 mb-4">
+            Review fuzzy and newly created Polymarket outcome matches.
+          </p>
+          <a
+            href="/admin/outcome-mappings"
+            className="inline-block bg-gunmetal text-white px-4 py-2 rounded-lg hover:bg-opacity-90 transition-colors font-medium"
+          >
+            Review Matches
+          </a>
+        </div>
+
+        <div className="bg-white border border-dust-grey rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-gunmetal mb-4">Forecast Models</h2>
+          <p className="text-gray-600 mb-4">
+            Compare champion and challenger models and choose which one goes live.
+          </p>
+          <a
+            href="/admin/models"
+            className="inline-block bg-pine-blue text-white px-4 py-2 rounded-lg hover:bg-opacity-90 transition-colors font-medium"
+          >
+            Manage Models
+          </a>
+        </div>
+
+        <div className="bg-white border border-dust-grey rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-gunmetal mb-4">Award Shows</h2>
+          <p className="text-gray-600 mb-4">
+            Set up shows, categories, Polymarket events and prediction articles for the awards jobs.
+          </p>
+          <a
+            href="/admin/awards"
+            className="inline-block bg-old-gold text-gunmetal px-4 py-2 rounded-lg hover:bg-opacity-90 transition-colors font-medium"
+          >
+            Manage Shows
+          </a>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,449 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type DuplicateReason = "NAME_MATCH" | "ALIAS" | "FUZZY_NAME" | "SHARED_EXTERNAL_ID";
+
+const reasonLabels: Record<DuplicateReason, string> = {
+  SHARED_EXTERNAL_ID: "Shared external ID",
+  NAME_MATCH: "Same name",
+  ALIAS: "Alias / season variant",
+  FUZZY_NAME: "Similar name",
+};
+
+interface ClusterTitle {
+  id: string;
+  canonicalName: string;
+  type: "SHOW" | "MOVIE";
+  aliases: string[];
+  externalIds: { provider: string; externalId: string }[];
+  counts: {
+    weeklyGlobal: number;
+    weeklyUS: number;
+    dailySignals: number;
+    forecasts: number;
+    marketLinks: number;
+  };
+}
+
+interface DuplicateCluster {
+  titleIds: string[];
+  pairs: { titleIds: [string, string]; reason: DuplicateReason; detail: string }[];
+  titles: ClusterTitle[];
+}
+
+interface AuditEntry {
+  id: string;
+  action: "MERGE" | "SPLIT";
+  summary: string;
+  performedBy: string;
+  createdAt: string;
+  undoneAt: string | null;
+}
+
+interface TitleRows {
+  title: { id: string; canonicalName: string; type: "SHOW" | "MOVIE"; aliases: string[] | null };
+  relations: { relation: string; label: string; total: number; rows: { id: string; summary: string }[] }[];
+}
+
+function titleWeight(title: ClusterTitle): number {
+  return title.counts.weeklyGlobal + title.counts.weeklyUS + title.counts.marketLinks * 10;
+}
+
+function ClusterCard({ cluster, onMerged }: { cluster: DuplicateCluster; onMerged: () => void }) {
+  // Default survivor: the title carrying the most rankings and market links
+  const [targetId, setTargetId] = useState(
+    () => [...cluster.titles].sort((a, b) => titleWeight(b) - titleWeight(a))[0].id
+  );
+  const [merging, setMerging] = useState(false);
+
+  const target = cluster.titles.find((t) => t.id === targetId)!;
+  const sources = cluster.titles.filter((t) => t.id !== targetId);
+
+  const handleMerge = async () => {
+    if (!confirm(`Merge ${sources.map((s) => `"${s.canonicalName}"`).join(", ")} into "${target.canonicalName}"?`)) return;
+
+    setMerging(true);
+    try {
+      const response = await fetch("/api/admin/titles/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targetId, sourceIds: sources.map((s) => s.id) }),
+      });
+      const json = await response.json();
+      if (!json.success) alert(json.error || "Merge failed");
+      onMerged();
+    } catch {
+      alert("Merge failed");
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-dust-grey rounded-lg p-4">
+      <div className="flex flex-wrap gap-2 mb-3">
+        {cluster.pairs.map((pair, i) => (
+          <span key={i} className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600" title={pair.detail}>
+            {reasonLabels[pair.reason]}: {pair.detail}
+          </span>
+        ))}
+      </div>
+
+      <table className="min-w-full text-sm mb-3">
+        <thead className="text-gray-500 text-left">
+          <tr>
+            <th className="py-1 pr-2">Keep</th>
+            <th className="py-1 pr-2">Title</th>
+            <th className="py-1 pr-2">Type</th>
+            <th className="py-1 pr-2">Weeks (G/US)</th>
+            <th className="py-1 pr-2">Signals</th>
+            <th className="py-1 pr-2">Forecasts</th>
+            <th className="py-1 pr-2">Markets</th>
+            <th className="py-1">External IDs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cluster.titles.map((title) => (
+            <tr key={title.id} className="border-t border-gray-100">
+              <td className="py-1 pr-2">
+                <input
+                  type="radio"
+                  checked={title.id === targetId}
+                  onChange={() => setTargetId(title.id)}
+                  className="accent-pine-blue"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <Link href={`/netflix/${title.id}`} className="text-gunmetal hover:text-pine-blue font-medium">
+                  {title.canonicalName}
+                </Link>
+                {title.aliases.length > 0 && (
+                  <div className="text-xs text-gray-400">aka {title.aliases.join(", ")}</div>
+                )}
+              </td>
+              <td className="py-1 pr-2 text-gray-500">{title.type}</td>
+              <td className="py-1 pr-2">{title.counts.weeklyGlobal}/{title.counts.weeklyUS}</td>
+              <td className="py-1 pr-2">{title.counts.dailySignals}</td>
+              <td className="py-1 pr-2">{title.counts.forecasts}</td>
+              <td className="py-1 pr-2">{title.counts.marketLinks}</td>
+              <td className="py-1 text-xs text-gray-500">
+                {title.externalIds.map((e) => `${e.provider}:${e.externalId}`).join(", ") || "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button
+        onClick={handleMerge}
+        disabled={merging}
+        className="bg-gunmetal text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 transition-colors disabled:opacity-50"
+      >
+        {merging ? "Merging..." : `Merge into "${target.canonicalName}"`}
+      </button>
+    </div>
+  );
+}
+
+function SplitPanel({ onSplit }: { onSplit: () => void }) {
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<{ id: string; canonicalName: string; type: string }[]>([]);
+  const [detail, setDetail] = useState<TitleRows | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<"SHOW" | "MOVIE">("SHOW");
+  const [aliases, setAliases] = useState<Set<string>>(new Set());
+  const [rows, setRows] = useState<Record<string, Set<string>>>({});
+  const [saving, setSaving] = useState(false);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (search.length < 2) return;
+    const response = await fetch(`/api/titles?search=${encodeURIComponent(search)}&pageSize=10`);
+    const json = await response.json();
+    if (json.success) setResults(json.data);
+  };
+
+  const loadTitle = async (id: string) => {
+    const response = await fetch(`/api/admin/titles/${id}/rows`);
+    const json = await response.json();
+    if (json.success) {
+      setDetail(json.data);
+      setNewType(json.data.title.type);
+      setNewName("");
+      setAliases(new Set());
+      setRows({});
+      setResults([]);
+    } else {
+      alert(json.error || "Failed to load title");
+    }
+  };
+
+  const toggleRow = (relation: string, id: string) => {
+    setRows((prev) => {
+      const next = new Set(prev[relation] ?? []);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return { ...prev, [relation]: next };
+    });
+  };
+
+  const toggleAlias = (alias: string) => {
+    setAliases((prev) => {
+      const next = new Set(prev);
+      if (next.has(alias)) next.delete(alias);
+      else next.add(alias);
+      return next;
+    });
+  };
+
+  const handleSplit = async () => {
+    if (!detail || !newName.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/admin/titles/split", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          titleId: detail.title.id,
+          canonicalName: newName,
+          type: newType,
+          aliases: [...aliases],
+          rows: Object.fromEntries(Object.entries(rows).map(([relation, ids]) => [relation, [...ids]])),
+        }),
+      });
+      const json = await response.json();
+      if (json.success) {
+        setDetail(null);
+        onSplit();
+      } else {
+        alert(json.error || "Split failed");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-dust-grey rounded-lg p-4">
+      <form onSubmit={handleSearch} className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Find the wrongly merged title..."
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pine-blue"
+        />
+        <button type="submit" className="px-4 py-2 text-sm bg-pine-blue text-white rounded-lg hover:bg-opacity-90">
+          Search
+        </button>
+      </form>
+
+      {results.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {results.map((r) => (
+            <li key={r.id}>
+              <button onClick={() => loadTitle(r.id)} className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50">
+                {r.canonicalName} <span className="text-gray-400">({r.type})</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {detail && (
+        <div>
+          <p className="text-sm text-gray-600 mb-3">
+            Splitting out of <span className="font-medium text-gunmetal">{detail.title.canonicalName}</span>. Pick the
+            aliases and rows that belong to the new title.
+          </p>
+
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New title name"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pine-blue"
+            />
+            <select
+              value={newType}
+              onChange={(e) => setNewType(e.target.value as "SHOW" | "MOVIE")}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="SHOW">TV Show</option>
+              <option value="MOVIE">Movie</option>
+            </select>
+          </div>
+
+          {(detail.title.aliases ?? []).length > 0 && (
+            <div className="mb-4">
+              <h4 className="text-sm font-medium text-gunmetal mb-1">Aliases</h4>
+              <div className="flex flex-wrap gap-3">
+                {(detail.title.aliases ?? []).map((alias) => (
+                  <label key={alias} className="text-sm flex items-center gap-1">
+                    <input type="checkbox" checked={aliases.has(alias)} onChange={() => toggleAlias(alias)} />
+                    {alias}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {detail.relations.map((group) => (
+            <details key={group.relation} className="mb-2 border border-gray-100 rounded-lg">
+              <summary className="px-3 py-2 text-sm cursor-pointer">
+                {group.label} ({rows[group.relation]?.size ?? 0} of {group.total} selected)
+              </summary>
+              <div className="px-3 pb-2 max-h-60 overflow-y-auto">
+                {group.rows.map((row) => (
+                  <label key={row.id} className="flex items-center gap-2 text-xs py-0.5">
+                    <input
+                      type="checkbox"
+                      checked={rows[group.relation]?.has(row.id) ?? false}
+                      onChange={() => toggleRow(group.relation, row.id)}
+                    />
+                    {row.summary}
+                  </label>
+                ))}
+              </div>
+            </details>
+          ))}
+
+          <button
+            onClick={handleSplit}
+            disabled={saving || !newName.trim()}
+            className="mt-2 bg-gunmetal text-white px-4 py-2 rounded-lg text-sm hover:bg-opacity-90 disabled:opacity-50"
+          >
+            {saving ? "Splitting..." : "Split into new title"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AdminTitlesPage() {
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [titlesScanned, setTitlesScanned] = useState(0);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = async () => {
+    try {
+      const [clustersRes, auditRes] = await Promise.all([
+        fetch("/api/admin/titles/duplicates"),
+        fetch("/api/admin/titles/audit?limit=25"),
+      ]);
+      const clustersJson = await clustersRes.json();
+      const auditJson = await auditRes.json();
+
+      if (clustersJson.success) {
+        setClusters(clustersJson.data);
+        setTitlesScanned(clustersJson.meta.titlesScanned);
+      } else {
+        setError(clustersJson.error || "Failed to load duplicates");
+      }
+      if (auditJson.success) setAudit(auditJson.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load data");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const handleUndo = async (entry: AuditEntry) => {
+    if (!confirm(`Undo: ${entry.summary}?`)) return;
+
+    const response = await fetch(`/api/admin/titles/audit/${entry.id}/undo`, { method: "POST" });
+    const json = await response.json();
+    if (!json.success) alert(json.error || "Undo failed");
+    loadData();
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6">
+        <ol className="flex items-center space-x-2 text-sm text-gray-500">
+          <li>
+            <Link href="/admin" className="hover:text-gunmetal">
+              Admin
+            </Link>
+          </li>
+          <li>/</li>
+          <li className="text-gunmetal font-medium">Titles</li>
+        </ol>
+      </nav>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gunmetal">Title Resolution</h1>
+        <p className="text-gray-600 mt-1">
+          Merge duplicate titles and split wrongly merged ones. Every change can be undone from the log below.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-6">{error}</div>
+      )}
+
+      <section className="mb-10">
+        <h2 className="text-xl font-semibold text-gunmetal mb-1">Probable Duplicates</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          {loading ? "Scanning titles..." : `${clusters.length} clusters across ${titlesScanned} titles`}
+        </p>
+        {loading ? (
+          <div className="bg-gray-100 rounded-lg h-40 animate-pulse" />
+        ) : clusters.length === 0 ? (
+          <p className="text-sm text-gray-500">No probable duplicates found.</p>
+        ) : (
+          <div className="space-y-4">
+            {clusters.map((cluster) => (
+              <ClusterCard key={cluster.titleIds.join("|")} cluster={cluster} onMerged={loadData} />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="mb-10">
+        <h2 className="text-xl font-semibold text-gunmetal mb-4">Split a Title</h2>
+        <SplitPanel onSplit={loadData} />
+      </section>
+
+      <section>
+        <h2 className="text-xl font-semibold text-gunmetal mb-4">Change Log</h2>
+        {audit.length === 0 ? (
+          <p className="text-sm text-gray-500">No merges or splits yet.</p>
+        ) : (
+          <div className="bg-white border border-dust-grey rounded-lg divide-y divide-gray-100">
+            {audit.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between px-4 py-3 text-sm">
+                <div>
+                  <span className={`mr-2 px-2 py-0.5 rounded text-xs ${entry.action === "MERGE" ? "bg-pine-blue text-white" : "bg-old-gold text-gunmetal"}`}>
+                    {entry.action}
+                  </span>
+                  <span className={entry.undoneAt ? "line-through text-gray-400" : "text-gunmetal"}>{entry.summary}</span>
+                  <span className="ml-2 text-xs text-gray-400">{new Date(entry.createdAt).toLocaleString()}</span>
+                </div>
+                {entry.undoneAt ? (
+                  <span className="text-xs text-gray-400">Undone {new Date(entry.undoneAt).toLocaleDateString()}</span>
+                ) : (
+                  <button onClick={() => handleUndo(entry)} className="text-red-600 hover:underline">
+                    Undo
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
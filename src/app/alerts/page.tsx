@@ -0,0 +1,423 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useUser } from "@clerk/nextjs";
+import Header from "@/components/Header";
+
+type RuleType = "EDGE_THRESHOLD" | "INSIDER_BADGE" | "PRICE_MOVE" | "AWARD_DIVERGENCE";
+type ChannelType = "WEBHOOK" | "EMAIL" | "DISCORD" | "SLACK";
+
+const ruleTypeLabels: Record<RuleType, string> = {
+  EDGE_THRESHOLD: "Model edge",
+  INSIDER_BADGE: "Insider badges",
+  PRICE_MOVE: "Price move",
+  AWARD_DIVERGENCE: "Awards divergence",
+};
+
+const channelLabels: Record<ChannelType, string> = {
+  WEBHOOK: "Webhook (JSON)",
+  EMAIL: "Email",
+  DISCORD: "Discord webhook",
+  SLACK: "Slack webhook",
+};
+
+const CATEGORIES = ["shows-us", "shows-global", "films-us", "films-global"];
+const BADGE_TYPES = [
+  "FRESH_WALLET",
+  "BIG_BET",
+  "PRE_MOVE",
+  "LONG_SHOT",
+  "HIGH_WIN_RATE",
+  "LATE_WINNER",
+  "FIRST_MOVER",
+  "SINGLE_MARKET",
+];
+
+interface AlertRule {
+  id: string;
+  name: string;
+  type: RuleType;
+  params: Record<string, unknown>;
+  channel: ChannelType;
+  target: string;
+  isActive: boolean;
+  cooldownMinutes: number;
+  lastFiredAt: string | null;
+  _count: { events: number };
+}
+
+interface AlertEvent {
+  id: string;
+  title: string;
+  message: string;
+  delivered: boolean;
+  error: string | null;
+  jobName: string | null;
+  firedAt: string;
+  rule: { name: string; type: RuleType; channel: ChannelType };
+}
+
+interface RuleForm {
+  name: string;
+  type: RuleType;
+  channel: ChannelType;
+  target: string;
+  cooldownMinutes: number;
+  threshold: number;
+  category: string;
+  direction: string;
+  windowHours: number;
+  badgeTypes: string[];
+  marketQuery: string;
+  showSlug: string;
+}
+
+const emptyForm: RuleForm = {
+  name: "",
+  type: "EDGE_THRESHOLD",
+  channel: "DISCORD",
+  target: "",
+  cooldownMinutes: 360,
+  threshold: 15,
+  category: "",
+  direction: "",
+  windowHours: 24,
+  badgeTypes: ["FRESH_WALLET", "BIG_BET"],
+  marketQuery: "netflix",
+  showSlug: "",
+};
+
+function buildParams(form: RuleForm): Record<string, unknown> {
+  switch (form.type) {
+    case "EDGE_THRESHOLD":
+      return { minEdge: form.threshold, category: form.category || undefined, direction: form.direction || undefined };
+    case "INSIDER_BADGE":
+      return { badgeTypes: form.badgeTypes, marketQuery: form.marketQuery || undefined };
+    case "PRICE_MOVE":
+      return { minMove: form.threshold, windowHours: form.windowHours, category: form.category || undefined };
+    case "AWARD_DIVERGENCE":
+      return { minDivergence: form.threshold, showSlug: form.showSlug || undefined };
+  }
+}
+
+function describeRule(rule: AlertRule): string {
+  const p = rule.params;
+  switch (rule.type) {
+    case "EDGE_THRESHOLD":
+      return `${p.direction ?? "BUY or AVOID"} edge ≥ ${p.minEdge} pts on ${p.category ?? "all markets"}`;
+    case "INSIDER_BADGE":
+      return `Wallet earns ${(p.badgeTypes as string[]).join(" + ")}${p.marketQuery ? ` on "${p.marketQuery}" markets` : ""}`;
+    case "PRICE_MOVE":
+      return `Move ≥ ${p.minMove} pts in ${p.windowHours}h on ${p.category ?? "all markets"}`;
+    case "AWARD_DIVERGENCE":
+      return `Polymarket vs consensus ≥ ${p.minDivergence} pts${p.showSlug ? ` (${p.showSlug})` : ""}`;
+  }
+}
+
+export default function AlertsPage() {
+  const { isSignedIn, isLoaded } = useUser();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    async function fetchAlerts() {
+      try {
+        const [rulesRes, historyRes] = await Promise.all([
+          fetch("/api/alerts"),
+          fetch("/api/alerts/history"),
+        ]);
+        const [rulesJson, historyJson] = await Promise.all([rulesRes.json(), historyRes.json()]);
+
+        if (rulesJson.success) setRules(rulesJson.data);
+        if (historyJson.success) setEvents(historyJson.data);
+        if (!rulesJson.success) setError(rulesJson.error || "Failed to fetch alert rules");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch data");
+      }
+    }
+
+    fetchAlerts();
+  }, [isSignedIn, version]);
+
+  async function createRule(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name || ruleTypeLabels[form.type],
+          type: form.type,
+          params: buildParams(form),
+          channel: form.channel,
+          target: form.target,
+          cooldownMinutes: form.cooldownMinutes,
+        }),
+      });
+      const json = await response.json();
+
+      if (json.success) {
+        setForm(emptyForm);
+        setVersion((v) => v + 1);
+      } else {
+        setError(json.error || "Failed to create rule");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create rule");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleRule(rule: AlertRule) {
+    await fetch(`/api/alerts/${rule.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isActive: !rule.isActive }),
+    });
+    setVersion((v) => v + 1);
+  }
+
+  async function deleteRule(rule: AlertRule) {
+    if (!confirm(`Delete "${rule.name}" and its alert history?`)) return;
+    await fetch(`/api/alerts/${rule.id}`, { method: "DELETE" });
+    setVersion((v) => v + 1);
+  }
+
+  const update = (patch: Partial<RuleForm>) => setForm((f) => ({ ...f, ...patch }));
+  const inputClass = "w-full border border-dust-grey rounded-md px-3 py-2 text-sm text-gunmetal focus:outline-none focus:border-pine-blue";
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex-1 w-full">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gunmetal">Alerts</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Get notified when an edge, insider wallet, price move or awards divergence crosses your threshold.
+            Rules are checked each time the job that feeds them finishes.
+          </p>
+        </div>
+
+        {isLoaded && !isSignedIn ? (
+          <div className="bg-gray-50 rounded-lg p-6 text-center border border-dust-grey">
+            <p className="text-gray-500">Sign in to create alert rules.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Create Rule */}
+            <form onSubmit={createRule} className="border border-dust-grey rounded-lg p-4 space-y-3 h-fit">
+              <h2 className="font-semibold text-gunmetal">New rule</h2>
+
+              <label className="block text-xs text-gray-500">
+                Type
+                <select className={inputClass} value={form.type} onChange={(e) => update({ type: e.target.value as RuleType })}>
+                  {(Object.keys(ruleTypeLabels) as RuleType[]).map((t) => (
+                    <option key={t} value={t}>{ruleTypeLabels[t]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="block text-xs text-gray-500">
+                Name
+                <input className={inputClass} value={form.name} placeholder={ruleTypeLabels[form.type]} onChange={(e) => update({ name: e.target.value })} />
+              </label>
+
+              {form.type !== "INSIDER_BADGE" && (
+                <label className="block text-xs text-gray-500">
+                  Threshold (points)
+                  <input type="number" min={1} step={0.5} className={inputClass} value={form.threshold} onChange={(e) => update({ threshold: parseFloat(e.target.value) })} />
+                </label>
+              )}
+
+              {(form.type === "EDGE_THRESHOLD" || form.type === "PRICE_MOVE") && (
+                <label className="block text-xs text-gray-500">
+                  Market
+                  <select className={inputClass} value={form.category} onChange={(e) => update({ category: e.target.value })}>
+                    <option value="">All weekly Netflix markets</option>
+                    {CATEGORIES.map((c) => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </label>
+              )}
+
+              {form.type === "EDGE_THRESHOLD" && (
+                <label className="block text-xs text-gray-500">
+                  Direction
+                  <select className={inputClass} value={form.direction} onChange={(e) => update({ direction: e.target.value })}>
+                    <option value="">BUY or AVOID</option>
+                    <option value="BUY">BUY (underpriced)</option>
+                    <option value="AVOID">AVOID (overpriced)</option>
+                  </select>
+                </label>
+              )}
+
+              {form.type === "PRICE_MOVE" && (
+                <label className="block text-xs text-gray-500">
+                  Window (hours)
+                  <input type="number" min={1} max={168} className={inputClass} value={form.windowHours} onChange={(e) => update({ windowHours: parseInt(e.target.value) })} />
+                </label>
+              )}
+
+              {form.type === "INSIDER_BADGE" && (
+                <>
+                  <fieldset className="text-xs text-gray-500">
+                    <legend>Wallet must hold all of</legend>
+                    <div className="grid grid-cols-2 gap-1 mt-1">
+                      {BADGE_TYPES.map((b) => (
+                        <label key={b} className="flex items-center gap-1 text-gunmetal">
+                          <input
+                            type="checkbox"
+                            checked={form.badgeTypes.includes(b)}
+                            onChange={(e) => update({
+                              badgeTypes: e.target.checked ? [...form.badgeTypes, b] : form.badgeTypes.filter((x) => x !== b),
+                            })}
+                          />
+                          {b}
+                        </label>
+                      ))}
+                    </div>
+                  </fieldset>
+                  <label className="block text-xs text-gray-500">
+                    Market contains
+                    <input className={inputClass} value={form.marketQuery} placeholder="Any market" onChange={(e) => update({ marketQuery: e.target.value })} />
+                  </label>
+                </>
+              )}
+
+              {form.type === "AWARD_DIVERGENCE" && (
+                <label className="block text-xs text-gray-500">
+                  Show slug
+                  <input className={inputClass} value={form.showSlug} placeholder="All upcoming shows" onChange={(e) => update({ showSlug: e.target.value })} />
+                </label>
+              )}
+
+              <label className="block text-xs text-gray-500">
+                Deliver to
+                <select className={inputClass} value={form.channel} onChange={(e) => update({ channel: e.target.value as ChannelType })}>
+                  {(Object.keys(channelLabels) as ChannelType[]).map((c) => (
+                    <option key={c} value={c}>{channelLabels[c]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="block text-xs text-gray-500">
+                {form.channel === "EMAIL" ? "Email address" : "Webhook URL"}
+                <input className={inputClass} value={form.target} required onChange={(e) => update({ target: e.target.value })} />
+              </label>
+
+              <label className="block text-xs text-gray-500">
+                Cooldown (minutes before the same alert repeats)
+                <input type="number" min={0} className={inputClass} value={form.cooldownMinutes} onChange={(e) => update({ cooldownMinutes: parseInt(e.target.value) })} />
+              </label>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full bg-pine-blue hover:bg-opacity-80 text-white px-4 py-2 rounded-lg text-sm transition-colors disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Create rule"}
+              </button>
+            </form>
+
+            <div className="lg:col-span-2 space-y-8">
+              {/* Rules */}
+              <section>
+                <h2 className="font-semibold text-gunmetal mb-3">Your rules</h2>
+                {rules.length === 0 ? (
+                  <p className="text-sm text-gray-500">No alert rules yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {rules.map((rule) => (
+                      <div key={rule.id} className="border border-dust-grey rounded-lg p-3 flex items-start justify-between gap-4">
+                        <div>
+                          <p className="font-medium text-gunmetal">
+                            {rule.name}
+                            {!rule.isActive && <span className="ml-2 text-xs text-gray-400">(paused)</span>}
+                          </p>
+                          <p className="text-sm text-gray-500">{describeRule(rule)}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {channelLabels[rule.channel]} · {rule._count.events} fired
+                            {rule.lastFiredAt && ` · last ${new Date(rule.lastFiredAt).toLocaleString()}`}
+                          </p>
+                        </div>
+                        <div className="flex gap-2 text-xs">
+                          <button onClick={() => toggleRule(rule)} className="text-pine-blue hover:underline">
+                            {rule.isActive ? "Pause" : "Resume"}
+                          </button>
+                          <button onClick={() => deleteRule(rule)} className="text-red-600 hover:underline">
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              {/* History */}
+              <section>
+                <h2 className="font-semibold text-gunmetal mb-3">Recent alerts</h2>
+                {events.length === 0 ? (
+                  <p className="text-sm text-gray-500">No alerts have fired yet.</p>
+                ) : (
+                  <div className="border border-dust-grey rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-gray-500 text-xs">
+                        <tr>
+                          <th className="px-4 py-2 text-left">Fired</th>
+                          <th className="px-4 py-2 text-left">Alert</th>
+                          <th className="px-4 py-2 text-left">Delivery</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {events.map((event) => (
+                          <tr key={event.id} className="border-t border-dust-grey align-top">
+                            <td className="px-4 py-2 text-gray-500 whitespace-nowrap">
+                              {new Date(event.firedAt).toLocaleString()}
+                            </td>
+                            <td className="px-4 py-2">
+                              <p className="text-gunmetal font-medium">{event.title}</p>
+                              <p className="text-xs text-gray-500">{event.message}</p>
+                              <p className="text-xs text-gray-400">{event.rule.name}{event.jobName && ` · after ${event.jobName}`}</p>
+                            </td>
+                            <td className="px-4 py-2">
+                              {event.delivered ? (
+                                <span className="text-xs text-green-600">Sent</span>
+                              ) : (
+                                <span className="text-xs text-red-600" title={event.error ?? undefined}>Failed</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </section>
+            </div>
+          </div>
+        )}
+      </main>
+
+      <footer className="border-t border-dust-grey mt-auto">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <p className="text-center text-sm text-gray-500">
+            PredictEasy - Make Prediction Trading Easier
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
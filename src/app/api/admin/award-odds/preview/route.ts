@@ -0,0 +1,83 @@
+/**
+ * Award Odds Preview API
+ *
+ * POST: Parse pasted or uploaded odds and show how each line matches the
+ * show's categories and nominees, and each category's book before and after
+ * de-vig, without writing anything
+ *
+ * Body:
+ * - showId, source, text: required
+ * - format: american | fractional | decimal | percent (defaults to the source's)
+ * - devigMethod: none | multiplicative | additive | shin | power (defaults to the source's)
+ * - categoryId: category for lines that don't name one
+ * - overrides: { [line]: nomineeId | null } to fix or skip lines
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { buildOddsPreview, devigPreview, parseOddsEntryRequest, parseOddsSheet } from '@/lib/oddsEntry';
+import { getEntryCategories } from '@/lib/awardOddsStore';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseOddsEntryRequest(await request.json());
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const entry = parsed.value;
+    const categories = await getEntryCategories(entry.showId);
+    if (!categories) {
+      return NextResponse.json(
+        { success: false, error: 'Award show not found' },
+        { status: 404 }
+      );
+    }
+
+    const sheet = parseOddsSheet(entry.text, entry.format);
+    const { rows, books } = devigPreview(
+      buildOddsPreview(sheet, categories, entry.categoryId, entry.overrides),
+      entry.devigMethod
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        format: sheet.format,
+        devigMethod: entry.devigMethod,
+        rows,
+        books,
+        categories,
+        matched: rows.filter((r) => r.status === 'matched').length,
+      },
+    });
+  } catch (error) {
+    console.error('Error previewing award odds:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Award Odds Entry API
+ *
+ * POST: Commit entered odds. Takes the same body as the preview (plus an
+ * optional source url), re-matches and de-vigs it, and stores every matched
+ * line as the source's current AwardOdds with an AwardOddsSnapshot. Unmatched
+ * lines are returned, not written.
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { buildOddsPreview, devigPreview, parseOddsEntryRequest, parseOddsSheet } from '@/lib/oddsEntry';
+import { commitAwardOdds, getEntryCategories } from '@/lib/awardOddsStore';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseOddsEntryRequest(await request.json());
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const entry = parsed.value;
+    const categories = await getEntryCategories(entry.showId);
+    if (!categories) {
+      return NextResponse.json(
+        { success: false, error: 'Award show not found' },
+        { status: 404 }
+      );
+    }
+
+    const { rows } = devigPreview(
+      buildOddsPreview(parseOddsSheet(entry.text, entry.format), categories, entry.categoryId, entry.overrides),
+      entry.devigMethod
+    );
+    if (!rows.some((r) => r.status === 'matched')) {
+      return NextResponse.json(
+        { success: false, error: 'No lines matched a nominee' },
+        { status: 400 }
+      );
+    }
+
+    const result = await commitAwardOdds(entry.source, rows, entry.url);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        unmatched: rows.filter((r) => r.status !== 'matched' && r.status !== 'skipped'),
+      },
+    });
+  } catch (error) {
+    console.error('Error committing award odds:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Award Odds Template API
+ *
+ * GET: Blank CSV for a show and source: one line per nominee, with the
+ * source's odds format in the header, ready to fill in and upload
+ *
+ * Query params:
+ * - showId: required
+ * - source: a manually entered OddsSource (e.g. GOLDDERBY, MYBOOKIE)
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { OddsSource } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { MANUAL_ODDS_SOURCES, oddsTemplateCsv } from '@/lib/oddsEntry';
+import { getEntryCategories } from '@/lib/awardOddsStore';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const showId = searchParams.get('showId');
+    const source = searchParams.get('source') as OddsSource | null;
+    const sourceConfig = source ? MANUAL_ODDS_SOURCES[source] : undefined;
+
+    if (!showId || !source || !sourceConfig) {
+      return NextResponse.json(
+        { success: false, error: `showId and a source (${Object.keys(MANUAL_ODDS_SOURCES).join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    const show = await prisma.awardShow.findUnique({ where: { id: showId }, select: { slug: true } });
+    const categories = await getEntryCategories(showId);
+    if (!show || !categories) {
+      return NextResponse.json(
+        { success: false, error: 'Award show not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(oddsTemplateCsv(sourceConfig.format, categories), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${show.slug}-${source.toLowerCase()}-odds.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error building odds template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
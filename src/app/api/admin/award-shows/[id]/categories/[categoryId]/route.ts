@@ -0,0 +1,133 @@
+/**
+ * Award Category Admin API
+ *
+ * PATCH: Update a category's name, slug, Polymarket event or display order
+ * DELETE: Delete a category with its nominees and odds
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { parseAwardCategoryInput } from '@/lib/awardShows';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; categoryId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, categoryId } = await params;
+    const parsed = parseAwardCategoryInput(await request.json(), true);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const category = await prisma.awardCategory.findFirst({ where: { id: categoryId, showId: id } });
+    if (!category) {
+      return NextResponse.json(
+        { success: false, error: 'Award category not found' },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.value.slug && parsed.value.slug !== category.slug) {
+      const existing = await prisma.awardCategory.findUnique({
+        where: { showId_slug: { showId: id, slug: parsed.value.slug } },
+      });
+      if (existing) {
+        return NextResponse.json(
+          { success: false, error: `The show already has a category with slug ${parsed.value.slug}` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { polymarketSlug } = parsed.value;
+    const updated = await prisma.awardCategory.update({
+      where: { id: categoryId },
+      data: {
+        ...parsed.value,
+        ...(polymarketSlug !== undefined && {
+          polymarketUrl: polymarketSlug ? `https://polymarket.com/event/${polymarketSlug}` : null,
+        }),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    console.error('Error updating award category:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; categoryId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, categoryId } = await params;
+    const category = await prisma.awardCategory.findFirst({ where: { id: categoryId, showId: id } });
+    if (!category) {
+      return NextResponse.json(
+        { success: false, error: 'Award category not found' },
+        { status: 404 }
+      );
+    }
+
+    // Category articles stay with the show
+    await prisma.$transaction([
+      prisma.awardArticle.updateMany({ where: { categoryId }, data: { categoryId: null } }),
+      prisma.awardCategory.delete({ where: { id: categoryId } }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { id: categoryId },
+    });
+  } catch (error) {
+    console.error('Error deleting award category:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Award Categories Admin API
+ *
+ * POST: Add a category to a show
+ *
+ * Body:
+ * - name: required
+ * - slug: defaults to the slugified name
+ * - polymarketSlug: Polymarket event slug or URL to sync the category from
+ * - displayOrder: defaults to after the show's last category
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { parseAwardCategoryInput } from '@/lib/awardShows';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const parsed = parseAwardCategoryInput(await request.json());
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const show = await prisma.awardShow.findUnique({
+      where: { id },
+      include: { categories: { select: { slug: true, displayOrder: true } } },
+    }) as { categories: { slug: string; displayOrder: number }[] } | null;
+    if (!show) {
+      return NextResponse.json(
+        { success: false, error: 'Award show not found' },
+        { status: 404 }
+      );
+    }
+
+    if (show.categories.some((c) => c.slug === parsed.value.slug)) {
+      return NextResponse.json(
+        { success: false, error: `The show already has a category with slug ${parsed.value.slug}` },
+        { status: 409 }
+      );
+    }
+
+    const { polymarketSlug } = parsed.value;
+    const category = await prisma.awardCategory.create({
+      data: {
+        showId: id,
+        name: parsed.value.name,
+        slug: parsed.value.slug,
+        polymarketSlug,
+        polymarketUrl: polymarketSlug ? `https://polymarket.com/event/${polymarketSlug}` : null,
+        displayOrder: parsed.value.displayOrder
+          ?? show.categories.reduce((max, c) => Math.max(max, c.displayOrder + 1), 0),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: category,
+    });
+  } catch (error) {
+    console.error('Error creating award category:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
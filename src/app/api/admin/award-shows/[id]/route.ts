@@ -0,0 +1,122 @@
+/**
+ * Award Show Admin API
+ *
+ * PATCH: Update a show's name, slug, ceremony date, status, description or
+ * Polymarket event slugs (any subset)
+ * DELETE: Delete a show with its categories, nominees, odds and articles
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { parseAwardShowInput } from '@/lib/awardShows';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const parsed = parseAwardShowInput(await request.json(), true);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const show = await prisma.awardShow.findUnique({ where: { id } });
+    if (!show) {
+      return NextResponse.json(
+        { success: false, error: 'Award show not found' },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.value.slug && parsed.value.slug !== show.slug) {
+      const existing = await prisma.awardShow.findUnique({ where: { slug: parsed.value.slug } });
+      if (existing) {
+        return NextResponse.json(
+          { success: false, error: `A show with slug ${parsed.value.slug} already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await prisma.awardShow.update({
+      where: { id },
+      data: parsed.value,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    console.error('Error updating award show:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const show = await prisma.awardShow.findUnique({ where: { id } });
+    if (!show) {
+      return NextResponse.json(
+        { success: false, error: 'Award show not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.awardShow.delete({ where: { id } });
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    });
+  } catch (error) {
+    console.error('Error deleting award show:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
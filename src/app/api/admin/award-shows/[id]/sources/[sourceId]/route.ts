@@ -0,0 +1,123 @@
+/**
+ * Award Article Source Admin API
+ *
+ * PATCH: Update an article source (e.g. pause it with active: false)
+ * DELETE: Remove an article source; articles already analyzed are kept
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { parseArticleSourceInput } from '@/lib/awardShows';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sourceId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, sourceId } = await params;
+    const parsed = parseArticleSourceInput(await request.json(), true);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const source = await prisma.awardArticleSource.findFirst({ where: { id: sourceId, showId: id } });
+    if (!source) {
+      return NextResponse.json(
+        { success: false, error: 'Article source not found' },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.value.url && parsed.value.url !== source.url) {
+      const existing = await prisma.awardArticleSource.findUnique({
+        where: { showId_url: { showId: id, url: parsed.value.url } },
+      });
+      if (existing) {
+        return NextResponse.json(
+          { success: false, error: 'This article is already a source for the show' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await prisma.awardArticleSource.update({
+      where: { id: sourceId },
+      data: parsed.value,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    console.error('Error updating article source:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sourceId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, sourceId } = await params;
+    const source = await prisma.awardArticleSource.findFirst({ where: { id: sourceId, showId: id } });
+    if (!source) {
+      return NextResponse.json(
+        { success: false, error: 'Article source not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.awardArticleSource.delete({ where: { id: sourceId } });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: sourceId },
+    });
+  } catch (error) {
+    console.error('Error deleting article source:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
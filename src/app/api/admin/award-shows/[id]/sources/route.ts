@@ -0,0 +1,81 @@
+/**
+ * Award Article Sources Admin API
+ *
+ * POST: Add a prediction article for the articles job to fetch and analyze
+ *
+ * Body:
+ * - source, title, url: required
+ * - active: defaults to true
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { parseArticleSourceInput } from '@/lib/awardShows';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const parsed = parseArticleSourceInput(await request.json());
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const show = await prisma.awardShow.findUnique({ where: { id } });
+    if (!show) {
+      return NextResponse.json(
+        { success: false, error: 'Award show not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await prisma.awardArticleSource.findUnique({
+      where: { showId_url: { showId: id, url: parsed.value.url } },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: 'This article is already a source for the show' },
+        { status: 409 }
+      );
+    }
+
+    const source = await prisma.awardArticleSource.create({
+      data: { showId: id, ...parsed.value },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: source,
+    });
+  } catch (error) {
+    console.error('Error creating article source:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Award Shows Admin API
+ *
+ * GET: Every award show with its categories, article sources and the
+ * Polymarket event slugs the awards jobs sync
+ * POST: Create a show
+ *
+ * Body (POST):
+ * - name, ceremonyDate: required
+ * - slug: defaults to the slugified name
+ * - status: UPCOMING (default) | ACTIVE | COMPLETED
+ * - description, polymarketEventSlugs: optional
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { parseAwardShowInput, parseSlugList } from '@/lib/awardShows';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const shows = await prisma.awardShow.findMany({
+      orderBy: { ceremonyDate: 'desc' },
+      include: {
+        categories: {
+          orderBy: { displayOrder: 'asc' },
+          select: {
+            id: true,
+            name: true,
+            slug: true,
+            polymarketSlug: true,
+            displayOrder: true,
+            _count: { select: { nominees: true } },
+          },
+        },
+        articleSources: { orderBy: { createdAt: 'asc' } },
+      },
+    }) as { polymarketEventSlugs: unknown }[];
+
+    return NextResponse.json({
+      success: true,
+      data: shows.map((show) => ({
+        ...show,
+        polymarketEventSlugs: parseSlugList(show.polymarketEventSlugs),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching award shows:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseAwardShowInput(await request.json());
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.awardShow.findUnique({ where: { slug: parsed.value.slug } });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: `A show with slug ${parsed.value.slug} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const show = await prisma.awardShow.create({ data: parsed.value });
+
+    return NextResponse.json({
+      success: true,
+      data: show,
+    });
+  } catch (error) {
+    console.error('Error creating award show:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Consensus Weights API
+ *
+ * GET: The applied consensus source weights and a proposal fit to every
+ * resolved category of a completed show
+ *
+ * Query params:
+ * - asOfHours: score each source's odds as of this many hours before the
+ *   ceremony (default 24)
+ * - shrinkage: observations at which a fitted weight and its default count
+ *   equally (default 50)
+ *
+ * Proposals are applied through PUT /api/config with key 'consensusWeights'.
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { DEFAULT_CONSENSUS_WEIGHTS } from '@/lib/consensusCalculator';
+import { DEFAULT_AS_OF_HOURS, DEFAULT_SHRINKAGE, fitConsensusWeights } from '@/lib/consensusWeights';
+import { getConsensusWeightsConfig, loadWeightObservations } from '@/lib/consensusWeightStore';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const asOfHours = Number(searchParams.get('asOfHours') ?? DEFAULT_AS_OF_HOURS);
+    const shrinkage = Number(searchParams.get('shrinkage') ?? DEFAULT_SHRINKAGE);
+    if (!(asOfHours >= 0) || !(shrinkage >= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'asOfHours and shrinkage must be non-negative numbers' },
+        { status: 400 }
+      );
+    }
+
+    const applied = await getConsensusWeightsConfig();
+    const { observations, shows } = await loadWeightObservations(asOfHours);
+    const proposal = fitConsensusWeights(observations, applied?.weights ?? DEFAULT_CONSENSUS_WEIGHTS, shrinkage);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        applied,
+        defaults: DEFAULT_CONSENSUS_WEIGHTS,
+        asOfHours,
+        shrinkage,
+        shows,
+        proposal,
+      },
+    });
+  } catch (error) {
+    console.error('Error fitting consensus weights:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fit consensus weights' },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Forecast Models API
+ *
+ * GET: Registered forecast models, which one is champion, and each
+ * model's recent live runs
+ *
+ * The champion is changed through PUT /api/config with key 'championModel'.
+ * Protected - requires admin authentication.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { FORECAST_MODELS, getChampionModelId } from '@/lib/forecastModels';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+const RUNS_PER_MODEL = 5;
+
+interface RunSummary {
+  id: string;
+  modelVersion: string;
+  targetWeekStart: Date;
+  champion: boolean;
+  forecastCount: number;
+  createdAt: Date;
+}
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const championModelId = await getChampionModelId();
+
+    const models = [];
+    for (const model of FORECAST_MODELS) {
+      const runs = await prisma.forecastRun.findMany({
+        where: { modelId: model.id, source: 'live' },
+        orderBy: { createdAt: 'desc' },
+        take: RUNS_PER_MODEL,
+        select: {
+          id: true,
+          modelVersion: true,
+          targetWeekStart: true,
+          champion: true,
+          forecastCount: true,
+          createdAt: true,
+        },
+      }) as RunSummary[];
+
+      models.push({
+        id: model.id,
+        version: model.version,
+        description: model.description,
+        champion: model.id === championModelId,
+        recentRuns: runs.map((run) => ({
+          ...run,
+          targetWeekStart: run.targetWeekStart.toISOString().split('T')[0],
+          createdAt: run.createdAt.toISOString(),
+        })),
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { championModelId, models },
+    });
+  } catch (error) {
+    console.error('Error fetching forecast models:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch forecast models' },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
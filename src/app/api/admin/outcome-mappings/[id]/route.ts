@@ -0,0 +1,73 @@
+/**
+ * Outcome Mapping Review API
+ *
+ * PATCH: Confirm a queued outcome mapping
+ *
+ * Body:
+ * - titleId: map to this title instead of the suggestion (optional)
+ * - addAlias: also add the outcome name to the title's aliases (optional)
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { reviewOutcomeMapping } from '@/lib/outcomeMappings';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    if (body.titleId !== undefined && typeof body.titleId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'titleId must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const result = await reviewOutcomeMapping(
+      id,
+      { titleId: body.titleId, addAlias: body.addAlias === true },
+      userId
+    );
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error reviewing outcome mapping:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Outcome Mappings API
+ *
+ * GET: Polymarket outcome → Title review queue, with suggested and
+ * confirmed titles resolved
+ *
+ * Query params:
+ * - status: PENDING (default) | CONFIRMED
+ * - limit: max results (default 100, max 500)
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import type { OutcomeMappingRecord } from '@/lib/outcomeMappings';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+const STATUSES = ['PENDING', 'CONFIRMED'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const status = searchParams.get('status') || 'PENDING';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10), 500);
+
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const mappings = await prisma.outcomeTitleMapping.findMany({
+      where: { status },
+      orderBy: status === 'PENDING'
+        ? [{ seenCount: 'desc' }, { lastSeenAt: 'desc' }]
+        : { reviewedAt: 'desc' },
+      take: limit,
+    }) as OutcomeMappingRecord[];
+
+    const titleIds = [
+      ...new Set(mappings.flatMap((m) => [m.suggestedTitleId, m.titleId]).filter((id): id is string => !!id)),
+    ];
+    const titles = await prisma.title.findMany({
+      where: { id: { in: titleIds } },
+      select: { id: true, canonicalName: true, type: true, aliases: true },
+    }) as { id: string; canonicalName: string; type: string; aliases: unknown }[];
+    const titleById = new Map(titles.map((t) => [t.id, t]));
+
+    return NextResponse.json({
+      success: true,
+      data: mappings.map((m) => ({
+        ...m,
+        suggestedTitle: m.suggestedTitleId ? titleById.get(m.suggestedTitleId) ?? null : null,
+        title: m.titleId ? titleById.get(m.titleId) ?? null : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching outcome mappings:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
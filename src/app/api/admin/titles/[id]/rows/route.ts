@@ -0,0 +1,62 @@
+/**
+ * Title Rows API
+ *
+ * GET: A title's aliases and attached rows grouped by relation, for
+ *      choosing what to split off
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { getTitleRows } from '@/lib/titleMerge';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const title = await prisma.title.findUnique({
+      where: { id },
+      select: { id: true, canonicalName: true, type: true, aliases: true },
+    });
+    if (!title) {
+      return NextResponse.json(
+        { success: false, error: 'Title not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        title,
+        relations: await getTitleRows(id),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching title rows:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
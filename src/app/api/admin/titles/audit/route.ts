@@ -0,0 +1,67 @@
+/**
+ * Title Audit API
+ *
+ * GET: Recent title merges and splits, newest first
+ *
+ * Query params:
+ * - titleId: only entries touching this title
+ * - limit: max results (default 50, max 200)
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const titleId = searchParams.get('titleId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200);
+
+    const entries = await prisma.titleAuditEntry.findMany({
+      where: titleId ? { OR: [{ targetTitleId: titleId }, { sourceTitleId: titleId }] } : {},
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        action: true,
+        targetTitleId: true,
+        sourceTitleId: true,
+        summary: true,
+        performedBy: true,
+        createdAt: true,
+        undoneAt: true,
+        undoneBy: true,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    console.error('Error fetching title audit:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Duplicate Titles API
+ *
+ * GET: Probable duplicate Title clusters, with the data each title holds
+ *      so an admin can choose which one survives a merge.
+ * Protected - requires admin authentication.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { clusterDuplicates, ResolutionTitle } from '@/lib/titleResolution';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+interface TitleWithCounts extends Omit<ResolutionTitle, 'aliases'> {
+  aliases: unknown;
+  _count: {
+    weeklyGlobal: number;
+    weeklyUS: number;
+    dailySignals: number;
+    forecasts: number;
+    marketLinks: number;
+  };
+}
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const titles = await prisma.title.findMany({
+      select: {
+        id: true,
+        canonicalName: true,
+        type: true,
+        aliases: true,
+        imdbId: true,
+        tmdbId: true,
+        externalIds: { select: { provider: true, externalId: true } },
+        _count: {
+          select: {
+            weeklyGlobal: true,
+            weeklyUS: true,
+            dailySignals: true,
+            forecasts: true,
+            marketLinks: true,
+          },
+        },
+      },
+    }) as TitleWithCounts[];
+
+    const resolutionTitles: ResolutionTitle[] = titles.map((t) => ({
+      ...t,
+      aliases: Array.isArray(t.aliases) ? (t.aliases as string[]) : [],
+    }));
+    const byId = new Map(resolutionTitles.map((t, i) => [t.id, { ...t, counts: titles[i]._count }]));
+
+    const clusters = clusterDuplicates(resolutionTitles).map((cluster) => ({
+      ...cluster,
+      titles: cluster.titleIds.map((id) => byId.get(id)!),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: clusters,
+      meta: {
+        titlesScanned: titles.length,
+        clusters: clusters.length,
+      },
+    });
+  } catch (error) {
+    console.error('Error finding duplicate titles:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
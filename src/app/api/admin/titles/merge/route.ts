@@ -0,0 +1,67 @@
+/**
+ * Title Merge API
+ *
+ * POST: Merge duplicate titles into a surviving title. Each source is
+ *       merged in its own transaction with its own undoable audit entry.
+ *
+ * Body: { targetId, sourceIds: string[] }
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { mergeTitles } from '@/lib/titleMerge';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { targetId, sourceIds } = body as { targetId?: string; sourceIds?: string[] };
+    if (!targetId || !Array.isArray(sourceIds) || sourceIds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'targetId and a non-empty sourceIds list are required' },
+        { status: 400 }
+      );
+    }
+
+    const merged = [];
+    for (const sourceId of sourceIds) {
+      const result = await mergeTitles(targetId, sourceId, userId);
+      if (result.error !== undefined) {
+        return NextResponse.json(
+          { success: false, error: result.error, data: merged },
+          { status: result.status }
+        );
+      }
+      merged.push(result);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: merged,
+    });
+  } catch (error) {
+    console.error('Error merging titles:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Title Split API
+ *
+ * POST: Split a new title out of a wrongly merged one, moving the chosen
+ *       aliases and rows to it
+ *
+ * Body: { titleId, canonicalName, type, aliases: string[], rows: { [relation]: rowIds[] } }
+ * Protected - requires admin authentication.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { splitTitle } from '@/lib/titleMerge';
+
+export const dynamic = 'force-dynamic';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { titleId, canonicalName, type, aliases, rows } = body as {
+      titleId?: string;
+      canonicalName?: string;
+      type?: string;
+      aliases?: string[];
+      rows?: Record<string, string[]>;
+    };
+
+    if (!titleId || !canonicalName || (type !== 'SHOW' && type !== 'MOVIE')) {
+      return NextResponse.json(
+        { success: false, error: 'titleId, canonicalName and type (SHOW or MOVIE) are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await splitTitle({
+      titleId,
+      canonicalName,
+      type,
+      aliases: Array.isArray(aliases) ? aliases : [],
+      rows: rows && typeof rows === 'object' ? rows : {},
+      performedBy: userId,
+    });
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error splitting title:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Alert Rule Detail API Endpoint
+ *
+ * PATCH: Update one of the signed-in user's rules (name, params, channel,
+ *        target, cooldownMinutes, isActive)
+ * DELETE: Delete the rule and its alert history
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { AlertRuleType, AlertChannelType } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { parseRuleParams } from '@/lib/alertRules';
+import { ALERT_CHANNELS } from '@/lib/alertChannels';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.alertRule.findUnique({ where: { id } }) as {
+      userId: string;
+      type: AlertRuleType;
+      channel: AlertChannelType;
+      target: string;
+    } | null;
+    if (!existing || existing.userId !== userId) {
+      return NextResponse.json(
+        { success: false, error: 'Alert rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, params: ruleParams, channel, target, cooldownMinutes, isActive } = body as {
+      name?: string;
+      params?: unknown;
+      channel?: AlertChannelType;
+      target?: string;
+      cooldownMinutes?: number;
+      isActive?: boolean;
+    };
+
+    let parsedParams: object | undefined;
+    if (ruleParams !== undefined) {
+      const parsed = parseRuleParams(existing.type, ruleParams);
+      if (parsed.error !== undefined) {
+        return NextResponse.json(
+          { success: false, error: parsed.error },
+          { status: 400 }
+        );
+      }
+      parsedParams = { ...parsed.params };
+    }
+
+    if (channel !== undefined && !ALERT_CHANNELS[channel]) {
+      return NextResponse.json(
+        { success: false, error: `channel must be one of: ${Object.keys(ALERT_CHANNELS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Re-check the target whenever the channel or target changes
+    const nextChannel = channel ?? existing.channel;
+    const nextTarget = target?.trim() ?? existing.target;
+    if (channel !== undefined || target !== undefined) {
+      const targetError = await ALERT_CHANNELS[nextChannel].validateTarget(nextTarget);
+      if (targetError) {
+        return NextResponse.json(
+          { success: false, error: targetError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (cooldownMinutes !== undefined && (typeof cooldownMinutes !== 'number' || cooldownMinutes < 0)) {
+      return NextResponse.json(
+        { success: false, error: 'cooldownMinutes must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id },
+      data: {
+        ...(name?.trim() && { name: name.trim() }),
+        ...(parsedParams && { params: parsedParams }),
+        channel: nextChannel,
+        target: nextTarget,
+        ...(cooldownMinutes !== undefined && { cooldownMinutes: Math.round(cooldownMinutes) }),
+        ...(typeof isActive === 'boolean' && { isActive }),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const deleted = await prisma.alertRule.deleteMany({ where: { id, userId } });
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Alert rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Alert History API Endpoint
+ *
+ * GET: Alerts fired for the signed-in user's rules, newest first
+ *
+ * Query params:
+ * - ruleId: only this rule's alerts
+ * - limit: max results (default 50, max 200)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const ruleId = searchParams.get('ruleId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    const events = await prisma.alertEvent.findMany({
+      where: {
+        rule: { userId },
+        ...(ruleId && { ruleId }),
+      },
+      orderBy: { firedAt: 'desc' },
+      take: limit,
+      include: { rule: { select: { name: true, type: true, channel: true } } },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    console.error('Error fetching alert history:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
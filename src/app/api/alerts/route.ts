@@ -0,0 +1,154 @@
+/**
+ * Alert Rules API Endpoint
+ *
+ * GET: List the signed-in user's alert rules with their fired-alert counts
+ * POST: Create an alert rule for the signed-in user
+ *
+ * POST body:
+ * - name: label for the rule
+ * - type: EDGE_THRESHOLD | INSIDER_BADGE | PRICE_MOVE | AWARD_DIVERGENCE
+ * - params: type-specific thresholds (see src/lib/alertRules.ts)
+ * - channel: WEBHOOK | EMAIL | DISCORD | SLACK
+ * - target: https webhook URL (public hosts only) or email address
+ * - cooldownMinutes: optional, default 360
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { AlertRuleType, AlertChannelType } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { parseRuleParams, ALERT_RULE_TYPES } from '@/lib/alertRules';
+import { ALERT_CHANNELS } from '@/lib/alertChannels';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_RULES_PER_USER = 25;
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const rules = await prisma.alertRule.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      include: { _count: { select: { events: true } } },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, type, params, channel, target, cooldownMinutes = 360 } = body as {
+      name?: string;
+      type?: AlertRuleType;
+      params?: unknown;
+      channel?: AlertChannelType;
+      target?: string;
+      cooldownMinutes?: number;
+    };
+
+    if (!name?.trim() || !type || !ALERT_RULE_TYPES.includes(type)) {
+      return NextResponse.json(
+        { success: false, error: `name and type (${ALERT_RULE_TYPES.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseRuleParams(type, params);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    if (!channel || !ALERT_CHANNELS[channel]) {
+      return NextResponse.json(
+        { success: false, error: `channel must be one of: ${Object.keys(ALERT_CHANNELS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const targetError = await ALERT_CHANNELS[channel].validateTarget(target?.trim() ?? '');
+    if (targetError) {
+      return NextResponse.json(
+        { success: false, error: targetError },
+        { status: 400 }
+      );
+    }
+
+    if (typeof cooldownMinutes !== 'number' || cooldownMinutes < 0) {
+      return NextResponse.json(
+        { success: false, error: 'cooldownMinutes must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const ruleCount = await prisma.alertRule.count({ where: { userId } });
+    if (ruleCount >= MAX_RULES_PER_USER) {
+      return NextResponse.json(
+        { success: false, error: `You can have at most ${MAX_RULES_PER_USER} alert rules` },
+        { status: 409 }
+      );
+    }
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        userId,
+        name: name.trim(),
+        type,
+        params: { ...parsed.params },
+        channel,
+        target: target!.trim(),
+        cooldownMinutes: Math.round(cooldownMinutes),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -3,11 +3,13 @@
  *
  * Returns award shows with categories, nominees, and odds.
  * Supports filtering by show slug and includes edge calculations.
+ * meta.consensusWeights carries the applied consensus source weights.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { OddsSource, Prisma } from '@prisma/client';
+import { getConsensusWeights } from '@/lib/consensusWeightStore';
 
 export const dynamic = 'force-dynamic';
 
@@ -222,6 +224,7 @@ export async function GET(request: NextRequest) {
         totalShows: response.length,
         totalCategories: response.reduce((sum, s) => sum + s.categories.length, 0),
         fetchedAt: new Date().toISOString(),
+        consensusWeights: await getConsensusWeights(),
       },
     });
   } catch (error) {
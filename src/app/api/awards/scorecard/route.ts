@@ -0,0 +1,70 @@
+/**
+ * Awards Scorecard API
+ *
+ * GET: How each source and the consensus called a show's winners: the
+ * winner's rank per source, Brier scores, and which flagged Polymarket
+ * edges paid off
+ *
+ * Query params:
+ * - show: show slug (required)
+ * - asOfHours: score odds as of this many hours before the ceremony (default 24)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getScorecardShow } from '@/lib/awardShowStore';
+import { buildScorecard } from '@/lib/awardResolution';
+import { DEFAULT_AS_OF_HOURS } from '@/lib/consensusWeights';
+import { getConsensusWeights } from '@/lib/consensusWeightStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const showSlug = searchParams.get('show');
+    const asOfHours = Number(searchParams.get('asOfHours') ?? DEFAULT_AS_OF_HOURS);
+
+    if (!showSlug || !(asOfHours >= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'show is required and asOfHours must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const show = await getScorecardShow(showSlug, asOfHours);
+    if (!show) {
+      return NextResponse.json(
+        { success: false, error: 'Award show not found' },
+        { status: 404 }
+      );
+    }
+
+    const scorecard = buildScorecard(show.categories, await getConsensusWeights());
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        show: {
+          name: show.name,
+          slug: show.slug,
+          ceremonyDate: show.ceremonyDate.toISOString(),
+          status: show.status,
+        },
+        asOfHours,
+        ...scorecard,
+      },
+    });
+  } catch (error) {
+    console.error('Error building awards scorecard:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
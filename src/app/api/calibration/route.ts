@@ -0,0 +1,177 @@
+/**
+ * Calibration API Endpoint
+ *
+ * Compares how well our market probabilities and the Polymarket prices were
+ * calibrated against resolved weekly markets, per category.
+ *
+ * Query params:
+ * - category: optional MarketCategory to restrict to (default: all four)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  CALIBRATION_CATEGORIES,
+  modelDistribution,
+  marketDistribution,
+  summariseCalibration,
+  toReliabilityPoints,
+  CalibrationSummary,
+  ReliabilityPoint,
+  SnapshotOutcome,
+} from '@/lib/calibration';
+import type { MarketCategory } from '@/lib/forecaster';
+
+export const dynamic = 'force-dynamic';
+
+export interface ResolvedMarketSummary {
+  marketSlug: string | null;
+  marketQuestion: string;
+  winningOutcome: string | null;
+  resolvedAt: string;
+  snapshots: number;
+  modelBrier: number;
+  marketBrier: number;
+}
+
+export interface CategoryCalibrationResponse {
+  category: MarketCategory;
+  marketsResolved: number;
+  pendingSnapshots: number;
+  model: CalibrationSummary;
+  market: CalibrationSummary;
+  recentMarkets: ResolvedMarketSummary[];
+}
+
+interface ResolvedSnapshot {
+  category: string;
+  marketSlug: string | null;
+  marketQuestion: string;
+  outcomes: SnapshotOutcome[];
+  otherProbability: number;
+  resolvedAt: Date;
+  winningOutcome: string;
+  modelBrier: number;
+  marketBrier: number;
+  modelLogLoss: number;
+  marketLogLoss: number;
+}
+
+function average(values: number[]): number {
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10000) / 10000;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const categoryParam = searchParams.get('category') as MarketCategory | null;
+
+    if (categoryParam && !CALIBRATION_CATEGORIES.includes(categoryParam)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid category. Must be one of: ${CALIBRATION_CATEGORIES.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const categories = categoryParam ? [categoryParam] : CALIBRATION_CATEGORIES;
+
+    const [resolved, pending] = await Promise.all([
+      prisma.marketProbabilitySnapshot.findMany({
+        where: {
+          category: { in: categories },
+          resolvedAt: { not: null },
+          winningOutcome: { not: null },
+          modelBrier: { not: null }, // Snapshots taken after the cutoff are closed out unscored
+        },
+        select: {
+          category: true,
+          marketSlug: true,
+          marketQuestion: true,
+          outcomes: true,
+          otherProbability: true,
+          resolvedAt: true,
+          winningOutcome: true,
+          modelBrier: true,
+          marketBrier: true,
+          modelLogLoss: true,
+          marketLogLoss: true,
+        },
+        orderBy: { resolvedAt: 'desc' },
+      }),
+      prisma.marketProbabilitySnapshot.groupBy({
+        by: ['category'],
+        where: { category: { in: categories }, resolvedAt: null },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const pendingByCategory = new Map<string, number>(
+      (pending as Array<{ category: string; _count: { _all: number } }>).map((p) => [p.category, p._count._all])
+    );
+
+    const data: CategoryCalibrationResponse[] = categories.map((category) => {
+      const snapshots = (resolved as ResolvedSnapshot[]).filter((s) => s.category === category);
+
+      const modelPoints: ReliabilityPoint[] = [];
+      const marketPoints: ReliabilityPoint[] = [];
+      for (const s of snapshots) {
+        modelPoints.push(...toReliabilityPoints(modelDistribution(s.outcomes, s.otherProbability), s.winningOutcome));
+        marketPoints.push(...toReliabilityPoints(marketDistribution(s.outcomes), s.winningOutcome));
+      }
+
+      // Group snapshots by the market they forecast, most recently resolved first
+      const byMarket = new Map<string, ResolvedSnapshot[]>();
+      for (const s of snapshots) {
+        const key = s.marketSlug || s.marketQuestion;
+        if (!byMarket.has(key)) byMarket.set(key, []);
+        byMarket.get(key)!.push(s);
+      }
+
+      const recentMarkets: ResolvedMarketSummary[] = Array.from(byMarket.values())
+        .slice(0, 10)
+        .map((group) => ({
+          marketSlug: group[0].marketSlug,
+          marketQuestion: group[0].marketQuestion,
+          winningOutcome: group[0].winningOutcome,
+          resolvedAt: group[0].resolvedAt.toISOString(),
+          snapshots: group.length,
+          modelBrier: average(group.map((s) => s.modelBrier)),
+          marketBrier: average(group.map((s) => s.marketBrier)),
+        }));
+
+      return {
+        category,
+        marketsResolved: byMarket.size,
+        pendingSnapshots: pendingByCategory.get(category) || 0,
+        model: summariseCalibration(
+          snapshots.map((s) => ({ brier: s.modelBrier, logLoss: s.modelLogLoss })),
+          modelPoints
+        ),
+        market: summariseCalibration(
+          snapshots.map((s) => ({ brier: s.marketBrier, logLoss: s.marketLogLoss })),
+          marketPoints
+        ),
+        recentMarkets,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error fetching calibration:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
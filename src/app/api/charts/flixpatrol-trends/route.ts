@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Prisma } from '@prisma/client';
 import prisma, { withRetry } from '@/lib/prisma';
+import { titleNameKey } from '@/lib/titleMatcher';
 
 export const dynamic = 'force-dynamic';
 
@@ -38,21 +39,7 @@ interface PolymarketOutcome {
 }
 
 /**
- * Normalize a title name for matching
- * Removes season info, punctuation, and converts to lowercase
- */
-function normalizeForMatching(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/:\s*season\s*\d+/i, '') // Remove ": Season X"
-    .replace(/\s*season\s*\d+/i, '')  // Remove "Season X"
-    .replace(/[^a-z0-9\s]/g, '')      // Remove punctuation
-    .replace(/\s+/g, ' ')             // Normalize whitespace
-    .trim();
-}
-
-/**
- * Get all unique outcome names from Netflix-related Polymarket markets
+ * Get the base title keys of all outcomes in Netflix-related Polymarket markets
  */
 async function getPolymarketNetflixOutcomes(category: 'tv' | 'movies'): Promise<Set<string>> {
   const searchTerm = category === 'tv' ? 'Netflix show' : 'Netflix movie';
@@ -71,7 +58,7 @@ async function getPolymarketNetflixOutcomes(category: 'tv' | 'movies'): Promise<
     if (Array.isArray(market.outcomes)) {
       for (const outcome of market.outcomes as PolymarketOutcome[]) {
         if (outcome.name) {
-          outcomeNames.add(normalizeForMatching(outcome.name));
+          outcomeNames.add(titleNameKey(outcome.name).base);
         }
       }
     }
@@ -132,8 +119,8 @@ export async function GET(request: NextRequest) {
     let filteredData = flixpatrolData;
     if (polymarketOutcomes && polymarketOutcomes.size > 0) {
       filteredData = flixpatrolData.filter(d => {
-        const normalizedName = normalizeForMatching(d.titleName);
-        return polymarketOutcomes!.has(normalizedName);
+        // Any season of a show in a market counts
+        return polymarketOutcomes!.has(titleNameKey(d.titleName).base);
       });
     }
 
@@ -153,7 +140,7 @@ export async function GET(request: NextRequest) {
     // We prefer entries with titleId, but dedupe by normalized name
     const titleByNormalizedName = new Map<string, { key: string; name: string; titleId: string | null; slug: string | null }>();
     for (const d of filteredData) {
-      const normalizedName = normalizeForMatching(d.titleName);
+      const normalizedName = titleNameKey(d.titleName).full;
       const existingEntry = titleByNormalizedName.get(normalizedName);
 
       // Prefer entries with titleId over slug-only entries
@@ -182,7 +169,7 @@ export async function GET(request: NextRequest) {
     // Create a mapping from normalized name to key for data lookup
     const normalizedNameToKey = new Map<string, string>();
     for (const entry of titleByNormalizedName.values()) {
-      normalizedNameToKey.set(normalizeForMatching(entry.name), entry.key);
+      normalizedNameToKey.set(titleNameKey(entry.name).full, entry.key);
     }
 
     // Get title details for entries that have titleId
@@ -201,7 +188,7 @@ export async function GET(request: NextRequest) {
     filteredData
       .filter(d => d.date.toISOString().split('T')[0] === latestDate)
       .forEach(d => {
-        const normalizedName = normalizeForMatching(d.titleName);
+        const normalizedName = titleNameKey(d.titleName).full;
         const key = normalizedNameToKey.get(normalizedName);
         if (key) {
           latestRanks.set(key, d.rank);
@@ -225,7 +212,7 @@ export async function GET(request: NextRequest) {
       uniqueKeys.forEach(key => {
         const record = filteredData.find(d => {
           // Match by normalized name to the deduplicated key
-          const normalizedName = normalizeForMatching(d.titleName);
+          const normalizedName = titleNameKey(d.titleName).full;
           const mappedKey = normalizedNameToKey.get(normalizedName);
           return mappedKey === key && d.date.toISOString().split('T')[0] === dateStr;
         });
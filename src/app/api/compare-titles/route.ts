@@ -15,7 +15,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { compareTitlesHead2Head } from '@/jobs/ingestGoogleTrends';
-import { normalizeTitle } from '@/lib/titleNormalize';
+import { resolveTitle } from '@/lib/titleMatcher';
+import { getTitleIndex } from '@/lib/titleIndexStore';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 30;
@@ -229,33 +230,22 @@ export async function GET(request: NextRequest) {
     const results: ComparisonResult[] = [];
 
     // Find titles in database
-    const allTitles = await prisma.title.findMany({
-      select: { id: true, canonicalName: true, type: true },
-    });
+    const titleIndex = await getTitleIndex();
 
     for (const name of titleNames) {
-      const normalizedName = normalizeTitle(name);
-
-      // Find matching title
-      const matchedTitle = allTitles.find((t: { id: string; canonicalName: string; type: string }) => {
-        const normalizedCanonical = normalizeTitle(t.canonicalName);
-        return (
-          normalizedCanonical.normalized === normalizedName.normalized ||
-          t.canonicalName.toLowerCase() === name.toLowerCase()
-        );
-      });
+      const matchedTitle = resolveTitle(titleIndex, name);
 
       // Get data for this title
       const flixPatrol = matchedTitle
-        ? await getFlixPatrolData(matchedTitle.id)
+        ? await getFlixPatrolData(matchedTitle.titleId)
         : { currentRank: null, points: null, trend: 'stable' as const, rankChange: null };
 
       const trends = matchedTitle
-        ? await getTrendsData(matchedTitle.id)
+        ? await getTrendsData(matchedTitle.titleId)
         : { trendsUS: null, trendsGlobal: null };
 
       const prediction = matchedTitle
-        ? await getModelPrediction(matchedTitle.id)
+        ? await getModelPrediction(matchedTitle.titleId)
         : { predictedRank: null, confidence: null, probability: null };
 
       // Calculate trends momentum based on stored data
@@ -276,7 +266,7 @@ export async function GET(request: NextRequest) {
 
       results.push({
         name,
-        titleId: matchedTitle?.id || null,
+        titleId: matchedTitle?.titleId || null,
         flixPatrolRank: flixPatrol.currentRank,
         flixPatrolPoints: flixPatrol.points,
         flixPatrolTrend: flixPatrol.trend,
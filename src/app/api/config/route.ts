@@ -8,6 +8,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/lib/prisma';
+import { publishForecastRun } from '@/lib/forecaster';
+import { DEFAULT_CHAMPION_MODEL_ID, getForecastModel } from '@/lib/forecastModels';
+import { DEFAULT_CONSENSUS_WEIGHTS } from '@/lib/consensusCalculator';
+import { parseConsensusWeightsConfig } from '@/lib/consensusWeights';
 
 const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
 
@@ -20,8 +24,11 @@ const DEFAULT_CONFIG = {
     trendsWeight: 0.33,
     wikipediaWeight: 0.33,
     rankDeltaWeight: 0.34,
+    countryBreadthWeight: 0.25,
   },
   breakoutThreshold: { value: 60 },
+  championModel: { value: DEFAULT_CHAMPION_MODEL_ID },
+  consensusWeights: { weights: DEFAULT_CONSENSUS_WEIGHTS, asOfHours: null },
 };
 
 export async function GET() {
@@ -76,7 +83,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Validate the key
-    const validKeys = ['momentumWeights', 'breakoutThreshold'];
+    const validKeys = ['momentumWeights', 'breakoutThreshold', 'championModel', 'consensusWeights'];
     if (!validKeys.includes(key)) {
       return NextResponse.json(
         { success: false, error: `Invalid config key: ${key}` },
@@ -86,7 +93,12 @@ export async function PUT(request: NextRequest) {
 
     // Validate value structure based on key
     if (key === 'momentumWeights') {
-      const weights = value as { trendsWeight?: number; wikipediaWeight?: number; rankDeltaWeight?: number };
+      const weights = value as {
+        trendsWeight?: number;
+        wikipediaWeight?: number;
+        rankDeltaWeight?: number;
+        countryBreadthWeight?: number;
+      };
       if (
         typeof weights.trendsWeight !== 'number' ||
         typeof weights.wikipediaWeight !== 'number' ||
@@ -106,6 +118,19 @@ export async function PUT(request: NextRequest) {
           { status: 400 }
         );
       }
+
+      // Country breadth is weighted on top of the core three (scores are normalized by weight used)
+      if (
+        weights.countryBreadthWeight !== undefined &&
+        (typeof weights.countryBreadthWeight !== 'number' ||
+          weights.countryBreadthWeight < 0 ||
+          weights.countryBreadthWeight > 1)
+      ) {
+        return NextResponse.json(
+          { success: false, error: 'Country breadth weight must be a number between 0 and 1' },
+          { status: 400 }
+        );
+      }
     }
 
     if (key === 'breakoutThreshold') {
@@ -118,26 +143,65 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    if (key === 'championModel') {
+      const champion = value as { value?: string };
+      if (typeof champion.value !== 'string' || !getForecastModel(champion.value)) {
+        return NextResponse.json(
+          { success: false, error: `Unknown forecast model: ${champion.value}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Stored normalized, so weights read back as shares of the consensus
+    let storedValue = value;
+    if (key === 'consensusWeights') {
+      const parsed = parseConsensusWeightsConfig(value);
+      if (parsed.error !== undefined) {
+        return NextResponse.json(
+          { success: false, error: parsed.error },
+          { status: 400 }
+        );
+      }
+      storedValue = parsed.value;
+    }
+
     // Upsert the config
     const config = await prisma.appConfig.upsert({
       where: { key },
       create: {
         key,
-        value: value as object,
+        value: storedValue as object,
         updatedBy: userId,  // Use authenticated user ID
       },
       update: {
-        value: value as object,
+        value: storedValue as object,
         updatedBy: userId,  // Use authenticated user ID
       },
     });
 
+    // Put the new champion's latest live forecasts in front of users now
+    // rather than at the next daily run
+    let published: number | null = null;
+    if (key === 'championModel') {
+      const modelId = (value as { value: string }).value;
+      const latestRun = await prisma.forecastRun.findFirst({
+        where: { modelId, source: 'live' },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true },
+      });
+      if (latestRun) {
+        published = await publishForecastRun(latestRun.id);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       data: {
         key: config.key,
         value: config.value,
         updatedAt: config.updatedAt.toISOString(),
+        ...(published !== null && { forecastsPublished: published }),
       },
     });
   } catch (error) {
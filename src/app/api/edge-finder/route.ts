@@ -21,9 +21,22 @@ import {
   EdgeOpportunity,
 } from '@/lib/edgeCalculator';
 import { matchOutcomeToTitle, buildTitleCache } from '@/lib/marketMatcher';
+import { getConfirmedOutcomeMappings } from '@/lib/outcomeMappings';
+import {
+  calculateExecutableEdge,
+  classifyExecutableSignal,
+  OrderBook,
+  DEFAULT_REFERENCE_STAKE,
+} from '@/lib/orderBook';
+import { getLatestOrderBooks, orderBookKey } from '@/lib/orderBookStore';
+import { getLatestPriceBars, priceBarKey } from '@/lib/priceBarStore';
+import { parseRankProbs } from '@/lib/rankDistribution';
 
 export const dynamic = 'force-dynamic';
 
+// Streamed minute bars newer than this replace the hourly snapshot as the current price
+const LIVE_PRICE_MAX_AGE_MS = 15 * 60 * 1000;
+
 // Define Prisma types for properly typed queries
 type MarketPriceSnapshotResult = Prisma.MarketPriceSnapshotGetPayload<{}>;
 
@@ -127,7 +140,16 @@ async function getPriceChanges(marketSlug: string): Promise<{
   }
 
   const currentSnapshot = snapshots[0];
-  const currentPrices = currentSnapshot.prices as Record<string, number>;
+  const currentPrices = { ...(currentSnapshot.prices as Record<string, number>) };
+
+  // Prefer the streamed price so intraday moves since the last snapshot show up
+  const liveBars = await getLatestPriceBars([marketSlug], LIVE_PRICE_MAX_AGE_MS);
+  for (const name of Object.keys(currentPrices)) {
+    const bar = liveBars.get(priceBarKey(marketSlug, name));
+    if (bar && new Date(bar.updatedAt) > new Date(currentSnapshot.timestamp)) {
+      currentPrices[name] = bar.close;
+    }
+  }
 
   // Find snapshots closest to 24h and 7d ago
   const snapshot24h = snapshots.find(s => new Date(s.timestamp) <= h24Ago);
@@ -177,6 +199,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<EdgeFinder
     const minEdge = parseFloat(searchParams.get('minEdge') || '5'); // Lower default for momentum
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50);
     const signalTypeFilter = searchParams.get('signalType'); // 'model_edge', 'market_momentum', or null for all
+    const referenceStake = parseFloat(searchParams.get('stake') || String(DEFAULT_REFERENCE_STAKE));
 
     // 1. Fetch current Polymarket data
     const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://predicteasy.vercel.app';
@@ -198,7 +221,8 @@ export async function GET(request: NextRequest): Promise<NextResponse<EdgeFinder
       select: { id: true, canonicalName: true, aliases: true },
       cacheStrategy: { ttl: 300 },
     });
-    const titleCache = buildTitleCache(titles);
+    const confirmedMappings = await getConfirmedOutcomeMappings();
+    const titleCache = buildTitleCache(titles, confirmedMappings);
 
     // 3. Get latest forecasts with momentum data
     const latestWeek = await prisma.forecastWeekly.findFirst({
@@ -237,6 +261,14 @@ export async function GET(request: NextRequest): Promise<NextResponse<EdgeFinder
       })
     );
 
+    // Latest order books, so model edges reflect the price a stake actually executes at
+    let orderBooks = new Map<string, OrderBook>();
+    try {
+      orderBooks = await getLatestOrderBooks(marketsToProcess.map((m) => m.slug));
+    } catch (e) {
+      console.error('[edge-finder] Order book fetch error:', e);
+    }
+
     for (const market of marketsToProcess) {
       const priceData = priceDataMap.get(market.slug);
 
@@ -275,15 +307,29 @@ export async function GET(request: NextRequest): Promise<NextResponse<EdgeFinder
           const confidence = (explainJson?.confidence as 'low' | 'medium' | 'high') ?? 'low';
           const historicalPattern = explainJson?.historicalPattern ?? 'unknown';
 
+          // The rank distribution only prices markets on the chart it was fitted on
+          const marketChart = market.category.endsWith('-us') ? 'US' : 'GLOBAL';
+          const rankProbs = forecast.rankChart === marketChart ? parseRankProbs(forecast.rankProbs) : null;
+
           const modelResult = calculateModelProbability(
             momentumScore,
             accelerationScore,
-            { p10: forecast.p10, p50: forecast.p50, p90: forecast.p90 },
-            confidence
+            { p10: forecast.p10, p50: forecast.p50, p90: forecast.p90, rankProbs },
+            confidence,
+            market.rank
           );
 
           const edgeResult = calculateEdge(outcome.probability, modelResult.probability);
 
+          const book = orderBooks.get(orderBookKey(market.slug, outcome.name));
+          const execution = book
+            ? calculateExecutableEdge(modelResult.probability, outcome.probability, book, referenceStake)
+            : null;
+          const executableSignal = classifyExecutableSignal(edgeResult.edgePercent, execution, true);
+
+          // Not tradable once the reference stake is walked through the book
+          if (execution && executableSignal.signal === 'HOLD') continue;
+
           const reasoning = generateReasoning({
             direction: edgeResult.direction,
             edgePercent: edgeResult.edgePercent,
@@ -309,8 +355,9 @@ export async function GET(request: NextRequest): Promise<NextResponse<EdgeFinder
             modelProbability: modelResult.probability,
             edge: edgeResult.edge,
             edgePercent: edgeResult.edgePercent,
-            signalStrength: edgeResult.signalStrength,
+            signalStrength: execution ? executableSignal.strength : edgeResult.signalStrength,
             direction: edgeResult.direction,
+            execution,
             momentumScore,
             accelerationScore,
             forecastP50: forecast.p50,
@@ -387,7 +434,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<EdgeFinder
 
     // 6. Filter and sort by edge/momentum magnitude
     filteredEdges = filteredEdges
-      .filter(e => Math.abs(e.edgePercent) >= minEdge)
+      .filter(e => Math.abs(e.execution?.edgePercent ?? e.edgePercent) >= minEdge)
       .sort((a, b) => {
         // Prioritize model_edge signals, then sort by magnitude
         if (a.signalType !== b.signalType) {
@@ -1,12 +1,15 @@
 /**
  * Forecasts API Endpoint
  *
- * Returns forecast data for display and comparison.
+ * Returns forecast data for display and comparison. With ?asOf=<date>,
+ * returns each forecast as it stood then, from the versioned history.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ForecastTarget, TitleType } from '@prisma/client';
 import prisma from '@/lib/prisma';
+import { writtenBy } from '@/lib/pointInTime';
+import { parseRankProbs, probabilityOfRank, probabilityTopN } from '@/lib/rankDistribution';
 
 export const dynamic = 'force-dynamic';
 
@@ -15,12 +18,17 @@ export interface ForecastResponse {
   titleId: string;
   titleName: string;
   titleType: TitleType;
+  seasonNumber: number;
   weekStart: string;
   weekEnd: string;
   target: ForecastTarget;
   p10: number;
   p50: number;
   p90: number;
+  rankProbs: number[] | null;  // RANK only: P(rank 1..10, outside Top 10)
+  pRank1: number | null;
+  pRank2: number | null;
+  pTop3: number | null;
   momentumScore: number | null;
   accelerationScore: number | null;
   confidence: string | null;
@@ -35,6 +43,7 @@ export async function GET(request: NextRequest) {
     const target = searchParams.get('target') as ForecastTarget | null;
     const titleType = searchParams.get('type') as TitleType | null;
     const weekStart = searchParams.get('weekStart');
+    const asOf = searchParams.get('asOf');
     const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100);
 
     // Build where clause
@@ -56,21 +65,40 @@ export async function GET(request: NextRequest) {
       where.weekStart = new Date(weekStart);
     }
 
-    // Get forecasts with title info
-    const forecasts = await prisma.forecastWeekly.findMany({
-      where,
-      include: {
-        title: {
-          select: {
-            id: true,
-            canonicalName: true,
-            type: true,
-          },
+    const include = {
+      title: {
+        select: {
+          id: true,
+          canonicalName: true,
+          type: true,
         },
       },
-      orderBy: { weekStart: 'desc' },
-      take: limit,
-    });
+    };
+
+    // Get forecasts with title info
+    let forecasts;
+    if (asOf) {
+      // Newest champion version of each forecast written by asOf
+      const versions = await prisma.forecastWeeklyVersion.findMany({
+        where: { ...where, run: { champion: true }, ...writtenBy(new Date(asOf)) },
+        include,
+        orderBy: [{ weekStart: 'desc' }, { createdAt: 'desc' }],
+      });
+      const seen = new Set<string>();
+      forecasts = versions.filter((v: { titleId: string; seasonNumber: number; weekStart: Date; target: string }) => {
+        const key = `${v.titleId}:${v.seasonNumber}:${v.weekStart.toISOString()}:${v.target}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }).slice(0, limit);
+    } else {
+      forecasts = await prisma.forecastWeekly.findMany({
+        where,
+        include,
+        orderBy: { weekStart: 'desc' },
+        take: limit,
+      });
+    }
 
     // Format response
     const formattedForecasts: ForecastResponse[] = forecasts.map((f: any) => {
@@ -80,18 +108,24 @@ export async function GET(request: NextRequest) {
         confidence?: string;
         historicalPattern?: string;
       } | null;
+      const rankProbs = parseRankProbs(f.rankProbs);
 
       return {
         id: f.id,
         titleId: f.titleId,
         titleName: f.title.canonicalName,
         titleType: f.title.type,
+        seasonNumber: f.seasonNumber,
         weekStart: f.weekStart.toISOString(),
         weekEnd: f.weekEnd.toISOString(),
         target: f.target,
         p10: f.p10,
         p50: f.p50,
         p90: f.p90,
+        rankProbs,
+        pRank1: rankProbs && probabilityOfRank(rankProbs, 1),
+        pRank2: rankProbs && probabilityOfRank(rankProbs, 2),
+        pTop3: rankProbs && probabilityTopN(rankProbs, 3),
         momentumScore: explainJson?.momentumScore ?? null,
         accelerationScore: explainJson?.accelerationScore ?? null,
         confidence: explainJson?.confidence ?? null,
@@ -105,6 +139,7 @@ export async function GET(request: NextRequest) {
       meta: {
         target: target || 'ALL',
         type: titleType || 'ALL',
+        asOf: asOf || null,
         count: formattedForecasts.length,
       },
     });
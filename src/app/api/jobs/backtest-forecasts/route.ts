@@ -0,0 +1,119 @@
+/**
+ * Forecast Backtest API Endpoint
+ *
+ * Triggered manually. Scores replayed and stored rank forecasts against
+ * realized Netflix Top 10 ranks. Results are stored on the JobRun record.
+ *
+ * Query params:
+ * - weeks: number of most recent Netflix weeks to score (default 8, max 26)
+ * - storedOnly: "true" to skip replaying the registered models
+ * - model: replay only this registered model ID (default every model)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { backtestForecasts } from '@/jobs/backtestForecasts';
+import { getForecastModel } from '@/lib/forecastModels';
+import prisma from '@/lib/prisma';
+import { verifyJobAuth } from '@/lib/jobAuth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const auth = verifyJobAuth(request);
+  if (!auth.authorized) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const isManual = auth.triggeredBy === 'manual';
+
+  const { searchParams } = request.nextUrl;
+  const weeks = Math.min(parseInt(searchParams.get('weeks') || '8', 10) || 8, 26);
+  const storedOnly = searchParams.get('storedOnly') === 'true';
+  const modelId = searchParams.get('model') || undefined;
+
+  if (modelId && !getForecastModel(modelId)) {
+    return NextResponse.json({ success: false, error: `Unknown model: ${modelId}` }, { status: 400 });
+  }
+
+  const startTime = Date.now();
+
+  // Create job run record
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: 'backtest_forecasts',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    console.log(`Starting forecast backtest via API (${weeks} weeks)...`);
+    const result = await backtestForecasts({ weeks, replay: !storedOnly, modelId });
+
+    const duration = Date.now() - startTime;
+
+    // Update job run with success
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        detailsJson: {
+          durationMs: duration,
+          triggeredBy: isManual ? 'manual' : 'cron',
+          ...result,
+          errors: result.errors.slice(0, 100),
+        } as object,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobRunId: jobRun.id,
+      durationMs: duration,
+      weeksEvaluated: result.weeksEvaluated,
+      models: result.models.map((m) => ({
+        modelId: m.modelId,
+        modelVersion: m.modelVersion,
+        source: m.source,
+        metrics: m.metrics,
+      })),
+      errorCount: result.errors.length,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // Update job run with failure
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'FAIL',
+        finishedAt: new Date(),
+        error: errorMessage,
+        detailsJson: {
+          durationMs: duration,
+          triggeredBy: isManual ? 'manual' : 'cron',
+        },
+      },
+    });
+
+    console.error('Forecast backtest failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        jobRunId: jobRun.id,
+        error: errorMessage,
+        durationMs: duration,
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST endpoint for webhook-style triggers
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,102 @@
+/**
+ * Premiere Curve Fitting API Endpoint
+ *
+ * Triggered by Vercel Cron (weekly, after the Netflix Top 10 lands) or
+ * manually. Refits the day-by-day premiere curves per title type and genre
+ * from past releases' FlixPatrol points.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fitPremiereCurves } from '@/jobs/fitPremiereCurves';
+import prisma from '@/lib/prisma';
+import { verifyJobAuth } from '@/lib/jobAuth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const auth = verifyJobAuth(request);
+  if (!auth.authorized) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const isManual = auth.triggeredBy === 'manual';
+
+  const startTime = Date.now();
+
+  // Create job run record
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: 'fit_premiere_curves',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    console.log('Starting premiere curve fit via API...');
+    const result = await fitPremiereCurves();
+
+    const duration = Date.now() - startTime;
+
+    // Update job run with success
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        detailsJson: {
+          durationMs: duration,
+          triggeredBy: isManual ? 'manual' : 'cron',
+          ...result,
+          errors: result.errors.slice(0, 100),
+        } as object,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobRunId: jobRun.id,
+      durationMs: duration,
+      releasesFound: result.releasesFound,
+      releasesUsed: result.releasesUsed,
+      logViewsPerRank: result.logViewsPerRank,
+      curves: result.curves,
+      errorCount: result.errors.length,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // Update job run with failure
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'FAIL',
+        finishedAt: new Date(),
+        error: errorMessage,
+        detailsJson: {
+          durationMs: duration,
+          triggeredBy: isManual ? 'manual' : 'cron',
+        },
+      },
+    });
+
+    console.error('Premiere curve fit failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        jobRunId: jobRun.id,
+        error: errorMessage,
+        durationMs: duration,
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST endpoint for webhook-style triggers
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -7,9 +7,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateForecastsJob } from '@/jobs/generateForecasts';
-import { MODEL_VERSION } from '@/lib/forecaster';
 import prisma from '@/lib/prisma';
 import { verifyJobAuth } from '@/lib/jobAuth';
+import { evaluateAlertsAfterJob } from '@/lib/alertEngine';
 
 export const dynamic = 'force-dynamic';
 
@@ -35,6 +35,7 @@ export async function GET(request: NextRequest) {
     const result = await generateForecastsJob();
 
     const duration = Date.now() - startTime;
+    const modelVersion = result.models.find((m) => m.champion)?.modelVersion;
 
     // Update job run with success
     await prisma.jobRun.update({
@@ -45,18 +46,21 @@ export async function GET(request: NextRequest) {
         detailsJson: {
           durationMs: duration,
           triggeredBy: isManual ? 'manual' : 'cron',
-          modelVersion: MODEL_VERSION,
+          modelVersion,
           ...result,
           errors: result.errors.slice(0, 100),
         },
       },
     });
 
+    await evaluateAlertsAfterJob('generate_forecasts', jobRun.id);
+
     return NextResponse.json({
       success: true,
       jobRunId: jobRun.id,
       durationMs: duration,
-      modelVersion: MODEL_VERSION,
+      championModelId: result.championModelId,
+      modelVersion,
       stats: {
         titlesProcessed: result.titlesProcessed,
         forecastsGenerated: result.forecastsGenerated,
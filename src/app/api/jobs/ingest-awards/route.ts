@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { ingestAwardsPolymarket } from '@/jobs/ingestAwardsPolymarket';
 import prisma from '@/lib/prisma';
 import { verifyJobAuth } from '@/lib/jobAuth';
+import { evaluateAlertsAfterJob } from '@/lib/alertEngine';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300;
@@ -51,6 +52,8 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    await evaluateAlertsAfterJob('ingest_awards_polymarket', jobRun.id);
+
     return NextResponse.json({
       success: true,
       jobRunId: jobRun.id,
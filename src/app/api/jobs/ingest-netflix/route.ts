@@ -61,6 +61,8 @@ export async function GET(request: NextRequest) {
         titlesCreated: result.titlesCreated,
         globalRecordsUpserted: result.globalRecordsUpserted,
         usRecordsUpserted: result.usRecordsUpserted,
+        countryRecordsUpserted: result.countryRecordsUpserted,
+        countriesSeen: result.countriesSeen,
         errorCount: result.errors.length,
       },
     });
@@ -0,0 +1,102 @@
+/**
+ * Paper Trading API Endpoint
+ *
+ * Called by Vercel Cron every hour. Settles paper positions on markets that
+ * have resolved, then opens new positions for each active portfolio on the
+ * current BUY/AVOID signals.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runPaperTrading } from '@/jobs/paperTrade';
+import prisma from '@/lib/prisma';
+import { verifyJobAuth } from '@/lib/jobAuth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const auth = verifyJobAuth(request);
+  if (!auth.authorized) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const isManual = auth.triggeredBy === 'manual';
+
+  const startTime = Date.now();
+
+  // Create job run record
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: 'paper_trading',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    console.log('Starting paper trading via API...');
+    const result = await runPaperTrading();
+
+    const duration = Date.now() - startTime;
+
+    // Update job run with success
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        detailsJson: {
+          durationMs: duration,
+          triggeredBy: isManual ? 'manual' : 'cron',
+          ...result,
+          errors: result.errors.slice(0, 100),
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobRunId: jobRun.id,
+      durationMs: duration,
+      signalsFound: result.signalsFound,
+      positionsOpened: result.positionsOpened,
+      marketsResolved: result.marketsResolved,
+      positionsSettled: result.positionsSettled,
+      errorCount: result.errors.length,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // Update job run with failure
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'FAIL',
+        finishedAt: new Date(),
+        error: errorMessage,
+        detailsJson: {
+          durationMs: duration,
+          triggeredBy: isManual ? 'manual' : 'cron',
+        },
+      },
+    });
+
+    console.error('Paper trading failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        jobRunId: jobRun.id,
+        error: errorMessage,
+        durationMs: duration,
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST endpoint for webhook-style triggers
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
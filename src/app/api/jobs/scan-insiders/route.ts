@@ -13,6 +13,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { scanInsiders } from '@/jobs/scanInsiders';
 import prisma from '@/lib/prisma';
 import { verifyJobAuth } from '@/lib/jobAuth';
+import { evaluateAlertsAfterJob } from '@/lib/alertEngine';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300; // 5 minutes
@@ -66,6 +67,8 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    await evaluateAlertsAfterJob('scan_insiders', jobRun.id);
+
     return NextResponse.json({
       success: true,
       durationMs: duration,
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { verifyJobAuth } from '@/lib/jobAuth';
+import { evaluateAlertsAfterJob } from '@/lib/alertEngine';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -147,7 +148,7 @@ export async function GET(request: NextRequest) {
     const result = await snapshotActiveMarketPrices();
 
     // Log job run
-    await prisma.jobRun.create({
+    const jobRun = await prisma.jobRun.create({
       data: {
         jobName: 'snapshot-prices',
         status: result.errors.length > 0 ? 'FAIL' : 'SUCCESS',
@@ -155,6 +156,10 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    if (result.snapshotsCreated > 0) {
+      await evaluateAlertsAfterJob('snapshot-prices', jobRun.id);
+    }
+
     return NextResponse.json({
       success: true,
       result,
@@ -81,6 +81,7 @@ export async function GET(request: NextRequest) {
       durationMs: duration,
       stats: {
         titlesCreated: result.titlesCreated,
+        matchesQueued: result.matchesQueued,
         marketsDiscovered: result.marketsDiscovered,
         marketsCreated: result.marketsCreated,
         marketsUpdated: result.marketsUpdated,
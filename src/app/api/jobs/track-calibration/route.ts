@@ -0,0 +1,105 @@
+/**
+ * Market Calibration Tracking API Endpoint
+ *
+ * Called by Vercel Cron every 6 hours. Snapshots model probabilities for the
+ * open weekly Polymarket markets and scores snapshots for markets that have
+ * resolved since the last run.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { trackMarketCalibration } from '@/jobs/trackMarketCalibration';
+import prisma from '@/lib/prisma';
+import { verifyJobAuth } from '@/lib/jobAuth';
+import { evaluateAlertsAfterJob } from '@/lib/alertEngine';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const auth = verifyJobAuth(request);
+  if (!auth.authorized) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const isManual = auth.triggeredBy === 'manual';
+
+  const startTime = Date.now();
+
+  // Create job run record
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: 'track_market_calibration',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    console.log('Starting market calibration tracking via API...');
+    const result = await trackMarketCalibration();
+
+    const duration = Date.now() - startTime;
+
+    // Update job run with success
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        detailsJson: {
+          durationMs: duration,
+          triggeredBy: isManual ? 'manual' : 'cron',
+          ...result,
+          errors: result.errors.slice(0, 100),
+        },
+      },
+    });
+
+    await evaluateAlertsAfterJob('track_market_calibration', jobRun.id);
+
+    return NextResponse.json({
+      success: true,
+      jobRunId: jobRun.id,
+      durationMs: duration,
+      snapshotsCreated: result.snapshotsCreated,
+      marketsChecked: result.marketsChecked,
+      marketsResolved: result.marketsResolved,
+      snapshotsScored: result.snapshotsScored,
+      errorCount: result.errors.length,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // Update job run with failure
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'FAIL',
+        finishedAt: new Date(),
+        error: errorMessage,
+        detailsJson: {
+          durationMs: duration,
+          triggeredBy: isManual ? 'manual' : 'cron',
+        },
+      },
+    });
+
+    console.error('Market calibration tracking failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        jobRunId: jobRun.id,
+        error: errorMessage,
+        durationMs: duration,
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST endpoint for webhook-style triggers
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
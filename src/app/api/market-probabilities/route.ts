@@ -3,6 +3,10 @@
  *
  * Returns probability distribution for Polymarket Netflix markets.
  * Probabilities sum to 100% across all outcomes.
+ *
+ * Query params:
+ * - category: shows-us | shows-global | films-us | films-global
+ * - rank: 1 (default, "top" market) | 2 ("#2" market)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -21,6 +25,7 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = request.nextUrl;
     const category = searchParams.get('category') as MarketCategory | null;
+    const rank = searchParams.get('rank') || '1';
 
     // Validate category
     if (!category || !VALID_CATEGORIES.includes(category)) {
@@ -33,7 +38,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const probabilities = await generateMarketProbabilities(category);
+    if (rank !== '1' && rank !== '2') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid rank. Must be 1 or 2' },
+        { status: 400 }
+      );
+    }
+
+    const probabilities = await generateMarketProbabilities(category, rank === '2' ? 2 : 1);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,63 @@
+/**
+ * Market Simulation API
+ *
+ * Monte Carlo simulation of the coming week's chart for a Polymarket
+ * Netflix market category: P(#1), P(#2) and the rank distribution per
+ * contender, plus exacta (first/second pair) probabilities.
+ *
+ * Query params:
+ * - category: shows-us | shows-global | films-us | films-global
+ * - iterations: simulated weeks (default 10000, max 50000)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { MarketCategory } from '@/lib/forecaster';
+import { simulateMarketCategory } from '@/lib/marketSimulation';
+import { DEFAULT_ITERATIONS } from '@/lib/chartSimulator';
+
+export const dynamic = 'force-dynamic';
+
+const VALID_CATEGORIES: MarketCategory[] = [
+  'shows-us',
+  'shows-global',
+  'films-us',
+  'films-global',
+];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const category = searchParams.get('category') as MarketCategory | null;
+    const iterations = Math.min(
+      Math.max(parseInt(searchParams.get('iterations') || String(DEFAULT_ITERATIONS), 10) || DEFAULT_ITERATIONS, 100),
+      50000
+    );
+
+    // Validate category
+    if (!category || !VALID_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const simulation = await simulateMarketCategory(category, { iterations });
+
+    return NextResponse.json({
+      success: true,
+      data: simulation,
+    });
+  } catch (error) {
+    console.error('Error simulating market:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -42,17 +42,28 @@ export interface MomentumBreakdown {
   trendsRaw: number | null;
   wikipediaRaw: number | null;
   rankDeltaRaw: number | null;
+  countryBreadthRaw?: number | null;
   trendsNormalized: number | null;
   wikipediaNormalized: number | null;
   rankDeltaNormalized: number | null;
+  countryBreadthNormalized?: number | null;
   weights: {
     trendsWeight: number;
     wikipediaWeight: number;
     rankDeltaWeight: number;
+    countryBreadthWeight?: number;
   };
   trendsContribution: number;
   wikipediaContribution: number;
   rankDeltaContribution: number;
+  countryBreadthContribution?: number;
+  countryBreadth?: {
+    countriesInTop10: number;
+    countriesAtNumber1: number;
+    countryCountDelta: number | null;
+    regionalSpreadIndex: number;
+    regionsCharting: number;
+  } | null;
   totalScore: number;
 }
 
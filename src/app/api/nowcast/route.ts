@@ -0,0 +1,77 @@
+/**
+ * Nowcast API
+ *
+ * Partial-week nowcast for a Polymarket Netflix market category: each
+ * title's projected final weekly views (with a p10–p90 range) and its
+ * P(#1) / P(#2), from the days of the tracking week's FlixPatrol points
+ * already in. Sharpens as each day's data lands.
+ *
+ * Query params:
+ * - category: shows-us | shows-global | films-us | films-global
+ * - iterations: simulated weeks (default 10000, max 50000)
+ * - asOf: nowcast as of this past date (ISO), using only data known then
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { MarketCategory } from '@/lib/forecaster';
+import { nowcastMarketCategory } from '@/lib/marketSimulation';
+import { DEFAULT_ITERATIONS } from '@/lib/chartSimulator';
+import prisma from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+
+const VALID_CATEGORIES: MarketCategory[] = [
+  'shows-us',
+  'shows-global',
+  'films-us',
+  'films-global',
+];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const category = searchParams.get('category') as MarketCategory | null;
+    const iterations = Math.min(
+      Math.max(parseInt(searchParams.get('iterations') || String(DEFAULT_ITERATIONS), 10) || DEFAULT_ITERATIONS, 100),
+      50000
+    );
+    const asOfParam = searchParams.get('asOf');
+    const asOf = asOfParam ? new Date(asOfParam) : undefined;
+
+    // Validate category
+    if (!category || !VALID_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (asOf && isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid asOf date' },
+        { status: 400 }
+      );
+    }
+
+    const nowcast = await nowcastMarketCategory(category, { asOf, iterations });
+
+    return NextResponse.json({
+      success: true,
+      data: nowcast,
+    });
+  } catch (error) {
+    console.error('Error nowcasting market:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
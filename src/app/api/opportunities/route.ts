@@ -3,6 +3,15 @@
  *
  * Unified endpoint that combines Netflix rankings with Polymarket edge data.
  * Returns opportunity cards with rank forecasts, market odds, and signal classification.
+ *
+ * With ?marketRank=2 the cards are priced against the "#2" markets instead
+ * of the "top" markets. Model probabilities come from the Monte Carlo chart
+ * simulation where it covers a title, else from the market distribution.
+ * Once the tracking week has FlixPatrol days in, the simulation is the
+ * partial-week nowcast.
+ *
+ * ?stake sets the dollar amount edges are walked through the order book at
+ * (default DEFAULT_REFERENCE_STAKE, max MAX_REFERENCE_STAKE).
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -11,12 +20,31 @@ import prisma, { withRetry } from "@/lib/prisma";
 import {
   calculateEdge,
   generateReasoning,
+  Signal,
+  SignalStrength,
 } from "@/lib/edgeCalculator";
+import {
+  calculateExecutableEdge,
+  classifyExecutableSignal,
+  ExecutableEdge,
+  OrderBook,
+  DEFAULT_REFERENCE_STAKE,
+} from "@/lib/orderBook";
+import { getLatestOrderBooks, orderBookKey } from "@/lib/orderBookStore";
 import { matchOutcomeToTitle, buildTitleCache } from "@/lib/marketMatcher";
+import { getConfirmedOutcomeMappings } from "@/lib/outcomeMappings";
 import { generateMarketProbabilities, MarketCategory, TitleProbability } from "@/lib/forecaster";
+import {
+  simulateMarketCategory,
+  nowcastMarketCategory,
+  MarketSimulation,
+  MarketNowcast,
+} from "@/lib/marketSimulation";
 
 export const dynamic = "force-dynamic";
 
+const MAX_REFERENCE_STAKE = 10000;
+
 // Define Prisma types for properly typed queries
 type WeeklyGlobalWithWeekStart = Prisma.NetflixWeeklyGlobalGetPayload<{
   select: { weekStart: true };
@@ -51,9 +79,6 @@ type ForecastBasic = {
   weekStart: Date;
 };
 
-type Signal = "BUY" | "HOLD" | "AVOID";
-type SignalStrength = "strong" | "moderate" | "weak";
-
 // Map tab IDs to Netflix category names (database still uses English/Non-English)
 // Note: "global" categories return null to include ALL content (English + Non-English)
 // because Polymarket Global markets include ALL titles, not just international ones
@@ -76,17 +101,28 @@ interface MomentumBreakdown {
   trendsRaw: number | null;
   wikipediaRaw: number | null;
   rankDeltaRaw: number | null;
+  countryBreadthRaw?: number | null;
   trendsNormalized: number | null;
   wikipediaNormalized: number | null;
   rankDeltaNormalized: number | null;
+  countryBreadthNormalized?: number | null;
   weights: {
     trendsWeight: number;
     wikipediaWeight: number;
     rankDeltaWeight: number;
+    countryBreadthWeight?: number;
   };
   trendsContribution: number;
   wikipediaContribution: number;
   rankDeltaContribution: number;
+  countryBreadthContribution?: number;
+  countryBreadth?: {
+    countriesInTop10: number;
+    countriesAtNumber1: number;
+    countryCountDelta: number | null;
+    regionalSpreadIndex: number;
+    regionsCharting: number;
+  } | null;
   totalScore: number;
 }
 
@@ -109,12 +145,16 @@ interface OpportunityResponse {
   modelProbability: number | null;
   edgePercent: number | null;
   polymarketUrl: string | null;
+  execution: ExecutableEdge | null; // Edge at the reference stake after walking the order book
 
   // Signal classification
   signal: Signal;
   signalStrength: SignalStrength;
   confidence: "low" | "medium" | "high";
 
+  // Monte Carlo chart simulation (when a category is requested)
+  simulation: { pFirst: number; pSecond: number } | null;
+
   // Momentum
   momentumScore: number | null;
   momentumBreakdown: MomentumBreakdown | null;
@@ -180,33 +220,6 @@ function applyPolymarketAdjustment(
   };
 }
 
-function classifySignal(
-  edgePercent: number | null,
-  hasMarket: boolean
-): { signal: Signal; strength: SignalStrength } {
-  if (!hasMarket || edgePercent === null) {
-    return { signal: "HOLD", strength: "weak" };
-  }
-
-  const absEdge = Math.abs(edgePercent);
-
-  // Determine strength
-  let strength: SignalStrength;
-  if (absEdge >= 20) strength = "strong";
-  else if (absEdge >= 10) strength = "moderate";
-  else strength = "weak";
-
-  // Determine direction
-  if (absEdge < 5) {
-    return { signal: "HOLD", strength: "weak" };
-  }
-
-  return {
-    signal: edgePercent > 0 ? "BUY" : "AVOID",
-    strength,
-  };
-}
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = request.nextUrl;
@@ -219,6 +232,10 @@ export async function GET(request: NextRequest) {
     const polymarketOnly = searchParams.get("polymarketOnly") === "true";
     const sortBy = searchParams.get("sort") || "rank";
     const limit = Math.min(parseInt(searchParams.get("limit") || "10"), 50);
+    const stakeParam = parseFloat(searchParams.get("stake") || "");
+    const referenceStake =
+      Number.isFinite(stakeParam) && stakeParam > 0 ? Math.min(stakeParam, MAX_REFERENCE_STAKE) : DEFAULT_REFERENCE_STAKE;
+    const marketRank = searchParams.get("marketRank") === "2" ? 2 : 1;
 
     // Map category param to Netflix category name
     // For "global" categories, netflixCategory is null but we filter by type instead
@@ -324,7 +341,7 @@ export async function GET(request: NextRequest) {
     // 5. Fetch Polymarket data from our own API using the request origin
     // This works reliably in both local and production environments
     const origin = request.nextUrl.origin;
-    let polymarketData: { category: string; rank: number; outcomes: Array<{ name: string; probability: number }>; polymarketUrl: string }[] = [];
+    let polymarketData: { slug: string; category: string; rank: number; outcomes: Array<{ name: string; probability: number }>; polymarketUrl: string }[] = [];
 
     try {
       const polyUrl = `${origin}/api/polymarket-netflix`;
@@ -356,21 +373,21 @@ export async function GET(request: NextRequest) {
 
     // Build market probability map using ALL titles
     // Filter markets to only those matching the requested category
-    const titleCache = buildTitleCache(allTitles);
+    const confirmedMappings = await withRetry(() => getConfirmedOutcomeMappings());
+    const titleCache = buildTitleCache(allTitles, confirmedMappings);
     const marketDataMap = new Map<
       string,
-      { probability: number; polymarketUrl: string }
+      { probability: number; polymarketUrl: string; marketSlug: string; outcomeName: string }
     >();
 
-    // Only include markets from the requested category AND only #1 markets
+    // Only include markets from the requested category AND the requested rank
     // e.g., "shows-global" should only match against "shows-global" markets
-    // We only use rank=1 markets because we're predicting who will be #1
-    // The #2 market tells us who will be #2, not #1
+    // The #1 and #2 markets price different events, so never mix them
     const relevantMarkets = categoryParam
-      ? polymarketData.filter(m => m.category === categoryParam && m.rank === 1)
-      : polymarketData.filter(m => m.rank === 1);
+      ? polymarketData.filter(m => m.category === categoryParam && m.rank === marketRank)
+      : polymarketData.filter(m => m.rank === marketRank);
 
-    console.log('[opportunities] Filtering to category:', categoryParam, 'rank=1 only - relevant markets:', relevantMarkets.length);
+    console.log('[opportunities] Filtering to category:', categoryParam, `rank=${marketRank} only - relevant markets:`, relevantMarkets.length);
 
     for (const market of relevantMarkets) {
       for (const outcome of market.outcomes || []) {
@@ -387,19 +404,29 @@ export async function GET(request: NextRequest) {
             marketDataMap.set(match.matchedTitleId, {
               probability: outcome.probability,
               polymarketUrl: market.polymarketUrl,
+              marketSlug: market.slug,
+              outcomeName: outcome.name,
             });
           }
         }
       }
     }
 
+    // 5b2. Latest order books, so signals reflect the price a stake actually executes at
+    let orderBooks = new Map<string, OrderBook>();
+    try {
+      orderBooks = await getLatestOrderBooks(Array.from(new Set(relevantMarkets.map((m) => m.slug))));
+    } catch (e) {
+      console.error('[opportunities] Order book fetch error:', e);
+    }
+
     // 5c. Fetch normalized model probabilities (sum to 100%)
     // This replaces the old per-title probability calculation
     const normalizedModelProbMap = new Map<string, { probability: number; confidence: 'low' | 'medium' | 'high' }>();
 
     if (categoryParam && ['shows-us', 'shows-global', 'films-us', 'films-global'].includes(categoryParam)) {
       try {
-        const marketProbs = await generateMarketProbabilities(categoryParam as MarketCategory);
+        const marketProbs = await generateMarketProbabilities(categoryParam as MarketCategory, marketRank);
         console.log('[opportunities] Generated normalized probabilities for', categoryParam, '- outcomes:', marketProbs.outcomes.length);
 
         for (const outcome of marketProbs.outcomes) {
@@ -428,6 +455,34 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // 5d. Monte Carlo chart simulation: where it covers a title, its P(#1) or
+    // P(#2) replaces the market-distribution probability. Mid-week, the
+    // nowcast from the days already in is used instead.
+    let simulation: MarketSimulation | null = null;
+    let nowcast: MarketNowcast | null = null;
+    const simulationMap = new Map<string, { pFirst: number; pSecond: number }>();
+
+    if (categoryParam && ['shows-us', 'shows-global', 'films-us', 'films-global'].includes(categoryParam)) {
+      try {
+        nowcast = await nowcastMarketCategory(categoryParam as MarketCategory);
+        if (nowcast.daysElapsed === 0 || nowcast.contenders.length === 0) nowcast = null;
+        simulation = nowcast ?? await simulateMarketCategory(categoryParam as MarketCategory);
+        for (const contender of simulation.contenders) {
+          // A title with two seasons charting is priced by its likelier season
+          const existing = simulationMap.get(contender.titleId);
+          const probability = marketRank === 1 ? contender.pFirst : contender.pSecond;
+          if (existing && (marketRank === 1 ? existing.pFirst : existing.pSecond) >= probability) continue;
+          simulationMap.set(contender.titleId, { pFirst: contender.pFirst, pSecond: contender.pSecond });
+          normalizedModelProbMap.set(contender.titleId, {
+            probability,
+            confidence: contender.source === 'netflix' ? 'medium' : 'low',
+          });
+        }
+      } catch (e) {
+        console.error('[opportunities] Chart simulation error:', e);
+      }
+    }
+
     // 6. Build opportunity responses
     const opportunities: OpportunityResponse[] = [];
 
@@ -494,11 +549,16 @@ export async function GET(request: NextRequest) {
         });
       }
 
-      // Classify signal
-      const { signal, strength } = classifySignal(edgePercent, hasMarket);
+      // Classify signal against the executable price when we have a book
+      const book = marketData ? orderBooks.get(orderBookKey(marketData.marketSlug, marketData.outcomeName)) : undefined;
+      const execution = book && marketProbability !== null && modelProbability !== null
+        ? calculateExecutableEdge(modelProbability, marketProbability, book, referenceStake)
+        : null;
+      const { signal, strength } = classifyExecutableSignal(edgePercent, execution, hasMarket);
+      const signalEdge = execution?.edgePercent ?? edgePercent;
 
       // Filter by min edge if opportunitiesOnly
-      if (opportunitiesOnly && (edgePercent === null || Math.abs(edgePercent) < minEdge)) {
+      if (opportunitiesOnly && (signalEdge === null || Math.abs(signalEdge) < minEdge || (execution && signal === "HOLD"))) {
         continue;
       }
 
@@ -517,9 +577,11 @@ export async function GET(request: NextRequest) {
         modelProbability,
         edgePercent,
         polymarketUrl: marketData?.polymarketUrl ?? null,
+        execution,
         signal,
         signalStrength: strength,
         confidence,
+        simulation: simulationMap.get(weekData.titleId) ?? null,
         momentumScore,
         momentumBreakdown,
         reasoning,
@@ -632,10 +694,15 @@ export async function GET(request: NextRequest) {
         marketProbability,
       });
 
-      const { signal, strength } = classifySignal(edgePercent, true);
+      const book = orderBooks.get(orderBookKey(marketData.marketSlug, marketData.outcomeName));
+      const execution = book
+        ? calculateExecutableEdge(modelProbability, marketProbability, book, referenceStake)
+        : null;
+      const { signal, strength } = classifyExecutableSignal(edgePercent, execution, true);
+      const signalEdge = execution?.edgePercent ?? edgePercent;
 
       // Filter by min edge if opportunitiesOnly
-      if (opportunitiesOnly && (edgePercent === null || Math.abs(edgePercent) < minEdge)) {
+      if (opportunitiesOnly && (signalEdge === null || Math.abs(signalEdge) < minEdge || (execution && signal === "HOLD"))) {
         continue;
       }
 
@@ -664,9 +731,11 @@ export async function GET(request: NextRequest) {
         modelProbability,
         edgePercent,
         polymarketUrl: marketData.polymarketUrl,
+        execution,
         signal,
         signalStrength: strength,
         confidence,
+        simulation: simulationMap.get(title.id) ?? null,
         momentumScore,
         momentumBreakdown,
         reasoning,
@@ -761,6 +830,14 @@ export async function GET(request: NextRequest) {
       data: limitedResults,
       meta: {
         weekStart: weekStart.toISOString(),
+        marketRank,
+        simulation: simulation && {
+          mode: nowcast ? "nowcast" : "forecast",
+          daysElapsed: nowcast?.daysElapsed ?? 0,
+          iterations: simulation.iterations,
+          contenders: simulation.contenders.length,
+          exacta: simulation.exacta.slice(0, 5),
+        },
         total: limitedResults.length,
         buySignals: buyCount,
         avoidSignals: avoidCount,
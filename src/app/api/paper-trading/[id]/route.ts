@@ -0,0 +1,212 @@
+/**
+ * Paper Portfolio Detail API Endpoint
+ *
+ * GET: Portfolio with its positions and realized equity curve. Open positions
+ * are marked to the latest MarketPriceSnapshot price.
+ * PATCH: Update sizing rule, settings or active flag (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import {
+  buildEquityCurve,
+  resolveSettings,
+  summarisePortfolio,
+  PortfolioSettings,
+  PositionSide,
+  SizingRule,
+} from '@/lib/paperTrading';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export const dynamic = 'force-dynamic';
+
+const SIZING_RULES: SizingRule[] = ['FLAT', 'KELLY', 'EDGE_PROPORTIONAL'];
+
+interface PositionRow {
+  id: string;
+  marketId: string;
+  marketSlug: string | null;
+  category: string;
+  outcomeName: string;
+  titleId: string | null;
+  side: PositionSide;
+  signalStrength: string;
+  edgePercent: number;
+  modelProbability: number;
+  marketProbability: number;
+  entryPrice: number;
+  shares: number;
+  stake: number;
+  status: 'OPEN' | 'SETTLED';
+  openedAt: Date;
+  settledAt: Date | null;
+  winningOutcome: string | null;
+  payout: number | null;
+  pnl: number | null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const portfolio = await prisma.paperPortfolio.findUnique({
+      where: { id },
+      include: {
+        positions: { orderBy: { openedAt: 'desc' } },
+      },
+    });
+
+    if (!portfolio) {
+      return NextResponse.json(
+        { success: false, error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    const positions = portfolio.positions as PositionRow[];
+
+    // Latest YES prices for markets with open positions
+    const openMarketIds = Array.from(
+      new Set(positions.filter((p) => p.status === 'OPEN').map((p) => p.marketId))
+    );
+    const latestPrices = new Map<string, Record<string, number>>();
+    for (const marketId of openMarketIds) {
+      const snapshot = await prisma.marketPriceSnapshot.findFirst({
+        where: { marketId },
+        orderBy: { timestamp: 'desc' },
+        select: { prices: true },
+      });
+      if (snapshot) latestPrices.set(marketId, snapshot.prices as Record<string, number>);
+    }
+
+    let unrealizedPnl = 0;
+    const positionData = positions.map((p) => {
+      let currentPrice: number | null = null;
+      let markValue: number | null = null;
+
+      if (p.status === 'OPEN') {
+        const yesPrice = latestPrices.get(p.marketId)?.[p.outcomeName];
+        if (typeof yesPrice === 'number') {
+          currentPrice = p.side === 'YES' ? yesPrice : 1 - yesPrice;
+          markValue = Math.round(p.shares * currentPrice * 100) / 100;
+          unrealizedPnl += markValue - p.stake;
+        }
+      }
+
+      return {
+        ...p,
+        openedAt: p.openedAt.toISOString(),
+        settledAt: p.settledAt?.toISOString() ?? null,
+        currentPrice,
+        markValue,
+      };
+    });
+
+    const settled = positions
+      .filter((p) => p.status === 'SETTLED' && p.settledAt && p.pnl !== null)
+      .map((p) => ({ settledAt: p.settledAt as Date, pnl: p.pnl as number }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: portfolio.id,
+        name: portfolio.name,
+        sizingRule: portfolio.sizingRule,
+        settings: resolveSettings(portfolio.settings),
+        startingBalance: portfolio.startingBalance,
+        cashBalance: portfolio.cashBalance,
+        isActive: portfolio.isActive,
+        createdAt: portfolio.createdAt.toISOString(),
+        summary: summarisePortfolio(portfolio.startingBalance, portfolio.cashBalance, positions),
+        unrealizedPnl: Math.round(unrealizedPnl * 100) / 100,
+        equityCurve: buildEquityCurve(portfolio.startingBalance, settled, portfolio.createdAt),
+        positions: positionData,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching paper portfolio:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify admin access
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { sizingRule, settings, isActive } = body as {
+      sizingRule?: SizingRule;
+      settings?: Partial<PortfolioSettings>;
+      isActive?: boolean;
+    };
+
+    if (sizingRule !== undefined && !SIZING_RULES.includes(sizingRule)) {
+      return NextResponse.json(
+        { success: false, error: `sizingRule must be one of: ${SIZING_RULES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.paperPortfolio.findUnique({
+      where: { id },
+      select: { settings: true },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    const portfolio = await prisma.paperPortfolio.update({
+      where: { id },
+      data: {
+        ...(sizingRule !== undefined && { sizingRule }),
+        ...(typeof isActive === 'boolean' && { isActive }),
+        ...(settings && {
+          settings: { ...resolveSettings({ ...resolveSettings(existing.settings), ...settings }) },
+        }),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: portfolio,
+    });
+  } catch (error) {
+    console.error('Error updating paper portfolio:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Paper Trading Portfolios API Endpoint
+ *
+ * GET: List paper portfolios with headline P&L stats
+ * POST: Create a portfolio (admin only)
+ *
+ * POST body:
+ * - name: unique portfolio name
+ * - sizingRule: FLAT | KELLY | EDGE_PROPORTIONAL
+ * - startingBalance: optional, default 10000
+ * - settings: optional partial PortfolioSettings, merged over the defaults
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import {
+  resolveSettings,
+  summarisePortfolio,
+  PortfolioSettings,
+  PortfolioSummary,
+  SizingRule,
+} from '@/lib/paperTrading';
+
+const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(',') || [];
+
+export const dynamic = 'force-dynamic';
+
+const SIZING_RULES: SizingRule[] = ['FLAT', 'KELLY', 'EDGE_PROPORTIONAL'];
+
+export interface PortfolioListItem {
+  id: string;
+  name: string;
+  sizingRule: SizingRule;
+  settings: PortfolioSettings;
+  startingBalance: number;
+  cashBalance: number;
+  isActive: boolean;
+  createdAt: string;
+  summary: PortfolioSummary;
+}
+
+interface PortfolioWithPositions {
+  id: string;
+  name: string;
+  sizingRule: SizingRule;
+  settings: unknown;
+  startingBalance: number;
+  cashBalance: number;
+  isActive: boolean;
+  createdAt: Date;
+  positions: Array<{ status: 'OPEN' | 'SETTLED'; stake: number; pnl: number | null }>;
+}
+
+export async function GET() {
+  try {
+    const portfolios = await prisma.paperPortfolio.findMany({
+      include: {
+        positions: { select: { status: true, stake: true, pnl: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const data: PortfolioListItem[] = (portfolios as PortfolioWithPositions[]).map((p) => ({
+      id: p.id,
+      name: p.name,
+      sizingRule: p.sizingRule,
+      settings: resolveSettings(p.settings),
+      startingBalance: p.startingBalance,
+      cashBalance: p.cashBalance,
+      isActive: p.isActive,
+      createdAt: p.createdAt.toISOString(),
+      summary: summarisePortfolio(p.startingBalance, p.cashBalance, p.positions),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error fetching paper portfolios:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify admin access
+    const { userId } = await auth();
+    if (!userId || !ADMIN_USER_IDS.includes(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, sizingRule, startingBalance = 10000, settings } = body as {
+      name?: string;
+      sizingRule?: SizingRule;
+      startingBalance?: number;
+      settings?: Partial<PortfolioSettings>;
+    };
+
+    if (!name || !sizingRule || !SIZING_RULES.includes(sizingRule)) {
+      return NextResponse.json(
+        { success: false, error: `name and sizingRule (${SIZING_RULES.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof startingBalance !== 'number' || startingBalance <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'startingBalance must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.paperPortfolio.findUnique({ where: { name } });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: `A portfolio named "${name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const portfolio = await prisma.paperPortfolio.create({
+      data: {
+        name,
+        sizingRule,
+        settings: { ...resolveSettings(settings) },
+        startingBalance,
+        cashBalance: startingBalance,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: portfolio,
+    });
+  } catch (error) {
+    console.error('Error creating paper portfolio:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Saved Insider Filters API Endpoint
+ *
+ * GET: The signed-in user's saved Insider Finder filters
+ * POST: Save the current filters under a name (saving an existing name
+ *       overwrites it)
+ *
+ * Body (POST): { name, filters }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { parseInsiderFilters, MAX_SAVED_INSIDER_FILTERS } from '@/lib/userPreferences';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const filters = await prisma.savedInsiderFilter.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: filters,
+    });
+  } catch (error) {
+    console.error('Error fetching saved insider filters:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json(
+        { success: false, error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseInsiderFilters(body.filters);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.savedInsiderFilter.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+    if (!existing) {
+      const count = await prisma.savedInsiderFilter.count({ where: { userId } });
+      if (count >= MAX_SAVED_INSIDER_FILTERS) {
+        return NextResponse.json(
+          { success: false, error: `You can save at most ${MAX_SAVED_INSIDER_FILTERS} filters` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const saved = await prisma.savedInsiderFilter.upsert({
+      where: { userId_name: { userId, name } },
+      update: { filters: { ...parsed.value } },
+      create: { userId, name, filters: { ...parsed.value } },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: saved,
+    });
+  } catch (error) {
+    console.error('Error saving insider filter:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
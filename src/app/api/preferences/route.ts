@@ -0,0 +1,111 @@
+/**
+ * User Preferences API Endpoint
+ *
+ * GET: The signed-in user's preferences, with defaults filled in
+ * PUT: Update preferences (partial updates are merged)
+ *
+ * Body (PUT): { netflix: { defaultTab?, viewMode?, minEdge? } }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import {
+  NETFLIX_PREFERENCE_KEY,
+  parseNetflixPreferences,
+  resolveNetflixPreferences,
+} from '@/lib/userPreferences';
+
+export const dynamic = 'force-dynamic';
+
+async function getStoredPreference(userId: string, key: string): Promise<unknown> {
+  const row = await prisma.userPreference.findUnique({
+    where: { userId_key: { userId, key } },
+  }) as { value: unknown } | null;
+  return row?.value ?? null;
+}
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const netflix = await getStoredPreference(userId, NETFLIX_PREFERENCE_KEY);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        netflix: resolveNetflixPreferences(netflix),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (body.netflix === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'netflix preferences are required' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseNetflixPreferences(body.netflix);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const current = resolveNetflixPreferences(await getStoredPreference(userId, NETFLIX_PREFERENCE_KEY));
+    const netflix = { ...current, ...parsed.value };
+
+    await prisma.userPreference.upsert({
+      where: { userId_key: { userId, key: NETFLIX_PREFERENCE_KEY } },
+      update: { value: netflix },
+      create: { userId, key: NETFLIX_PREFERENCE_KEY, value: netflix },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { netflix },
+    });
+  } catch (error) {
+    console.error('Error updating preferences:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
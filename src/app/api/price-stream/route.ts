@@ -0,0 +1,97 @@
+/**
+ * Live Price Stream API Endpoint
+ *
+ * Server-sent events feed of the minute bars written by the price-stream
+ * worker (src/jobs/streamPrices.ts). Sends a `snapshot` event with the latest
+ * bar per outcome on connect, then `bars` events as bars are updated.
+ *
+ * Query params:
+ * - slugs: comma-separated market slugs (default: all streamed markets)
+ *
+ * Each connection ends before the function time limit; EventSource reconnects
+ * and resumes from the Last-Event-ID cursor.
+ */
+
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getLatestPriceBars, getPriceBarsUpdatedSince, PriceBarUpdate } from '@/lib/priceBarStore';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const POLL_INTERVAL_MS = 5_000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const CONNECTION_LIFETIME_MS = 270_000;
+const SNAPSHOT_MAX_AGE_MS = 60 * 60 * 1000;
+
+function parseCursor(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const slugs = (searchParams.get('slugs') || '').split(',').map((s) => s.trim()).filter(Boolean);
+  const resumeFrom = parseCursor(request.headers.get('last-event-id'));
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const deadline = Date.now() + CONNECTION_LIFETIME_MS;
+      let lastHeartbeat = Date.now();
+      let cursor = resumeFrom ?? new Date();
+
+      const send = (event: string, data: unknown, id?: string) => {
+        const idLine = id ? `id: ${id}\n` : '';
+        controller.enqueue(encoder.encode(`event: ${event}\n${idLine}data: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const latestUpdate = (bars: PriceBarUpdate[]): Date =>
+        bars.reduce((max, b) => (new Date(b.updatedAt) > max ? new Date(b.updatedAt) : max), cursor);
+
+      try {
+        controller.enqueue(encoder.encode(`retry: 2000\n\n`));
+
+        if (!resumeFrom) {
+          const latest = Array.from((await getLatestPriceBars(slugs, SNAPSHOT_MAX_AGE_MS)).values());
+          cursor = latestUpdate(latest);
+          send('snapshot', latest, cursor.toISOString());
+        }
+
+        while (!request.signal.aborted && Date.now() < deadline) {
+          const bars = await getPriceBarsUpdatedSince(slugs, cursor);
+
+          if (bars.length > 0) {
+            cursor = latestUpdate(bars);
+            send('bars', bars, cursor.toISOString());
+          } else if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+            controller.enqueue(encoder.encode(`: heartbeat\n\n`));
+            lastHeartbeat = Date.now();
+          }
+
+          await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error('[price-stream] SSE error:', error);
+        send('error', { error: 'Failed to read price bars' });
+      } finally {
+        await prisma.$disconnect();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -2,7 +2,7 @@
  * Title Details API Endpoint
  *
  * Returns detailed information about a specific title including:
- * - Historical rankings
+ * - Historical rankings (global, US, and per-country)
  * - Signal data
  * - Forecasts
  * - Linked Polymarket markets
@@ -31,6 +31,13 @@ function getBaseTitleName(name: string): string {
     .trim();
 }
 
+interface CountryRankRow {
+  countryIso2: string;
+  countryName: string;
+  weekStart: Date;
+  rank: number;
+  category: string;
+}
 
 export async function GET(
   request: NextRequest,
@@ -39,10 +46,17 @@ export async function GET(
   try {
     const { id } = await params;
 
+    // Country rows are ~90 per week, so bound them by date rather than count
+    const countryCutoff = new Date();
+    countryCutoff.setDate(countryCutoff.getDate() - 12 * 7);
+
     // Get title with all related data
     const title: any = await prisma.title.findUnique({
       where: { id },
       include: {
+        seasons: {
+          orderBy: { seasonNumber: 'desc' },
+        },
         weeklyGlobal: {
           orderBy: { weekStart: 'desc' },
           take: 12, // Last 12 weeks
@@ -51,6 +65,10 @@ export async function GET(
           orderBy: { weekStart: 'desc' },
           take: 12,
         },
+        weeklyCountry: {
+          where: { weekStart: { gte: countryCutoff } },
+          orderBy: { weekStart: 'desc' },
+        },
         dailySignals: {
           orderBy: { date: 'desc' },
           take: 30, // Last 30 days
@@ -139,6 +157,31 @@ export async function GET(
       category: w.category,
     }));
 
+    // Group country ranks by country, most recent week first
+    const countryMap = new Map<string, CountryRankRow[]>();
+    for (const w of title.weeklyCountry as CountryRankRow[]) {
+      if (!countryMap.has(w.countryIso2)) {
+        countryMap.set(w.countryIso2, []);
+      }
+      countryMap.get(w.countryIso2)!.push(w);
+    }
+
+    const countryRanks = Array.from(countryMap.entries())
+      .map(([countryIso2, records]) => ({
+        countryIso2,
+        countryName: records[0].countryName,
+        latestWeek: records[0].weekStart.toISOString(),
+        latestRank: records[0].rank,
+        bestRank: Math.min(...records.map((r) => r.rank)),
+        weeksInTop10: new Set(records.map((r) => r.weekStart.toISOString())).size,
+        history: records.map((r) => ({
+          week: r.weekStart.toISOString(),
+          rank: r.rank,
+          category: r.category,
+        })),
+      }))
+      .sort((a, b) => b.latestWeek.localeCompare(a.latestWeek) || a.latestRank - b.latestRank);
+
     // Organize signals by source
     const trendsSignals = title.dailySignals
       .filter((s: any) => s.source === 'TRENDS')
@@ -296,6 +339,7 @@ export async function GET(
         rankings: {
           global: globalRanks,
           us: usRanks,
+          countries: countryRanks,
         },
         signals: {
           trends: trendsSignals,
@@ -1,10 +1,11 @@
 /**
  * Watchlist Item API
  *
- * Manages individual pinned title operations.
+ * Manages a single title across the signed-in user's watchlists.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
 import prisma from '@/lib/prisma';
 
 export const dynamic = 'force-dynamic';
@@ -13,43 +14,48 @@ interface RouteParams {
   params: Promise<{ titleId: string }>;
 }
 
+interface WatchlistItemWithList {
+  id: string;
+  titleId: string;
+  addedAt: Date;
+  watchlist: { id: string; name: string };
+}
+
 /**
  * GET /api/watchlist/[titleId]
- * Check if a specific title is in the watchlist
+ * Check which of the user's watchlists contain a title
  */
 export async function GET(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
-    const { titleId } = await params;
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
 
-    const pinned = await prisma.pinnedTitle.findUnique({
-      where: { titleId },
-      include: {
-        title: true,
-      },
-    });
+    const { titleId } = await params;
 
-    if (!pinned) {
-      return NextResponse.json({
-        success: true,
-        data: { isPinned: false },
-      });
-    }
+    const items = await prisma.watchlistItem.findMany({
+      where: { titleId, watchlist: { userId } },
+      include: { watchlist: { select: { id: true, name: true } } },
+      orderBy: { addedAt: 'asc' },
+    }) as WatchlistItemWithList[];
 
     return NextResponse.json({
       success: true,
       data: {
-        isPinned: true,
-        id: pinned.id,
-        titleId: pinned.titleId,
-        pinnedAt: pinned.pinnedAt,
-        title: {
-          id: pinned.title.id,
-          name: pinned.title.canonicalName,
-          type: pinned.title.type,
-        },
+        isPinned: items.length > 0,
+        titleId,
+        watchlists: items.map((item) => ({
+          id: item.watchlist.id,
+          name: item.watchlist.name,
+          pinnedAt: item.addedAt,
+        })),
       },
     });
   } catch (error) {
@@ -68,32 +74,41 @@ export async function GET(
 
 /**
  * DELETE /api/watchlist/[titleId]
- * Remove a title from the watchlist
+ * Remove a title from one of the user's watchlists
+ *
+ * Query params:
+ * - watchlistId: list to remove from (default: all of the user's lists)
  */
 export async function DELETE(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const { titleId } = await params;
+    const watchlistId = request.nextUrl.searchParams.get('watchlistId');
 
-    // Check if pinned
-    const existing = await prisma.pinnedTitle.findUnique({
-      where: { titleId },
+    const deleted = await prisma.watchlistItem.deleteMany({
+      where: {
+        titleId,
+        watchlist: { userId, ...(watchlistId && { id: watchlistId }) },
+      },
     });
 
-    if (!existing) {
+    if (deleted.count === 0) {
       return NextResponse.json(
         { success: false, error: 'Title is not in watchlist' },
         { status: 404 }
       );
     }
 
-    // Delete pinned title
-    await prisma.pinnedTitle.delete({
-      where: { titleId },
-    });
-
     return NextResponse.json({
       success: true,
       message: 'Title removed from watchlist',
@@ -1,17 +1,21 @@
 /**
  * Watchlist API
  *
- * Manages pinned titles for tracking upcoming Netflix releases.
+ * Manages the signed-in user's watchlisted titles for tracking upcoming
+ * Netflix releases. Every request targets one of the user's lists: the
+ * one named by watchlistId, or their default list.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
 import { Prisma } from '@prisma/client';
 import prisma, { withRetry } from '@/lib/prisma';
+import { resolveWatchlist, WatchlistRecord } from '@/lib/watchlists';
 
 export const dynamic = 'force-dynamic';
 
 // Define Prisma types for properly typed queries
-type PinnedTitleResult = Prisma.PinnedTitleGetPayload<{}>;
+type WatchlistItemResult = Prisma.WatchlistItemGetPayload<{}>;
 type TitleFull = Prisma.TitleGetPayload<{}>;
 type TitleBasic = Prisma.TitleGetPayload<{
   select: { id: true; canonicalName: true; type: true };
@@ -21,18 +25,42 @@ type ReleaseCandidateResult = Prisma.ReleaseCandidateGetPayload<{}>;
 
 /**
  * GET /api/watchlist
- * Returns all pinned titles with their latest pacing metrics
+ * Returns the titles on one of the user's watchlists with their latest
+ * pacing metrics
+ *
+ * Query params:
+ * - watchlistId: list to read (default: the user's default list)
+ * - limit: max titles (default 20, max 50)
  */
 export async function GET(request: NextRequest) {
   try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const { searchParams } = request.nextUrl;
     const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 50);
 
-    // Fetch pinned titles
-    const pinnedTitles = await withRetry<PinnedTitleResult[]>(() =>
-      prisma.pinnedTitle.findMany({
+    const watchlist = await withRetry<WatchlistRecord | null>(() =>
+      resolveWatchlist(userId, searchParams.get('watchlistId'))
+    );
+    if (!watchlist) {
+      return NextResponse.json(
+        { success: false, error: 'Watchlist not found' },
+        { status: 404 }
+      );
+    }
+
+    // Fetch watchlisted titles
+    const pinnedTitles = await withRetry<WatchlistItemResult[]>(() =>
+      prisma.watchlistItem.findMany({
+        where: { watchlistId: watchlist.id },
         take: limit,
-        orderBy: { pinnedAt: 'desc' },
+        orderBy: { addedAt: 'desc' },
       })
     );
 
@@ -40,7 +68,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({
         success: true,
         data: [],
-        meta: { count: 0 },
+        meta: { count: 0, watchlist },
       });
     }
 
@@ -93,7 +121,7 @@ export async function GET(request: NextRequest) {
     const candidateMap = new Map(releaseCandidates.map((c: ReleaseCandidateResult) => [c.titleId!, c]));
 
     // Transform data for frontend
-    const watchlist = pinnedTitles.map((pinned) => {
+    const items = pinnedTitles.map((pinned) => {
       const title = titleMap.get(pinned.titleId);
       const metrics = metricsMap.get(pinned.titleId) || [];
       const latestMetric = metrics[0];
@@ -112,8 +140,8 @@ export async function GET(request: NextRequest) {
       return {
         id: pinned.id,
         titleId: pinned.titleId,
-        pinnedAt: pinned.pinnedAt,
-        pinnedBy: pinned.pinnedBy,
+        watchlistId: pinned.watchlistId,
+        pinnedAt: pinned.addedAt,
         title: title ? {
           id: title.id,
           name: title.canonicalName,
@@ -136,9 +164,10 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: watchlist,
+      data: items,
       meta: {
-        count: watchlist.length,
+        count: items.length,
+        watchlist,
       },
     });
   } catch (error) {
@@ -155,12 +184,22 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/watchlist
- * Add a title to the watchlist
+ * Add a title to one of the user's watchlists
+ *
+ * Body: { titleId, watchlistId? } (default: the user's default list)
  */
 export async function POST(request: NextRequest) {
   try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const body = await request.json();
-    const { titleId, pinnedBy } = body;
+    const { titleId, watchlistId } = body as { titleId?: string; watchlistId?: string };
 
     if (!titleId) {
       return NextResponse.json(
@@ -183,26 +222,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if already pinned
-    const existing = await withRetry<PinnedTitleResult | null>(() =>
-      prisma.pinnedTitle.findUnique({
-        where: { titleId },
+    const watchlist = await withRetry<WatchlistRecord | null>(() =>
+      resolveWatchlist(userId, watchlistId)
+    );
+    if (!watchlist) {
+      return NextResponse.json(
+        { success: false, error: 'Watchlist not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if already on this list
+    const existing = await withRetry<WatchlistItemResult | null>(() =>
+      prisma.watchlistItem.findUnique({
+        where: { watchlistId_titleId: { watchlistId: watchlist.id, titleId } },
       })
     );
 
     if (existing) {
       return NextResponse.json(
-        { success: false, error: 'Title is already in watchlist' },
+        { success: false, error: `Title is already in ${watchlist.name}` },
         { status: 409 }
       );
     }
 
-    // Create pinned title
-    const pinned = await withRetry<PinnedTitleResult>(() =>
-      prisma.pinnedTitle.create({
+    const pinned = await withRetry<WatchlistItemResult>(() =>
+      prisma.watchlistItem.create({
         data: {
+          watchlistId: watchlist.id,
           titleId,
-          pinnedBy: pinnedBy || null,
         },
       })
     );
@@ -212,7 +260,9 @@ export async function POST(request: NextRequest) {
       data: {
         id: pinned.id,
         titleId: pinned.titleId,
-        pinnedAt: pinned.pinnedAt,
+        watchlistId: watchlist.id,
+        watchlistName: watchlist.name,
+        pinnedAt: pinned.addedAt,
         title: {
           id: title.id,
           name: title.canonicalName,
@@ -0,0 +1,124 @@
+/**
+ * Watchlist Detail API Endpoint
+ *
+ * PATCH: Rename one of the signed-in user's watchlists or make it their
+ *        default ({ name?, isDefault: true })
+ * DELETE: Delete the watchlist and its items
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const existing = await prisma.watchlist.findFirst({ where: { id, userId } }) as { name: string } | null;
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Watchlist not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, isDefault } = body as { name?: string; isDefault?: boolean };
+    const nextName = name?.trim();
+
+    if (nextName && nextName !== existing.name) {
+      const clash = await prisma.watchlist.findUnique({
+        where: { userId_name: { userId, name: nextName } },
+      });
+      if (clash) {
+        return NextResponse.json(
+          { success: false, error: `A watchlist named "${nextName}" already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Only one default per user
+    if (isDefault === true) {
+      await prisma.watchlist.updateMany({
+        where: { userId, id: { not: id } },
+        data: { isDefault: false },
+      });
+    }
+
+    const watchlist = await prisma.watchlist.update({
+      where: { id },
+      data: {
+        ...(nextName && { name: nextName }),
+        ...(isDefault === true && { isDefault: true }),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: watchlist,
+    });
+  } catch (error) {
+    console.error('Error updating watchlist:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const deleted = await prisma.watchlist.deleteMany({ where: { id, userId } });
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Watchlist not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Watchlists API Endpoint
+ *
+ * GET: The signed-in user's watchlists with item counts (creates the
+ *      default list on first use)
+ * POST: Create a named watchlist
+ *
+ * Body (POST): { name }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/lib/prisma';
+import { getDefaultWatchlist, MAX_WATCHLISTS_PER_USER } from '@/lib/watchlists';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await getDefaultWatchlist(userId);
+
+    const watchlists = await prisma.watchlist.findMany({
+      where: { userId },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      include: { _count: { select: { items: true } } },
+    }) as Array<{ id: string; name: string; isDefault: boolean; createdAt: Date; _count: { items: number } }>;
+
+    return NextResponse.json({
+      success: true,
+      data: watchlists.map(({ _count, ...list }) => ({ ...list, itemCount: _count.items })),
+    });
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json(
+        { success: false, error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    const count = await prisma.watchlist.count({ where: { userId } });
+    if (count >= MAX_WATCHLISTS_PER_USER) {
+      return NextResponse.json(
+        { success: false, error: `You can have at most ${MAX_WATCHLISTS_PER_USER} watchlists` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.watchlist.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: `A watchlist named "${name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const watchlist = await prisma.watchlist.create({
+      data: { userId, name, isDefault: count === 0 },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...watchlist, itemCount: 0 },
+    });
+  } catch (error) {
+    console.error('Error creating watchlist:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
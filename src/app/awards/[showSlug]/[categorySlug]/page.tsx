@@ -3,7 +3,7 @@
 import { useEffect, useState, useMemo } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
-import { calculateCategoryConsensus, NomineeConsensus } from "@/lib/consensusCalculator";
+import { calculateCategoryConsensus, ConsensusWeights, NomineeConsensus } from "@/lib/consensusCalculator";
 import ConsensusEstimate from "@/components/awards/ConsensusEstimate";
 import ArticleSection from "@/components/awards/ArticleSection";
 
@@ -260,6 +260,7 @@ export default function CategoryDetailPage() {
 
   const [show, setShow] = useState<ShowData | null>(null);
   const [category, setCategory] = useState<CategoryData | null>(null);
+  const [weights, setWeights] = useState<ConsensusWeights | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -276,6 +277,7 @@ export default function CategoryDetailPage() {
 
         const showData = json.data as ShowData;
         setShow(showData);
+        setWeights(json.meta?.consensusWeights);
 
         const cat = showData.categories.find(c => c.slug === categorySlug);
         if (!cat) {
@@ -297,8 +299,8 @@ export default function CategoryDetailPage() {
   // Calculate consensus for all nominees, sorted by consensus probability
   const nomineesWithConsensus = useMemo(() => {
     if (!category) return [];
-    return calculateCategoryConsensus(category.nominees);
-  }, [category]);
+    return calculateCategoryConsensus(category.nominees, weights);
+  }, [category, weights]);
 
   // Get the leader (highest consensus probability)
   const leader = nomineesWithConsensus[0] || null;
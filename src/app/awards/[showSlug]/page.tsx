@@ -5,6 +5,7 @@ import { useParams } from "next/navigation";
 import Link from "next/link";
 import Header from "@/components/Header";
 import CategoryCard from "@/components/awards/CategoryCard";
+import type { ConsensusWeights } from "@/lib/consensusCalculator";
 
 interface OddsData {
   source: string;
@@ -45,6 +46,7 @@ interface ShowData {
 interface AwardsApiResponse {
   success: boolean;
   data: ShowData;
+  meta?: { consensusWeights?: ConsensusWeights };
   error?: string;
 }
 
@@ -61,6 +63,7 @@ function formatDate(dateString: string): string {
 function ShowHeader({ show }: { show: ShowData }) {
   const openCategories = show.categories.filter((c) => !c.isClosed).length;
   const totalCategories = show.categories.length;
+  const hasResults = show.status === "COMPLETED" || show.categories.some((c) => c.nominees.some((n) => n.isWinner));
 
   return (
     <div className="bg-gunmetal text-white py-8 md:py-12">
@@ -80,6 +83,14 @@ function ShowHeader({ show }: { show: ShowData }) {
           <div>
             <h1 className="text-3xl md:text-4xl font-bold">{show.name}</h1>
             <p className="text-dust-grey text-lg mt-1">{formatDate(show.ceremonyDate)}</p>
+            {hasResults && (
+              <Link
+                href={`/awards/${show.slug}/scorecard`}
+                className="inline-block mt-3 text-sm font-medium text-old-gold hover:text-white transition-colors"
+              >
+                View scorecard →
+              </Link>
+            )}
           </div>
           <div className="flex gap-6 text-center">
             <div>
@@ -129,6 +140,7 @@ export default function ShowDetailPage() {
   const showSlug = params.showSlug as string;
 
   const [show, setShow] = useState<ShowData | null>(null);
+  const [weights, setWeights] = useState<ConsensusWeights | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -143,6 +155,7 @@ export default function ShowDetailPage() {
         }
 
         setShow(json.data);
+        setWeights(json.meta?.consensusWeights);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load show");
       } finally {
@@ -211,6 +224,7 @@ export default function ShowDetailPage() {
                   isClosed={category.isClosed}
                   leader={category.leader}
                   nominees={category.nominees}
+                  weights={weights}
                 />
               ))}
             </div>
@@ -235,6 +249,7 @@ export default function ShowDetailPage() {
                   isClosed={category.isClosed}
                   leader={category.leader}
                   nominees={category.nominees}
+                  weights={weights}
                 />
               ))}
             </div>
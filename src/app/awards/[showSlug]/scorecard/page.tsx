@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import Header from "@/components/Header";
+import type { CategoryScore, EdgeResult, ScoredSource, SourceScore } from "@/lib/awardResolution";
+
+interface ScorecardData {
+  show: { name: string; slug: string; ceremonyDate: string; status: string };
+  asOfHours: number;
+  categories: CategoryScore[];
+  sources: SourceScore[];
+  edges: EdgeResult[];
+  edgeSummary: { flagged: number; won: number; totalReturn: number };
+}
+
+const SOURCE_NAMES: Record<ScoredSource, string> = {
+  CONSENSUS: "PredictEasy Estimate",
+  POLYMARKET: "Polymarket",
+  GOLDDERBY: "Gold Derby",
+  MYBOOKIE: "MyBookie",
+  BOVADA: "Bovada",
+  DRAFTKINGS: "DraftKings",
+  BETMGM: "BetMGM",
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function RankBadge({ rank }: { rank: number | undefined }) {
+  if (rank === undefined) return <span className="text-gray-300">—</span>;
+  const style =
+    rank === 1 ? "bg-green-100 text-green-700" : rank === 2 ? "bg-yellow-100 text-yellow-800" : "bg-red-100 text-red-700";
+  return <span className={`text-xs font-medium px-2 py-1 rounded-full ${style}`}>#{rank}</span>;
+}
+
+function SourceRanking({ sources }: { sources: SourceScore[] }) {
+  return (
+    <section className="bg-white border border-dust-grey rounded-lg p-6 mb-8">
+      <h2 className="text-lg font-semibold text-gunmetal mb-1">Source Accuracy</h2>
+      <p className="text-sm text-gray-500 mb-4">Ranked by Brier score (lower is better) over every nominee line.</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-100">
+            <th className="py-2 font-medium">Source</th>
+            <th className="py-2 font-medium">Brier</th>
+            <th className="py-2 font-medium">Favorites won</th>
+            <th className="py-2 font-medium">Avg. winner rank</th>
+            <th className="py-2 font-medium">Lines</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {sources.map((source) => (
+            <tr key={source.source} className={source.source === "CONSENSUS" ? "bg-old-gold/10" : undefined}>
+              <td className="py-2 font-medium text-gunmetal">{SOURCE_NAMES[source.source] ?? source.source}</td>
+              <td className="py-2">{source.brier?.toFixed(4) ?? "—"}</td>
+              <td className="py-2">
+                {source.favoritesWon} / {source.categories}
+              </td>
+              <td className="py-2">{source.meanWinnerRank?.toFixed(2) ?? "—"}</td>
+              <td className="py-2 text-gray-500">{source.lines}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function CategoryResults({
+  showSlug,
+  categories,
+  sources,
+}: {
+  showSlug: string;
+  categories: CategoryScore[];
+  sources: ScoredSource[];
+}) {
+  return (
+    <section className="bg-white border border-dust-grey rounded-lg p-6 mb-8 overflow-x-auto">
+      <h2 className="text-lg font-semibold text-gunmetal mb-1">Where Each Source Ranked the Winner</h2>
+      <p className="text-sm text-gray-500 mb-4">#1 means the winner was that source&apos;s favorite.</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-100">
+            <th className="py-2 font-medium">Category</th>
+            <th className="py-2 font-medium">Winner</th>
+            {sources.map((source) => (
+              <th key={source} className="py-2 font-medium">{SOURCE_NAMES[source] ?? source}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {categories.map((category) => (
+            <tr key={category.id}>
+              <td className="py-2">
+                <Link href={`/awards/${showSlug}/${category.slug}`} className="text-gunmetal hover:text-pine-blue">
+                  {category.name}
+                </Link>
+              </td>
+              <td className="py-2 font-medium text-gunmetal">
+                {category.winner ?? <span className="text-gray-400 font-normal">Not resolved</span>}
+              </td>
+              {sources.map((source) => (
+                <td key={source} className="py-2">
+                  <div className="flex items-center gap-2">
+                    <RankBadge rank={category.winnerRanks[source]} />
+                    {category.winnerProbabilities[source] !== undefined && (
+                      <span className="text-xs text-gray-400">{percent(category.winnerProbabilities[source]!)}</span>
+                    )}
+                  </div>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function EdgeResults({ edges, summary }: { edges: EdgeResult[]; summary: ScorecardData["edgeSummary"] }) {
+  return (
+    <section className="bg-white border border-dust-grey rounded-lg p-6">
+      <h2 className="text-lg font-semibold text-gunmetal mb-1">Flagged Edges</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Nominees where another source differed from Polymarket by more than 2 points, scored as a $1 bet on the side
+        the gap pointed to: {summary.won} of {summary.flagged} paid off,{" "}
+        <span className={summary.totalReturn >= 0 ? "text-green-700 font-medium" : "text-red-700 font-medium"}>
+          {summary.totalReturn >= 0 ? "+" : "-"}${Math.abs(summary.totalReturn).toFixed(2)}
+        </span>{" "}
+        in total.
+      </p>
+      {edges.length === 0 ? (
+        <p className="text-sm text-gray-500">No edges were flagged before the ceremony.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-100">
+              <th className="py-2 font-medium">Nominee</th>
+              <th className="py-2 font-medium">Polymarket</th>
+              <th className="py-2 font-medium">Source</th>
+              <th className="py-2 font-medium">Side</th>
+              <th className="py-2 font-medium">Result</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {edges.map((edge) => (
+              <tr key={`${edge.categorySlug}-${edge.nomineeName}`}>
+                <td className="py-2">
+                  <div className="text-gunmetal font-medium">{edge.nomineeName}</div>
+                  <div className="text-xs text-gray-400">{edge.categoryName}</div>
+                </td>
+                <td className="py-2">{percent(edge.polymarketProbability)}</td>
+                <td className="py-2">
+                  {SOURCE_NAMES[edge.source]}: {percent(edge.sourceProbability)}
+                </td>
+                <td className="py-2">{edge.side}</td>
+                <td className="py-2">
+                  <span className={edge.won ? "text-green-700 font-medium" : "text-red-700"}>
+                    {edge.won ? `+$${edge.returnPerDollar.toFixed(2)}` : "-$1.00"}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+export default function ShowScorecardPage() {
+  const params = useParams();
+  const showSlug = params.showSlug as string;
+
+  const [data, setData] = useState<ScorecardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchScorecard() {
+      try {
+        const res = await fetch(`/api/awards/scorecard?show=${showSlug}`);
+        const json = await res.json();
+
+        if (!json.success) {
+          throw new Error(json.error || "Failed to load scorecard");
+        }
+
+        setData(json.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load scorecard");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchScorecard();
+  }, [showSlug]);
+
+  const resolved = data?.categories.filter((c) => c.winner !== null).length ?? 0;
+  const columns = data?.sources.map((s) => s.source) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <Header />
+
+      <div className="bg-gunmetal text-white py-8 md:py-12">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <Link
+            href={`/awards/${showSlug}`}
+            className="inline-flex items-center gap-2 text-dust-grey hover:text-white mb-4 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            {data?.show.name ?? "Back to show"}
+          </Link>
+          <h1 className="text-3xl md:text-4xl font-bold">Scorecard</h1>
+          {data && (
+            <p className="text-dust-grey text-lg mt-1">
+              {resolved} of {data.categories.length} categories resolved · odds as of {data.asOfHours}h before the
+              ceremony
+            </p>
+          )}
+        </div>
+      </div>
+
+      <main className="flex-1 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 w-full">
+        {loading ? (
+          <div className="bg-gray-100 rounded-lg h-64 animate-pulse" />
+        ) : error || !data ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center text-red-600">
+            {error || "Scorecard not found"}
+          </div>
+        ) : resolved === 0 ? (
+          <div className="bg-white border border-dust-grey rounded-lg p-6 text-center text-gray-500">
+            No winners yet. The scorecard fills in as categories resolve.
+          </div>
+        ) : (
+          <>
+            <SourceRanking sources={data.sources} />
+            <CategoryResults showSlug={showSlug} categories={data.categories} sources={columns} />
+            <EdgeResults edges={data.edges} summary={data.edgeSummary} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from "react";
 import Header from "@/components/Header";
 import InsiderFilters, { InsiderFiltersState } from "@/components/InsiderFilters";
 import InsiderFinderTable from "@/components/InsiderFinderTable";
+import SavedInsiderFilters from "@/components/SavedInsiderFilters";
 import { InsiderBadgeLegend, BadgeType } from "@/components/InsiderBadge";
 
 interface InsiderWallet {
@@ -191,6 +192,9 @@ export default function InsiderFinderPage() {
         {/* Filters */}
         <div className="mb-6">
           <InsiderFilters filters={filters} onFiltersChange={handleFiltersChange} />
+          <div className="mt-3">
+            <SavedInsiderFilters filters={filters} onApply={handleFiltersChange} />
+          </div>
         </div>
 
         {/* Results Summary */}
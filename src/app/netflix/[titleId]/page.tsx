@@ -7,6 +7,7 @@ import Header from "@/components/Header";
 import { MarketThesis } from "@/components/netflix/MarketThesis";
 import { TitleRatings } from "@/components/netflix/TitleRatings";
 import FlixPatrolRankChart from "@/components/FlixPatrolRankChart";
+import WatchlistButton from "@/components/WatchlistButton";
 
 interface RankData {
   week: string;
@@ -775,7 +776,10 @@ export default function TitleDetailPage() {
             </svg>
             Back to Netflix
           </Link>
-          <h1 className="text-3xl font-bold mb-2">{title.canonicalName}</h1>
+          <div className="flex items-start justify-between gap-4 mb-2">
+            <h1 className="text-3xl font-bold">{title.canonicalName}</h1>
+            <WatchlistButton titleId={title.id} />
+          </div>
           <div className="flex items-center gap-4 text-sm text-dust-grey">
             <span className={`px-2 py-1 rounded ${title.type === 'SHOW' ? 'bg-red-600' : 'bg-blue-600'} text-white`}>
               {title.type === 'SHOW' ? 'TV Series' : 'Film'}
@@ -0,0 +1,340 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Header from "@/components/Header";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+type Tab = "shows-us" | "shows-global" | "films-us" | "films-global";
+
+const tabs: { id: Tab; label: string }[] = [
+  { id: "shows-us", label: "TV (US)" },
+  { id: "shows-global", label: "TV (Global)" },
+  { id: "films-us", label: "Films (US)" },
+  { id: "films-global", label: "Films (Global)" },
+];
+
+interface ReliabilityBin {
+  binStart: number;
+  binEnd: number;
+  forecasts: number;
+  meanPredicted: number | null;
+  observedFrequency: number | null;
+}
+
+interface CalibrationSummary {
+  snapshots: number;
+  brier: number | null;
+  logLoss: number | null;
+  reliability: ReliabilityBin[];
+}
+
+interface ResolvedMarket {
+  marketSlug: string | null;
+  marketQuestion: string;
+  winningOutcome: string | null;
+  resolvedAt: string;
+  snapshots: number;
+  modelBrier: number;
+  marketBrier: number;
+}
+
+interface CategoryCalibration {
+  category: Tab;
+  marketsResolved: number;
+  pendingSnapshots: number;
+  model: CalibrationSummary;
+  market: CalibrationSummary;
+  recentMarkets: ResolvedMarket[];
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? "—" : value.toFixed(3);
+}
+
+function ScoreCard({
+  label,
+  description,
+  model,
+  market,
+}: {
+  label: string;
+  description: string;
+  model: number | null;
+  market: number | null;
+}) {
+  // Lower is better for both Brier and log loss
+  const modelWins = model !== null && market !== null && model < market;
+  const marketWins = model !== null && market !== null && market < model;
+
+  return (
+    <div className="bg-white border border-dust-grey rounded-lg p-5">
+      <h3 className="text-sm font-semibold text-gunmetal">{label}</h3>
+      <p className="text-xs text-gray-500 mb-4">{description}</p>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs text-gray-500">PredictEasy</p>
+          <p className={`text-2xl font-bold ${modelWins ? "text-pine-blue" : "text-gunmetal"}`}>
+            {formatScore(model)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Polymarket</p>
+          <p className={`text-2xl font-bold ${marketWins ? "text-pine-blue" : "text-gunmetal"}`}>
+            {formatScore(market)}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function CalibrationPage() {
+  const [activeTab, setActiveTab] = useState<Tab>("shows-us");
+  const [data, setData] = useState<CategoryCalibration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchCalibration() {
+      try {
+        const response = await fetch("/api/calibration");
+        const json = await response.json();
+
+        if (json.success) {
+          setData(json.data);
+        } else {
+          setError(json.error || "Failed to fetch calibration");
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch data");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchCalibration();
+  }, []);
+
+  const current = data.find((d) => d.category === activeTab);
+
+  const chartData = current
+    ? current.model.reliability.map((bin, i) => ({
+        label: `${Math.round(bin.binStart * 100)}-${Math.round(bin.binEnd * 100)}%`,
+        ideal: Math.round(((bin.binStart + bin.binEnd) / 2) * 100),
+        model: bin.observedFrequency !== null ? Math.round(bin.observedFrequency * 100) : null,
+        market:
+          current.market.reliability[i]?.observedFrequency != null
+            ? Math.round(current.market.reliability[i].observedFrequency! * 100)
+            : null,
+      }))
+    : [];
+
+  let verdict: string | null = null;
+  if (current && current.model.brier !== null && current.market.brier !== null) {
+    verdict =
+      current.model.brier < current.market.brier
+        ? "Our model has been better calibrated than Polymarket for this category."
+        : current.model.brier > current.market.brier
+          ? "Polymarket has been better calibrated than our model for this category."
+          : "Our model and Polymarket have been equally calibrated for this category.";
+  }
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex-1 w-full">
+        <nav className="text-sm text-gray-500 mb-4">
+          <Link href="/netflix" className="hover:text-pine-blue">
+            Netflix
+          </Link>
+          <span className="mx-2">/</span>
+          <span className="text-gunmetal">Calibration</span>
+        </nav>
+
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gunmetal">Model Calibration</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Our pre-resolution probabilities vs Polymarket prices, scored against how each weekly market resolved
+          </p>
+        </div>
+
+        <div className="border-b border-dust-grey">
+          <nav className="flex gap-8">
+            {tabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={activeTab === tab.id ? "pb-4 px-1 border-b-2 font-medium text-sm transition-colors border-old-gold text-gunmetal" : "pb-4 px-1 border-b-2 font-medium text-sm transition-colors border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        <div className="mt-8">
+          {loading ? (
+            <div className="bg-gray-100 rounded-lg h-64 animate-pulse" />
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+          ) : !current || current.marketsResolved === 0 ? (
+            <div className="bg-dust-grey bg-opacity-20 rounded-lg p-8 text-center">
+              <p className="text-gray-500">No resolved markets scored yet for this category.</p>
+              {current && current.pendingSnapshots > 0 && (
+                <p className="text-xs text-gray-400 mt-2">
+                  {current.pendingSnapshots} snapshots waiting for their markets to resolve
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              {verdict && (
+                <div className="bg-gray-50 border border-dust-grey rounded-lg p-4 mb-6 text-sm text-gunmetal">
+                  {verdict}{" "}
+                  <span className="text-gray-500">
+                    Based on {current.model.snapshots} snapshots across {current.marketsResolved} resolved markets.
+                  </span>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+                <ScoreCard
+                  label="Brier Score"
+                  description="Squared error across all outcomes. Lower is better."
+                  model={current.model.brier}
+                  market={current.market.brier}
+                />
+                <ScoreCard
+                  label="Log Loss"
+                  description="Penalises confident misses. Lower is better."
+                  model={current.model.logLoss}
+                  market={current.market.logLoss}
+                />
+              </div>
+
+              <section className="mb-8">
+                <h2 className="text-xl font-semibold text-gunmetal mb-1">Reliability Diagram</h2>
+                <p className="text-sm text-gray-500 mb-4">
+                  How often outcomes priced in each bucket actually won. A calibrated forecaster tracks the diagonal.
+                </p>
+                <div className="bg-gunmetal rounded-lg p-6 h-[400px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                      <XAxis
+                        dataKey="label"
+                        stroke="#9CA3AF"
+                        tick={{ fill: "#9CA3AF", fontSize: 12 }}
+                        tickLine={{ stroke: "#4B5563" }}
+                      />
+                      <YAxis
+                        domain={[0, 100]}
+                        stroke="#9CA3AF"
+                        tick={{ fill: "#9CA3AF", fontSize: 12 }}
+                        tickLine={{ stroke: "#4B5563" }}
+                        label={{ value: "Won (%)", angle: -90, position: "insideLeft", fill: "#9CA3AF" }}
+                      />
+                      <Tooltip formatter={(value) => `${value}%`} />
+                      <Legend />
+                      <Line
+                        type="linear"
+                        dataKey="ideal"
+                        name="Perfect calibration"
+                        stroke="#9CA3AF"
+                        strokeDasharray="5 5"
+                        dot={false}
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="model"
+                        name="PredictEasy"
+                        stroke="#D4A537"
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="market"
+                        name="Polymarket"
+                        stroke="#60A5FA"
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </section>
+
+              <section>
+                <h2 className="text-xl font-semibold text-gunmetal mb-4">Recently Resolved Markets</h2>
+                <div className="overflow-x-auto border border-dust-grey rounded-lg">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-gray-500">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium">Market</th>
+                        <th className="px-4 py-2 text-left font-medium">Winner</th>
+                        <th className="px-4 py-2 text-right font-medium">Snapshots</th>
+                        <th className="px-4 py-2 text-right font-medium">Model Brier</th>
+                        <th className="px-4 py-2 text-right font-medium">Market Brier</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {current.recentMarkets.map((m) => (
+                        <tr key={m.marketSlug || m.marketQuestion} className="border-t border-dust-grey">
+                          <td className="px-4 py-2 text-gunmetal">
+                            {m.marketSlug ? (
+                              <a
+                                href={`https://polymarket.com/event/${m.marketSlug}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="hover:text-pine-blue"
+                              >
+                                {m.marketQuestion}
+                              </a>
+                            ) : (
+                              m.marketQuestion
+                            )}
+                            <span className="block text-xs text-gray-400">
+                              Resolved {new Date(m.resolvedAt).toLocaleDateString()}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-gunmetal">{m.winningOutcome}</td>
+                          <td className="px-4 py-2 text-right text-gray-500">{m.snapshots}</td>
+                          <td className={`px-4 py-2 text-right font-mono ${m.modelBrier < m.marketBrier ? "text-pine-blue font-semibold" : "text-gunmetal"}`}>
+                            {m.modelBrier.toFixed(3)}
+                          </td>
+                          <td className={`px-4 py-2 text-right font-mono ${m.marketBrier < m.modelBrier ? "text-pine-blue font-semibold" : "text-gunmetal"}`}>
+                            {m.marketBrier.toFixed(3)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+
+      <footer className="border-t border-dust-grey mt-auto">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <p className="text-center text-sm text-gray-500">
+            PredictEasy - Make Prediction Trading Easier
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
 import PolymarketMarkets from "@/components/PolymarketMarkets";
 import Header from "@/components/Header";
 import OpportunityGrid from "@/components/OpportunityGrid";
 import FlixPatrolRankChart from "@/components/FlixPatrolRankChart";
+import { DEFAULT_NETFLIX_PREFERENCES, MIN_EDGE_OPTIONS, NetflixPreferences } from "@/lib/userPreferences";
 
 type Tab = "shows-us" | "shows-global" | "films-us" | "films-global";
 type ViewMode = "rankings" | "opportunities";
@@ -17,10 +19,53 @@ const tabs: { id: Tab; label: string; type: "SHOW" | "MOVIE"; region: "us" | "gl
 ];
 
 export default function NetflixPage() {
-  const [activeTab, setActiveTab] = useState<Tab>("shows-us");
+  const [activeTab, setActiveTab] = useState<Tab>(DEFAULT_NETFLIX_PREFERENCES.defaultTab);
   const [searchQuery, setSearchQuery] = useState("");
-  const [viewMode, setViewMode] = useState<ViewMode>("rankings");
-  const [minEdge, setMinEdge] = useState(10);
+  const [viewMode, setViewMode] = useState<ViewMode>(DEFAULT_NETFLIX_PREFERENCES.viewMode);
+  const [minEdge, setMinEdge] = useState(DEFAULT_NETFLIX_PREFERENCES.minEdge);
+  const [savedDefaults, setSavedDefaults] = useState<NetflixPreferences | null>(null);
+
+  // Start from the user's saved defaults
+  useEffect(() => {
+    async function fetchPreferences() {
+      try {
+        const response = await fetch("/api/preferences");
+        const json = await response.json();
+        if (json.success) {
+          const prefs: NetflixPreferences = json.data.netflix;
+          setActiveTab(prefs.defaultTab);
+          setViewMode(prefs.viewMode);
+          setMinEdge(prefs.minEdge);
+          setSavedDefaults(prefs);
+        }
+      } catch (err) {
+        console.error("Failed to load preferences:", err);
+      }
+    }
+
+    fetchPreferences();
+  }, []);
+
+  const saveDefaults = async () => {
+    const netflix: NetflixPreferences = { defaultTab: activeTab, viewMode, minEdge };
+    try {
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ netflix }),
+      });
+      const json = await response.json();
+      if (json.success) setSavedDefaults(json.data.netflix);
+    } catch (err) {
+      console.error("Failed to save preferences:", err);
+    }
+  };
+
+  const isSavedView =
+    savedDefaults !== null &&
+    savedDefaults.defaultTab === activeTab &&
+    savedDefaults.viewMode === viewMode &&
+    savedDefaults.minEdge === minEdge;
 
   const activeTabConfig = tabs.find((t) => t.id === activeTab)!;
 
@@ -41,7 +86,7 @@ export default function NetflixPage() {
       </div>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex-1 w-full">
-        <div className="border-b border-dust-grey">
+        <div className="border-b border-dust-grey flex justify-between items-end">
           <nav className="flex gap-8">
             {tabs.map((tab) => (
               <button
@@ -53,6 +98,13 @@ export default function NetflixPage() {
               </button>
             ))}
           </nav>
+          <button
+            onClick={saveDefaults}
+            disabled={isSavedView}
+            className="pb-4 text-sm text-pine-blue hover:underline disabled:text-gray-400 disabled:no-underline"
+          >
+            {isSavedView ? "Your default view" : "Save as my default view"}
+          </button>
         </div>
 
         <div className="mt-8">
@@ -79,7 +131,18 @@ export default function NetflixPage() {
                   PredictEasy Analysis - {activeTabConfig.label}
                 </h2>
                 <p className="text-sm text-gray-500 mt-1">
-                  Our model estimates vs market odds
+                  Our model estimates vs market odds ·{" "}
+                  <Link href="/netflix/calibration" className="text-pine-blue hover:underline">
+                    How well calibrated?
+                  </Link>
+                  {" · "}
+                  <Link href="/netflix/paper-trading" className="text-pine-blue hover:underline">
+                    Paper trading
+                  </Link>
+                  {" · "}
+                  <Link href="/netflix/watchlists" className="text-pine-blue hover:underline">
+                    My watchlists
+                  </Link>
                 </p>
               </div>
 
@@ -117,10 +180,9 @@ export default function NetflixPage() {
                       onChange={(e) => setMinEdge(parseInt(e.target.value))}
                       className="text-sm border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-pine-blue"
                     >
-                      <option value="5">5%</option>
-                      <option value="10">10%</option>
-                      <option value="15">15%</option>
-                      <option value="20">20%</option>
+                      {MIN_EDGE_OPTIONS.map((edge) => (
+                        <option key={edge} value={edge}>{edge}%</option>
+                      ))}
                     </select>
                   </div>
                 )}
@@ -0,0 +1,328 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Header from "@/components/Header";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+
+type SizingRule = "FLAT" | "KELLY" | "EDGE_PROPORTIONAL";
+
+const sizingRuleLabels: Record<SizingRule, string> = {
+  FLAT: "Flat stake",
+  KELLY: "Fractional Kelly",
+  EDGE_PROPORTIONAL: "Edge-proportional",
+};
+
+interface PortfolioSummary {
+  equity: number;
+  openExposure: number;
+  realizedPnl: number;
+  returnPct: number;
+  openPositions: number;
+  settledPositions: number;
+  winRate: number | null;
+}
+
+interface PortfolioListItem {
+  id: string;
+  name: string;
+  sizingRule: SizingRule;
+  startingBalance: number;
+  isActive: boolean;
+  summary: PortfolioSummary;
+}
+
+interface Position {
+  id: string;
+  marketSlug: string | null;
+  category: string;
+  outcomeName: string;
+  side: "YES" | "NO";
+  signalStrength: string;
+  edgePercent: number;
+  entryPrice: number;
+  stake: number;
+  status: "OPEN" | "SETTLED";
+  openedAt: string;
+  settledAt: string | null;
+  winningOutcome: string | null;
+  pnl: number | null;
+  currentPrice: number | null;
+  markValue: number | null;
+}
+
+interface PortfolioDetail extends PortfolioListItem {
+  cashBalance: number;
+  unrealizedPnl: number;
+  equityCurve: { date: string; equity: number; realizedPnl: number }[];
+  positions: Position[];
+}
+
+function formatMoney(value: number): string {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function pnlClass(value: number | null): string {
+  if (value === null || value === 0) return "text-gunmetal";
+  return value > 0 ? "text-green-600" : "text-red-600";
+}
+
+function StatCard({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="bg-white border border-dust-grey rounded-lg p-4">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className={`text-2xl font-bold ${className || "text-gunmetal"}`}>{value}</p>
+    </div>
+  );
+}
+
+export default function PaperTradingPage() {
+  const [portfolios, setPortfolios] = useState<PortfolioListItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<PortfolioDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchPortfolios() {
+      try {
+        const response = await fetch("/api/paper-trading");
+        const json = await response.json();
+
+        if (json.success) {
+          setPortfolios(json.data);
+          if (json.data.length > 0) setSelectedId(json.data[0].id);
+          else setLoading(false);
+        } else {
+          setError(json.error || "Failed to fetch portfolios");
+          setLoading(false);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch data");
+        setLoading(false);
+      }
+    }
+
+    fetchPortfolios();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    async function fetchDetail() {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/paper-trading/${selectedId}`);
+        const json = await response.json();
+
+        if (json.success) {
+          setDetail(json.data);
+        } else {
+          setError(json.error || "Failed to fetch portfolio");
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch data");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchDetail();
+  }, [selectedId]);
+
+  const chartData = detail
+    ? detail.equityCurve.map((point) => ({
+        date: new Date(point.date).toLocaleDateString(),
+        equity: point.equity,
+      }))
+    : [];
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex-1 w-full">
+        <nav className="text-sm text-gray-500 mb-4">
+          <Link href="/netflix" className="hover:text-pine-blue">
+            Netflix
+          </Link>
+          <span className="mx-2">/</span>
+          <span className="text-gunmetal">Paper Trading</span>
+        </nav>
+
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gunmetal">Paper Trading</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Simulated portfolios that trade every BUY/AVOID signal at the Polymarket price when it fires
+          </p>
+        </div>
+
+        <div className="border-b border-dust-grey">
+          <nav className="flex gap-8">
+            {portfolios.map((p) => (
+              <button
+                key={p.id}
+                onClick={() => setSelectedId(p.id)}
+                className={selectedId === p.id ? "pb-4 px-1 border-b-2 font-medium text-sm transition-colors border-old-gold text-gunmetal" : "pb-4 px-1 border-b-2 font-medium text-sm transition-colors border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"}
+              >
+                {p.name}
+                {!p.isActive && <span className="ml-2 text-xs text-gray-400">(paused)</span>}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        <div className="mt-8">
+          {loading ? (
+            <div className="bg-gray-100 rounded-lg h-64 animate-pulse" />
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+          ) : !detail ? (
+            <div className="bg-dust-grey bg-opacity-20 rounded-lg p-8 text-center">
+              <p className="text-gray-500">No paper portfolios yet. They are created on the first paper trading run.</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-4">
+                Sizing: <span className="text-gunmetal font-medium">{sizingRuleLabels[detail.sizingRule]}</span>
+                {" · "}Starting balance {formatMoney(detail.startingBalance)}
+              </p>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+                <StatCard label="Equity (at cost)" value={formatMoney(detail.summary.equity)} />
+                <StatCard
+                  label="Realized P&L"
+                  value={`${formatMoney(detail.summary.realizedPnl)} (${detail.summary.returnPct > 0 ? "+" : ""}${detail.summary.returnPct}%)`}
+                  className={pnlClass(detail.summary.realizedPnl)}
+                />
+                <StatCard
+                  label="Unrealized P&L"
+                  value={formatMoney(detail.unrealizedPnl)}
+                  className={pnlClass(detail.unrealizedPnl)}
+                />
+                <StatCard label="Cash" value={formatMoney(detail.cashBalance)} />
+                <StatCard
+                  label="Win Rate"
+                  value={detail.summary.winRate === null ? "—" : `${Math.round(detail.summary.winRate * 100)}% of ${detail.summary.settledPositions}`}
+                />
+              </div>
+
+              <section className="mb-8">
+                <h2 className="text-xl font-semibold text-gunmetal mb-1">Equity Curve</h2>
+                <p className="text-sm text-gray-500 mb-4">Starting balance plus realized P&L, one point per settled position.</p>
+                <div className="bg-gunmetal rounded-lg p-6 h-[360px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                      <XAxis
+                        dataKey="date"
+                        stroke="#9CA3AF"
+                        tick={{ fill: "#9CA3AF", fontSize: 12 }}
+                        tickLine={{ stroke: "#4B5563" }}
+                      />
+                      <YAxis
+                        domain={["auto", "auto"]}
+                        stroke="#9CA3AF"
+                        tick={{ fill: "#9CA3AF", fontSize: 12 }}
+                        tickLine={{ stroke: "#4B5563" }}
+                      />
+                      <Tooltip formatter={(value) => formatMoney(Number(value))} />
+                      <ReferenceLine y={detail.startingBalance} stroke="#9CA3AF" strokeDasharray="5 5" />
+                      <Line
+                        type="stepAfter"
+                        dataKey="equity"
+                        name="Equity"
+                        stroke="#D4A537"
+                        strokeWidth={2}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </section>
+
+              <section>
+                <h2 className="text-xl font-semibold text-gunmetal mb-4">Positions</h2>
+                {detail.positions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No positions opened yet.</p>
+                ) : (
+                  <div className="overflow-x-auto border border-dust-grey rounded-lg">
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-gray-50 text-gray-500">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium">Outcome</th>
+                          <th className="px-4 py-2 text-left font-medium">Side</th>
+                          <th className="px-4 py-2 text-right font-medium">Edge</th>
+                          <th className="px-4 py-2 text-right font-medium">Entry</th>
+                          <th className="px-4 py-2 text-right font-medium">Stake</th>
+                          <th className="px-4 py-2 text-left font-medium">Status</th>
+                          <th className="px-4 py-2 text-right font-medium">P&L</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {detail.positions.map((p) => {
+                          const pnl = p.status === "SETTLED" ? p.pnl : p.markValue !== null ? p.markValue - p.stake : null;
+                          return (
+                            <tr key={p.id} className="border-t border-dust-grey">
+                              <td className="px-4 py-2 text-gunmetal">
+                                {p.outcomeName}
+                                <span className="block text-xs text-gray-400">
+                                  {p.category} · opened {new Date(p.openedAt).toLocaleDateString()}
+                                </span>
+                              </td>
+                              <td className="px-4 py-2">
+                                <span className={`px-2 py-0.5 rounded text-xs font-semibold ${p.side === "YES" ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"}`}>
+                                  {p.side}
+                                </span>
+                              </td>
+                              <td className="px-4 py-2 text-right text-gray-500">
+                                {p.edgePercent > 0 ? "+" : ""}{p.edgePercent.toFixed(1)}
+                              </td>
+                              <td className="px-4 py-2 text-right font-mono text-gunmetal">
+                                {Math.round(p.entryPrice * 100)}¢
+                                {p.currentPrice !== null && (
+                                  <span className="block text-xs text-gray-400">now {Math.round(p.currentPrice * 100)}¢</span>
+                                )}
+                              </td>
+                              <td className="px-4 py-2 text-right font-mono text-gunmetal">{formatMoney(p.stake)}</td>
+                              <td className="px-4 py-2 text-gray-500">
+                                {p.status === "SETTLED" ? `Settled: ${p.winningOutcome}` : "Open"}
+                              </td>
+                              <td className={`px-4 py-2 text-right font-mono ${pnlClass(pnl)}`}>
+                                {pnl === null ? "—" : formatMoney(pnl)}
+                                {p.status === "OPEN" && pnl !== null && (
+                                  <span className="block text-xs text-gray-400">unrealized</span>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+
+      <footer className="border-t border-dust-grey mt-auto">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <p className="text-center text-sm text-gray-500">
+            PredictEasy - Make Prediction Trading Easier
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
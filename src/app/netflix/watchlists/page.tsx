@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Header from "@/components/Header";
+import WatchlistPanel from "@/components/WatchlistPanel";
+
+interface WatchlistSummary {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  itemCount: number;
+}
+
+export default function WatchlistsPage() {
+  const [watchlists, setWatchlists] = useState<WatchlistSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadWatchlists = async (selectId?: string) => {
+    try {
+      const response = await fetch("/api/watchlists");
+      const json = await response.json();
+
+      if (json.success) {
+        setWatchlists(json.data);
+        setSelectedId((current) => {
+          const wanted = selectId ?? current;
+          return json.data.some((w: WatchlistSummary) => w.id === wanted) ? wanted! : json.data[0]?.id ?? null;
+        });
+      } else {
+        setError(json.error || "Failed to fetch watchlists");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch data");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWatchlists();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/watchlists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName }),
+      });
+      const json = await response.json();
+
+      if (json.success) {
+        setNewName("");
+        await loadWatchlists(json.data.id);
+      } else {
+        alert(json.error || "Failed to create watchlist");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (id: string) => {
+    const response = await fetch(`/api/watchlists/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isDefault: true }),
+    });
+    const json = await response.json();
+    if (json.success) await loadWatchlists(id);
+    else alert(json.error || "Failed to update watchlist");
+  };
+
+  const handleDelete = async (list: WatchlistSummary) => {
+    if (!confirm(`Delete "${list.name}" and its ${list.itemCount} titles?`)) return;
+
+    const response = await fetch(`/api/watchlists/${list.id}`, { method: "DELETE" });
+    const json = await response.json();
+    if (json.success) await loadWatchlists();
+    else alert(json.error || "Failed to delete watchlist");
+  };
+
+  const selected = watchlists.find((w) => w.id === selectedId);
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex-1 w-full">
+        <nav className="text-sm text-gray-500 mb-4">
+          <Link href="/netflix" className="hover:text-pine-blue">
+            Netflix
+          </Link>
+          <span className="mx-2">/</span>
+          <span className="text-gunmetal">Watchlists</span>
+        </nav>
+
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gunmetal">My Watchlists</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Titles you track for pacing signals ahead of release. Add titles from any title page.
+            </p>
+          </div>
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              placeholder="New list name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="px-3 py-2 text-sm border border-dust-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-pine-blue"
+            />
+            <button
+              type="submit"
+              disabled={saving || !newName.trim()}
+              className="px-4 py-2 text-sm font-medium bg-pine-blue text-white rounded-lg hover:bg-opacity-80 disabled:opacity-50"
+            >
+              Create
+            </button>
+          </form>
+        </div>
+
+        <div className="border-b border-dust-grey">
+          <nav className="flex gap-8">
+            {watchlists.map((list) => (
+              <button
+                key={list.id}
+                onClick={() => setSelectedId(list.id)}
+                className={selectedId === list.id ? "pb-4 px-1 border-b-2 font-medium text-sm transition-colors border-old-gold text-gunmetal" : "pb-4 px-1 border-b-2 font-medium text-sm transition-colors border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"}
+              >
+                {list.name}
+                <span className="ml-2 text-xs text-gray-400">{list.itemCount}</span>
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        <div className="mt-8">
+          {loading ? (
+            <div className="bg-gray-100 rounded-lg h-64 animate-pulse" />
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+          ) : selected ? (
+            <>
+              <div className="flex items-center gap-4 mb-4 text-sm">
+                {selected.isDefault ? (
+                  <span className="text-gray-500">Default list for quick pins</span>
+                ) : (
+                  <button onClick={() => handleMakeDefault(selected.id)} className="text-pine-blue hover:underline">
+                    Make default
+                  </button>
+                )}
+                <button onClick={() => handleDelete(selected)} className="text-red-600 hover:underline">
+                  Delete list
+                </button>
+              </div>
+              <WatchlistPanel
+                key={selected.id}
+                watchlistId={selected.id}
+                limit={50}
+                onUnpin={() => loadWatchlists()}
+              />
+            </>
+          ) : null}
+        </div>
+      </main>
+
+      <footer className="border-t border-dust-grey mt-auto">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <p className="text-center text-sm text-gray-500">
+            PredictEasy - Make Prediction Trading Easier
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
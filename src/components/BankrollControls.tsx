@@ -0,0 +1,119 @@
+"use client";
+
+import { useMemo, useState, useSyncExternalStore } from "react";
+import { DEFAULT_SIZING_PARAMS, MarketStakePlan, SizingParams, parseSizingParams } from "@/lib/positionSizing";
+
+const STORAGE_KEY = "predicteasy:sizing";
+
+const riskOptions: { value: number; label: string }[] = [
+  { value: 1, label: "Full Kelly" },
+  { value: 0.5, label: "Half Kelly" },
+  { value: 0.25, label: "Quarter Kelly" },
+  { value: 0.1, label: "Tenth Kelly" },
+];
+
+function readStoredSizing(): string | null {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// Edits go through useSizingParams' own state, so there is nothing to subscribe to
+const subscribeToStoredSizing = () => () => {};
+
+function parseStoredSizing(stored: string | null): SizingParams {
+  if (!stored) return DEFAULT_SIZING_PARAMS;
+  try {
+    return parseSizingParams(JSON.parse(stored));
+  } catch {
+    // Ignore unreadable settings and keep the defaults
+    return DEFAULT_SIZING_PARAMS;
+  }
+}
+
+/**
+ * Bankroll and risk fraction, remembered in localStorage. The server and the
+ * hydrating render use the defaults; the stored settings apply after that.
+ */
+export function useSizingParams(): [SizingParams, (params: SizingParams) => void] {
+  const stored = useSyncExternalStore(subscribeToStoredSizing, readStoredSizing, () => null);
+  const [edited, setEdited] = useState<SizingParams | null>(null);
+  const params = useMemo(() => edited ?? parseStoredSizing(stored), [edited, stored]);
+
+  const update = (next: SizingParams) => {
+    setEdited(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Storage can be unavailable (private mode); settings just won't persist
+    }
+  };
+
+  return [params, update];
+}
+
+function formatDollars(value: number): string {
+  return `$${Math.round(Math.abs(value)).toLocaleString()}`;
+}
+
+interface BankrollControlsProps {
+  params: SizingParams;
+  onChange: (params: SizingParams) => void;
+  plan?: MarketStakePlan | null;
+}
+
+export default function BankrollControls({ params, onChange, plan }: BankrollControlsProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg border border-dust-grey text-sm">
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2 text-gray-500">
+          Bankroll
+          <span className="relative">
+            <span className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400">$</span>
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={params.bankroll}
+              onChange={(e) => onChange({ ...params, bankroll: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-28 pl-5 pr-2 py-1 border border-gray-300 rounded-md text-gunmetal focus:outline-none focus:ring-2 focus:ring-pine-blue"
+            />
+          </span>
+        </label>
+        <label className="flex items-center gap-2 text-gray-500">
+          Risk
+          <select
+            value={params.riskFraction}
+            onChange={(e) => onChange({ ...params, riskFraction: Number(e.target.value) })}
+            className="border border-gray-300 rounded-md px-2 py-1 text-gunmetal focus:outline-none focus:ring-2 focus:ring-pine-blue"
+          >
+            {riskOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {plan && plan.totalStake > 0 && (
+        <div className="flex gap-4 text-gray-600">
+          <span>
+            Total stake <span className="font-semibold text-gunmetal">{formatDollars(plan.totalStake)}</span>
+          </span>
+          <span>
+            EV{" "}
+            <span className={`font-semibold ${plan.expectedValue >= 0 ? "text-green-600" : "text-red-600"}`}>
+              {plan.expectedValue >= 0 ? "+" : "-"}{formatDollars(plan.expectedValue)}
+            </span>
+          </span>
+          <span>
+            Worst case <span className="font-semibold text-red-600">-{formatDollars(plan.worstCaseLoss)}</span>
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
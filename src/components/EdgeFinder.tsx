@@ -1,6 +1,11 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import BankrollControls, { useSizingParams } from "./BankrollControls";
+import StakeSuggestion from "./StakeSuggestion";
+import ExecutionNote from "./ExecutionNote";
+import { sizeMarket, OutcomeQuote, StakeRecommendation } from "@/lib/positionSizing";
+import type { ExecutableEdge } from "@/lib/orderBook";
 
 interface EdgeOpportunity {
   marketSlug: string;
@@ -28,6 +33,7 @@ interface EdgeOpportunity {
   priceChange24h: number | null;
   priceChange7d: number | null;
   volume24h: number | null;
+  execution?: ExecutableEdge | null;
 }
 
 interface EdgeFinderResponse {
@@ -126,7 +132,39 @@ function EdgeBar({ marketProb, modelProb, signalType }: { marketProb: number; mo
   );
 }
 
-function EdgeCard({ edge }: { edge: EdgeOpportunity }) {
+function stakeKey(edge: EdgeOpportunity): string {
+  return `${edge.marketSlug}:${edge.outcomeName}`;
+}
+
+/**
+ * Stakes for model edges, sized jointly within each market since its outcomes
+ * are mutually exclusive. Trend signals have no model probability to size from.
+ */
+function sizeEdges(edges: EdgeOpportunity[], params: { bankroll: number; riskFraction: number }): Map<string, StakeRecommendation> {
+  const byMarket = new Map<string, EdgeOpportunity[]>();
+  for (const edge of edges) {
+    if (edge.signalType !== 'model_edge') continue;
+    if (!byMarket.has(edge.marketSlug)) byMarket.set(edge.marketSlug, []);
+    byMarket.get(edge.marketSlug)!.push(edge);
+  }
+
+  const stakes = new Map<string, StakeRecommendation>();
+  for (const [marketSlug, marketEdges] of Array.from(byMarket.entries())) {
+    const quotes: OutcomeQuote[] = marketEdges.map((e) => ({
+      name: e.outcomeName,
+      side: e.direction === 'BUY' ? 'YES' : 'NO',
+      modelProbability: e.modelProbability,
+      marketPrice: e.execution?.executablePrice ?? e.marketProbability,
+    }));
+    for (const rec of sizeMarket(quotes, params).recommendations) {
+      stakes.set(`${marketSlug}:${rec.name}`, rec);
+    }
+  }
+
+  return stakes;
+}
+
+function EdgeCard({ edge, stake }: { edge: EdgeOpportunity; stake: StakeRecommendation | null }) {
   const isPositive = edge.direction === 'BUY';
   const isModelEdge = edge.signalType === 'model_edge';
 
@@ -170,6 +208,11 @@ function EdgeCard({ edge }: { edge: EdgeOpportunity }) {
           modelProb={edge.modelProbability}
           signalType={edge.signalType}
         />
+        {isModelEdge && (
+          <div className="mt-1">
+            <ExecutionNote execution={edge.execution} />
+          </div>
+        )}
       </div>
 
       {/* Reasoning */}
@@ -200,6 +243,13 @@ function EdgeCard({ edge }: { edge: EdgeOpportunity }) {
         </div>
       </div>
 
+      {/* Suggested stake */}
+      {stake && (
+        <div className="mb-3">
+          <StakeSuggestion recommendation={stake} />
+        </div>
+      )}
+
       {/* Supporting Metrics - Different for each signal type */}
       {isModelEdge ? (
         <div className="grid grid-cols-3 gap-2 text-xs border-t border-dust-grey pt-3">
@@ -303,6 +353,12 @@ export default function EdgeFinder({ category, minEdge = 5, limit = 12 }: EdgeFi
   const [response, setResponse] = useState<EdgeFinderResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sizingParams, setSizingParams] = useSizingParams();
+
+  const stakes = useMemo(
+    () => sizeEdges(response?.data ?? [], sizingParams),
+    [response, sizingParams]
+  );
 
   useEffect(() => {
     async function fetchEdges() {
@@ -375,10 +431,20 @@ export default function EdgeFinder({ category, minEdge = 5, limit = 12 }: EdgeFi
         </div>
       </div>
 
+      {meta.modelEdges > 0 && (
+        <div className="mb-4">
+          <BankrollControls params={sizingParams} onChange={setSizingParams} />
+        </div>
+      )}
+
       {/* Edge Cards Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {edges.map((edge, idx) => (
-          <EdgeCard key={`${edge.marketSlug}-${edge.outcomeName}-${idx}`} edge={edge} />
+          <EdgeCard
+            key={`${edge.marketSlug}-${edge.outcomeName}-${idx}`}
+            edge={edge}
+            stake={edge.signalType === 'model_edge' ? stakes.get(stakeKey(edge)) ?? null : null}
+          />
         ))}
       </div>
     </div>
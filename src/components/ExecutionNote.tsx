@@ -0,0 +1,35 @@
+"use client";
+
+import type { ExecutableEdge } from "@/lib/orderBook";
+
+interface ExecutionNoteProps {
+  execution: ExecutableEdge | null | undefined;
+}
+
+export default function ExecutionNote({ execution }: ExecutionNoteProps) {
+  if (!execution) return null;
+
+  const stakeLabel = `$${Math.round(execution.referenceStake).toLocaleString()}`;
+
+  if (!execution.fullyFilled) {
+    return (
+      <p className="text-xs text-yellow-700">
+        Thin book: only ${Math.round(execution.filledStake).toLocaleString()} of {stakeLabel} fills
+      </p>
+    );
+  }
+
+  const edgeColor = execution.side === "YES"
+    ? execution.edgePercent > 0 ? "text-green-600" : "text-gray-500"
+    : execution.edgePercent < 0 ? "text-red-600" : "text-gray-500";
+
+  return (
+    <p className="text-xs text-gray-500">
+      {stakeLabel} fills at {Math.round(execution.executablePrice * 100)}¢ ·{" "}
+      <span className={`font-medium ${edgeColor}`}>
+        {execution.edgePercent > 0 ? "+" : ""}{execution.edgePercent.toFixed(1)} pts
+      </span>{" "}
+      after {execution.slippagePercent.toFixed(1)} pts slippage
+    </p>
+  );
+}
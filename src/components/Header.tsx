@@ -59,6 +59,14 @@ export default function Header() {
             >
               Insider Finder
             </Link>
+            {isSignedIn && (
+              <Link
+                href="/alerts"
+                className="text-dust-grey hover:text-white transition-colors"
+              >
+                Alerts
+              </Link>
+            )}
             {isAdmin && (
               <Link
                 href="/admin"
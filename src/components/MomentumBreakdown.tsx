@@ -2,28 +2,44 @@
 
 import { useState } from "react";
 
+export interface CountryBreadthData {
+  countriesInTop10: number;
+  countriesAtNumber1: number;
+  countryCountDelta: number | null;
+  regionalSpreadIndex: number;
+  regionsCharting: number;
+}
+
+// Country breadth fields are optional: forecasts stored before they existed won't have them
 export interface MomentumBreakdownData {
   // Raw values
   trendsRaw: number | null;
   wikipediaRaw: number | null;
   rankDeltaRaw: number | null;
+  countryBreadthRaw?: number | null;
 
   // Normalized values (0-100 scale)
   trendsNormalized: number | null;
   wikipediaNormalized: number | null;
   rankDeltaNormalized: number | null;
+  countryBreadthNormalized?: number | null;
 
   // Weights used
   weights: {
     trendsWeight: number;
     wikipediaWeight: number;
     rankDeltaWeight: number;
+    countryBreadthWeight?: number;
   };
 
   // Weighted contributions to final score
   trendsContribution: number;
   wikipediaContribution: number;
   rankDeltaContribution: number;
+  countryBreadthContribution?: number;
+
+  // Country breadth detail
+  countryBreadth?: CountryBreadthData | null;
 
   // Final score
   totalScore: number;
@@ -102,11 +118,23 @@ function ComponentBar({
 export default function MomentumBreakdown({ breakdown, showDetails = true }: MomentumBreakdownProps) {
   const [expanded, setExpanded] = useState(false);
 
+  const breadthNormalized = breakdown.countryBreadthNormalized ?? null;
+  const breadthContribution = breakdown.countryBreadthContribution ?? 0;
+  const breadthWeight = breakdown.weights.countryBreadthWeight ?? 0;
+  const breadth = breakdown.countryBreadth ?? null;
+
+  const totalContribution =
+    breakdown.trendsContribution +
+    breakdown.wikipediaContribution +
+    breakdown.rankDeltaContribution +
+    breadthContribution || 1;
+
   // Calculate max contribution for scaling bars
   const maxContribution = Math.max(
     breakdown.trendsContribution,
     breakdown.wikipediaContribution,
     breakdown.rankDeltaContribution,
+    breadthContribution,
     1 // Prevent division by zero
   );
 
@@ -115,6 +143,7 @@ export default function MomentumBreakdown({ breakdown, showDetails = true }: Mom
     breakdown.trendsNormalized !== null,
     breakdown.wikipediaNormalized !== null,
     breakdown.rankDeltaNormalized !== null,
+    breadthNormalized !== null,
   ].filter(Boolean).length;
 
   // Score color
@@ -139,7 +168,7 @@ export default function MomentumBreakdown({ breakdown, showDetails = true }: Mom
           <div>
             <h4 className="font-medium text-gunmetal">Momentum Score</h4>
             <span className="text-xs text-gray-500">
-              {activeComponents}/3 signals active
+              {activeComponents}/4 signals active
             </span>
           </div>
         </div>
@@ -158,7 +187,7 @@ export default function MomentumBreakdown({ breakdown, showDetails = true }: Mom
             <div
               className="bg-blue-500 transition-all"
               style={{
-                width: `${(breakdown.trendsContribution / (breakdown.trendsContribution + breakdown.wikipediaContribution + breakdown.rankDeltaContribution || 1)) * 100}%`,
+                width: `${(breakdown.trendsContribution / totalContribution) * 100}%`,
               }}
               title={`Trends: ${breakdown.trendsNormalized}`}
             />
@@ -167,7 +196,7 @@ export default function MomentumBreakdown({ breakdown, showDetails = true }: Mom
             <div
               className="bg-purple-500 transition-all"
               style={{
-                width: `${(breakdown.wikipediaContribution / (breakdown.trendsContribution + breakdown.wikipediaContribution + breakdown.rankDeltaContribution || 1)) * 100}%`,
+                width: `${(breakdown.wikipediaContribution / totalContribution) * 100}%`,
               }}
               title={`Wikipedia: ${breakdown.wikipediaNormalized}`}
             />
@@ -176,11 +205,20 @@ export default function MomentumBreakdown({ breakdown, showDetails = true }: Mom
             <div
               className="bg-green-500 transition-all"
               style={{
-                width: `${(breakdown.rankDeltaContribution / (breakdown.trendsContribution + breakdown.wikipediaContribution + breakdown.rankDeltaContribution || 1)) * 100}%`,
+                width: `${(breakdown.rankDeltaContribution / totalContribution) * 100}%`,
               }}
               title={`Rank: ${breakdown.rankDeltaNormalized}`}
             />
           )}
+          {breadthNormalized !== null && (
+            <div
+              className="bg-teal-500 transition-all"
+              style={{
+                width: `${(breadthContribution / totalContribution) * 100}%`,
+              }}
+              title={`Countries: ${breadthNormalized}`}
+            />
+          )}
         </div>
       )}
 
@@ -223,6 +261,32 @@ export default function MomentumBreakdown({ breakdown, showDetails = true }: Mom
             maxContribution={maxContribution}
           />
 
+          <ComponentBar
+            label="Country Breadth"
+            icon="🌍"
+            rawValue={breakdown.countryBreadthRaw ?? null}
+            rawUnit="countries"
+            normalizedValue={breadthNormalized}
+            contribution={breadthContribution}
+            weight={breadthWeight}
+            color="text-teal-600"
+            maxContribution={maxContribution}
+          />
+          {breadth && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 -mt-2">
+              <span>#1 in {breadth.countriesAtNumber1} countries</span>
+              {breadth.countryCountDelta !== null && (
+                <span className={breadth.countryCountDelta > 0 ? "text-green-600" : breadth.countryCountDelta < 0 ? "text-red-500" : ""}>
+                  {breadth.countryCountDelta > 0 ? "+" : ""}
+                  {breadth.countryCountDelta} countries WoW
+                </span>
+              )}
+              <span>
+                Spread {breadth.regionalSpreadIndex}/100 ({breadth.regionsCharting}/5 regions)
+              </span>
+            </div>
+          )}
+
           {/* Formula explanation */}
           <div className="mt-4 p-3 bg-gray-50 rounded-lg">
             <p className="text-xs text-gray-600">
@@ -233,7 +297,8 @@ export default function MomentumBreakdown({ breakdown, showDetails = true }: Mom
             <p className="text-xs text-gray-500 mt-2">
               Weights: Trends ({(breakdown.weights.trendsWeight * 100).toFixed(0)}%) + Wiki (
               {(breakdown.weights.wikipediaWeight * 100).toFixed(0)}%) + Rank (
-              {(breakdown.weights.rankDeltaWeight * 100).toFixed(0)}%)
+              {(breakdown.weights.rankDeltaWeight * 100).toFixed(0)}%) + Countries (
+              {(breadthWeight * 100).toFixed(0)}%)
             </p>
           </div>
         </div>
@@ -280,6 +345,13 @@ export function MomentumBreakdownInline({ breakdown }: { breakdown: MomentumBrea
             title={`Rank: ${breakdown.rankDeltaNormalized}`}
           />
         )}
+        {breakdown.countryBreadthNormalized != null && (
+          <div
+            className="bg-teal-500"
+            style={{ flex: breakdown.countryBreadthContribution || 0 }}
+            title={`Countries: ${breakdown.countryBreadthNormalized}`}
+          />
+        )}
       </div>
     </div>
   );
@@ -308,6 +380,16 @@ export function MomentumBreakdownTooltip({ breakdown }: { breakdown: MomentumBre
         <span>{breakdown.rankDeltaNormalized ?? "-"}</span>
       </div>
 
+      <div className="flex justify-between gap-4">
+        <span className="text-teal-600">🌍 Countries:</span>
+        <span>
+          {breakdown.countryBreadthNormalized ?? "-"}
+          {breakdown.countryBreadth && (
+            <span className="text-gray-400"> ({breakdown.countryBreadth.countriesInTop10})</span>
+          )}
+        </span>
+      </div>
+
       <div className="border-t pt-1 flex justify-between font-medium">
         <span>Total:</span>
         <span>{breakdown.totalScore}</span>
@@ -5,7 +5,11 @@ import SignalIndicator, { Signal, SignalStrength } from "./SignalIndicator";
 import RankForecast from "./RankForecast";
 import EdgeComparison from "./EdgeComparison";
 import SignalBreakdown from "./SignalBreakdown";
+import StakeSuggestion from "./StakeSuggestion";
+import ExecutionNote from "./ExecutionNote";
 import { MomentumBreakdownData } from "./MomentumBreakdown";
+import { StakeRecommendation } from "@/lib/positionSizing";
+import type { ExecutableEdge } from "@/lib/orderBook";
 
 export interface OpportunityData {
   id: string;
@@ -26,6 +30,7 @@ export interface OpportunityData {
   modelProbability: number | null;
   edgePercent: number | null;
   polymarketUrl: string | null;
+  execution?: ExecutableEdge | null;
 
   // Signal classification
   signal: Signal;
@@ -41,6 +46,7 @@ export interface OpportunityData {
 interface OpportunityCardProps {
   data: OpportunityData;
   compact?: boolean;
+  stake?: StakeRecommendation | null;
 }
 
 function TypeBadge({ type }: { type: "SHOW" | "MOVIE" }) {
@@ -69,9 +75,9 @@ function ConfidenceBadge({ confidence }: { confidence: "low" | "medium" | "high"
   );
 }
 
-export default function OpportunityCard({ data, compact = false }: OpportunityCardProps) {
+export default function OpportunityCard({ data, compact = false, stake = null }: OpportunityCardProps) {
   if (compact) {
-    return <OpportunityCardCompact data={data} />;
+    return <OpportunityCardCompact data={data} stake={stake} />;
   }
 
   return (
@@ -110,6 +116,14 @@ export default function OpportunityCard({ data, compact = false }: OpportunityCa
               modelProbability={data.modelProbability}
               edgePercent={data.edgePercent}
             />
+            <div className="mt-2">
+              <ExecutionNote execution={data.execution} />
+            </div>
+            {stake && (
+              <div className="mt-3">
+                <StakeSuggestion recommendation={stake} />
+              </div>
+            )}
           </div>
         )}
 
@@ -151,7 +165,7 @@ export default function OpportunityCard({ data, compact = false }: OpportunityCa
 /**
  * Compact version for list views
  */
-function OpportunityCardCompact({ data }: { data: OpportunityData }) {
+function OpportunityCardCompact({ data, stake }: { data: OpportunityData; stake: StakeRecommendation | null }) {
   return (
     <Link href={`/netflix/${data.id}`} className="block">
       <div className="flex items-center gap-4 p-3 bg-white border border-dust-grey rounded-lg hover:bg-gray-50 hover:border-pine-blue transition-all cursor-pointer">
@@ -186,6 +200,7 @@ function OpportunityCardCompact({ data }: { data: OpportunityData }) {
             {data.edgePercent > 0 ? "+" : ""}{data.edgePercent.toFixed(0)}%
           </span>
           <div className="text-xs text-gray-500">edge</div>
+          <StakeSuggestion recommendation={stake} compact />
         </div>
       )}
 
@@ -1,7 +1,9 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import OpportunityCard, { OpportunityData } from "./OpportunityCard";
+import BankrollControls, { useSizingParams } from "./BankrollControls";
+import { sizeMarket, OutcomeQuote, StakeRecommendation } from "@/lib/positionSizing";
 
 interface OpportunityGridProps {
   type?: "SHOW" | "MOVIE";
@@ -28,6 +30,7 @@ export default function OpportunityGrid({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<SortOption>("rank");
+  const [sizingParams, setSizingParams] = useSizingParams();
 
   useEffect(() => {
     async function fetchOpportunities() {
@@ -62,6 +65,23 @@ export default function OpportunityGrid({
     fetchOpportunities();
   }, [type, category, minEdge, showOnlyOpportunities, polymarketOnly, limit, sortBy]);
 
+  // Every title in the grid trades in the same weekly market, so size them together
+  const stakePlan = useMemo(() => {
+    const quotes: OutcomeQuote[] = opportunities
+      .filter((o) => o.signal !== "HOLD" && o.marketProbability !== null && o.modelProbability !== null)
+      .map((o) => ({
+        name: o.id,
+        side: o.signal === "BUY" ? "YES" : "NO",
+        modelProbability: o.modelProbability!,
+        marketPrice: o.execution?.executablePrice ?? o.marketProbability!,
+      }));
+    return quotes.length > 0 ? sizeMarket(quotes, sizingParams) : null;
+  }, [opportunities, sizingParams]);
+
+  const stakesById = new Map<string, StakeRecommendation>(
+    (stakePlan?.recommendations ?? []).map((r) => [r.name, r])
+  );
+
   if (loading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -133,6 +153,10 @@ export default function OpportunityGrid({
         </div>
       </div>
 
+      {stakePlan && (
+        <BankrollControls params={sizingParams} onChange={setSizingParams} plan={stakePlan} />
+      )}
+
       {/* Grid or list */}
       {compact ? (
         <div className="space-y-2">
@@ -141,6 +165,7 @@ export default function OpportunityGrid({
               key={opportunity.id}
               data={opportunity}
               compact={true}
+              stake={stakesById.get(opportunity.id) ?? null}
             />
           ))}
         </div>
@@ -151,6 +176,7 @@ export default function OpportunityGrid({
               key={opportunity.id}
               data={opportunity}
               compact={false}
+              stake={stakesById.get(opportunity.id) ?? null}
             />
           ))}
         </div>
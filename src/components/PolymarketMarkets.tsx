@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { usePriceStream, livePriceKey } from "./usePriceStream";
 
 interface MarketOutcome {
   name: string;
@@ -33,7 +34,13 @@ function getProbabilityColor(prob: number): string {
   return 'text-gray-500 bg-gray-50';
 }
 
-function MarketCard({ market }: { market: MarketData }) {
+function MarketCard({ market, livePrices, streaming }: { market: MarketData; livePrices: Map<string, number>; streaming: boolean }) {
+  const outcomes = market.outcomes.map((outcome) => {
+    const live = livePrices.get(livePriceKey(market.slug, outcome.name));
+    return live !== undefined ? { ...outcome, probability: live } : outcome;
+  });
+  const isLive = streaming && market.outcomes.some((o) => livePrices.has(livePriceKey(market.slug, o.name)));
+
   return (
     <a
       href={market.polymarketUrl}
@@ -45,6 +52,12 @@ function MarketCard({ market }: { market: MarketData }) {
       <div className="flex items-center justify-between mb-3">
         <span className="text-sm font-semibold text-pine-blue">{market.label}</span>
         <div className="flex items-center gap-2">
+          {isLive && (
+            <span className="flex items-center gap-1 text-xs text-green-600" title="Streaming Polymarket prices">
+              <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span>
+              Live
+            </span>
+          )}
           <span className="text-xs text-gray-400">Volume: {formatVolume(market.totalVolume)}</span>
           <svg
             className="w-4 h-4 text-gray-400 group-hover:text-pine-blue transition-colors"
@@ -59,7 +72,7 @@ function MarketCard({ market }: { market: MarketData }) {
 
       {/* Outcomes List */}
       <div className="space-y-2">
-        {market.outcomes.slice(0, 6).map((outcome, idx) => (
+        {outcomes.slice(0, 6).map((outcome, idx) => (
           <div
             key={idx}
             className="flex items-center justify-between py-1.5 px-2 rounded-md bg-gray-50 hover:bg-gray-100 transition-colors"
@@ -121,6 +134,7 @@ export default function PolymarketMarkets({ tab }: PolymarketMarketsProps) {
   const [markets, setMarkets] = useState<MarketData[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { prices: livePrices, connected } = usePriceStream(markets.map((m) => m.slug));
 
   useEffect(() => {
     async function fetchMarkets() {
@@ -173,7 +187,7 @@ export default function PolymarketMarkets({ tab }: PolymarketMarketsProps) {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
       {markets.map((market) => (
-        <MarketCard key={market.slug} market={market} />
+        <MarketCard key={market.slug} market={market} livePrices={livePrices} streaming={connected} />
       ))}
     </div>
   );
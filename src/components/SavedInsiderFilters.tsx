@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useUser } from "@clerk/nextjs";
+import { InsiderFiltersState } from "./InsiderFilters";
+
+interface SavedFilter {
+  id: string;
+  name: string;
+  filters: InsiderFiltersState;
+}
+
+interface SavedInsiderFiltersProps {
+  filters: InsiderFiltersState;
+  onApply: (filters: InsiderFiltersState) => void;
+}
+
+/**
+ * Save and re-apply named Insider Finder filter sets (signed-in users only)
+ */
+export default function SavedInsiderFilters({ filters, onApply }: SavedInsiderFiltersProps) {
+  const { isSignedIn } = useUser();
+  const [saved, setSaved] = useState<SavedFilter[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    fetch("/api/preferences/insider-filters")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setSaved(data.data);
+      })
+      .catch((err) => console.error("Failed to load saved filters:", err));
+  }, [isSignedIn]);
+
+  if (!isSignedIn) return null;
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const match = saved.find((s) => s.id === id);
+    if (match) onApply(match.filters);
+  };
+
+  const handleSave = async () => {
+    const current = saved.find((s) => s.id === selectedId);
+    const name = prompt("Name this filter set", current?.name ?? "")?.trim();
+    if (!name) return;
+
+    try {
+      const res = await fetch("/api/preferences/insider-filters", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, filters }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setSaved((prev) =>
+          [...prev.filter((s) => s.id !== data.data.id), data.data].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        setSelectedId(data.data.id);
+      } else {
+        alert(data.error || "Failed to save filters");
+      }
+    } catch (err) {
+      console.error("Failed to save filters:", err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+
+    try {
+      const res = await fetch(`/api/preferences/insider-filters/${selectedId}`, { method: "DELETE" });
+      const data = await res.json();
+      if (data.success) {
+        setSaved((prev) => prev.filter((s) => s.id !== selectedId));
+        setSelectedId("");
+      }
+    } catch (err) {
+      console.error("Failed to delete saved filter:", err);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <label className="text-gray-500">Saved filters:</label>
+      <select
+        value={selectedId}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-pine-blue"
+      >
+        <option value="">{saved.length === 0 ? "None yet" : "Choose..."}</option>
+        {saved.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.name}
+          </option>
+        ))}
+      </select>
+      <button onClick={handleSave} className="text-pine-blue hover:underline">
+        Save current
+      </button>
+      {selectedId && (
+        <button onClick={handleDelete} className="text-red-600 hover:underline">
+          Delete
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { StakeRecommendation } from "@/lib/positionSizing";
+
+interface StakeSuggestionProps {
+  recommendation: StakeRecommendation | null;
+  compact?: boolean;
+}
+
+function formatDollars(value: number): string {
+  return `$${Math.round(Math.abs(value)).toLocaleString()}`;
+}
+
+export default function StakeSuggestion({ recommendation, compact = false }: StakeSuggestionProps) {
+  if (!recommendation) return null;
+
+  const isYes = recommendation.side === "YES";
+  const sideColor = isYes ? "text-green-600" : "text-red-600";
+
+  if (recommendation.stake === 0) {
+    return (
+      <div className={compact ? "text-xs text-gray-400" : "text-sm text-gray-500"}>
+        No bet at this bankroll
+      </div>
+    );
+  }
+
+  if (compact) {
+    return (
+      <div className="text-xs text-gray-600">
+        Bet <span className="font-semibold text-gunmetal">{formatDollars(recommendation.stake)}</span> on{" "}
+        <span className={`font-semibold ${sideColor}`}>{isYes ? "Yes" : "No"}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-3 rounded-lg border ${isYes ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"}`}>
+      <div className="text-sm text-gunmetal">
+        Bet <span className="text-lg font-bold">{formatDollars(recommendation.stake)}</span> on{" "}
+        <span className={`font-bold ${sideColor}`}>{isYes ? "Yes" : "No"}</span>
+        <span className="text-gray-500"> at {Math.round(recommendation.price * 100)}¢</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+        <div>
+          <span className="block text-gray-400">Expected</span>
+          <span className={`font-semibold ${recommendation.expectedValue >= 0 ? "text-green-600" : "text-red-600"}`}>
+            {recommendation.expectedValue >= 0 ? "+" : "-"}{formatDollars(recommendation.expectedValue)}
+          </span>
+        </div>
+        <div>
+          <span className="block text-gray-400">If it wins</span>
+          <span className="font-semibold text-green-600">+{formatDollars(recommendation.maxProfit)}</span>
+        </div>
+        <div>
+          <span className="block text-gray-400">Worst case</span>
+          <span className="font-semibold text-red-600">-{formatDollars(recommendation.maxLoss)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+
+interface WatchlistSummary {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  itemCount: number;
+}
+
+interface WatchlistButtonProps {
+  titleId: string;
+}
+
+/**
+ * Toggle a title on each of the signed-in user's watchlists
+ */
+export default function WatchlistButton({ titleId }: WatchlistButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [watchlists, setWatchlists] = useState<WatchlistSummary[]>([]);
+  const [memberOf, setMemberOf] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [listsRes, membershipRes] = await Promise.all([
+          fetch("/api/watchlists"),
+          fetch(`/api/watchlist/${titleId}`),
+        ]);
+        const lists = await listsRes.json();
+        const membership = await membershipRes.json();
+        if (lists.success) setWatchlists(lists.data);
+        if (membership.success) {
+          setMemberOf(new Set(membership.data.watchlists.map((w: { id: string }) => w.id)));
+        }
+      } catch (err) {
+        console.error("Failed to load watchlists:", err);
+      }
+    };
+    load();
+  }, [titleId]);
+
+  const toggle = async (watchlistId: string) => {
+    setSaving(watchlistId);
+    const isMember = memberOf.has(watchlistId);
+    try {
+      const res = isMember
+        ? await fetch(`/api/watchlist/${titleId}?watchlistId=${watchlistId}`, { method: "DELETE" })
+        : await fetch("/api/watchlist", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ titleId, watchlistId }),
+          });
+      const data = await res.json();
+      if (data.success) {
+        setMemberOf((prev) => {
+          const next = new Set(prev);
+          if (isMember) next.delete(watchlistId);
+          else next.add(watchlistId);
+          return next;
+        });
+      }
+    } catch (err) {
+      console.error("Failed to update watchlist:", err);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const pinned = memberOf.size > 0;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+          pinned ? "bg-old-gold text-gunmetal" : "bg-white/10 text-white hover:bg-white/20"
+        }`}
+      >
+        {pinned ? "★ On watchlist" : "☆ Add to watchlist"}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-white text-gunmetal rounded-lg shadow-lg border border-dust-grey z-10 py-2">
+          {watchlists.map((list) => (
+            <label
+              key={list.id}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-gray-50 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={memberOf.has(list.id)}
+                disabled={saving === list.id}
+                onChange={() => toggle(list.id)}
+                className="accent-pine-blue"
+              />
+              <span className="truncate">{list.name}</span>
+            </label>
+          ))}
+          <Link
+            href="/netflix/watchlists"
+            className="block px-3 pt-2 mt-1 border-t border-gray-100 text-xs text-pine-blue hover:underline"
+          >
+            Manage watchlists
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
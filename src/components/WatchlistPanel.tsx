@@ -6,8 +6,8 @@ import Link from "next/link";
 interface WatchlistItem {
   id: string;
   titleId: string;
+  watchlistId: string;
   pinnedAt: string;
-  pinnedBy: string | null;
   title: {
     id: string;
     name: string;
@@ -26,6 +26,7 @@ interface WatchlistItem {
 
 interface WatchlistPanelProps {
   limit?: number;
+  watchlistId?: string; // Defaults to the user's default list
   onUnpin?: (titleId: string) => void;
 }
 
@@ -150,7 +151,7 @@ function WatchlistCard({
   const handleUnpin = async () => {
     setUnpinning(true);
     try {
-      const response = await fetch(`/api/watchlist/${item.titleId}`, {
+      const response = await fetch(`/api/watchlist/${item.titleId}?watchlistId=${item.watchlistId}`, {
         method: "DELETE",
       });
       if (response.ok && onUnpin) {
@@ -250,7 +251,7 @@ function WatchlistCard({
   );
 }
 
-export default function WatchlistPanel({ limit = 10, onUnpin }: WatchlistPanelProps) {
+export default function WatchlistPanel({ limit = 10, watchlistId, onUnpin }: WatchlistPanelProps) {
   const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -262,6 +263,9 @@ export default function WatchlistPanel({ limit = 10, onUnpin }: WatchlistPanelPr
     try {
       const params = new URLSearchParams();
       params.set("limit", limit.toString());
+      if (watchlistId) {
+        params.set("watchlistId", watchlistId);
+      }
 
       const response = await fetch(`/api/watchlist?${params}`);
       const data = await response.json();
@@ -280,7 +284,7 @@ export default function WatchlistPanel({ limit = 10, onUnpin }: WatchlistPanelPr
 
   useEffect(() => {
     fetchWatchlist();
-  }, [limit]);
+  }, [limit, watchlistId]);
 
   const handleUnpin = (titleId: string) => {
     setWatchlist((prev) => prev.filter((item) => item.titleId !== titleId));
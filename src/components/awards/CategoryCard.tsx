@@ -2,6 +2,8 @@
 
 import Link from "next/link";
 import { useMemo } from "react";
+import type { OddsSource } from "@prisma/client";
+import { calculateConsensus, ConsensusWeights } from "@/lib/consensusCalculator";
 
 interface OddsData {
   source: string;
@@ -28,6 +30,7 @@ interface CategoryCardProps {
   isClosed: boolean;
   leader: NomineeData | null;
   nominees: NomineeData[];
+  weights?: ConsensusWeights;  // Applied consensus weights from /api/awards meta
 }
 
 // Source configuration for badges
@@ -38,31 +41,6 @@ const SOURCE_CONFIG: Record<string, { label: string; color: string; bgColor: str
   POLYMARKET: { label: "Polymarket", color: "text-purple-700", bgColor: "bg-purple-100" },
 };
 
-// Simple consensus calculation for the card (weighted average)
-const WEIGHTS: Record<string, number> = {
-  POLYMARKET: 0.35,
-  MYBOOKIE: 0.15,
-  BOVADA: 0.15,
-  GOLDDERBY: 0.25,
-  DRAFTKINGS: 0.05,
-  BETMGM: 0.05,
-};
-
-function calculateSimpleConsensus(odds: OddsData[]): number | null {
-  if (odds.length === 0) return null;
-
-  let weightedSum = 0;
-  let totalWeight = 0;
-
-  for (const o of odds) {
-    const weight = WEIGHTS[o.source] || 0.05;
-    weightedSum += o.probability * weight;
-    totalWeight += weight;
-  }
-
-  return totalWeight > 0 ? weightedSum / totalWeight : null;
-}
-
 function ConsensusBar({ probability }: { probability: number }) {
   const percentage = Math.round(probability * 100);
   return (
@@ -134,6 +112,7 @@ export default function CategoryCard({
   isClosed,
   leader,
   nominees,
+  weights,
 }: CategoryCardProps) {
   // Find biggest edge in this category
   const biggestEdge = nominees.reduce((max, n) => {
@@ -174,9 +153,10 @@ export default function CategoryCard({
 
   // Calculate consensus for leader
   const leaderConsensus = useMemo(() => {
-    if (!leader) return null;
-    return calculateSimpleConsensus(leader.odds);
-  }, [leader]);
+    if (!leader || leader.odds.length === 0) return null;
+    const odds = leader.odds.map((o) => ({ source: o.source as OddsSource, probability: o.probability }));
+    return calculateConsensus(odds, weights).probability;
+  }, [leader, weights]);
 
   return (
     <Link
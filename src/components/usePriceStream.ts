@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface StreamedBar {
+  marketSlug: string;
+  outcomeName: string;
+  close: number;
+  updatedAt: string;
+}
+
+export interface LivePrices {
+  prices: Map<string, number>; // Keyed by livePriceKey(marketSlug, outcomeName)
+  connected: boolean;
+}
+
+export function livePriceKey(marketSlug: string, outcomeName: string): string {
+  return `${marketSlug}:${outcomeName.toLowerCase()}`;
+}
+
+/**
+ * Subscribe to /api/price-stream for the given markets
+ *
+ * Prices are the latest minute-bar midpoints from the stream worker; outcomes
+ * without a streamed bar are absent from the map.
+ */
+export function usePriceStream(marketSlugs: string[]): LivePrices {
+  const [prices, setPrices] = useState<Map<string, number>>(() => new Map());
+  const [connected, setConnected] = useState(false);
+  const slugKey = [...marketSlugs].sort().join(",");
+
+  useEffect(() => {
+    if (!slugKey) return;
+
+    const source = new EventSource(`/api/price-stream?slugs=${encodeURIComponent(slugKey)}`);
+
+    const apply = (event: MessageEvent) => {
+      const bars: StreamedBar[] = JSON.parse(event.data);
+      if (bars.length === 0) return;
+
+      setPrices((prev) => {
+        const next = new Map(prev);
+        for (const bar of bars) {
+          next.set(livePriceKey(bar.marketSlug, bar.outcomeName), bar.close);
+        }
+        return next;
+      });
+    };
+
+    source.addEventListener("snapshot", apply);
+    source.addEventListener("bars", apply);
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [slugKey]);
+
+  return { prices, connected };
+}
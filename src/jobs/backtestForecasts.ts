@@ -0,0 +1,347 @@
+/**
+ * Forecast Backtest Job
+ *
+ * Scores rank forecasts against the Netflix Top 10 rank that actually landed.
+ * Two views are produced:
+ * - Replay: re-runs every registered model (or the one asked for) as-of
+ *   each historical week, using only data from before that week's start.
+ *   All models share the same inputs, so a challenger is compared with the
+ *   champion on the same title seasons and weeks
+ * - Stored: scores the ForecastWeekly rows we saved at the time, grouped by
+ *   the model ID and version that generated them
+ *
+ * Metrics: MAE of p50, p10-p90 interval coverage, pinball loss, #1 hit rate.
+ */
+
+import { getForecastSubjects } from '../lib/forecaster';
+import { FORECAST_MODELS, ForecastModel, buildModelInputs, getForecastModel, runForecastModel } from '../lib/forecastModels';
+import {
+  calculateBacktestMetrics,
+  toScoredRank,
+  BacktestMetrics,
+  ScoredForecast,
+} from '../lib/backtestMetrics';
+
+import prisma from '@/lib/prisma';
+
+export interface BacktestOptions {
+  weeks?: number;          // Number of most recent Netflix weeks to score (default 8)
+  replay?: boolean;        // Replay the registered models as-of each week (default true)
+  modelId?: string;        // Replay only this registered model (default every model)
+  includeStored?: boolean; // Score stored ForecastWeekly rows (default true)
+}
+
+export interface WeeklyBacktestMetrics extends BacktestMetrics {
+  weekStart: string;
+}
+
+export interface ModelBacktest {
+  modelId: string;
+  modelVersion: string;
+  source: 'replay' | 'stored';
+  metrics: BacktestMetrics;
+  weekly: WeeklyBacktestMetrics[];
+}
+
+export interface BacktestResult {
+  weeksEvaluated: string[];
+  models: ModelBacktest[];
+  errors: string[];
+}
+
+// Netflix weeks and our forecast weeks don't start on the same weekday,
+// so realized ranks are matched within +/- 3 days of the forecast week
+const WEEK_MATCH_WINDOW_DAYS = 3;
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Get the rank a title actually achieved in a given week
+ *
+ * Mirrors the forecaster's RANK target: US rank for titles with US history,
+ * global rank otherwise. Titles that didn't chart score as outside the Top 10.
+ */
+async function getRealizedRank(titleId: string, weekStart: Date): Promise<number> {
+  const windowStart = addDays(weekStart, -WEEK_MATCH_WINDOW_DAYS);
+  const windowEnd = addDays(weekStart, WEEK_MATCH_WINDOW_DAYS);
+
+  const usRow = await prisma.netflixWeeklyUS.findFirst({
+    where: { titleId, weekStart: { gte: windowStart, lte: windowEnd } },
+    orderBy: { rank: 'asc' },
+    select: { rank: true },
+  });
+
+  if (usRow) return toScoredRank(usRow.rank);
+
+  const hasUSHistory = await prisma.netflixWeeklyUS.count({
+    where: { titleId, weekStart: { lt: windowStart } },
+  });
+
+  if (hasUSHistory > 0) return toScoredRank(null);
+
+  const globalRow = await prisma.netflixWeeklyGlobal.findFirst({
+    where: { titleId, weekStart: { gte: windowStart, lte: windowEnd } },
+    orderBy: { rank: 'asc' },
+    select: { rank: true },
+  });
+
+  return toScoredRank(globalRow?.rank ?? null);
+}
+
+/**
+ * Summarise scored forecasts overall and per week
+ */
+function summarise(
+  modelId: string,
+  modelVersion: string,
+  source: 'replay' | 'stored',
+  scored: ScoredForecast[]
+): ModelBacktest {
+  const byWeek = new Map<string, ScoredForecast[]>();
+  for (const forecast of scored) {
+    const key = forecast.weekStart.toISOString().split('T')[0];
+    if (!byWeek.has(key)) byWeek.set(key, []);
+    byWeek.get(key)!.push(forecast);
+  }
+
+  const weekly = Array.from(byWeek.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, forecasts]) => ({
+      weekStart,
+      ...calculateBacktestMetrics(forecasts),
+    }));
+
+  return {
+    modelId,
+    modelVersion,
+    source,
+    metrics: calculateBacktestMetrics(scored),
+    weekly,
+  };
+}
+
+/**
+ * Replay models as-of each historical week, one result per model
+ */
+async function replayModels(models: ForecastModel[], weekStarts: Date[], errors: string[]): Promise<ModelBacktest[]> {
+  const scored = new Map<string, ScoredForecast[]>(models.map((m) => [m.id, []]));
+
+  for (const weekStart of weekStarts) {
+    // Same universe and inputs as generateForecastsJob run as of the week's start
+    const subjects = await getForecastSubjects(weekStart);
+    const { inputs, errors: inputErrors } = await buildModelInputs(subjects, weekStart, weekStart);
+    errors.push(...inputErrors);
+    const rankInputs = inputs.filter((input) => input.target === 'RANK');
+
+    console.log(`[backtest] Replaying ${subjects.length} title seasons as of ${weekStart.toISOString().split('T')[0]}`);
+
+    const realized = new Map<string, number>();
+    for (const model of models) {
+      const { forecasts, errors: modelErrors } = await runForecastModel(model, rankInputs);
+      errors.push(...modelErrors.map((e) => `Replay error: ${e}`));
+
+      for (const forecast of forecasts) {
+        try {
+          if (!realized.has(forecast.titleId)) {
+            realized.set(forecast.titleId, await getRealizedRank(forecast.titleId, weekStart));
+          }
+          scored.get(model.id)!.push({
+            titleId: forecast.titleId,
+            weekStart,
+            p10: forecast.p10,
+            p50: forecast.p50,
+            p90: forecast.p90,
+            actualRank: realized.get(forecast.titleId)!,
+          });
+        } catch (error) {
+          errors.push(
+            `Scoring error for replayed ${forecast.titleId}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+  }
+
+  return models.map((model) => summarise(model.id, model.version, 'replay', scored.get(model.id)!));
+}
+
+/**
+ * Score stored RANK forecasts, grouped by the model and version that produced them
+ */
+async function scoreStoredForecasts(weekStarts: Date[], errors: string[]): Promise<ModelBacktest[]> {
+  if (weekStarts.length === 0) return [];
+
+  const earliest = addDays(weekStarts[0], -WEEK_MATCH_WINDOW_DAYS);
+  const latest = addDays(weekStarts[weekStarts.length - 1], WEEK_MATCH_WINDOW_DAYS);
+
+  const stored = await prisma.forecastWeekly.findMany({
+    where: {
+      target: 'RANK',
+      weekStart: { gte: earliest, lte: latest },
+    },
+    select: { titleId: true, weekStart: true, p10: true, p50: true, p90: true, modelId: true, modelVersion: true },
+  });
+
+  const byModel = new Map<string, { modelId: string; modelVersion: string; scored: ScoredForecast[] }>();
+
+  for (const forecast of stored as Array<{
+    titleId: string;
+    weekStart: Date;
+    p10: number;
+    p50: number;
+    p90: number;
+    modelId: string;
+    modelVersion: string;
+  }>) {
+    try {
+      const scored: ScoredForecast = {
+        titleId: forecast.titleId,
+        weekStart: forecast.weekStart,
+        p10: forecast.p10,
+        p50: forecast.p50,
+        p90: forecast.p90,
+        actualRank: await getRealizedRank(forecast.titleId, forecast.weekStart),
+      };
+
+      const key = `${forecast.modelId}@${forecast.modelVersion}`;
+      if (!byModel.has(key)) byModel.set(key, { modelId: forecast.modelId, modelVersion: forecast.modelVersion, scored: [] });
+      byModel.get(key)!.scored.push(scored);
+    } catch (error) {
+      errors.push(
+        `Scoring error for forecast ${forecast.titleId}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return Array.from(byModel.values())
+    .sort((a, b) =>
+      a.modelId.localeCompare(b.modelId) || b.modelVersion.localeCompare(a.modelVersion, undefined, { numeric: true })
+    )
+    .map(({ modelId, modelVersion, scored }) => summarise(modelId, modelVersion, 'stored', scored));
+}
+
+/**
+ * Main backtest function
+ */
+export async function backtestForecasts(options: BacktestOptions = {}): Promise<BacktestResult> {
+  const { weeks = 8, replay = true, includeStored = true, modelId } = options;
+
+  const replayed = modelId ? [getForecastModel(modelId)] : FORECAST_MODELS;
+  if (replayed.some((m) => !m)) {
+    throw new Error(`Unknown forecast model: ${modelId}`);
+  }
+
+  const result: BacktestResult = {
+    weeksEvaluated: [],
+    models: [],
+    errors: [],
+  };
+
+  // Only weeks that have landed can be scored
+  const latestWeeks = await prisma.netflixWeeklyGlobal.findMany({
+    select: { weekStart: true },
+    distinct: ['weekStart'],
+    orderBy: { weekStart: 'desc' },
+    take: weeks,
+  });
+
+  const weekStarts = latestWeeks
+    .map((w: { weekStart: Date }) => w.weekStart)
+    .sort((a: Date, b: Date) => a.getTime() - b.getTime());
+
+  result.weeksEvaluated = weekStarts.map((w: Date) => w.toISOString().split('T')[0]);
+
+  if (replay) {
+    result.models.push(...(await replayModels(replayed as ForecastModel[], weekStarts, result.errors)));
+  }
+
+  if (includeStored) {
+    result.models.push(...(await scoreStoredForecasts(weekStarts, result.errors)));
+  }
+
+  for (const model of result.models) {
+    const m = model.metrics;
+    console.log(
+      `[backtest] ${model.source} ${model.modelId} v${model.modelVersion}: n=${m.forecasts} MAE=${m.mae} ` +
+      `coverage=${m.intervalCoverage} pinball=${m.pinballLoss} #1 hit=${m.top1HitRate} (${m.top1Calls} calls)`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Run job with logging
+ */
+export async function runBacktestJob(options: BacktestOptions = {}): Promise<void> {
+  const startTime = Date.now();
+
+  // Create job run record
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: 'backtest_forecasts',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    console.log('Starting forecast backtest...');
+    const result = await backtestForecasts(options);
+
+    const duration = Date.now() - startTime;
+    console.log(`Backtest complete in ${duration}ms`);
+
+    if (result.errors.length > 0) {
+      console.warn(`Errors (${result.errors.length}):`, result.errors.slice(0, 10));
+    }
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        detailsJson: {
+          durationMs: duration,
+          ...result,
+          errors: result.errors.slice(0, 100),
+        } as object,
+      },
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Backtest failed:', error);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'FAIL',
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+        detailsJson: { durationMs: duration },
+      },
+    });
+
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Allow running directly
+if (require.main === module) {
+  const weeksArg = process.argv.find((a) => a.startsWith('--weeks='))?.split('=')[1];
+  const modelArg = process.argv.find((a) => a.startsWith('--model='))?.split('=')[1];
+  const storedOnly = process.argv.includes('--stored-only');
+
+  runBacktestJob({
+    weeks: weeksArg ? parseInt(weeksArg, 10) : undefined,
+    replay: !storedOnly,
+    modelId: modelArg,
+  })
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
+}
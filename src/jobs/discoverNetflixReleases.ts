@@ -13,7 +13,8 @@ import {
   NetflixRelease,
   getPosterUrl,
 } from '@/lib/tmdbClient';
-import { normalizeTitle } from '@/lib/titleNormalize';
+import { resolveTitle } from '@/lib/titleMatcher';
+import { getTitleIndex } from '@/lib/titleIndexStore';
 
 interface DiscoveryResult {
   upcomingFound: number;
@@ -31,35 +32,8 @@ async function matchToExistingTitle(
   name: string,
   type: TitleType
 ): Promise<string | null> {
-  const normalized = normalizeTitle(name);
-
-  // Try exact match first
-  const exactMatch = await prisma.title.findFirst({
-    where: {
-      type,
-      canonicalName: {
-        equals: name,
-        mode: 'insensitive',
-      },
-    },
-    select: { id: true },
-  });
-
-  if (exactMatch) return exactMatch.id;
-
-  // Try normalized match
-  const titles = await prisma.title.findMany({
-    where: { type },
-    select: { id: true, canonicalName: true },
-  });
-
-  for (const title of titles) {
-    if (normalizeTitle(title.canonicalName) === normalized) {
-      return title.id;
-    }
-  }
-
-  return null;
+  const match = resolveTitle(await getTitleIndex(), name, { type });
+  return match?.titleId ?? null;
 }
 
 /**
@@ -92,6 +66,7 @@ async function processRelease(
       posterUrl: getPosterUrl(release.posterPath),
       popularity: release.popularity,
       voteAverage: release.voteAverage,
+      genres: release.genres,
     };
 
     if (existing) {
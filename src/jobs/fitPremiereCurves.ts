@@ -0,0 +1,267 @@
+/**
+ * Premiere Curve Fitting Job
+ *
+ * Learns how new releases' audiences build and decay over their first
+ * three weeks (premiereCurve.ts):
+ * - Curves: each matched ReleaseCandidate's daily worldwide FlixPatrol
+ *   points from its release date, averaged per title type and per TMDB
+ *   genre. Releases that charted before their release date (an older
+ *   title picked up by discovery) are skipped
+ * - Rank gap: the mean log-views gap between adjacent ranks in recent
+ *   NetflixWeeklyGlobal lists, for turning a views factor into ranks
+ *
+ * Each run adds a set of PremiereCurve rows sharing one fittedAt; live
+ * forecasts read the newest set and as-of forecasts the newest fitted by
+ * their asOf.
+ */
+
+import type { TitleType } from '@prisma/client';
+import {
+  CURVE_DAYS,
+  defaultPremiereCurve,
+  fitLogViewsPerRank,
+  fitPremiereCurve,
+  releaseCurveFromPoints,
+} from '../lib/premiereCurve';
+import { invalidatePremiereCurves } from '../lib/premiereCurveStore';
+
+import prisma from '@/lib/prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Releases and Netflix weeks looked back over
+const RELEASE_LOOKBACK_DAYS = 365;
+const RANK_GAP_WEEKS = 26;
+
+// Days before release a title may already chart (time zones, early drops)
+const EARLY_CHART_DAYS = 1;
+
+export interface FittedCurveSummary {
+  titleType: TitleType;
+  genre: string;
+  releases: number;
+  peakDay: number;           // Day since release with the largest share
+  premiereWeekShare: number; // Share of the first 21 days in days 1–7
+}
+
+export interface PremiereCurveJobResult {
+  releasesFound: number;
+  releasesUsed: number;
+  curves: FittedCurveSummary[];
+  logViewsPerRank: Record<TitleType, number | null>;
+  errors: string[];
+}
+
+interface ReleaseSample {
+  titleType: TitleType;
+  genres: string[];
+  dayShares: number[];
+}
+
+/**
+ * Daily worldwide points from release day for one release, null if it
+ * charted before it was released
+ */
+async function getReleasePoints(titleId: string, titleType: TitleType, releaseDate: Date): Promise<number[] | null> {
+  const release = new Date(Date.UTC(releaseDate.getUTCFullYear(), releaseDate.getUTCMonth(), releaseDate.getUTCDate()));
+
+  const rows = await prisma.flixPatrolDaily.findMany({
+    where: {
+      titleId,
+      region: 'world',
+      category: titleType === 'SHOW' ? 'tv' : 'movies',
+      date: {
+        gte: new Date(release.getTime() - 7 * DAY_MS),
+        lt: new Date(release.getTime() + CURVE_DAYS * DAY_MS),
+      },
+    },
+    select: { date: true, points: true },
+  }) as { date: Date; points: number }[];
+
+  const points = new Array<number>(CURVE_DAYS).fill(0);
+  for (const row of rows) {
+    const day = Math.round((row.date.getTime() - release.getTime()) / DAY_MS);
+    if (day < -EARLY_CHART_DAYS) return null;
+    if (day >= 0) points[day] += row.points;
+  }
+  return points;
+}
+
+/**
+ * Log-views gap per rank for each title type, from recent global lists
+ */
+async function fitRankGaps(): Promise<Record<TitleType, number | null>> {
+  const rows = await prisma.netflixWeeklyGlobal.findMany({
+    where: { weekStart: { gte: new Date(Date.now() - RANK_GAP_WEEKS * 7 * DAY_MS) } },
+    select: { weekStart: true, category: true, rank: true, views: true, title: { select: { type: true } } },
+  }) as { weekStart: Date; category: string; rank: number; views: bigint | null; title: { type: TitleType } }[];
+
+  const lists = new Map<string, { titleType: TitleType; rows: { rank: number; views: number }[] }>();
+  for (const row of rows) {
+    if (row.views === null) continue;
+    const key = `${row.weekStart.toISOString()}:${row.category}`;
+    const list = lists.get(key) ?? { titleType: row.title.type, rows: [] };
+    list.rows.push({ rank: row.rank, views: Number(row.views) });
+    lists.set(key, list);
+  }
+
+  const weeksFor = (titleType: TitleType) =>
+    [...lists.values()].filter((l) => l.titleType === titleType).map((l) => l.rows);
+
+  return {
+    SHOW: fitLogViewsPerRank(weeksFor('SHOW')),
+    MOVIE: fitLogViewsPerRank(weeksFor('MOVIE')),
+  };
+}
+
+/**
+ * Fit and store premiere curves
+ */
+export async function fitPremiereCurves(): Promise<PremiereCurveJobResult> {
+  const result: PremiereCurveJobResult = {
+    releasesFound: 0,
+    releasesUsed: 0,
+    curves: [],
+    logViewsPerRank: { SHOW: null, MOVIE: null },
+    errors: [],
+  };
+
+  // Releases whose first three weeks are over
+  const now = Date.now();
+  const candidates = await prisma.releaseCandidate.findMany({
+    where: {
+      titleId: { not: null },
+      releaseDate: {
+        gte: new Date(now - RELEASE_LOOKBACK_DAYS * DAY_MS),
+        lte: new Date(now - CURVE_DAYS * DAY_MS),
+      },
+    },
+    orderBy: { releaseDate: 'asc' },
+    select: { titleId: true, type: true, releaseDate: true, metadata: true },
+  }) as { titleId: string; type: TitleType; releaseDate: Date; metadata: { genres?: unknown } | null }[];
+
+  // One release per title
+  const releases = [...new Map(candidates.map((c) => [c.titleId, c])).values()];
+  result.releasesFound = releases.length;
+
+  const samples: ReleaseSample[] = [];
+  for (const release of releases) {
+    try {
+      const points = await getReleasePoints(release.titleId, release.type, release.releaseDate);
+      const dayShares = points && releaseCurveFromPoints(points);
+      if (!dayShares) continue;
+
+      const genres = Array.isArray(release.metadata?.genres)
+        ? release.metadata!.genres.filter((g): g is string => typeof g === 'string')
+        : [];
+      samples.push({ titleType: release.type, genres, dayShares });
+    } catch (error) {
+      result.errors.push(`${release.titleId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  result.releasesUsed = samples.length;
+
+  result.logViewsPerRank = await fitRankGaps();
+
+  // A curve per type, and per genre within it
+  const groups = new Map<string, { titleType: TitleType; genre: string; shares: number[][] }>();
+  for (const sample of samples) {
+    for (const genre of ['', ...sample.genres]) {
+      const key = `${sample.titleType}:${genre}`;
+      const group = groups.get(key) ?? { titleType: sample.titleType, genre, shares: [] };
+      group.shares.push(sample.dayShares);
+      groups.set(key, group);
+    }
+  }
+  for (const titleType of ['SHOW', 'MOVIE'] as TitleType[]) {
+    if (!groups.has(`${titleType}:`)) groups.set(`${titleType}:`, { titleType, genre: '', shares: [] });
+  }
+
+  const fittedAt = new Date(now);
+  const rows = [];
+  for (const group of groups.values()) {
+    const fit = fitPremiereCurve(group.shares, defaultPremiereCurve(group.titleType));
+    rows.push({
+      titleType: group.titleType,
+      genre: group.genre,
+      dayShares: fit.dayShares,
+      releases: fit.releases,
+      logViewsPerRank: result.logViewsPerRank[group.titleType],
+      fittedAt,
+    });
+
+    result.curves.push({
+      titleType: group.titleType,
+      genre: group.genre,
+      releases: fit.releases,
+      peakDay: fit.dayShares.indexOf(Math.max(...fit.dayShares)) + 1,
+      premiereWeekShare: Math.round(fit.dayShares.slice(0, 7).reduce((sum, s) => sum + s, 0) * 1000) / 1000,
+    });
+  }
+
+  // Earlier fits are kept for as-of forecasts
+  await prisma.premiereCurve.createMany({ data: rows });
+  invalidatePremiereCurves();
+
+  result.curves.sort((a, b) => a.titleType.localeCompare(b.titleType) || b.releases - a.releases);
+  return result;
+}
+
+/**
+ * Run job with logging
+ */
+export async function runFitPremiereCurvesJob(): Promise<void> {
+  const startTime = Date.now();
+
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: 'fit_premiere_curves',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    console.log('Fitting premiere curves...');
+    const result = await fitPremiereCurves();
+
+    const duration = Date.now() - startTime;
+    console.log(`Fitted ${result.curves.length} curves from ${result.releasesUsed}/${result.releasesFound} releases in ${duration}ms`);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        detailsJson: {
+          durationMs: duration,
+          ...result,
+          errors: result.errors.slice(0, 100),
+        } as object,
+      },
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Premiere curve fit failed:', error);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'FAIL',
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+        detailsJson: { durationMs: duration },
+      },
+    });
+
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Allow running directly
+if (require.main === module) {
+  runFitPremiereCurvesJob()
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
+}
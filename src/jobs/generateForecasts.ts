@@ -2,15 +2,35 @@
  * Forecast Generation Job
  *
  * Runs daily to generate forecasts for upcoming week.
- * Uses feature data and historical patterns.
+ * Uses feature data and historical patterns. Every registered forecast
+ * model runs over the same inputs and is stored as its own run; only the
+ * champion's forecasts go live. Given an asOf date it replays the run as it
+ * would have gone then, stored as a new version without touching the live
+ * forecasts.
  */
 
 
-import { generateAllForecasts, saveForecasts, MODEL_VERSION } from '../lib/forecaster';
+import { getForecastSubjects, saveForecasts } from '../lib/forecaster';
+import { FORECAST_MODELS, buildModelInputs, getChampionModelId, runForecastModel } from '../lib/forecastModels';
+import { evaluateAlertsAfterJob } from '../lib/alertEngine';
 
 import prisma from '@/lib/prisma';
 
+interface ModelRunSummary {
+  modelId: string;
+  modelVersion: string;
+  champion: boolean;
+  runId: string | null;
+  forecastsGenerated: number;
+  forecastsSaved: number;
+}
+
+// Top-level counts and runId describe the champion's run
 interface ForecastJobResult {
+  runId: string | null;
+  asOf: string | null;
+  championModelId: string | null;
+  models: ModelRunSummary[];
   forecastsGenerated: number;
   forecastsSaved: number;
   titlesProcessed: number;
@@ -18,10 +38,9 @@ interface ForecastJobResult {
 }
 
 /**
- * Get the start of next week (Sunday)
+ * Get the start of the week after a date (Sunday)
  */
-function getNextWeekStart(): Date {
-  const now = new Date();
+function getNextWeekStart(now: Date = new Date()): Date {
   const dayOfWeek = now.getDay();
   const daysUntilSunday = (7 - dayOfWeek) % 7 || 7;
 
@@ -34,9 +53,15 @@ function getNextWeekStart(): Date {
 
 /**
  * Main job function
+ *
+ * @param asOf - Regenerate as of this past date instead of now
  */
-export async function generateForecastsJob(): Promise<ForecastJobResult> {
+export async function generateForecastsJob(asOf?: Date): Promise<ForecastJobResult> {
   const result: ForecastJobResult = {
+    runId: null,
+    asOf: asOf ? asOf.toISOString() : null,
+    championModelId: null,
+    models: [],
     forecastsGenerated: 0,
     forecastsSaved: 0,
     titlesProcessed: 0,
@@ -45,23 +70,57 @@ export async function generateForecastsJob(): Promise<ForecastJobResult> {
 
   try {
     // Target next week for forecasts
-    const targetWeekStart = getNextWeekStart();
-    console.log(`Generating forecasts for week starting ${targetWeekStart.toISOString().split('T')[0]}`);
-
-    // Generate all forecasts
-    const { forecasts, errors } = await generateAllForecasts(targetWeekStart);
-    result.forecastsGenerated = forecasts.length;
+    const targetWeekStart = getNextWeekStart(asOf);
+    console.log(
+      `Generating forecasts for week starting ${targetWeekStart.toISOString().split('T')[0]}` +
+      (asOf ? ` as of ${asOf.toISOString()}` : '')
+    );
+
+    const championModelId = await getChampionModelId();
+    result.championModelId = championModelId;
+
+    // Load history and features once for all models
+    const subjects = await getForecastSubjects(asOf);
+    console.log(`Loading inputs for ${subjects.length} title seasons...`);
+    const { inputs, errors } = await buildModelInputs(subjects, targetWeekStart, asOf);
     result.errors.push(...errors);
 
-    // Count unique titles
-    const uniqueTitles = new Set(forecasts.map((f) => f.titleId));
-    result.titlesProcessed = uniqueTitles.size;
-
-    // Save forecasts
-    result.forecastsSaved = await saveForecasts(forecasts);
+    for (const model of FORECAST_MODELS) {
+      const champion = model.id === championModelId;
+      const { forecasts, errors: modelErrors } = await runForecastModel(model, inputs);
+      result.errors.push(...modelErrors);
+
+      // Save forecasts as a new run
+      const saved = await saveForecasts(forecasts, {
+        targetWeekStart,
+        asOf,
+        modelId: model.id,
+        modelVersion: model.version,
+        champion,
+      });
+
+      result.models.push({
+        modelId: model.id,
+        modelVersion: model.version,
+        champion,
+        runId: saved.runId,
+        forecastsGenerated: forecasts.length,
+        forecastsSaved: saved.saved,
+      });
+
+      if (champion) {
+        result.runId = saved.runId;
+        result.forecastsGenerated = forecasts.length;
+        result.forecastsSaved = saved.saved;
+        result.titlesProcessed = new Set(forecasts.map((f) => f.titleId)).size;
+      }
+
+      console.log(
+        `${model.id}${champion ? ' (champion)' : ''}: generated ${forecasts.length} forecasts, saved ${saved.saved}`
+      );
+    }
 
-    console.log(`Generated ${result.forecastsGenerated} forecasts for ${result.titlesProcessed} titles`);
-    console.log(`Saved ${result.forecastsSaved} forecasts to database`);
+    console.log(`Champion ${championModelId} forecast ${result.titlesProcessed} titles`);
   } catch (error) {
     result.errors.push(`Fatal error: ${error instanceof Error ? error.message : String(error)}`);
     throw error;
@@ -103,12 +162,14 @@ export async function runForecastJob(): Promise<void> {
         finishedAt: new Date(),
         detailsJson: {
           durationMs: duration,
-          modelVersion: MODEL_VERSION,
+          modelVersion: result.models.find((m) => m.champion)?.modelVersion,
           ...result,
           errors: result.errors.slice(0, 100),
         },
       },
     });
+
+    await evaluateAlertsAfterJob('generate_forecasts', jobRun.id);
   } catch (error) {
     const duration = Date.now() - startTime;
     console.error('Forecast generation failed:', error);
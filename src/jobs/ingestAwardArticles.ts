@@ -1,59 +1,17 @@
 /**
  * Award Articles Ingestion Job
  *
- * Fetches Golden Globes prediction articles from major entertainment sources
- * and uses AI to extract structured predictions mapped to categories.
+ * Fetches prediction articles for every UPCOMING and ACTIVE AwardShow from
+ * its article sources (edited at /admin/awards) and uses AI to extract
+ * structured predictions mapped to the show's categories.
  */
 
 import prisma from '@/lib/prisma';
 import { analyzeArticle, ArticleAnalysis, CategoryPrediction } from '@/lib/articleAnalyzer';
-
-/**
- * Known prediction article sources for Golden Globes 2026
- */
-const ARTICLE_SOURCES: Array<{
-  source: string;
-  title: string;
-  url: string;
-}> = [
-  {
-    source: 'Variety',
-    title: 'Golden Globes Predictions 2026: Winners That Could Make History',
-    url: 'https://variety.com/2026/film/awards/golden-globes-predictions-winners-2026-history-upsets-1236625141/',
-  },
-  {
-    source: 'Variety',
-    title: '2026 Golden Globes Predictions in Every Category',
-    url: 'https://variety.com/lists/2026-golden-globes-predictions/',
-  },
-  {
-    source: 'Variety',
-    title: 'Golden Globes 2026 Analysis: Oscar Season Contenders Gaining Momentum',
-    url: 'https://variety.com/2025/film/awards/golden-globes-2026-oscars-analysis-international-breakdown-1236603434/',
-  },
-  {
-    source: 'Awards Daily',
-    title: 'Predict the 2026 Golden Globe Winners',
-    url: 'https://www.awardsdaily.com/2025/12/16/contest-alert-2026-predict-the-golden-globe-winners-open-for-business/',
-  },
-  {
-    source: 'Gold Derby',
-    title: 'Golden Globes 2026 Predictions: Best Scores by Experts',
-    url: 'https://www.goldderby.com/film/2025/golden-globes-2026-nominations-best-prediction-scores/',
-  },
-  {
-    source: 'Award Expert',
-    title: '2026 Golden Globes Predictions in All Categories',
-    url: 'https://awardexpert.media/golden-globes',
-  },
-  {
-    source: 'StyleRave',
-    title: 'Golden Globes 2026 Predictions: Sinners Leads The Pack',
-    url: 'https://www.stylerave.com/golden-globes-2026-predictions/',
-  },
-];
+import { getTrackedAwardShows, TrackedAwardShow } from '@/lib/awardShowStore';
 
 export interface ArticleIngestionResult {
+  showsProcessed: number;
   articlesProcessed: number;
   articlesAdded: number;
   predictionsExtracted: number;
@@ -179,37 +137,18 @@ function mapCategoryToDb(analysisCategory: string, dbCategories: Array<{ id: str
 }
 
 /**
- * Main ingestion function
+ * Fetch and analyze a show's article sources that haven't been stored yet
  */
-export async function ingestAwardArticles(): Promise<ArticleIngestionResult> {
-  const result: ArticleIngestionResult = {
-    articlesProcessed: 0,
-    articlesAdded: 0,
-    predictionsExtracted: 0,
-    errors: [],
-  };
-
-  console.log('\n📰 Starting Award Articles Ingestion\n');
-
-  // Get the Golden Globes 2026 show
-  const show = await prisma.awardShow.findFirst({
-    where: { slug: 'golden-globes-2026' },
-    include: {
-      categories: {
-        select: { id: true, name: true, slug: true },
-      },
-    },
-  });
+async function ingestShowArticles(show: TrackedAwardShow, result: ArticleIngestionResult): Promise<void> {
+  console.log(`Found show: ${show.name} with ${show.categories.length} categories and ${show.articleSources.length} article sources\n`);
 
-  if (!show) {
-    result.errors.push('Golden Globes 2026 show not found');
-    return result;
+  if (show.categories.length === 0) {
+    console.log('   ⏭️ No categories to map predictions to, skipping...');
+    return;
   }
 
-  console.log(`Found show: ${show.name} with ${show.categories.length} categories\n`);
-
   // Process each article source
-  for (const articleInfo of ARTICLE_SOURCES) {
+  for (const articleInfo of show.articleSources) {
     result.articlesProcessed++;
     console.log(`\n📄 Processing: ${articleInfo.title}`);
     console.log(`   Source: ${articleInfo.source}`);
@@ -239,7 +178,10 @@ export async function ingestAwardArticles(): Promise<ArticleIngestionResult> {
     let analysis: ArticleAnalysis;
     try {
       console.log('   🤖 Analyzing with Claude...');
-      analysis = await analyzeArticle(content, articleInfo.title, articleInfo.source);
+      analysis = await analyzeArticle(content, articleInfo.title, articleInfo.source, {
+        showName: show.name,
+        categories: show.categories.map(c => c.name),
+      });
       console.log(`   ✅ Extracted ${analysis.predictions.length} predictions`);
 
       for (const pred of analysis.predictions) {
@@ -301,6 +243,11 @@ export async function ingestAwardArticles(): Promise<ArticleIngestionResult> {
     console.log(`   💾 Saved article ID: ${article.id}`);
     result.articlesAdded++;
 
+    await prisma.awardArticleSource.update({
+      where: { id: articleInfo.id },
+      data: { lastFetchedAt: new Date() },
+    });
+
     // Also create per-category article entries for easier querying
     for (const mp of mappedPredictions) {
       await prisma.awardArticle.upsert({
@@ -340,6 +287,32 @@ export async function ingestAwardArticles(): Promise<ArticleIngestionResult> {
     // Rate limiting between articles
     await new Promise(resolve => setTimeout(resolve, 2000));
   }
+}
+
+/**
+ * Main ingestion function
+ */
+export async function ingestAwardArticles(): Promise<ArticleIngestionResult> {
+  const result: ArticleIngestionResult = {
+    showsProcessed: 0,
+    articlesProcessed: 0,
+    articlesAdded: 0,
+    predictionsExtracted: 0,
+    errors: [],
+  };
+
+  console.log('\n📰 Starting Award Articles Ingestion\n');
+
+  const shows = await getTrackedAwardShows();
+  for (const show of shows) {
+    try {
+      await ingestShowArticles(show, result);
+      result.showsProcessed++;
+    } catch (error) {
+      console.error(`Error ingesting articles for ${show.slug}:`, error);
+      result.errors.push(`${show.slug}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
   return result;
 }
@@ -349,6 +322,7 @@ if (require.main === module) {
   ingestAwardArticles()
     .then(result => {
       console.log('\n📊 Ingestion Complete!\n');
+      console.log(`  Shows processed: ${result.showsProcessed}`);
       console.log(`  Articles processed: ${result.articlesProcessed}`);
       console.log(`  Articles added: ${result.articlesAdded}`);
       console.log(`  Predictions extracted: ${result.predictionsExtracted}`);
@@ -1,14 +1,17 @@
 /**
  * Awards Polymarket Ingestion Job
  *
- * Discovers and syncs Golden Globes (and other award) markets from Polymarket.
- * Creates/updates AwardShow, AwardCategory, AwardNominee, and AwardOdds records.
- *
- * Now auto-discovers ALL markets with "golden-globes" in the slug.
+ * Syncs award markets from Polymarket for every UPCOMING and ACTIVE AwardShow.
+ * A show's events are its extra polymarketEventSlugs plus each category's
+ * polymarketSlug (both edited at /admin/awards). Creates/updates
+ * AwardCategory, AwardNominee, and AwardOdds records. Shows are marked
+ * COMPLETED by resolveAwardShows once their winners are in.
  */
 
 import prisma from '@/lib/prisma';
 import { OddsSource, AwardShowStatus } from '@prisma/client';
+import { categoryNameFromEventTitle, showEventSlugs, slugify } from '@/lib/awardShows';
+import { getTrackedAwardShows, TrackedAwardShow } from '@/lib/awardShowStore';
 
 const GAMMA_API = 'https://gamma-api.polymarket.com';
 
@@ -21,9 +24,10 @@ interface PolymarketMarket {
   volume: string;
   volumeNum: number;
   active: boolean;
+  closed?: boolean;
 }
 
-interface PolymarketEvent {
+export interface PolymarketEvent {
   id: string;
   slug: string;
   title: string;
@@ -34,52 +38,10 @@ interface PolymarketEvent {
   endDate?: string;
 }
 
-// Known Golden Globes market slugs (scraped from Polymarket)
-const GOLDEN_GLOBES_SLUGS = [
-  'golden-globes-best-actor-drama-winner',
-  'golden-globes-best-actor-musical-or-comedy-winner',
-  'golden-globes-best-actor-television-musical-or-comedy-winner',
-  'golden-globes-best-actress-limited-series-winner',
-  'golden-globes-best-actress-television-drama-winner',
-  'golden-globes-best-director-winner',
-  'golden-globes-best-motion-picture-animated-winner',
-  'golden-globes-best-motion-picture-drama-winner',
-  'golden-globes-best-motion-picture-musical-or-comedy-winner',
-  'golden-globes-best-motion-picture-non-english-language-winner',
-  'golden-globes-best-original-song-motion-picture-winner',
-  'golden-globes-best-performance-in-stand-up-comedy-on-television-winner',
-  'golden-globes-best-screenplay-motion-picture-winner',
-  'golden-globes-best-supporting-actor-motion-picture-winner',
-  'golden-globes-best-supporting-actor-television-winner',
-  'golden-globes-best-supporting-actress-motion-picture-winner',
-  'golden-globes-best-supporting-actress-television-winner',
-  'golden-globes-best-television-series-comedy-or-musical-winner',
-  'golden-globes-best-television-series-drama-winner',
-  'golden-globes-cinematic-and-box-office-achievement-winner',
-  // Additional categories that may exist
-  'golden-globes-best-actress-drama-winner',
-  'golden-globes-best-actress-musical-or-comedy-winner',
-  'golden-globes-best-actor-limited-series-winner',
-  'golden-globes-best-actor-television-drama-winner',
-  'golden-globes-best-actress-television-musical-or-comedy-winner',
-  'golden-globes-best-limited-series-winner',
-  'golden-globes-best-original-score-winner',
-];
-
-// Award show configurations
-const AWARD_SHOWS = [
-  {
-    name: 'Golden Globes 2026',
-    slug: 'golden-globes-2026',
-    ceremonyDate: new Date('2026-01-11'),
-    marketSlugs: GOLDEN_GLOBES_SLUGS,
-  },
-];
-
 /**
  * Fetch events by their exact slugs
  */
-async function fetchEventsBySlugs(slugs: string[]): Promise<PolymarketEvent[]> {
+export async function fetchEventsBySlugs(slugs: string[]): Promise<PolymarketEvent[]> {
   const events: PolymarketEvent[] = [];
 
   for (const slug of slugs) {
@@ -110,20 +72,6 @@ async function fetchEventsBySlugs(slugs: string[]): Promise<PolymarketEvent[]> {
   return events;
 }
 
-/**
- * Extract category name from event title
- * e.g., "Golden Globes: Best Actor - Drama Winner" -> "Best Actor - Drama"
- */
-function extractCategoryName(title: string): string {
-  // Remove "Golden Globes: " prefix and " Winner" suffix
-  let name = title
-    .replace(/^Golden Globes:\s*/i, '')
-    .replace(/\s*Winner$/i, '')
-    .trim();
-
-  return name || title;
-}
-
 function parseNominees(event: PolymarketEvent): Array<{ name: string; subtitle: string | null; probability: number; volume: number }> {
   const nominees: Array<{ name: string; subtitle: string | null; probability: number; volume: number }> = [];
 
@@ -160,13 +108,6 @@ function parseNominees(event: PolymarketEvent): Array<{ name: string; subtitle:
   return nominees;
 }
 
-function slugify(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '');
-}
-
 export interface AwardsIngestionResult {
   showsProcessed: number;
   categoriesFound: number;
@@ -176,156 +117,159 @@ export interface AwardsIngestionResult {
   errors: string[];
 }
 
-export async function ingestAwardsPolymarket(): Promise<AwardsIngestionResult> {
-  const result: AwardsIngestionResult = {
-    showsProcessed: 0,
-    categoriesFound: 0,
-    categoriesCreated: 0,
-    nomineesCreated: 0,
-    oddsUpdated: 0,
-    errors: [],
-  };
+/**
+ * Sync one show's events into categories, nominees and odds
+ */
+async function syncShow(show: TrackedAwardShow, result: AwardsIngestionResult): Promise<void> {
+  const slugs = showEventSlugs(show.polymarketEventSlugs, show.categories);
+  if (slugs.length === 0) {
+    console.log(`  No Polymarket events configured for ${show.name}`);
+  }
 
-  for (const showConfig of AWARD_SHOWS) {
-    console.log(`\n📺 Processing ${showConfig.name}...`);
+  const events = await fetchEventsBySlugs(slugs);
+  console.log(`  Fetched ${events.length} markets for ${show.name}`);
 
-    // Upsert the award show
-    // Only mark as COMPLETED if we're 24+ hours past the ceremony date
-    // This gives buffer for the ceremony to actually finish (evening US time)
-    const now = new Date();
-    const ceremonyEndBuffer = new Date(showConfig.ceremonyDate);
-    ceremonyEndBuffer.setHours(ceremonyEndBuffer.getHours() + 24);
-    const isCompleted = now > ceremonyEndBuffer;
+  const status = events.length > 0 ? AwardShowStatus.ACTIVE : show.status;
+  if (status !== show.status) {
+    await prisma.awardShow.update({ where: { id: show.id }, data: { status } });
+    console.log(`  Status: ${show.status} → ${status}`);
+  }
 
-    const show = await prisma.awardShow.upsert({
-      where: { slug: showConfig.slug },
+  let nextDisplayOrder = show.categories.reduce((max, c) => Math.max(max, c.displayOrder + 1), 0);
+
+  // Process each event as a category
+  for (const event of events) {
+    const configured = show.categories.find((c) => c.polymarketSlug === event.slug);
+    const categoryName = configured?.name ?? categoryNameFromEventTitle(event.title);
+    console.log(`  Processing: ${categoryName}...`);
+
+    result.categoriesFound++;
+
+    const nominees = parseNominees(event);
+    if (nominees.length === 0) {
+      console.log(`    ⚠️ No nominees found`);
+      continue;
+    }
+
+    // Categories set up in admin keep their name and order; new events
+    // become categories at the end of the show
+    const categorySlug = configured?.slug ?? slugify(categoryName);
+    const category = await prisma.awardCategory.upsert({
+      where: {
+        showId_slug: {
+          showId: show.id,
+          slug: categorySlug,
+        },
+      },
       create: {
-        name: showConfig.name,
-        slug: showConfig.slug,
-        ceremonyDate: showConfig.ceremonyDate,
-        status: isCompleted ? AwardShowStatus.COMPLETED : AwardShowStatus.ACTIVE,
+        showId: show.id,
+        name: categoryName,
+        slug: categorySlug,
+        polymarketSlug: event.slug,
+        polymarketUrl: `https://polymarket.com/event/${event.slug}`,
+        displayOrder: nextDisplayOrder++,
       },
       update: {
-        status: isCompleted ? AwardShowStatus.COMPLETED : AwardShowStatus.ACTIVE,
+        polymarketSlug: event.slug,
+        polymarketUrl: `https://polymarket.com/event/${event.slug}`,
       },
     });
 
-    result.showsProcessed++;
-
-    // Fetch all events by their known slugs
-    const events = await fetchEventsBySlugs(showConfig.marketSlugs);
-    console.log(`  Fetched ${events.length} markets for ${showConfig.name}`);
+    result.categoriesCreated++;
+    console.log(`    ✅ ${categoryName} (${nominees.length} nominees, ${event.closed ? 'CLOSED' : 'OPEN'})`);
 
-    // Process each discovered event as a category
-    for (let i = 0; i < events.length; i++) {
-      const event = events[i];
+    // Process nominees
+    for (const nomineeData of nominees) {
+      // Check if winner (probability = 1 and market closed)
+      const isWinner = event.closed && nomineeData.probability >= 0.99;
 
-      // Extract category name from title
-      const categoryName = extractCategoryName(event.title);
-      console.log(`  Processing: ${categoryName}...`);
-
-      result.categoriesFound++;
+      // Upsert nominee
+      const existingNominee = await prisma.awardNominee.findFirst({
+        where: {
+          categoryId: category.id,
+          name: nomineeData.name,
+        },
+      });
 
-      const nominees = parseNominees(event);
-      if (nominees.length === 0) {
-        console.log(`    ⚠️ No nominees found`);
-        continue;
+      let nominee;
+      if (existingNominee) {
+        nominee = await prisma.awardNominee.update({
+          where: { id: existingNominee.id },
+          data: {
+            subtitle: nomineeData.subtitle,
+            isWinner,
+          },
+        });
+      } else {
+        nominee = await prisma.awardNominee.create({
+          data: {
+            categoryId: category.id,
+            name: nomineeData.name,
+            subtitle: nomineeData.subtitle,
+            isWinner,
+          },
+        });
+        result.nomineesCreated++;
       }
 
-      // Upsert category
-      const categorySlug = slugify(categoryName);
-      const category = await prisma.awardCategory.upsert({
+      // Upsert odds
+      await prisma.awardOdds.upsert({
         where: {
-          showId_slug: {
-            showId: show.id,
-            slug: categorySlug,
+          nomineeId_source: {
+            nomineeId: nominee.id,
+            source: OddsSource.POLYMARKET,
           },
         },
         create: {
-          showId: show.id,
-          name: categoryName,
-          slug: categorySlug,
-          polymarketSlug: event.slug,
-          polymarketUrl: `https://polymarket.com/event/${event.slug}`,
-          displayOrder: i,
+          nomineeId: nominee.id,
+          source: OddsSource.POLYMARKET,
+          probability: nomineeData.probability,
+          url: `https://polymarket.com/event/${event.slug}`,
         },
         update: {
-          polymarketSlug: event.slug,
-          polymarketUrl: `https://polymarket.com/event/${event.slug}`,
+          probability: nomineeData.probability,
+          fetchedAt: new Date(),
         },
       });
 
-      result.categoriesCreated++;
-      console.log(`    ✅ ${categoryName} (${nominees.length} nominees, ${event.closed ? 'CLOSED' : 'OPEN'})`);
-
-      // Process nominees
-      for (const nomineeData of nominees) {
-        // Check if winner (probability = 1 and market closed)
-        const isWinner = event.closed && nomineeData.probability >= 0.99;
+      result.oddsUpdated++;
 
-        // Upsert nominee
-        const existingNominee = await prisma.awardNominee.findFirst({
-          where: {
-            categoryId: category.id,
-            name: nomineeData.name,
-          },
-        });
+      // Create snapshot for historical tracking
+      await prisma.awardOddsSnapshot.create({
+        data: {
+          nomineeId: nominee.id,
+          source: OddsSource.POLYMARKET,
+          probability: nomineeData.probability,
+        },
+      });
+    }
 
-        let nominee;
-        if (existingNominee) {
-          nominee = await prisma.awardNominee.update({
-            where: { id: existingNominee.id },
-            data: {
-              subtitle: nomineeData.subtitle,
-              isWinner,
-            },
-          });
-        } else {
-          nominee = await prisma.awardNominee.create({
-            data: {
-              categoryId: category.id,
-              name: nomineeData.name,
-              subtitle: nomineeData.subtitle,
-              isWinner,
-            },
-          });
-          result.nomineesCreated++;
-        }
-
-        // Upsert odds
-        await prisma.awardOdds.upsert({
-          where: {
-            nomineeId_source: {
-              nomineeId: nominee.id,
-              source: OddsSource.POLYMARKET,
-            },
-          },
-          create: {
-            nomineeId: nominee.id,
-            source: OddsSource.POLYMARKET,
-            probability: nomineeData.probability,
-            url: `https://polymarket.com/event/${event.slug}`,
-          },
-          update: {
-            probability: nomineeData.probability,
-            fetchedAt: new Date(),
-          },
-        });
+    // Rate limit between categories
+    await new Promise(r => setTimeout(r, 200));
+  }
+}
 
-        result.oddsUpdated++;
+export async function ingestAwardsPolymarket(): Promise<AwardsIngestionResult> {
+  const result: AwardsIngestionResult = {
+    showsProcessed: 0,
+    categoriesFound: 0,
+    categoriesCreated: 0,
+    nomineesCreated: 0,
+    oddsUpdated: 0,
+    errors: [],
+  };
 
-        // Create snapshot for historical tracking
-        await prisma.awardOddsSnapshot.create({
-          data: {
-            nomineeId: nominee.id,
-            source: OddsSource.POLYMARKET,
-            probability: nomineeData.probability,
-          },
-        });
-      }
+  const shows = await getTrackedAwardShows();
+  console.log(`Found ${shows.length} upcoming/active award shows`);
 
-      // Rate limit between categories
-      await new Promise(r => setTimeout(r, 200));
+  for (const show of shows) {
+    console.log(`\n📺 Processing ${show.name}...`);
+    try {
+      await syncShow(show, result);
+      result.showsProcessed++;
+    } catch (error) {
+      console.error(`Error syncing ${show.slug}:`, error);
+      result.errors.push(`${show.slug}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -10,7 +10,9 @@
 
 import axios from 'axios';
 import prisma from '@/lib/prisma';
-import { normalizeTitle } from '@/lib/titleNormalize';
+import { resolveTitle } from '@/lib/titleMatcher';
+import { getTitleIndex } from '@/lib/titleIndexStore';
+import { resolveSeason, NO_SEASON } from '@/lib/seasons';
 
 const FLIXPATROL_BASE_URL = 'https://flixpatrol.com';
 
@@ -132,40 +134,12 @@ async function matchTitle(
   category: 'tv' | 'movies'
 ): Promise<string | null> {
   const titleType = category === 'tv' ? 'SHOW' : 'MOVIE';
+  const match = resolveTitle(await getTitleIndex(), titleName, { type: titleType });
 
-  // Normalize the incoming title name for matching
-  const normalizedInput = normalizeTitle(titleName, titleType);
-
-  // Try exact match first
-  const exactMatch = await prisma.title.findFirst({
-    where: {
-      type: titleType,
-      canonicalName: {
-        equals: titleName,
-        mode: 'insensitive',
-      },
-    },
-    select: { id: true },
-  });
-
-  if (exactMatch) return exactMatch.id;
-
-  // Try normalized match - compare the .normalized string property
-  const titles = await prisma.title.findMany({
-    where: { type: titleType },
-    select: { id: true, canonicalName: true },
-  });
-
-  for (const title of titles) {
-    const normalizedExisting = normalizeTitle(title.canonicalName, titleType);
-    // Compare the normalized strings (lowercase alphanumeric only)
-    if (normalizedExisting.normalized === normalizedInput.normalized) {
-      console.log(`  Matched "${titleName}" → "${title.canonicalName}" via normalization`);
-      return title.id;
-    }
+  if (match && match.reason !== 'EXACT') {
+    console.log(`  Matched "${titleName}" → "${match.canonicalName}" (${match.reason})`);
   }
-
-  return null;
+  return match?.titleId ?? null;
 }
 
 /**
@@ -200,6 +174,10 @@ async function ingestFlixPatrolForRegion(
     for (const entry of tvShows) {
       try {
         const titleId = await matchTitle(entry.titleName, 'tv');
+        // FlixPatrol lists shows by bare name, so credit the latest season
+        const { seasonId } = titleId
+          ? await resolveSeason(titleId, entry.titleName, { defaultToLatest: true })
+          : NO_SEASON;
 
         await prisma.flixPatrolDaily.upsert({
           where: {
@@ -221,12 +199,14 @@ async function ingestFlixPatrolForRegion(
             titleName: entry.titleName,
             titleSlug: entry.titleSlug,
             titleId,
+            seasonId,
           },
           update: {
             points: entry.points,
             titleName: entry.titleName,
             titleSlug: entry.titleSlug,
             titleId,
+            seasonId,
           },
         });
 
@@ -7,7 +7,9 @@
 
 import axios, { AxiosInstance } from 'axios';
 import prisma from '@/lib/prisma';
-import { normalizeTitle } from '@/lib/titleNormalize';
+import { resolveTitle } from '@/lib/titleMatcher';
+import { getTitleIndex } from '@/lib/titleIndexStore';
+import { resolveSeason, NO_SEASON } from '@/lib/seasons';
 
 const FLIXPATROL_API_BASE = 'https://api.flixpatrol.com/v2';
 const NETFLIX_COMPANY_ID = 'cmp_IA6TdMqwf6kuyQvxo9bJ4nKX';
@@ -150,66 +152,20 @@ async function matchTitle(
   category: 'tv' | 'movies'
 ): Promise<string | null> {
   const titleType = category === 'tv' ? 'SHOW' : 'MOVIE';
-
-  // Try IMDB ID match first (most reliable)
-  if (flixPatrolTitle.imdbId) {
-    const imdbMatch = await prisma.title.findFirst({
-      where: {
-        externalIds: {
-          some: {
-            provider: 'imdb',
-            externalId: `tt${flixPatrolTitle.imdbId}`,
-          },
-        },
-      },
-      select: { id: true },
-    });
-    if (imdbMatch) return imdbMatch.id;
-  }
-
-  // Try TMDB ID match
-  if (flixPatrolTitle.tmdbId) {
-    const tmdbMatch = await prisma.title.findFirst({
-      where: {
-        externalIds: {
-          some: {
-            provider: 'tmdb',
-            externalId: String(flixPatrolTitle.tmdbId),
-          },
-        },
-      },
-      select: { id: true },
-    });
-    if (tmdbMatch) return tmdbMatch.id;
+  const index = await getTitleIndex();
+
+  // Try IMDB ID first (most reliable), then TMDB ID
+  const externalIds = [
+    flixPatrolTitle.imdbId ? { provider: 'imdb', externalId: `tt${flixPatrolTitle.imdbId}` } : null,
+    flixPatrolTitle.tmdbId ? { provider: 'tmdb', externalId: String(flixPatrolTitle.tmdbId) } : null,
+  ];
+  for (const externalId of externalIds) {
+    if (!externalId) continue;
+    const match = resolveTitle(index, flixPatrolTitle.title, { externalId, fuzzy: false });
+    if (match?.reason === 'EXTERNAL_ID') return match.titleId;
   }
 
-  // Try exact name match
-  const exactMatch = await prisma.title.findFirst({
-    where: {
-      type: titleType,
-      canonicalName: {
-        equals: flixPatrolTitle.title,
-        mode: 'insensitive',
-      },
-    },
-    select: { id: true },
-  });
-  if (exactMatch) return exactMatch.id;
-
-  // Try normalized name match
-  const normalized = normalizeTitle(flixPatrolTitle.title);
-  const titles = await prisma.title.findMany({
-    where: { type: titleType },
-    select: { id: true, canonicalName: true },
-  });
-
-  for (const title of titles) {
-    if (normalizeTitle(title.canonicalName) === normalized) {
-      return title.id;
-    }
-  }
-
-  return null;
+  return resolveTitle(index, flixPatrolTitle.title, { type: titleType })?.titleId ?? null;
 }
 
 /**
@@ -251,6 +207,10 @@ async function ingestFlixPatrolAPIForRegion(
         if (!fpTitle) continue;
 
         const titleId = await matchTitle(fpTitle, 'tv');
+        // FlixPatrol lists shows by bare name, so credit the latest season
+        const { seasonId } = titleId
+          ? await resolveSeason(titleId, fpTitle.title, { defaultToLatest: true })
+          : NO_SEASON;
 
         // Create slug from title
         const titleSlug = fpTitle.title
@@ -278,12 +238,14 @@ async function ingestFlixPatrolAPIForRegion(
             titleName: fpTitle.title,
             titleSlug,
             titleId,
+            seasonId,
           },
           update: {
             points: entry.value,
             titleName: fpTitle.title,
             titleSlug,
             titleId,
+            seasonId,
           },
         });
 
@@ -3,15 +3,28 @@
  *
  * Downloads and parses Netflix Top 10 XLSX files:
  * - all-weeks-global.xlsx: Global Top 10 with views/hours data
- * - all-weeks-countries.xlsx: Country-specific rankings (filtered to US)
+ * - all-weeks-countries.xlsx: Country-specific rankings for every country,
+ *   with US rows also written to NetflixWeeklyUS
  *
- * Normalizes titles and upserts to database.
+ * Normalizes titles and upserts to database. Rows naming a season
+ * (season_title) are attached to that Season of the show's Title.
  */
 
 import axios from 'axios';
 import * as XLSX from 'xlsx';
 import { PrismaClient, TitleType } from '@prisma/client';
 import { normalizeTitle, titlesMatch, mergeAliases } from '../lib/titleNormalize';
+import { resolveTitle, addTitleToIndex, TitleIndex } from '../lib/titleMatcher';
+import { loadTitleIndex } from '../lib/titleIndexStore';
+import { findOrCreateSeason, NO_SEASON, SeasonRef } from '../lib/seasons';
+import { seasonNumberFromName, unseasonedRowKey, WeeklyRowKey } from '../lib/seasonNumbers';
+import {
+  CATEGORY_TYPE_MAP,
+  CountryRow,
+  groupCountryRows,
+  parseWeekRange,
+  rowSeasonTitle,
+} from '../lib/netflixWeeklyRows';
 
 import prisma from '@/lib/prisma';
 
@@ -19,19 +32,6 @@ import prisma from '@/lib/prisma';
 const NETFLIX_GLOBAL_URL = 'https://www.netflix.com/tudum/top10/data/all-weeks-global.xlsx';
 const NETFLIX_COUNTRIES_URL = 'https://www.netflix.com/tudum/top10/data/all-weeks-countries.xlsx';
 
-// Category mapping for TitleType
-// Global data uses: "TV (English)", "Films (English)", etc.
-// Country data uses simplified: "TV", "Films"
-const CATEGORY_TYPE_MAP: Record<string, TitleType> = {
-  'TV (English)': 'SHOW',
-  'TV (Non-English)': 'SHOW',
-  'Films (English)': 'MOVIE',
-  'Films (Non-English)': 'MOVIE',
-  // Simplified categories used in country-specific data
-  'TV': 'SHOW',
-  'Films': 'MOVIE',
-};
-
 interface GlobalRow {
   week: string | Date | number;  // Can be string, Date object, or Excel serial number
   category: string;
@@ -44,24 +44,16 @@ interface GlobalRow {
   cumulative_weeks_in_top_10?: number;
 }
 
-interface CountryRow {
-  country_iso2: string;
-  country_name: string;
-  week: string | Date | number;  // Can be string, Date object, or Excel serial number
-  category: string;
-  weekly_rank: number;
-  show_title: string;
-  season_title?: string;
-  cumulative_weeks_in_top_10?: number;
-}
-
 interface IngestResult {
   globalRowsProcessed: number;
   usRowsProcessed: number;
+  countryRowsProcessed: number;
   titlesCreated: number;
   titlesUpdated: number;
   globalRecordsUpserted: number;
   usRecordsUpserted: number;
+  countryRecordsUpserted: number;
+  countriesSeen: number;
   errors: string[];
 }
 
@@ -82,48 +74,6 @@ async function downloadAndParseXLSX<T>(url: string): Promise<T[]> {
   return XLSX.utils.sheet_to_json<T>(sheet);
 }
 
-/**
- * Parse week to date range
- * Handles: string "2024-01-01 - 2024-01-07", Date objects, or Excel serial numbers
- */
-function parseWeekRange(week: string | Date | number): { weekStart: Date; weekEnd: Date } {
-  // If it's already a Date object (XLSX can parse dates)
-  if (week instanceof Date) {
-    const start = new Date(week);
-    const end = new Date(start);
-    end.setDate(end.getDate() + 6);
-    return { weekStart: start, weekEnd: end };
-  }
-
-  // If it's an Excel serial date number
-  if (typeof week === 'number') {
-    // Excel dates are days since 1899-12-30 (with a leap year bug)
-    const excelEpoch = new Date(Date.UTC(1899, 11, 30));
-    const start = new Date(excelEpoch.getTime() + week * 24 * 60 * 60 * 1000);
-    const end = new Date(start);
-    end.setDate(end.getDate() + 6);
-    return { weekStart: start, weekEnd: end };
-  }
-
-  // String format - split on " - " or " – " (with spaces to avoid splitting date hyphens)
-  const weekStr = String(week);
-  const parts = weekStr.split(/\s+[-–]\s+/);
-
-  if (parts.length >= 2) {
-    return {
-      weekStart: new Date(parts[0].trim()),
-      weekEnd: new Date(parts[1].trim()),
-    };
-  }
-
-  // Single date string - assume it's the week start, end is 6 days later
-  const start = new Date(weekStr.trim());
-  const end = new Date(start);
-  end.setDate(end.getDate() + 6);
-
-  return { weekStart: start, weekEnd: end };
-}
-
 /**
  * Parse runtime to hours
  * Handles both number format (1.4333 hours) and string format ("1:30:00")
@@ -153,30 +103,31 @@ function parseRuntimeHours(runtime: string | number | undefined): number | null
 async function findOrCreateTitle(
   name: string,
   type: TitleType,
-  titleCache: Map<string, { id: string; canonicalName: string; aliases: string[] | null }>
+  titleIndex: TitleIndex
 ): Promise<string> {
-  const normalized = normalizeTitle(name, type);
-  const cacheKey = `${normalized.titleKey}`;
-
-  // Check cache first
-  if (titleCache.has(cacheKey)) {
-    const cached = titleCache.get(cacheKey)!;
+  const match = resolveTitle(titleIndex, name, { type, fuzzy: false });
 
+  if (match) {
     // Update aliases if this is a new variant
-    if (!titlesMatch(name, cached.canonicalName)) {
-      const newAliases = mergeAliases(cached.aliases, name);
-      if (newAliases.length !== (cached.aliases?.length ?? 0)) {
-        await prisma.title.update({
-          where: { id: cached.id },
+    if (!titlesMatch(name, match.canonicalName)) {
+      const aliases = titleIndex.titles.get(match.titleId)!.names
+        .filter((n) => n.isAlias)
+        .map((n) => n.name);
+      const newAliases = mergeAliases(aliases, name);
+      if (newAliases.length !== aliases.length) {
+        const updated = await prisma.title.update({
+          where: { id: match.titleId },
           data: { aliases: newAliases },
         });
-        cached.aliases = newAliases;
+        addTitleToIndex(titleIndex, updated);
       }
     }
 
-    return cached.id;
+    return match.titleId;
   }
 
+  const normalized = normalizeTitle(name, type);
+
   // Try to find existing title by canonical name
   let title = await prisma.title.findUnique({
     where: {
@@ -201,29 +152,45 @@ async function findOrCreateTitle(
     const aliases = (title.aliases as string[]) || [];
     const newAliases = mergeAliases(aliases, name);
     if (newAliases.length !== aliases.length) {
-      await prisma.title.update({
+      title = await prisma.title.update({
         where: { id: title.id },
         data: { aliases: newAliases },
       });
     }
   }
 
-  // Add to cache
-  titleCache.set(cacheKey, {
-    id: title.id,
-    canonicalName: title.canonicalName,
-    aliases: title.aliases as string[] | null,
-  });
+  // Add to index
+  addTitleToIndex(titleIndex, title);
 
   return title.id;
 }
 
+/**
+ * Season a row's season_title names, if any
+ */
+async function rowSeason(titleId: string, seasonTitle: string | null): Promise<SeasonRef> {
+  if (!seasonTitle) return NO_SEASON;
+  return findOrCreateSeason(titleId, seasonNumberFromName(seasonTitle), seasonTitle);
+}
+
+/**
+ * Drop the unseasoned row a seasoned row replaces (see unseasonedRowKey)
+ */
+async function deleteUnseasonedRow(
+  model: 'netflixWeeklyGlobal' | 'netflixWeeklyUS',
+  row: WeeklyRowKey
+): Promise<void> {
+  const replaced = unseasonedRowKey(row);
+  if (!replaced) return;
+  await prisma[model].deleteMany({ where: replaced });
+}
+
 /**
  * Process global Top 10 data
  */
 async function processGlobalData(
   rows: GlobalRow[],
-  titleCache: Map<string, { id: string; canonicalName: string; aliases: string[] | null }>,
+  titleIndex: TitleIndex,
   result: IngestResult
 ): Promise<void> {
   console.log(`Processing ${rows.length} global rows...`);
@@ -231,8 +198,7 @@ async function processGlobalData(
   for (const row of rows) {
     try {
       // Use season_title for shows with seasons, otherwise show_title
-      // Netflix uses "N/A" string (not null) for entries without season info
-      const seasonTitle = row.season_title && row.season_title !== 'N/A' ? row.season_title : null;
+      const seasonTitle = rowSeasonTitle(row.season_title);
       const titleName = seasonTitle || row.show_title;
       if (!titleName || titleName === 'N/A') continue;
 
@@ -242,7 +208,8 @@ async function processGlobalData(
         continue;
       }
 
-      const titleId = await findOrCreateTitle(titleName, type, titleCache);
+      const titleId = await findOrCreateTitle(titleName, type, titleIndex);
+      const { seasonId, seasonNumber } = await rowSeason(titleId, seasonTitle);
       const { weekStart, weekEnd } = parseWeekRange(row.week);
       const runtimeHours = parseRuntimeHours(row.runtime);
 
@@ -250,16 +217,20 @@ async function processGlobalData(
       const hoursViewed = row.weekly_hours_viewed || 0;
       const views = row.weekly_views ?? (runtimeHours ? hoursViewed / runtimeHours : 0);
 
+      await deleteUnseasonedRow('netflixWeeklyGlobal', { titleId, seasonNumber, weekStart, category: row.category });
       await prisma.netflixWeeklyGlobal.upsert({
         where: {
-          titleId_weekStart_category: {
+          titleId_seasonNumber_weekStart_category: {
             titleId,
+            seasonNumber,
             weekStart,
             category: row.category,
           },
         },
         create: {
           titleId,
+          seasonId,
+          seasonNumber,
           weekStart,
           weekEnd,
           category: row.category,
@@ -269,6 +240,7 @@ async function processGlobalData(
           runtimeHours,
         },
         update: {
+          seasonId,
           weekEnd,
           rank: row.weekly_rank,
           views,
@@ -290,7 +262,7 @@ async function processGlobalData(
  */
 async function processUSData(
   rows: CountryRow[],
-  titleCache: Map<string, { id: string; canonicalName: string; aliases: string[] | null }>,
+  titleIndex: TitleIndex,
   result: IngestResult
 ): Promise<void> {
   // Filter to US only
@@ -302,8 +274,7 @@ async function processUSData(
   for (const row of usRows) {
     try {
       // Use season_title for shows with seasons, otherwise show_title
-      // Netflix uses "N/A" string (not null) for entries without season info
-      const seasonTitle = row.season_title && row.season_title !== 'N/A' ? row.season_title : null;
+      const seasonTitle = rowSeasonTitle(row.season_title);
       const titleName = seasonTitle || row.show_title;
       if (!titleName || titleName === 'N/A') continue;
 
@@ -313,25 +284,31 @@ async function processUSData(
         continue;
       }
 
-      const titleId = await findOrCreateTitle(titleName, type, titleCache);
+      const titleId = await findOrCreateTitle(titleName, type, titleIndex);
+      const { seasonId, seasonNumber } = await rowSeason(titleId, seasonTitle);
       const { weekStart, weekEnd } = parseWeekRange(row.week);
 
+      await deleteUnseasonedRow('netflixWeeklyUS', { titleId, seasonNumber, weekStart, category: row.category });
       await prisma.netflixWeeklyUS.upsert({
         where: {
-          titleId_weekStart_category: {
+          titleId_seasonNumber_weekStart_category: {
             titleId,
+            seasonNumber,
             weekStart,
             category: row.category,
           },
         },
         create: {
           titleId,
+          seasonId,
+          seasonNumber,
           weekStart,
           weekEnd,
           category: row.category,
           rank: row.weekly_rank,
         },
         update: {
+          seasonId,
           weekEnd,
           rank: row.weekly_rank,
         },
@@ -345,6 +322,79 @@ async function processUSData(
   }
 }
 
+/**
+ * Process country data for every country
+ *
+ * The countries file is ~90 countries x 20 rows per week, too many rows to
+ * upsert one at a time, so each week is replaced wholesale: delete the week's
+ * rows, then bulk insert.
+ */
+async function processCountryData(
+  rows: CountryRow[],
+  titleIndex: TitleIndex,
+  result: IngestResult
+): Promise<void> {
+  console.log(`Processing ${rows.length} country rows...`);
+
+  const { weeks, errors } = groupCountryRows(rows);
+  result.errors.push(...errors);
+  const countries = new Set<string>();
+
+  for (const week of weeks) {
+    const records = [];
+    let failed = 0;
+    for (const entry of week.entries) {
+      try {
+        const titleId = await findOrCreateTitle(entry.titleName, entry.type, titleIndex);
+        const { seasonId, seasonNumber } = await rowSeason(titleId, entry.seasonTitle);
+        records.push({
+          titleId,
+          seasonId,
+          seasonNumber,
+          countryIso2: entry.countryIso2,
+          countryName: entry.countryName,
+          weekStart: entry.weekStart,
+          weekEnd: entry.weekEnd,
+          rank: entry.rank,
+          category: entry.category,
+        });
+
+        countries.add(entry.countryIso2);
+        result.countryRowsProcessed++;
+      } catch (error) {
+        failed++;
+        result.errors.push(`Country row error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // The week is replaced wholesale, so keep what is stored unless every row resolved
+    const weekKey = week.weekStart.toISOString().split('T')[0];
+    if (failed > 0) {
+      result.errors.push(`Country week ${weekKey} skipped: ${failed} of ${week.entries.length} rows failed to resolve`);
+      continue;
+    }
+    try {
+      const [, created] = await prisma.$transaction([
+        prisma.netflixWeeklyCountry.deleteMany({
+          where: { weekStart: week.weekStart },
+        }),
+        prisma.netflixWeeklyCountry.createMany({
+          data: records,
+          skipDuplicates: true, // Two spellings can still resolve to the same title and season
+        }),
+      ]);
+
+      result.countryRecordsUpserted += created.count;
+    } catch (error) {
+      result.errors.push(
+        `Country week ${weekKey} error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  result.countriesSeen = countries.size;
+}
+
 /**
  * Filter rows to only include recent weeks
  */
@@ -369,34 +419,20 @@ export async function ingestNetflixWeekly(weeksLimit: number = 8): Promise<Inges
   const result: IngestResult = {
     globalRowsProcessed: 0,
     usRowsProcessed: 0,
+    countryRowsProcessed: 0,
     titlesCreated: 0,
     titlesUpdated: 0,
     globalRecordsUpserted: 0,
     usRecordsUpserted: 0,
+    countryRecordsUpserted: 0,
+    countriesSeen: 0,
     errors: [],
   };
 
-  // Title cache for deduplication
-  const titleCache = new Map<
-    string,
-    { id: string; canonicalName: string; aliases: string[] | null }
-  >();
-
-  // Pre-load existing titles into cache
-  const existingTitles = await prisma.title.findMany({
-    select: { id: true, canonicalName: true, type: true, aliases: true },
-  });
-
-  for (const title of existingTitles) {
-    const normalized = normalizeTitle(title.canonicalName, title.type);
-    titleCache.set(normalized.titleKey, {
-      id: title.id,
-      canonicalName: title.canonicalName,
-      aliases: title.aliases as string[] | null,
-    });
-  }
+  // Title index for matching names to existing titles
+  const titleIndex = await loadTitleIndex();
 
-  const initialTitleCount = titleCache.size;
+  const initialTitleCount = titleIndex.titles.size;
 
   try {
     // Download and process global data
@@ -409,9 +445,9 @@ export async function ingestNetflixWeekly(weeksLimit: number = 8): Promise<Inges
       console.log(`Filtered global rows: ${originalCount} -> ${globalRows.length} (last ${weeksLimit} weeks)`);
     }
 
-    await processGlobalData(globalRows, titleCache, result);
+    await processGlobalData(globalRows, titleIndex, result);
 
-    // Download and process US data
+    // Download and process country data
     let countryRows = await downloadAndParseXLSX<CountryRow>(NETFLIX_COUNTRIES_URL);
 
     // Filter to recent weeks if limit is set
@@ -421,12 +457,13 @@ export async function ingestNetflixWeekly(weeksLimit: number = 8): Promise<Inges
       console.log(`Filtered country rows: ${originalCount} -> ${countryRows.length} (last ${weeksLimit} weeks)`);
     }
 
-    await processUSData(countryRows, titleCache, result);
+    await processUSData(countryRows, titleIndex, result);
+    await processCountryData(countryRows, titleIndex, result);
 
     // Calculate title stats
     const finalTitleCount = await prisma.title.count();
     result.titlesCreated = finalTitleCount - initialTitleCount;
-    result.titlesUpdated = titleCache.size - result.titlesCreated;
+    result.titlesUpdated = titleIndex.titles.size - result.titlesCreated;
   } catch (error) {
     result.errors.push(`Fatal error: ${error instanceof Error ? error.message : String(error)}`);
     throw error;
@@ -460,6 +497,7 @@ export async function runIngestJob(): Promise<void> {
     console.log(`Titles created: ${result.titlesCreated}`);
     console.log(`Global records upserted: ${result.globalRecordsUpserted}`);
     console.log(`US records upserted: ${result.usRecordsUpserted}`);
+    console.log(`Country records upserted: ${result.countryRecordsUpserted} (${result.countriesSeen} countries)`);
 
     if (result.errors.length > 0) {
       console.warn(`Errors (${result.errors.length}):`, result.errors.slice(0, 10));
@@ -0,0 +1,175 @@
+/**
+ * Order Book Ingestion Job
+ *
+ * Snapshots the Polymarket CLOB order book for every outcome of the weekly
+ * Netflix markets we're currently tracking, so edges can be judged against
+ * the price a stake would actually execute at rather than the midpoint.
+ *
+ * Markets are those with a MarketPriceSnapshot in the last day that haven't
+ * resolved. Snapshots older than RETENTION_DAYS are pruned.
+ */
+
+import { fetchOutcomeTokens, fetchOrderBook } from '../lib/polymarketFetcher';
+import { parseOrderBook, summariseOrderBook } from '../lib/orderBook';
+
+import prisma from '@/lib/prisma';
+
+const ACTIVE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const RETENTION_DAYS = 14;
+
+// Delay between CLOB requests
+const REQUEST_DELAY_MS = 100;
+
+export interface OrderBookIngestResult {
+  marketsProcessed: number;
+  booksStored: number;
+  emptyBooks: number;
+  snapshotsPruned: number;
+  errors: string[];
+}
+
+/**
+ * Main order book ingestion function
+ */
+export async function ingestOrderBooks(): Promise<OrderBookIngestResult> {
+  const result: OrderBookIngestResult = {
+    marketsProcessed: 0,
+    booksStored: 0,
+    emptyBooks: 0,
+    snapshotsPruned: 0,
+    errors: [],
+  };
+
+  const markets = await prisma.polymarketMarket.findMany({
+    where: {
+      resolved: false,
+      slug: { not: null },
+      prices: { some: { timestamp: { gte: new Date(Date.now() - ACTIVE_WINDOW_MS) } } },
+    },
+    select: { id: true, slug: true },
+  });
+
+  for (const market of markets as Array<{ id: string; slug: string }>) {
+    try {
+      const tokens = await fetchOutcomeTokens(market.slug);
+      if (!tokens) {
+        result.errors.push(`Could not load outcomes for ${market.slug}`);
+        continue;
+      }
+
+      result.marketsProcessed++;
+      const timestamp = new Date();
+
+      for (const token of tokens) {
+        const raw = await fetchOrderBook(token.tokenId);
+        await new Promise((r) => setTimeout(r, REQUEST_DELAY_MS));
+
+        if (!raw) {
+          result.errors.push(`No book for ${market.slug} / ${token.name}`);
+          continue;
+        }
+
+        const book = parseOrderBook(raw);
+        if (book.bids.length === 0 && book.asks.length === 0) {
+          result.emptyBooks++;
+          continue;
+        }
+
+        await prisma.orderBookSnapshot.create({
+          data: {
+            marketId: market.id,
+            marketSlug: market.slug,
+            outcomeName: token.name,
+            tokenId: token.tokenId,
+            timestamp,
+            bids: book.bids as object[],
+            asks: book.asks as object[],
+            ...summariseOrderBook(book),
+          },
+        });
+
+        result.booksStored++;
+      }
+    } catch (error) {
+      result.errors.push(
+        `Order book error for ${market.slug}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  const pruned = await prisma.orderBookSnapshot.deleteMany({
+    where: { timestamp: { lt: new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000) } },
+  });
+  result.snapshotsPruned = pruned.count;
+
+  console.log(
+    `[order-books] ${result.booksStored} books stored across ${result.marketsProcessed} markets ` +
+    `(${result.emptyBooks} empty, ${result.snapshotsPruned} old snapshots pruned)`
+  );
+
+  return result;
+}
+
+/**
+ * Run job with logging
+ */
+export async function runIngestOrderBooksJob(): Promise<void> {
+  const startTime = Date.now();
+
+  // Create job run record
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: 'ingest_order_books',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    console.log('Starting order book ingestion...');
+    const result = await ingestOrderBooks();
+
+    const duration = Date.now() - startTime;
+    console.log(`Order book ingestion complete in ${duration}ms`);
+
+    if (result.errors.length > 0) {
+      console.warn(`Errors (${result.errors.length}):`, result.errors.slice(0, 10));
+    }
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        detailsJson: {
+          durationMs: duration,
+          ...result,
+          errors: result.errors.slice(0, 100),
+        },
+      },
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Order book ingestion failed:', error);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'FAIL',
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+        detailsJson: { durationMs: duration },
+      },
+    });
+
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Allow running directly
+if (require.main === module) {
+  runIngestOrderBooksJob()
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
+}
@@ -40,13 +40,14 @@ interface IngestPacingResult {
 
 /**
  * Get titles to track for pacing:
- * 1. All pinned titles (watchlist)
+ * 1. Titles on any user's watchlist
  * 2. Recent release candidates with status PENDING or MATCHED
  */
 async function getTitlesToTrack(): Promise<{ id: string; canonicalName: string; type: 'SHOW' | 'MOVIE' }[]> {
-  // Get pinned title IDs
-  const pinnedTitles = await prisma.pinnedTitle.findMany({
+  // Get title IDs on any user's watchlist
+  const pinnedTitles = await prisma.watchlistItem.findMany({
     select: { titleId: true },
+    distinct: ['titleId'],
   });
 
   // Get release candidate title IDs
@@ -0,0 +1,419 @@
+/**
+ * Paper Trading Job
+ *
+ * Runs simulated portfolios against the live BUY/AVOID signals:
+ * - Settle: checks markets with open positions on Polymarket and, once a
+ *   winner is known, pays out positions and returns the cash to the portfolio
+ * - Trade: for each active portfolio, opens a position at the latest
+ *   MarketPriceSnapshot price whenever a signal fires on an outcome the
+ *   portfolio doesn't already hold, sized by the portfolio's sizing rule
+ */
+
+import { generateMarketProbabilities, MarketCategory } from '../lib/forecaster';
+import { fetchMarketResolution } from '../lib/polymarketFetcher';
+import { calculateEdge, classifySignal, SignalStrength } from '../lib/edgeCalculator';
+import {
+  calculateStake,
+  quoteSide,
+  resolveSettings,
+  settlePosition,
+  DEFAULT_PORTFOLIO_SETTINGS,
+  PositionSide,
+  SizingRule,
+} from '../lib/paperTrading';
+
+import prisma from '@/lib/prisma';
+
+export const PAPER_TRADING_CATEGORIES: MarketCategory[] = [
+  'shows-us',
+  'shows-global',
+  'films-us',
+  'films-global',
+];
+
+// Portfolios created on the first run so each sizing rule is tracked
+const DEFAULT_PORTFOLIOS: Array<{ name: string; sizingRule: SizingRule }> = [
+  { name: 'Flat Stake', sizingRule: 'FLAT' },
+  { name: 'Quarter Kelly', sizingRule: 'KELLY' },
+  { name: 'Edge Proportional', sizingRule: 'EDGE_PROPORTIONAL' },
+];
+
+const DEFAULT_STARTING_BALANCE = 10000;
+
+// Prices this close to 0 or 1 mean the market has effectively settled
+const MIN_TRADABLE_PRICE = 0.01;
+const MAX_TRADABLE_PRICE = 0.99;
+
+export interface PaperTradingJobOptions {
+  trade?: boolean;  // Open positions on current signals (default true)
+  settle?: boolean; // Settle positions whose markets have resolved (default true)
+}
+
+export interface PaperTradingJobResult {
+  portfoliosCreated: number;
+  portfoliosTraded: number;
+  signalsFound: number;
+  positionsOpened: number;
+  marketsChecked: number;
+  marketsResolved: number;
+  positionsSettled: number;
+  errors: string[];
+}
+
+interface TradeSignal {
+  category: MarketCategory;
+  marketId: string;
+  marketSlug: string | null;
+  priceSnapshotId: string;
+  outcomeName: string;
+  titleId: string | null;
+  signal: 'BUY' | 'AVOID';
+  strength: SignalStrength;
+  edgePercent: number;
+  modelProbability: number;  // 0-1
+  marketProbability: number; // 0-1
+}
+
+interface PortfolioRow {
+  id: string;
+  name: string;
+  sizingRule: SizingRule;
+  settings: unknown;
+  cashBalance: number;
+}
+
+/**
+ * Create the default portfolios if none exist yet
+ */
+async function seedDefaultPortfolios(result: PaperTradingJobResult): Promise<void> {
+  const existing = await prisma.paperPortfolio.count();
+  if (existing > 0) return;
+
+  for (const portfolio of DEFAULT_PORTFOLIOS) {
+    await prisma.paperPortfolio.create({
+      data: {
+        name: portfolio.name,
+        sizingRule: portfolio.sizingRule,
+        settings: { ...DEFAULT_PORTFOLIO_SETTINGS },
+        startingBalance: DEFAULT_STARTING_BALANCE,
+        cashBalance: DEFAULT_STARTING_BALANCE,
+      },
+    });
+    result.portfoliosCreated++;
+  }
+}
+
+/**
+ * Current BUY/AVOID signals for a category, priced from the latest snapshot
+ */
+async function getCategorySignals(category: MarketCategory): Promise<TradeSignal[]> {
+  const probabilities = await generateMarketProbabilities(category);
+  if (!probabilities.marketId || probabilities.outcomes.length === 0) return [];
+
+  const snapshot = await prisma.marketPriceSnapshot.findFirst({
+    where: { marketId: probabilities.marketId },
+    orderBy: { timestamp: 'desc' },
+    select: { id: true, prices: true },
+  });
+  if (!snapshot) return [];
+
+  const prices = (snapshot.prices ?? {}) as Record<string, number>;
+  const signals: TradeSignal[] = [];
+
+  for (const outcome of probabilities.outcomes) {
+    const marketProbability = prices[outcome.name];
+    if (typeof marketProbability !== 'number') continue;
+    if (marketProbability <= MIN_TRADABLE_PRICE || marketProbability >= MAX_TRADABLE_PRICE) continue;
+
+    const modelProbability = outcome.probability / 100;
+    const { edgePercent } = calculateEdge(marketProbability, modelProbability);
+    const { signal, strength } = classifySignal(edgePercent, true);
+    if (signal === 'HOLD') continue;
+
+    signals.push({
+      category,
+      marketId: probabilities.marketId,
+      marketSlug: probabilities.marketSlug,
+      priceSnapshotId: snapshot.id,
+      outcomeName: outcome.name,
+      titleId: outcome.titleId,
+      signal,
+      strength,
+      edgePercent,
+      modelProbability,
+      marketProbability,
+    });
+  }
+
+  return signals;
+}
+
+/**
+ * Open positions for one portfolio on any signals it doesn't already hold
+ */
+async function tradePortfolio(
+  portfolio: PortfolioRow,
+  signals: TradeSignal[],
+  result: PaperTradingJobResult
+): Promise<void> {
+  const settings = resolveSettings(portfolio.settings);
+
+  const held = await prisma.paperPosition.findMany({
+    where: { portfolioId: portfolio.id },
+    select: { marketId: true, outcomeName: true, stake: true, status: true },
+  });
+  const heldKeys = new Set(
+    (held as Array<{ marketId: string; outcomeName: string }>).map((p) => `${p.marketId}:${p.outcomeName}`)
+  );
+  const openStakes = (held as Array<{ stake: number; status: string }>)
+    .filter((p) => p.status === 'OPEN')
+    .reduce((sum, p) => sum + p.stake, 0);
+
+  let cash = portfolio.cashBalance;
+
+  // Largest edges first so limited cash goes to the best signals
+  const ordered = signals
+    .filter((s) => Math.abs(s.edgePercent) >= settings.minEdge)
+    .sort((a, b) => Math.abs(b.edgePercent) - Math.abs(a.edgePercent));
+
+  for (const signal of ordered) {
+    if (heldKeys.has(`${signal.marketId}:${signal.outcomeName}`)) continue;
+
+    const quote = quoteSide(signal.signal, signal.marketProbability, signal.modelProbability);
+    const stake = calculateStake(portfolio.sizingRule, settings, {
+      bankroll: cash + openStakes,
+      cash,
+      quote,
+      edgePercent: signal.edgePercent,
+    });
+    if (stake === 0) continue;
+
+    await prisma.$transaction([
+      prisma.paperPosition.create({
+        data: {
+          portfolioId: portfolio.id,
+          marketId: signal.marketId,
+          marketSlug: signal.marketSlug,
+          category: signal.category,
+          outcomeName: signal.outcomeName,
+          titleId: signal.titleId,
+          side: quote.side,
+          signalStrength: signal.strength,
+          edgePercent: signal.edgePercent,
+          modelProbability: signal.modelProbability,
+          marketProbability: signal.marketProbability,
+          entryPrice: quote.price,
+          shares: stake / quote.price,
+          stake,
+          priceSnapshotId: signal.priceSnapshotId,
+        },
+      }),
+      prisma.paperPortfolio.update({
+        where: { id: portfolio.id },
+        data: { cashBalance: { decrement: stake } },
+      }),
+    ]);
+
+    cash -= stake;
+    heldKeys.add(`${signal.marketId}:${signal.outcomeName}`);
+    result.positionsOpened++;
+    console.log(
+      `[paper-trading] ${portfolio.name}: ${quote.side} "${signal.outcomeName}" ` +
+      `$${stake.toFixed(2)} @ ${quote.price.toFixed(3)} (edge ${signal.edgePercent.toFixed(1)}pts)`
+    );
+  }
+}
+
+/**
+ * Settle open positions whose markets have resolved on Polymarket
+ */
+async function settleOpenPositions(result: PaperTradingJobResult): Promise<void> {
+  const markets = await prisma.paperPosition.findMany({
+    where: { status: 'OPEN', marketSlug: { not: null } },
+    select: { marketId: true, marketSlug: true },
+    distinct: ['marketId'],
+  });
+
+  for (const { marketId, marketSlug } of markets as Array<{ marketId: string; marketSlug: string }>) {
+    result.marketsChecked++;
+
+    try {
+      const resolution = await fetchMarketResolution(marketSlug);
+      if (!resolution?.closed || !resolution.winner) continue;
+
+      const winner = resolution.winner;
+      const settledAt = new Date();
+
+      const positions = await prisma.paperPosition.findMany({
+        where: { marketId, status: 'OPEN' },
+        select: { id: true, portfolioId: true, side: true, outcomeName: true, shares: true, stake: true },
+      });
+
+      for (const position of positions as Array<{
+        id: string;
+        portfolioId: string;
+        side: PositionSide;
+        outcomeName: string;
+        shares: number;
+        stake: number;
+      }>) {
+        const { payout, pnl } = settlePosition(position, winner);
+
+        await prisma.$transaction([
+          prisma.paperPosition.update({
+            where: { id: position.id },
+            data: { status: 'SETTLED', settledAt, winningOutcome: winner, payout, pnl },
+          }),
+          prisma.paperPortfolio.update({
+            where: { id: position.portfolioId },
+            data: { cashBalance: { increment: payout } },
+          }),
+        ]);
+
+        result.positionsSettled++;
+      }
+
+      await prisma.polymarketMarket.update({
+        where: { id: marketId },
+        data: { resolved: true },
+      });
+
+      result.marketsResolved++;
+      console.log(`[paper-trading] ${marketSlug} resolved to "${winner}" (${positions.length} positions settled)`);
+    } catch (error) {
+      result.errors.push(
+        `Settlement error for ${marketSlug}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Main paper trading function
+ */
+export async function runPaperTrading(options: PaperTradingJobOptions = {}): Promise<PaperTradingJobResult> {
+  const { trade = true, settle = true } = options;
+
+  const result: PaperTradingJobResult = {
+    portfoliosCreated: 0,
+    portfoliosTraded: 0,
+    signalsFound: 0,
+    positionsOpened: 0,
+    marketsChecked: 0,
+    marketsResolved: 0,
+    positionsSettled: 0,
+    errors: [],
+  };
+
+  // Settle first so freed-up cash is available and settled markets aren't re-entered
+  if (settle) await settleOpenPositions(result);
+
+  if (trade) {
+    await seedDefaultPortfolios(result);
+
+    const signals: TradeSignal[] = [];
+    for (const category of PAPER_TRADING_CATEGORIES) {
+      try {
+        signals.push(...await getCategorySignals(category));
+      } catch (error) {
+        result.errors.push(
+          `Signal error for ${category}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    result.signalsFound = signals.length;
+
+    const portfolios = await prisma.paperPortfolio.findMany({
+      where: { isActive: true },
+      select: { id: true, name: true, sizingRule: true, settings: true, cashBalance: true },
+    });
+
+    for (const portfolio of portfolios as PortfolioRow[]) {
+      try {
+        await tradePortfolio(portfolio, signals, result);
+        result.portfoliosTraded++;
+      } catch (error) {
+        result.errors.push(
+          `Trading error for ${portfolio.name}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  console.log(
+    `[paper-trading] ${result.positionsOpened} positions opened from ${result.signalsFound} signals, ` +
+    `${result.positionsSettled} positions settled across ${result.marketsResolved} resolved markets`
+  );
+
+  return result;
+}
+
+/**
+ * Run job with logging
+ */
+export async function runPaperTradingJob(options: PaperTradingJobOptions = {}): Promise<void> {
+  const startTime = Date.now();
+
+  // Create job run record
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: 'paper_trading',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    console.log('Starting paper trading...');
+    const result = await runPaperTrading(options);
+
+    const duration = Date.now() - startTime;
+    console.log(`Paper trading complete in ${duration}ms`);
+
+    if (result.errors.length > 0) {
+      console.warn(`Errors (${result.errors.length}):`, result.errors.slice(0, 10));
+    }
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        detailsJson: {
+          durationMs: duration,
+          ...result,
+          errors: result.errors.slice(0, 100),
+        },
+      },
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Paper trading failed:', error);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'FAIL',
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+        detailsJson: { durationMs: duration },
+      },
+    });
+
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Allow running directly
+if (require.main === module) {
+  const settleOnly = process.argv.includes('--settle-only');
+  const tradeOnly = process.argv.includes('--trade-only');
+
+  runPaperTradingJob({
+    trade: !settleOnly,
+    settle: !tradeOnly,
+  })
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
+}
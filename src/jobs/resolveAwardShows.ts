@@ -0,0 +1,114 @@
+/**
+ * Awards Resolution Job
+ *
+ * Reads winners off resolved Polymarket events for shows whose ceremony has
+ * passed, marks AwardNominee.isWinner, and flips each show to COMPLETED once
+ * its winners are in (or WINNER_WAIT_DAYS after the ceremony). Shows stay
+ * checked for RESOLUTION_WINDOW_DAYS so late-resolving markets still land.
+ * Finished shows are scored at /awards/[showSlug]/scorecard.
+ */
+
+import prisma from '@/lib/prisma';
+import { fetchEventsBySlugs } from './ingestAwardsPolymarket';
+import { getShowsAwaitingResolution, ShowAwaitingResolution } from '@/lib/awardShowStore';
+import { RESOLUTION_WINDOW_DAYS, resolveEventWinner, resolvedShowStatus } from '@/lib/awardResolution';
+import { matchNominee } from '@/lib/oddsEntry';
+
+export interface AwardResolutionResult {
+  showsChecked: number;
+  categoriesResolved: number;
+  showsCompleted: number;
+  unmatchedWinners: string[];
+  errors: string[];
+}
+
+/**
+ * Mark winners for one show's unresolved Polymarket categories, then update
+ * its status
+ */
+async function resolveShow(show: ShowAwaitingResolution, result: AwardResolutionResult): Promise<void> {
+  const pending = show.categories.filter((c) => c.polymarketSlug && !c.nominees.some((n) => n.isWinner));
+  const events = pending.length > 0 ? await fetchEventsBySlugs(pending.map((c) => c.polymarketSlug!)) : [];
+
+  for (const category of pending) {
+    const event = events.find((e) => e.slug === category.polymarketSlug);
+    const winnerName = event ? resolveEventWinner(event) : null;
+    if (!winnerName) continue;
+
+    const winner = matchNominee(winnerName, category.nominees);
+    if (!winner) {
+      result.unmatchedWinners.push(`${show.slug}/${category.name}: ${winnerName}`);
+      continue;
+    }
+
+    await prisma.$transaction([
+      prisma.awardNominee.updateMany({
+        where: { categoryId: category.id, id: { not: winner.id } },
+        data: { isWinner: false },
+      }),
+      prisma.awardNominee.update({ where: { id: winner.id }, data: { isWinner: true } }),
+    ]);
+    winner.isWinner = true;
+    result.categoriesResolved++;
+    console.log(`  🏆 ${category.name}: ${winner.name}`);
+  }
+
+  const status = resolvedShowStatus(show);
+  if (status !== show.status) {
+    await prisma.awardShow.update({ where: { id: show.id }, data: { status } });
+    result.showsCompleted++;
+    console.log(`  Status: ${show.status} → ${status}`);
+  }
+}
+
+export async function resolveAwardShows(): Promise<AwardResolutionResult> {
+  const result: AwardResolutionResult = {
+    showsChecked: 0,
+    categoriesResolved: 0,
+    showsCompleted: 0,
+    unmatchedWinners: [],
+    errors: [],
+  };
+
+  const shows = await getShowsAwaitingResolution(new Date(), RESOLUTION_WINDOW_DAYS);
+  console.log(`Found ${shows.length} award shows awaiting results`);
+
+  for (const show of shows) {
+    console.log(`\n📺 Resolving ${show.name}...`);
+    try {
+      await resolveShow(show, result);
+      result.showsChecked++;
+    } catch (error) {
+      console.error(`Error resolving ${show.slug}:`, error);
+      result.errors.push(`${show.slug}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return result;
+}
+
+// Allow running directly
+if (require.main === module) {
+  resolveAwardShows()
+    .then(result => {
+      console.log('\n========================================');
+      console.log('Awards Resolution Complete');
+      console.log('========================================');
+      console.log(`Shows checked: ${result.showsChecked}`);
+      console.log(`Categories resolved: ${result.categoriesResolved}`);
+      console.log(`Shows completed: ${result.showsCompleted}`);
+      if (result.unmatchedWinners.length > 0) {
+        console.log(`Unmatched winners: ${result.unmatchedWinners.length}`);
+        result.unmatchedWinners.forEach(w => console.log(`  - ${w}`));
+      }
+      if (result.errors.length > 0) {
+        console.log(`Errors: ${result.errors.length}`);
+        result.errors.forEach(e => console.log(`  - ${e}`));
+      }
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
@@ -19,6 +19,7 @@ import {
   getMarketPrices,
   fetchTradesByWallet,
 } from '@/lib/polymarketClient';
+import { evaluateAlertsAfterJob } from '@/lib/alertEngine';
 import { InsiderBadgeType, Prisma } from '@prisma/client';
 
 // Define Prisma types for properly typed queries
@@ -608,6 +609,8 @@ export async function runInsiderScanJob(options: {
         },
       },
     });
+
+    await evaluateAlertsAfterJob('scan_insiders', jobRun.id);
   } catch (error) {
     const duration = Date.now() - startTime;
     console.error('Insider scan failed:', error);
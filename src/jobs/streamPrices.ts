@@ -0,0 +1,254 @@
+/**
+ * Price Stream Worker
+ *
+ * Long-running process (not a cron job) that subscribes to the Polymarket
+ * market websocket for every tracked PolymarketMarket and writes one-minute
+ * price bars to MarketPriceBar. The hourly snapshot-prices job keeps running
+ * alongside it; bars just give intraday resolution when the charts drop.
+ *
+ * Tracked markets are unresolved ones with a slug that are either linked to
+ * a title or had a price snapshot in the last day. The list is reloaded
+ * periodically so the stream follows the weekly market rollover.
+ *
+ * Usage:
+ *   npx tsx src/jobs/streamPrices.ts
+ *   npx tsx src/jobs/streamPrices.ts --url=ws://localhost:8080 --minutes=5
+ *
+ * POLYMARKET_WS_URL also overrides the websocket URL.
+ */
+
+import { fetchOutcomeTokens } from '../lib/polymarketFetcher';
+import { applyTick, minuteStart, MinuteBar, PriceTick } from '../lib/priceStream';
+import { connectPriceStream, PriceStream } from '../lib/priceStreamClient';
+
+import prisma from '@/lib/prisma';
+
+const ACTIVE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const RETENTION_DAYS = 30;
+const FLUSH_INTERVAL_MS = 5_000;
+const REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface StreamedAsset {
+  marketId: string;
+  marketSlug: string;
+  outcomeName: string;
+  tokenId: string;
+}
+
+export interface PriceStreamWorkerOptions {
+  url?: string;
+  durationMs?: number; // Stop after this long; runs until SIGINT/SIGTERM otherwise
+}
+
+export interface PriceStreamSummary {
+  ticksReceived: number;
+  barsWritten: number;
+  reconnects: number;
+  errorCount: number;
+  errors: string[];     // The last MAX_ERRORS, so a long-running worker doesn't grow without bound
+}
+
+const MAX_ERRORS = 100;
+
+/**
+ * Outcome tokens for every market the worker should subscribe to
+ */
+export async function loadStreamedAssets(): Promise<StreamedAsset[]> {
+  const markets = await prisma.polymarketMarket.findMany({
+    where: {
+      resolved: false,
+      slug: { not: null },
+      OR: [
+        { titleLinks: { some: {} } },
+        { prices: { some: { timestamp: { gte: new Date(Date.now() - ACTIVE_WINDOW_MS) } } } },
+      ],
+    },
+    select: { id: true, slug: true },
+  });
+
+  const assets: StreamedAsset[] = [];
+  for (const market of markets as Array<{ id: string; slug: string }>) {
+    const tokens = await fetchOutcomeTokens(market.slug);
+    for (const token of tokens ?? []) {
+      assets.push({ marketId: market.id, marketSlug: market.slug, outcomeName: token.name, tokenId: token.tokenId });
+    }
+  }
+
+  return assets;
+}
+
+function barKey(tokenId: string, minute: Date): string {
+  return `${tokenId}|${minute.getTime()}`;
+}
+
+/**
+ * Stream prices until the duration elapses or the process is signalled
+ */
+export async function runPriceStream(options: PriceStreamWorkerOptions = {}): Promise<PriceStreamSummary> {
+  const summary: PriceStreamSummary = { ticksReceived: 0, barsWritten: 0, reconnects: 0, errorCount: 0, errors: [] };
+  const recordError = (message: string) => {
+    summary.errorCount++;
+    summary.errors.push(message);
+    if (summary.errors.length > MAX_ERRORS) summary.errors.shift();
+  };
+
+  const bars = new Map<string, MinuteBar>();
+  const dirty = new Set<string>();
+  let assets = new Map<string, StreamedAsset>();
+  let stream = null as PriceStream | null;
+  let opened = false;
+
+  function handleTicks(ticks: PriceTick[]) {
+    for (const tick of ticks) {
+      if (!assets.has(tick.assetId)) continue;
+      summary.ticksReceived++;
+
+      const key = barKey(tick.assetId, minuteStart(tick.timestamp));
+      bars.set(key, applyTick(bars.get(key), tick));
+      dirty.add(key);
+    }
+  }
+
+  async function flush() {
+    const keys = Array.from(dirty);
+    dirty.clear();
+
+    for (const key of keys) {
+      const bar = bars.get(key);
+      const asset = bar ? assets.get(bar.tokenId) : undefined;
+      if (!bar || !asset) continue;
+
+      const values = {
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        tradeCount: bar.tradeCount,
+        tradeVolume: bar.tradeVolume,
+      };
+
+      try {
+        await prisma.marketPriceBar.upsert({
+          where: { tokenId_minute: { tokenId: bar.tokenId, minute: bar.minute } },
+          create: {
+            marketId: asset.marketId,
+            marketSlug: asset.marketSlug,
+            outcomeName: asset.outcomeName,
+            tokenId: bar.tokenId,
+            minute: bar.minute,
+            ...values,
+          },
+          update: values,
+        });
+        summary.barsWritten++;
+      } catch (error) {
+        recordError(`Bar write failed for ${asset.marketSlug} / ${asset.outcomeName}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // Bars from finished minutes are final once written
+    const currentMinute = minuteStart(new Date()).getTime();
+    for (const [key, bar] of bars) {
+      if (bar.minute.getTime() < currentMinute && !dirty.has(key)) bars.delete(key);
+    }
+  }
+
+  async function refresh() {
+    const loaded = await loadStreamedAssets();
+    const next = new Map(loaded.map((a) => [a.tokenId, a]));
+
+    const unchanged = next.size === assets.size && loaded.every((a) => assets.has(a.tokenId));
+    assets = next;
+    if (unchanged && stream) return;
+
+    stream?.close();
+    console.log(`[price-stream] Subscribing to ${next.size} outcome tokens`);
+    if (next.size === 0) {
+      stream = null;
+      return;
+    }
+
+    stream = connectPriceStream({
+      url: options.url,
+      assetIds: Array.from(next.keys()),
+      onTicks: handleTicks,
+      onOpen: () => {
+        if (opened) summary.reconnects++;
+        opened = true;
+        console.log('[price-stream] Connected');
+      },
+      onClose: (reason) => console.log(`[price-stream] Disconnected (${reason})`),
+    });
+  }
+
+  async function prune() {
+    const pruned = await prisma.marketPriceBar.deleteMany({
+      where: { minute: { lt: new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000) } },
+    });
+    if (pruned.count > 0) console.log(`[price-stream] Pruned ${pruned.count} old bars`);
+  }
+
+  await refresh();
+  await prune();
+
+  let flushing = Promise.resolve();
+  const flushTimer = setInterval(() => {
+    flushing = flushing.then(flush);
+  }, FLUSH_INTERVAL_MS);
+
+  const refreshTimer = setInterval(() => {
+    refresh().catch((error) => recordError(`Refresh failed: ${error instanceof Error ? error.message : String(error)}`));
+    prune().catch((error) => recordError(`Prune failed: ${error instanceof Error ? error.message : String(error)}`));
+  }, REFRESH_INTERVAL_MS);
+
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+    if (options.durationMs) setTimeout(resolve, options.durationMs);
+  });
+
+  console.log('[price-stream] Shutting down...');
+  clearInterval(flushTimer);
+  clearInterval(refreshTimer);
+  stream?.close();
+  await flushing;
+  await flush();
+
+  return summary;
+}
+
+function parseArgs(args: string[]): PriceStreamWorkerOptions {
+  const options: PriceStreamWorkerOptions = { url: process.env.POLYMARKET_WS_URL || undefined };
+
+  for (const arg of args) {
+    if (arg.startsWith('--url=')) {
+      options.url = arg.slice('--url='.length);
+    } else if (arg.startsWith('--minutes=')) {
+      options.durationMs = parseFloat(arg.slice('--minutes='.length)) * 60 * 1000;
+    }
+  }
+
+  return options;
+}
+
+// Allow running directly
+if (require.main === module) {
+  runPriceStream(parseArgs(process.argv.slice(2)))
+    .then((summary) => {
+      console.log(
+        `[price-stream] ${summary.ticksReceived} ticks, ${summary.barsWritten} bar writes, ` +
+        `${summary.reconnects} reconnects`
+      );
+      if (summary.errors.length > 0) {
+        console.warn(`Errors (${summary.errorCount}):`, summary.errors.slice(-10));
+      }
+    })
+    .catch((error) => {
+      console.error('Price stream failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(async () => {
+      await prisma.$disconnect();
+      process.exit();
+    });
+}
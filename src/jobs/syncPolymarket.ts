@@ -7,11 +7,15 @@
 
 
 import axios from 'axios';
+import { CLOB_API_BASE } from '../lib/polymarketFetcher';
+import { rankTitleCandidates, addTitleToIndex, outcomeMatchKey, MATCH_ACCEPT_SCORE } from '../lib/titleMatcher';
+import { loadTitleIndex } from '../lib/titleIndexStore';
+import { getOutcomeMappingsByKey, queueOutcomeForReview } from '../lib/outcomeMappings';
+import { resolveSeason } from '../lib/seasons';
 
 import prisma from '@/lib/prisma';
 
 // Polymarket API endpoints
-const POLYMARKET_API_BASE = 'https://clob.polymarket.com';
 const POLYMARKET_GAMMA_API = 'https://gamma-api.polymarket.com';
 
 // Keywords for filtering Netflix-related markets
@@ -48,6 +52,7 @@ interface SyncResult {
   priceSnapshots: number;
   titleLinksCreated: number;
   titlesCreated: number;
+  matchesQueued: number;
   errors: string[];
 }
 
@@ -92,21 +97,12 @@ function getTitleTypeFromCategory(category: string): 'SHOW' | 'MOVIE' {
   return 'SHOW';
 }
 
-/**
- * Clean outcome name for title matching
- * Removes season suffixes for matching but keeps original for display
- */
-function normalizeForMatching(name: string): string {
-  return name
-    .replace(/:\s*Season\s+\d+$/i, '')
-    .replace(/\s*\(.*?\)\s*$/g, '')
-    .trim()
-    .toLowerCase();
-}
-
 /**
  * Sync titles from Polymarket outcomes to our database
- * Creates Title records for any outcomes that don't exist
+ *
+ * Admin-confirmed mappings win, then exact name/alias matches. Fuzzy
+ * matches are queued for review instead of being trusted, and outcomes
+ * with no match get a new Title that is also queued for review.
  */
 async function syncPolymarketTitles(result: SyncResult): Promise<void> {
   const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://predicteasy.vercel.app';
@@ -125,25 +121,9 @@ async function syncPolymarketTitles(result: SyncResult): Promise<void> {
     const markets = flattenMarkets(response.data.data);
     console.log(`Processing ${markets.length} markets for title sync...`);
 
-    // Get all existing titles
-    const existingTitles = await prisma.title.findMany({
-      select: { id: true, canonicalName: true, type: true, aliases: true },
-    });
-
-    // Build a map for fast lookup
-    const titleMap = new Map<string, { id: string; canonicalName: string }>();
-    for (const title of existingTitles) {
-      const normalizedName = normalizeForMatching(title.canonicalName);
-      titleMap.set(`${normalizedName}:${title.type}`, { id: title.id, canonicalName: title.canonicalName });
-
-      // Also index by aliases
-      if (title.aliases && Array.isArray(title.aliases)) {
-        for (const alias of title.aliases as string[]) {
-          const normalizedAlias = normalizeForMatching(alias);
-          titleMap.set(`${normalizedAlias}:${title.type}`, { id: title.id, canonicalName: title.canonicalName });
-        }
-      }
-    }
+    // Title index (with confirmed mappings) and stored review decisions
+    const titleIndex = await loadTitleIndex();
+    const outcomeMappings = await getOutcomeMappingsByKey();
 
     // Track which outcomes we've processed to avoid duplicates
     const processedOutcomes = new Set<string>();
@@ -155,15 +135,42 @@ async function syncPolymarketTitles(result: SyncResult): Promise<void> {
         // Skip "Other" outcomes
         if (outcome.name.toLowerCase() === 'other') continue;
 
-        const normalizedName = normalizeForMatching(outcome.name);
-        const key = `${normalizedName}:${titleType}`;
+        const key = `${outcomeMatchKey(outcome.name)}:${titleType}`;
 
         // Skip if we already processed this outcome
         if (processedOutcomes.has(key)) continue;
         processedOutcomes.add(key);
 
-        // Check if title already exists
-        const existingTitle = titleMap.get(key);
+        // A pending review decision waits for the admin
+        const mapping = outcomeMappings.get(outcomeMatchKey(outcome.name));
+        if (mapping?.status === 'PENDING') {
+          await queueOutcomeForReview({ outcomeName: outcome.name, titleType, reason: mapping.reason, suggestedTitleId: null });
+          continue;
+        }
+
+        const [candidate] = rankTitleCandidates(titleIndex, outcome.name, {
+          type: titleType,
+          externalId: { provider: 'polymarket', externalId: outcome.name },
+          limit: 1,
+        });
+
+        // Anything short of a safe match is only a suggestion until reviewed
+        if (candidate && candidate.score < MATCH_ACCEPT_SCORE) {
+          await queueOutcomeForReview({
+            outcomeName: outcome.name,
+            titleType,
+            reason: 'FUZZY_MATCH',
+            suggestedTitleId: candidate.titleId,
+            marketSlug: market.slug,
+          });
+          result.matchesQueued++;
+          console.log(`Queued ${candidate.reason} match for review: ${outcome.name} ~ ${candidate.canonicalName}`);
+          continue;
+        }
+
+        const existingTitle = candidate
+          ? { id: candidate.titleId, canonicalName: candidate.canonicalName }
+          : undefined;
 
         if (!existingTitle) {
           // Create new Title record
@@ -176,8 +183,8 @@ async function syncPolymarketTitles(result: SyncResult): Promise<void> {
               },
             });
 
-            // Add to map for future lookups in this run
-            titleMap.set(key, { id: newTitle.id, canonicalName: newTitle.canonicalName });
+            // Add to the index for future lookups in this run
+            addTitleToIndex(titleIndex, newTitle);
 
             // Also add external ID to track source
             await prisma.titleExternalId.create({
@@ -188,7 +195,16 @@ async function syncPolymarketTitles(result: SyncResult): Promise<void> {
               },
             });
 
+            await queueOutcomeForReview({
+              outcomeName: outcome.name,
+              titleType,
+              reason: 'AUTO_CREATED',
+              suggestedTitleId: newTitle.id,
+              marketSlug: market.slug,
+            });
+
             result.titlesCreated++;
+            result.matchesQueued++;
             console.log(`Created title: ${outcome.name} (${titleType})`);
           } catch (error) {
             // Handle unique constraint violations (race conditions)
@@ -201,6 +217,9 @@ async function syncPolymarketTitles(result: SyncResult): Promise<void> {
         } else {
           // Title exists - ensure it has a Polymarket external ID
           try {
+            // An outcome naming a season ("Stranger Things: Season 5") gets its Season row
+            await resolveSeason(existingTitle.id, outcome.name);
+
             const existingExtId = await prisma.titleExternalId.findUnique({
               where: {
                 titleId_provider: {
@@ -286,7 +305,7 @@ async function getMarketDetails(conditionId: string): Promise<{
   liquidity: number;
 } | null> {
   try {
-    const response = await axios.get(`${POLYMARKET_API_BASE}/markets/${conditionId}`, {
+    const response = await axios.get(`${CLOB_API_BASE}/markets/${conditionId}`, {
       timeout: 10000,
     });
 
@@ -324,8 +343,8 @@ function isNetflixRelated(question: string): boolean {
 /**
  * Try to link a market to existing Netflix titles
  */
-async function findMatchingTitles(question: string): Promise<string[]> {
-  const matchingTitleIds: string[] = [];
+async function findMatchingTitles(question: string): Promise<{ titleId: string; matchedName: string }[]> {
+  const matches: { titleId: string; matchedName: string }[] = [];
 
   // Get all titles
   const titles = await prisma.title.findMany({
@@ -339,15 +358,16 @@ async function findMatchingTitles(question: string): Promise<string[]> {
       namesToCheck.push(...(title.aliases as string[]));
     }
 
-    for (const name of namesToCheck) {
-      if (question.toLowerCase().includes(name.toLowerCase())) {
-        matchingTitleIds.push(title.id);
-        break;
-      }
+    // Longest name wins, so a season alias beats the bare show name
+    const matchedName = namesToCheck
+      .filter((name) => question.toLowerCase().includes(name.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    if (matchedName) {
+      matches.push({ titleId: title.id, matchedName });
     }
   }
 
-  return matchingTitleIds;
+  return matches;
 }
 
 /**
@@ -436,7 +456,7 @@ async function syncMarkets(events: PolymarketEvent[], result: SyncResult): Promi
 
         // Try to link to Netflix titles
         const matchingTitles = await findMatchingTitles(market.question);
-        for (const titleId of matchingTitles) {
+        for (const { titleId, matchedName } of matchingTitles) {
           const marketRecord = await prisma.polymarketMarket.findUnique({
             where: { conditionId: market.conditionId },
           });
@@ -451,11 +471,18 @@ async function syncMarkets(events: PolymarketEvent[], result: SyncResult): Promi
               },
             });
 
+            const { seasonId } = await resolveSeason(titleId, matchedName);
+
             if (!existingLink) {
               await prisma.marketTitleLink.create({
-                data: { titleId, marketId: marketRecord.id },
+                data: { titleId, seasonId, marketId: marketRecord.id },
               });
               result.titleLinksCreated++;
+            } else if (seasonId && existingLink.seasonId !== seasonId) {
+              await prisma.marketTitleLink.update({
+                where: { id: existingLink.id },
+                data: { seasonId },
+              });
             }
           }
         }
@@ -566,6 +593,7 @@ export async function syncPolymarket(priceSnapshotOnly = false): Promise<SyncRes
     priceSnapshots: 0,
     titleLinksCreated: 0,
     titlesCreated: 0,
+    matchesQueued: 0,
     errors: [],
   };
 
@@ -621,6 +649,7 @@ export async function runPolymarketJob(priceSnapshotOnly = false): Promise<void>
     const duration = Date.now() - startTime;
     console.log(`Polymarket sync complete in ${duration}ms`);
     console.log(`Titles created: ${result.titlesCreated}`);
+    console.log(`Matches queued for review: ${result.matchesQueued}`);
     console.log(`Markets: ${result.marketsCreated} created, ${result.marketsUpdated} updated`);
     console.log(`Price snapshots: ${result.priceSnapshots}`);
     console.log(`Title links: ${result.titleLinksCreated}`);
@@ -0,0 +1,296 @@
+/**
+ * Market Calibration Tracking Job
+ *
+ * Records what the model said about each weekly Polymarket market before it
+ * resolves, then scores it once the market settles:
+ * - Snapshot: stores generateMarketProbabilities output for every category,
+ *   alongside the Polymarket prices the model was compared against, until
+ *   the market's tracking week (or end date) is over
+ * - Resolve: checks unresolved snapshots' markets on Polymarket and, once a
+ *   winner is known, computes Brier score and log loss for model and market
+ *   for the snapshots taken before the cutoff. Later ones already see the
+ *   outcome, so they are closed out unscored.
+ */
+
+import { generateMarketProbabilities } from '../lib/forecaster';
+import { fetchMarketResolution } from '../lib/polymarketFetcher';
+import { trackingWeekStart } from '../lib/nowcast';
+import { evaluateAlertsAfterJob } from '../lib/alertEngine';
+import {
+  CALIBRATION_CATEGORIES,
+  modelDistribution,
+  marketDistribution,
+  brierScore,
+  logLoss,
+  snapshotCutoff,
+  isScoredSnapshot,
+  SnapshotOutcome,
+} from '../lib/calibration';
+
+import prisma from '@/lib/prisma';
+
+export interface CalibrationJobOptions {
+  snapshot?: boolean; // Record current model probabilities (default true)
+  resolve?: boolean;  // Score snapshots whose markets have settled (default true)
+}
+
+export interface CalibrationJobResult {
+  snapshotsCreated: number;
+  marketsChecked: number;
+  marketsResolved: number;
+  snapshotsScored: number;
+  snapshotsSkipped: number; // Taken after the cutoff, closed out without scores
+  errors: string[];
+}
+
+/**
+ * Record the current model distribution for every market category
+ */
+async function snapshotMarketProbabilities(result: CalibrationJobResult): Promise<void> {
+  for (const category of CALIBRATION_CATEGORIES) {
+    try {
+      const probabilities = await generateMarketProbabilities(category);
+
+      if (!probabilities.marketId || probabilities.outcomes.length === 0) {
+        console.log(`[calibration] No active market for ${category}, skipping`);
+        continue;
+      }
+
+      const market = await prisma.polymarketMarket.findUnique({
+        where: { id: probabilities.marketId },
+        select: { outcomes: true, resolved: true, endDate: true },
+      });
+
+      // Nothing left to forecast once the market has settled
+      if (!market || market.resolved) continue;
+
+      // ...or once its week is over: prices by then reflect the outcome
+      const titleType = category.startsWith('shows') ? 'SHOW' : 'MOVIE';
+      const latest = await prisma.netflixWeeklyGlobal.findFirst({
+        where: { title: { type: titleType } },
+        orderBy: { weekStart: 'desc' },
+        select: { weekStart: true },
+      }) as { weekStart: Date } | null;
+      const now = new Date();
+      const cutoffAt = snapshotCutoff(trackingWeekStart(latest?.weekStart ?? null, now), market.endDate);
+      if (now >= cutoffAt) {
+        console.log(`[calibration] Tracking week over for ${category}, skipping`);
+        continue;
+      }
+
+      const marketPrices = new Map<string, number>();
+      if (Array.isArray(market.outcomes)) {
+        for (const outcome of market.outcomes as Array<{ name?: string; probability?: number }>) {
+          if (outcome.name && typeof outcome.probability === 'number') {
+            marketPrices.set(outcome.name, outcome.probability);
+          }
+        }
+      }
+
+      const outcomes: SnapshotOutcome[] = probabilities.outcomes.map((o) => ({
+        name: o.name,
+        titleId: o.titleId,
+        modelProbability: o.probability / 100,
+        marketProbability: marketPrices.get(o.name) ?? null,
+      }));
+
+      await prisma.marketProbabilitySnapshot.create({
+        data: {
+          category,
+          marketId: probabilities.marketId,
+          marketSlug: probabilities.marketSlug,
+          marketQuestion: probabilities.marketQuestion,
+          modelVersion: probabilities.modelVersion,
+          outcomes: outcomes as object[],
+          otherProbability: probabilities.otherProbability / 100,
+          generatedAt: probabilities.generatedAt,
+          cutoffAt,
+        },
+      });
+
+      result.snapshotsCreated++;
+    } catch (error) {
+      result.errors.push(
+        `Snapshot error for ${category}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Score unresolved snapshots whose markets have settled on Polymarket
+ */
+async function resolveSnapshots(result: CalibrationJobResult): Promise<void> {
+  const pending = await prisma.marketProbabilitySnapshot.findMany({
+    where: { resolvedAt: null, marketSlug: { not: null } },
+    select: { marketSlug: true, marketId: true },
+    distinct: ['marketSlug'],
+  });
+
+  for (const { marketSlug, marketId } of pending as Array<{ marketSlug: string; marketId: string | null }>) {
+    result.marketsChecked++;
+
+    try {
+      const resolution = await fetchMarketResolution(marketSlug);
+      if (!resolution?.closed || !resolution.winner) continue;
+
+      const winner = resolution.winner;
+      const resolvedAt = new Date();
+
+      const snapshots = await prisma.marketProbabilitySnapshot.findMany({
+        where: { marketSlug, resolvedAt: null },
+        select: { id: true, outcomes: true, otherProbability: true, generatedAt: true, cutoffAt: true },
+      });
+      const marketRecord = marketId
+        ? await prisma.polymarketMarket.findUnique({ where: { id: marketId }, select: { endDate: true } }) as { endDate: Date | null } | null
+        : null;
+
+      for (const snapshot of snapshots as Array<{
+        id: string;
+        outcomes: SnapshotOutcome[];
+        otherProbability: number;
+        generatedAt: Date;
+        cutoffAt: Date | null;
+      }>) {
+        if (!isScoredSnapshot(snapshot.generatedAt, snapshot.cutoffAt, marketRecord?.endDate ?? null)) {
+          await prisma.marketProbabilitySnapshot.update({
+            where: { id: snapshot.id },
+            data: { resolvedAt, winningOutcome: winner },
+          });
+          result.snapshotsSkipped++;
+          continue;
+        }
+
+        const model = modelDistribution(snapshot.outcomes, snapshot.otherProbability);
+        const market = marketDistribution(snapshot.outcomes);
+
+        await prisma.marketProbabilitySnapshot.update({
+          where: { id: snapshot.id },
+          data: {
+            resolvedAt,
+            winningOutcome: winner,
+            modelBrier: brierScore(model, winner),
+            marketBrier: brierScore(market, winner),
+            modelLogLoss: logLoss(model, winner),
+            marketLogLoss: logLoss(market, winner),
+          },
+        });
+
+        result.snapshotsScored++;
+      }
+
+      if (marketId) {
+        await prisma.polymarketMarket.update({
+          where: { id: marketId },
+          data: { resolved: true },
+        });
+      }
+
+      result.marketsResolved++;
+      console.log(`[calibration] ${marketSlug} resolved to "${winner}" (${snapshots.length} snapshots closed)`);
+    } catch (error) {
+      result.errors.push(
+        `Resolution error for ${marketSlug}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Main calibration tracking function
+ */
+export async function trackMarketCalibration(options: CalibrationJobOptions = {}): Promise<CalibrationJobResult> {
+  const { snapshot = true, resolve = true } = options;
+
+  const result: CalibrationJobResult = {
+    snapshotsCreated: 0,
+    marketsChecked: 0,
+    marketsResolved: 0,
+    snapshotsScored: 0,
+    snapshotsSkipped: 0,
+    errors: [],
+  };
+
+  // Resolve first so a market that just settled isn't snapshotted again
+  if (resolve) await resolveSnapshots(result);
+  if (snapshot) await snapshotMarketProbabilities(result);
+
+  console.log(
+    `[calibration] ${result.snapshotsCreated} snapshots created, ` +
+    `${result.marketsResolved}/${result.marketsChecked} markets resolved, ${result.snapshotsScored} snapshots scored`
+  );
+
+  return result;
+}
+
+/**
+ * Run job with logging
+ */
+export async function runTrackCalibrationJob(options: CalibrationJobOptions = {}): Promise<void> {
+  const startTime = Date.now();
+
+  // Create job run record
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobName: 'track_market_calibration',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    console.log('Starting market calibration tracking...');
+    const result = await trackMarketCalibration(options);
+
+    const duration = Date.now() - startTime;
+    console.log(`Calibration tracking complete in ${duration}ms`);
+
+    if (result.errors.length > 0) {
+      console.warn(`Errors (${result.errors.length}):`, result.errors.slice(0, 10));
+    }
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt: new Date(),
+        detailsJson: {
+          durationMs: duration,
+          ...result,
+          errors: result.errors.slice(0, 100),
+        },
+      },
+    });
+
+    await evaluateAlertsAfterJob('track_market_calibration', jobRun.id);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Calibration tracking failed:', error);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'FAIL',
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+        detailsJson: { durationMs: duration },
+      },
+    });
+
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Allow running directly
+if (require.main === module) {
+  const resolveOnly = process.argv.includes('--resolve-only');
+  const snapshotOnly = process.argv.includes('--snapshot-only');
+
+  runTrackCalibrationJob({
+    snapshot: !resolveOnly,
+    resolve: !snapshotOnly,
+  })
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
+}
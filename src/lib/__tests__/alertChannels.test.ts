@@ -0,0 +1,43 @@
+import { ALERT_CHANNELS, isPrivateAddress } from '../alertChannels';
+
+describe('isPrivateAddress', () => {
+  it('should flag loopback, private, link-local and reserved IPv4', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should allow public IPv4', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '162.159.135.232']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it('should flag internal IPv6 and mapped IPv4', () => {
+    for (const address of ['::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    expect(isPrivateAddress('2606:4700::6810:84e5')).toBe(false);
+  });
+});
+
+describe('webhook target validation', () => {
+  const validate = ALERT_CHANNELS.WEBHOOK.validateTarget;
+
+  it('should require https', async () => {
+    expect(await validate('http://example.com/hook')).toBe('Target must be an https URL');
+    expect(await validate('not a url')).toBe('Target must be a valid URL');
+  });
+
+  it('should reject IP literals and local hostnames before resolving', async () => {
+    expect(await validate('https://169.254.169.254/latest/meta-data')).toMatch(/not an IP address/);
+    expect(await validate('https://[::1]/hook')).toMatch(/not an IP address/);
+    expect(await validate('https://localhost/hook')).toMatch(/public hostname/);
+    expect(await validate('https://internal/hook')).toMatch(/public hostname/);
+  });
+
+  it('should keep the Slack and Discord host allow-lists', async () => {
+    expect(await ALERT_CHANNELS.SLACK.validateTarget('https://example.com/hook')).toMatch(/hooks.slack.com/);
+    expect(await ALERT_CHANNELS.DISCORD.validateTarget('https://example.com/hook')).toMatch(/discord.com/);
+  });
+});
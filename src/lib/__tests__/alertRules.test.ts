@@ -0,0 +1,147 @@
+import {
+  parseRuleParams,
+  evaluateEdgeRule,
+  evaluateInsiderRule,
+  evaluatePriceMoveRule,
+  evaluateAwardDivergenceRule,
+  EdgeObservation,
+  WalletBadgeObservation,
+  InsiderBadgeParams,
+} from '../alertRules';
+
+const edge = (outcomeName: string, edgePercent: number, category: EdgeObservation['category'] = 'shows-global'): EdgeObservation => ({
+  category,
+  marketSlug: 'what-will-be-the-top-global-netflix-show-this-week-812',
+  marketQuestion: 'What will be the top global Netflix show this week?',
+  outcomeName,
+  marketProbability: 0.3,
+  modelProbability: 0.3 + edgePercent / 100,
+  edgePercent,
+  signalStrength: Math.abs(edgePercent) >= 20 ? 'strong' : 'moderate',
+});
+
+describe('parseRuleParams', () => {
+  it('should accept a valid edge rule', () => {
+    expect(parseRuleParams('EDGE_THRESHOLD', { minEdge: 15, category: 'shows-global' })).toEqual({
+      params: { minEdge: 15, category: 'shows-global', direction: undefined },
+    });
+  });
+
+  it('should reject unknown categories and missing thresholds', () => {
+    expect(parseRuleParams('EDGE_THRESHOLD', { minEdge: 15, category: 'shows-mars' }).error).toBeDefined();
+    expect(parseRuleParams('AWARD_DIVERGENCE', {}).error).toBeDefined();
+  });
+
+  it('should default the price move window to 24 hours', () => {
+    expect(parseRuleParams('PRICE_MOVE', { minMove: 10 }).params).toMatchObject({ windowHours: 24 });
+  });
+
+  it('should validate and dedupe insider badge types', () => {
+    expect(parseRuleParams('INSIDER_BADGE', { badgeTypes: ['NOT_A_BADGE'] }).error).toBeDefined();
+    expect(parseRuleParams('INSIDER_BADGE', { badgeTypes: ['BIG_BET', 'BIG_BET'] }).params).toMatchObject({
+      badgeTypes: ['BIG_BET'],
+    });
+  });
+});
+
+describe('evaluateEdgeRule', () => {
+  const observations = [edge('Wednesday', 18), edge('Squid Game', -22), edge('Ginny & Georgia', 6), edge('Adolescence', 25, 'shows-us')];
+
+  it('should fire for edges past the threshold in the category', () => {
+    const alerts = evaluateEdgeRule({ minEdge: 15, category: 'shows-global' }, observations);
+    expect(alerts.map((a) => a.payload.outcomeName)).toEqual(['Wednesday', 'Squid Game']);
+  });
+
+  it('should honour the direction filter', () => {
+    const alerts = evaluateEdgeRule({ minEdge: 15, direction: 'AVOID' }, observations);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].title).toContain('AVOID Squid Game');
+  });
+
+  it('should key alerts by market outcome', () => {
+    const [alert] = evaluateEdgeRule({ minEdge: 15, category: 'shows-global' }, observations);
+    expect(alert.dedupeKey).toBe('what-will-be-the-top-global-netflix-show-this-week-812:wednesday');
+  });
+});
+
+describe('evaluateInsiderRule', () => {
+  const wallet = (badges: WalletBadgeObservation['badges']): WalletBadgeObservation => ({
+    walletId: 'w1',
+    address: '0xabc0000000000000000000000000000000001234',
+    badges,
+    trades: [
+      { id: 't1', marketSlug: 'top-global-netflix-show', marketQuestion: 'Top global Netflix show?', outcomeName: 'Yes', side: 'BUY', usdValue: 5000, price: 0.2 },
+      { id: 't2', marketSlug: 'fed-rates', marketQuestion: 'Fed cuts rates?', outcomeName: 'No', side: 'BUY', usdValue: 50, price: 0.6 },
+    ],
+  });
+  const params: InsiderBadgeParams = { badgeTypes: ['FRESH_WALLET', 'BIG_BET'], marketQuery: 'netflix' };
+
+  it('should fire when a wallet holds every badge and one is new', () => {
+    const alerts = evaluateInsiderRule(params, [wallet([
+      { id: 'b1', type: 'FRESH_WALLET', tradeId: null, reason: 'Wallet is only 2 days old', isNew: false },
+      { id: 'b2', type: 'BIG_BET', tradeId: 't1', reason: 'Trade was 99% of total volume', isNew: true },
+    ])]);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].message).toContain('$5,000');
+    expect(alerts[0].dedupeKey).toBe('w1:b2');
+  });
+
+  it('should not fire without all badges or without a new one', () => {
+    expect(evaluateInsiderRule(params, [wallet([
+      { id: 'b2', type: 'BIG_BET', tradeId: 't1', reason: '', isNew: true },
+    ])])).toEqual([]);
+
+    expect(evaluateInsiderRule(params, [wallet([
+      { id: 'b1', type: 'FRESH_WALLET', tradeId: null, reason: '', isNew: false },
+      { id: 'b2', type: 'BIG_BET', tradeId: 't1', reason: '', isNew: false },
+    ])])).toEqual([]);
+  });
+
+  it('should only consider the trades that earned trade-level badges', () => {
+    const alerts = evaluateInsiderRule({ badgeTypes: ['BIG_BET'], marketQuery: 'netflix' }, [wallet([
+      { id: 'b3', type: 'BIG_BET', tradeId: 't2', reason: '', isNew: true },
+    ])]);
+    expect(alerts).toEqual([]);
+  });
+});
+
+describe('evaluatePriceMoveRule', () => {
+  const move = (currentPrice: number, pastPrice: number) => ({
+    category: 'shows-us',
+    marketSlug: 'top-us-show',
+    marketQuestion: 'Top US show?',
+    outcomeName: 'Wednesday',
+    currentPrice,
+    pastPrice,
+    windowHours: 24,
+  });
+
+  it('should fire on moves in either direction', () => {
+    expect(evaluatePriceMoveRule({ minMove: 10, windowHours: 24 }, [move(0.55, 0.4)])[0].title).toBe('Wednesday up 15.0 pts in 24h');
+    expect(evaluatePriceMoveRule({ minMove: 10, windowHours: 24 }, [move(0.2, 0.4)])[0].dedupeKey).toBe('top-us-show:wednesday:down');
+  });
+
+  it('should ignore small moves and other windows', () => {
+    expect(evaluatePriceMoveRule({ minMove: 10, windowHours: 24 }, [move(0.45, 0.4)])).toEqual([]);
+    expect(evaluatePriceMoveRule({ minMove: 10, windowHours: 6 }, [move(0.8, 0.4)])).toEqual([]);
+  });
+});
+
+describe('evaluateAwardDivergenceRule', () => {
+  it('should fire when Polymarket and the consensus disagree', () => {
+    const alerts = evaluateAwardDivergenceRule({ minDivergence: 10 }, [{
+      showSlug: 'golden-globes-2026',
+      showName: 'Golden Globes 2026',
+      categorySlug: 'best-director',
+      categoryName: 'Best Director',
+      nomineeName: 'Paul Thomas Anderson',
+      polymarketProbability: 0.45,
+      consensusProbability: 0.6,
+      sourceCount: 2,
+    }]);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].title).toContain('-15.0 pts');
+  });
+});
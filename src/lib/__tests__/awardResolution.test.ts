@@ -0,0 +1,120 @@
+import { DEFAULT_CONSENSUS_WEIGHTS } from '../consensusCalculator';
+import { ScorecardCategoryInput, buildScorecard, resolveEventWinner, resolvedShowStatus } from '../awardResolution';
+
+const market = (groupItemTitle: string, yes: number, closed = true) => ({
+  groupItemTitle,
+  outcomePrices: JSON.stringify([String(yes), String(1 - yes)]),
+  closed,
+});
+
+describe('resolveEventWinner', () => {
+  it('should return the single market that settled YES', () => {
+    const event = { closed: true, markets: [market('Timothée Chalamet – A Complete Unknown', 1), market('Adrien Brody – The Brutalist', 0)] };
+    expect(resolveEventWinner(event)).toBe('Timothée Chalamet');
+  });
+
+  it('should return null while the event is open or ambiguous', () => {
+    expect(resolveEventWinner({ closed: false, markets: [market('A', 0.995, false), market('B', 0.005, false)] })).toBeNull();
+    expect(resolveEventWinner({ closed: true, markets: [market('A', 1), market('B', 1)] })).toBeNull();
+    expect(resolveEventWinner({ closed: true, markets: [market('A', 0.5)] })).toBeNull();
+  });
+
+  it('should accept a closed market on an event that is still open', () => {
+    expect(resolveEventWinner({ closed: false, markets: [market('A', 1), market('B', 0.01, false)] })).toBe('A');
+  });
+});
+
+describe('resolvedShowStatus', () => {
+  const ceremonyDate = new Date('2026-03-01T01:00:00Z');
+  const show = (winners: boolean[]) => ({
+    ceremonyDate,
+    status: 'ACTIVE' as const,
+    categories: [
+      ...winners.map((w) => ({ polymarketSlug: 'event', nominees: [{ isWinner: w }, { isWinner: false }] })),
+      { polymarketSlug: null, nominees: [{ isWinner: false }] },
+    ],
+  });
+
+  it('should keep the status before the ceremony is over', () => {
+    expect(resolvedShowStatus(show([true]), new Date('2026-02-28T00:00:00Z'))).toBe('ACTIVE');
+  });
+
+  it('should complete once every Polymarket category has a winner', () => {
+    const after = new Date('2026-03-03T00:00:00Z');
+    expect(resolvedShowStatus(show([true, true]), after)).toBe('COMPLETED');
+    expect(resolvedShowStatus(show([true, false]), after)).toBe('ACTIVE');
+  });
+
+  it('should complete after the wait even with unresolved categories', () => {
+    expect(resolvedShowStatus(show([false]), new Date('2026-03-09T00:00:00Z'))).toBe('COMPLETED');
+  });
+});
+
+describe('buildScorecard', () => {
+  const categories: ScorecardCategoryInput[] = [
+    {
+      id: 'c1',
+      name: 'Best Actor',
+      slug: 'best-actor',
+      nominees: [
+        { id: 'a', name: 'A', isWinner: false, odds: { POLYMARKET: 0.6, GOLDDERBY: 0.5 } },
+        { id: 'b', name: 'B', isWinner: true, odds: { POLYMARKET: 0.3, GOLDDERBY: 0.45 } },
+        { id: 'c', name: 'C', isWinner: false, odds: { POLYMARKET: 0.1, GOLDDERBY: 0.05 } },
+      ],
+    },
+    {
+      id: 'c2',
+      name: 'Best Actress',
+      slug: 'best-actress',
+      nominees: [
+        { id: 'd', name: 'D', isWinner: false, odds: { POLYMARKET: 0.5 } },
+        { id: 'e', name: 'E', isWinner: false, odds: { POLYMARKET: 0.5 } },
+      ],
+    },
+  ];
+  const scorecard = buildScorecard(categories, DEFAULT_CONSENSUS_WEIGHTS);
+  const bySource = Object.fromEntries(scorecard.sources.map((s) => [s.source, s]));
+
+  it('should rank the winner per source', () => {
+    const [actor, actress] = scorecard.categories;
+    expect(actor.winner).toBe('B');
+    expect(actor.winnerRanks).toEqual({ POLYMARKET: 2, GOLDDERBY: 2, CONSENSUS: 2 });
+    expect(actor.winnerProbabilities.GOLDDERBY).toBe(0.45);
+    expect(actress.winner).toBeNull();
+    expect(actress.winnerRanks).toEqual({});
+  });
+
+  it('should score Brier over resolved lines only', () => {
+    expect(bySource.POLYMARKET.lines).toBe(3);
+    expect(bySource.POLYMARKET.brier).toBeCloseTo((0.36 + 0.49 + 0.01) / 3);
+    expect(bySource.GOLDDERBY.brier).toBeCloseTo((0.25 + 0.3025 + 0.0025) / 3);
+    expect(bySource.GOLDDERBY.favoritesWon).toBe(0);
+    expect(bySource.CONSENSUS.meanWinnerRank).toBe(2);
+    expect(scorecard.sources[0].source).toBe('GOLDDERBY');
+  });
+
+  it('should settle flagged edges on the side they point to', () => {
+    expect(scorecard.edges.map((e) => [e.nomineeName, e.side, e.won])).toEqual([
+      ['B', 'YES', true],
+      ['A', 'NO', true],
+      ['C', 'NO', true],
+    ]);
+    expect(scorecard.edges[0].returnPerDollar).toBeCloseTo(0.7 / 0.3);
+    expect(scorecard.edges[1].returnPerDollar).toBeCloseTo(0.6 / 0.4);
+    expect(scorecard.edgeSummary).toEqual({
+      flagged: 3,
+      won: 3,
+      totalReturn: scorecard.edges.reduce((sum, e) => sum + e.returnPerDollar, 0),
+    });
+  });
+
+  it('should count a losing edge as the stake', () => {
+    const losing = buildScorecard(
+      [{ ...categories[0], nominees: categories[0].nominees.map((n) => ({ ...n, isWinner: n.id === 'a' })) }],
+      DEFAULT_CONSENSUS_WEIGHTS
+    );
+    const edge = losing.edges.find((e) => e.nomineeName === 'B')!;
+    expect(edge.won).toBe(false);
+    expect(edge.returnPerDollar).toBe(-1);
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  slugify,
+  parsePolymarketSlug,
+  parseSlugList,
+  showEventSlugs,
+  categoryNameFromEventTitle,
+  matchCategoryName,
+  isCeremonyOver,
+  parseAwardShowInput,
+  parseAwardCategoryInput,
+  parseArticleSourceInput,
+} from '../awardShows';
+
+describe('parsePolymarketSlug', () => {
+  it('should accept a bare slug', () => {
+    expect(parsePolymarketSlug(' oscars-best-picture-winner ')).toBe('oscars-best-picture-winner');
+  });
+
+  it('should pull the slug out of an event URL', () => {
+    expect(parsePolymarketSlug('https://polymarket.com/event/oscars-best-picture-winner?tid=1'))
+      .toBe('oscars-best-picture-winner');
+  });
+
+  it('should reject anything else', () => {
+    expect(parsePolymarketSlug('Best Picture')).toBeNull();
+    expect(parsePolymarketSlug('https://example.com/x')).toBeNull();
+  });
+});
+
+describe('showEventSlugs', () => {
+  it('should merge the show\'s extra slugs with its categories\' without repeats', () => {
+    const slugs = showEventSlugs(
+      ['emmys-best-drama-winner', 'not a slug', 42],
+      [{ polymarketSlug: 'emmys-best-drama-winner' }, { polymarketSlug: 'emmys-best-comedy-winner' }, { polymarketSlug: null }]
+    );
+    expect(slugs).toEqual(['emmys-best-drama-winner', 'emmys-best-comedy-winner']);
+  });
+
+  it('should treat an unset column as no slugs', () => {
+    expect(parseSlugList(null)).toEqual([]);
+  });
+});
+
+describe('categoryNameFromEventTitle', () => {
+  it('should drop the show prefix and winner suffix', () => {
+    expect(categoryNameFromEventTitle('Golden Globes: Best Actor - Drama Winner')).toBe('Best Actor - Drama');
+    expect(categoryNameFromEventTitle('Oscars 2027: Best Picture Winner?')).toBe('Best Picture');
+  });
+
+  it('should keep a title without a prefix', () => {
+    expect(categoryNameFromEventTitle('Best Director Winner')).toBe('Best Director');
+  });
+});
+
+describe('matchCategoryName', () => {
+  const categories = ['Best Director', 'Best Actress – Drama', 'Best Motion Picture - Drama'];
+
+  it('should match ignoring case and dash style', () => {
+    expect(matchCategoryName('best actress - drama', categories)).toBe('Best Actress – Drama');
+  });
+
+  it('should fall back to containment', () => {
+    expect(matchCategoryName('Director', categories)).toBe('Best Director');
+  });
+
+  it('should return null without a match', () => {
+    expect(matchCategoryName('Best Original Song', categories)).toBeNull();
+    expect(matchCategoryName('  ', categories)).toBeNull();
+  });
+});
+
+describe('isCeremonyOver', () => {
+  const ceremony = new Date('2027-03-14T00:00:00Z');
+
+  it('should wait a day after the ceremony date', () => {
+    expect(isCeremonyOver(ceremony, new Date('2027-03-14T20:00:00Z'))).toBe(false);
+    expect(isCeremonyOver(ceremony, new Date('2027-03-15T01:00:00Z'))).toBe(true);
+  });
+});
+
+describe('parseAwardShowInput', () => {
+  it('should default the slug, status and event slugs of a new show', () => {
+    const parsed = parseAwardShowInput({ name: 'Oscars 2027', ceremonyDate: '2027-03-14' });
+    expect(parsed.value).toEqual({
+      name: 'Oscars 2027',
+      slug: slugify('Oscars 2027'),
+      ceremonyDate: new Date('2027-03-14'),
+      status: 'UPCOMING',
+      polymarketEventSlugs: [],
+    });
+  });
+
+  it('should require a name and a valid date', () => {
+    expect(parseAwardShowInput({ ceremonyDate: '2027-03-14' }).error).toBe('name is required');
+    expect(parseAwardShowInput({ name: 'X', ceremonyDate: 'soon' }).error).toBe('ceremonyDate must be a date');
+  });
+
+  it('should only touch the fields given in an update', () => {
+    expect(parseAwardShowInput({ status: 'ACTIVE' }, true).value).toEqual({ status: 'ACTIVE' });
+    expect(parseAwardShowInput({ status: 'DONE' }, true).error).toMatch(/status must be one of/);
+  });
+
+  it('should read event slugs from pasted lines', () => {
+    const parsed = parseAwardShowInput(
+      { polymarketEventSlugs: 'sag-best-cast-winner\nhttps://polymarket.com/event/sag-best-actor-winner\n\n' },
+      true
+    );
+    expect(parsed.value?.polymarketEventSlugs).toEqual(['sag-best-cast-winner', 'sag-best-actor-winner']);
+    expect(parseAwardShowInput({ polymarketEventSlugs: 'Best Cast' }, true).error).toMatch(/Not a Polymarket event/);
+  });
+});
+
+describe('parseAwardCategoryInput', () => {
+  it('should slug the name and normalise the Polymarket event', () => {
+    const parsed = parseAwardCategoryInput({
+      name: 'Best Picture',
+      polymarketSlug: 'https://polymarket.com/event/oscars-best-picture-winner',
+    });
+    expect(parsed.value).toEqual({
+      name: 'Best Picture',
+      slug: 'best-picture',
+      polymarketSlug: 'oscars-best-picture-winner',
+    });
+  });
+
+  it('should clear the Polymarket event on an empty value', () => {
+    expect(parseAwardCategoryInput({ polymarketSlug: '' }, true).value).toEqual({ polymarketSlug: null });
+  });
+
+  it('should reject a negative display order', () => {
+    expect(parseAwardCategoryInput({ displayOrder: -1 }, true).error).toMatch(/displayOrder/);
+  });
+});
+
+describe('parseArticleSourceInput', () => {
+  it('should require an outlet, title and http(s) URL', () => {
+    expect(parseArticleSourceInput({ source: 'Variety', title: 'Predictions', url: 'https://variety.com/x' }).value)
+      .toEqual({ source: 'Variety', title: 'Predictions', url: 'https://variety.com/x', active: true });
+    expect(parseArticleSourceInput({ source: 'Variety', title: 'Predictions', url: 'variety.com' }).error)
+      .toBe('url must be an http(s) URL');
+  });
+
+  it('should allow pausing a source', () => {
+    expect(parseArticleSourceInput({ active: false }, true).value).toEqual({ active: false });
+    expect(parseArticleSourceInput({ active: 'no' }, true).error).toBe('active must be true or false');
+  });
+});
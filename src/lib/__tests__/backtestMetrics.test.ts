@@ -0,0 +1,102 @@
+import {
+  OUTSIDE_TOP_10_RANK,
+  pinballLoss,
+  quantileLoss,
+  toScoredRank,
+  calculateBacktestMetrics,
+  ScoredForecast,
+} from '../backtestMetrics';
+
+const week = new Date('2025-01-05');
+
+function forecast(p10: number, p50: number, p90: number, actualRank: number): ScoredForecast {
+  return { titleId: `t-${p50}-${actualRank}`, weekStart: week, p10, p50, p90, actualRank };
+}
+
+describe('pinballLoss', () => {
+  it('should be zero for a perfect forecast', () => {
+    expect(pinballLoss(3, 3, 0.1)).toBe(0);
+    expect(pinballLoss(3, 3, 0.9)).toBe(0);
+  });
+
+  it('should penalise under-prediction by the quantile', () => {
+    // Actual rank 5, predicted 3 -> diff = 2
+    expect(pinballLoss(5, 3, 0.1)).toBeCloseTo(0.2);
+    expect(pinballLoss(5, 3, 0.9)).toBeCloseTo(1.8);
+  });
+
+  it('should penalise over-prediction by one minus the quantile', () => {
+    // Actual rank 1, predicted 3 -> diff = -2
+    expect(pinballLoss(1, 3, 0.1)).toBeCloseTo(1.8);
+    expect(pinballLoss(1, 3, 0.9)).toBeCloseTo(0.2);
+  });
+
+  it('should be symmetric at the median', () => {
+    expect(pinballLoss(5, 3, 0.5)).toBeCloseTo(pinballLoss(1, 3, 0.5));
+  });
+});
+
+describe('quantileLoss', () => {
+  it('should average the three quantile losses', () => {
+    const loss = quantileLoss({ p10: 2, p50: 3, p90: 5, actualRank: 3 });
+    // p10: 0.1 * 1 = 0.1, p50: 0, p90: (0.9 - 1) * -2 = 0.2
+    expect(loss).toBeCloseTo((0.1 + 0 + 0.2) / 3);
+  });
+});
+
+describe('toScoredRank', () => {
+  it('should keep Top 10 ranks unchanged', () => {
+    expect(toScoredRank(1)).toBe(1);
+    expect(toScoredRank(10)).toBe(10);
+  });
+
+  it('should score missing or out-of-range ranks as outside the Top 10', () => {
+    expect(toScoredRank(null)).toBe(OUTSIDE_TOP_10_RANK);
+    expect(toScoredRank(14)).toBe(OUTSIDE_TOP_10_RANK);
+  });
+});
+
+describe('calculateBacktestMetrics', () => {
+  it('should return null metrics for an empty set', () => {
+    const metrics = calculateBacktestMetrics([]);
+
+    expect(metrics.forecasts).toBe(0);
+    expect(metrics.mae).toBeNull();
+    expect(metrics.intervalCoverage).toBeNull();
+    expect(metrics.pinballLoss).toBeNull();
+    expect(metrics.top1HitRate).toBeNull();
+  });
+
+  it('should compute MAE and interval coverage', () => {
+    const metrics = calculateBacktestMetrics([
+      forecast(1, 2, 4, 2),   // error 0, covered
+      forecast(3, 5, 7, 8),   // error 3, not covered
+      forecast(1, 1, 2, 1),   // error 0, covered
+      forecast(4, 6, 8, OUTSIDE_TOP_10_RANK), // error 5, not covered
+    ]);
+
+    expect(metrics.forecasts).toBe(4);
+    expect(metrics.mae).toBe(2);
+    expect(metrics.intervalCoverage).toBe(0.5);
+    expect(metrics.pinballLoss).toBeGreaterThan(0);
+  });
+
+  it('should compute #1 hit rate only over p50 = #1 calls', () => {
+    const metrics = calculateBacktestMetrics([
+      forecast(1, 1, 2, 1),
+      forecast(1, 1, 3, 2),
+      forecast(1, 1, 2, 1),
+      forecast(2, 4, 6, 1),
+    ]);
+
+    expect(metrics.top1Calls).toBe(3);
+    expect(metrics.top1HitRate).toBeCloseTo(0.667, 3);
+  });
+
+  it('should return null hit rate when no #1 calls were made', () => {
+    const metrics = calculateBacktestMetrics([forecast(2, 3, 5, 1)]);
+
+    expect(metrics.top1Calls).toBe(0);
+    expect(metrics.top1HitRate).toBeNull();
+  });
+});
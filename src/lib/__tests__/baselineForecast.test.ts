@@ -0,0 +1,70 @@
+import {
+  stepSpread,
+  persistenceRankForecast,
+  persistenceViewsForecast,
+} from '../baselineForecast';
+
+function history(points: { rank: number; views?: number | null }[]) {
+  return points.map((p, i) => ({
+    weekStart: new Date(Date.UTC(2025, 0, 5 + i * 7)),
+    rank: p.rank,
+    views: p.views ?? null,
+  }));
+}
+
+describe('stepSpread', () => {
+  it('should be null with fewer than two values', () => {
+    expect(stepSpread([])).toBeNull();
+    expect(stepSpread([4])).toBeNull();
+  });
+
+  it('should be zero for a steady trend', () => {
+    expect(stepSpread([1, 2, 3, 4])).toBe(0);
+  });
+
+  it('should measure how uneven the weekly moves are', () => {
+    // Steps +2, -2 -> mean 0, std 2
+    expect(stepSpread([3, 5, 3])).toBeCloseTo(2);
+  });
+});
+
+describe('persistenceRankForecast', () => {
+  it('should return null without history', () => {
+    expect(persistenceRankForecast([], null)).toBeNull();
+  });
+
+  it('should forecast the last observed rank', () => {
+    const forecast = persistenceRankForecast(history([{ rank: 6 }, { rank: 4 }, { rank: 2 }]), null);
+    expect(forecast?.p50).toBe(2);
+    expect(forecast?.explain.historicalPattern).toBe('persistence');
+  });
+
+  it('should keep the band inside the Top 10', () => {
+    const forecast = persistenceRankForecast(history([{ rank: 1 }]), null)!;
+    expect(forecast.p10).toBe(1);
+    expect(forecast.p90).toBeLessThanOrEqual(10);
+    expect(forecast.p10).toBeLessThanOrEqual(forecast.p50);
+    expect(forecast.p90).toBeGreaterThanOrEqual(forecast.p50);
+  });
+
+  it('should collapse the band for a title that has not moved', () => {
+    const forecast = persistenceRankForecast(history([{ rank: 3 }, { rank: 3 }, { rank: 3 }]), null)!;
+    expect([forecast.p10, forecast.p50, forecast.p90]).toEqual([3, 3, 3]);
+  });
+});
+
+describe('persistenceViewsForecast', () => {
+  it('should return null without any views', () => {
+    expect(persistenceViewsForecast(history([{ rank: 2, views: null }]), null)).toBeNull();
+  });
+
+  it('should forecast the last observed views with p10 above p90', () => {
+    const forecast = persistenceViewsForecast(
+      history([{ rank: 1, views: 8_000_000 }, { rank: 2, views: 5_000_000 }, { rank: 3, views: 4_000_000 }]),
+      null
+    )!;
+    expect(forecast.p50).toBe(4_000_000);
+    expect(forecast.p10).toBeGreaterThan(forecast.p50);
+    expect(forecast.p90).toBeLessThan(forecast.p50);
+  });
+});
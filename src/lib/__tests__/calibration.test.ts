@@ -0,0 +1,200 @@
+import {
+  OTHER_OUTCOME,
+  normalizeDistribution,
+  resolveWinner,
+  brierScore,
+  logLoss,
+  toReliabilityPoints,
+  reliabilityBins,
+  summariseCalibration,
+  snapshotCutoff,
+  isScoredSnapshot,
+  modelDistribution,
+  marketDistribution,
+} from '../calibration';
+
+describe('normalizeDistribution', () => {
+  it('should assign any shortfall to Other', () => {
+    const dist = normalizeDistribution([
+      { name: 'Wednesday', probability: 0.5 },
+      { name: 'Squid Game', probability: 0.3 },
+    ]);
+
+    expect(dist).toHaveLength(3);
+    expect(dist.find((o) => o.name === OTHER_OUTCOME)?.probability).toBeCloseTo(0.2);
+  });
+
+  it('should scale an overround back to 1', () => {
+    const dist = normalizeDistribution([
+      { name: 'Wednesday', probability: 0.6 },
+      { name: 'Squid Game', probability: 0.6 },
+    ]);
+
+    const total = dist.reduce((sum, o) => sum + o.probability, 0);
+    expect(total).toBeCloseTo(1);
+    expect(dist[0].probability).toBeCloseTo(0.5);
+    expect(dist.find((o) => o.name === OTHER_OUTCOME)?.probability).toBe(0);
+  });
+
+  it('should fold a listed Other price into the Other bucket', () => {
+    const dist = normalizeDistribution([
+      { name: 'Wednesday', probability: 0.7 },
+      { name: 'other', probability: 0.1 },
+    ]);
+
+    expect(dist).toHaveLength(2);
+    expect(dist.find((o) => o.name === OTHER_OUTCOME)?.probability).toBeCloseTo(0.3);
+  });
+});
+
+describe('resolveWinner', () => {
+  const dist = normalizeDistribution([{ name: 'Wednesday', probability: 0.6 }]);
+
+  it('should match listed outcomes case-insensitively', () => {
+    expect(resolveWinner(dist, 'wednesday')).toBe('Wednesday');
+  });
+
+  it('should map unlisted winners to Other', () => {
+    expect(resolveWinner(dist, 'Stranger Things')).toBe(OTHER_OUTCOME);
+  });
+});
+
+describe('brierScore', () => {
+  it('should be zero for a certain, correct forecast', () => {
+    const dist = [
+      { name: 'Wednesday', probability: 1 },
+      { name: OTHER_OUTCOME, probability: 0 },
+    ];
+    expect(brierScore(dist, 'Wednesday')).toBe(0);
+  });
+
+  it('should be 2 for a certain, wrong forecast', () => {
+    const dist = [
+      { name: 'Wednesday', probability: 1 },
+      { name: OTHER_OUTCOME, probability: 0 },
+    ];
+    expect(brierScore(dist, 'Stranger Things')).toBe(2);
+  });
+
+  it('should sum squared errors across outcomes', () => {
+    const dist = [
+      { name: 'Wednesday', probability: 0.6 },
+      { name: 'Squid Game', probability: 0.3 },
+      { name: OTHER_OUTCOME, probability: 0.1 },
+    ];
+    // (0.6 - 1)^2 + 0.3^2 + 0.1^2 = 0.16 + 0.09 + 0.01
+    expect(brierScore(dist, 'Wednesday')).toBeCloseTo(0.26);
+  });
+});
+
+describe('logLoss', () => {
+  it('should be the negative log of the winner probability', () => {
+    const dist = [
+      { name: 'Wednesday', probability: 0.5 },
+      { name: OTHER_OUTCOME, probability: 0.5 },
+    ];
+    expect(logLoss(dist, 'Wednesday')).toBeCloseTo(Math.log(2));
+  });
+
+  it('should stay finite when the winner was given zero probability', () => {
+    const dist = [
+      { name: 'Wednesday', probability: 1 },
+      { name: OTHER_OUTCOME, probability: 0 },
+    ];
+    expect(Number.isFinite(logLoss(dist, 'Stranger Things'))).toBe(true);
+  });
+});
+
+describe('reliabilityBins', () => {
+  it('should bucket points and compute observed frequency', () => {
+    const bins = reliabilityBins([
+      { probability: 0.72, hit: true },
+      { probability: 0.78, hit: false },
+      { probability: 0.05, hit: false },
+      { probability: 1, hit: true },
+    ]);
+
+    expect(bins).toHaveLength(10);
+    expect(bins[7].forecasts).toBe(2);
+    expect(bins[7].meanPredicted).toBeCloseTo(0.75);
+    expect(bins[7].observedFrequency).toBe(0.5);
+    expect(bins[0].observedFrequency).toBe(0);
+    // Probability of exactly 1 lands in the top bin
+    expect(bins[9].forecasts).toBe(1);
+    expect(bins[3].meanPredicted).toBeNull();
+  });
+});
+
+describe('summariseCalibration', () => {
+  it('should return null scores for no snapshots', () => {
+    const summary = summariseCalibration([], []);
+
+    expect(summary.snapshots).toBe(0);
+    expect(summary.brier).toBeNull();
+    expect(summary.logLoss).toBeNull();
+  });
+
+  it('should average scores across snapshots', () => {
+    const dist = [
+      { name: 'Wednesday', probability: 0.8 },
+      { name: OTHER_OUTCOME, probability: 0.2 },
+    ];
+    const summary = summariseCalibration(
+      [
+        { brier: 0.1, logLoss: 0.2 },
+        { brier: 0.3, logLoss: 0.4 },
+      ],
+      toReliabilityPoints(dist, 'Wednesday')
+    );
+
+    expect(summary.snapshots).toBe(2);
+    expect(summary.brier).toBeCloseTo(0.2);
+    expect(summary.logLoss).toBeCloseTo(0.3);
+    expect(summary.reliability[8].observedFrequency).toBe(1);
+  });
+});
+
+describe('snapshotCutoff', () => {
+  const weekStart = new Date('2026-03-02T00:00:00Z');
+
+  it('should end at the Monday after the tracking week', () => {
+    expect(snapshotCutoff(weekStart, null)).toEqual(new Date('2026-03-09T00:00:00Z'));
+    expect(snapshotCutoff(weekStart, new Date('2026-03-10T16:00:00Z'))).toEqual(new Date('2026-03-09T00:00:00Z'));
+  });
+
+  it('should end earlier if the market does', () => {
+    const endDate = new Date('2026-03-08T12:00:00Z');
+    expect(snapshotCutoff(weekStart, endDate)).toEqual(endDate);
+  });
+});
+
+describe('isScoredSnapshot', () => {
+  const cutoff = new Date('2026-03-09T00:00:00Z');
+
+  it('should score only snapshots taken before the cutoff', () => {
+    expect(isScoredSnapshot(new Date('2026-03-08T23:00:00Z'), cutoff)).toBe(true);
+    expect(isScoredSnapshot(new Date('2026-03-09T00:00:00Z'), cutoff)).toBe(false);
+  });
+
+  it('should fall back to the market end date for snapshots without a cutoff', () => {
+    expect(isScoredSnapshot(new Date('2026-03-10T00:00:00Z'), null, cutoff)).toBe(false);
+    expect(isScoredSnapshot(new Date('2026-03-10T00:00:00Z'), null, null)).toBe(true);
+  });
+});
+
+describe('snapshot distributions', () => {
+  const outcomes = [
+    { name: 'Wednesday', titleId: 't1', modelProbability: 0.6, marketProbability: 0.5 },
+    { name: 'Squid Game', titleId: 't2', modelProbability: 0.3, marketProbability: null },
+  ];
+
+  it('should add the model Other bucket as stored', () => {
+    expect(modelDistribution(outcomes, 0.1).map((o) => o.probability)).toEqual([0.6, 0.3, 0.1]);
+  });
+
+  it('should treat unpriced outcomes as 0 and give the rest to Other', () => {
+    const market = marketDistribution(outcomes);
+    expect(market.find((o) => o.name === 'Squid Game')?.probability).toBe(0);
+    expect(market.find((o) => o.name === OTHER_OUTCOME)?.probability).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  seededRandom,
+  fitPointsCalibration,
+  estimateContender,
+  simulateChart,
+  Contender,
+} from '../chartSimulator';
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe('seededRandom', () => {
+  it('should repeat a sequence for the same seed', () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+
+  it('should stay within [0, 1)', () => {
+    const random = seededRandom(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('fitPointsCalibration', () => {
+  it('should return null without usable pairs', () => {
+    expect(fitPointsCalibration([])).toBeNull();
+    expect(fitPointsCalibration([{ points: 0, views: 100 }])).toBeNull();
+  });
+
+  it('should fit the level only from a single pair', () => {
+    const calibration = fitPointsCalibration([{ points: 1000, views: 5_000_000 }])!;
+    expect(calibration.slope).toBe(1);
+    expect(Math.exp(calibration.intercept + Math.log(1000))).toBeCloseTo(5_000_000, -2);
+  });
+
+  it('should recover a power law from exact pairs', () => {
+    // views = 2000 * points^1.2
+    const pairs = [200, 500, 1000, 3000].map((points) => ({ points, views: 2000 * points ** 1.2 }));
+    const calibration = fitPointsCalibration(pairs)!;
+    expect(calibration.slope).toBeCloseTo(1.2, 6);
+    expect(calibration.intercept).toBeCloseTo(Math.log(2000), 6);
+  });
+});
+
+describe('estimateContender', () => {
+  it('should carry flat views forward', () => {
+    const contender = estimateContender('a', { weeklyViews: [5e6, 5e6, 5e6], recentPoints: null, previousPoints: null }, null)!;
+    expect(Math.exp(contender.logViews)).toBeCloseTo(5e6, -2);
+  });
+
+  it('should follow the FlixPatrol points trend over the weekly trend', () => {
+    const contender = estimateContender(
+      'a',
+      { weeklyViews: [8e6, 4e6], recentPoints: 2000, previousPoints: 1000 },
+      null
+    )!;
+    // Points doubled, so views double from the last week
+    expect(Math.exp(contender.logViews)).toBeCloseTo(8e6, -2);
+  });
+
+  it('should decay with the weekly trend without points', () => {
+    const contender = estimateContender('a', { weeklyViews: [8e6, 4e6], recentPoints: null, previousPoints: null }, null)!;
+    expect(Math.exp(contender.logViews)).toBeCloseTo(2e6, -2);
+  });
+
+  it('should place a points-only title through the calibration', () => {
+    const calibration = { intercept: Math.log(5000), slope: 1, sigma: 0.3 };
+    const contender = estimateContender('new', { weeklyViews: [], recentPoints: 1000, previousPoints: null }, calibration)!;
+    expect(Math.exp(contender.logViews)).toBeCloseTo(5e6, -2);
+    expect(contender.sigma).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('should return null with nothing to go on', () => {
+    expect(estimateContender('a', { weeklyViews: [], recentPoints: 1000, previousPoints: null }, null)).toBeNull();
+  });
+});
+
+describe('simulateChart', () => {
+  const contenders: Contender[] = [
+    { key: 'leader', logViews: Math.log(20e6), sigma: 0.2 },
+    { key: 'chaser', logViews: Math.log(15e6), sigma: 0.2 },
+    { key: 'back', logViews: Math.log(3e6), sigma: 0.2 },
+  ];
+
+  it('should give each contender a full rank distribution', () => {
+    const simulation = simulateChart(contenders, { iterations: 2000 });
+    for (const c of simulation.contenders) {
+      expect(sum(c.rankProbs)).toBeCloseTo(1, 10);
+    }
+  });
+
+  it('should hold each rank exactly once per draw', () => {
+    const simulation = simulateChart(contenders, { iterations: 2000 });
+    expect(sum(simulation.contenders.map((c) => c.pFirst))).toBeCloseTo(1, 10);
+    expect(sum(simulation.contenders.map((c) => c.pSecond))).toBeCloseTo(1, 10);
+  });
+
+  it('should favour the higher view estimate', () => {
+    const [leader, chaser, back] = simulateChart(contenders, { iterations: 5000 }).contenders;
+    expect(leader.pFirst).toBeGreaterThan(chaser.pFirst);
+    expect(chaser.pSecond).toBeGreaterThan(back.pSecond);
+    expect(back.pFirst).toBeLessThan(0.01);
+  });
+
+  it('should report exacta pairs that sum to one, likeliest first', () => {
+    const { exacta } = simulateChart(contenders, { iterations: 5000 });
+    expect(sum(exacta.map((e) => e.probability))).toBeCloseTo(1, 10);
+    expect(exacta[0]).toMatchObject({ first: 'leader', second: 'chaser' });
+  });
+
+  it('should be reproducible for a seed', () => {
+    const a = simulateChart(contenders, { iterations: 1000, seed: 3 });
+    const b = simulateChart(contenders, { iterations: 1000, seed: 3 });
+    expect(a).toEqual(b);
+  });
+
+  it('should handle an empty field', () => {
+    const simulation = simulateChart([], { iterations: 100 });
+    expect(simulation.contenders).toEqual([]);
+    expect(simulation.exacta).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { DEFAULT_CONSENSUS_WEIGHTS, calculateConsensus } from '../consensusCalculator';
+import { WeightObservation, fitConsensusWeights, logLoss, parseConsensusWeightsConfig } from '../consensusWeights';
+
+// Gold Derby calls every winner, MyBookie is flat, Polymarket is in between
+function observations(categories: number): WeightObservation[] {
+  const result: WeightObservation[] = [];
+  for (let c = 0; c < categories; c++) {
+    for (let n = 0; n < 3; n++) {
+      const isWinner = n === 0;
+      result.push({
+        categoryId: `cat-${c}`,
+        isWinner,
+        odds: {
+          GOLDDERBY: isWinner ? 0.7 : 0.15,
+          MYBOOKIE: 1 / 3,
+          POLYMARKET: isWinner ? 0.5 : 0.25,
+        },
+      });
+    }
+  }
+  return result;
+}
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe('calculateConsensus weights', () => {
+  it('should weight sources by the weights given', () => {
+    const odds = [{ source: 'GOLDDERBY' as const, probability: 0.8 }, { source: 'MYBOOKIE' as const, probability: 0.2 }];
+    expect(calculateConsensus(odds).probability).toBeCloseTo((0.8 * 0.25 + 0.2 * 0.15) / 0.4);
+    expect(calculateConsensus(odds, { ...DEFAULT_CONSENSUS_WEIGHTS, MYBOOKIE: 0 }).probability).toBeCloseTo(0.8);
+  });
+});
+
+describe('logLoss', () => {
+  it('should score outcomes and clamp certainties', () => {
+    expect(logLoss(0.5, true)).toBeCloseTo(Math.log(2));
+    expect(logLoss(0.9, false)).toBeCloseTo(-Math.log(0.1));
+    expect(Number.isFinite(logLoss(0, true))).toBe(true);
+  });
+});
+
+describe('fitConsensusWeights', () => {
+  const proposal = fitConsensusWeights(observations(40), DEFAULT_CONSENSUS_WEIGHTS);
+  const bySource = Object.fromEntries(proposal.sources.map((s) => [s.source, s]));
+
+  it('should count observations and score each source', () => {
+    expect(proposal.observations).toBe(120);
+    expect(proposal.categories).toBe(40);
+    expect(bySource.GOLDDERBY.categories).toBe(40);
+    expect(bySource.GOLDDERBY.logLoss!).toBeLessThan(bySource.MYBOOKIE.logLoss!);
+    expect(bySource.BOVADA.logLoss).toBeNull();
+  });
+
+  it('should move weight toward the better sources', () => {
+    expect(bySource.GOLDDERBY.proposedWeight).toBeGreaterThan(DEFAULT_CONSENSUS_WEIGHTS.GOLDDERBY);
+    expect(bySource.MYBOOKIE.proposedWeight).toBeLessThan(DEFAULT_CONSENSUS_WEIGHTS.MYBOOKIE);
+    expect(proposal.logLoss.proposed!).toBeLessThan(proposal.logLoss.current!);
+  });
+
+  it('should keep sources without observations at their default and sum to 1', () => {
+    expect(bySource.BOVADA.proposedWeight).toBeCloseTo(DEFAULT_CONSENSUS_WEIGHTS.BOVADA, 6);
+    expect(sum(Object.values(proposal.weights))).toBeCloseTo(1);
+  });
+
+  it('should shrink sparse sources toward the defaults', () => {
+    const sparse = fitConsensusWeights(observations(2), DEFAULT_CONSENSUS_WEIGHTS);
+    const sparseGoldDerby = sparse.sources.find((s) => s.source === 'GOLDDERBY')!;
+    expect(sparseGoldDerby.proposedWeight).toBeLessThan(bySource.GOLDDERBY.proposedWeight);
+    expect(sparseGoldDerby.proposedWeight - DEFAULT_CONSENSUS_WEIGHTS.GOLDDERBY)
+      .toBeLessThan(sparseGoldDerby.fittedWeight - DEFAULT_CONSENSUS_WEIGHTS.GOLDDERBY);
+  });
+
+  it('should propose the defaults without observations', () => {
+    const empty = fitConsensusWeights([], DEFAULT_CONSENSUS_WEIGHTS);
+    expect(empty.weights).toEqual(DEFAULT_CONSENSUS_WEIGHTS);
+    expect(empty.logLoss).toEqual({ current: null, proposed: null });
+  });
+});
+
+describe('parseConsensusWeightsConfig', () => {
+  it('should fill missing sources from the defaults and normalize', () => {
+    const parsed = parseConsensusWeightsConfig({ weights: { POLYMARKET: 2 }, asOfHours: 48 });
+    expect(parsed.value?.asOfHours).toBe(48);
+    expect(parsed.value?.weights.POLYMARKET).toBeCloseTo(2 / 2.65);
+    expect(sum(Object.values(parsed.value!.weights))).toBeCloseTo(1);
+  });
+
+  it('should reject unknown sources and bad weights', () => {
+    expect(parseConsensusWeightsConfig({ weights: { PINNACLE: 0.1 } }).error).toMatch(/Unknown odds source/);
+    expect(parseConsensusWeightsConfig({ weights: { BOVADA: -1 } }).error).toMatch(/non-negative/);
+    expect(parseConsensusWeightsConfig({}).error).toBe('weights must be an object');
+    expect(parseConsensusWeightsConfig({ weights: {}, asOfHours: 'day' }).error).toMatch(/asOfHours/);
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  getCountryRegion,
+  calculateRegionalSpreadIndex,
+  calculateCountryBreadth,
+  normalizeCountryBreadth,
+} from '../countryBreadth';
+
+describe('getCountryRegion', () => {
+  it('should map known countries to regions', () => {
+    expect(getCountryRegion('US')).toBe('north-america');
+    expect(getCountryRegion('br')).toBe('latin-america');
+    expect(getCountryRegion('KR')).toBe('asia-pacific');
+  });
+
+  it('should return null for unmapped codes', () => {
+    expect(getCountryRegion('XX')).toBeNull();
+  });
+});
+
+describe('calculateRegionalSpreadIndex', () => {
+  it('should be 0 when nothing charts', () => {
+    expect(calculateRegionalSpreadIndex([])).toBe(0);
+  });
+
+  it('should be 0 for a single-region title', () => {
+    expect(calculateRegionalSpreadIndex(['US', 'CA'])).toBe(0);
+    expect(calculateRegionalSpreadIndex(['FR', 'DE', 'ES', 'IT'])).toBe(0);
+  });
+
+  it('should be 100 for even coverage across every region', () => {
+    // Full coverage of each region -> equal shares
+    expect(calculateRegionalSpreadIndex(['US', 'CA', 'AR', 'BS', 'BO', 'BR', 'CL', 'CO', 'CR', 'DO', 'EC',
+      'SV', 'GP', 'GT', 'HN', 'JM', 'MQ', 'MX', 'NI', 'PA', 'PY', 'PE', 'TT', 'UY', 'VE',
+      'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IS', 'IT',
+      'LV', 'LT', 'LU', 'MT', 'NL', 'NO', 'PL', 'PT', 'RO', 'RS', 'SK', 'SI', 'ES', 'SE', 'CH',
+      'TR', 'UA', 'GB', 'AU', 'BD', 'HK', 'IN', 'ID', 'JP', 'MY', 'MV', 'NC', 'NZ', 'PK', 'PH',
+      'SG', 'KR', 'LK', 'TW', 'TH', 'VN', 'BH', 'EG', 'IL', 'JO', 'KE', 'KW', 'LB', 'MA', 'NG',
+      'OM', 'QA', 'RE', 'SA', 'ZA', 'AE'])).toBe(100);
+  });
+
+  it('should weight by regional coverage, not raw country count', () => {
+    // Both US countries vs 2 of 33 European countries: NA coverage dominates
+    const lopsided = calculateRegionalSpreadIndex(['US', 'CA', 'FR', 'DE']);
+    // Half of NA and half of Europe: equal coverage
+    const balanced = calculateRegionalSpreadIndex(['US', 'FR', 'DE', 'ES', 'IT', 'NL', 'BE', 'PL',
+      'PT', 'SE', 'NO', 'DK', 'FI', 'AT', 'CH', 'GB', 'GR', 'HU']);
+
+    expect(balanced).toBeGreaterThan(lopsided);
+  });
+});
+
+describe('calculateCountryBreadth', () => {
+  it('should count countries, #1s and regions', () => {
+    const breadth = calculateCountryBreadth(
+      [
+        { countryIso2: 'US', rank: 1 },
+        { countryIso2: 'GB', rank: 1 },
+        { countryIso2: 'BR', rank: 4 },
+      ],
+      [{ countryIso2: 'US', rank: 3 }]
+    );
+
+    expect(breadth.countriesInTop10).toBe(3);
+    expect(breadth.countriesAtNumber1).toBe(2);
+    expect(breadth.countryCountDelta).toBe(2);
+    expect(breadth.regionsCharting).toBe(3);
+    expect(breadth.regionalSpreadIndex).toBeGreaterThan(0);
+  });
+
+  it('should return a null delta without a previous week', () => {
+    const breadth = calculateCountryBreadth([{ countryIso2: 'US', rank: 2 }], null);
+    expect(breadth.countryCountDelta).toBeNull();
+  });
+
+  it('should report a drop-out as a negative delta', () => {
+    const breadth = calculateCountryBreadth([], [
+      { countryIso2: 'US', rank: 8 },
+      { countryIso2: 'CA', rank: 9 },
+    ]);
+
+    expect(breadth.countriesInTop10).toBe(0);
+    expect(breadth.countryCountDelta).toBe(-2);
+  });
+});
+
+describe('normalizeCountryBreadth', () => {
+  it('should scale to 0-100', () => {
+    const none = normalizeCountryBreadth({
+      countriesInTop10: 0, countriesAtNumber1: 0, countryCountDelta: null, regionalSpreadIndex: 0, regionsCharting: 0,
+    });
+    const max = normalizeCountryBreadth({
+      countriesInTop10: 90, countriesAtNumber1: 40, countryCountDelta: 5, regionalSpreadIndex: 100, regionsCharting: 5,
+    });
+
+    expect(none).toBe(0);
+    expect(max).toBe(100);
+  });
+});
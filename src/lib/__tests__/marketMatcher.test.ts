@@ -0,0 +1,28 @@
+import { buildTitleCache, matchOutcomeToTitle } from '../marketMatcher';
+import { outcomeMatchKey } from '../titleMatcher';
+
+const titles = [
+  { id: 'a', canonicalName: 'The Night Agent', aliases: [] },
+  { id: 'b', canonicalName: 'The Nightingale', aliases: null },
+];
+
+describe('matchOutcomeToTitle', () => {
+  it('should report a near spelling as a fuzzy match', () => {
+    const match = matchOutcomeToTitle('The Night Agnet', buildTitleCache(titles));
+    expect(match).toMatchObject({ matchedTitleId: 'a', matchConfidence: 'fuzzy' });
+  });
+
+  it('should prefer a confirmed mapping over name matching', () => {
+    const cache = buildTitleCache(titles, [{ outcomeKey: outcomeMatchKey('The Nite Agent'), titleId: 'b' }]);
+    expect(matchOutcomeToTitle('The Nite Agent', cache)).toMatchObject({
+      matchedTitleId: 'b',
+      matchedTitleName: 'The Nightingale',
+      matchConfidence: 'confirmed',
+    });
+  });
+
+  it('should ignore confirmed mappings to titles not in the cache', () => {
+    const cache = buildTitleCache(titles, [{ outcomeKey: outcomeMatchKey('The Night Agent'), titleId: 'gone' }]);
+    expect(matchOutcomeToTitle('The Night Agent', cache)).toMatchObject({ matchedTitleId: 'a', matchConfidence: 'exact' });
+  });
+});
@@ -0,0 +1,79 @@
+import { CountryRow, groupCountryRows, parseWeekRange, rowSeasonTitle } from '../netflixWeeklyRows';
+
+const row = (overrides: Partial<CountryRow>): CountryRow => ({
+  country_iso2: 'GB',
+  country_name: 'United Kingdom',
+  week: '2025-01-06 - 2025-01-12',
+  category: 'TV',
+  weekly_rank: 1,
+  show_title: 'Squid Game',
+  season_title: 'Squid Game: Season 2',
+  ...overrides,
+});
+
+describe('parseWeekRange', () => {
+  it('should parse "start - end" strings', () => {
+    expect(parseWeekRange('2025-01-06 - 2025-01-12')).toEqual({
+      weekStart: new Date('2025-01-06'),
+      weekEnd: new Date('2025-01-12'),
+    });
+  });
+
+  it('should parse Excel serial dates and add six days', () => {
+    const { weekStart, weekEnd } = parseWeekRange(45663);
+    expect(weekStart.toISOString()).toBe('2025-01-06T00:00:00.000Z');
+    expect(weekEnd.getTime() - weekStart.getTime()).toBe(6 * 24 * 60 * 60 * 1000);
+  });
+});
+
+describe('rowSeasonTitle', () => {
+  it('should treat "N/A" and blanks as no season', () => {
+    expect(rowSeasonTitle('N/A')).toBeNull();
+    expect(rowSeasonTitle('')).toBeNull();
+    expect(rowSeasonTitle(undefined)).toBeNull();
+    expect(rowSeasonTitle('Squid Game: Season 2')).toBe('Squid Game: Season 2');
+  });
+});
+
+describe('groupCountryRows', () => {
+  it('should group rows by week start', () => {
+    const { weeks, errors } = groupCountryRows([
+      row({}),
+      row({ country_iso2: 'US', country_name: 'United States', weekly_rank: 2 }),
+      row({ week: '2025-01-13 - 2025-01-19' }),
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(weeks.map((w) => [w.weekStart.toISOString().split('T')[0], w.entries.length])).toEqual([
+      ['2025-01-06', 2],
+      ['2025-01-13', 1],
+    ]);
+    expect(weeks[0].entries[1]).toMatchObject({ countryIso2: 'US', rank: 2, type: 'SHOW' });
+  });
+
+  it('should prefer the season title and fall back to the show title', () => {
+    const { weeks } = groupCountryRows([
+      row({}),
+      row({ category: 'Films', show_title: 'Back in Action', season_title: 'N/A' }),
+    ]);
+    expect(weeks[0].entries.map((e) => [e.titleName, e.seasonTitle, e.type])).toEqual([
+      ['Squid Game: Season 2', 'Squid Game: Season 2', 'SHOW'],
+      ['Back in Action', null, 'MOVIE'],
+    ]);
+  });
+
+  it('should drop rows without a country or title', () => {
+    const { weeks, errors } = groupCountryRows([
+      row({ country_iso2: '' }),
+      row({ show_title: 'N/A', season_title: 'N/A' }),
+    ]);
+    expect(weeks).toEqual([]);
+    expect(errors).toEqual([]);
+  });
+
+  it('should report unknown categories and unreadable weeks', () => {
+    const { weeks, errors } = groupCountryRows([row({ category: 'Games' }), row({ week: 'not a week' })]);
+    expect(weeks).toEqual([]);
+    expect(errors).toEqual(['Unknown category: Games', 'Invalid week: not a week']);
+  });
+});
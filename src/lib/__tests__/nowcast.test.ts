@@ -0,0 +1,143 @@
+import {
+  TRACKING_DAYS,
+  trackingWeekStart,
+  projectWeekPoints,
+  nowcastContender,
+} from '../nowcast';
+import { simulateChart } from '../chartSimulator';
+
+const calibration = { intercept: Math.log(1000), slope: 1, sigma: 0.2 };
+
+describe('trackingWeekStart', () => {
+  const published = new Date('2024-06-03T00:00:00Z'); // Monday
+
+  it('should track the week after the latest published one', () => {
+    expect(trackingWeekStart(published, new Date('2024-06-13T12:00:00Z')).toISOString())
+      .toBe('2024-06-10T00:00:00.000Z');
+  });
+
+  it('should keep tracking a finished week until its results are due', () => {
+    expect(trackingWeekStart(published, new Date('2024-06-17T12:00:00Z')).toISOString())
+      .toBe('2024-06-10T00:00:00.000Z');
+  });
+
+  it('should move on once the results are overdue', () => {
+    expect(trackingWeekStart(published, new Date('2024-06-19T12:00:00Z')).toISOString())
+      .toBe('2024-06-17T00:00:00.000Z');
+  });
+
+  it('should fall back to the Monday of the as-of week', () => {
+    expect(trackingWeekStart(null, new Date('2024-06-16T23:00:00Z')).toISOString())
+      .toBe('2024-06-10T00:00:00.000Z');
+  });
+});
+
+describe('projectWeekPoints', () => {
+  it('should carry a flat title at its level', () => {
+    const projection = projectWeekPoints([100, 100, 100]);
+    expect(projection.observedPoints).toBe(300);
+    expect(projection.dailyGrowth).toBe(0);
+    expect(projection.projectedPoints).toBeCloseTo(700, 6);
+  });
+
+  it('should return the observed total for a finished week', () => {
+    const projection = projectWeekPoints(new Array(TRACKING_DAYS).fill(50));
+    expect(projection.projectedPoints).toBe(350);
+  });
+
+  it('should project a rising title above its flat level', () => {
+    const rising = projectWeekPoints([50, 70, 100]);
+    expect(rising.dailyGrowth).toBeGreaterThan(0);
+    expect(rising.projectedPoints).toBeGreaterThan(220 + 85 * 4);
+  });
+
+  it('should bound the daily trend', () => {
+    expect(projectWeekPoints([10, 100]).dailyGrowth).toBe(0.2);
+    expect(projectWeekPoints([1000, 10]).dailyGrowth).toBe(-0.3);
+  });
+
+  it('should ignore steps from days off the chart', () => {
+    expect(projectWeekPoints([0, 100, 100]).dailyGrowth).toBe(0);
+  });
+
+  it('should handle no observed days', () => {
+    expect(projectWeekPoints([]).projectedPoints).toBe(0);
+  });
+
+  it('should project a mid-week release along its premiere curve', () => {
+    const flat = new Array(21).fill(1 / 21);
+    // Released Thursday; Monday–Wednesday before release, Thursday observed
+    const projection = projectWeekPoints([0, 0, 0, 90], { curve: flat, releaseOffset: 3 });
+    expect(projection.premiereCurve).toBe(true);
+    expect(projection.projectedPoints).toBeCloseTo(360, 6);
+  });
+
+  it('should fall back to the trend before the release has charted', () => {
+    const flat = new Array(21).fill(1 / 21);
+    const projection = projectWeekPoints([0, 0], { curve: flat, releaseOffset: 4 });
+    expect(projection.premiereCurve).toBe(false);
+  });
+});
+
+describe('nowcastContender', () => {
+  it('should scale last week\'s views by the projected points', () => {
+    const contender = nowcastContender(
+      'a',
+      { dailyPoints: new Array(TRACKING_DAYS).fill(200), previousWeekViews: 10_000_000, previousWeekPoints: 1000 },
+      null
+    )!;
+    expect(contender.basis).toBe('views_ratio');
+    expect(Math.exp(contender.logViews)).toBeCloseTo(14_000_000, -2);
+  });
+
+  it('should use the calibration for titles without last week\'s views', () => {
+    const contender = nowcastContender(
+      'b',
+      { dailyPoints: [100, 100, 100], previousWeekViews: null, previousWeekPoints: null },
+      calibration
+    )!;
+    expect(contender.basis).toBe('calibration');
+    expect(Math.exp(contender.logViews)).toBeCloseTo(700_000, -2);
+  });
+
+  it('should return null with nothing to convert points with', () => {
+    expect(nowcastContender('c', { dailyPoints: [100], previousWeekViews: null, previousWeekPoints: null }, null))
+      .toBeNull();
+  });
+
+  it('should return null for a title with no points', () => {
+    expect(nowcastContender('d', { dailyPoints: [0, 0], previousWeekViews: 1000, previousWeekPoints: 10 }, calibration))
+      .toBeNull();
+  });
+
+  it('should narrow as the week is observed', () => {
+    const input = (days: number) => ({
+      dailyPoints: new Array(days).fill(100),
+      previousWeekViews: 5_000_000,
+      previousWeekPoints: 700,
+    });
+    const monday = nowcastContender('a', input(1), null)!;
+    const thursday = nowcastContender('a', input(4), null)!;
+    const sunday = nowcastContender('a', input(TRACKING_DAYS), null)!;
+    expect(thursday.sigma).toBeLessThan(monday.sigma);
+    expect(sunday.sigma).toBeLessThan(thursday.sigma);
+  });
+
+  it('should firm up the leader\'s P(#1) as days land', () => {
+    const pFirst = (days: number) => {
+      const leader = nowcastContender(
+        'leader',
+        { dailyPoints: new Array(days).fill(120), previousWeekViews: 10_000_000, previousWeekPoints: 700 },
+        null
+      )!;
+      const chaser = nowcastContender(
+        'chaser',
+        { dailyPoints: new Array(days).fill(100), previousWeekViews: 10_000_000, previousWeekPoints: 700 },
+        null
+      )!;
+      return simulateChart([leader, chaser], { iterations: 5000 }).contenders[0].pFirst;
+    };
+    expect(pFirst(6)).toBeGreaterThan(pFirst(2));
+    expect(pFirst(2)).toBeGreaterThan(0.5);
+  });
+});
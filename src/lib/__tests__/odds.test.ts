@@ -0,0 +1,102 @@
+import {
+  americanToProbability,
+  fractionalToProbability,
+  decimalToProbability,
+  percentToProbability,
+  parseOdds,
+  overround,
+  devig,
+} from '../odds';
+
+describe('americanToProbability', () => {
+  it('should price favorites and underdogs', () => {
+    expect(americanToProbability(-200)).toBeCloseTo(2 / 3);
+    expect(americanToProbability(200)).toBeCloseTo(1 / 3);
+    expect(americanToProbability(100)).toBeCloseTo(0.5);
+  });
+
+  it('should reject values inside +/-100', () => {
+    expect(americanToProbability(50)).toBeNull();
+    expect(americanToProbability(-99)).toBeNull();
+  });
+});
+
+describe('other formats', () => {
+  it('should convert fractional, decimal and percent odds', () => {
+    expect(fractionalToProbability(5, 2)).toBeCloseTo(2 / 7);
+    expect(decimalToProbability(3.5)).toBeCloseTo(2 / 7);
+    expect(percentToProbability(85)).toBeCloseTo(0.85);
+  });
+
+  it('should reject impossible values', () => {
+    expect(fractionalToProbability(5, 0)).toBeNull();
+    expect(decimalToProbability(0.9)).toBeNull();
+    expect(percentToProbability(120)).toBeNull();
+  });
+});
+
+describe('parseOdds', () => {
+  it('should read a bare number in the given format', () => {
+    expect(parseOdds('250', 'american')).toEqual({ probability: 100 / 350, format: 'american', rawOdds: '250' });
+    expect(parseOdds('4', 'decimal')?.probability).toBeCloseTo(0.25);
+    expect(parseOdds('40', 'percent')?.probability).toBeCloseTo(0.4);
+    expect(parseOdds('3', 'fractional')?.probability).toBeCloseTo(0.25);
+  });
+
+  it('should let a value\'s own markers override the format', () => {
+    expect(parseOdds('85%', 'american')).toMatchObject({ probability: 0.85, format: 'percent' });
+    expect(parseOdds('5/2', 'percent')?.format).toBe('fractional');
+    expect(parseOdds('+150', 'decimal')).toMatchObject({ probability: 0.4, format: 'american' });
+    expect(parseOdds('-1,000', 'percent')?.probability).toBeCloseTo(1000 / 1100);
+    expect(parseOdds('Evens', 'american')?.probability).toBe(0.5);
+  });
+
+  it('should keep the value as entered', () => {
+    expect(parseOdds(' 5 / 2 ', 'american')?.rawOdds).toBe('5 / 2');
+  });
+
+  it('should return null for unreadable values', () => {
+    expect(parseOdds('', 'american')).toBeNull();
+    expect(parseOdds('n/a', 'american')).toBeNull();
+    expect(parseOdds('50', 'american')).toBeNull();
+  });
+});
+
+describe('devig', () => {
+  // -150 / +150 / +300: a 125% book
+  const book = [0.6, 0.4, 0.25];
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+  it('should measure the overround', () => {
+    expect(overround(book)).toBeCloseTo(0.25);
+  });
+
+  it.each(['multiplicative', 'additive', 'shin', 'power'] as const)('should make a %s book sum to 1', (method) => {
+    const fair = devig(book, method);
+    expect(sum(fair)).toBeCloseTo(1, 6);
+    expect(fair[0]).toBeGreaterThan(fair[1]);
+    expect(fair[1]).toBeGreaterThan(fair[2]);
+  });
+
+  it('should scale every line the same when multiplicative', () => {
+    expect(devig(book, 'multiplicative')).toEqual(book.map((p) => p / 1.25));
+  });
+
+  it('should take more off longshots with shin and power than multiplicative', () => {
+    const multiplicative = devig(book, 'multiplicative');
+    expect(devig(book, 'shin')[2]).toBeLessThan(multiplicative[2]);
+    expect(devig(book, 'power')[2]).toBeLessThan(multiplicative[2]);
+  });
+
+  it('should zero additive lines the margin would push below 0', () => {
+    const fair = devig([0.9, 0.3, 0.05], 'additive');
+    expect(fair[2]).toBe(0);
+    expect(sum(fair)).toBeCloseTo(1);
+  });
+
+  it('should leave partial, margin-free and single-line books as quoted', () => {
+    expect(devig([0.5, 0.3], 'shin')).toEqual([0.5, 0.3]);
+    expect(devig([0.8], 'power')).toEqual([0.8]);
+    expect(devig(book, 'none')).toEqual(book);
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  parseOddsSheet,
+  matchNominee,
+  buildOddsPreview,
+  devigPreview,
+  oddsTemplateCsv,
+  parseOddsEntryRequest,
+  EntryCategory,
+} from '../oddsEntry';
+
+const categories: EntryCategory[] = [
+  {
+    id: 'dir',
+    name: 'Best Director',
+    nominees: [
+      { id: 'pta', name: 'Paul Thomas Anderson' },
+      { id: 'coogler', name: 'Ryan Coogler' },
+    ],
+  },
+  {
+    id: 'actress',
+    name: 'Best Actress – Drama',
+    nominees: [
+      { id: 'buckley', name: 'Jessie Buckley' },
+      { id: 'reinsve', name: 'Renate Reinsve' },
+    ],
+  },
+];
+
+describe('parseOddsSheet', () => {
+  it('should read category,nominee,odds lines and take the format from the header', () => {
+    const sheet = parseOddsSheet('\uFEFFcategory,nominee,percent\nBest Director,"Anderson, Paul Thomas",62\n', 'american');
+    expect(sheet.format).toBe('percent');
+    expect(sheet.rows).toEqual([{ line: 2, category: 'Best Director', nominee: 'Anderson, Paul Thomas', odds: '62' }]);
+  });
+
+  it('should read two-column, tab-separated and "Name +150" lines', () => {
+    const sheet = parseOddsSheet('Ryan Coogler,+650\nJessie Buckley\t-400\nRenate Reinsve +300', 'american');
+    expect(sheet.rows.map((r) => [r.category, r.nominee, r.odds])).toEqual([
+      [null, 'Ryan Coogler', '+650'],
+      [null, 'Jessie Buckley', '-400'],
+      [null, 'Renate Reinsve', '+300'],
+    ]);
+  });
+
+  it('should skip comments, blank lines and lines without odds', () => {
+    const sheet = parseOddsSheet('# MyBookie 2027-01-03\n\nBest Director,Ryan Coogler,\nRyan Coogler,+650', 'american');
+    expect(sheet.rows).toHaveLength(1);
+    expect(sheet.rows[0].line).toBe(4);
+  });
+});
+
+describe('matchNominee', () => {
+  const nominees = [{ name: 'Renée Zellweger' }, { name: 'Paul Thomas Anderson' }, { name: 'Wes Anderson' }];
+
+  it('should match ignoring accents and case', () => {
+    expect(matchNominee('renee zellweger', nominees)?.name).toBe('Renée Zellweger');
+  });
+
+  it('should fall back to containment, then the last name', () => {
+    expect(matchNominee('Zellweger', nominees)?.name).toBe('Renée Zellweger');
+    expect(matchNominee('P.T. Anderson', nominees)?.name).toBe('Paul Thomas Anderson');
+  });
+
+  it('should return null without a match', () => {
+    expect(matchNominee('Greta Gerwig', nominees)).toBeNull();
+  });
+});
+
+describe('buildOddsPreview', () => {
+  it('should match rows to categories and nominees', () => {
+    const sheet = parseOddsSheet('Best Actress - Drama,Buckley,-400\nBest Director,Coogler,+650', 'american');
+    const rows = buildOddsPreview(sheet, categories, null);
+    expect(rows.map((r) => [r.status, r.categoryId, r.nomineeId])).toEqual([
+      ['matched', 'actress', 'buckley'],
+      ['matched', 'dir', 'coogler'],
+    ]);
+    expect(rows[0].probability).toBeCloseTo(0.8);
+  });
+
+  it('should use the picked category for rows that don\'t name one', () => {
+    const rows = buildOddsPreview(parseOddsSheet('Coogler,+650', 'american'), categories, 'dir');
+    expect(rows[0].nomineeId).toBe('coogler');
+  });
+
+  it('should flag rows it cannot match or price', () => {
+    const sheet = parseOddsSheet('Best Song,Someone,+200\nBest Director,Greta Gerwig,+900\nBest Director,Coogler,+50', 'american');
+    expect(buildOddsPreview(sheet, categories, null).map((r) => r.status))
+      .toEqual(['unknown_category', 'unknown_nominee', 'invalid_odds']);
+  });
+
+  it('should apply overrides by line number', () => {
+    const sheet = parseOddsSheet('Best Director,PTA,-500\nBest Director,Coogler,+650', 'american');
+    const rows = buildOddsPreview(sheet, categories, null, { 1: 'pta', 2: null });
+    expect(rows.map((r) => [r.status, r.nomineeName])).toEqual([
+      ['matched', 'Paul Thomas Anderson'],
+      ['skipped', null],
+    ]);
+  });
+});
+
+describe('devigPreview', () => {
+  const sheet = parseOddsSheet(
+    'Best Director,PTA,-300\nBest Director,Coogler,+150\nBest Director,Coogler,+200\nBest Actress - Drama,Buckley,-400\nBest Song,Someone,+200',
+    'american'
+  );
+  const preview = buildOddsPreview(sheet, categories, null, { 1: 'pta' });
+
+  it('should de-vig each category as one book, counting a nominee\'s last line', () => {
+    const { rows, books } = devigPreview(preview, 'multiplicative');
+    expect(books).toEqual([
+      { categoryId: 'dir', categoryName: 'Best Director', lines: 2, overround: expect.closeTo(0.0833, 3) },
+      { categoryId: 'actress', categoryName: 'Best Actress – Drama', lines: 1, overround: expect.closeTo(-0.2, 6) },
+    ]);
+    expect(rows[0].fairProbability).toBeCloseTo(0.75 / 1.0833, 3);
+    expect(rows[0].devigMethod).toBe('multiplicative');
+    expect(rows[1].fairProbability).toBeNull();
+    expect(rows[2].fairProbability).toBeCloseTo(0.3333 / 1.0833, 3);
+  });
+
+  it('should leave books without a margin as quoted', () => {
+    const { rows } = devigPreview(preview, 'shin');
+    expect(rows[3]).toMatchObject({ probability: 0.8, fairProbability: 0.8, devigMethod: null });
+    expect(rows[4].fairProbability).toBeNull();
+  });
+});
+
+describe('oddsTemplateCsv', () => {
+  it('should list every nominee under a format header, quoting where needed', () => {
+    const csv = oddsTemplateCsv('percent', [{ id: 'x', name: 'Best Film, Drama', nominees: [{ id: 'y', name: 'Sinners' }] }]);
+    expect(csv).toBe('category,nominee,percent\n"Best Film, Drama",Sinners,\n');
+    expect(parseOddsSheet(csv, 'american')).toEqual({ format: 'percent', rows: [] });
+  });
+});
+
+describe('parseOddsEntryRequest', () => {
+  it('should default the format to the source\'s', () => {
+    const parsed = parseOddsEntryRequest({ showId: 's', source: 'GOLDDERBY', text: 'a,1' });
+    expect(parsed.value).toEqual({
+      showId: 's',
+      source: 'GOLDDERBY',
+      text: 'a,1',
+      format: 'percent',
+      devigMethod: 'multiplicative',
+      categoryId: null,
+      overrides: {},
+      url: null,
+    });
+  });
+
+  it('should reject synced sources and bad fields', () => {
+    expect(parseOddsEntryRequest({ showId: 's', source: 'POLYMARKET', text: 'a,1' }).error).toMatch(/source must be one of/);
+    expect(parseOddsEntryRequest({ showId: 's', source: 'MYBOOKIE', text: ' ' }).error).toBe('text is required');
+    expect(parseOddsEntryRequest({ showId: 's', source: 'MYBOOKIE', text: 'a,1', format: 'moneyline' }).error)
+      .toMatch(/format must be one of/);
+    expect(parseOddsEntryRequest({ showId: 's', source: 'MYBOOKIE', text: 'a,1', devigMethod: 'fair' }).error)
+      .toMatch(/devigMethod must be one of/);
+    expect(parseOddsEntryRequest({ showId: 's', source: 'MYBOOKIE', text: 'a,1', url: 'goldderby' }).error)
+      .toMatch(/url/);
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  parseOrderBook,
+  summariseOrderBook,
+  fillStake,
+  calculateExecutableEdge,
+  classifyExecutableSignal,
+} from '../orderBook';
+
+// Thin book around a 0.30 midpoint: $60 at the touch, then a jump
+const thinBook = parseOrderBook({
+  bids: [
+    { price: '0.20', size: '500' },
+    { price: '0.28', size: '200' },
+  ],
+  asks: [
+    { price: '0.45', size: '1000' },
+    { price: '0.32', size: '187.5' },
+  ],
+});
+
+describe('parseOrderBook', () => {
+  it('should sort bids descending and asks ascending', () => {
+    expect(thinBook.bids.map((l) => l.price)).toEqual([0.28, 0.2]);
+    expect(thinBook.asks.map((l) => l.price)).toEqual([0.32, 0.45]);
+  });
+
+  it('should drop empty and malformed levels', () => {
+    const book = parseOrderBook({ bids: [{ price: 'x', size: '10' }, { price: '0.5', size: '0' }], asks: [] });
+    expect(book.bids).toEqual([]);
+  });
+});
+
+describe('summariseOrderBook', () => {
+  it('should report touch prices, spread and depth', () => {
+    const summary = summariseOrderBook(thinBook);
+
+    expect(summary.bestBid).toBe(0.28);
+    expect(summary.bestAsk).toBe(0.32);
+    expect(summary.midpoint).toBe(0.3);
+    expect(summary.spread).toBe(0.04);
+    expect(summary.askDepth).toBe(510);
+  });
+
+  it('should leave prices null for a one-sided book', () => {
+    const summary = summariseOrderBook(parseOrderBook({ asks: [{ price: 0.4, size: 10 }] }));
+    expect(summary.midpoint).toBeNull();
+    expect(summary.spread).toBeNull();
+  });
+});
+
+describe('fillStake', () => {
+  it('should fill at the touch when the first level is deep enough', () => {
+    const fill = fillStake(thinBook, 'YES', 30)!;
+    expect(fill.averagePrice).toBe(0.32);
+    expect(fill.fullyFilled).toBe(true);
+  });
+
+  it('should walk into deeper levels', () => {
+    // $60 at 0.32, then $140 at 0.45
+    const fill = fillStake(thinBook, 'YES', 200)!;
+    expect(fill.worstPrice).toBe(0.45);
+    expect(fill.averagePrice).toBeGreaterThan(0.32);
+    expect(fill.averagePrice).toBeLessThan(0.45);
+  });
+
+  it('should buy NO against the bids at one minus the price', () => {
+    const fill = fillStake(thinBook, 'NO', 10)!;
+    expect(fill.bestPrice).toBeCloseTo(0.72);
+  });
+
+  it('should report a partial fill when the book runs out', () => {
+    const fill = fillStake(thinBook, 'YES', 1000)!;
+    expect(fill.fullyFilled).toBe(false);
+    expect(fill.filledStake).toBe(510);
+  });
+
+  it('should return null for an empty side', () => {
+    expect(fillStake(parseOrderBook({ bids: [] }), 'NO', 10)).toBeNull();
+  });
+});
+
+describe('calculateExecutableEdge', () => {
+  it('should shrink the edge by slippage', () => {
+    const execution = calculateExecutableEdge(0.5, 0.3, thinBook, 200)!;
+
+    expect(execution.side).toBe('YES');
+    expect(execution.edgePercent).toBeLessThan(20);
+    expect(execution.slippagePercent).toBeGreaterThan(2);
+    expect(execution.edgePercent + execution.slippagePercent).toBeCloseTo(20);
+  });
+
+  it('should use the bid side for overpriced outcomes', () => {
+    const execution = calculateExecutableEdge(0.1, 0.3, thinBook, 20)!;
+
+    expect(execution.side).toBe('NO');
+    expect(execution.executablePrice).toBe(0.28);
+    expect(execution.edgePercent).toBeCloseTo(-18);
+  });
+});
+
+describe('classifyExecutableSignal', () => {
+  it('should fall back to the mid edge without a book', () => {
+    expect(classifyExecutableSignal(25, null, true)).toEqual({ signal: 'BUY', strength: 'strong' });
+  });
+
+  it('should downgrade an edge that vanishes after slippage', () => {
+    // 22 points at the mid, but $200 walks well up the ladder
+    const execution = calculateExecutableEdge(0.52, 0.3, thinBook, 200)!;
+    const result = classifyExecutableSignal(22, execution, true);
+
+    expect(result.strength).not.toBe('strong');
+  });
+
+  it('should HOLD when execution flips the edge', () => {
+    const execution = calculateExecutableEdge(0.33, 0.3, thinBook, 200)!;
+    expect(classifyExecutableSignal(3, execution, true).signal).toBe('HOLD');
+  });
+
+  it('should cap strength when the book cannot fill the stake', () => {
+    const execution = calculateExecutableEdge(0.9, 0.3, thinBook, 1000)!;
+    expect(classifyExecutableSignal(60, execution, true)).toEqual({ signal: 'BUY', strength: 'weak' });
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  DEFAULT_PORTFOLIO_SETTINGS,
+  resolveSettings,
+  kellyFraction,
+  quoteSide,
+  calculateStake,
+  settlePosition,
+  buildEquityCurve,
+  summarisePortfolio,
+} from '../paperTrading';
+
+describe('resolveSettings', () => {
+  it('should fall back to defaults for missing or invalid values', () => {
+    const settings = resolveSettings({ flatStake: 50, kellyFraction: 'half', minEdge: -1 });
+
+    expect(settings.flatStake).toBe(50);
+    expect(settings.kellyFraction).toBe(DEFAULT_PORTFOLIO_SETTINGS.kellyFraction);
+    expect(settings.minEdge).toBe(DEFAULT_PORTFOLIO_SETTINGS.minEdge);
+  });
+
+  it('should return defaults for non-object input', () => {
+    expect(resolveSettings(null)).toEqual(DEFAULT_PORTFOLIO_SETTINGS);
+  });
+});
+
+describe('kellyFraction', () => {
+  it('should compute (q - p) / (1 - p)', () => {
+    // Model 60%, price 40% -> 0.2 / 0.6
+    expect(kellyFraction(0.6, 0.4)).toBeCloseTo(1 / 3);
+  });
+
+  it('should be zero without an edge', () => {
+    expect(kellyFraction(0.3, 0.4)).toBe(0);
+    expect(kellyFraction(0.4, 0.4)).toBe(0);
+  });
+
+  it('should be zero for degenerate prices', () => {
+    expect(kellyFraction(0.9, 0)).toBe(0);
+    expect(kellyFraction(0.9, 1)).toBe(0);
+  });
+});
+
+describe('quoteSide', () => {
+  it('should buy YES at the market price on BUY', () => {
+    expect(quoteSide('BUY', 0.3, 0.5)).toEqual({ side: 'YES', price: 0.3, winProbability: 0.5 });
+  });
+
+  it('should buy NO at one minus the price on AVOID', () => {
+    const quote = quoteSide('AVOID', 0.7, 0.4);
+    expect(quote.side).toBe('NO');
+    expect(quote.price).toBeCloseTo(0.3);
+    expect(quote.winProbability).toBeCloseTo(0.6);
+  });
+});
+
+describe('calculateStake', () => {
+  const settings = DEFAULT_PORTFOLIO_SETTINGS;
+  const quote = { side: 'YES' as const, price: 0.4, winProbability: 0.6 };
+
+  it('should use a flat stake', () => {
+    expect(calculateStake('FLAT', settings, { bankroll: 10000, cash: 10000, quote, edgePercent: 20 })).toBe(100);
+  });
+
+  it('should size by fractional Kelly', () => {
+    // 10000 * 0.25 * (1/3) = 833.33, under the 10% cap
+    expect(calculateStake('KELLY', settings, { bankroll: 10000, cash: 10000, quote, edgePercent: 20 })).toBeCloseTo(833.33);
+  });
+
+  it('should scale with edge', () => {
+    expect(calculateStake('EDGE_PROPORTIONAL', settings, { bankroll: 10000, cash: 10000, quote, edgePercent: -15 })).toBe(150);
+  });
+
+  it('should cap at maxPositionPct and available cash', () => {
+    expect(calculateStake('FLAT', settings, { bankroll: 500, cash: 500, quote, edgePercent: 20 })).toBe(50);
+    expect(calculateStake('FLAT', settings, { bankroll: 10000, cash: 30, quote, edgePercent: 20 })).toBe(30);
+  });
+
+  it('should return zero when the stake is too small', () => {
+    expect(calculateStake('FLAT', settings, { bankroll: 10000, cash: 0.5, quote, edgePercent: 20 })).toBe(0);
+  });
+});
+
+describe('settlePosition', () => {
+  it('should pay YES shares when the outcome wins', () => {
+    const result = settlePosition({ side: 'YES', outcomeName: 'Wednesday', shares: 250, stake: 100 }, 'wednesday');
+    expect(result).toEqual({ won: true, payout: 250, pnl: 150 });
+  });
+
+  it('should pay NO shares when another outcome wins', () => {
+    const result = settlePosition({ side: 'NO', outcomeName: 'Wednesday', shares: 125, stake: 100 }, 'Squid Game');
+    expect(result).toEqual({ won: true, payout: 125, pnl: 25 });
+  });
+
+  it('should lose the stake on a miss', () => {
+    const result = settlePosition({ side: 'YES', outcomeName: 'Wednesday', shares: 250, stake: 100 }, 'Squid Game');
+    expect(result).toEqual({ won: false, payout: 0, pnl: -100 });
+  });
+});
+
+describe('buildEquityCurve', () => {
+  it('should accumulate realized P&L in settlement order', () => {
+    const curve = buildEquityCurve(
+      1000,
+      [
+        { settledAt: new Date('2025-01-14'), pnl: -50 },
+        { settledAt: new Date('2025-01-07'), pnl: 120 },
+      ],
+      new Date('2025-01-01')
+    );
+
+    expect(curve.map((p) => p.equity)).toEqual([1000, 1120, 1070]);
+    expect(curve[2].realizedPnl).toBe(70);
+  });
+});
+
+describe('summarisePortfolio', () => {
+  it('should combine cash, open exposure and realized P&L', () => {
+    const summary = summarisePortfolio(1000, 800, [
+      { status: 'OPEN', stake: 100, pnl: null },
+      { status: 'SETTLED', stake: 100, pnl: 150 },
+      { status: 'SETTLED', stake: 50, pnl: -50 },
+    ]);
+
+    expect(summary.equity).toBe(900);
+    expect(summary.openExposure).toBe(100);
+    expect(summary.realizedPnl).toBe(100);
+    expect(summary.returnPct).toBe(10);
+    expect(summary.winRate).toBe(0.5);
+  });
+
+  it('should report a null win rate before anything settles', () => {
+    expect(summarisePortfolio(1000, 1000, []).winRate).toBeNull();
+  });
+});
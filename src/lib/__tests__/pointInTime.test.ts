@@ -0,0 +1,37 @@
+import {
+  netflixPublishedThrough,
+  netflixKnownAt,
+  observedBy,
+  writtenBy,
+  NETFLIX_PUBLISH_LAG_DAYS,
+} from '../pointInTime';
+
+describe('netflixPublishedThrough', () => {
+  it('should lag asOf by the publication delay', () => {
+    const asOf = new Date('2025-06-10T12:00:00Z');
+    const expected = new Date(asOf.getTime() - NETFLIX_PUBLISH_LAG_DAYS * 24 * 60 * 60 * 1000);
+    expect(netflixPublishedThrough(asOf)).toEqual(expected);
+  });
+
+  it('should not count a week as published before the Tuesday after it ends', () => {
+    const weekEnd = new Date('2025-06-08T00:00:00Z'); // Sunday
+    expect(netflixPublishedThrough(new Date('2025-06-09T12:00:00Z')) >= weekEnd).toBe(false);
+    expect(netflixPublishedThrough(new Date('2025-06-10T00:00:00Z')) >= weekEnd).toBe(true);
+  });
+});
+
+describe('where fragments', () => {
+  const asOf = new Date('2025-06-10T00:00:00Z');
+
+  it('should leave live queries unfiltered without an asOf', () => {
+    expect(netflixKnownAt()).toEqual({});
+    expect(observedBy()).toEqual({});
+    expect(writtenBy()).toEqual({});
+  });
+
+  it('should cut each source off at its own date column', () => {
+    expect(netflixKnownAt(asOf)).toEqual({ weekEnd: { lte: new Date('2025-06-08T00:00:00Z') } });
+    expect(observedBy(asOf)).toEqual({ date: { lte: asOf } });
+    expect(writtenBy(asOf)).toEqual({ createdAt: { lte: asOf } });
+  });
+});
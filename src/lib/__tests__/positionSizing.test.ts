@@ -0,0 +1,135 @@
+import {
+  sizeOutcome,
+  sizeMarket,
+  exclusiveKellyFractions,
+  parseSizingParams,
+  DEFAULT_SIZING_PARAMS,
+} from '../positionSizing';
+
+const params = { bankroll: 1000, riskFraction: 1 };
+
+describe('sizeOutcome', () => {
+  it('should stake full Kelly on an underpriced YES', () => {
+    // (0.6 - 0.4) / 0.6 = 1/3 of bankroll
+    const rec = sizeOutcome({ name: 'A', side: 'YES', modelProbability: 0.6, marketPrice: 0.4 }, params);
+
+    expect(rec.stake).toBeCloseTo(333.33);
+    expect(rec.shares).toBeCloseTo(833.33);
+    expect(rec.expectedValue).toBeCloseTo(166.67, 1);
+    expect(rec.maxLoss).toBe(rec.stake);
+  });
+
+  it('should size NO bets at one minus the price', () => {
+    const rec = sizeOutcome({ name: 'A', side: 'NO', modelProbability: 0.2, marketPrice: 0.5 }, params);
+
+    expect(rec.price).toBeCloseTo(0.5);
+    // (0.8 - 0.5) / 0.5 = 0.6
+    expect(rec.kellyFraction).toBeCloseTo(0.6);
+    expect(rec.stake).toBeCloseTo(600);
+  });
+
+  it('should scale by risk fraction', () => {
+    const rec = sizeOutcome(
+      { name: 'A', side: 'YES', modelProbability: 0.6, marketPrice: 0.4 },
+      { bankroll: 1000, riskFraction: 0.25 }
+    );
+    expect(rec.stake).toBeCloseTo(83.33);
+  });
+
+  it('should not bet without an edge', () => {
+    const rec = sizeOutcome({ name: 'A', side: 'YES', modelProbability: 0.3, marketPrice: 0.4 }, params);
+    expect(rec.stake).toBe(0);
+    expect(rec.expectedValue).toBe(0);
+  });
+});
+
+describe('exclusiveKellyFractions', () => {
+  it('should reduce to binary Kelly for one outcome', () => {
+    const fractions = exclusiveKellyFractions([{ name: 'A', modelProbability: 0.6, marketPrice: 0.4 }]);
+    expect(fractions.get('A')).toBeCloseTo(1 / 3);
+  });
+
+  it('should grow faster than independent Kelly on exclusive outcomes', () => {
+    const outcomes = [
+      { name: 'A', modelProbability: 0.4, marketPrice: 0.3 },
+      { name: 'B', modelProbability: 0.35, marketPrice: 0.25 },
+    ];
+
+    // Expected log growth of YES stakes when exactly one (or neither) outcome wins
+    const growth = (f: number[]) => {
+      const staked = f[0] + f[1];
+      return outcomes.reduce(
+        (sum, o, i) => sum + o.modelProbability * Math.log(1 - staked + f[i] / o.marketPrice),
+        (1 - 0.4 - 0.35) * Math.log(1 - staked)
+      );
+    };
+
+    const joint = exclusiveKellyFractions(outcomes);
+    const independent = [(0.4 - 0.3) / 0.7, (0.35 - 0.25) / 0.75];
+
+    expect(growth([joint.get('A')!, joint.get('B')!])).toBeGreaterThan(growth(independent));
+  });
+
+  it('should skip outcomes the model rates below the market', () => {
+    const fractions = exclusiveKellyFractions([
+      { name: 'A', modelProbability: 0.5, marketPrice: 0.3 },
+      { name: 'B', modelProbability: 0.1, marketPrice: 0.2 },
+    ]);
+    expect(fractions.has('B')).toBe(false);
+  });
+});
+
+describe('sizeMarket', () => {
+  it('should report worst-case loss across every winner', () => {
+    const plan = sizeMarket(
+      [
+        { name: 'A', side: 'YES', modelProbability: 0.4, marketPrice: 0.3 },
+        { name: 'B', side: 'YES', modelProbability: 0.35, marketPrice: 0.25 },
+      ],
+      params
+    );
+
+    // If neither A nor B wins, every YES stake is lost
+    expect(plan.worstCaseLoss).toBeCloseTo(plan.totalStake);
+    expect(plan.expectedValue).toBeGreaterThan(0);
+  });
+
+  it('should net NO positions that cannot all lose', () => {
+    const plan = sizeMarket(
+      [
+        { name: 'A', side: 'NO', modelProbability: 0.1, marketPrice: 0.3 },
+        { name: 'B', side: 'NO', modelProbability: 0.1, marketPrice: 0.3 },
+      ],
+      params
+    );
+
+    // Only one of A and B can win, so one NO always pays out
+    expect(plan.totalStake).toBeGreaterThan(0);
+    expect(plan.worstCaseLoss).toBeLessThan(plan.totalStake);
+  });
+
+  it('should keep the combined stake within the bankroll', () => {
+    const plan = sizeMarket(
+      [
+        { name: 'A', side: 'YES', modelProbability: 0.9, marketPrice: 0.2 },
+        { name: 'B', side: 'NO', modelProbability: 0.02, marketPrice: 0.5 },
+      ],
+      params
+    );
+    expect(plan.totalStake).toBeLessThanOrEqual(1000);
+  });
+});
+
+describe('parseSizingParams', () => {
+  it('should keep valid stored values', () => {
+    expect(parseSizingParams({ bankroll: 250, riskFraction: 0.5 })).toEqual({ bankroll: 250, riskFraction: 0.5 });
+  });
+
+  it('should fall back per field on invalid values', () => {
+    expect(parseSizingParams({ bankroll: '500', riskFraction: null })).toEqual(DEFAULT_SIZING_PARAMS);
+    expect(parseSizingParams({ bankroll: -10, riskFraction: 2 })).toEqual(DEFAULT_SIZING_PARAMS);
+    expect(parseSizingParams({ bankroll: 300, riskFraction: Infinity })).toEqual({ bankroll: 300, riskFraction: 0.25 });
+    expect(parseSizingParams(null)).toEqual(DEFAULT_SIZING_PARAMS);
+    expect(parseSizingParams([1, 2])).toEqual(DEFAULT_SIZING_PARAMS);
+  });
+});
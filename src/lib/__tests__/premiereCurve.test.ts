@@ -0,0 +1,197 @@
+import {
+  CURVE_DAYS,
+  PREMIERE_WEEKS,
+  MIN_GENRE_RELEASES,
+  DEFAULT_LOG_VIEWS_PER_RANK,
+  defaultPremiereCurve,
+  netflixWeekStart,
+  daysInPremiereWeek,
+  premiereWeekIndex,
+  premiereWeekFactor,
+  rankShiftForFactor,
+  projectFromCurve,
+  releaseCurveFromPoints,
+  fitPremiereCurve,
+  fitLogViewsPerRank,
+  selectPremiereCurve,
+  parseDayShares,
+  PremiereCurveFit,
+} from '../premiereCurve';
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+const flat = new Array(CURVE_DAYS).fill(1 / CURVE_DAYS);
+
+const monday = new Date('2024-06-10T00:00:00Z');
+const friday = new Date('2024-06-14T08:00:00Z');
+
+describe('defaultPremiereCurve', () => {
+  it('should be a full curve summing to one', () => {
+    for (const type of ['SHOW', 'MOVIE'] as const) {
+      const curve = defaultPremiereCurve(type);
+      expect(curve).toHaveLength(CURVE_DAYS);
+      expect(sum(curve)).toBeCloseTo(1, 10);
+    }
+  });
+
+  it('should peak films earlier than series', () => {
+    const peak = (curve: number[]) => curve.indexOf(Math.max(...curve));
+    expect(peak(defaultPremiereCurve('MOVIE'))).toBeLessThan(peak(defaultPremiereCurve('SHOW')));
+  });
+});
+
+describe('release weeks', () => {
+  it('should find the Monday of a date\'s week', () => {
+    expect(netflixWeekStart(friday).toISOString()).toBe('2024-06-10T00:00:00.000Z');
+    expect(netflixWeekStart(new Date('2024-06-16T23:00:00Z')).toISOString()).toBe('2024-06-10T00:00:00.000Z');
+  });
+
+  it('should count the days a release has in its premiere week', () => {
+    expect(daysInPremiereWeek(monday)).toBe(7);
+    expect(daysInPremiereWeek(friday)).toBe(3);
+    expect(daysInPremiereWeek(new Date('2024-06-16T00:00:00Z'))).toBe(1);
+  });
+
+  it('should index weeks from the premiere week', () => {
+    expect(premiereWeekIndex(friday, monday)).toBe(0);
+    expect(premiereWeekIndex(friday, new Date('2024-06-17T00:00:00Z'))).toBe(1);
+    expect(premiereWeekIndex(friday, new Date('2024-06-03T00:00:00Z'))).toBe(-1);
+  });
+
+  it('should place a Sunday-start week by the Netflix week it mostly overlaps', () => {
+    expect(premiereWeekIndex(friday, new Date('2024-06-16T00:00:00Z'))).toBe(1);
+  });
+});
+
+describe('premiereWeekFactor', () => {
+  const curve = defaultPremiereCurve('SHOW');
+
+  it('should leave a Monday release unchanged', () => {
+    for (let week = 0; week < PREMIERE_WEEKS; week++) {
+      const weekStart = new Date(monday.getTime() + week * 7 * 24 * 60 * 60 * 1000);
+      expect(premiereWeekFactor(curve, monday, weekStart)).toBeCloseTo(1, 10);
+    }
+  });
+
+  it('should shrink a Friday drop\'s first week and grow its second', () => {
+    expect(premiereWeekFactor(curve, friday, monday)).toBeLessThan(0.6);
+    expect(premiereWeekFactor(curve, friday, new Date('2024-06-17T00:00:00Z'))).toBeGreaterThan(1);
+  });
+
+  it('should match day counts on a flat curve', () => {
+    expect(premiereWeekFactor(flat, friday, monday)).toBeCloseTo(3 / 7, 10);
+  });
+
+  it('should be 1 before release and after the premiere weeks', () => {
+    expect(premiereWeekFactor(curve, friday, new Date('2024-06-03T00:00:00Z'))).toBe(1);
+    expect(premiereWeekFactor(curve, friday, new Date('2024-07-08T00:00:00Z'))).toBe(1);
+  });
+});
+
+describe('rankShiftForFactor', () => {
+  it('should move a smaller week to a worse rank', () => {
+    expect(rankShiftForFactor(Math.exp(-0.4), 0.2)).toBeCloseTo(2, 10);
+    expect(rankShiftForFactor(Math.exp(0.4), 0.2)).toBeCloseTo(-2, 10);
+  });
+
+  it('should cap the move', () => {
+    expect(rankShiftForFactor(0.001, 0.1)).toBe(5);
+  });
+
+  it('should not move on a degenerate factor', () => {
+    expect(rankShiftForFactor(0, 0.2)).toBe(0);
+    expect(rankShiftForFactor(1, 0.2)).toBe(0);
+  });
+});
+
+describe('projectFromCurve', () => {
+  it('should scale the curve to the observed days', () => {
+    const remaining = projectFromCurve(flat, [{ day: 1, points: 100 }, { day: 2, points: 100 }], [3, 4, 5]);
+    expect(remaining).toBeCloseTo(300, 6);
+  });
+
+  it('should ignore days before release', () => {
+    const remaining = projectFromCurve(flat, [{ day: -1, points: 0 }, { day: 0, points: 0 }, { day: 1, points: 50 }], [2, 0]);
+    expect(remaining).toBeCloseTo(50, 6);
+  });
+
+  it('should return null with no day since release observed', () => {
+    expect(projectFromCurve(flat, [{ day: 0, points: 10 }], [1, 2])).toBeNull();
+  });
+});
+
+describe('releaseCurveFromPoints', () => {
+  it('should normalise a release\'s points', () => {
+    const shares = releaseCurveFromPoints([10, 20, 30, 40])!;
+    expect(shares).toHaveLength(CURVE_DAYS);
+    expect(sum(shares)).toBeCloseTo(1, 10);
+    expect(shares[3]).toBeCloseTo(0.4, 10);
+  });
+
+  it('should reject a release that barely charted', () => {
+    expect(releaseCurveFromPoints([100, 50])).toBeNull();
+  });
+});
+
+describe('fitPremiereCurve', () => {
+  it('should return the prior without samples', () => {
+    const fit = fitPremiereCurve([], flat);
+    expect(fit.releases).toBe(0);
+    expect(fit.dayShares).toEqual(flat);
+  });
+
+  it('should move toward the samples as they accumulate', () => {
+    const sample = releaseCurveFromPoints([100, 100, 100])!;
+    const few = fitPremiereCurve([sample], flat);
+    const many = fitPremiereCurve(new Array(30).fill(sample), flat);
+    expect(many.dayShares[0]).toBeGreaterThan(few.dayShares[0]);
+    expect(sum(many.dayShares)).toBeCloseTo(1, 10);
+  });
+});
+
+describe('fitLogViewsPerRank', () => {
+  it('should average the per-rank gap over weeks', () => {
+    const week = [
+      { rank: 1, views: 10_000_000 },
+      { rank: 10, views: 10_000_000 * Math.exp(-1.8) },
+    ];
+    expect(fitLogViewsPerRank([week, week])).toBeCloseTo(0.2, 10);
+  });
+
+  it('should return null without a usable week', () => {
+    expect(fitLogViewsPerRank([])).toBeNull();
+    expect(fitLogViewsPerRank([[{ rank: 1, views: 100 }]])).toBeNull();
+  });
+});
+
+describe('selectPremiereCurve', () => {
+  const typeCurve = defaultPremiereCurve('SHOW');
+  const fits: PremiereCurveFit[] = [
+    { titleType: 'SHOW', genre: '', dayShares: typeCurve, releases: 40, logViewsPerRank: 0.25 },
+    { titleType: 'SHOW', genre: 'Crime', dayShares: flat, releases: MIN_GENRE_RELEASES, logViewsPerRank: 0.25 },
+    { titleType: 'SHOW', genre: 'Comedy', dayShares: flat, releases: 1, logViewsPerRank: 0.25 },
+  ];
+
+  it('should prefer a genre with enough releases', () => {
+    const selected = selectPremiereCurve(fits, 'SHOW', ['crime']);
+    expect(selected.genre).toBe('Crime');
+    expect(selected.logViewsPerRank).toBe(0.25);
+  });
+
+  it('should fall back to the type\'s curve for thin genres', () => {
+    expect(selectPremiereCurve(fits, 'SHOW', ['Comedy']).curve).toBe(typeCurve);
+  });
+
+  it('should fall back to the default shape without fits', () => {
+    const selected = selectPremiereCurve(fits, 'MOVIE', []);
+    expect(selected.curve).toEqual(defaultPremiereCurve('MOVIE'));
+    expect(selected.logViewsPerRank).toBe(DEFAULT_LOG_VIEWS_PER_RANK);
+  });
+});
+
+describe('parseDayShares', () => {
+  it('should accept a full curve and reject anything else', () => {
+    expect(parseDayShares(flat)).toEqual(flat);
+    expect(parseDayShares([0.5, 0.5])).toBeNull();
+    expect(parseDayShares(null)).toBeNull();
+  });
+});
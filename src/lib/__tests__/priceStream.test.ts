@@ -0,0 +1,142 @@
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { parseStreamMessage, applyTick, minuteStart, PriceTick, MinuteBar } from '../priceStream';
+import { connectPriceStream, PriceStream } from '../priceStreamClient';
+
+const at = (iso: string) => new Date(iso);
+
+describe('parseStreamMessage', () => {
+  it('should take the midpoint of a book message', () => {
+    const ticks = parseStreamMessage(JSON.stringify({
+      event_type: 'book',
+      asset_id: 'tok-1',
+      bids: [{ price: '0.30', size: '100' }],
+      asks: [{ price: '0.34', size: '100' }],
+      timestamp: '1760000000000',
+    }));
+
+    expect(ticks).toEqual([
+      { assetId: 'tok-1', kind: 'quote', price: 0.32, size: 0, timestamp: new Date(1760000000000) },
+    ]);
+  });
+
+  it('should emit one quote per price change with a touch', () => {
+    const ticks = parseStreamMessage(JSON.stringify({
+      event_type: 'price_change',
+      timestamp: '1760000000000',
+      price_changes: [
+        { asset_id: 'tok-1', price: '0.31', size: '50', side: 'BUY', best_bid: '0.31', best_ask: '0.33' },
+        { asset_id: 'tok-2', price: '0.6', size: '0', side: 'SELL' },
+      ],
+    }));
+
+    expect(ticks).toHaveLength(1);
+    expect(ticks[0].price).toBe(0.32);
+  });
+
+  it('should parse trades and arrays of events', () => {
+    const ticks = parseStreamMessage(JSON.stringify([
+      { event_type: 'last_trade_price', asset_id: 'tok-1', price: '0.4', size: '25', timestamp: '1760000000000' },
+      { event_type: 'tick_size_change', asset_id: 'tok-1' },
+    ]));
+
+    expect(ticks).toEqual([
+      { assetId: 'tok-1', kind: 'trade', price: 0.4, size: 25, timestamp: new Date(1760000000000) },
+    ]);
+  });
+
+  it('should ignore keep-alive frames', () => {
+    expect(parseStreamMessage('PONG')).toEqual([]);
+  });
+});
+
+describe('applyTick', () => {
+  const quote = (price: number, iso: string): PriceTick =>
+    ({ assetId: 'tok-1', kind: 'quote', price, size: 0, timestamp: at(iso) });
+
+  it('should build OHLC from quotes within a minute', () => {
+    let bar: MinuteBar | undefined;
+    for (const tick of [quote(0.3, '2026-01-06T14:00:05Z'), quote(0.36, '2026-01-06T14:00:20Z'), quote(0.28, '2026-01-06T14:00:40Z'), quote(0.33, '2026-01-06T14:00:59Z')]) {
+      bar = applyTick(bar, tick);
+    }
+
+    expect(bar).toMatchObject({ open: 0.3, high: 0.36, low: 0.28, close: 0.33, minute: at('2026-01-06T14:00:00Z') });
+  });
+
+  it('should count trades without moving a quoted price', () => {
+    let bar = applyTick(undefined, quote(0.3, '2026-01-06T14:00:05Z'));
+    bar = applyTick(bar, { assetId: 'tok-1', kind: 'trade', price: 0.5, size: 100, timestamp: at('2026-01-06T14:00:10Z') });
+
+    expect(bar.close).toBe(0.3);
+    expect(bar.tradeCount).toBe(1);
+    expect(bar.tradeVolume).toBe(50);
+  });
+
+  it('should let the first quote replace a trade-seeded price', () => {
+    let bar = applyTick(undefined, { assetId: 'tok-1', kind: 'trade', price: 0.5, size: 10, timestamp: at('2026-01-06T14:00:01Z') });
+    bar = applyTick(bar, quote(0.3, '2026-01-06T14:00:02Z'));
+
+    expect(bar).toMatchObject({ open: 0.3, high: 0.3, low: 0.3, close: 0.3, tradeCount: 1 });
+  });
+});
+
+describe('minuteStart', () => {
+  it('should truncate to the minute', () => {
+    expect(minuteStart(at('2026-01-06T14:07:59.999Z'))).toEqual(at('2026-01-06T14:07:00Z'));
+  });
+});
+
+describe('connectPriceStream', () => {
+  let server: WebSocketServer;
+  let stream: PriceStream | null = null;
+  let url: string;
+
+  beforeEach((done) => {
+    server = new WebSocketServer({ port: 0 }, () => {
+      url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterEach((done) => {
+    stream?.close();
+    stream = null;
+    for (const client of server.clients) client.terminate();
+    server.close(() => done());
+  });
+
+  function nextConnection(): Promise<{ socket: WebSocket; subscription: { assets_ids: string[]; type: string } }> {
+    return new Promise((resolve) => {
+      server.once('connection', (socket) => {
+        socket.once('message', (data) => resolve({ socket, subscription: JSON.parse(data.toString()) }));
+      });
+    });
+  }
+
+  it('should subscribe and deliver ticks from a mock server', async () => {
+    const connection = nextConnection();
+    const received = new Promise<PriceTick[]>((resolve) => {
+      stream = connectPriceStream({ url, assetIds: ['tok-1', 'tok-2'], onTicks: resolve });
+    });
+
+    const { socket, subscription } = await connection;
+    expect(subscription).toEqual({ assets_ids: ['tok-1', 'tok-2'], type: 'market' });
+
+    socket.send(JSON.stringify({ event_type: 'best_bid_ask', asset_id: 'tok-2', best_bid: '0.5', best_ask: '0.52', timestamp: '1760000000000' }));
+
+    const ticks = await received;
+    expect(ticks[0]).toMatchObject({ assetId: 'tok-2', kind: 'quote', price: 0.51 });
+  });
+
+  it('should reconnect after the server drops the connection', async () => {
+    const first = nextConnection();
+    stream = connectPriceStream({ url, assetIds: ['tok-1'], onTicks: () => {}, reconnectDelayMs: 10 });
+
+    const { socket } = await first;
+    const second = nextConnection();
+    socket.terminate();
+
+    const { subscription } = await second;
+    expect(subscription.assets_ids).toEqual(['tok-1']);
+  });
+});
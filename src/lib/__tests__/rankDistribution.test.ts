@@ -0,0 +1,166 @@
+import {
+  RANK_SLOTS,
+  OUTSIDE_TOP_10,
+  rankProbsFromQuantiles,
+  normalizeRankProbs,
+  fitJointRankDistribution,
+  fitJointRankDistributionsByChart,
+  probabilityOfRank,
+  probabilityTopN,
+  parseRankProbs,
+} from '../rankDistribution';
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe('rankProbsFromQuantiles', () => {
+  it('should return a full vector summing to one', () => {
+    const probs = rankProbsFromQuantiles(2, 4, 6);
+    expect(probs).toHaveLength(RANK_SLOTS);
+    expect(sum(probs)).toBeCloseTo(1, 10);
+  });
+
+  it('should put the most mass on the p50 rank', () => {
+    const probs = rankProbsFromQuantiles(3, 5, 7);
+    const best = probs.indexOf(Math.max(...probs));
+    expect(best).toBe(4); // rank 5
+  });
+
+  it('should give a tight #1 forecast most of its mass at #1', () => {
+    const probs = rankProbsFromQuantiles(1, 1, 1);
+    expect(probabilityOfRank(probs, 1)).toBeGreaterThan(0.75);
+  });
+
+  it('should put a falling title mostly outside the Top 10', () => {
+    const probs = rankProbsFromQuantiles(14, 18, 22);
+    expect(probs[OUTSIDE_TOP_10]).toBeGreaterThan(0.95);
+  });
+
+  it('should spread a wide forecast more than a narrow one', () => {
+    const narrow = rankProbsFromQuantiles(3, 3, 3);
+    const wide = rankProbsFromQuantiles(1, 3, 8);
+    expect(probabilityOfRank(wide, 3)).toBeLessThan(probabilityOfRank(narrow, 3));
+  });
+});
+
+describe('normalizeRankProbs', () => {
+  it('should fall back to uniform for an empty vector', () => {
+    const probs = normalizeRankProbs(new Array(RANK_SLOTS).fill(0));
+    expect(probs.every((p) => p === 1 / RANK_SLOTS)).toBe(true);
+  });
+
+  it('should drop negative mass', () => {
+    expect(normalizeRankProbs([-1, 1, 1])).toEqual([0, 0.5, 0.5]);
+  });
+});
+
+describe('fitJointRankDistribution', () => {
+  it('should hold each rank at most once when titles over-claim it', () => {
+    // Three titles that each think they are #1
+    const inputs = ['a', 'b', 'c'].map((key) => ({ key, probs: rankProbsFromQuantiles(1, 1, 2) }));
+    const fit = fitJointRankDistribution(inputs);
+
+    for (let rank = 1; rank <= 10; rank++) {
+      const held = sum(fit.distributions.map((d) => probabilityOfRank(d.probs, rank))) + fit.field[rank - 1];
+      expect(held).toBeCloseTo(1, 6);
+    }
+    expect(fit.field[0]).toBe(0);
+  });
+
+  it('should keep every title row a probability distribution', () => {
+    const inputs = [
+      { key: 'a', probs: rankProbsFromQuantiles(1, 2, 3) },
+      { key: 'b', probs: rankProbsFromQuantiles(1, 2, 4) },
+      { key: 'c', probs: rankProbsFromQuantiles(4, 6, 9) },
+    ];
+    const fit = fitJointRankDistribution(inputs);
+
+    for (const d of fit.distributions) {
+      expect(sum(d.probs)).toBeCloseTo(1, 5);
+    }
+  });
+
+  it('should share a contested #1 evenly between identical titles', () => {
+    const inputs = ['a', 'b'].map((key) => ({ key, probs: rankProbsFromQuantiles(1, 1, 1) }));
+    const [a, b] = fitJointRankDistribution(inputs).distributions;
+    expect(probabilityOfRank(a.probs, 1)).toBeCloseTo(probabilityOfRank(b.probs, 1), 10);
+    expect(probabilityOfRank(a.probs, 1)).toBeLessThanOrEqual(0.5 + 1e-9);
+  });
+
+  it('should leave an unclaimed rank to the field', () => {
+    const fit = fitJointRankDistribution([{ key: 'a', probs: rankProbsFromQuantiles(1, 1, 1) }]);
+    expect(fit.field[9]).toBeGreaterThan(0.99);
+    expect(fit.distributions[0].probs).toEqual(normalizeRankProbs(rankProbsFromQuantiles(1, 1, 1)));
+  });
+
+  it('should keep input order and keys', () => {
+    const fit = fitJointRankDistribution([
+      { key: 'x', probs: rankProbsFromQuantiles(2, 3, 4) },
+      { key: 'y', probs: rankProbsFromQuantiles(5, 6, 7) },
+    ]);
+    expect(fit.distributions.map((d) => d.key)).toEqual(['x', 'y']);
+  });
+
+  it('should handle an empty category', () => {
+    const fit = fitJointRankDistribution([]);
+    expect(fit.distributions).toEqual([]);
+    expect(fit.field.every((f) => f === 1)).toBe(true);
+  });
+});
+
+describe('fitJointRankDistributionsByChart', () => {
+  it("should keep each chart's clear #1 when both are fitted together", () => {
+    const leader = rankProbsFromQuantiles(1, 1, 1.5);
+    const fitted = fitJointRankDistributionsByChart([
+      { chart: 'SHOW:US', probs: leader },
+      { chart: 'SHOW:US', probs: rankProbsFromQuantiles(3, 5, 8) },
+      { chart: 'SHOW:GLOBAL', probs: leader },
+      { chart: 'SHOW:GLOBAL', probs: rankProbsFromQuantiles(3, 5, 8) },
+    ]);
+
+    const ownFirst = probabilityOfRank(normalizeRankProbs(leader), 1);
+    expect(ownFirst).toBeGreaterThan(0.75);
+    expect(probabilityOfRank(fitted[0], 1)).toBeCloseTo(ownFirst, 3);
+    expect(probabilityOfRank(fitted[2], 1)).toBeCloseTo(ownFirst, 3);
+
+    // Fitted as one chart, the two leaders would split #1
+    const mixed = fitJointRankDistribution([0, 2].map((i) => ({ key: String(i), probs: leader })));
+    expect(probabilityOfRank(mixed.distributions[0].probs, 1)).toBeLessThanOrEqual(0.5 + 1e-9);
+  });
+
+  it('should share a #1 the titles of one chart contest', () => {
+    const leader = rankProbsFromQuantiles(1, 1, 1.5);
+    const [a, b] = fitJointRankDistributionsByChart([
+      { chart: 'SHOW:US', probs: leader },
+      { chart: 'SHOW:US', probs: leader },
+    ]);
+    expect(probabilityOfRank(a, 1) + probabilityOfRank(b, 1)).toBeLessThanOrEqual(1 + 1e-9);
+  });
+});
+
+describe('derived probabilities', () => {
+  const probs = [0.4, 0.3, 0.1, 0.05, 0.05, 0, 0, 0, 0, 0, 0.1];
+
+  it('should read P(#1) and P(#2) off the vector', () => {
+    expect(probabilityOfRank(probs, 1)).toBe(0.4);
+    expect(probabilityOfRank(probs, 2)).toBe(0.3);
+    expect(probabilityOfRank(probs, 11)).toBe(0);
+  });
+
+  it('should sum the top n ranks', () => {
+    expect(probabilityTopN(probs, 3)).toBeCloseTo(0.8);
+    expect(probabilityTopN(probs, 20)).toBeCloseTo(0.9);
+  });
+});
+
+describe('parseRankProbs', () => {
+  it('should accept a full numeric vector', () => {
+    const probs = rankProbsFromQuantiles(2, 3, 4);
+    expect(parseRankProbs(probs)).toEqual(probs);
+  });
+
+  it('should reject anything else', () => {
+    expect(parseRankProbs(null)).toBeNull();
+    expect(parseRankProbs([0.5, 0.5])).toBeNull();
+    expect(parseRankProbs(new Array(RANK_SLOTS).fill('x'))).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { seasonNumberFromName, unseasonedRowKey } from '../seasonNumbers';
+
+describe('seasonNumberFromName', () => {
+  it('should read "Season N" and "SN" alike', () => {
+    expect(seasonNumberFromName('Wednesday: Season 2')).toBe(2);
+    expect(seasonNumberFromName('Wednesday S2')).toBe(2);
+    expect(seasonNumberFromName('Wednesday s02')).toBe(2);
+    expect(seasonNumberFromName('The Crown: Season 10')).toBe(10);
+  });
+
+  it('should treat a bare part as the season', () => {
+    expect(seasonNumberFromName('Money Heist: Part 3')).toBe(3);
+  });
+
+  it('should keep the season when a part of it is named', () => {
+    expect(seasonNumberFromName('Bridgerton: Season 3: Part 2')).toBe(3);
+    expect(seasonNumberFromName('Wednesday: Season 2 (Part 1)')).toBe(2);
+  });
+
+  it('should return 0 for limited series and names without a season', () => {
+    expect(seasonNumberFromName('Adolescence: Limited Series')).toBe(0);
+    expect(seasonNumberFromName('Wednesday')).toBe(0);
+    expect(seasonNumberFromName('Stranger Things 4')).toBe(0);
+    expect(seasonNumberFromName('Season 2')).toBe(0);
+  });
+});
+
+describe('unseasonedRowKey', () => {
+  const weekStart = new Date('2025-01-06T00:00:00Z');
+
+  it('should replace the unseasoned row for the same title, week and category', () => {
+    expect(unseasonedRowKey({ titleId: 't1', seasonNumber: 2, weekStart, category: 'TV (English)' })).toEqual({
+      titleId: 't1',
+      seasonNumber: 0,
+      weekStart,
+      category: 'TV (English)',
+    });
+  });
+
+  it('should replace nothing for an unseasoned row', () => {
+    expect(unseasonedRowKey({ titleId: 't1', seasonNumber: 0, weekStart, category: 'Films (English)' })).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  buildTitleIndex,
+  rankTitleCandidates,
+  resolveTitle,
+  titleNameKey,
+  outcomeMatchKey,
+  namesMatch,
+  MatchableTitle,
+  TitleMatchReason,
+} from '../titleMatcher';
+import corpus from './fixtures/titleMatchCorpus.json';
+
+interface CorpusCase {
+  source: string;
+  name: string;
+  type: 'SHOW' | 'MOVIE';
+  expect: string | null;
+  reason?: TitleMatchReason;
+  suggest?: string | null;
+}
+
+const titles = corpus.titles as MatchableTitle[];
+const index = buildTitleIndex(titles);
+
+describe('title matching golden corpus', () => {
+  it.each(corpus.cases as CorpusCase[])('$source "$name" ($type)', (testCase) => {
+    const resolved = resolveTitle(index, testCase.name, { type: testCase.type });
+
+    if (testCase.expect) {
+      expect(resolved).toMatchObject({ titleId: testCase.expect, reason: testCase.reason });
+    } else {
+      expect(resolved).toBeNull();
+      const [suggestion] = rankTitleCandidates(index, testCase.name, { type: testCase.type });
+      expect(suggestion?.titleId ?? null).toBe(testCase.suggest ?? null);
+    }
+  });
+});
+
+describe('titleNameKey', () => {
+  it('should share the full key across season spellings but not across seasons', () => {
+    const key = titleNameKey('Stranger Things: Season 5');
+    expect(titleNameKey('Stranger Things Season 5')).toEqual(key);
+    expect(titleNameKey('Stranger Things - S5')).toEqual(key);
+    expect(titleNameKey('Stranger Things').base).toBe(key.base);
+    expect(titleNameKey('Stranger Things').full).not.toBe(key.full);
+  });
+});
+
+describe('outcomeMatchKey', () => {
+  it('should ignore case and punctuation but keep the season', () => {
+    expect(outcomeMatchKey('The Night Agent: Season 2')).toBe(outcomeMatchKey('the night agent season 2'));
+    expect(outcomeMatchKey('The Night Agent: Season 2')).not.toBe(outcomeMatchKey('The Night Agent: Season 3'));
+  });
+});
+
+describe('rankTitleCandidates', () => {
+  it('should surface both seasons instead of silently picking one', () => {
+    const candidates = rankTitleCandidates(index, 'Stranger Things');
+    expect(candidates.map((c) => [c.titleId, c.reason])).toEqual([
+      ['stranger-things', 'EXACT'],
+      ['stranger-things-5', 'SEASON_VARIANT'],
+    ]);
+  });
+
+  it('should rank the requested type first and halve the other', () => {
+    const [movie, show] = rankTitleCandidates(index, 'Frankenstein', { type: 'MOVIE' });
+    expect(movie).toMatchObject({ titleId: 'frankenstein-movie', score: 1 });
+    expect(show).toMatchObject({ titleId: 'frankenstein-show', score: 0.5 });
+  });
+
+  it('should prefer confirmed mappings and external IDs over names', () => {
+    const withDecisions = buildTitleIndex(
+      [...titles, { id: 'wake-up-dup', canonicalName: 'Wake Up Dead Man', type: 'MOVIE', externalIds: [{ provider: 'tmdb', externalId: '812583' }] }],
+      [{ outcomeKey: outcomeMatchKey('Wake Up Dead Man'), titleId: 'wake-up-dead-man' }]
+    );
+
+    expect(resolveTitle(withDecisions, 'Wake Up Dead Man')).toMatchObject({ titleId: 'wake-up-dead-man', reason: 'CONFIRMED' });
+    expect(resolveTitle(withDecisions, 'Glass Onion 2', { externalId: { provider: 'tmdb', externalId: '812583' } }))
+      .toMatchObject({ titleId: 'wake-up-dup', reason: 'EXTERNAL_ID' });
+  });
+});
+
+describe('namesMatch', () => {
+  it('should accept season variants but not other seasons or near spellings', () => {
+    expect(namesMatch('Wednesday', 'Wednesday: Season 2')).toBe(true);
+    expect(namesMatch('Wednesday: Season 1', 'Wednesday: Season 2')).toBe(false);
+    expect(namesMatch('KPop Demon Hunter', 'KPop Demon Hunters')).toBe(false);
+  });
+});
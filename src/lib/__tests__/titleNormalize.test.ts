@@ -96,6 +96,11 @@ describe('extractSeasonInfo', () => {
     expect(result).toEqual({ baseName: 'Bridgerton', seasonNumber: 2 });
   });
 
+  it('should keep the season of "Show: Season 3: Part 2"', () => {
+    const result = extractSeasonInfo('Bridgerton: Season 3: Part 2');
+    expect(result).toEqual({ baseName: 'Bridgerton', seasonNumber: 3 });
+  });
+
   it('should return null for non-season titles', () => {
     expect(extractSeasonInfo('Wednesday')).toBeNull();
     expect(extractSeasonInfo('The Witcher')).toBeNull();
@@ -0,0 +1,146 @@
+import {
+  findDuplicatePairs,
+  clusterDuplicates,
+  unionAliases,
+  planRelationMerge,
+  planSeasonRemap,
+  encodeSnapshotRow,
+  decodeSnapshotRow,
+  ResolutionTitle,
+} from '../titleResolution';
+
+const title = (
+  id: string,
+  canonicalName: string,
+  overrides: Partial<ResolutionTitle> = {}
+): ResolutionTitle => ({
+  id,
+  canonicalName,
+  type: 'SHOW',
+  aliases: [],
+  externalIds: [],
+  ...overrides,
+});
+
+describe('findDuplicatePairs', () => {
+  it('should pair titles whose names only differ by a bracketed suffix', () => {
+    const pairs = findDuplicatePairs([title('a', 'Adolescence'), title('b', 'Adolescence (Limited Series)')]);
+    expect(pairs).toEqual([
+      { titleIds: ['a', 'b'], reason: 'NAME_MATCH', detail: '"Adolescence" = "Adolescence (Limited Series)"' },
+    ]);
+  });
+
+  it('should pair season variants as aliases', () => {
+    const [pair] = findDuplicatePairs([title('a', 'Wednesday'), title('b', 'Wednesday: Season 2')]);
+    expect(pair.reason).toBe('ALIAS');
+  });
+
+  it('should pair near-identical spellings of the same type only', () => {
+    const titles = [
+      title('a', 'Evil Influencer: The Jodi Hildebrandt Story', { type: 'MOVIE' }),
+      title('b', 'Evil Influencer: The Jodi Hidebrandt Story', { type: 'MOVIE' }),
+      title('c', 'Evil Influencer: The Jodi Hildebrandts Story'),
+    ];
+    const pairs = findDuplicatePairs(titles);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ titleIds: ['a', 'b'], reason: 'FUZZY_NAME' });
+  });
+
+  it('should pair titles sharing an external ID whatever their names', () => {
+    const pairs = findDuplicatePairs([
+      title('a', 'Squid Game', { imdbId: 'tt10919420' }),
+      title('b', 'Ojingeo Geim', { externalIds: [{ provider: 'imdb', externalId: 'tt10919420' }] }),
+    ]);
+    expect(pairs).toEqual([{ titleIds: ['a', 'b'], reason: 'SHARED_EXTERNAL_ID', detail: 'imdb:tt10919420' }]);
+  });
+
+  it('should not pair unrelated titles', () => {
+    expect(findDuplicatePairs([title('a', 'Stranger Things'), title('b', 'Strange Planet')])).toEqual([]);
+  });
+});
+
+describe('clusterDuplicates', () => {
+  it('should join chains of pairs into one cluster', () => {
+    const clusters = clusterDuplicates([
+      title('a', 'Run Away'),
+      title('b', 'Run Away (Limited Series)'),
+      title('c', 'Runaway', { aliases: ['Run Away (Miniseries)'] }),
+      title('d', 'Ginny & Georgia'),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].titleIds.sort()).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('unionAliases', () => {
+  it("should add the duplicate's names without repeating the survivor's", () => {
+    expect(unionAliases(
+      { canonicalName: 'Run Away: Limited Series', aliases: ["Harlan Coben's Run Away"] },
+      { canonicalName: 'Run Away', aliases: ['Runaway', 'Run Away: Limited Series'] }
+    )).toEqual(["Harlan Coben's Run Away", 'Run Away']);
+  });
+});
+
+describe('planRelationMerge', () => {
+  const week = (id: string, weekStart: string, category = 'TV (English)') => ({
+    id,
+    weekStart: new Date(weekStart),
+    category,
+  });
+
+  it("should drop rows that clash with the survivor's unique keys", () => {
+    const plan = planRelationMerge(
+      [week('t1', '2025-06-02')],
+      [week('s1', '2025-06-02'), week('s2', '2025-06-09')],
+      ['weekStart', 'category']
+    );
+
+    expect(plan.moveIds).toEqual(['s2']);
+    expect(plan.dropped.map((r) => r.id)).toEqual(['s1']);
+  });
+
+  it('should move everything when the relation has no unique constraint', () => {
+    const plan = planRelationMerge([{ id: 't1' }], [{ id: 's1' }, { id: 's2' }], null);
+    expect(plan).toEqual({ moveIds: ['s1', 's2'], dropped: [] });
+  });
+
+  it('should keep only one row when titleId alone is unique', () => {
+    expect(planRelationMerge([{ id: 't1' }], [{ id: 's1' }], []).dropped).toHaveLength(1);
+    expect(planRelationMerge([], [{ id: 's1' }], []).moveIds).toEqual(['s1']);
+  });
+});
+
+describe('planSeasonRemap', () => {
+  const targetSeasons = [{ id: 'tS1', seasonNumber: 1 }, { id: 'tS2', seasonNumber: 2 }];
+  const seasonPlan = planRelationMerge(
+    targetSeasons,
+    [{ id: 'sS2', seasonNumber: 2 }, { id: 'sS3', seasonNumber: 3 }],
+    ['seasonNumber']
+  );
+
+  it("should move rows on a clashing season to the survivor's season", () => {
+    expect(seasonPlan.dropped.map((r) => r.id)).toEqual(['sS2']);
+
+    const remaps = planSeasonRemap(targetSeasons, seasonPlan.dropped, [
+      { id: 'w1', seasonId: 'sS2' },
+      { id: 'w2', seasonId: 'sS3' },
+      { id: 'w3', seasonId: null },
+    ]);
+    expect(remaps).toEqual([{ id: 'w1', from: 'sS2', to: 'tS2' }]);
+  });
+
+  it('should leave rows alone when no season was dropped', () => {
+    expect(planSeasonRemap(targetSeasons, [], [{ id: 'w1', seasonId: 'sS2' }])).toEqual([]);
+  });
+});
+
+describe('snapshot encoding', () => {
+  it('should round-trip BigInt columns through JSON and omit nulls', () => {
+    const row = { id: 'w1', views: BigInt('9007199254740993'), runtimeHours: null, rank: 1 };
+    const restored = decodeSnapshotRow(JSON.parse(JSON.stringify(encodeSnapshotRow(row))));
+
+    expect(restored).toEqual({ id: 'w1', views: BigInt('9007199254740993'), rank: 1 });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  resolveNetflixPreferences,
+  parseNetflixPreferences,
+  parseInsiderFilters,
+  DEFAULT_NETFLIX_PREFERENCES,
+} from '../userPreferences';
+
+describe('resolveNetflixPreferences', () => {
+  it('should fall back to defaults when nothing is stored', () => {
+    expect(resolveNetflixPreferences(null)).toEqual(DEFAULT_NETFLIX_PREFERENCES);
+  });
+
+  it('should merge stored fields over the defaults', () => {
+    expect(resolveNetflixPreferences({ defaultTab: 'films-global', minEdge: 20 })).toEqual({
+      defaultTab: 'films-global',
+      viewMode: 'rankings',
+      minEdge: 20,
+    });
+  });
+
+  it('should ignore a stored value that no longer validates', () => {
+    expect(resolveNetflixPreferences({ defaultTab: 'films-mars' })).toEqual(DEFAULT_NETFLIX_PREFERENCES);
+  });
+});
+
+describe('parseNetflixPreferences', () => {
+  it('should accept partial updates', () => {
+    expect(parseNetflixPreferences({ viewMode: 'opportunities' })).toEqual({ value: { viewMode: 'opportunities' } });
+  });
+
+  it('should reject unknown tabs, view modes and edges', () => {
+    expect(parseNetflixPreferences({ defaultTab: 'anime' }).error).toBeDefined();
+    expect(parseNetflixPreferences({ viewMode: 'grid' }).error).toBeDefined();
+    expect(parseNetflixPreferences({ minEdge: 7 }).error).toBeDefined();
+    expect(parseNetflixPreferences('shows-us').error).toBeDefined();
+  });
+});
+
+describe('parseInsiderFilters', () => {
+  it('should fill defaults for an empty filter set', () => {
+    expect(parseInsiderFilters({}).value).toEqual({
+      timeframe: 30,
+      badges: [],
+      categories: [],
+      side: 'all',
+      minSize: null,
+      maxSize: null,
+    });
+  });
+
+  it('should normalise categories and dedupe badges', () => {
+    const parsed = parseInsiderFilters({
+      timeframe: 7,
+      badges: ['BIG_BET', 'BIG_BET', 'FRESH_WALLET'],
+      categories: [' Entertainment ', 'entertainment'],
+      side: 'buy',
+      minSize: 1000,
+      maxSize: null,
+    });
+
+    expect(parsed.value).toMatchObject({
+      badges: ['BIG_BET', 'FRESH_WALLET'],
+      categories: ['entertainment'],
+      minSize: 1000,
+    });
+  });
+
+  it('should reject invalid filter values', () => {
+    expect(parseInsiderFilters({ timeframe: 14 }).error).toBeDefined();
+    expect(parseInsiderFilters({ badges: ['WHALE'] }).error).toBeDefined();
+    expect(parseInsiderFilters({ side: 'short' }).error).toBeDefined();
+    expect(parseInsiderFilters({ minSize: -5 }).error).toBeDefined();
+    expect(parseInsiderFilters({ minSize: 500, maxSize: 100 }).error).toBeDefined();
+  });
+});
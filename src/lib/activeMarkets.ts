@@ -6,6 +6,7 @@
  */
 
 import axios from 'axios';
+import { namesMatch } from './titleMatcher';
 
 interface ParsedOutcome {
   name: string;
@@ -69,19 +70,6 @@ export async function getActivePolymarketTitles(): Promise<Set<string>> {
   }
 }
 
-/**
- * Normalize title name for comparison
- * Handles variations like "Season 5" vs ": Season 5"
- */
-export function normalizeTitle(name: string): string {
-  return name
-    .replace(/:\s*Season\s*\d+$/i, '')
-    .replace(/:\s*Limited Series$/i, '')
-    .replace(/\s*\(.*?\)\s*$/g, '')
-    .trim()
-    .toLowerCase();
-}
-
 /**
  * Check if a title is currently active on Polymarket
  */
@@ -89,10 +77,9 @@ export function isTitleActive(titleName: string, activeTitles: Set<string>): boo
   // Direct match
   if (activeTitles.has(titleName)) return true;
 
-  // Normalized match
-  const normalizedInput = normalizeTitle(titleName);
+  // Same title, alias or season variant ("Show" vs "Show: Season 5")
   for (const active of activeTitles) {
-    if (normalizeTitle(active) === normalizedInput) return true;
+    if (namesMatch(active, titleName)) return true;
   }
 
   return false;
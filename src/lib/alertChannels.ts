@@ -0,0 +1,223 @@
+/**
+ * Alert Channels
+ *
+ * Delivery for fired alerts. Each channel validates its target (a URL or an
+ * email address) and sends one alert; new channels are added to ALERT_CHANNELS.
+ * Webhook targets must be https hostnames that resolve to public addresses,
+ * checked again at send time.
+ *
+ * Email uses SMTP settings from the environment:
+ * SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, ALERT_EMAIL_FROM.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import nodemailer from 'nodemailer';
+import type { AlertChannelType } from '@prisma/client';
+
+export interface AlertMessage {
+  ruleId: string;
+  ruleName: string;
+  ruleType: string;
+  title: string;
+  message: string;
+  payload: Record<string, unknown>;
+  firedAt: Date;
+}
+
+export interface AlertChannel {
+  validateTarget: (target: string) => Promise<string | null>; // Error message, or null if valid
+  send: (target: string, alert: AlertMessage) => Promise<void>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DISCORD_HOSTS = ['discord.com', 'discordapp.com'];
+const SLACK_HOSTS = ['hooks.slack.com'];
+
+// Webhook deliveries run inline in the job routes, so a slow target must not stall the job
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+function ipv4Octets(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map(Number);
+  return octets.every((o, i) => /^\d{1,3}$/.test(parts[i]) && o <= 255) ? octets : null;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not a
+ * public internet address a webhook may be delivered to
+ */
+export function isPrivateAddress(address: string): boolean {
+  const v4 = ipv4Octets(address);
+  if (v4) {
+    const [a, b] = v4;
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && v4[2] === 0) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  const v6 = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (!isIP(v6)) return true;
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  return (
+    v6 === '::' ||
+    v6 === '::1' ||
+    v6.startsWith('::ffff:') ||
+    /^f[cd]/.test(v6) ||
+    /^fe[89ab]/.test(v6) ||
+    v6.startsWith('ff')
+  );
+}
+
+/**
+ * Checks an https webhook URL, resolving its host so that names pointing at
+ * internal addresses are refused. Run both when a rule is saved and before
+ * every delivery, since DNS can change in between.
+ */
+async function validateUrl(target: string, hosts?: string[]): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return 'Target must be a valid URL';
+  }
+  if (url.protocol !== 'https:') return 'Target must be an https URL';
+  if (hosts && !hosts.some((h) => url.hostname === h || url.hostname.endsWith(`.${h}`))) {
+    return `Target must be a ${hosts.join(' or ')} webhook URL`;
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname)) return 'Target must use a hostname, not an IP address';
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || !hostname.includes('.')) {
+    return 'Target must be a public hostname';
+  }
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(hostname, { all: true });
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+  if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+    return 'Target must not resolve to a private or internal address';
+  }
+  return null;
+}
+
+async function postJson(url: string, body: unknown, hosts?: string[]): Promise<void> {
+  const urlError = await validateUrl(url, hosts);
+  if (urlError) throw new Error(urlError);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    redirect: 'error',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook returned ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Generic webhook body: the full alert as JSON
+ */
+export function formatWebhookPayload(alert: AlertMessage): Record<string, unknown> {
+  return {
+    rule: { id: alert.ruleId, name: alert.ruleName, type: alert.ruleType },
+    title: alert.title,
+    message: alert.message,
+    payload: alert.payload,
+    firedAt: alert.firedAt.toISOString(),
+  };
+}
+
+/**
+ * Discord webhook body
+ */
+export function formatDiscordPayload(alert: AlertMessage): Record<string, unknown> {
+  return {
+    username: 'PredictEasy',
+    embeds: [
+      {
+        title: alert.title.slice(0, 256),
+        description: alert.message.slice(0, 4000),
+        footer: { text: alert.ruleName },
+        timestamp: alert.firedAt.toISOString(),
+      },
+    ],
+  };
+}
+
+/**
+ * Slack incoming-webhook body
+ */
+export function formatSlackPayload(alert: AlertMessage): Record<string, unknown> {
+  return {
+    text: `${alert.title}: ${alert.message}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: alert.title.slice(0, 150) } },
+      { type: 'section', text: { type: 'mrkdwn', text: alert.message } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `Rule: ${alert.ruleName}` }] },
+    ],
+  };
+}
+
+let transporter: nodemailer.Transporter | null = null;
+
+function getTransporter(): nodemailer.Transporter {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST is not configured');
+  }
+
+  if (!transporter) {
+    const port = parseInt(process.env.SMTP_PORT || '587');
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+
+  return transporter;
+}
+
+export const ALERT_CHANNELS: Record<AlertChannelType, AlertChannel> = {
+  WEBHOOK: {
+    validateTarget: (target) => validateUrl(target),
+    send: (target, alert) => postJson(target, formatWebhookPayload(alert)),
+  },
+  DISCORD: {
+    validateTarget: (target) => validateUrl(target, DISCORD_HOSTS),
+    send: (target, alert) => postJson(target, formatDiscordPayload(alert), DISCORD_HOSTS),
+  },
+  SLACK: {
+    validateTarget: (target) => validateUrl(target, SLACK_HOSTS),
+    send: (target, alert) => postJson(target, formatSlackPayload(alert), SLACK_HOSTS),
+  },
+  EMAIL: {
+    validateTarget: async (target) => (EMAIL_PATTERN.test(target) ? null : 'Target must be an email address'),
+    send: async (target, alert) => {
+      await getTransporter().sendMail({
+        from: process.env.ALERT_EMAIL_FROM || process.env.SMTP_USER,
+        to: target,
+        subject: `[PredictEasy] ${alert.title}`,
+        text: `${alert.message}\n\nRule: ${alert.ruleName}\nFired: ${alert.firedAt.toISOString()}`,
+      });
+    },
+  },
+};
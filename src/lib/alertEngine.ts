@@ -0,0 +1,444 @@
+/**
+ * Alert Engine
+ *
+ * Evaluates active user alert rules once a job has produced new data, then
+ * delivers and records anything that fires. Jobs call evaluateAlertsAfterJob
+ * after marking their JobRun SUCCESS; JOB_ALERT_TYPES decides which rule
+ * types a job's output can trigger.
+ *
+ * Observations are loaded once per rule type (per window for price moves)
+ * and shared by every rule of that type.
+ */
+
+import type { AlertRuleType, AlertChannelType, InsiderBadgeType, OddsSource } from '@prisma/client';
+import prisma from './prisma';
+import { calculateEdge } from './edgeCalculator';
+import { generateMarketProbabilities, MarketCategory } from './forecaster';
+import { calculateConsensus } from './consensusCalculator';
+import { getConsensusWeights } from './consensusWeightStore';
+import {
+  parseRuleParams,
+  evaluateEdgeRule,
+  evaluateInsiderRule,
+  evaluatePriceMoveRule,
+  evaluateAwardDivergenceRule,
+  MARKET_CATEGORIES,
+  AlertCandidate,
+  EdgeThresholdParams,
+  InsiderBadgeParams,
+  PriceMoveParams,
+  AwardDivergenceParams,
+  EdgeObservation,
+  WalletBadgeObservation,
+  PriceMoveObservation,
+  AwardDivergenceObservation,
+} from './alertRules';
+import { ALERT_CHANNELS } from './alertChannels';
+
+export const JOB_ALERT_TYPES: Record<string, AlertRuleType[]> = {
+  'snapshot-prices': ['PRICE_MOVE', 'EDGE_THRESHOLD'],
+  generate_forecasts: ['EDGE_THRESHOLD'],
+  track_market_calibration: ['EDGE_THRESHOLD'],
+  scan_insiders: ['INSIDER_BADGE'],
+  ingest_awards_polymarket: ['AWARD_DIVERGENCE'],
+};
+
+// Cap per rule per evaluation so a misconfigured threshold can't flood a channel
+const MAX_ALERTS_PER_RULE = 10;
+const DEFAULT_BADGE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export interface AlertEvaluationContext {
+  jobName?: string;
+  jobRunId?: string;
+  since?: Date; // New insider badges are those earned after this
+}
+
+export interface AlertEvaluationResult {
+  rulesEvaluated: number;
+  alertsFired: number;
+  alertsSuppressed: number;
+  deliveryFailures: number;
+  errors: string[];
+}
+
+interface AlertRuleRecord {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  params: unknown;
+  channel: AlertChannelType;
+  target: string;
+  cooldownMinutes: number;
+}
+
+/**
+ * Current model vs market edges for the given weekly market categories
+ */
+async function loadEdgeObservations(categories: MarketCategory[]): Promise<EdgeObservation[]> {
+  const observations: EdgeObservation[] = [];
+
+  for (const category of categories) {
+    const probabilities = await generateMarketProbabilities(category);
+    if (!probabilities.marketId || !probabilities.marketSlug) continue;
+
+    const market = await prisma.polymarketMarket.findUnique({
+      where: { id: probabilities.marketId },
+      select: { outcomes: true, resolved: true },
+    });
+    if (!market || market.resolved || !Array.isArray(market.outcomes)) continue;
+
+    const marketPrices = new Map<string, number>();
+    for (const outcome of market.outcomes as Array<{ name?: string; probability?: number }>) {
+      if (outcome.name && typeof outcome.probability === 'number') {
+        marketPrices.set(outcome.name, outcome.probability);
+      }
+    }
+
+    for (const outcome of probabilities.outcomes) {
+      const marketProbability = marketPrices.get(outcome.name);
+      if (marketProbability === undefined) continue;
+
+      const modelProbability = outcome.probability / 100;
+      const edge = calculateEdge(marketProbability, modelProbability);
+      observations.push({
+        category,
+        marketSlug: probabilities.marketSlug,
+        marketQuestion: probabilities.marketQuestion,
+        outcomeName: outcome.name,
+        marketProbability,
+        modelProbability,
+        edgePercent: Math.round(edge.edgePercent * 10) / 10,
+        signalStrength: edge.signalStrength,
+      });
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Wallets that earned any of the given badges since the cutoff, with all their badges
+ */
+async function loadBadgeObservations(badgeTypes: InsiderBadgeType[], since: Date): Promise<WalletBadgeObservation[]> {
+  const earned = await prisma.insiderBadge.findMany({
+    where: { badgeType: { in: badgeTypes }, earnedAt: { gte: since } },
+    select: { walletId: true },
+    distinct: ['walletId'],
+  });
+  if (earned.length === 0) return [];
+
+  const wallets = await prisma.insiderWallet.findMany({
+    where: { id: { in: (earned as Array<{ walletId: string }>).map((b) => b.walletId) } },
+    include: {
+      badges: true,
+      trades: { orderBy: { timestamp: 'desc' }, take: 50 },
+    },
+  });
+
+  return (wallets as Array<{
+    id: string;
+    address: string;
+    badges: Array<{ id: string; badgeType: InsiderBadgeType; tradeId: string | null; reason: string; earnedAt: Date }>;
+    trades: WalletBadgeObservation['trades'];
+  }>).map((w) => ({
+    walletId: w.id,
+    address: w.address,
+    badges: w.badges.map((b) => ({
+      id: b.id,
+      type: b.badgeType,
+      tradeId: b.tradeId,
+      reason: b.reason,
+      isNew: b.earnedAt >= since,
+    })),
+    trades: w.trades.map((t) => ({
+      id: t.id,
+      marketSlug: t.marketSlug,
+      marketQuestion: t.marketQuestion,
+      outcomeName: t.outcomeName,
+      side: t.side,
+      usdValue: t.usdValue,
+      price: t.price,
+    })),
+  }));
+}
+
+/**
+ * Per-outcome price changes over the window for markets snapshotted recently
+ */
+async function loadPriceMoveObservations(windowHours: number): Promise<PriceMoveObservation[]> {
+  const now = Date.now();
+  const windowStart = new Date(now - windowHours * 60 * 60 * 1000);
+
+  const markets = await prisma.polymarketMarket.findMany({
+    where: {
+      resolved: false,
+      slug: { not: null },
+      prices: { some: { timestamp: { gte: new Date(now - 2 * 60 * 60 * 1000) } } },
+    },
+    select: { id: true, slug: true, question: true, category: true },
+  });
+
+  const observations: PriceMoveObservation[] = [];
+
+  for (const market of markets as Array<{ id: string; slug: string; question: string; category: string | null }>) {
+    const [current, past] = await Promise.all([
+      prisma.marketPriceSnapshot.findFirst({
+        where: { marketId: market.id },
+        orderBy: { timestamp: 'desc' },
+        select: { prices: true },
+      }),
+      prisma.marketPriceSnapshot.findFirst({
+        where: { marketId: market.id, timestamp: { lte: windowStart } },
+        orderBy: { timestamp: 'desc' },
+        select: { prices: true },
+      }),
+    ]);
+    if (!current || !past) continue;
+
+    const currentPrices = current.prices as Record<string, number>;
+    const pastPrices = past.prices as Record<string, number>;
+
+    for (const [outcomeName, currentPrice] of Object.entries(currentPrices)) {
+      const pastPrice = pastPrices[outcomeName];
+      if (typeof currentPrice !== 'number' || typeof pastPrice !== 'number') continue;
+
+      observations.push({
+        category: market.category,
+        marketSlug: market.slug,
+        marketQuestion: market.question,
+        outcomeName,
+        currentPrice,
+        pastPrice,
+        windowHours,
+      });
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Polymarket vs non-Polymarket consensus for nominees of upcoming ceremonies
+ */
+async function loadAwardObservations(): Promise<AwardDivergenceObservation[]> {
+  const shows = await prisma.awardShow.findMany({
+    where: { status: { in: ['UPCOMING', 'ACTIVE'] } },
+    include: {
+      categories: {
+        include: { nominees: { include: { odds: true } } },
+      },
+    },
+  });
+  const weights = await getConsensusWeights();
+
+  const observations: AwardDivergenceObservation[] = [];
+
+  for (const show of shows as Array<{
+    slug: string;
+    name: string;
+    categories: Array<{
+      slug: string;
+      name: string;
+      nominees: Array<{ name: string; odds: Array<{ source: string; probability: number }> }>;
+    }>;
+  }>) {
+    for (const category of show.categories) {
+      for (const nominee of category.nominees) {
+        const polymarket = nominee.odds.find((o) => o.source === 'POLYMARKET');
+        const others = nominee.odds.filter((o) => o.source !== 'POLYMARKET');
+        if (!polymarket || others.length === 0) continue;
+
+        const consensus = calculateConsensus(
+          others.map((o) => ({ source: o.source as OddsSource, probability: o.probability })),
+          weights
+        );
+
+        observations.push({
+          showSlug: show.slug,
+          showName: show.name,
+          categorySlug: category.slug,
+          categoryName: category.name,
+          nomineeName: nominee.name,
+          polymarketProbability: polymarket.probability,
+          consensusProbability: consensus.probability,
+          sourceCount: consensus.sourceCount,
+        });
+      }
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Evaluate every active rule of the given types
+ */
+export async function evaluateAlerts(
+  types: AlertRuleType[],
+  context: AlertEvaluationContext = {}
+): Promise<AlertEvaluationResult> {
+  const result: AlertEvaluationResult = {
+    rulesEvaluated: 0,
+    alertsFired: 0,
+    alertsSuppressed: 0,
+    deliveryFailures: 0,
+    errors: [],
+  };
+
+  const rules: AlertRuleRecord[] = await prisma.alertRule.findMany({
+    where: { isActive: true, type: { in: types } },
+  });
+  if (rules.length === 0) return result;
+
+  let since = context.since;
+  if (!since && context.jobRunId) {
+    const jobRun = await prisma.jobRun.findUnique({ where: { id: context.jobRunId }, select: { startedAt: true } });
+    since = jobRun?.startedAt;
+  }
+  since = since ?? new Date(Date.now() - DEFAULT_BADGE_LOOKBACK_MS);
+
+  // Observations shared by all rules of a type, loaded on first use
+  const cache = new Map<string, Promise<unknown>>();
+  const load = <T>(key: string, loader: () => Promise<T>): Promise<T> => {
+    if (!cache.has(key)) cache.set(key, loader());
+    return cache.get(key) as Promise<T>;
+  };
+
+  for (const rule of rules) {
+    const parsed = parseRuleParams(rule.type, rule.params);
+    if (parsed.error !== undefined) {
+      result.errors.push(`Rule ${rule.id} has invalid params: ${parsed.error}`);
+      continue;
+    }
+
+    let candidates: AlertCandidate[];
+    try {
+      switch (rule.type) {
+        case 'EDGE_THRESHOLD': {
+          const params = parsed.params as EdgeThresholdParams;
+          candidates = evaluateEdgeRule(params, await load('edges', () => loadEdgeObservations(MARKET_CATEGORIES)));
+          break;
+        }
+        case 'INSIDER_BADGE': {
+          const params = parsed.params as InsiderBadgeParams;
+          const wallets = await load(`badges:${params.badgeTypes.slice().sort().join(',')}`, () =>
+            loadBadgeObservations(params.badgeTypes, since)
+          );
+          candidates = evaluateInsiderRule(params, wallets);
+          break;
+        }
+        case 'PRICE_MOVE': {
+          const params = parsed.params as PriceMoveParams;
+          const moves = await load(`moves:${params.windowHours}`, () => loadPriceMoveObservations(params.windowHours));
+          candidates = evaluatePriceMoveRule(params, moves);
+          break;
+        }
+        case 'AWARD_DIVERGENCE': {
+          const params = parsed.params as AwardDivergenceParams;
+          candidates = evaluateAwardDivergenceRule(params, await load('awards', loadAwardObservations));
+          break;
+        }
+        default:
+          candidates = [];
+      }
+    } catch (error) {
+      result.errors.push(`Rule ${rule.id} evaluation failed: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    result.rulesEvaluated++;
+    await fireCandidates(rule, candidates.slice(0, MAX_ALERTS_PER_RULE), context, result);
+  }
+
+  return result;
+}
+
+async function fireCandidates(
+  rule: AlertRuleRecord,
+  candidates: AlertCandidate[],
+  context: AlertEvaluationContext,
+  result: AlertEvaluationResult
+): Promise<void> {
+  const cooldownStart = new Date(Date.now() - rule.cooldownMinutes * 60 * 1000);
+  const channel = ALERT_CHANNELS[rule.channel];
+  let fired = 0;
+
+  for (const candidate of candidates) {
+    const recent = await prisma.alertEvent.findFirst({
+      where: { ruleId: rule.id, dedupeKey: candidate.dedupeKey, firedAt: { gte: cooldownStart } },
+      select: { id: true },
+    });
+    if (recent) {
+      result.alertsSuppressed++;
+      continue;
+    }
+
+    const firedAt = new Date();
+    let error: string | null = null;
+    try {
+      await channel.send(rule.target, {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        ruleType: rule.type,
+        title: candidate.title,
+        message: candidate.message,
+        payload: candidate.payload,
+        firedAt,
+      });
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      result.deliveryFailures++;
+    }
+
+    await prisma.alertEvent.create({
+      data: {
+        ruleId: rule.id,
+        dedupeKey: candidate.dedupeKey,
+        title: candidate.title,
+        message: candidate.message,
+        payload: candidate.payload as object,
+        jobName: context.jobName,
+        jobRunId: context.jobRunId,
+        delivered: error === null,
+        error,
+        firedAt,
+      },
+    });
+    result.alertsFired++;
+    fired++;
+  }
+
+  if (fired > 0) {
+    await prisma.alertRule.update({ where: { id: rule.id }, data: { lastFiredAt: new Date() } });
+  }
+}
+
+/**
+ * Evaluate the rules a finished job can trigger
+ *
+ * Never throws: alerting problems are logged rather than failing the job.
+ */
+export async function evaluateAlertsAfterJob(
+  jobName: string,
+  jobRunId?: string
+): Promise<AlertEvaluationResult | null> {
+  const types = JOB_ALERT_TYPES[jobName];
+  if (!types) return null;
+
+  try {
+    const result = await evaluateAlerts(types, { jobName, jobRunId });
+    if (result.rulesEvaluated > 0) {
+      console.log(
+        `[alerts] ${jobName}: ${result.rulesEvaluated} rules, ${result.alertsFired} fired ` +
+        `(${result.alertsSuppressed} in cooldown, ${result.deliveryFailures} delivery failures)`
+      );
+    }
+    if (result.errors.length > 0) {
+      console.warn('[alerts] Errors:', result.errors.slice(0, 10));
+    }
+    return result;
+  } catch (error) {
+    console.error(`[alerts] Evaluation after ${jobName} failed:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Alert Rules
+ *
+ * Pure definitions for user alert rules: validating each rule type's params
+ * and evaluating a rule against observations loaded by the alert engine.
+ *
+ * Every candidate carries a dedupeKey naming its subject (a market outcome,
+ * a wallet's badge, a nominee) so the engine can hold back repeats of the
+ * same alert within the rule's cooldown.
+ */
+
+import type { AlertRuleType, InsiderBadgeType } from '@prisma/client';
+import type { MarketCategory } from './forecaster';
+import type { SignalStrength } from './edgeCalculator';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  'EDGE_THRESHOLD',
+  'INSIDER_BADGE',
+  'PRICE_MOVE',
+  'AWARD_DIVERGENCE',
+];
+
+export const MARKET_CATEGORIES: MarketCategory[] = ['shows-us', 'shows-global', 'films-us', 'films-global'];
+
+export const INSIDER_BADGE_TYPES: InsiderBadgeType[] = [
+  'HIGH_WIN_RATE',
+  'BIG_BET',
+  'LONG_SHOT',
+  'PRE_MOVE',
+  'LATE_WINNER',
+  'FIRST_MOVER',
+  'FRESH_WALLET',
+  'SINGLE_MARKET',
+];
+
+export interface EdgeThresholdParams {
+  minEdge: number;               // Points, compared against |edge|
+  category?: MarketCategory;     // All weekly Netflix markets if omitted
+  direction?: 'BUY' | 'AVOID';   // Either direction if omitted
+}
+
+export interface InsiderBadgeParams {
+  badgeTypes: InsiderBadgeType[]; // Wallet must hold all of them
+  marketQuery?: string;           // Case-insensitive match on the traded market's question or slug
+  minUsdValue?: number;           // Smallest qualifying trade
+}
+
+export interface PriceMoveParams {
+  minMove: number;               // Points, compared against |move|
+  windowHours: number;
+  category?: MarketCategory;
+}
+
+export interface AwardDivergenceParams {
+  minDivergence: number;         // Points between Polymarket and the non-Polymarket consensus
+  showSlug?: string;
+}
+
+export type AlertRuleParams =
+  | EdgeThresholdParams
+  | InsiderBadgeParams
+  | PriceMoveParams
+  | AwardDivergenceParams;
+
+export interface AlertCandidate {
+  dedupeKey: string;
+  title: string;
+  message: string;
+  payload: Record<string, unknown>;
+}
+
+export interface EdgeObservation {
+  category: MarketCategory;
+  marketSlug: string;
+  marketQuestion: string;
+  outcomeName: string;
+  marketProbability: number; // 0-1
+  modelProbability: number;  // 0-1
+  edgePercent: number;       // Model minus market, in points
+  signalStrength: SignalStrength;
+}
+
+export interface WalletBadgeObservation {
+  walletId: string;
+  address: string;
+  badges: Array<{ id: string; type: InsiderBadgeType; tradeId: string | null; reason: string; isNew: boolean }>;
+  trades: Array<{
+    id: string;
+    marketSlug: string | null;
+    marketQuestion: string;
+    outcomeName: string;
+    side: string;
+    usdValue: number;
+    price: number;
+  }>;
+}
+
+export interface PriceMoveObservation {
+  category: string | null;
+  marketSlug: string;
+  marketQuestion: string;
+  outcomeName: string;
+  currentPrice: number; // 0-1
+  pastPrice: number;    // 0-1
+  windowHours: number;
+}
+
+export interface AwardDivergenceObservation {
+  showSlug: string;
+  showName: string;
+  categorySlug: string;
+  categoryName: string;
+  nomineeName: string;
+  polymarketProbability: number; // 0-1
+  consensusProbability: number;  // 0-1, excluding Polymarket
+  sourceCount: number;
+}
+
+type ParseResult = { params: AlertRuleParams; error?: undefined } | { params?: undefined; error: string };
+
+function positiveNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate and normalise a rule's params for its type
+ */
+export function parseRuleParams(type: AlertRuleType, raw: unknown): ParseResult {
+  const input = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+
+  switch (type) {
+    case 'EDGE_THRESHOLD': {
+      const minEdge = positiveNumber(input.minEdge);
+      if (minEdge === null) return { error: 'minEdge must be a positive number of points' };
+      const category = optionalString(input.category) as MarketCategory | undefined;
+      if (category && !MARKET_CATEGORIES.includes(category)) {
+        return { error: `category must be one of ${MARKET_CATEGORIES.join(', ')}` };
+      }
+      const direction = optionalString(input.direction);
+      if (direction && direction !== 'BUY' && direction !== 'AVOID') {
+        return { error: 'direction must be BUY or AVOID' };
+      }
+      return { params: { minEdge, category, direction: direction as EdgeThresholdParams['direction'] } };
+    }
+
+    case 'INSIDER_BADGE': {
+      const badgeTypes = Array.isArray(input.badgeTypes) ? input.badgeTypes : [];
+      if (badgeTypes.length === 0 || !badgeTypes.every((b) => INSIDER_BADGE_TYPES.includes(b))) {
+        return { error: `badgeTypes must be a non-empty list of ${INSIDER_BADGE_TYPES.join(', ')}` };
+      }
+      const minUsdValue = input.minUsdValue === undefined ? undefined : positiveNumber(input.minUsdValue);
+      if (minUsdValue === null) return { error: 'minUsdValue must be a positive number' };
+      return {
+        params: {
+          badgeTypes: Array.from(new Set(badgeTypes as InsiderBadgeType[])),
+          marketQuery: optionalString(input.marketQuery),
+          minUsdValue,
+        },
+      };
+    }
+
+    case 'PRICE_MOVE': {
+      const minMove = positiveNumber(input.minMove);
+      if (minMove === null) return { error: 'minMove must be a positive number of points' };
+      const windowHours = input.windowHours === undefined ? 24 : positiveNumber(input.windowHours);
+      if (windowHours === null || windowHours > 168) return { error: 'windowHours must be between 0 and 168' };
+      const category = optionalString(input.category) as MarketCategory | undefined;
+      if (category && !MARKET_CATEGORIES.includes(category)) {
+        return { error: `category must be one of ${MARKET_CATEGORIES.join(', ')}` };
+      }
+      return { params: { minMove, windowHours, category } };
+    }
+
+    case 'AWARD_DIVERGENCE': {
+      const minDivergence = positiveNumber(input.minDivergence);
+      if (minDivergence === null) return { error: 'minDivergence must be a positive number of points' };
+      return { params: { minDivergence, showSlug: optionalString(input.showSlug) } };
+    }
+
+    default:
+      return { error: `Unknown rule type: ${type}` };
+  }
+}
+
+function formatPoints(points: number): string {
+  return `${points > 0 ? '+' : ''}${points.toFixed(1)} pts`;
+}
+
+function formatPercent(probability: number): string {
+  return `${(probability * 100).toFixed(1)}%`;
+}
+
+function outcomeKey(marketSlug: string, outcomeName: string): string {
+  return `${marketSlug}:${outcomeName.toLowerCase()}`;
+}
+
+/**
+ * Outcomes whose model edge clears the threshold
+ */
+export function evaluateEdgeRule(params: EdgeThresholdParams, observations: EdgeObservation[]): AlertCandidate[] {
+  return observations
+    .filter((o) => !params.category || o.category === params.category)
+    .filter((o) => Math.abs(o.edgePercent) >= params.minEdge)
+    .filter((o) => !params.direction || (params.direction === 'BUY' ? o.edgePercent > 0 : o.edgePercent < 0))
+    .map((o) => {
+      const direction = o.edgePercent > 0 ? 'BUY' : 'AVOID';
+      return {
+        dedupeKey: outcomeKey(o.marketSlug, o.outcomeName),
+        title: `${direction} ${o.outcomeName}: ${formatPoints(o.edgePercent)} edge`,
+        message:
+          `Model ${formatPercent(o.modelProbability)} vs market ${formatPercent(o.marketProbability)} ` +
+          `(${o.signalStrength}) on "${o.marketQuestion}"`,
+        payload: { ...o, direction },
+      };
+    });
+}
+
+/**
+ * Wallets that now hold every badge in the rule, triggered by a new one
+ */
+export function evaluateInsiderRule(params: InsiderBadgeParams, wallets: WalletBadgeObservation[]): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+  const query = params.marketQuery?.toLowerCase();
+
+  for (const wallet of wallets) {
+    const held = new Set(wallet.badges.map((b) => b.type));
+    if (!params.badgeTypes.every((t) => held.has(t))) continue;
+
+    const matching = wallet.badges.filter((b) => params.badgeTypes.includes(b.type));
+    const fresh = matching.filter((b) => b.isNew);
+    if (fresh.length === 0) continue;
+
+    // Trade-level badges point at the trades that earned them; wallet-level
+    // badges (FRESH_WALLET, HIGH_WIN_RATE) cover all of the wallet's trades
+    const badgeTradeIds = new Set(matching.map((b) => b.tradeId).filter((id): id is string => id !== null));
+    const trades = wallet.trades
+      .filter((t) => badgeTradeIds.size === 0 || badgeTradeIds.has(t.id))
+      .filter((t) => !query || t.marketQuestion.toLowerCase().includes(query) || (t.marketSlug ?? '').toLowerCase().includes(query))
+      .filter((t) => params.minUsdValue === undefined || t.usdValue >= params.minUsdValue);
+
+    if (trades.length === 0) continue;
+
+    const top = trades.reduce((a, b) => (b.usdValue > a.usdValue ? b : a));
+    const shortAddress = `${wallet.address.slice(0, 6)}…${wallet.address.slice(-4)}`;
+
+    candidates.push({
+      dedupeKey: `${wallet.walletId}:${fresh.map((b) => b.id).sort().join(',')}`,
+      title: `Insider ${params.badgeTypes.join(' + ')}: ${shortAddress}`,
+      message:
+        `${top.side} ${top.outcomeName} for $${Math.round(top.usdValue).toLocaleString()} at ${formatPercent(top.price)} ` +
+        `on "${top.marketQuestion}". ${fresh.map((b) => b.reason).join('; ')}`,
+      payload: {
+        walletId: wallet.walletId,
+        address: wallet.address,
+        badgeTypes: matching.map((b) => b.type),
+        trades,
+      },
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Outcomes whose price moved at least minMove points over the window
+ */
+export function evaluatePriceMoveRule(params: PriceMoveParams, observations: PriceMoveObservation[]): AlertCandidate[] {
+  return observations
+    .filter((o) => o.windowHours === params.windowHours)
+    .filter((o) => !params.category || o.category === params.category)
+    .map((o) => ({ ...o, move: Math.round((o.currentPrice - o.pastPrice) * 1000) / 10 }))
+    .filter((o) => Math.abs(o.move) >= params.minMove)
+    .map((o) => ({
+      dedupeKey: `${outcomeKey(o.marketSlug, o.outcomeName)}:${o.move > 0 ? 'up' : 'down'}`,
+      title: `${o.outcomeName} ${o.move > 0 ? 'up' : 'down'} ${Math.abs(o.move).toFixed(1)} pts in ${o.windowHours}h`,
+      message: `${formatPercent(o.pastPrice)} → ${formatPercent(o.currentPrice)} on "${o.marketQuestion}"`,
+      payload: { ...o },
+    }));
+}
+
+/**
+ * Nominees where Polymarket and the other sources disagree by minDivergence
+ */
+export function evaluateAwardDivergenceRule(
+  params: AwardDivergenceParams,
+  observations: AwardDivergenceObservation[]
+): AlertCandidate[] {
+  return observations
+    .filter((o) => !params.showSlug || o.showSlug === params.showSlug)
+    .filter((o) => o.sourceCount > 0)
+    .map((o) => ({ ...o, divergence: Math.round((o.polymarketProbability - o.consensusProbability) * 1000) / 10 }))
+    .filter((o) => Math.abs(o.divergence) >= params.minDivergence)
+    .map((o) => ({
+      dedupeKey: `${o.showSlug}:${o.categorySlug}:${o.nomineeName.toLowerCase()}`,
+      title: `${o.nomineeName} (${o.categoryName}): Polymarket ${formatPoints(o.divergence)} vs consensus`,
+      message:
+        `Polymarket ${formatPercent(o.polymarketProbability)} vs ${formatPercent(o.consensusProbability)} ` +
+        `from ${o.sourceCount} other source${o.sourceCount === 1 ? '' : 's'} (${o.showName})`,
+      payload: { ...o },
+    }));
+}
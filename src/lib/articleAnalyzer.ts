@@ -6,6 +6,7 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { matchCategoryName } from './awardShows';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -36,23 +37,13 @@ export interface ArticleAnalysis {
 }
 
 /**
- * Categories we're tracking for Golden Globes
+ * The show an article is analyzed for: predictions are mapped onto its
+ * categories (from AwardCategory)
  */
-const GOLDEN_GLOBE_CATEGORIES = [
-  'Best Director',
-  'Best Motion Picture - Drama',
-  'Best Motion Picture - Musical or Comedy',
-  'Best Actor - Drama',
-  'Best Actress - Drama',
-  'Best Actor - Musical or Comedy',
-  'Best Actress - Musical or Comedy',
-  'Best Motion Picture - Animated',
-  'Best Screenplay - Motion Picture',
-  'Best Original Score',
-  'Best Original Song - Motion Picture',
-  'Best Motion Picture - Non-English Language',
-  'Cinematic and Box Office Achievement',
-];
+export interface ArticleShowContext {
+  showName: string;               // "Oscars 2027"
+  categories: string[];           // Category names as stored
+}
 
 /**
  * Analyze an article and extract predictions using Claude
@@ -60,9 +51,10 @@ const GOLDEN_GLOBE_CATEGORIES = [
 export async function analyzeArticle(
   articleText: string,
   articleTitle: string,
-  articleSource: string
+  articleSource: string,
+  show: ArticleShowContext
 ): Promise<ArticleAnalysis> {
-  const prompt = `You are an expert awards analyst. Analyze this Golden Globes prediction article and extract structured predictions.
+  const prompt = `You are an expert awards analyst. Analyze this ${show.showName} prediction article and extract structured predictions.
 
 IMPORTANT RULES:
 1. Only extract predictions that are EXPLICITLY stated or strongly implied in the article
@@ -76,7 +68,7 @@ IMPORTANT RULES:
 6. Note any alternate contenders the author discusses
 
 CATEGORIES TO MAP TO:
-${GOLDEN_GLOBE_CATEGORIES.map(c => `- ${c}`).join('\n')}
+${show.categories.map(c => `- ${c}`).join('\n')}
 
 ARTICLE SOURCE: ${articleSource}
 ARTICLE TITLE: ${articleTitle}
@@ -135,11 +127,8 @@ If the article doesn't make clear predictions, return an empty predictions array
     // Validate and clean up predictions
     analysis.predictions = analysis.predictions
       .filter(p => {
-        // Ensure category matches our known categories (fuzzy match)
-        const matchedCategory = GOLDEN_GLOBE_CATEGORIES.find(
-          c => c.toLowerCase().includes(p.categoryName.toLowerCase()) ||
-               p.categoryName.toLowerCase().includes(c.toLowerCase().replace(' - ', ' '))
-        );
+        // Ensure category matches the show's categories (fuzzy match)
+        const matchedCategory = matchCategoryName(p.categoryName, show.categories);
         if (matchedCategory) {
           p.categoryName = matchedCategory; // Normalize to our category name
           return true;
@@ -164,13 +153,14 @@ If the article doesn't make clear predictions, return an empty predictions array
  * Analyze multiple articles and aggregate predictions
  */
 export async function analyzeMultipleArticles(
-  articles: Array<{ text: string; title: string; source: string; url: string }>
+  articles: Array<{ text: string; title: string; source: string; url: string }>,
+  show: ArticleShowContext
 ): Promise<Map<string, ArticleAnalysis & { url: string }>> {
   const results = new Map<string, ArticleAnalysis & { url: string }>();
 
   for (const article of articles) {
     try {
-      const analysis = await analyzeArticle(article.text, article.title, article.source);
+      const analysis = await analyzeArticle(article.text, article.title, article.source, show);
       results.set(article.url, { ...analysis, url: article.url });
 
       // Rate limiting - wait 500ms between requests
@@ -215,7 +205,8 @@ export function getPredictionsForCategory(
  */
 export async function summarizeArticle(
   articleText: string,
-  articleTitle: string
+  articleTitle: string,
+  showName: string
 ): Promise<string> {
   try {
     const response = await anthropic.messages.create({
@@ -224,7 +215,7 @@ export async function summarizeArticle(
       messages: [
         {
           role: 'user',
-          content: `Summarize this Golden Globes prediction article in 2-3 sentences, focusing on the main predictions made:
+          content: `Summarize this ${showName} prediction article in 2-3 sentences, focusing on the main predictions made:
 
 TITLE: ${articleTitle}
 
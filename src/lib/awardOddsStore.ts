@@ -0,0 +1,122 @@
+/**
+ * Award Odds Store
+ *
+ * Loads a show's categories and nominees for odds entry, reads each
+ * source's odds as of a past moment from snapshots, and writes entered
+ * odds: each matched nominee's AwardOdds row for the source is replaced and
+ * an AwardOddsSnapshot recorded, all in one transaction. Rows are stored
+ * de-vigged, with the probability implied by the quoted odds kept alongside.
+ */
+
+import type { OddsSource } from '@prisma/client';
+import prisma from './prisma';
+import type { EntryCategory, OddsPreviewRow } from './oddsEntry';
+
+export interface OddsCommitResult {
+  oddsCreated: number;
+  oddsUpdated: number;
+  snapshots: number;
+}
+
+/**
+ * A show's categories with their nominees, null if the show doesn't exist
+ */
+export async function getEntryCategories(showId: string): Promise<EntryCategory[] | null> {
+  const show = await prisma.awardShow.findUnique({
+    where: { id: showId },
+    select: {
+      categories: {
+        orderBy: { displayOrder: 'asc' },
+        select: {
+          id: true,
+          name: true,
+          nominees: { orderBy: { name: 'asc' }, select: { id: true, name: true } },
+        },
+      },
+    },
+  }) as { categories: EntryCategory[] } | null;
+  return show?.categories ?? null;
+}
+
+/**
+ * Write a de-vigged preview's matched rows as the source's current odds
+ *
+ * @param url - Page the odds came from, kept on the odds rows
+ */
+export async function commitAwardOdds(
+  source: OddsSource,
+  rows: OddsPreviewRow[],
+  url: string | null
+): Promise<OddsCommitResult> {
+  // Last line wins when a nominee appears twice
+  const byNominee = new Map<string, {
+    probability: number;
+    rawProbability: number;
+    devigMethod: string | null;
+    rawOdds: string;
+  }>();
+  for (const row of rows) {
+    if (row.status !== 'matched' || !row.nomineeId || row.probability === null) continue;
+    byNominee.set(row.nomineeId, {
+      probability: row.fairProbability ?? row.probability,
+      rawProbability: row.probability,
+      devigMethod: row.devigMethod,
+      rawOdds: row.rawOdds,
+    });
+  }
+
+  const nomineeIds = [...byNominee.keys()];
+  const existing = await prisma.awardOdds.findMany({
+    where: { source, nomineeId: { in: nomineeIds } },
+    select: { nomineeId: true },
+  }) as { nomineeId: string }[];
+  const existingIds = new Set(existing.map((o) => o.nomineeId));
+
+  const fetchedAt = new Date();
+  await prisma.$transaction(
+    [...byNominee].flatMap(([nomineeId, odds]) => [
+      prisma.awardOdds.upsert({
+        where: { nomineeId_source: { nomineeId, source } },
+        create: { nomineeId, source, ...odds, url, fetchedAt },
+        update: { ...odds, fetchedAt, ...(url && { url }) },
+      }),
+      prisma.awardOddsSnapshot.create({
+        data: {
+          nomineeId,
+          source,
+          probability: odds.probability,
+          rawProbability: odds.rawProbability,
+          snapshotAt: fetchedAt,
+        },
+      }),
+    ])
+  );
+
+  return {
+    oddsCreated: nomineeIds.length - existingIds.size,
+    oddsUpdated: existingIds.size,
+    snapshots: nomineeIds.length,
+  };
+}
+
+/**
+ * Each nominee's latest snapshot per source taken at or before the cutoff.
+ * Nominees without one are absent from the map.
+ */
+export async function getOddsAsOf(
+  nomineeIds: string[],
+  cutoff: Date
+): Promise<Map<string, Partial<Record<OddsSource, number>>>> {
+  const snapshots = await prisma.awardOddsSnapshot.findMany({
+    where: { nomineeId: { in: nomineeIds }, snapshotAt: { lte: cutoff } },
+    orderBy: { snapshotAt: 'asc' },
+    select: { nomineeId: true, source: true, probability: true },
+  }) as Array<{ nomineeId: string; source: OddsSource; probability: number }>;
+
+  // Ascending, so the latest snapshot per source wins
+  const odds = new Map<string, Partial<Record<OddsSource, number>>>();
+  for (const snapshot of snapshots) {
+    odds.set(snapshot.nomineeId, { ...odds.get(snapshot.nomineeId), [snapshot.source]: snapshot.probability });
+  }
+  return odds;
+}
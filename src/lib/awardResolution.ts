@@ -0,0 +1,236 @@
+/**
+ * Award Resolution
+ *
+ * Reads winners off resolved Polymarket award events and scores a finished
+ * show: where each source (and our consensus) ranked the winner, each
+ * source's Brier score, and whether the Polymarket edges flagged on the
+ * category pages paid off. Scoring uses odds as of a cutoff before the
+ * ceremony, since prices snap to 0 or 1 once winners are announced.
+ */
+
+import type { AwardShowStatus, OddsSource } from '@prisma/client';
+import { ConsensusWeights, calculateConsensus } from './consensusCalculator';
+import { isCeremonyOver } from './awardShows';
+
+// The subset of a Gamma API event needed to read its winner
+export interface ResolvableEvent {
+  closed: boolean;
+  markets: Array<{ groupItemTitle: string; outcomePrices: string; closed?: boolean }>;
+}
+
+export type ScoredSource = OddsSource | 'CONSENSUS';
+
+export interface ScorecardNominee {
+  id: string;
+  name: string;
+  isWinner: boolean;
+  odds: Partial<Record<OddsSource, number>>;  // As of the cutoff
+}
+
+export interface ScorecardCategoryInput {
+  id: string;
+  name: string;
+  slug: string;
+  nominees: ScorecardNominee[];
+}
+
+export interface CategoryScore {
+  id: string;
+  name: string;
+  slug: string;
+  winner: string | null;
+  winnerRanks: Partial<Record<ScoredSource, number>>;          // 1 = the source's favorite
+  winnerProbabilities: Partial<Record<ScoredSource, number>>;
+}
+
+export interface SourceScore {
+  source: ScoredSource;
+  categories: number;         // Resolved categories the source quoted the winner in
+  favoritesWon: number;       // ...where the winner was its favorite
+  meanWinnerRank: number | null;
+  brier: number | null;       // Mean (p - outcome)^2 over every nominee line
+  lines: number;
+}
+
+export interface EdgeResult {
+  categoryName: string;
+  categorySlug: string;
+  nomineeName: string;
+  source: OddsSource;
+  polymarketProbability: number;
+  sourceProbability: number;
+  edge: number;               // Source minus Polymarket, 0-1
+  side: 'YES' | 'NO';         // The Polymarket side the edge points to
+  won: boolean;
+  returnPerDollar: number;
+}
+
+export interface Scorecard {
+  categories: CategoryScore[];
+  sources: SourceScore[];
+  edges: EdgeResult[];
+  edgeSummary: { flagged: number; won: number; totalReturn: number };
+}
+
+// Same bar as the category page's edge highlights
+export const EDGE_THRESHOLD = 0.02;
+
+// Shows are checked for winners this long after the ceremony
+export const RESOLUTION_WINDOW_DAYS = 30;
+
+// A show is COMPLETED once every Polymarket category has a winner, or this
+// long after the ceremony even if some never resolve
+export const WINNER_WAIT_DAYS = 7;
+
+const RESOLVED_PRICE = 0.99;
+
+/**
+ * The winning nominee's name on a resolved event, null while it is open or
+ * if no single market settled YES
+ */
+export function resolveEventWinner(event: ResolvableEvent): string | null {
+  const settled = (event.markets ?? []).filter((market) => {
+    if (!event.closed && !market.closed) return false;
+    try {
+      const prices = JSON.parse(market.outcomePrices || '[]');
+      return parseFloat(prices[0]) >= RESOLVED_PRICE;
+    } catch {
+      return false;
+    }
+  });
+  if (settled.length !== 1) return null;
+  // Same "Name – Film" split as ingestion
+  return settled[0].groupItemTitle.split(' – ')[0].trim() || null;
+}
+
+/**
+ * A show's status once its winners have been checked
+ */
+export function resolvedShowStatus(
+  show: {
+    ceremonyDate: Date;
+    status: AwardShowStatus;
+    categories: Array<{ polymarketSlug: string | null; nominees: Array<{ isWinner: boolean }> }>;
+  },
+  now: Date = new Date()
+): AwardShowStatus {
+  if (show.status === 'COMPLETED' || !isCeremonyOver(show.ceremonyDate, now)) return show.status;
+
+  const allResolved = show.categories
+    .filter((c) => c.polymarketSlug)
+    .every((c) => c.nominees.some((n) => n.isWinner));
+  const waitedOut = now.getTime() - show.ceremonyDate.getTime() > WINNER_WAIT_DAYS * 24 * 60 * 60 * 1000;
+  return allResolved || waitedOut ? 'COMPLETED' : show.status;
+}
+
+function withConsensus(nominee: ScorecardNominee, weights: ConsensusWeights): Partial<Record<ScoredSource, number>> {
+  const odds = Object.entries(nominee.odds).map(([source, probability]) => ({
+    source: source as OddsSource,
+    probability: probability!,
+  }));
+  if (odds.length === 0) return {};
+  return { ...nominee.odds, CONSENSUS: calculateConsensus(odds, weights).probability };
+}
+
+/**
+ * Score a show's categories. Unresolved categories are listed without
+ * winner ranks and left out of every score.
+ */
+export function buildScorecard(categories: ScorecardCategoryInput[], weights: ConsensusWeights): Scorecard {
+  const totals = new Map<ScoredSource, { ranks: number[]; favorites: number; brier: number; lines: number }>();
+  const total = (source: ScoredSource) => {
+    const entry = totals.get(source) ?? { ranks: [], favorites: 0, brier: 0, lines: 0 };
+    totals.set(source, entry);
+    return entry;
+  };
+  const edges: EdgeResult[] = [];
+
+  const scored = categories.map((category): CategoryScore => {
+    const winner = category.nominees.find((n) => n.isWinner) ?? null;
+    const score: CategoryScore = {
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      winner: winner?.name ?? null,
+      winnerRanks: {},
+      winnerProbabilities: {},
+    };
+    if (!winner) return score;
+
+    const lines = category.nominees.map((n) => ({ nominee: n, odds: withConsensus(n, weights) }));
+    const sources = new Set(lines.flatMap((l) => Object.keys(l.odds) as ScoredSource[]));
+
+    for (const source of sources) {
+      const quoted = lines.filter((l) => l.odds[source] !== undefined);
+      const entry = total(source);
+      for (const line of quoted) {
+        entry.brier += Math.pow(line.odds[source]! - (line.nominee.isWinner ? 1 : 0), 2);
+        entry.lines++;
+      }
+
+      const winnerProbability = lines.find((l) => l.nominee.isWinner)?.odds[source];
+      if (winnerProbability === undefined) continue;
+      const rank = 1 + quoted.filter((l) => l.odds[source]! > winnerProbability).length;
+      score.winnerRanks[source] = rank;
+      score.winnerProbabilities[source] = winnerProbability;
+      entry.ranks.push(rank);
+      if (rank === 1) entry.favorites++;
+    }
+
+    for (const { nominee } of lines) {
+      const polymarket = nominee.odds.POLYMARKET;
+      if (polymarket === undefined) continue;
+
+      // The biggest gap to Polymarket from any other source, as flagged on the category page
+      let flagged: { source: OddsSource; probability: number } | null = null;
+      for (const [source, probability] of Object.entries(nominee.odds) as [OddsSource, number][]) {
+        if (source === 'POLYMARKET') continue;
+        if (!flagged || Math.abs(probability - polymarket) > Math.abs(flagged.probability - polymarket)) {
+          flagged = { source, probability };
+        }
+      }
+      if (!flagged || Math.abs(flagged.probability - polymarket) <= EDGE_THRESHOLD) continue;
+
+      const side = flagged.probability > polymarket ? 'YES' : 'NO';
+      const price = side === 'YES' ? polymarket : 1 - polymarket;
+      if (price <= 0) continue;
+      const won = (side === 'YES') === nominee.isWinner;
+      edges.push({
+        categoryName: category.name,
+        categorySlug: category.slug,
+        nomineeName: nominee.name,
+        source: flagged.source,
+        polymarketProbability: polymarket,
+        sourceProbability: flagged.probability,
+        edge: flagged.probability - polymarket,
+        side,
+        won,
+        returnPerDollar: won ? (1 - price) / price : -1,
+      });
+    }
+
+    return score;
+  });
+
+  const sources: SourceScore[] = [...totals].map(([source, entry]) => ({
+    source,
+    categories: entry.ranks.length,
+    favoritesWon: entry.favorites,
+    meanWinnerRank: entry.ranks.length > 0 ? entry.ranks.reduce((a, b) => a + b, 0) / entry.ranks.length : null,
+    brier: entry.lines > 0 ? entry.brier / entry.lines : null,
+    lines: entry.lines,
+  }));
+  sources.sort((a, b) => (a.brier ?? Infinity) - (b.brier ?? Infinity));
+  edges.sort((a, b) => Math.abs(b.edge) - Math.abs(a.edge));
+
+  return {
+    categories: scored,
+    sources,
+    edges,
+    edgeSummary: {
+      flagged: edges.length,
+      won: edges.filter((e) => e.won).length,
+      totalReturn: edges.reduce((sum, e) => sum + e.returnPerDollar, 0),
+    },
+  };
+}
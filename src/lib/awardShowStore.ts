@@ -0,0 +1,155 @@
+/**
+ * Award Show Store
+ *
+ * Reads the award shows the awards jobs sync (UPCOMING and ACTIVE) with
+ * their categories and article sources, the shows still waiting on winners,
+ * and a finished show's pre-ceremony odds for its scorecard.
+ */
+
+import type { AwardShowStatus } from '@prisma/client';
+import prisma from './prisma';
+import { TRACKED_SHOW_STATUSES } from './awardShows';
+import { getOddsAsOf } from './awardOddsStore';
+import type { ScorecardCategoryInput } from './awardResolution';
+
+export interface TrackedAwardShow {
+  id: string;
+  name: string;
+  slug: string;
+  ceremonyDate: Date;
+  status: AwardShowStatus;
+  polymarketEventSlugs: unknown;
+  categories: { id: string; name: string; slug: string; polymarketSlug: string | null; displayOrder: number }[];
+  articleSources: { id: string; source: string; title: string; url: string }[];
+}
+
+/**
+ * UPCOMING and ACTIVE shows, soonest ceremony first, with their active
+ * article sources
+ */
+export async function getTrackedAwardShows(): Promise<TrackedAwardShow[]> {
+  const shows = await prisma.awardShow.findMany({
+    where: { status: { in: TRACKED_SHOW_STATUSES } },
+    orderBy: { ceremonyDate: 'asc' },
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      ceremonyDate: true,
+      status: true,
+      polymarketEventSlugs: true,
+      categories: {
+        orderBy: { displayOrder: 'asc' },
+        select: { id: true, name: true, slug: true, polymarketSlug: true, displayOrder: true },
+      },
+      articleSources: {
+        where: { active: true },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, source: true, title: true, url: true },
+      },
+    },
+  }) as TrackedAwardShow[];
+  return shows;
+}
+
+export interface ShowAwaitingResolution {
+  id: string;
+  name: string;
+  slug: string;
+  ceremonyDate: Date;
+  status: AwardShowStatus;
+  categories: {
+    id: string;
+    name: string;
+    polymarketSlug: string | null;
+    nominees: { id: string; name: string; isWinner: boolean }[];
+  }[];
+}
+
+/**
+ * Shows whose ceremony has started, ceremony within the last windowDays,
+ * that are still tracked or have a category without a winner
+ */
+export async function getShowsAwaitingResolution(
+  now: Date,
+  windowDays: number
+): Promise<ShowAwaitingResolution[]> {
+  const shows = await prisma.awardShow.findMany({
+    where: {
+      ceremonyDate: { lte: now, gte: new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000) },
+      OR: [
+        { status: { in: TRACKED_SHOW_STATUSES } },
+        { categories: { some: { nominees: { none: { isWinner: true } } } } },
+      ],
+    },
+    orderBy: { ceremonyDate: 'asc' },
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      ceremonyDate: true,
+      status: true,
+      categories: {
+        orderBy: { displayOrder: 'asc' },
+        select: {
+          id: true,
+          name: true,
+          polymarketSlug: true,
+          nominees: { select: { id: true, name: true, isWinner: true } },
+        },
+      },
+    },
+  }) as ShowAwaitingResolution[];
+  return shows;
+}
+
+export interface ScorecardShow {
+  id: string;
+  name: string;
+  slug: string;
+  ceremonyDate: Date;
+  status: AwardShowStatus;
+  categories: ScorecardCategoryInput[];
+}
+
+/**
+ * A show's categories with each nominee's odds as of asOfHours before the
+ * ceremony, null if the show doesn't exist
+ */
+export async function getScorecardShow(slug: string, asOfHours: number): Promise<ScorecardShow | null> {
+  const show = await prisma.awardShow.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      ceremonyDate: true,
+      status: true,
+      categories: {
+        orderBy: { displayOrder: 'asc' },
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          nominees: { orderBy: { name: 'asc' }, select: { id: true, name: true, isWinner: true } },
+        },
+      },
+    },
+  }) as (Omit<ScorecardShow, 'categories'> & {
+    categories: Array<Omit<ScorecardCategoryInput, 'nominees'> & {
+      nominees: Array<{ id: string; name: string; isWinner: boolean }>;
+    }>;
+  }) | null;
+  if (!show) return null;
+
+  const cutoff = new Date(show.ceremonyDate.getTime() - asOfHours * 60 * 60 * 1000);
+  const odds = await getOddsAsOf(show.categories.flatMap((c) => c.nominees.map((n) => n.id)), cutoff);
+
+  return {
+    ...show,
+    categories: show.categories.map((category) => ({
+      ...category,
+      nominees: category.nominees.map((n) => ({ ...n, odds: odds.get(n.id) ?? {} })),
+    })),
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Award Show Configuration
+ *
+ * Shows, categories, Polymarket event slugs and article sources live in the
+ * database and are edited from /admin/awards. This module holds the pure
+ * parts: validating admin input, reading the stored slug list, and mapping
+ * Polymarket event titles and article category names onto a show's
+ * categories.
+ */
+
+import type { AwardShowStatus } from '@prisma/client';
+
+// Statuses the awards jobs sync; COMPLETED shows are left alone
+export const TRACKED_SHOW_STATUSES: AwardShowStatus[] = ['UPCOMING', 'ACTIVE'];
+export const AWARD_SHOW_STATUSES: AwardShowStatus[] = ['UPCOMING', 'ACTIVE', 'COMPLETED'];
+
+// Time after the ceremony date before a show counts as over (evening US time)
+const CEREMONY_END_BUFFER_MS = 24 * 60 * 60 * 1000;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+export interface AwardShowInput {
+  name: string;
+  slug: string;
+  ceremonyDate: Date;
+  status: AwardShowStatus;
+  description: string | null;
+  polymarketEventSlugs: string[];
+}
+
+export interface AwardCategoryInput {
+  name: string;
+  slug: string;
+  polymarketSlug: string | null;
+  displayOrder: number;
+}
+
+export interface AwardArticleSourceInput {
+  source: string;
+  title: string;
+  url: string;
+  active: boolean;
+}
+
+function asRecord(raw: unknown): Record<string, unknown> | null {
+  return raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+}
+
+function trimmedString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Event slug from a slug or a polymarket.com/event URL, null if neither
+ */
+export function parsePolymarketSlug(input: string): string | null {
+  const trimmed = input.trim();
+  const fromUrl = trimmed.match(/polymarket\.com\/event\/([^/?#\s]+)/i);
+  const slug = fromUrl ? fromUrl[1] : trimmed;
+  return SLUG_PATTERN.test(slug) ? slug : null;
+}
+
+/**
+ * The stored polymarketEventSlugs column as a list of slugs
+ */
+export function parseSlugList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((s): s is string => typeof s === 'string' && SLUG_PATTERN.test(s));
+}
+
+/**
+ * Event slugs to sync for a show: its extra slugs plus every category's
+ */
+export function showEventSlugs(
+  polymarketEventSlugs: unknown,
+  categories: { polymarketSlug: string | null }[]
+): string[] {
+  const categorySlugs = categories.map((c) => c.polymarketSlug).filter((s): s is string => !!s);
+  return [...new Set([...parseSlugList(polymarketEventSlugs), ...categorySlugs])];
+}
+
+/**
+ * Category name from a Polymarket event title, e.g.
+ * "Golden Globes: Best Actor - Drama Winner" -> "Best Actor - Drama"
+ */
+export function categoryNameFromEventTitle(title: string): string {
+  const name = title
+    .replace(/^[^:]*:\s*/, '')
+    .replace(/\s*Winner\??$/i, '')
+    .trim();
+  return name || title;
+}
+
+function normalizeCategoryName(name: string): string {
+  return name.toLowerCase().replace(/[–—-]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The show category an article's category name refers to: an exact match
+ * ignoring case and dashes, else the first one either name contains
+ */
+export function matchCategoryName(name: string, categories: string[]): string | null {
+  const wanted = normalizeCategoryName(name);
+  if (!wanted) return null;
+
+  const exact = categories.find((c) => normalizeCategoryName(c) === wanted);
+  if (exact) return exact;
+
+  return categories.find((c) => {
+    const candidate = normalizeCategoryName(c);
+    return candidate.includes(wanted) || wanted.includes(candidate);
+  }) ?? null;
+}
+
+/**
+ * Whether a show's ceremony is far enough past to mark it COMPLETED
+ */
+export function isCeremonyOver(ceremonyDate: Date, now: Date = new Date()): boolean {
+  return now.getTime() > ceremonyDate.getTime() + CEREMONY_END_BUFFER_MS;
+}
+
+function parseSlugListInput(raw: unknown): ParseResult<string[]> {
+  const entries = typeof raw === 'string' ? raw.split(/[\s,]+/) : raw;
+  if (!Array.isArray(entries) || !entries.every((e) => typeof e === 'string')) {
+    return { error: 'polymarketEventSlugs must be a list of event slugs or URLs' };
+  }
+
+  const slugs: string[] = [];
+  for (const entry of entries as string[]) {
+    if (!entry.trim()) continue;
+    const slug = parsePolymarketSlug(entry);
+    if (!slug) return { error: `Not a Polymarket event slug or URL: ${entry}` };
+    slugs.push(slug);
+  }
+  return { value: [...new Set(slugs)] };
+}
+
+/**
+ * Validate a new show, or with partial set an update to one
+ */
+export function parseAwardShowInput(raw: unknown, partial = false): ParseResult<Partial<AwardShowInput>> {
+  const input = asRecord(raw);
+  if (!input) return { error: 'show must be an object' };
+
+  const value: Partial<AwardShowInput> = {};
+
+  if (input.name !== undefined || !partial) {
+    const name = trimmedString(input.name);
+    if (!name) return { error: 'name is required' };
+    value.name = name;
+  }
+
+  if (input.slug !== undefined || !partial) {
+    const slug = trimmedString(input.slug) ?? (value.name ? slugify(value.name) : null);
+    if (!slug || !SLUG_PATTERN.test(slug)) return { error: 'slug must be lowercase letters, digits and dashes' };
+    value.slug = slug;
+  }
+
+  if (input.ceremonyDate !== undefined || !partial) {
+    const date = typeof input.ceremonyDate === 'string' ? new Date(input.ceremonyDate) : null;
+    if (!date || isNaN(date.getTime())) return { error: 'ceremonyDate must be a date' };
+    value.ceremonyDate = date;
+  }
+
+  if (input.status !== undefined) {
+    if (!AWARD_SHOW_STATUSES.includes(input.status as AwardShowStatus)) {
+      return { error: `status must be one of ${AWARD_SHOW_STATUSES.join(', ')}` };
+    }
+    value.status = input.status as AwardShowStatus;
+  } else if (!partial) {
+    value.status = 'UPCOMING';
+  }
+
+  if (input.description !== undefined) {
+    value.description = trimmedString(input.description);
+  }
+
+  if (input.polymarketEventSlugs !== undefined) {
+    const slugs = parseSlugListInput(input.polymarketEventSlugs);
+    if (slugs.error !== undefined) return { error: slugs.error };
+    value.polymarketEventSlugs = slugs.value;
+  } else if (!partial) {
+    value.polymarketEventSlugs = [];
+  }
+
+  return { value };
+}
+
+/**
+ * Validate a new category, or with partial set an update to one
+ */
+export function parseAwardCategoryInput(raw: unknown, partial = false): ParseResult<Partial<AwardCategoryInput>> {
+  const input = asRecord(raw);
+  if (!input) return { error: 'category must be an object' };
+
+  const value: Partial<AwardCategoryInput> = {};
+
+  if (input.name !== undefined || !partial) {
+    const name = trimmedString(input.name);
+    if (!name) return { error: 'name is required' };
+    value.name = name;
+  }
+
+  if (input.slug !== undefined || !partial) {
+    const slug = trimmedString(input.slug) ?? (value.name ? slugify(value.name) : null);
+    if (!slug || !SLUG_PATTERN.test(slug)) return { error: 'slug must be lowercase letters, digits and dashes' };
+    value.slug = slug;
+  }
+
+  if (input.polymarketSlug !== undefined) {
+    const given = trimmedString(input.polymarketSlug);
+    const slug = given ? parsePolymarketSlug(given) : null;
+    if (given && !slug) return { error: `Not a Polymarket event slug or URL: ${given}` };
+    value.polymarketSlug = slug;
+  } else if (!partial) {
+    value.polymarketSlug = null;
+  }
+
+  if (input.displayOrder !== undefined) {
+    if (!Number.isInteger(input.displayOrder) || (input.displayOrder as number) < 0) {
+      return { error: 'displayOrder must be a non-negative integer' };
+    }
+    value.displayOrder = input.displayOrder as number;
+  }
+
+  return { value };
+}
+
+/**
+ * Validate a new article source, or with partial set an update to one
+ */
+export function parseArticleSourceInput(raw: unknown, partial = false): ParseResult<Partial<AwardArticleSourceInput>> {
+  const input = asRecord(raw);
+  if (!input) return { error: 'article source must be an object' };
+
+  const value: Partial<AwardArticleSourceInput> = {};
+
+  for (const field of ['source', 'title'] as const) {
+    if (input[field] !== undefined || !partial) {
+      const text = trimmedString(input[field]);
+      if (!text) return { error: `${field} is required` };
+      value[field] = text;
+    }
+  }
+
+  if (input.url !== undefined || !partial) {
+    const url = trimmedString(input.url);
+    if (!url || !/^https?:\/\/\S+$/i.test(url)) return { error: 'url must be an http(s) URL' };
+    value.url = url;
+  }
+
+  if (input.active !== undefined) {
+    if (typeof input.active !== 'boolean') return { error: 'active must be true or false' };
+    value.active = input.active;
+  } else if (!partial) {
+    value.active = true;
+  }
+
+  return { value };
+}
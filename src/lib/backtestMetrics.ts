@@ -0,0 +1,96 @@
+/**
+ * Backtest Metrics
+ *
+ * Pure scoring functions for comparing p10/p50/p90 rank forecasts against
+ * the Netflix Top 10 rank that actually landed. Kept free of Prisma so the
+ * scoring logic can be unit tested in isolation.
+ */
+
+// Titles that drop out of the Top 10 have no rank row, so they are scored
+// as if they finished just outside it
+export const OUTSIDE_TOP_10_RANK = 11;
+
+export interface ScoredForecast {
+  titleId: string;
+  weekStart: Date;
+  p10: number;
+  p50: number;
+  p90: number;
+  actualRank: number; // OUTSIDE_TOP_10_RANK when the title did not chart
+}
+
+export interface BacktestMetrics {
+  forecasts: number;
+  mae: number | null;              // Mean absolute error of p50 vs actual rank
+  intervalCoverage: number | null; // Share of actual ranks inside [p10, p90] (target ~0.8)
+  pinballLoss: number | null;      // Mean quantile loss across p10/p50/p90
+  top1HitRate: number | null;      // Share of p50 = #1 calls that actually finished #1
+  top1Calls: number;               // Number of forecasts with p50 = #1
+}
+
+/**
+ * Quantile (pinball) loss for a single quantile forecast
+ *
+ * Under-predicting the rank is penalised by q, over-predicting by (1 - q).
+ */
+export function pinballLoss(actual: number, predicted: number, quantile: number): number {
+  const diff = actual - predicted;
+  return diff >= 0 ? quantile * diff : (quantile - 1) * diff;
+}
+
+/**
+ * Average pinball loss across the three stored quantiles
+ */
+export function quantileLoss(forecast: Pick<ScoredForecast, 'p10' | 'p50' | 'p90' | 'actualRank'>): number {
+  return (
+    pinballLoss(forecast.actualRank, forecast.p10, 0.1) +
+    pinballLoss(forecast.actualRank, forecast.p50, 0.5) +
+    pinballLoss(forecast.actualRank, forecast.p90, 0.9)
+  ) / 3;
+}
+
+/**
+ * Clamp a realized rank into the scored range (1..OUTSIDE_TOP_10_RANK)
+ */
+export function toScoredRank(rank: number | null): number {
+  if (rank === null || rank > 10) return OUTSIDE_TOP_10_RANK;
+  return Math.max(1, rank);
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Compute summary metrics for a set of scored forecasts
+ */
+export function calculateBacktestMetrics(forecasts: ScoredForecast[]): BacktestMetrics {
+  const top1Calls = forecasts.filter((f) => f.p50 === 1);
+
+  if (forecasts.length === 0) {
+    return {
+      forecasts: 0,
+      mae: null,
+      intervalCoverage: null,
+      pinballLoss: null,
+      top1HitRate: null,
+      top1Calls: 0,
+    };
+  }
+
+  const n = forecasts.length;
+  const absErrors = forecasts.reduce((sum, f) => sum + Math.abs(f.p50 - f.actualRank), 0);
+  const covered = forecasts.filter((f) => f.actualRank >= f.p10 && f.actualRank <= f.p90).length;
+  const loss = forecasts.reduce((sum, f) => sum + quantileLoss(f), 0);
+  const top1Hits = top1Calls.filter((f) => f.actualRank === 1).length;
+
+  return {
+    forecasts: n,
+    mae: round(absErrors / n),
+    intervalCoverage: round(covered / n),
+    pinballLoss: round(loss / n),
+    top1HitRate: top1Calls.length > 0 ? round(top1Hits / top1Calls.length) : null,
+    top1Calls: top1Calls.length,
+  };
+}
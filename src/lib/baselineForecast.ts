@@ -0,0 +1,94 @@
+/**
+ * Persistence Baseline Forecast
+ *
+ * The naive challenger every model should beat: next week looks like this
+ * week. The p50 is the last observed rank (or views), and the p10–p90 band
+ * comes from how much the title has moved week to week so far.
+ *
+ * Pure functions only; the registry in forecastModels.ts feeds it history.
+ */
+
+import type { ForecastExplanation, ForecastOutput, HistoricalDataPoint } from './forecaster';
+import type { TitleFeatures } from './featureBuilder';
+
+export const PERSISTENCE_MODEL_VERSION = '1.0.0';
+
+// z-score of the 10th/90th percentile of a normal distribution
+const Z_90 = 1.28;
+
+// Band used when there is only one week to go on
+const DEFAULT_RANK_SPREAD = 2;
+const DEFAULT_LOG_VIEWS_SPREAD = 0.5;
+
+/**
+ * Standard deviation of consecutive differences, null with fewer than two values
+ */
+export function stepSpread(values: number[]): number | null {
+  if (values.length < 2) return null;
+
+  const steps = values.slice(1).map((v, i) => v - values[i]);
+  const mean = steps.reduce((sum, s) => sum + s, 0) / steps.length;
+  const variance = steps.reduce((sum, s) => sum + (s - mean) ** 2, 0) / steps.length;
+  return Math.sqrt(variance);
+}
+
+function explain(
+  features: TitleFeatures | null,
+  pattern: string,
+  weeks: number
+): ForecastExplanation {
+  return {
+    momentumScore: features?.momentumScore ?? 0,
+    accelerationScore: features?.accelerationScore ?? 0,
+    trendsContribution: features?.trendsGlobal ?? null,
+    wikipediaContribution: features?.wikipediaViews ?? null,
+    rankTrendContribution: null,
+    historicalPattern: pattern,
+    confidence: weeks >= 6 ? 'medium' : 'low',
+    momentumBreakdown: features?.momentumBreakdown ?? null,
+  };
+}
+
+/**
+ * Next week's rank is this week's rank. Null without any ranked week.
+ */
+export function persistenceRankForecast(
+  historical: HistoricalDataPoint[],
+  features: TitleFeatures | null
+): ForecastOutput | null {
+  const ranks = historical.map((d) => d.rank);
+  if (ranks.length === 0) return null;
+
+  const last = ranks[ranks.length - 1];
+  const spread = (stepSpread(ranks) ?? DEFAULT_RANK_SPREAD) * Z_90;
+
+  return {
+    p10: Math.round(Math.max(1, Math.min(10, last - spread))),
+    p50: last,
+    p90: Math.round(Math.max(1, Math.min(10, last + spread))),
+    explain: explain(features, 'persistence', ranks.length),
+  };
+}
+
+/**
+ * Next week's views are this week's views, with the band taken from
+ * week-over-week changes in log views. Null without any week of views.
+ */
+export function persistenceViewsForecast(
+  historical: HistoricalDataPoint[],
+  features: TitleFeatures | null
+): ForecastOutput | null {
+  const views = historical.map((d) => d.views).filter((v): v is number => v !== null && v > 0);
+  if (views.length === 0) return null;
+
+  const logViews = views.map((v) => Math.log(v));
+  const last = logViews[logViews.length - 1];
+  const spread = (stepSpread(logViews) ?? DEFAULT_LOG_VIEWS_SPREAD) * Z_90;
+
+  return {
+    p10: Math.round(Math.exp(last + spread)), // Higher views is optimistic
+    p50: views[views.length - 1],
+    p90: Math.round(Math.exp(last - spread)),
+    explain: explain(features, 'persistence', views.length),
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * Calibration Metrics
+ *
+ * Pure scoring functions for multi-outcome probability forecasts (our
+ * MarketProbabilities distribution and the Polymarket prices) against the
+ * outcome a weekly market resolved to. Kept free of Prisma so the scoring
+ * logic can be unit tested in isolation.
+ */
+
+import type { MarketCategory } from './forecaster';
+
+export const CALIBRATION_CATEGORIES: MarketCategory[] = [
+  'shows-us',
+  'shows-global',
+  'films-us',
+  'films-global',
+];
+
+export interface SnapshotOutcome {
+  name: string;
+  titleId: string | null;
+  modelProbability: number;         // 0-1
+  marketProbability: number | null; // 0-1, Polymarket Yes price at snapshot time
+}
+
+// Bucket for any winner that isn't one of the listed outcomes
+export const OTHER_OUTCOME = 'Other';
+
+// Floor for log loss so a zero-probability winner doesn't score infinity
+const MIN_PROBABILITY = 0.001;
+
+export interface OutcomeProbability {
+  name: string;
+  probability: number; // 0-1
+}
+
+export interface ReliabilityPoint {
+  probability: number; // Forecast probability for one outcome (0-1)
+  hit: boolean;        // Whether that outcome won
+}
+
+export interface ReliabilityBin {
+  binStart: number;
+  binEnd: number;
+  forecasts: number;
+  meanPredicted: number | null;
+  observedFrequency: number | null;
+}
+
+export interface CalibrationSummary {
+  snapshots: number;
+  brier: number | null;   // Mean multi-outcome Brier score (0 = perfect, 2 = worst)
+  logLoss: number | null; // Mean negative log probability of the winner
+  reliability: ReliabilityBin[];
+}
+
+function round(value: number, decimals: number = 4): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function isOther(name: string): boolean {
+  return name.trim().toLowerCase() === OTHER_OUTCOME.toLowerCase();
+}
+
+/**
+ * Turn a set of outcome prices into a distribution that sums to 1
+ *
+ * Polymarket Yes prices rarely sum to exactly 1. Any listed "Other" price is
+ * folded into the Other bucket; a shortfall is assigned to Other and an
+ * overround is scaled away proportionally.
+ */
+export function normalizeDistribution(outcomes: OutcomeProbability[]): OutcomeProbability[] {
+  const listed = outcomes
+    .filter((o) => !isOther(o.name))
+    .map((o) => ({ name: o.name, probability: Math.max(0, o.probability) }));
+  const listedOther = outcomes
+    .filter((o) => isOther(o.name))
+    .reduce((sum, o) => sum + Math.max(0, o.probability), 0);
+
+  const total = listed.reduce((sum, o) => sum + o.probability, 0) + listedOther;
+
+  if (total <= 0) {
+    return [...listed.map((o) => ({ ...o, probability: 0 })), { name: OTHER_OUTCOME, probability: 1 }];
+  }
+
+  if (total >= 1) {
+    return [
+      ...listed.map((o) => ({ name: o.name, probability: o.probability / total })),
+      { name: OTHER_OUTCOME, probability: listedOther / total },
+    ];
+  }
+
+  return [...listed, { name: OTHER_OUTCOME, probability: listedOther + (1 - total) }];
+}
+
+/**
+ * Resolve the winning outcome name against a distribution
+ *
+ * Matches case-insensitively; winners not in the distribution map to Other.
+ */
+export function resolveWinner(distribution: OutcomeProbability[], winner: string): string {
+  const target = winner.trim().toLowerCase();
+  const match = distribution.find((o) => !isOther(o.name) && o.name.trim().toLowerCase() === target);
+  return match ? match.name : OTHER_OUTCOME;
+}
+
+/**
+ * Multi-outcome Brier score: sum of squared errors across every outcome
+ */
+export function brierScore(distribution: OutcomeProbability[], winner: string): number {
+  const resolved = resolveWinner(distribution, winner);
+  return distribution.reduce((sum, o) => {
+    const actual = o.name === resolved ? 1 : 0;
+    return sum + Math.pow(o.probability - actual, 2);
+  }, 0);
+}
+
+/**
+ * Log loss: negative natural log of the probability given to the winner
+ */
+export function logLoss(distribution: OutcomeProbability[], winner: string): number {
+  const resolved = resolveWinner(distribution, winner);
+  const probability = distribution.find((o) => o.name === resolved)?.probability ?? 0;
+  return -Math.log(Math.max(MIN_PROBABILITY, Math.min(1, probability)));
+}
+
+/**
+ * One reliability point per outcome in a resolved distribution
+ */
+export function toReliabilityPoints(distribution: OutcomeProbability[], winner: string): ReliabilityPoint[] {
+  const resolved = resolveWinner(distribution, winner);
+  return distribution.map((o) => ({
+    probability: o.probability,
+    hit: o.name === resolved,
+  }));
+}
+
+/**
+ * Bucket forecast probabilities and compare against observed win frequency
+ *
+ * A well-calibrated forecaster has observedFrequency ~= meanPredicted in every bin.
+ */
+export function reliabilityBins(points: ReliabilityPoint[], binCount: number = 10): ReliabilityBin[] {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    binStart: round(i / binCount, 2),
+    binEnd: round((i + 1) / binCount, 2),
+    total: 0,
+    hits: 0,
+    predicted: 0,
+  }));
+
+  for (const point of points) {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(point.probability * binCount)));
+    bins[index].total++;
+    bins[index].predicted += point.probability;
+    if (point.hit) bins[index].hits++;
+  }
+
+  return bins.map((b) => ({
+    binStart: b.binStart,
+    binEnd: b.binEnd,
+    forecasts: b.total,
+    meanPredicted: b.total > 0 ? round(b.predicted / b.total) : null,
+    observedFrequency: b.total > 0 ? round(b.hits / b.total) : null,
+  }));
+}
+
+/**
+ * Summarise scored snapshots for one forecaster (model or market)
+ */
+export function summariseCalibration(
+  scores: Array<{ brier: number; logLoss: number }>,
+  points: ReliabilityPoint[],
+  binCount: number = 10
+): CalibrationSummary {
+  if (scores.length === 0) {
+    return { snapshots: 0, brier: null, logLoss: null, reliability: reliabilityBins([], binCount) };
+  }
+
+  return {
+    snapshots: scores.length,
+    brier: round(scores.reduce((sum, s) => sum + s.brier, 0) / scores.length),
+    logLoss: round(scores.reduce((sum, s) => sum + s.logLoss, 0) / scores.length),
+    reliability: reliabilityBins(points, binCount),
+  };
+}
+
+/**
+ * Model distribution for a snapshot, including the Other bucket
+ */
+export function modelDistribution(outcomes: SnapshotOutcome[], otherProbability: number): OutcomeProbability[] {
+  return [
+    ...outcomes.map((o) => ({ name: o.name, probability: o.modelProbability })),
+    { name: OTHER_OUTCOME, probability: otherProbability },
+  ];
+}
+
+/**
+ * Market distribution for a snapshot, normalized to sum to 1
+ *
+ * Outcomes with no recorded price are treated as 0; whatever the listed
+ * prices don't cover is assigned to Other.
+ */
+export function marketDistribution(outcomes: SnapshotOutcome[]): OutcomeProbability[] {
+  return normalizeDistribution(
+    outcomes.map((o) => ({ name: o.name, probability: o.marketProbability ?? 0 }))
+  );
+}
+
+/**
+ * Last moment a snapshot of a weekly market is a forecast rather than a read
+ * of the outcome: the end of the tracking week (Monday after its Sunday), or
+ * the market's end date if that comes first.
+ */
+export function snapshotCutoff(trackingWeekStart: Date, marketEndDate: Date | null): Date {
+  const weekOver = new Date(trackingWeekStart.getTime() + 7 * 24 * 60 * 60 * 1000);
+  return marketEndDate && marketEndDate < weekOver ? marketEndDate : weekOver;
+}
+
+/**
+ * Whether a snapshot counts toward calibration scores. Snapshots without a
+ * stored cutoff fall back to the market's end date, if known.
+ */
+export function isScoredSnapshot(generatedAt: Date, cutoffAt: Date | null, marketEndDate: Date | null = null): boolean {
+  const cutoff = cutoffAt ?? marketEndDate;
+  return !cutoff || generatedAt < cutoff;
+}
@@ -0,0 +1,214 @@
+/**
+ * Weekly Chart Simulator
+ *
+ * Monte Carlo pricing for the #1 and #2 markets. Each contender's views for
+ * the coming week are drawn from a log-normal around an estimate built from
+ * its Netflix weekly views and FlixPatrol points; the draws are ranked, and
+ * repeating that thousands of times gives P(#1), P(#2), the full rank
+ * distribution, and exacta (first/second pair) probabilities.
+ *
+ * Pure functions with a seeded generator, so a given input always prices
+ * the same and the simulation can be unit tested without Prisma.
+ */
+
+import { RANK_SLOTS, OUTSIDE_TOP_10, RankProbs } from './rankDistribution';
+
+export const DEFAULT_ITERATIONS = 10000;
+export const DEFAULT_SEED = 20240601;
+
+// Log-views spread floor and defaults (0.35 ≈ ±40% at one sigma)
+const MIN_SIGMA = 0.15;
+const DEFAULT_SIGMA = 0.35;
+const NEW_TITLE_SIGMA = 0.5;
+
+export interface Contender {
+  key: string;
+  logViews: number;  // Centre of next week's log views
+  sigma: number;     // Spread of next week's log views
+}
+
+// log(views) ≈ intercept + slope · log(points), fitted on titles with both
+export interface PointsCalibration {
+  intercept: number;
+  slope: number;
+  sigma: number;  // Residual spread of the fit
+}
+
+export interface ContenderEstimateInput {
+  weeklyViews: number[];          // Published weekly views, oldest first
+  recentPoints: number | null;    // FlixPatrol points over the last 7 days
+  previousPoints: number | null;  // FlixPatrol points over the 7 days before
+}
+
+export interface SimulatedContender {
+  key: string;
+  rankProbs: RankProbs;  // P(rank 1..10, outside Top 10)
+  pFirst: number;
+  pSecond: number;
+  medianViews: number;
+}
+
+export interface ExactaProbability {
+  first: string;
+  second: string;
+  probability: number;
+}
+
+export interface ChartSimulation {
+  iterations: number;
+  contenders: SimulatedContender[];
+  exacta: ExactaProbability[];  // Observed first/second pairs, likeliest first
+}
+
+/**
+ * Seeded uniform generator (mulberry32)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draws from a uniform generator (Box–Muller)
+ */
+function normalSampler(random: () => number): () => number {
+  return () => {
+    const u = Math.max(random(), Number.EPSILON);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+}
+
+function std(values: number[]): number {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+/**
+ * Fit log views against log FlixPatrol points. With one or two pairs only
+ * the level is fitted (slope 1); with none there is no calibration.
+ */
+export function fitPointsCalibration(pairs: { points: number; views: number }[]): PointsCalibration | null {
+  const logs = pairs
+    .filter((p) => p.points > 0 && p.views > 0)
+    .map((p) => ({ x: Math.log(p.points), y: Math.log(p.views) }));
+  if (logs.length === 0) return null;
+
+  if (logs.length < 3) {
+    const intercept = logs.reduce((sum, p) => sum + (p.y - p.x), 0) / logs.length;
+    return { intercept, slope: 1, sigma: NEW_TITLE_SIGMA };
+  }
+
+  const meanX = logs.reduce((sum, p) => sum + p.x, 0) / logs.length;
+  const meanY = logs.reduce((sum, p) => sum + p.y, 0) / logs.length;
+  const sxx = logs.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const slope = sxx > 0 ? logs.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx : 1;
+  const intercept = meanY - slope * meanX;
+  const sigma = std(logs.map((p) => p.y - (intercept + slope * p.x)));
+
+  return { intercept, slope, sigma: Math.max(MIN_SIGMA, sigma) };
+}
+
+/**
+ * Next week's log-views estimate for one contender, null without views or
+ * calibrated points to go on.
+ *
+ * Titles with Netflix views carry their last week forward, moved by the
+ * FlixPatrol points trend when there is one (it is days fresher than the
+ * Netflix week), else by their average recent weekly change. Titles with
+ * points only are placed by the calibration.
+ */
+export function estimateContender(
+  key: string,
+  input: ContenderEstimateInput,
+  calibration: PointsCalibration | null
+): Contender | null {
+  const views = input.weeklyViews.filter((v) => v > 0);
+  const hasPointsTrend = (input.recentPoints ?? 0) > 0 && (input.previousPoints ?? 0) > 0;
+
+  if (views.length > 0) {
+    const logViews = views.map((v) => Math.log(v));
+    const steps = logViews.slice(1).map((v, i) => v - logViews[i]);
+    const recentSteps = steps.slice(-3);
+
+    let growth = 0;
+    if (hasPointsTrend) {
+      growth = Math.log(input.recentPoints! / input.previousPoints!);
+    } else if (recentSteps.length > 0) {
+      growth = recentSteps.reduce((a, b) => a + b, 0) / recentSteps.length;
+    }
+
+    const sigma = steps.length >= 2 ? Math.max(MIN_SIGMA, std(steps)) : DEFAULT_SIGMA;
+    return { key, logViews: logViews[logViews.length - 1] + growth, sigma };
+  }
+
+  if ((input.recentPoints ?? 0) > 0 && calibration) {
+    return {
+      key,
+      logViews: calibration.intercept + calibration.slope * Math.log(input.recentPoints!),
+      sigma: Math.max(NEW_TITLE_SIGMA, calibration.sigma),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Simulate the weekly chart: draw every contender's views, rank the draws,
+ * and tally ranks and first/second pairs over the iterations
+ */
+export function simulateChart(
+  contenders: Contender[],
+  options: { iterations?: number; seed?: number } = {}
+): ChartSimulation {
+  const { iterations = DEFAULT_ITERATIONS, seed = DEFAULT_SEED } = options;
+  const normal = normalSampler(seededRandom(seed));
+
+  const rankCounts = contenders.map(() => new Array<number>(RANK_SLOTS).fill(0));
+  const exactaCounts = new Map<string, number>();
+  const order = contenders.map((_, i) => i);
+  const draws = new Array<number>(contenders.length);
+
+  if (contenders.length > 0) {
+    for (let n = 0; n < iterations; n++) {
+      for (let i = 0; i < contenders.length; i++) {
+        draws[i] = contenders[i].logViews + contenders[i].sigma * normal();
+      }
+      order.sort((a, b) => draws[b] - draws[a]);
+
+      order.forEach((contender, position) => {
+        rankCounts[contender][Math.min(position, OUTSIDE_TOP_10)]++;
+      });
+
+      if (order.length >= 2) {
+        const pair = `${order[0]}:${order[1]}`;
+        exactaCounts.set(pair, (exactaCounts.get(pair) ?? 0) + 1);
+      }
+    }
+  }
+
+  const simulated: SimulatedContender[] = contenders.map((contender, i) => {
+    const rankProbs = rankCounts[i].map((count) => count / iterations);
+    return {
+      key: contender.key,
+      rankProbs,
+      pFirst: rankProbs[0],
+      pSecond: rankProbs[1],
+      medianViews: Math.round(Math.exp(contender.logViews)),
+    };
+  });
+
+  const exacta = [...exactaCounts.entries()]
+    .map(([pair, count]) => {
+      const [first, second] = pair.split(':').map(Number);
+      return { first: contenders[first].key, second: contenders[second].key, probability: count / iterations };
+    })
+    .sort((a, b) => b.probability - a.probability);
+
+  return { iterations, contenders: simulated, exacta };
+}
@@ -2,16 +2,20 @@
  * Consensus Calculator
  *
  * Computes weighted average predictions across multiple odds sources
- * to generate the "PredictEasy Best Estimate"
+ * to generate the "PredictEasy Best Estimate". Callers pass the weights
+ * applied at /admin/awards/weights (see consensusWeightStore); the defaults
+ * below are used until any are.
  */
 
 import { OddsSource } from '@prisma/client';
 
+export type ConsensusWeights = Record<OddsSource, number>;
+
 /**
  * Default weights for each source
  * Higher weight = more influence on final estimate
  */
-const DEFAULT_WEIGHTS: Record<OddsSource, number> = {
+export const DEFAULT_CONSENSUS_WEIGHTS: ConsensusWeights = {
   POLYMARKET: 0.35,    // Prediction market - highest liquidity, real money
   MYBOOKIE: 0.15,      // Major sportsbook
   BOVADA: 0.15,        // Major sportsbook
@@ -48,9 +52,13 @@ function calculateStdDev(values: number[]): number {
  * Calculate consensus probability for a nominee
  *
  * @param odds - Array of odds from different sources
+ * @param weights - Source weights, relative to each other
  * @returns ConsensusResult with weighted average and confidence metrics
  */
-export function calculateConsensus(odds: OddsInput[]): ConsensusResult {
+export function calculateConsensus(
+  odds: OddsInput[],
+  weights: ConsensusWeights = DEFAULT_CONSENSUS_WEIGHTS
+): ConsensusResult {
   if (odds.length === 0) {
     return {
       probability: 0,
@@ -71,7 +79,7 @@ export function calculateConsensus(odds: OddsInput[]): ConsensusResult {
     breakdown[source] = probability;
     probabilities.push(probability);
 
-    const weight = DEFAULT_WEIGHTS[source] || 0.05;
+    const weight = weights[source] ?? 0.05;
     weightedSum += probability * weight;
     totalWeight += weight;
   }
@@ -130,7 +138,8 @@ export type NomineeConsensus<T extends NomineeWithOdds = NomineeWithOdds> = T &
 };
 
 export function calculateCategoryConsensus<T extends NomineeWithOdds>(
-  nominees: T[]
+  nominees: T[],
+  weights: ConsensusWeights = DEFAULT_CONSENSUS_WEIGHTS
 ): NomineeConsensus<T>[] {
   return nominees
     .map(nominee => ({
@@ -139,7 +148,8 @@ export function calculateCategoryConsensus<T extends NomineeWithOdds>(
         nominee.odds.map(o => ({
           source: o.source as OddsSource,
           probability: o.probability,
-        }))
+        })),
+        weights
       ),
     }))
     .sort((a, b) => b.consensus.probability - a.consensus.probability);
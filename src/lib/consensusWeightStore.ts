@@ -0,0 +1,81 @@
+/**
+ * Consensus Weight Store
+ *
+ * Reads the consensus source weights applied at /admin/awards/weights
+ * (AppConfig key "consensusWeights"), and loads the resolved odds they
+ * are fit against.
+ */
+
+import prisma from './prisma';
+import { getOddsAsOf } from './awardOddsStore';
+import { ConsensusWeights, DEFAULT_CONSENSUS_WEIGHTS } from './consensusCalculator';
+import { ConsensusWeightsConfig, WeightObservation, parseConsensusWeightsConfig } from './consensusWeights';
+
+export const CONSENSUS_WEIGHTS_KEY = 'consensusWeights';
+
+/**
+ * The applied consensus weights config, null if none has been applied
+ */
+export async function getConsensusWeightsConfig(): Promise<ConsensusWeightsConfig | null> {
+  try {
+    const config = await prisma.appConfig.findUnique({
+      where: { key: CONSENSUS_WEIGHTS_KEY },
+    });
+    const parsed = parseConsensusWeightsConfig(config?.value);
+    return parsed.value ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Weights for calculateConsensus, falling back to the defaults
+ */
+export async function getConsensusWeights(): Promise<ConsensusWeights> {
+  const config = await getConsensusWeightsConfig();
+  return config?.weights ?? DEFAULT_CONSENSUS_WEIGHTS;
+}
+
+/**
+ * One observation per nominee of each resolved category of a COMPLETED
+ * show: every source's latest snapshot taken at least asOfHours before the
+ * ceremony. Nominees no source had odds on by then are left out.
+ */
+export async function loadWeightObservations(
+  asOfHours: number
+): Promise<{ observations: WeightObservation[]; shows: number }> {
+  const shows = await prisma.awardShow.findMany({
+    where: { status: 'COMPLETED' },
+    select: {
+      ceremonyDate: true,
+      categories: {
+        select: { id: true, nominees: { select: { id: true, isWinner: true } } },
+      },
+    },
+  }) as Array<{
+    ceremonyDate: Date;
+    categories: Array<{ id: string; nominees: Array<{ id: string; isWinner: boolean }> }>;
+  }>;
+
+  const observations: WeightObservation[] = [];
+  let showsUsed = 0;
+
+  for (const show of shows) {
+    const resolved = show.categories.filter((c) => c.nominees.some((n) => n.isWinner));
+    const nominees = resolved.flatMap((c) => c.nominees.map((n) => ({ ...n, categoryId: c.id })));
+    if (nominees.length === 0) continue;
+
+    const cutoff = new Date(show.ceremonyDate.getTime() - asOfHours * 60 * 60 * 1000);
+    const odds = await getOddsAsOf(nominees.map((n) => n.id), cutoff);
+
+    const before = observations.length;
+    for (const nominee of nominees) {
+      const nomineeOdds = odds.get(nominee.id);
+      if (!nomineeOdds) continue;
+      observations.push({ categoryId: nominee.categoryId, isWinner: nominee.isWinner, odds: nomineeOdds });
+    }
+    if (observations.length > before) showsUsed++;
+  }
+
+  return { observations, shows: showsUsed };
+}
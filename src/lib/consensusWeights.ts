@@ -0,0 +1,206 @@
+/**
+ * Consensus Weight Fitting
+ *
+ * Learns how much each odds source should count in the awards consensus
+ * from resolved categories. Every nominee with odds as of a cutoff before
+ * its ceremony is one observation, scored by binary log loss against
+ * whether it won. Weights are fit to minimize the consensus's log loss and
+ * then shrunk toward the defaults, so a source seen in few categories
+ * can't swing far on luck.
+ */
+
+import type { OddsSource } from '@prisma/client';
+import { ConsensusWeights, DEFAULT_CONSENSUS_WEIGHTS, calculateConsensus } from './consensusCalculator';
+
+export interface WeightObservation {
+  categoryId: string;
+  isWinner: boolean;
+  odds: Partial<Record<OddsSource, number>>;  // Each source's probability as of the cutoff
+}
+
+export interface SourceFit {
+  source: OddsSource;
+  observations: number;       // Nominee lines with odds from the source
+  categories: number;
+  logLoss: number | null;     // The source's own mean log loss
+  defaultWeight: number;
+  currentWeight: number;
+  fittedWeight: number;       // Before shrinkage
+  proposedWeight: number;
+}
+
+export interface WeightProposal {
+  weights: ConsensusWeights;
+  sources: SourceFit[];
+  observations: number;
+  categories: number;
+  logLoss: { current: number | null; proposed: number | null };  // Of the consensus
+}
+
+export interface ConsensusWeightsConfig {
+  weights: ConsensusWeights;
+  asOfHours: number | null;   // Cutoff the weights were fit at, null if set by hand
+}
+
+type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+// Observations at which the fitted and default weights count equally
+export const DEFAULT_SHRINKAGE = 50;
+
+export const DEFAULT_AS_OF_HOURS = 24;
+
+const SOURCES = Object.keys(DEFAULT_CONSENSUS_WEIGHTS) as OddsSource[];
+const MIN_PROBABILITY = 0.005;
+const ITERATIONS = 500;
+const LEARNING_RATE = 0.5;
+
+function clamp(p: number): number {
+  return Math.min(Math.max(p, MIN_PROBABILITY), 1 - MIN_PROBABILITY);
+}
+
+/**
+ * Binary log loss of a probability for an outcome
+ */
+export function logLoss(probability: number, happened: boolean): number {
+  const p = clamp(probability);
+  return -Math.log(happened ? p : 1 - p);
+}
+
+function meanConsensusLoss(observations: WeightObservation[], weights: ConsensusWeights): number | null {
+  if (observations.length === 0) return null;
+  let total = 0;
+  for (const obs of observations) {
+    const odds = Object.entries(obs.odds).map(([source, probability]) => ({
+      source: source as OddsSource,
+      probability: probability!,
+    }));
+    total += logLoss(calculateConsensus(odds, weights).probability, obs.isWinner);
+  }
+  return total / observations.length;
+}
+
+function normalize(weights: ConsensusWeights): ConsensusWeights {
+  const total = SOURCES.reduce((sum, s) => sum + weights[s], 0);
+  return Object.fromEntries(SOURCES.map((s) => [s, total > 0 ? weights[s] / total : 0])) as ConsensusWeights;
+}
+
+/**
+ * Weights minimizing the consensus's log loss, by exponentiated gradient
+ * descent from the defaults. Sources without observations keep their
+ * default weight.
+ */
+function fitWeights(observations: WeightObservation[], observed: OddsSource[]): ConsensusWeights {
+  const weights = { ...DEFAULT_CONSENSUS_WEIGHTS };
+  const mass = observed.reduce((sum, s) => sum + weights[s], 0);
+
+  for (let i = 0; i < ITERATIONS; i++) {
+    const gradient = Object.fromEntries(observed.map((s) => [s, 0])) as Record<OddsSource, number>;
+
+    for (const obs of observations) {
+      const present = observed.filter((s) => obs.odds[s] !== undefined);
+      const total = present.reduce((sum, s) => sum + weights[s], 0);
+      if (total <= 0) continue;
+
+      const consensus = clamp(present.reduce((sum, s) => sum + weights[s] * obs.odds[s]!, 0) / total);
+      const lossSlope = (consensus - (obs.isWinner ? 1 : 0)) / (consensus * (1 - consensus));
+      for (const s of present) {
+        gradient[s] += lossSlope * (obs.odds[s]! - consensus) / total;
+      }
+    }
+
+    for (const s of observed) {
+      const step = Math.max(-5, Math.min(5, gradient[s] / observations.length));
+      weights[s] *= Math.exp(-LEARNING_RATE * step);
+    }
+
+    // Keep the observed sources' share of the total where the defaults had it
+    const scale = mass / observed.reduce((sum, s) => sum + weights[s], 0);
+    for (const s of observed) weights[s] *= scale;
+  }
+
+  return weights;
+}
+
+/**
+ * Propose source weights from resolved observations
+ *
+ * @param current - Weights applied now, for comparison
+ * @param shrinkage - Observations at which a source's fitted weight and its
+ *   default count equally
+ */
+export function fitConsensusWeights(
+  observations: WeightObservation[],
+  current: ConsensusWeights,
+  shrinkage: number = DEFAULT_SHRINKAGE
+): WeightProposal {
+  const counts = new Map<OddsSource, { observations: number; categories: Set<string>; loss: number }>();
+  for (const obs of observations) {
+    for (const [source, probability] of Object.entries(obs.odds) as [OddsSource, number][]) {
+      const entry = counts.get(source) ?? { observations: 0, categories: new Set<string>(), loss: 0 };
+      entry.observations++;
+      entry.categories.add(obs.categoryId);
+      entry.loss += logLoss(probability, obs.isWinner);
+      counts.set(source, entry);
+    }
+  }
+
+  const observed = SOURCES.filter((s) => counts.has(s));
+  const fitted = observed.length > 0 ? fitWeights(observations, observed) : { ...DEFAULT_CONSENSUS_WEIGHTS };
+
+  const shrunk = Object.fromEntries(SOURCES.map((s) => {
+    const n = counts.get(s)?.observations ?? 0;
+    return [s, (n * fitted[s] + shrinkage * DEFAULT_CONSENSUS_WEIGHTS[s]) / (n + shrinkage)];
+  })) as ConsensusWeights;
+  const weights = normalize(shrunk);
+  const fittedShare = normalize(fitted);
+  const currentShare = normalize({ ...DEFAULT_CONSENSUS_WEIGHTS, ...current });
+
+  return {
+    weights,
+    sources: SOURCES.map((source) => {
+      const entry = counts.get(source);
+      return {
+        source,
+        observations: entry?.observations ?? 0,
+        categories: entry?.categories.size ?? 0,
+        logLoss: entry ? entry.loss / entry.observations : null,
+        defaultWeight: DEFAULT_CONSENSUS_WEIGHTS[source],
+        currentWeight: currentShare[source],
+        fittedWeight: fittedShare[source],
+        proposedWeight: weights[source],
+      };
+    }),
+    observations: observations.length,
+    categories: new Set(observations.map((o) => o.categoryId)).size,
+    logLoss: {
+      current: meanConsensusLoss(observations, current),
+      proposed: meanConsensusLoss(observations, weights),
+    },
+  };
+}
+
+/**
+ * Validate a consensusWeights config value; weights are normalized to sum to 1
+ */
+export function parseConsensusWeightsConfig(raw: unknown): ParseResult<ConsensusWeightsConfig> {
+  const input = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+  const given = input?.weights;
+  if (!given || typeof given !== 'object' || Array.isArray(given)) return { error: 'weights must be an object' };
+
+  const weights = { ...DEFAULT_CONSENSUS_WEIGHTS };
+  for (const [source, weight] of Object.entries(given)) {
+    if (!SOURCES.includes(source as OddsSource)) return { error: `Unknown odds source: ${source}` };
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      return { error: `Weight for ${source} must be a non-negative number` };
+    }
+    weights[source as OddsSource] = weight;
+  }
+  if (SOURCES.every((s) => weights[s] === 0)) return { error: 'At least one weight must be positive' };
+
+  const asOfHours = input!.asOfHours ?? null;
+  if (asOfHours !== null && (typeof asOfHours !== 'number' || !(asOfHours >= 0))) {
+    return { error: 'asOfHours must be a non-negative number' };
+  }
+
+  return { value: { weights: normalize(weights), asOfHours } };
+}
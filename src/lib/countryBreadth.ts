@@ -0,0 +1,140 @@
+/**
+ * Country Breadth
+ *
+ * Derives breadth features from the per-country Netflix Top 10
+ * (NetflixWeeklyCountry): how many countries a title charts in, how many it
+ * leads, how that count is moving, and how evenly it spreads across regions.
+ * Global #1 is usually decided by breadth, not depth in any one market.
+ *
+ * Pure functions only, so the scoring can be unit tested without Prisma.
+ */
+
+export type CountryRegion =
+  | 'north-america'
+  | 'latin-america'
+  | 'europe'
+  | 'asia-pacific'
+  | 'middle-east-africa';
+
+// Countries covered by Netflix's all-weeks-countries.xlsx, grouped by region
+const REGION_COUNTRIES: Record<CountryRegion, string[]> = {
+  'north-america': ['US', 'CA'],
+  'latin-america': [
+    'AR', 'BS', 'BO', 'BR', 'CL', 'CO', 'CR', 'DO', 'EC', 'SV', 'GP', 'GT',
+    'HN', 'JM', 'MQ', 'MX', 'NI', 'PA', 'PY', 'PE', 'TT', 'UY', 'VE',
+  ],
+  'europe': [
+    'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR',
+    'HU', 'IS', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'NO', 'PL', 'PT', 'RO',
+    'RS', 'SK', 'SI', 'ES', 'SE', 'CH', 'TR', 'UA', 'GB',
+  ],
+  'asia-pacific': [
+    'AU', 'BD', 'HK', 'IN', 'ID', 'JP', 'MY', 'MV', 'NC', 'NZ', 'PK', 'PH',
+    'SG', 'KR', 'LK', 'TW', 'TH', 'VN',
+  ],
+  'middle-east-africa': [
+    'BH', 'EG', 'IL', 'JO', 'KE', 'KW', 'LB', 'MA', 'NG', 'OM', 'QA', 'RE',
+    'SA', 'ZA', 'AE',
+  ],
+};
+
+const COUNTRY_REGION = new Map<string, CountryRegion>(
+  (Object.entries(REGION_COUNTRIES) as [CountryRegion, string[]][]).flatMap(
+    ([region, countries]) => countries.map((c) => [c, region] as [string, CountryRegion])
+  )
+);
+
+// A title charting in this many countries is treated as maximal breadth
+// (Global #1 titles typically chart in 60-90 countries)
+const FULL_BREADTH_COUNTRIES = 60;
+
+export interface CountryRankRow {
+  countryIso2: string;
+  rank: number;
+}
+
+export interface CountryBreadth {
+  countriesInTop10: number;
+  countriesAtNumber1: number;
+  countryCountDelta: number | null; // Change vs previous week (null if no prior week)
+  regionalSpreadIndex: number;      // 0-100, how evenly the title charts across regions
+  regionsCharting: number;
+}
+
+/**
+ * Region for an ISO 3166-1 alpha-2 country code, or null if unmapped
+ */
+export function getCountryRegion(countryIso2: string): CountryRegion | null {
+  return COUNTRY_REGION.get(countryIso2.toUpperCase()) ?? null;
+}
+
+/**
+ * Regional spread index (0-100)
+ *
+ * Normalized Shannon entropy of per-region coverage (share of each region's
+ * countries where the title charts). Using coverage rather than raw counts
+ * stops Europe's 30+ countries from dominating: a US-only hit scores 0, a
+ * title charting evenly everywhere scores 100.
+ */
+export function calculateRegionalSpreadIndex(countryCodes: string[]): number {
+  const regions = Object.keys(REGION_COUNTRIES) as CountryRegion[];
+  const charting = new Map<CountryRegion, Set<string>>();
+
+  for (const code of countryCodes) {
+    const region = getCountryRegion(code);
+    if (!region) continue;
+    if (!charting.has(region)) charting.set(region, new Set());
+    charting.get(region)!.add(code.toUpperCase());
+  }
+
+  const coverage = regions.map((r) => (charting.get(r)?.size ?? 0) / REGION_COUNTRIES[r].length);
+  const total = coverage.reduce((sum, c) => sum + c, 0);
+  if (total === 0) return 0;
+
+  const entropy = coverage.reduce((sum, c) => {
+    if (c === 0) return sum;
+    const p = c / total;
+    return sum - p * Math.log(p);
+  }, 0);
+
+  return Math.round((entropy / Math.log(regions.length)) * 100);
+}
+
+/**
+ * Compute breadth features from one title's country rows for a week
+ *
+ * @param previous - The prior week's rows, or null if that week isn't available
+ */
+export function calculateCountryBreadth(
+  current: CountryRankRow[],
+  previous: CountryRankRow[] | null
+): CountryBreadth {
+  const countries = new Set(current.map((r) => r.countryIso2));
+  const leaders = new Set(current.filter((r) => r.rank === 1).map((r) => r.countryIso2));
+  const regions = new Set(
+    Array.from(countries)
+      .map((c) => getCountryRegion(c))
+      .filter((r): r is CountryRegion => r !== null)
+  );
+
+  return {
+    countriesInTop10: countries.size,
+    countriesAtNumber1: leaders.size,
+    countryCountDelta: previous
+      ? countries.size - new Set(previous.map((r) => r.countryIso2)).size
+      : null,
+    regionalSpreadIndex: calculateRegionalSpreadIndex(Array.from(countries)),
+    regionsCharting: regions.size,
+  };
+}
+
+/**
+ * Normalize breadth to the 0-100 momentum scale
+ *
+ * Mostly country count (capped at FULL_BREADTH_COUNTRIES), with the regional
+ * spread index as a smaller secondary term.
+ */
+export function normalizeCountryBreadth(breadth: CountryBreadth): number {
+  const countScore = Math.min(100, (breadth.countriesInTop10 / FULL_BREADTH_COUNTRIES) * 100);
+  return Math.round(countScore * 0.75 + breadth.regionalSpreadIndex * 0.25);
+}
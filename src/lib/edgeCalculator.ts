@@ -3,8 +3,14 @@
  *
  * Calculates model-implied probabilities for Netflix titles winning #1 rank
  * and compares against Polymarket odds to identify mispriced markets.
+ *
+ * Forecasts with a rank distribution are priced straight from it; the
+ * momentum heuristics below only cover forecasts saved before it existed.
  */
 
+import type { ExecutableEdge } from './orderBook';
+import { probabilityOfRank, RankProbs } from './rankDistribution';
+
 export interface ModelProbability {
   titleId: string | null;
   titleName: string;
@@ -57,6 +63,9 @@ export interface EdgeOpportunity {
   priceChange24h: number | null;
   priceChange7d: number | null;
   volume24h: number | null;
+
+  // Edge at the reference stake after walking the order book (model_edge only)
+  execution?: ExecutableEdge | null;
 }
 
 /**
@@ -123,14 +132,33 @@ export function applyRankForecastAdjustment(
 }
 
 /**
- * Calculate model-implied probability for a title
+ * Calculate model-implied probability for a title finishing at a rank
+ * (#1 by default)
  */
 export function calculateModelProbability(
   momentumScore: number,
   accelerationScore: number,
-  forecast: { p10: number; p50: number; p90: number } | null,
-  confidence: 'low' | 'medium' | 'high'
+  forecast: { p10: number; p50: number; p90: number; rankProbs?: RankProbs | null } | null,
+  confidence: 'low' | 'medium' | 'high',
+  rank: number = 1
 ): ModelProbability & { probability: number } {
+  // The rank distribution already carries the forecast's uncertainty
+  if (forecast?.rankProbs) {
+    const probability = Math.max(0.01, Math.min(0.99, probabilityOfRank(forecast.rankProbs, rank)));
+    return {
+      titleId: null,
+      titleName: '',
+      impliedProbability: probability,
+      probability,
+      confidence,
+      components: {
+        momentumComponent: 0,
+        rankForecastComponent: probability,
+        accelerationBonus: 0,
+      },
+    };
+  }
+
   // Base probability from momentum
   let probability = momentumToProbability(momentumScore);
   const momentumComponent = probability;
@@ -207,6 +235,41 @@ export function calculateEdge(
   return { edge, edgePercent, signalStrength, direction };
 }
 
+export type Signal = 'BUY' | 'HOLD' | 'AVOID';
+export type SignalStrength = 'strong' | 'moderate' | 'weak';
+
+/**
+ * Classify an edge into a BUY/HOLD/AVOID signal
+ *
+ * Edges under 5 points (or with no market to compare against) are a HOLD.
+ */
+export function classifySignal(
+  edgePercent: number | null,
+  hasMarket: boolean
+): { signal: Signal; strength: SignalStrength } {
+  if (!hasMarket || edgePercent === null) {
+    return { signal: 'HOLD', strength: 'weak' };
+  }
+
+  const absEdge = Math.abs(edgePercent);
+
+  // Determine strength
+  let strength: SignalStrength;
+  if (absEdge >= 20) strength = 'strong';
+  else if (absEdge >= 10) strength = 'moderate';
+  else strength = 'weak';
+
+  // Determine direction
+  if (absEdge < 5) {
+    return { signal: 'HOLD', strength: 'weak' };
+  }
+
+  return {
+    signal: edgePercent > 0 ? 'BUY' : 'AVOID',
+    strength,
+  };
+}
+
 /**
  * Filter edges to only significant opportunities (default 10%+)
  */
@@ -2,10 +2,14 @@
  * Feature Builder
  *
  * Computes derived features from raw Netflix and signals data
- * for use in momentum scoring and forecasting.
+ * for use in momentum scoring and forecasting. Netflix features are per
+ * season, so a returning show's new season isn't scored on the old one's
+ * chart run; Trends and Wikipedia signals stay title-wide. Given an asOf,
+ * every query only sees data that existed then (see pointInTime).
  */
 
-
+import { calculateCountryBreadth, normalizeCountryBreadth, CountryBreadth, CountryRankRow } from './countryBreadth';
+import { netflixKnownAt, writtenBy } from './pointInTime';
 
 import prisma from '@/lib/prisma';
 
@@ -13,6 +17,7 @@ export interface TitleFeatures {
   titleId: string;
   canonicalName: string;
   type: 'SHOW' | 'MOVIE';
+  seasonNumber: number;  // Season the Netflix features come from, 0 = none
   weekStart: Date;
 
   // Netflix features
@@ -28,6 +33,12 @@ export interface TitleFeatures {
   // Week-over-week growth
   viewsGrowthPct: number | null;
 
+  // Country breadth (per-country Top 10)
+  countriesInTop10: number | null;
+  countriesAtNumber1: number | null;
+  countryCountDelta: number | null;
+  regionalSpreadIndex: number | null;
+
   // Signal features (7-day averages)
   trendsUS: number | null;
   trendsGlobal: number | null;
@@ -47,12 +58,16 @@ export interface MomentumWeights {
   trendsWeight: number;
   wikipediaWeight: number;
   rankDeltaWeight: number;
+  countryBreadthWeight: number;
 }
 
+// Scores are normalized by the weights of the signals present, so the
+// country breadth weight doesn't need to sum to 1 with the other three
 const DEFAULT_WEIGHTS: MomentumWeights = {
   trendsWeight: 0.33,
   wikipediaWeight: 0.33,
   rankDeltaWeight: 0.34,
+  countryBreadthWeight: 0.25,
 };
 
 /**
@@ -70,6 +85,7 @@ export async function getMomentumWeights(): Promise<MomentumWeights> {
         trendsWeight: value.trendsWeight ?? DEFAULT_WEIGHTS.trendsWeight,
         wikipediaWeight: value.wikipediaWeight ?? DEFAULT_WEIGHTS.wikipediaWeight,
         rankDeltaWeight: value.rankDeltaWeight ?? DEFAULT_WEIGHTS.rankDeltaWeight,
+        countryBreadthWeight: value.countryBreadthWeight ?? DEFAULT_WEIGHTS.countryBreadthWeight,
       };
     }
   } catch {
@@ -132,11 +148,13 @@ export interface MomentumBreakdown {
   trendsRaw: number | null;
   wikipediaRaw: number | null;
   rankDeltaRaw: number | null;
+  countryBreadthRaw: number | null; // Countries in Top 10
 
   // Normalized values (0-100 scale)
   trendsNormalized: number | null;
   wikipediaNormalized: number | null;
   rankDeltaNormalized: number | null;
+  countryBreadthNormalized: number | null;
 
   // Weights used
   weights: MomentumWeights;
@@ -145,6 +163,10 @@ export interface MomentumBreakdown {
   trendsContribution: number;
   wikipediaContribution: number;
   rankDeltaContribution: number;
+  countryBreadthContribution: number;
+
+  // Country breadth detail for display
+  countryBreadth: CountryBreadth | null;
 
   // Final score
   totalScore: number;
@@ -157,7 +179,8 @@ export function calculateMomentumWithBreakdown(
   trendsValue: number | null,
   wikipediaValue: number | null,
   rankDelta: number | null,
-  weights: MomentumWeights
+  weights: MomentumWeights,
+  countryBreadth: CountryBreadth | null = null
 ): { score: number; breakdown: MomentumBreakdown } {
   let score = 0;
   let totalWeight = 0;
@@ -167,13 +190,17 @@ export function calculateMomentumWithBreakdown(
     trendsRaw: trendsValue,
     wikipediaRaw: wikipediaValue,
     rankDeltaRaw: rankDelta,
+    countryBreadthRaw: countryBreadth?.countriesInTop10 ?? null,
     trendsNormalized: null,
     wikipediaNormalized: null,
     rankDeltaNormalized: null,
+    countryBreadthNormalized: null,
     weights,
     trendsContribution: 0,
     wikipediaContribution: 0,
     rankDeltaContribution: 0,
+    countryBreadthContribution: 0,
+    countryBreadth,
     totalScore: 0,
   };
 
@@ -205,6 +232,15 @@ export function calculateMomentumWithBreakdown(
     totalWeight += weights.rankDeltaWeight;
   }
 
+  // Country breadth component (how widely the title charts across countries)
+  if (countryBreadth !== null) {
+    const normalizedBreadth = normalizeCountryBreadth(countryBreadth);
+    breakdown.countryBreadthNormalized = normalizedBreadth;
+    breakdown.countryBreadthContribution = normalizedBreadth * weights.countryBreadthWeight;
+    score += breakdown.countryBreadthContribution;
+    totalWeight += weights.countryBreadthWeight;
+  }
+
   // Normalize by actual weight used
   const finalScore = totalWeight === 0 ? 0 : Math.round(score / totalWeight);
   breakdown.totalScore = finalScore;
@@ -219,9 +255,10 @@ export function calculateMomentumScore(
   trendsValue: number | null,
   wikipediaValue: number | null,
   rankDelta: number | null,
-  weights: MomentumWeights
+  weights: MomentumWeights,
+  countryBreadth: CountryBreadth | null = null
 ): number {
-  const { score } = calculateMomentumWithBreakdown(trendsValue, wikipediaValue, rankDelta, weights);
+  const { score } = calculateMomentumWithBreakdown(trendsValue, wikipediaValue, rankDelta, weights, countryBreadth);
   return score;
 }
 
@@ -269,11 +306,13 @@ async function getAverageSignal(
 
   // If no data in the expected range, find most recent signals for this title
   // This handles cases where signal data is from a different time period
+  // (never looking past endDate, so as-of replays don't see future signals)
   const recentSignals = await prisma.dailySignal.findMany({
     where: {
       titleId,
       source,
       geo,
+      date: { lte: endDate },
     },
     orderBy: { date: 'desc' },
     take: 7, // Get up to 7 most recent signals
@@ -289,13 +328,60 @@ async function getAverageSignal(
   return sum / recentSignals.length;
 }
 
+/**
+ * Get country breadth for a title and week from the per-country Top 10
+ *
+ * Returns null when that week's country chart hasn't been ingested yet, so a
+ * missing week isn't mistaken for the title dropping out everywhere.
+ */
+async function getCountryBreadth(
+  titleId: string,
+  seasonNumber: number,
+  weekStart: Date,
+  previousWeekStart: Date,
+  asOf?: Date
+): Promise<CountryBreadth | null> {
+  const weekPublished = await prisma.netflixWeeklyCountry.findFirst({
+    where: { weekStart, ...netflixKnownAt(asOf) },
+    select: { id: true },
+  });
+
+  if (!weekPublished) return null;
+
+  const current: CountryRankRow[] = await prisma.netflixWeeklyCountry.findMany({
+    where: { titleId, seasonNumber, weekStart, ...netflixKnownAt(asOf) },
+    select: { countryIso2: true, rank: true },
+  });
+
+  const previousPublished = await prisma.netflixWeeklyCountry.findFirst({
+    where: { weekStart: previousWeekStart, ...netflixKnownAt(asOf) },
+    select: { id: true },
+  });
+
+  const previous: CountryRankRow[] | null = previousPublished
+    ? await prisma.netflixWeeklyCountry.findMany({
+        where: { titleId, seasonNumber, weekStart: previousWeekStart, ...netflixKnownAt(asOf) },
+        select: { countryIso2: true, rank: true },
+      })
+    : null;
+
+  return calculateCountryBreadth(current, previous);
+}
+
 /**
  * Build features for a single title and week
+ *
+ * @param asOf - Only use data known at this date; also anchors the signal
+ *   windows (defaults to now, unfiltered)
+ * @param seasonNumber - Season to read Netflix data for (defaults to the
+ *   season ranked best that week)
  */
 export async function buildTitleFeatures(
   titleId: string,
   weekStart: Date,
-  weights: MomentumWeights
+  weights: MomentumWeights,
+  asOf?: Date,
+  seasonNumber?: number
 ): Promise<TitleFeatures | null> {
   // Get title info
   const title = await prisma.title.findUnique({
@@ -314,11 +400,10 @@ export async function buildTitleFeatures(
   const previousWeekEnd = new Date(weekStart);
   previousWeekEnd.setDate(previousWeekEnd.getDate() - 1);
 
-  // For signals, use recent data (last 7 days from today) rather than week-specific
+  // For signals, use recent data (last 7 days from asOf) rather than week-specific
   // This ensures we have current signal data even if Netflix week hasn't started yet
-  const today = new Date();
-  const signalEndDate = today;
-  const signalStartDate = new Date(today);
+  const signalEndDate = asOf ?? new Date();
+  const signalStartDate = new Date(signalEndDate);
   signalStartDate.setDate(signalStartDate.getDate() - 7);
 
   const prevSignalEndDate = new Date(signalStartDate);
@@ -328,26 +413,31 @@ export async function buildTitleFeatures(
 
   // Get current week Netflix data
   const currentGlobal = await prisma.netflixWeeklyGlobal.findFirst({
-    where: { titleId, weekStart },
+    where: { titleId, weekStart, ...(seasonNumber !== undefined && { seasonNumber }), ...netflixKnownAt(asOf) },
     orderBy: { rank: 'asc' },
   });
 
   const currentUS = await prisma.netflixWeeklyUS.findFirst({
-    where: { titleId, weekStart },
+    where: { titleId, weekStart, ...(seasonNumber !== undefined && { seasonNumber }), ...netflixKnownAt(asOf) },
     orderBy: { rank: 'asc' },
   });
 
-  // Get previous week Netflix data
+  const season: number = seasonNumber ?? currentGlobal?.seasonNumber ?? currentUS?.seasonNumber ?? 0;
+
+  // Get previous week Netflix data for the same season
   const previousGlobal = await prisma.netflixWeeklyGlobal.findFirst({
-    where: { titleId, weekStart: previousWeekStart },
+    where: { titleId, seasonNumber: season, weekStart: previousWeekStart, ...netflixKnownAt(asOf) },
     orderBy: { rank: 'asc' },
   });
 
   const previousUS = await prisma.netflixWeeklyUS.findFirst({
-    where: { titleId, weekStart: previousWeekStart },
+    where: { titleId, seasonNumber: season, weekStart: previousWeekStart, ...netflixKnownAt(asOf) },
     orderBy: { rank: 'asc' },
   });
 
+  // Get country breadth from the per-country Top 10
+  const countryBreadth = await getCountryBreadth(titleId, season, weekStart, previousWeekStart, asOf);
+
   // Get signal averages for recent period (last 7 days)
   const trendsUS = await getAverageSignal(titleId, 'TRENDS', 'US', signalStartDate, signalEndDate);
   const trendsGlobal = await getAverageSignal(titleId, 'TRENDS', 'GLOBAL', signalStartDate, signalEndDate);
@@ -372,17 +462,19 @@ export async function buildTitleFeatures(
     trendsGlobal ?? trendsUS,
     wikipediaViews,
     primaryRankDelta,
-    weights
+    weights,
+    countryBreadth
   );
 
   // Get previous momentum for acceleration calculation
-  const previousFeatures = await getPreviousMomentum(titleId, weekStart);
+  const previousFeatures = await getPreviousMomentum(titleId, season, weekStart, asOf);
   const accelerationScore = calculateAccelerationScore(momentumScore, previousFeatures);
 
   return {
     titleId,
     canonicalName: title.canonicalName,
     type: title.type,
+    seasonNumber: season,
     weekStart,
     globalRank: currentGlobal?.rank ?? null,
     usRank: currentUS?.rank ?? null,
@@ -391,6 +483,10 @@ export async function buildTitleFeatures(
     globalRankDelta,
     usRankDelta,
     viewsGrowthPct,
+    countriesInTop10: countryBreadth?.countriesInTop10 ?? null,
+    countriesAtNumber1: countryBreadth?.countriesAtNumber1 ?? null,
+    countryCountDelta: countryBreadth?.countryCountDelta ?? null,
+    regionalSpreadIndex: countryBreadth?.regionalSpreadIndex ?? null,
     trendsUS,
     trendsGlobal,
     wikipediaViews,
@@ -404,18 +500,35 @@ export async function buildTitleFeatures(
 
 /**
  * Get previous week's momentum score for acceleration calculation
+ *
+ * With an asOf, reads the latest champion version written by then instead
+ * of the live forecast, which later runs may have overwritten.
  */
-async function getPreviousMomentum(titleId: string, currentWeekStart: Date): Promise<number | null> {
+async function getPreviousMomentum(
+  titleId: string,
+  seasonNumber: number,
+  currentWeekStart: Date,
+  asOf?: Date
+): Promise<number | null> {
   const previousWeekStart = new Date(currentWeekStart);
   previousWeekStart.setDate(previousWeekStart.getDate() - 7);
 
-  const previousForecast = await prisma.forecastWeekly.findFirst({
-    where: {
-      titleId,
-      weekStart: previousWeekStart,
-    },
-    select: { explainJson: true },
-  });
+  const where = {
+    titleId,
+    seasonNumber,
+    weekStart: previousWeekStart,
+  };
+
+  const previousForecast = asOf
+    ? await prisma.forecastWeeklyVersion.findFirst({
+        where: { ...where, run: { champion: true }, ...writtenBy(asOf) },
+        orderBy: { createdAt: 'desc' },
+        select: { explainJson: true },
+      })
+    : await prisma.forecastWeekly.findFirst({
+        where,
+        select: { explainJson: true },
+      });
 
   if (previousForecast?.explainJson) {
     const explain = previousForecast.explainJson as { momentumScore?: number };
@@ -426,34 +539,36 @@ async function getPreviousMomentum(titleId: string, currentWeekStart: Date): Pro
 }
 
 /**
- * Build features for all active titles for a specific week
+ * Build features for every title season charting in a specific week
+ *
+ * @param asOf - Only use data known at this date (defaults to now, unfiltered)
  */
-export async function buildAllFeatures(weekStart: Date): Promise<TitleFeatures[]> {
+export async function buildAllFeatures(weekStart: Date, asOf?: Date): Promise<TitleFeatures[]> {
   const weights = await getMomentumWeights();
 
-  // Get all titles with data for this week
+  // Get all title seasons with data for this week
   const titlesWithData = await prisma.netflixWeeklyGlobal.findMany({
-    where: { weekStart },
-    select: { titleId: true },
-    distinct: ['titleId'],
+    where: { weekStart, ...netflixKnownAt(asOf) },
+    select: { titleId: true, seasonNumber: true },
+    distinct: ['titleId', 'seasonNumber'],
   });
 
   const usData = await prisma.netflixWeeklyUS.findMany({
-    where: { weekStart },
-    select: { titleId: true },
-    distinct: ['titleId'],
+    where: { weekStart, ...netflixKnownAt(asOf) },
+    select: { titleId: true, seasonNumber: true },
+    distinct: ['titleId', 'seasonNumber'],
   });
 
   // Combine and dedupe
-  const titleIds = new Set([
-    ...titlesWithData.map((t: { titleId: string }) => t.titleId),
-    ...usData.map((t: { titleId: string }) => t.titleId),
-  ]);
+  const seasons = new Map<string, { titleId: string; seasonNumber: number }>();
+  for (const row of [...titlesWithData, ...usData] as { titleId: string; seasonNumber: number }[]) {
+    seasons.set(`${row.titleId}:${row.seasonNumber}`, row);
+  }
 
   const features: TitleFeatures[] = [];
 
-  for (const titleId of titleIds) {
-    const feature = await buildTitleFeatures(titleId, weekStart, weights);
+  for (const { titleId, seasonNumber } of seasons.values()) {
+    const feature = await buildTitleFeatures(titleId, weekStart, weights, asOf, seasonNumber);
     if (feature) {
       features.push(feature);
     }
@@ -0,0 +1,250 @@
+/**
+ * Forecast Model Registry
+ *
+ * Every forecasting model implements ForecastModel: it is handed a title
+ * season's history and features and returns a rank (or views) distribution.
+ * generateForecastsJob runs every registered model side by side and stores
+ * each run under its model ID; the champion, chosen in AppConfig under
+ * 'championModel', is the one published to ForecastWeekly and so feeds
+ * /api/opportunities and the rest of the app. The others are challengers,
+ * kept for comparison.
+ *
+ * To add a model, implement ForecastModel and append it to FORECAST_MODELS.
+ * Each run's RANK forecasts are fitted into one joint rank distribution per
+ * chart (title type and US or global list), whichever model produced them.
+ */
+
+import { ForecastTarget, TitleType } from '@prisma/client';
+import {
+  Forecast,
+  ForecastOutput,
+  ForecastSubject,
+  HistoricalDataPoint,
+  MODEL_VERSION,
+  MOMENTUM_MODEL_ID,
+  RankChart,
+  applyPremiereRankShift,
+  generatePreReleaseForecast,
+  getHistoricalData,
+  getRankHistory,
+  rankForecastFromHistory,
+  viewsForecastFromHistory,
+} from './forecaster';
+import { TitleFeatures, buildTitleFeatures, getMomentumWeights } from './featureBuilder';
+import { persistenceRankForecast, persistenceViewsForecast, PERSISTENCE_MODEL_VERSION } from './baselineForecast';
+import { getLatestSeason, SeasonRef } from './seasons';
+import { fitJointRankDistributionsByChart, rankProbsFromQuantiles } from './rankDistribution';
+import { PremiereContext } from './premiereCurve';
+import { getPremiereContexts } from './premiereCurveStore';
+
+import prisma from '@/lib/prisma';
+
+export interface ModelInput {
+  titleId: string;
+  type: TitleType;
+  season: SeasonRef | null;  // null = pre-release title with no Top 10 history
+  target: ForecastTarget;
+  chart: RankChart | null;  // RANK only: the Top 10 list the history and forecast are on
+  targetWeekStart: Date;
+  asOf?: Date;
+  history: HistoricalDataPoint[];  // Oldest first; empty for pre-release titles
+  features: TitleFeatures | null;  // Features at the latest history week
+  premiere: PremiereContext | null;  // Recent release and its premiere curve
+}
+
+export interface ForecastModel {
+  id: string;
+  version: string;
+  description: string;
+  // Null when the model has nothing to say about this input
+  predict(input: ModelInput): Promise<ForecastOutput | null>;
+}
+
+// Full Forecast rows from one model's run over the week's subjects
+export interface ModelRunResult {
+  forecasts: Forecast[];
+  errors: string[];
+}
+
+const TARGETS: ForecastTarget[] = ['RANK', 'VIEWERSHIP'];
+
+/**
+ * The production model: linear rank/log-views trend plus momentum, with
+ * the signal-driven pre-release model for titles without history
+ */
+const momentumTrendModel: ForecastModel = {
+  id: MOMENTUM_MODEL_ID,
+  version: MODEL_VERSION,
+  description: 'Linear rank and log-views trend adjusted by momentum and premiere curves; signal-driven pre-release forecasts',
+  async predict(input) {
+    if (input.history.length === 0) {
+      if (input.target !== 'RANK') return null;
+      const forecast = await generatePreReleaseForecast(input.titleId, input.targetWeekStart, input.asOf, input.premiere);
+      return forecast && { p10: forecast.p10, p50: forecast.p50, p90: forecast.p90, explain: forecast.explain };
+    }
+
+    if (input.target === 'RANK') {
+      const latestWeek = input.history[input.history.length - 1].weekStart;
+      return applyPremiereRankShift(
+        rankForecastFromHistory(input.history, input.features),
+        input.premiere,
+        input.targetWeekStart,
+        latestWeek,
+        10
+      );
+    }
+    return viewsForecastFromHistory(input.history, input.features, input.premiere);
+  },
+};
+
+/**
+ * Naive baseline: next week repeats this week
+ */
+const persistenceModel: ForecastModel = {
+  id: 'persistence',
+  version: PERSISTENCE_MODEL_VERSION,
+  description: 'Last observed rank or views carried forward, band from week-over-week moves',
+  async predict(input) {
+    return input.target === 'RANK'
+      ? persistenceRankForecast(input.history, input.features)
+      : persistenceViewsForecast(input.history, input.features);
+  },
+};
+
+export const FORECAST_MODELS: ForecastModel[] = [momentumTrendModel, persistenceModel];
+
+export const DEFAULT_CHAMPION_MODEL_ID = MOMENTUM_MODEL_ID;
+
+/**
+ * Look up a registered model by ID
+ */
+export function getForecastModel(modelId: string): ForecastModel | undefined {
+  return FORECAST_MODELS.find((m) => m.id === modelId);
+}
+
+/**
+ * The champion model ID from app config, falling back to the default when
+ * unset or no longer registered
+ */
+export async function getChampionModelId(): Promise<string> {
+  try {
+    const config = await prisma.appConfig.findUnique({
+      where: { key: 'championModel' },
+    });
+
+    if (config?.value && typeof config.value === 'object' && 'value' in config.value) {
+      const modelId = (config.value as { value: string }).value;
+      if (getForecastModel(modelId)) return modelId;
+    }
+  } catch {
+    // Fall back to default
+  }
+
+  return DEFAULT_CHAMPION_MODEL_ID;
+}
+
+/**
+ * Build model inputs for every subject and target. History and features
+ * are loaded once and shared by all models.
+ */
+export async function buildModelInputs(
+  subjects: ForecastSubject[],
+  targetWeekStart: Date,
+  asOf?: Date
+): Promise<{ inputs: ModelInput[]; errors: string[] }> {
+  const inputs: ModelInput[] = [];
+  const errors: string[] = [];
+  const weights = await getMomentumWeights();
+  const premieres = await getPremiereContexts([...new Set(subjects.map((s) => s.titleId))], asOf);
+
+  for (const subject of subjects) {
+    const { titleId, type, season } = subject;
+    const premiere = premieres.get(titleId) ?? null;
+
+    // Pre-release forecasts are read off worldwide FlixPatrol, so they go on the global list
+    if (!season) {
+      inputs.push({ titleId, type, season, target: 'RANK', chart: 'GLOBAL', targetWeekStart, asOf, history: [], features: null, premiere });
+      continue;
+    }
+
+    for (const target of TARGETS) {
+      try {
+        const { chart, history } = target === 'RANK'
+          ? await getRankHistory(titleId, season.seasonNumber, 12, asOf)
+          : { chart: null, history: await getHistoricalData(titleId, season.seasonNumber, target, 12, asOf) };
+        if (history.length === 0) continue;
+
+        const latestWeek = history[history.length - 1].weekStart;
+        const features = await buildTitleFeatures(titleId, latestWeek, weights, asOf, season.seasonNumber);
+        inputs.push({ titleId, type, season, target, chart, targetWeekStart, asOf, history, features, premiere });
+      } catch (error) {
+        const label = season.seasonNumber > 0 ? `${subject.canonicalName} S${season.seasonNumber}` : subject.canonicalName;
+        errors.push(`Error loading ${target} inputs for ${label}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  return { inputs, errors };
+}
+
+/**
+ * Fit the RANK forecasts on each chart into one joint distribution,
+ * starting from each model's own marginal or one read off its quantiles
+ */
+function assignJointRankProbs(forecasts: Forecast[], types: TitleType[]): void {
+  const ranked = forecasts
+    .map((forecast, i) => ({ forecast, chart: `${types[i]}:${forecast.rankChart}` }))
+    .filter(({ forecast }) => forecast.target === 'RANK');
+
+  const fitted = fitJointRankDistributionsByChart(ranked.map(({ forecast, chart }) => ({
+    chart,
+    probs: forecast.rankProbs ?? rankProbsFromQuantiles(forecast.p10, forecast.p50, forecast.p90),
+  })));
+  ranked.forEach(({ forecast }, i) => {
+    forecast.rankProbs = fitted[i];
+  });
+}
+
+/**
+ * Run one model over prepared inputs
+ */
+export async function runForecastModel(model: ForecastModel, inputs: ModelInput[]): Promise<ModelRunResult> {
+  const forecasts: Forecast[] = [];
+  const types: TitleType[] = [];
+  const errors: string[] = [];
+
+  for (const input of inputs) {
+    try {
+      const output = await model.predict(input);
+      if (!output) continue;
+
+      const weekEnd = new Date(input.targetWeekStart);
+      weekEnd.setDate(weekEnd.getDate() + 6);
+
+      // Pre-release forecasts go to the title's latest known season
+      const season = input.season ?? (await getLatestSeason(input.titleId, input.asOf));
+
+      forecasts.push({
+        titleId: input.titleId,
+        seasonId: season.seasonId,
+        seasonNumber: season.seasonNumber,
+        weekStart: input.targetWeekStart,
+        weekEnd,
+        target: input.target,
+        modelId: model.id,
+        modelVersion: model.version,
+        rankChart: input.chart,
+        ...output,
+      });
+      types.push(input.type);
+    } catch (error) {
+      errors.push(
+        `${model.id}: error forecasting ${input.target} for ${input.titleId}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  assignJointRankProbs(forecasts, types);
+
+  return { forecasts, errors };
+}
@@ -5,14 +5,25 @@
  * - Historical ranking patterns
  * - Signal features (Trends, Wikipedia)
  * - Simple regression models
+ *
+ * Every generator takes an optional asOf and then only reads data known at
+ * that date, so a past week's forecast can be regenerated exactly.
  */
 
-import { ForecastTarget, Prisma } from '@prisma/client';
+import { ForecastTarget, Prisma, TitleType } from '@prisma/client';
 import { SimpleLinearRegression } from 'ml-regression-simple-linear';
 import { standardDeviation } from 'simple-statistics';
 import { TitleFeatures, buildTitleFeatures, getMomentumWeights, MomentumBreakdown } from './featureBuilder';
 import { getCreatorMomentumBoost } from './creatorTrackRecord';
 import { generateMarketThesis } from './marketThesis';
+import { buildTitleIndex, resolveTitle, namesMatch } from './titleMatcher';
+import { getConfirmedOutcomeMappings } from './outcomeMappings';
+import { getCurrentSeason, getLatestSeason, SeasonRef } from './seasons';
+import { seasonNumberFromName } from './seasonNumbers';
+import { netflixKnownAt, observedBy, writtenBy } from './pointInTime';
+import { RankProbs, parseRankProbs, probabilityOfRank } from './rankDistribution';
+import { PremiereContext, premiereWeekFactor, rankShiftForFactor } from './premiereCurve';
+import { getPremiereContext } from './premiereCurveStore';
 
 import prisma from '@/lib/prisma';
 
@@ -38,7 +49,12 @@ type DailySignalResult = Prisma.DailySignalGetPayload<{}>;
 // v1.5.0: Added FlixPatrol TREND analysis (14-day slope) to detect falling titles
 //         Titles falling out of Top 10 now correctly predicted to rank outside Top 10
 //         Fixed: Titles like "Unlocked" that fell from #10 to #22 no longer predicted #3
-export const MODEL_VERSION = '1.5.0';
+// v1.6.0: Premiere curves - weeks near release scaled by release weekday, so a
+//         Friday drop's three-day first week no longer reads as a full week
+export const MODEL_VERSION = '1.6.0';
+
+// Registry ID of this model (see forecastModels.ts)
+export const MOMENTUM_MODEL_ID = 'momentum-trend';
 
 /**
  * Get Polymarket probability for a title
@@ -95,23 +111,14 @@ async function getPolymarketProbability(
     }
 
     // Search for the title in market outcomes
-    // Use case-insensitive partial matching since Polymarket names may vary slightly
-    const normalizedTitleName = titleName.toLowerCase().trim();
-
     for (const market of markets as Array<{ category: string; rank: number; outcomes: Array<{ name: string; probability: number }>; polymarketUrl: string }>) {
       if (!relevantCategories.includes(market.category)) continue;
 
       for (const outcome of market.outcomes || []) {
         if (outcome.name.toLowerCase() === 'other') continue;
 
-        const normalizedOutcome = outcome.name.toLowerCase().trim();
-
-        // Match if names are similar (handles variations like "The Movie" vs "Movie")
-        if (
-          normalizedOutcome === normalizedTitleName ||
-          normalizedOutcome.includes(normalizedTitleName) ||
-          normalizedTitleName.includes(normalizedOutcome)
-        ) {
+        // Same title, alias or season variant (not substrings: "Oz" is not "Ozark")
+        if (namesMatch(outcome.name, titleName)) {
           const matchedRegion = market.category.includes('global') ? 'global' : 'us';
           console.log(`[getPolymarketProbability] MATCH: "${titleName}" in ${matchedRegion} market: ${(outcome.probability * 100).toFixed(1)}%`);
           return {
@@ -136,19 +143,19 @@ async function getPolymarketProbability(
  * Get the most recent FlixPatrol daily rank for a title
  * Returns rank if currently charting (any rank), null otherwise
  */
-async function getLatestFlixPatrolRank(titleId: string): Promise<{
+async function getLatestFlixPatrolRank(titleId: string, asOf?: Date): Promise<{
   rank: number;
   date: Date;
   region: string;
 } | null> {
-  const threeDaysAgo = new Date();
+  const threeDaysAgo = asOf ? new Date(asOf) : new Date();
   threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
 
   // Get most recent FlixPatrol daily entry for this title
   const latest = await prisma.flixPatrolDaily.findFirst({
     where: {
       titleId,
-      date: { gte: threeDaysAgo },
+      date: { gte: threeDaysAgo, ...observedBy(asOf).date },
     },
     orderBy: { date: 'desc' },
     select: { rank: true, date: true, region: true },
@@ -185,9 +192,17 @@ interface FlixPatrolTrend {
  * Calculates slope of rank trajectory using linear regression
  *
  * @param region - 'world' for global rankings, 'us' for US rankings
+ * @param seasonNumber - Skip days credited to a different season (0 = any)
+ * @param asOf - End the window here instead of today
  */
-async function getFlixPatrolTrend(titleId: string, days: number = 14, region: 'world' | 'us' = 'world'): Promise<FlixPatrolTrend> {
-  const startDate = new Date();
+async function getFlixPatrolTrend(
+  titleId: string,
+  days: number = 14,
+  region: 'world' | 'us' = 'world',
+  seasonNumber: number = 0,
+  asOf?: Date
+): Promise<FlixPatrolTrend> {
+  const startDate = asOf ? new Date(asOf) : new Date();
   startDate.setDate(startDate.getDate() - days);
   startDate.setHours(0, 0, 0, 0);
 
@@ -195,8 +210,9 @@ async function getFlixPatrolTrend(titleId: string, days: number = 14, region: 'w
   const entries = await prisma.flixPatrolDaily.findMany({
     where: {
       titleId,
-      date: { gte: startDate },
+      date: { gte: startDate, ...observedBy(asOf).date },
       region, // Use the specified region (US or worldwide)
+      ...(seasonNumber > 0 && { OR: [{ seasonId: null }, { season: { seasonNumber } }] }),
     },
     orderBy: { date: 'asc' },
     select: { rank: true, date: true },
@@ -353,17 +369,30 @@ function flixPatrolTrendToMomentum(trend: FlixPatrolTrend): {
   };
 }
 
-export interface Forecast {
-  titleId: string;
-  weekStart: Date;
-  weekEnd: Date;
-  target: ForecastTarget;
+// What a model predicts for one title season and target
+export interface ForecastOutput {
   p10: number;
   p50: number;
   p90: number;
+  // RANK only: P(rank 1..10, outside Top 10). Models may supply their own
+  // marginal; otherwise it's derived from the quantiles. Either way it is
+  // refitted jointly across the chart before saving (rankDistribution.ts)
+  rankProbs?: RankProbs | null;
   explain: ForecastExplanation;
 }
 
+export interface Forecast extends ForecastOutput {
+  titleId: string;
+  seasonId: string | null;
+  seasonNumber: number;  // 0 = no season
+  weekStart: Date;
+  weekEnd: Date;
+  target: ForecastTarget;
+  modelId: string;       // Registry ID of the model that produced it
+  modelVersion: string;
+  rankChart?: RankChart | null;  // RANK only: the Top 10 list the rank is on
+}
+
 export interface ForecastExplanation {
   momentumScore: number;
   accelerationScore: number;
@@ -394,30 +423,42 @@ export interface ForecastExplanation {
   polymarketProbability?: number;
   polymarketUrl?: string;
   polymarketMarketRank?: number;
+  // Premiere curve views factor for the forecast week (v1.6)
+  premiereWeekFactor?: number;
+  premiereRankShift?: number;
 }
 
-interface HistoricalDataPoint {
+export interface HistoricalDataPoint {
   weekStart: Date;
   rank: number;
   views: number | null;
 }
 
+// Top 10 list a RANK forecast is on, within the title's type
+export type RankChart = 'US' | 'GLOBAL';
+
 /**
- * Get historical data for a title
+ * Get historical data for one season of a title
+ *
+ * @param asOf - Only weeks published by this date are returned (defaults to now)
  */
-async function getHistoricalData(
+export async function getHistoricalData(
   titleId: string,
+  seasonNumber: number,
   target: ForecastTarget,
-  weeksBack: number = 12
+  weeksBack: number = 12,
+  asOf?: Date
 ): Promise<HistoricalDataPoint[]> {
-  const cutoff = new Date();
+  const cutoff = asOf ? new Date(asOf) : new Date();
   cutoff.setDate(cutoff.getDate() - weeksBack * 7);
 
   if (target === 'VIEWERSHIP') {
     const data = await prisma.netflixWeeklyGlobal.findMany({
       where: {
         titleId,
+        seasonNumber,
         weekStart: { gte: cutoff },
+        ...netflixKnownAt(asOf),
       },
       orderBy: { weekStart: 'asc' },
       select: { weekStart: true, rank: true, views: true },
@@ -428,41 +469,69 @@ async function getHistoricalData(
       rank: d.rank,
       views: d.views ? Number(d.views) : null,
     }));
-  } else {
-    // Try US data first
-    const usData = await prisma.netflixWeeklyUS.findMany({
-      where: {
-        titleId,
-        weekStart: { gte: cutoff },
-      },
-      orderBy: { weekStart: 'asc' },
-      select: { weekStart: true, rank: true },
-    });
+  }
+
+  return (await getRankHistory(titleId, seasonNumber, weeksBack, asOf)).history;
+}
 
-    if (usData.length > 0) {
-      return usData.map((d: NetflixWeeklyUSSelect) => ({
+/**
+ * Rank history for one season of a title and the chart it comes from: the
+ * US list when the season has charted there, else the global list
+ *
+ * @param asOf - Only weeks published by this date are returned (defaults to now)
+ */
+export async function getRankHistory(
+  titleId: string,
+  seasonNumber: number,
+  weeksBack: number = 12,
+  asOf?: Date
+): Promise<{ chart: RankChart; history: HistoricalDataPoint[] }> {
+  const cutoff = asOf ? new Date(asOf) : new Date();
+  cutoff.setDate(cutoff.getDate() - weeksBack * 7);
+
+  // Try US data first
+  const usData = await prisma.netflixWeeklyUS.findMany({
+    where: {
+      titleId,
+      seasonNumber,
+      weekStart: { gte: cutoff },
+      ...netflixKnownAt(asOf),
+    },
+    orderBy: { weekStart: 'asc' },
+    select: { weekStart: true, rank: true },
+  });
+
+  if (usData.length > 0) {
+    return {
+      chart: 'US',
+      history: usData.map((d: NetflixWeeklyUSSelect) => ({
         weekStart: d.weekStart,
         rank: d.rank,
         views: null,
-      }));
-    }
+      })),
+    };
+  }
 
-    // Fall back to global data for RANK forecasts
-    const globalData = await prisma.netflixWeeklyGlobal.findMany({
-      where: {
-        titleId,
-        weekStart: { gte: cutoff },
-      },
-      orderBy: { weekStart: 'asc' },
-      select: { weekStart: true, rank: true },
-    });
+  // Fall back to global data for RANK forecasts
+  const globalData = await prisma.netflixWeeklyGlobal.findMany({
+    where: {
+      titleId,
+      seasonNumber,
+      weekStart: { gte: cutoff },
+      ...netflixKnownAt(asOf),
+    },
+    orderBy: { weekStart: 'asc' },
+    select: { weekStart: true, rank: true },
+  });
 
-    return globalData.map((d: NetflixWeeklyGlobalRankSelect) => ({
+  return {
+    chart: 'GLOBAL',
+    history: globalData.map((d: NetflixWeeklyGlobalRankSelect) => ({
       weekStart: d.weekStart,
       rank: d.rank,
       views: null,
-    }));
-  }
+    })),
+  };
 }
 
 /**
@@ -539,26 +608,12 @@ function applyMomentumAdjustment(
 }
 
 /**
- * Generate forecast for a single title
- * v1.4.0: Now also checks Polymarket for titles with Netflix history
+ * Rank distribution from a season's rank history and current features
  */
-export async function generateForecast(
-  titleId: string,
-  targetWeekStart: Date,
-  target: ForecastTarget
-): Promise<Forecast | null> {
-  // Get historical data
-  const historical = await getHistoricalData(titleId, target);
-
-  if (historical.length === 0) {
-    return null; // No data to forecast from
-  }
-
-  // Get current features
-  const weights = await getMomentumWeights();
-  const latestWeek = historical[historical.length - 1].weekStart;
-  const features = await buildTitleFeatures(titleId, latestWeek, weights);
-
+export function rankForecastFromHistory(
+  historical: HistoricalDataPoint[],
+  features: TitleFeatures | null
+): ForecastOutput {
   // Fit trend model
   const trend = fitLinearTrend(historical);
 
@@ -593,15 +648,7 @@ export async function generateForecast(
   const p10 = Math.round(Math.max(1, Math.min(10, finalForecast - residualStd * 1.28)));
   const p90 = Math.round(Math.max(1, Math.min(10, finalForecast + residualStd * 1.28)));
 
-  // Calculate week end
-  const weekEnd = new Date(targetWeekStart);
-  weekEnd.setDate(weekEnd.getDate() + 6);
-
   return {
-    titleId,
-    weekStart: targetWeekStart,
-    weekEnd,
-    target,
     p10,
     p50,
     p90,
@@ -620,28 +667,32 @@ export async function generateForecast(
 }
 
 /**
- * Generate view forecasts (for global views target)
+ * Global views distribution from a season's views history and current
+ * features. Null with fewer than two weeks of views.
+ *
+ * For a recent release, weeks near the premiere are put on a full-week
+ * footing by their premiere-curve factor before fitting, and the forecast
+ * week's factor is applied to the result.
  */
-export async function generateViewsForecast(
-  titleId: string,
-  targetWeekStart: Date
-): Promise<Forecast | null> {
-  const historical = await getHistoricalData(titleId, 'VIEWERSHIP');
-
+export function viewsForecastFromHistory(
+  historical: HistoricalDataPoint[],
+  features: TitleFeatures | null,
+  premiere?: PremiereContext | null
+): ForecastOutput | null {
   const viewsData = historical.filter((d) => d.views !== null && d.views > 0);
 
   if (viewsData.length < 2) {
     return null;
   }
 
-  // Get current features
-  const weights = await getMomentumWeights();
-  const latestWeek = historical[historical.length - 1].weekStart;
-  const features = await buildTitleFeatures(titleId, latestWeek, weights);
+  const weekFactor = (weekStart: Date) =>
+    premiere ? premiereWeekFactor(premiere.curve, premiere.releaseDate, weekStart) : 1;
+  const nextWeekStart = new Date(viewsData[viewsData.length - 1].weekStart.getTime() + 7 * 24 * 60 * 60 * 1000);
+  const nextFactor = weekFactor(nextWeekStart);
 
   // Fit trend on log views (views tend to decay exponentially)
   const x = viewsData.map((_, i) => i);
-  const y = viewsData.map((d) => Math.log(d.views!));
+  const y = viewsData.map((d) => Math.log(d.views!) - Math.log(weekFactor(d.weekStart)));
 
   const regression = new SimpleLinearRegression(x, y);
 
@@ -655,13 +706,16 @@ export async function generateViewsForecast(
     logViewsForecast += Math.log(momentumFactor);
   }
 
+  // Back from a full-week footing to the forecast week's share of the premiere
+  logViewsForecast += Math.log(nextFactor);
+
   // Convert back to views
   const viewsForecast = Math.exp(logViewsForecast);
 
   // Calculate uncertainty from residuals
-  const residuals = viewsData.map((d, i) => {
+  const residuals = viewsData.map((_, i) => {
     const predicted = regression.coefficients[0] + regression.slope * i;
-    return Math.log(d.views!) - predicted;
+    return y[i] - predicted;
   });
   const residualStd = standardDeviation(residuals);
 
@@ -670,9 +724,6 @@ export async function generateViewsForecast(
   const p10 = Math.round(Math.exp(logViewsForecast + residualStd * 1.28)); // Higher views is optimistic
   const p90 = Math.round(Math.exp(logViewsForecast - residualStd * 1.28)); // Lower views is pessimistic
 
-  const weekEnd = new Date(targetWeekStart);
-  weekEnd.setDate(weekEnd.getDate() + 6);
-
   // Determine pattern
   let pattern: string;
   if (regression.slope > 0.1) {
@@ -686,10 +737,6 @@ export async function generateViewsForecast(
   const confidence: 'low' | 'medium' | 'high' = viewsData.length >= 6 ? 'high' : viewsData.length >= 3 ? 'medium' : 'low';
 
   return {
-    titleId,
-    weekStart: targetWeekStart,
-    weekEnd,
-    target: 'VIEWERSHIP',
     p10,
     p50,
     p90,
@@ -702,10 +749,139 @@ export async function generateViewsForecast(
       historicalPattern: pattern,
       confidence,
       momentumBreakdown: features?.momentumBreakdown ?? null,
+      ...(nextFactor !== 1 && { premiereWeekFactor: Math.round(nextFactor * 1000) / 1000 }),
+    },
+  };
+}
+
+/**
+ * Move a rank forecast by the premiere curve: the forecast week's views
+ * factor against the factor of the week its rank was read from (1 for a
+ * pre-release forecast), in ranks. Unchanged outside the first weeks after
+ * release.
+ *
+ * @param fromWeekStart - Week the forecast's rank level was observed in, if any
+ * @param maxRank - Worst rank the forecast may be moved to
+ */
+export function applyPremiereRankShift(
+  output: ForecastOutput,
+  premiere: PremiereContext | null | undefined,
+  targetWeekStart: Date,
+  fromWeekStart: Date | null,
+  maxRank: number
+): ForecastOutput {
+  if (!premiere) return output;
+
+  const fromFactor = fromWeekStart ? premiereWeekFactor(premiere.curve, premiere.releaseDate, fromWeekStart) : 1;
+  const factor = premiereWeekFactor(premiere.curve, premiere.releaseDate, targetWeekStart) / fromFactor;
+  const shift = rankShiftForFactor(factor, premiere.logViewsPerRank);
+  if (Math.abs(shift) < 0.5) return output;
+
+  const move = (rank: number) => Math.max(1, Math.min(maxRank, Math.round(rank + shift)));
+  return {
+    ...output,
+    p10: move(output.p10),
+    p50: move(output.p50),
+    p90: move(output.p90),
+    explain: {
+      ...output.explain,
+      premiereWeekFactor: Math.round(factor * 1000) / 1000,
+      premiereRankShift: Math.round(shift * 10) / 10,
     },
   };
 }
 
+/**
+ * Week end (six days after start) for a forecast week
+ */
+function forecastWeekEnd(weekStart: Date): Date {
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 6);
+  return weekEnd;
+}
+
+/**
+ * Generate forecast for a single title
+ * v1.4.0: Now also checks Polymarket for titles with Netflix history
+ *
+ * @param asOf - Replay the forecast using only data before this date (used by backtests)
+ * @param season - Season to forecast (defaults to the one charting most recently)
+ */
+export async function generateForecast(
+  titleId: string,
+  targetWeekStart: Date,
+  target: ForecastTarget,
+  asOf?: Date,
+  season?: SeasonRef
+): Promise<Forecast | null> {
+  const { seasonId, seasonNumber } = season ?? await getCurrentSeason(titleId, asOf);
+
+  // Get historical data
+  const historical = await getHistoricalData(titleId, seasonNumber, target, 12, asOf);
+
+  if (historical.length === 0) {
+    return null; // No data to forecast from
+  }
+
+  // Get current features
+  const weights = await getMomentumWeights();
+  const latestWeek = historical[historical.length - 1].weekStart;
+  const features = await buildTitleFeatures(titleId, latestWeek, weights, asOf, seasonNumber);
+  const premiere = await getPremiereContext(titleId, asOf);
+
+  return {
+    titleId,
+    seasonId,
+    seasonNumber,
+    weekStart: targetWeekStart,
+    weekEnd: forecastWeekEnd(targetWeekStart),
+    target,
+    modelId: MOMENTUM_MODEL_ID,
+    modelVersion: MODEL_VERSION,
+    ...applyPremiereRankShift(rankForecastFromHistory(historical, features), premiere, targetWeekStart, latestWeek, 10),
+  };
+}
+
+/**
+ * Generate view forecasts (for global views target)
+ *
+ * @param asOf - Replay the forecast using only data known at this date
+ */
+export async function generateViewsForecast(
+  titleId: string,
+  targetWeekStart: Date,
+  season?: SeasonRef,
+  asOf?: Date
+): Promise<Forecast | null> {
+  const { seasonId, seasonNumber } = season ?? await getCurrentSeason(titleId, asOf);
+  const historical = await getHistoricalData(titleId, seasonNumber, 'VIEWERSHIP', 12, asOf);
+
+  if (historical.filter((d) => d.views !== null && d.views > 0).length < 2) {
+    return null;
+  }
+
+  // Get current features
+  const weights = await getMomentumWeights();
+  const latestWeek = historical[historical.length - 1].weekStart;
+  const features = await buildTitleFeatures(titleId, latestWeek, weights, asOf, seasonNumber);
+  const premiere = await getPremiereContext(titleId, asOf);
+
+  const output = viewsForecastFromHistory(historical, features, premiere);
+  if (!output) return null;
+
+  return {
+    titleId,
+    seasonId,
+    seasonNumber,
+    weekStart: targetWeekStart,
+    weekEnd: forecastWeekEnd(targetWeekStart),
+    target: 'VIEWERSHIP',
+    modelId: MOMENTUM_MODEL_ID,
+    modelVersion: MODEL_VERSION,
+    ...output,
+  };
+}
+
 /**
  * Generate pre-release forecast for titles without Netflix history
  *
@@ -727,11 +903,23 @@ export async function generateViewsForecast(
  * - Wikipedia views (15%)
  * - Base rate (10%)
  *
- * Falls back to neutral defaults if no signals available.
+ * Falls back to neutral defaults if no signals available. The forecast is
+ * for the title's latest known season, which is the upcoming one when a
+ * Polymarket outcome named it.
+ *
+ * The ranks are for a full week's strength; a release landing late in the
+ * forecast week is moved down by its premiere curve (v1.6).
+ *
+ * With an asOf, signals and FlixPatrol are cut off at that date. Star power
+ * comes from current cast data and isn't point-in-time.
+ *
+ * @param premiere - Release and premiere curve, looked up when not given
  */
 export async function generatePreReleaseForecast(
   titleId: string,
-  targetWeekStart: Date
+  targetWeekStart: Date,
+  asOf?: Date,
+  premiere?: PremiereContext | null
 ): Promise<Forecast | null> {
   // Get title info for thesis generation
   const title = await prisma.title.findUnique({
@@ -742,13 +930,13 @@ export async function generatePreReleaseForecast(
   if (!title) return null;
 
   // Get recent signals for this title (last 7 days)
-  const sevenDaysAgo = new Date();
+  const sevenDaysAgo = asOf ? new Date(asOf) : new Date();
   sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
   const signals = await prisma.dailySignal.findMany({
     where: {
       titleId,
-      date: { gte: sevenDaysAgo },
+      date: { gte: sevenDaysAgo, ...observedBy(asOf).date },
     },
     orderBy: { date: 'desc' },
   });
@@ -770,11 +958,11 @@ export async function generatePreReleaseForecast(
 
   // === Get current FlixPatrol daily rank ===
   // If a title is ALREADY charting, this is the strongest signal
-  const currentFlixPatrol = await getLatestFlixPatrolRank(titleId);
+  const currentFlixPatrol = await getLatestFlixPatrolRank(titleId, asOf);
 
   // === Get FlixPatrol TREND over 14 days ===
   // This is CRITICAL for titles that are falling down the charts
-  const flixPatrolTrend = await getFlixPatrolTrend(titleId, 14);
+  const flixPatrolTrend = await getFlixPatrolTrend(titleId, 14, 'world', 0, asOf);
   const trendMomentum = flixPatrolTrendToMomentum(flixPatrolTrend);
 
   if (flixPatrolTrend.dataPoints > 0) {
@@ -954,11 +1142,9 @@ export async function generatePreReleaseForecast(
   // Calculate star power boost contribution (for explanation)
   const starPowerBoost = starPowerScore > 50 ? Math.round((starPowerScore - 50) / 5) : 0;
 
-  return {
-    titleId,
-    weekStart: targetWeekStart,
-    weekEnd,
-    target: 'RANK',
+  const { seasonId, seasonNumber } = await getLatestSeason(titleId, asOf);
+
+  const output: ForecastOutput = {
     p10,
     p50,
     p90,
@@ -991,137 +1177,257 @@ export async function generatePreReleaseForecast(
       // Note: Polymarket data is applied dynamically at display time, not stored here
     },
   };
+
+  // A release late in the week only gets part of it
+  const releasePremiere = premiere === undefined ? await getPremiereContext(titleId, asOf) : premiere;
+
+  return {
+    titleId,
+    seasonId,
+    seasonNumber,
+    weekStart: targetWeekStart,
+    weekEnd,
+    target: 'RANK',
+    modelId: MOMENTUM_MODEL_ID,
+    modelVersion: MODEL_VERSION,
+    ...applyPremiereRankShift(output, releasePremiere, targetWeekStart, null, Number.POSITIVE_INFINITY),
+  };
+}
+
+// A title season to forecast; season is null for pre-release titles
+export interface ForecastSubject {
+  titleId: string;
+  canonicalName: string;
+  type: TitleType;
+  season: SeasonRef | null;
 }
 
 /**
- * Generate forecasts for all active titles
+ * Title seasons to forecast for a week: every season charting in the last
+ * 30 days, plus Polymarket titles without recent Netflix data (pre-release
+ * or a returning show's new season)
+ *
+ * @param asOf - Limit the universe to data known at this date
  */
-export async function generateAllForecasts(
-  targetWeekStart: Date
-): Promise<{ forecasts: Forecast[]; errors: string[] }> {
-  const forecasts: Forecast[] = [];
-  const errors: string[] = [];
+export async function getForecastSubjects(asOf?: Date): Promise<ForecastSubject[]> {
+  const subjects: ForecastSubject[] = [];
 
   // Get all titles with recent Netflix data
-  const thirtyDaysAgo = new Date();
+  const thirtyDaysAgo = asOf ? new Date(asOf) : new Date();
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
   const netflixTitles = await prisma.title.findMany({
     where: {
       OR: [
-        { weeklyGlobal: { some: { weekStart: { gte: thirtyDaysAgo } } } },
-        { weeklyUS: { some: { weekStart: { gte: thirtyDaysAgo } } } },
+        { weeklyGlobal: { some: { weekStart: { gte: thirtyDaysAgo }, ...netflixKnownAt(asOf) } } },
+        { weeklyUS: { some: { weekStart: { gte: thirtyDaysAgo }, ...netflixKnownAt(asOf) } } },
       ],
     },
     select: { id: true, canonicalName: true, type: true },
-  });
+  }) as { id: string; canonicalName: string; type: TitleType }[];
 
-  console.log(`Generating forecasts for ${netflixTitles.length} Netflix titles...`);
+  // Each season charting recently gets its own forecasts
+  const seasonSelect = {
+    where: { weekStart: { gte: thirtyDaysAgo }, ...netflixKnownAt(asOf) },
+    select: { titleId: true, seasonId: true, seasonNumber: true },
+    distinct: ['titleId', 'seasonNumber'],
+  };
+  const recentSeasons = [
+    ...await prisma.netflixWeeklyGlobal.findMany(seasonSelect),
+    ...await prisma.netflixWeeklyUS.findMany(seasonSelect),
+  ] as (SeasonRef & { titleId: string })[];
 
   for (const title of netflixTitles) {
-    try {
-      // Generate US rank forecast
-      const usRankForecast = await generateForecast(title.id, targetWeekStart, 'RANK');
-      if (usRankForecast) {
-        forecasts.push(usRankForecast);
+    const seasons = new Map<number, SeasonRef>();
+    for (const row of recentSeasons) {
+      if (row.titleId === title.id) {
+        seasons.set(row.seasonNumber, { seasonId: row.seasonId, seasonNumber: row.seasonNumber });
       }
+    }
 
-      // Generate global views forecast
-      const viewsForecast = await generateViewsForecast(title.id, targetWeekStart);
-      if (viewsForecast) {
-        forecasts.push(viewsForecast);
-      }
-    } catch (error) {
-      errors.push(
-        `Error forecasting ${title.canonicalName}: ${error instanceof Error ? error.message : error}`
-      );
+    for (const season of seasons.values()) {
+      subjects.push({ titleId: title.id, canonicalName: title.canonicalName, type: title.type, season });
     }
   }
 
-  // Get Polymarket titles that need pre-release forecasts
-  // This includes:
-  // 1. Titles with polymarket ID and NO Netflix data at all (pre-release)
-  // 2. Titles with polymarket ID and only OLD Netflix data (returning/new season)
+  // Polymarket titles with polymarket ID and no RECENT Netflix data
+  // (those with recent data are covered above)
   const polymarketTitles = await prisma.title.findMany({
     where: {
       externalIds: {
-        some: { provider: 'polymarket' },
+        some: { provider: 'polymarket', ...writtenBy(asOf) },
       },
-      // Exclude titles that have RECENT Netflix data (they're already forecast above)
       AND: [
-        { weeklyGlobal: { none: { weekStart: { gte: thirtyDaysAgo } } } },
-        { weeklyUS: { none: { weekStart: { gte: thirtyDaysAgo } } } },
+        { weeklyGlobal: { none: { weekStart: { gte: thirtyDaysAgo }, ...netflixKnownAt(asOf) } } },
+        { weeklyUS: { none: { weekStart: { gte: thirtyDaysAgo }, ...netflixKnownAt(asOf) } } },
       ],
     },
     select: { id: true, canonicalName: true, type: true },
-  });
-
-  console.log(`Generating pre-release forecasts for ${polymarketTitles.length} Polymarket titles...`);
+  }) as { id: string; canonicalName: string; type: TitleType }[];
 
   for (const title of polymarketTitles) {
-    try {
-      const preReleaseForecast = await generatePreReleaseForecast(title.id, targetWeekStart);
-      if (preReleaseForecast) {
-        forecasts.push(preReleaseForecast);
-      }
-    } catch (error) {
-      errors.push(
-        `Error forecasting pre-release ${title.canonicalName}: ${error instanceof Error ? error.message : error}`
-      );
-    }
+    subjects.push({ titleId: title.id, canonicalName: title.canonicalName, type: title.type, season: null });
   }
 
-  return { forecasts, errors };
+  return subjects;
+}
+
+export interface SaveForecastsResult {
+  runId: string;
+  saved: number;
 }
 
 /**
  * Save forecasts to database
+ *
+ * Every run is kept: a ForecastRun plus one ForecastWeeklyVersion per
+ * forecast, tagged with the model that produced it. Only live runs of the
+ * champion model are published to ForecastWeekly, which holds the current
+ * forecast the app reads; replays and challengers never touch it.
  */
-export async function saveForecasts(forecasts: Forecast[]): Promise<number> {
-  let saved = 0;
+export async function saveForecasts(
+  forecasts: Forecast[],
+  run: { targetWeekStart: Date; asOf?: Date; modelId: string; modelVersion: string; champion: boolean }
+): Promise<SaveForecastsResult> {
+  const forecastRun = await prisma.forecastRun.create({
+    data: {
+      asOf: run.asOf ?? new Date(),
+      targetWeekStart: run.targetWeekStart,
+      modelId: run.modelId,
+      modelVersion: run.modelVersion,
+      champion: run.champion,
+      source: run.asOf ? 'replay' : 'live',
+    },
+  }) as { id: string };
+
+  const versions = await prisma.forecastWeeklyVersion.createMany({
+    data: forecasts.map((forecast) => ({
+      runId: forecastRun.id,
+      titleId: forecast.titleId,
+      seasonId: forecast.seasonId,
+      seasonNumber: forecast.seasonNumber,
+      weekStart: forecast.weekStart,
+      weekEnd: forecast.weekEnd,
+      target: forecast.target,
+      p10: forecast.p10,
+      p50: forecast.p50,
+      p90: forecast.p90,
+      modelId: forecast.modelId,
+      modelVersion: forecast.modelVersion,
+      rankProbs: forecast.rankProbs ?? undefined,
+      rankChart: forecast.rankChart ?? null,
+      explainJson: forecast.explain as object,
+    })),
+  });
 
-  for (const forecast of forecasts) {
-    try {
-      await prisma.forecastWeekly.upsert({
-        where: {
-          titleId_weekStart_target: {
-            titleId: forecast.titleId,
-            weekStart: forecast.weekStart,
-            target: forecast.target,
-          },
-        },
-        create: {
-          titleId: forecast.titleId,
-          weekStart: forecast.weekStart,
-          weekEnd: forecast.weekEnd,
-          target: forecast.target,
-          p10: forecast.p10,
-          p50: forecast.p50,
-          p90: forecast.p90,
-          modelVersion: MODEL_VERSION,
-          explainJson: forecast.explain as object,
-        },
-        update: {
-          weekEnd: forecast.weekEnd,
-          p10: forecast.p10,
-          p50: forecast.p50,
-          p90: forecast.p90,
-          modelVersion: MODEL_VERSION,
-          explainJson: forecast.explain as object,
-        },
-      });
-      saved++;
-    } catch (error) {
-      console.error(`Failed to save forecast for ${forecast.titleId}:`, error);
-    }
+  await prisma.forecastRun.update({
+    where: { id: forecastRun.id },
+    data: { forecastCount: versions.count },
+  });
+
+  if (run.asOf || !run.champion) {
+    return { runId: forecastRun.id, saved: versions.count };
   }
 
-  return saved;
+  const saved = await publishForecastRun(forecastRun.id);
+  return { runId: forecastRun.id, saved };
+}
+
+/**
+ * Copy a stored run's forecasts into ForecastWeekly. Rows another model
+ * left for the same week are removed, so switching the champion swaps
+ * the week over completely. All or nothing: throws if any row fails.
+ * Returns the number of rows written.
+ */
+export async function publishForecastRun(runId: string): Promise<number> {
+  const forecastRun = await prisma.forecastRun.findUnique({
+    where: { id: runId },
+    select: { targetWeekStart: true, modelId: true },
+  }) as { targetWeekStart: Date; modelId: string } | null;
+
+  if (!forecastRun) return 0;
+
+  const rows = await prisma.forecastWeeklyVersion.findMany({
+    where: { runId },
+    select: {
+      titleId: true,
+      seasonId: true,
+      seasonNumber: true,
+      weekStart: true,
+      weekEnd: true,
+      target: true,
+      p10: true,
+      p50: true,
+      p90: true,
+      modelId: true,
+      modelVersion: true,
+      rankProbs: true,
+      rankChart: true,
+      explainJson: true,
+    },
+  }) as {
+    titleId: string;
+    seasonId: string | null;
+    seasonNumber: number;
+    weekStart: Date;
+    weekEnd: Date;
+    target: ForecastTarget;
+    p10: number;
+    p50: number;
+    p90: number;
+    modelId: string;
+    modelVersion: string;
+    rankProbs: RankProbs | null;
+    rankChart: RankChart | null;
+    explainJson: object | null;
+  }[];
+
+  // One transaction, so a failed write never leaves the week with the
+  // other model's rows deleted and this one's only partly written
+  const upserts = rows.map((row) => {
+    const rankProbs = row.rankProbs ?? Prisma.DbNull;
+    const explainJson = row.explainJson ?? Prisma.DbNull;
+    return prisma.forecastWeekly.upsert({
+      where: {
+        titleId_seasonNumber_weekStart_target: {
+          titleId: row.titleId,
+          seasonNumber: row.seasonNumber,
+          weekStart: row.weekStart,
+          target: row.target,
+        },
+      },
+      create: { ...row, rankProbs, explainJson, runId },
+      update: {
+        seasonId: row.seasonId,
+        weekEnd: row.weekEnd,
+        p10: row.p10,
+        p50: row.p50,
+        p90: row.p90,
+        modelId: row.modelId,
+        modelVersion: row.modelVersion,
+        rankProbs,
+        rankChart: row.rankChart,
+        explainJson,
+        runId,
+      },
+    });
+  });
+
+  await prisma.$transaction([
+    ...upserts,
+    prisma.forecastWeekly.deleteMany({
+      where: { weekStart: forecastRun.targetWeekStart, modelId: { not: forecastRun.modelId } },
+    }),
+  ]);
+
+  return rows.length;
 }
 
 // ============================================================================
 // MARKET PROBABILITY DISTRIBUTION (v1.6)
 // Generates probabilities for all titles in a Polymarket market that sum to 100%
+// Titles with a stored rank distribution are priced from it, so the #1 and #2
+// markets agree; only the rest fall back to FlixPatrol strength scores
 // ============================================================================
 
 export type MarketCategory = 'shows-us' | 'shows-global' | 'films-us' | 'films-global';
@@ -1130,6 +1436,7 @@ export interface TitleProbability {
   name: string;
   titleId: string | null;
   probability: number;  // 0-100, all probabilities sum to 100
+  source: 'rank_distribution' | 'strength';  // Where the probability came from
   rawScore: number;     // The underlying momentum/strength score
   flixPatrolRank: number | null;
   flixPatrolTrend: string | null;
@@ -1138,6 +1445,9 @@ export interface TitleProbability {
 
 export interface MarketProbabilities {
   category: MarketCategory;
+  rank: number;               // 1 for "top" markets, 2 for "#2" markets
+  marketId: string | null;    // PolymarketMarket the distribution was built from
+  marketSlug: string | null;
   marketQuestion: string;
   outcomes: TitleProbability[];
   otherProbability: number;  // Probability that winner is not in the outcome list
@@ -1152,19 +1462,6 @@ interface PolymarketOutcome {
   volume?: number;
 }
 
-/**
- * Normalize a title name for matching (same as in chart API)
- */
-function normalizeForMatching(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/:\s*season\s*\d+/i, '')
-    .replace(/\s*season\s*\d+/i, '')
-    .replace(/[^a-z0-9\s]/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
 /**
  * Softmax function to convert raw scores to probabilities
  * Temperature controls sharpness: lower = more confident, higher = more uniform
@@ -1198,13 +1495,14 @@ async function calculateTitleStrength(
   let flixPatrolTrend: string | null = null;
   let confidence: 'low' | 'medium' | 'high' = 'low';
 
-  // If we have a titleId, get FlixPatrol data
+  // If we have a titleId, get FlixPatrol data for the season the outcome names
   if (titleId) {
-    let trend = await getFlixPatrolTrend(titleId, 14, region);
+    const seasonNumber = seasonNumberFromName(titleName);
+    let trend = await getFlixPatrolTrend(titleId, 14, region, seasonNumber);
 
     // Fall back to 'world' if no data for specified region
     if (trend.dataPoints === 0 && region !== 'world') {
-      trend = await getFlixPatrolTrend(titleId, 14, 'world');
+      trend = await getFlixPatrolTrend(titleId, 14, 'world', seasonNumber);
     }
 
     if (trend.dataPoints > 0) {
@@ -1233,8 +1531,6 @@ async function calculateTitleStrength(
 
   // If no FlixPatrol data, try to match by name
   if (flixPatrolRank === null) {
-    const normalizedName = normalizeForMatching(titleName);
-
     // Search FlixPatrol by title name (try specified region first, then fall back to 'world')
     let recentEntries = await prisma.flixPatrolDaily.findMany({
       where: {
@@ -1260,7 +1556,7 @@ async function calculateTitleStrength(
     }
 
     const match = recentEntries.find((e: { titleName: string; rank: number }) =>
-      normalizeForMatching(e.titleName) === normalizedName
+      namesMatch(e.titleName, titleName)
     );
 
     if (match) {
@@ -1277,14 +1573,50 @@ async function calculateTitleStrength(
   return { score, flixPatrolRank, flixPatrolTrend, confidence };
 }
 
+/**
+ * Latest published RANK distributions on one chart of a title type, by title
+ */
+async function getLatestRankDistributions(
+  titleType: TitleType,
+  chart: RankChart
+): Promise<Map<string, { seasonNumber: number; rankProbs: RankProbs }[]>> {
+  const byTitle = new Map<string, { seasonNumber: number; rankProbs: RankProbs }[]>();
+
+  const latest = await prisma.forecastWeekly.findFirst({
+    where: { target: 'RANK', title: { type: titleType } },
+    orderBy: { weekStart: 'desc' },
+    select: { weekStart: true },
+  }) as { weekStart: Date } | null;
+  if (!latest) return byTitle;
+
+  const rows = await prisma.forecastWeekly.findMany({
+    where: { target: 'RANK', weekStart: latest.weekStart, rankChart: chart, title: { type: titleType } },
+    select: { titleId: true, seasonNumber: true, rankProbs: true },
+  }) as { titleId: string; seasonNumber: number; rankProbs: unknown }[];
+
+  for (const row of rows) {
+    const rankProbs = parseRankProbs(row.rankProbs);
+    if (!rankProbs) continue;
+    byTitle.set(row.titleId, [...(byTitle.get(row.titleId) ?? []), { seasonNumber: row.seasonNumber, rankProbs }]);
+  }
+
+  return byTitle;
+}
+
 /**
  * Generate probability distribution for a Polymarket market
  *
- * Returns probabilities for each outcome title that sum to 100%.
- * Uses FlixPatrol rankings and trends as primary signals.
+ * Returns probabilities for each outcome title that sum to 100%. Titles
+ * with a forecast rank distribution on the market's chart (US or global
+ * list) get P(finishing at the market's rank) from it; the remaining
+ * probability is shared between the other outcomes and "Other" by
+ * FlixPatrol rankings and trends.
+ *
+ * @param rank - 1 for the "top" market, 2 for the "#2" market
  */
 export async function generateMarketProbabilities(
-  marketCategory: MarketCategory
+  marketCategory: MarketCategory,
+  rank: 1 | 2 = 1
 ): Promise<MarketProbabilities> {
   // Determine market type and region
   const isShows = marketCategory.startsWith('shows');
@@ -1304,26 +1636,30 @@ export async function generateMarketProbabilities(
       },
       isActive: true,
     },
-    select: { question: true, outcomes: true, updatedAt: true },
+    select: { id: true, slug: true, question: true, outcomes: true, updatedAt: true },
     orderBy: { updatedAt: 'desc' },
   });
 
   // Find the relevant market for this category:
   // - Must match region (US or Global)
-  // - Must be for "top" position (not "#2" markets)
+  // - Must be for the requested position ("top" or "#2")
   // - Pick the most recently updated one (first in sorted list)
   const regionPattern = isUS ? /\bus\b/i : /\bglobal\b/i;
   const market = markets.find((m: { question: string; outcomes: unknown }) => {
     const q = m.question.toLowerCase();
     const matchesRegion = regionPattern.test(m.question);
-    const isTopMarket = q.includes('top') && !q.includes('#2') && !q.includes('# 2');
-    return matchesRegion && isTopMarket;
+    const isSecondMarket = q.includes('#2') || q.includes('# 2');
+    const matchesRank = rank === 2 ? isSecondMarket : q.includes('top') && !isSecondMarket;
+    return matchesRegion && matchesRank;
   });
 
   if (!market || !Array.isArray(market.outcomes)) {
     return {
       category: marketCategory,
-      marketQuestion: `What will be the top ${regionTerm} ${isShows ? 'Netflix show' : 'Netflix movie'} this week?`,
+      rank,
+      marketId: null,
+      marketSlug: null,
+      marketQuestion: `What will be the ${rank === 2 ? '#2' : 'top'} ${regionTerm} ${isShows ? 'Netflix show' : 'Netflix movie'} this week?`,
       outcomes: [],
       otherProbability: 100,
       totalProbability: 100,
@@ -1339,17 +1675,23 @@ export async function generateMarketProbabilities(
     o.name && o.name.toLowerCase() !== 'other'
   );
 
-  // Get Title records for matching
+  // Get Title records for matching, honouring outcomes confirmed in the review queue
   const titleType = isShows ? 'SHOW' : 'MOVIE';
-  const allTitles = await prisma.title.findMany({
-    where: { type: titleType },
-    select: { id: true, canonicalName: true },
-  });
+  const [allTitles, confirmedMappings] = await Promise.all([
+    prisma.title.findMany({
+      where: { type: titleType },
+      select: { id: true, canonicalName: true, aliases: true },
+    }),
+    getConfirmedOutcomeMappings(),
+  ]);
+  const titleIndex = buildTitleIndex(allTitles, confirmedMappings);
+  const distributions = await getLatestRankDistributions(titleType, isUS ? 'US' : 'GLOBAL');
 
   // Calculate strength scores for each outcome
   const outcomeScores: Array<{
     name: string;
     titleId: string | null;
+    distributionProbability: number | null;  // 0-100, from the rank distribution
     score: number;
     flixPatrolRank: number | null;
     flixPatrolTrend: string | null;
@@ -1358,40 +1700,62 @@ export async function generateMarketProbabilities(
 
   for (const outcome of titleOutcomes) {
     // Try to find matching title in database
-    const normalizedOutcome = normalizeForMatching(outcome.name);
-    const matchingTitle = allTitles.find((t: { id: string; canonicalName: string }) =>
-      normalizeForMatching(t.canonicalName) === normalizedOutcome
-    );
+    const matchingTitle = resolveTitle(titleIndex, outcome.name);
 
     const strength = await calculateTitleStrength(
       outcome.name,
-      matchingTitle?.id || null,
+      matchingTitle?.titleId || null,
       category,
       flixPatrolRegion
     );
 
+    // Prefer the season the outcome names, else the title's likeliest season
+    const seasons = matchingTitle ? distributions.get(matchingTitle.titleId) ?? [] : [];
+    const seasonNumber = seasonNumberFromName(outcome.name);
+    const named = seasons.find((d) => d.seasonNumber === seasonNumber);
+    const candidates = named ? [named] : seasons;
+    const distributionProbability = candidates.length > 0
+      ? Math.max(...candidates.map((d) => probabilityOfRank(d.rankProbs, rank))) * 100
+      : null;
+
     outcomeScores.push({
       name: outcome.name,
-      titleId: matchingTitle?.id || null,
+      titleId: matchingTitle?.titleId || null,
+      distributionProbability,
       ...strength,
     });
   }
 
+  // Rank-distribution titles keep their probability (the joint fit keeps
+  // their sum within 100); the rest is split by strength
+  const distributionTotal = Math.min(100, outcomeScores.reduce((sum, o) => sum + (o.distributionProbability ?? 0), 0));
+  const scaleDistribution = distributionTotal > 0
+    ? distributionTotal / outcomeScores.reduce((sum, o) => sum + (o.distributionProbability ?? 0), 0)
+    : 1;
+  const unmodelled = outcomeScores.filter((o) => o.distributionProbability === null);
+
   // Add small score for "Other" to ensure it has some probability
   const otherBaseScore = 15; // Base 15% expectation for unlisted titles
 
   // Get all scores including "Other"
-  const allScores = [...outcomeScores.map(o => o.score), otherBaseScore];
+  const allScores = [...unmodelled.map(o => o.score), otherBaseScore];
 
-  // Apply softmax to get probabilities
+  // Apply softmax to get probabilities, then share out what the distribution left
   // Use temperature 12 for relatively sharp but not extreme distribution
-  const probabilities = softmax(allScores, 12);
+  const remaining = (100 - distributionTotal) / 100;
+  const probabilities = softmax(allScores, 12).map((p) => p * remaining);
+  const strengthProbability = new Map(unmodelled.map((o, i) => [o, probabilities[i]]));
 
   // Build outcome list
-  const titleProbabilities: TitleProbability[] = outcomeScores.map((o, i) => ({
+  const titleProbabilities: TitleProbability[] = outcomeScores.map((o) => ({
     name: o.name,
     titleId: o.titleId,
-    probability: Math.round(probabilities[i] * 10) / 10, // Round to 1 decimal
+    probability: Math.round(
+      (o.distributionProbability !== null
+        ? o.distributionProbability * scaleDistribution
+        : strengthProbability.get(o)!) * 10
+    ) / 10, // Round to 1 decimal
+    source: o.distributionProbability !== null ? 'rank_distribution' : 'strength',
     rawScore: o.score,
     flixPatrolRank: o.flixPatrolRank,
     flixPatrolTrend: o.flixPatrolTrend,
@@ -1412,6 +1776,9 @@ export async function generateMarketProbabilities(
 
   return {
     category: marketCategory,
+    rank,
+    marketId: market.id,
+    marketSlug: market.slug,
     marketQuestion: market.question,
     outcomes: titleProbabilities,
     otherProbability,
@@ -1,202 +1,76 @@
 /**
  * Market Matcher Library
  *
- * Matches Polymarket outcome names to Netflix titles using
- * normalized text comparison and fuzzy matching.
+ * Matches Polymarket outcome names to Netflix titles. A thin adapter over
+ * the title matcher for routes that work with a per-request title cache.
  */
 
 import {
-  createMatchingKey,
-  normalizeText,
-  removeBracketedSuffixes,
-} from './titleNormalize';
+  buildTitleIndex,
+  rankTitleCandidates,
+  TitleIndex,
+  ConfirmedOutcomeMapping,
+  MATCH_ACCEPT_SCORE,
+} from './titleMatcher';
 
 export interface TitleCacheEntry {
   id: string;
   canonicalName: string;
   aliases: string[] | null;
+  type?: 'SHOW' | 'MOVIE';
+  confirmedOutcomes?: string[];  // Outcome keys an admin mapped to this title
 }
 
 export interface MarketOutcomeMatch {
   outcomeName: string;           // Raw from Polymarket
   matchedTitleId: string | null;
   matchedTitleName: string | null;
-  matchConfidence: 'exact' | 'fuzzy' | 'none';
+  matchConfidence: 'confirmed' | 'exact' | 'fuzzy' | 'none';
 }
 
-/**
- * Calculate Levenshtein distance between two strings
- * Used for fuzzy matching when exact match fails
- */
-export function levenshteinDistance(str1: string, str2: string): number {
-  const m = str1.length;
-  const n = str2.length;
-
-  // Create a 2D array to store distances
-  const dp: number[][] = Array(m + 1)
-    .fill(null)
-    .map(() => Array(n + 1).fill(0));
-
-  // Initialize base cases
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
-
-  // Fill in the rest of the matrix
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1];
-      } else {
-        dp[i][j] = 1 + Math.min(
-          dp[i - 1][j],     // deletion
-          dp[i][j - 1],     // insertion
-          dp[i - 1][j - 1]  // substitution
-        );
-      }
-    }
+// Index built once per cache, however many outcomes are matched against it
+const indexByCache = new WeakMap<Map<string, TitleCacheEntry>, TitleIndex>();
+
+function indexFor(titleCache: Map<string, TitleCacheEntry>): TitleIndex {
+  let index = indexByCache.get(titleCache);
+  if (!index) {
+    const entries = [...titleCache.values()];
+    index = buildTitleIndex(
+      entries,
+      entries.flatMap((e) => (e.confirmedOutcomes ?? []).map((outcomeKey) => ({ outcomeKey, titleId: e.id })))
+    );
+    indexByCache.set(titleCache, index);
   }
-
-  return dp[m][n];
-}
-
-/**
- * Clean outcome name for matching
- * Handles Polymarket-specific formatting
- */
-function cleanOutcomeName(name: string): string {
-  let cleaned = name;
-
-  // Remove common Polymarket suffixes
-  cleaned = cleaned.replace(/\s*\(.*?\)\s*$/g, '');
-
-  // Handle "Show: Season X" format
-  cleaned = cleaned.replace(/:\s*Season\s+\d+$/i, '');
-
-  // Apply standard normalization
-  cleaned = normalizeText(removeBracketedSuffixes(cleaned));
-
-  return cleaned;
-}
-
-/**
- * Normalize title for matching (remove season suffixes, clean text)
- */
-function normalizeForMatching(name: string): string {
-  let cleaned = name;
-  // Remove season suffixes
-  cleaned = cleaned.replace(/:\s*Season\s+\d+$/i, '');
-  cleaned = cleaned.replace(/\s*\(.*?\)\s*$/g, '');
-  cleaned = normalizeText(removeBracketedSuffixes(cleaned));
-  return createMatchingKey(cleaned);
+  return index;
 }
 
 /**
  * Match a Polymarket outcome name to a Netflix title
  *
- * Strategy:
- * 1. Exact match on full name (including season)
- * 2. Exact match on normalized name (without season)
- * 3. Exact match on any alias
- * 4. Fuzzy match using Levenshtein distance if no exact match
+ * Confirmed mappings, exact, alias and season-variant matches are 'exact';
+ * prefix, near-spelling and other-season matches are only 'fuzzy'.
  */
 export function matchOutcomeToTitle(
   outcomeName: string,
-  titleCache: Map<string, TitleCacheEntry>
+  titleCache: Map<string, TitleCacheEntry>,
+  type?: 'SHOW' | 'MOVIE'
 ): MarketOutcomeMatch {
-  const cleanedOutcome = cleanOutcomeName(outcomeName);
-  const normalizedOutcome = createMatchingKey(cleanedOutcome);
-  const normalizedOutcomeNoSeason = normalizeForMatching(outcomeName);
-
-  // Check exact match on full canonical name (including season)
-  for (const [, title] of titleCache) {
-    const normalizedTitle = createMatchingKey(title.canonicalName);
-
-    // First check full name match (e.g., "Stranger Things: Season 5")
-    if (normalizedTitle === normalizedOutcome) {
-      return {
-        outcomeName,
-        matchedTitleId: title.id,
-        matchedTitleName: title.canonicalName,
-        matchConfidence: 'exact',
-      };
-    }
-
-    // Check if outcome matches title without season suffix
-    const normalizedTitleNoSeason = normalizeForMatching(title.canonicalName);
-    if (normalizedTitleNoSeason === normalizedOutcomeNoSeason) {
-      return {
-        outcomeName,
-        matchedTitleId: title.id,
-        matchedTitleName: title.canonicalName,
-        matchConfidence: 'exact',
-      };
-    }
-
-    // Check if Netflix title starts with Polymarket outcome (e.g., "Wake Up Dead Man" -> "Wake Up Dead Man: A Knives Out Mystery")
-    if (normalizedTitle.startsWith(normalizedOutcome) && normalizedOutcome.length >= 10) {
-      return {
-        outcomeName,
-        matchedTitleId: title.id,
-        matchedTitleName: title.canonicalName,
-        matchConfidence: 'exact',
-      };
-    }
-
-    // Check aliases
-    if (title.aliases) {
-      for (const alias of title.aliases) {
-        if (createMatchingKey(alias) === normalizedOutcome) {
-          return {
-            outcomeName,
-            matchedTitleId: title.id,
-            matchedTitleName: title.canonicalName,
-            matchConfidence: 'exact',
-          };
-        }
-      }
-    }
-  }
+  const [top] = rankTitleCandidates(indexFor(titleCache), outcomeName, { type, limit: 1 });
 
-  // Fuzzy matching as fallback (Levenshtein distance <= 3)
-  let bestMatch: { id: string; name: string; distance: number } | null = null;
-  const MAX_DISTANCE = 3;
-
-  for (const [, title] of titleCache) {
-    // Try matching with season-normalized names for better fuzzy matching
-    const normalizedTitleNoSeason = normalizeForMatching(title.canonicalName);
-    const distance = levenshteinDistance(normalizedOutcomeNoSeason, normalizedTitleNoSeason);
-
-    if (distance <= MAX_DISTANCE && (!bestMatch || distance < bestMatch.distance)) {
-      bestMatch = { id: title.id, name: title.canonicalName, distance };
-    }
-
-    // Also check aliases for fuzzy match
-    if (title.aliases) {
-      for (const alias of title.aliases) {
-        const normalizedAlias = normalizeForMatching(alias);
-        const aliasDistance = levenshteinDistance(normalizedOutcomeNoSeason, normalizedAlias);
-
-        if (aliasDistance <= MAX_DISTANCE && (!bestMatch || aliasDistance < bestMatch.distance)) {
-          bestMatch = { id: title.id, name: title.canonicalName, distance: aliasDistance };
-        }
-      }
-    }
-  }
-
-  if (bestMatch) {
+  if (!top) {
     return {
       outcomeName,
-      matchedTitleId: bestMatch.id,
-      matchedTitleName: bestMatch.name,
-      matchConfidence: 'fuzzy',
+      matchedTitleId: null,
+      matchedTitleName: null,
+      matchConfidence: 'none',
     };
   }
 
   return {
     outcomeName,
-    matchedTitleId: null,
-    matchedTitleName: null,
-    matchConfidence: 'none',
+    matchedTitleId: top.titleId,
+    matchedTitleName: top.canonicalName,
+    matchConfidence: top.reason === 'CONFIRMED' ? 'confirmed' : top.score >= MATCH_ACCEPT_SCORE ? 'exact' : 'fuzzy',
   };
 }
 
@@ -217,10 +91,12 @@ export function matchOutcomesToTitles(
 }
 
 /**
- * Build a title cache from database records
+ * Build a title cache from database records. Confirmed outcome mappings
+ * are attached to their titles so they take precedence over name matching.
  */
 export function buildTitleCache(
-  titles: Array<{ id: string; canonicalName: string; aliases: unknown }>
+  titles: Array<{ id: string; canonicalName: string; aliases: unknown; type?: 'SHOW' | 'MOVIE' }>,
+  confirmedMappings: ConfirmedOutcomeMapping[] = []
 ): Map<string, TitleCacheEntry> {
   const cache = new Map<string, TitleCacheEntry>();
 
@@ -229,8 +105,15 @@ export function buildTitleCache(
       id: title.id,
       canonicalName: title.canonicalName,
       aliases: Array.isArray(title.aliases) ? title.aliases as string[] : null,
+      type: title.type,
     });
   }
 
+  for (const mapping of confirmedMappings) {
+    const entry = mapping.titleId ? cache.get(mapping.titleId) : undefined;
+    if (!entry) continue;
+    entry.confirmedOutcomes = [...(entry.confirmedOutcomes ?? []), mapping.outcomeKey];
+  }
+
   return cache;
 }
@@ -0,0 +1,442 @@
+/**
+ * Market Simulation
+ *
+ * Loads the contenders for a Polymarket weekly market category and prices
+ * them with the chart simulator (chartSimulator.ts): titles in the latest
+ * published Netflix Top 10 for the category, plus titles FlixPatrol has in
+ * its top 10 over the last few days that Netflix hasn't charted yet.
+ *
+ * Netflix only publishes views globally, so US categories use each title's
+ * global views, moved by its US FlixPatrol points trend.
+ *
+ * Once the tracking week is under way, nowcastMarketCategory prices the
+ * same markets from the days of FlixPatrol points already in (nowcast.ts),
+ * following recent releases along their premiere curves.
+ */
+
+import type { TitleType } from '@prisma/client';
+import type { MarketCategory } from './forecaster';
+import {
+  estimateContender,
+  fitPointsCalibration,
+  simulateChart,
+  Contender,
+  ContenderEstimateInput,
+  ChartSimulation,
+} from './chartSimulator';
+import { nowcastContender, trackingWeekStart, NowcastContender, TRACKING_DAYS } from './nowcast';
+import { netflixKnownAt, observedBy } from './pointInTime';
+import { getPremiereContexts } from './premiereCurveStore';
+import { RankProbs } from './rankDistribution';
+
+import prisma from '@/lib/prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_WEEKS = 6;
+const FLIXPATROL_CONTENDER_DAYS = 3;
+const EXACTA_LIMIT = 20;
+
+// z-score of the 90th percentile, for the nowcast views range
+const Z_90 = 1.2816;
+
+export interface MarketContender {
+  titleId: string;
+  seasonNumber: number;
+  name: string;
+  pFirst: number;
+  pSecond: number;
+  rankProbs: RankProbs;
+  medianViews: number;
+  source: 'netflix' | 'flixpatrol';  // Where the views estimate came from
+}
+
+export interface MarketExacta {
+  firstTitleId: string;
+  firstName: string;
+  secondTitleId: string;
+  secondName: string;
+  probability: number;
+}
+
+export interface MarketSimulation {
+  category: MarketCategory;
+  latestWeekStart: Date | null;  // Latest published Netflix week used
+  iterations: number;
+  contenders: MarketContender[];  // Likeliest #1 first
+  exacta: MarketExacta[];         // Likeliest first/second pairs
+}
+
+export interface NowcastMarketContender extends MarketContender {
+  observedPoints: number;   // FlixPatrol points over the observed days
+  projectedPoints: number;  // Projected points for the full week
+  premiereCurve: boolean;   // Projected along its premiere curve
+  viewsLow: number;         // p10 of final weekly views
+  viewsHigh: number;        // p90 of final weekly views
+}
+
+export interface MarketNowcast extends MarketSimulation {
+  weekStart: Date;                // Tracking week being nowcast
+  weekEnd: Date;
+  daysElapsed: number;            // Days of the week with FlixPatrol data in
+  lastObservedDate: Date | null;
+  contenders: NowcastMarketContender[];
+}
+
+interface ContenderRow {
+  titleId: string;
+  seasonNumber: number;
+  title: { canonicalName: string };
+}
+
+interface FlixPatrolRow {
+  titleId: string;
+  date: Date;
+  rank: number;
+  points: number;
+  season: { seasonNumber: number } | null;
+  title: { canonicalName: string } | null;
+}
+
+function contenderKey(titleId: string, seasonNumber: number): string {
+  return `${titleId}:${seasonNumber}`;
+}
+
+function contenderName(name: string, seasonNumber: number): string {
+  return seasonNumber > 0 ? `${name} S${seasonNumber}` : name;
+}
+
+function marketExacta(
+  simulation: ChartSimulation,
+  byKey: Map<string, { titleId: string }>,
+  names: Map<string, string>
+): MarketExacta[] {
+  return simulation.exacta.slice(0, EXACTA_LIMIT).map((e) => ({
+    firstTitleId: byKey.get(e.first)!.titleId,
+    firstName: names.get(e.first)!,
+    secondTitleId: byKey.get(e.second)!.titleId,
+    secondName: names.get(e.second)!,
+    probability: e.probability,
+  }));
+}
+
+/**
+ * Simulate the coming week's chart for a market category
+ */
+export async function simulateMarketCategory(
+  category: MarketCategory,
+  options: { iterations?: number; seed?: number } = {}
+): Promise<MarketSimulation> {
+  const titleType: TitleType = category.startsWith('shows') ? 'SHOW' : 'MOVIE';
+  const isUS = category.endsWith('-us');
+  const region = isUS ? 'us' : 'world';
+  const flixPatrolCategory = titleType === 'SHOW' ? 'tv' : 'movies';
+
+  const latest = await prisma.netflixWeeklyGlobal.findFirst({
+    where: { title: { type: titleType } },
+    orderBy: { weekStart: 'desc' },
+    select: { weekStart: true, weekEnd: true },
+  }) as { weekStart: Date; weekEnd: Date } | null;
+
+  // Latest Top 10 for the category
+  const weekly = latest
+    ? isUS
+      ? prisma.netflixWeeklyUS.findMany({
+          where: { weekStart: latest.weekStart, title: { type: titleType } },
+          select: { titleId: true, seasonNumber: true, title: { select: { canonicalName: true } } },
+        })
+      : prisma.netflixWeeklyGlobal.findMany({
+          where: { weekStart: latest.weekStart, title: { type: titleType } },
+          select: { titleId: true, seasonNumber: true, title: { select: { canonicalName: true } } },
+        })
+    : Promise.resolve([]);
+  const charting = await weekly as ContenderRow[];
+
+  // FlixPatrol points from the start of the latest Netflix week (for the
+  // calibration) or the last two weeks, whichever is earlier
+  const now = Date.now();
+  const twoWeeksAgo = new Date(now - 14 * DAY_MS);
+  const flixPatrolFrom = latest && latest.weekStart < twoWeeksAgo ? latest.weekStart : twoWeeksAgo;
+  const flixPatrol = await prisma.flixPatrolDaily.findMany({
+    where: {
+      titleId: { not: null },
+      region,
+      category: flixPatrolCategory,
+      date: { gte: flixPatrolFrom },
+    },
+    select: {
+      titleId: true,
+      date: true,
+      rank: true,
+      points: true,
+      season: { select: { seasonNumber: true } },
+      title: { select: { canonicalName: true } },
+    },
+  }) as FlixPatrolRow[];
+
+  // Contenders: the charting titles, then recent FlixPatrol top 10 titles
+  const names = new Map<string, string>();
+  const keys: { titleId: string; seasonNumber: number }[] = [];
+  for (const row of charting) {
+    const key = contenderKey(row.titleId, row.seasonNumber);
+    if (names.has(key)) continue;
+    names.set(key, contenderName(row.title.canonicalName, row.seasonNumber));
+    keys.push({ titleId: row.titleId, seasonNumber: row.seasonNumber });
+  }
+  const recentCutoff = new Date(now - FLIXPATROL_CONTENDER_DAYS * DAY_MS);
+  for (const row of flixPatrol) {
+    const seasonNumber = row.season?.seasonNumber ?? 0;
+    const key = contenderKey(row.titleId, seasonNumber);
+    if (names.has(key) || row.date < recentCutoff || row.rank > 10 || !row.title) continue;
+    names.set(key, contenderName(row.title.canonicalName, seasonNumber));
+    keys.push({ titleId: row.titleId, seasonNumber });
+  }
+
+  // Global weekly views per contender, summed across Netflix categories
+  const historyFrom = latest ? new Date(latest.weekStart.getTime() - (HISTORY_WEEKS - 1) * 7 * DAY_MS) : new Date(0);
+  const history = keys.length > 0
+    ? await prisma.netflixWeeklyGlobal.findMany({
+        where: {
+          titleId: { in: [...new Set(keys.map((k) => k.titleId))] },
+          weekStart: { gte: historyFrom },
+        },
+        orderBy: { weekStart: 'asc' },
+        select: { titleId: true, seasonNumber: true, weekStart: true, views: true },
+      }) as { titleId: string; seasonNumber: number; weekStart: Date; views: bigint | null }[]
+    : [];
+
+  const viewsByWeek = new Map<string, Map<number, number>>();
+  for (const row of history) {
+    if (row.views === null) continue;
+    const key = contenderKey(row.titleId, row.seasonNumber);
+    const weeks = viewsByWeek.get(key) ?? new Map<number, number>();
+    weeks.set(row.weekStart.getTime(), (weeks.get(row.weekStart.getTime()) ?? 0) + Number(row.views));
+    viewsByWeek.set(key, weeks);
+  }
+
+  // FlixPatrol points per contender: last 7 days, the 7 before, and the latest Netflix week
+  const recentFrom = new Date(now - 7 * DAY_MS);
+  const points = new Map<string, { recent: number; previous: number; latestWeek: number }>();
+  for (const row of flixPatrol) {
+    const key = contenderKey(row.titleId, row.season?.seasonNumber ?? 0);
+    const totals = points.get(key) ?? { recent: 0, previous: 0, latestWeek: 0 };
+    if (row.date >= recentFrom) totals.recent += row.points;
+    else if (row.date >= twoWeeksAgo) totals.previous += row.points;
+    if (latest && row.date >= latest.weekStart && row.date <= latest.weekEnd) totals.latestWeek += row.points;
+    points.set(key, totals);
+  }
+
+  // Calibrate points to views on titles with both for the latest week
+  const calibration = fitPointsCalibration(
+    keys.flatMap(({ titleId, seasonNumber }) => {
+      const key = contenderKey(titleId, seasonNumber);
+      const views = latest ? viewsByWeek.get(key)?.get(latest.weekStart.getTime()) : undefined;
+      const weekPoints = points.get(key)?.latestWeek ?? 0;
+      return views && weekPoints > 0 ? [{ points: weekPoints, views }] : [];
+    })
+  );
+
+  const contenders: Contender[] = [];
+  for (const { titleId, seasonNumber } of keys) {
+    const key = contenderKey(titleId, seasonNumber);
+    const weeks = viewsByWeek.get(key);
+    const totals = points.get(key);
+    const input: ContenderEstimateInput = {
+      weeklyViews: weeks ? [...weeks.entries()].sort((a, b) => a[0] - b[0]).map(([, v]) => v) : [],
+      recentPoints: totals?.recent || null,
+      previousPoints: totals?.previous || null,
+    };
+    const contender = estimateContender(key, input, calibration);
+    if (contender) contenders.push(contender);
+  }
+
+  const simulation = simulateChart(contenders, options);
+
+  const byKey = new Map(keys.map((k) => [contenderKey(k.titleId, k.seasonNumber), k]));
+  const marketContenders: MarketContender[] = simulation.contenders
+    .map((c) => {
+      const { titleId, seasonNumber } = byKey.get(c.key)!;
+      return {
+        titleId,
+        seasonNumber,
+        name: names.get(c.key)!,
+        pFirst: c.pFirst,
+        pSecond: c.pSecond,
+        rankProbs: c.rankProbs,
+        medianViews: c.medianViews,
+        source: viewsByWeek.has(c.key) ? 'netflix' as const : 'flixpatrol' as const,
+      };
+    })
+    .sort((a, b) => b.pFirst - a.pFirst);
+
+  return {
+    category,
+    latestWeekStart: latest?.weekStart ?? null,
+    iterations: simulation.iterations,
+    contenders: marketContenders,
+    exacta: marketExacta(simulation, byKey, names),
+  };
+}
+
+/**
+ * Nowcast the tracking week's chart for a market category from the days
+ * of FlixPatrol points observed so far. Contenders are every title
+ * FlixPatrol has charted this week; with no days in, there are none.
+ *
+ * @param asOf - Nowcast as of this past date instead of now
+ */
+export async function nowcastMarketCategory(
+  category: MarketCategory,
+  options: { asOf?: Date; iterations?: number; seed?: number } = {}
+): Promise<MarketNowcast> {
+  const titleType: TitleType = category.startsWith('shows') ? 'SHOW' : 'MOVIE';
+  const region = category.endsWith('-us') ? 'us' : 'world';
+  const flixPatrolCategory = titleType === 'SHOW' ? 'tv' : 'movies';
+  const asOf = options.asOf ?? new Date();
+
+  const latest = await prisma.netflixWeeklyGlobal.findFirst({
+    where: { title: { type: titleType }, ...netflixKnownAt(options.asOf) },
+    orderBy: { weekStart: 'desc' },
+    select: { weekStart: true, weekEnd: true },
+  }) as { weekStart: Date; weekEnd: Date } | null;
+
+  const weekStart = trackingWeekStart(latest?.weekStart ?? null, asOf);
+  const weekEnd = new Date(weekStart.getTime() + (TRACKING_DAYS - 1) * DAY_MS);
+  const nextWeekStart = new Date(weekStart.getTime() + TRACKING_DAYS * DAY_MS);
+
+  // FlixPatrol points for the tracking week, and the latest published week
+  // for converting points to views
+  const flixPatrol = await prisma.flixPatrolDaily.findMany({
+    where: {
+      titleId: { not: null },
+      region,
+      category: flixPatrolCategory,
+      date: { gte: latest && latest.weekStart < weekStart ? latest.weekStart : weekStart, lt: nextWeekStart },
+      ...observedBy(options.asOf),
+    },
+    select: {
+      titleId: true,
+      date: true,
+      rank: true,
+      points: true,
+      season: { select: { seasonNumber: true } },
+      title: { select: { canonicalName: true } },
+    },
+  }) as FlixPatrolRow[];
+
+  const published = latest
+    ? await prisma.netflixWeeklyGlobal.findMany({
+        where: { weekStart: latest.weekStart },
+        select: { titleId: true, seasonNumber: true, views: true },
+      }) as { titleId: string; seasonNumber: number; views: bigint | null }[]
+    : [];
+
+  const previousViews = new Map<string, number>();
+  for (const row of published) {
+    if (row.views === null) continue;
+    const key = contenderKey(row.titleId, row.seasonNumber);
+    previousViews.set(key, (previousViews.get(key) ?? 0) + Number(row.views));
+  }
+
+  // Points per contender per observed day, and over the published week
+  const names = new Map<string, string>();
+  const keys: { titleId: string; seasonNumber: number }[] = [];
+  const dailyPoints = new Map<string, Map<number, number>>();
+  const previousPoints = new Map<string, number>();
+  const observedDays = new Set<number>();
+  for (const row of flixPatrol) {
+    const seasonNumber = row.season?.seasonNumber ?? 0;
+    const key = contenderKey(row.titleId, seasonNumber);
+
+    if (row.date < weekStart) {
+      if (latest && row.date <= latest.weekEnd) previousPoints.set(key, (previousPoints.get(key) ?? 0) + row.points);
+      continue;
+    }
+
+    observedDays.add(row.date.getTime());
+    const days = dailyPoints.get(key) ?? new Map<number, number>();
+    days.set(row.date.getTime(), (days.get(row.date.getTime()) ?? 0) + row.points);
+    dailyPoints.set(key, days);
+
+    if (!names.has(key) && row.title) {
+      names.set(key, contenderName(row.title.canonicalName, seasonNumber));
+      keys.push({ titleId: row.titleId, seasonNumber });
+    }
+  }
+  // Every day of the week up to the latest with data, Monday first
+  const lastObserved = observedDays.size > 0 ? Math.max(...observedDays) : null;
+  const days = lastObserved === null
+    ? []
+    : Array.from({ length: Math.round((lastObserved - weekStart.getTime()) / DAY_MS) + 1 }, (_, i) => weekStart.getTime() + i * DAY_MS);
+
+  // Calibrate points to views on every title with both for the published week
+  const calibration = fitPointsCalibration(
+    [...previousPoints.entries()].flatMap(([key, points]) => {
+      const views = previousViews.get(key);
+      return views ? [{ points, views }] : [];
+    })
+  );
+
+  const premieres = await getPremiereContexts([...new Set(keys.map((k) => k.titleId))], options.asOf);
+
+  const contenders: NowcastContender[] = [];
+  for (const { titleId, seasonNumber } of keys) {
+    const key = contenderKey(titleId, seasonNumber);
+    const premiere = premieres.get(titleId);
+    const releaseDay = premiere && Date.UTC(
+      premiere.releaseDate.getUTCFullYear(),
+      premiere.releaseDate.getUTCMonth(),
+      premiere.releaseDate.getUTCDate()
+    );
+    const contender = nowcastContender(
+      key,
+      {
+        dailyPoints: days.map((day) => dailyPoints.get(key)?.get(day) ?? 0),
+        previousWeekViews: previousViews.get(key) ?? null,
+        previousWeekPoints: previousPoints.get(key) ?? null,
+        premiere: premiere && releaseDay !== undefined
+          ? { curve: premiere.curve, releaseOffset: Math.round((releaseDay - weekStart.getTime()) / DAY_MS) }
+          : null,
+      },
+      calibration
+    );
+    if (contender) contenders.push(contender);
+  }
+
+  const simulation = simulateChart(contenders, options);
+
+  const byKey = new Map(keys.map((k) => [contenderKey(k.titleId, k.seasonNumber), k]));
+  const estimates = new Map(contenders.map((c) => [c.key, c]));
+  const marketContenders: NowcastMarketContender[] = simulation.contenders
+    .map((c) => {
+      const { titleId, seasonNumber } = byKey.get(c.key)!;
+      const estimate = estimates.get(c.key)!;
+      return {
+        titleId,
+        seasonNumber,
+        name: names.get(c.key)!,
+        pFirst: c.pFirst,
+        pSecond: c.pSecond,
+        rankProbs: c.rankProbs,
+        medianViews: c.medianViews,
+        source: estimate.basis === 'views_ratio' ? 'netflix' as const : 'flixpatrol' as const,
+        observedPoints: estimate.observedPoints,
+        projectedPoints: Math.round(estimate.projectedPoints),
+        premiereCurve: estimate.premiereCurve,
+        viewsLow: Math.round(Math.exp(estimate.logViews - Z_90 * estimate.sigma)),
+        viewsHigh: Math.round(Math.exp(estimate.logViews + Z_90 * estimate.sigma)),
+      };
+    })
+    .sort((a, b) => b.pFirst - a.pFirst);
+
+  return {
+    category,
+    latestWeekStart: latest?.weekStart ?? null,
+    weekStart,
+    weekEnd,
+    daysElapsed: days.length,
+    lastObservedDate: lastObserved === null ? null : new Date(lastObserved),
+    iterations: simulation.iterations,
+    contenders: marketContenders,
+    exacta: marketExacta(simulation, byKey, names),
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Netflix Top 10 Rows
+ *
+ * Parsing and grouping of rows from Netflix's Top 10 XLSX files, kept free
+ * of Prisma so it can be unit tested. ingestNetflixWeekly resolves the
+ * titles and writes the rows.
+ */
+
+import type { TitleType } from '@prisma/client';
+
+// Category mapping for TitleType
+// Global data uses: "TV (English)", "Films (English)", etc.
+// Country data uses simplified: "TV", "Films"
+export const CATEGORY_TYPE_MAP: Record<string, TitleType> = {
+  'TV (English)': 'SHOW',
+  'TV (Non-English)': 'SHOW',
+  'Films (English)': 'MOVIE',
+  'Films (Non-English)': 'MOVIE',
+  // Simplified categories used in country-specific data
+  'TV': 'SHOW',
+  'Films': 'MOVIE',
+};
+
+export interface CountryRow {
+  country_iso2: string;
+  country_name: string;
+  week: string | Date | number;  // Can be string, Date object, or Excel serial number
+  category: string;
+  weekly_rank: number;
+  show_title: string;
+  season_title?: string;
+  cumulative_weeks_in_top_10?: number;
+}
+
+// A country row ready for title resolution
+export interface CountryEntry {
+  countryIso2: string;
+  countryName: string;
+  titleName: string;
+  seasonTitle: string | null;
+  type: TitleType;
+  weekStart: Date;
+  weekEnd: Date;
+  rank: number;
+  category: string;
+}
+
+export interface CountryWeek {
+  weekStart: Date;
+  entries: CountryEntry[];
+}
+
+/**
+ * Parse week to date range
+ * Handles: string "2024-01-01 - 2024-01-07", Date objects, or Excel serial numbers
+ */
+export function parseWeekRange(week: string | Date | number): { weekStart: Date; weekEnd: Date } {
+  // If it's already a Date object (XLSX can parse dates)
+  if (week instanceof Date) {
+    const start = new Date(week);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 6);
+    return { weekStart: start, weekEnd: end };
+  }
+
+  // If it's an Excel serial date number
+  if (typeof week === 'number') {
+    // Excel dates are days since 1899-12-30 (with a leap year bug)
+    const excelEpoch = new Date(Date.UTC(1899, 11, 30));
+    const start = new Date(excelEpoch.getTime() + week * 24 * 60 * 60 * 1000);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 6);
+    return { weekStart: start, weekEnd: end };
+  }
+
+  // String format - split on " - " or " – " (with spaces to avoid splitting date hyphens)
+  const weekStr = String(week);
+  const parts = weekStr.split(/\s+[-–]\s+/);
+
+  if (parts.length >= 2) {
+    return {
+      weekStart: new Date(parts[0].trim()),
+      weekEnd: new Date(parts[1].trim()),
+    };
+  }
+
+  // Single date string - assume it's the week start, end is 6 days later
+  const start = new Date(weekStr.trim());
+  const end = new Date(start);
+  end.setDate(end.getDate() + 6);
+
+  return { weekStart: start, weekEnd: end };
+}
+
+/**
+ * A row's season_title, null when it has none. Netflix uses the string
+ * "N/A" (not null) for entries without season info.
+ */
+export function rowSeasonTitle(seasonTitle: string | null | undefined): string | null {
+  return seasonTitle && seasonTitle !== 'N/A' ? seasonTitle : null;
+}
+
+/**
+ * Group country rows by week, each week's rows replacing what is stored for
+ * it. Rows without a country or a title name are dropped; rows in an
+ * unknown category are reported in errors.
+ */
+export function groupCountryRows(rows: CountryRow[]): { weeks: CountryWeek[]; errors: string[] } {
+  const byWeek = new Map<number, CountryWeek>();
+  const errors: string[] = [];
+
+  for (const row of rows) {
+    if (!row.country_iso2) continue;
+
+    // Use season_title for shows with seasons, otherwise show_title
+    const seasonTitle = rowSeasonTitle(row.season_title);
+    const titleName = seasonTitle || row.show_title;
+    if (!titleName || titleName === 'N/A') continue;
+
+    const type = CATEGORY_TYPE_MAP[row.category];
+    if (!type) {
+      errors.push(`Unknown category: ${row.category}`);
+      continue;
+    }
+
+    const { weekStart, weekEnd } = parseWeekRange(row.week);
+    if (isNaN(weekStart.getTime())) {
+      errors.push(`Invalid week: ${String(row.week)}`);
+      continue;
+    }
+
+    const week = byWeek.get(weekStart.getTime()) ?? { weekStart, entries: [] };
+    byWeek.set(weekStart.getTime(), week);
+    week.entries.push({
+      countryIso2: row.country_iso2,
+      countryName: row.country_name,
+      titleName,
+      seasonTitle,
+      type,
+      weekStart,
+      weekEnd,
+      rank: row.weekly_rank,
+      category: row.category,
+    });
+  }
+
+  return { weeks: Array.from(byWeek.values()), errors };
+}
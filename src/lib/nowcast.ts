@@ -0,0 +1,160 @@
+/**
+ * Partial-Week Nowcasting
+ *
+ * Polymarket's weekly markets resolve on Netflix's Monday–Sunday views, but
+ * FlixPatrol publishes daily points while the week is still running. Given
+ * the days of the tracking week observed so far, each title's week is
+ * projected to a full seven days of points and converted to views, with a
+ * spread that narrows as the remaining days run out. The chart simulator
+ * (chartSimulator.ts) then prices P(#1) and P(#2) from those estimates.
+ * Titles released within the last few weeks are projected along their
+ * premiere curve (premiereCurve.ts) rather than their recent trend.
+ *
+ * Pure functions only, so the projection can be unit tested without Prisma.
+ */
+
+import { Contender, PointsCalibration } from './chartSimulator';
+import { NETFLIX_PUBLISH_LAG_DAYS } from './pointInTime';
+import { netflixWeekStart, projectFromCurve } from './premiereCurve';
+
+export const TRACKING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bounds on the daily log-points trend carried over the remaining days
+const MIN_DAILY_GROWTH = -0.3;
+const MAX_DAILY_GROWTH = 0.2;
+
+// Log-views spread of the points→views conversion, and of projecting a whole
+// week of points (scaled down by the share of the week still to come)
+const RATIO_SIGMA = 0.15;
+const MIN_CALIBRATION_SIGMA = 0.3;
+const PROJECTION_SIGMA = 0.6;
+
+// A recent release's premiere curve and where the tracking week sits on it
+export interface NowcastPremiere {
+  curve: number[];
+  releaseOffset: number;  // Days from the week's Monday to release (negative if released before it)
+}
+
+export interface NowcastInput {
+  dailyPoints: number[];              // Points on each day of the week so far, Monday first (0 when not charted)
+  previousWeekViews: number | null;   // Views in the latest published Netflix week
+  previousWeekPoints: number | null;  // FlixPatrol points over that same week
+  premiere?: NowcastPremiere | null;
+}
+
+export interface PointsProjection {
+  observedPoints: number;   // Points over the observed days
+  projectedPoints: number;  // Observed plus projected remaining days
+  dailyGrowth: number;      // Log-points trend carried forward per day
+  premiereCurve: boolean;   // Remaining days projected along the premiere curve
+}
+
+export interface NowcastContender extends Contender, PointsProjection {
+  basis: 'views_ratio' | 'calibration';
+}
+
+/**
+ * Start of the week markets are trading on: the first Netflix week not yet
+ * published, moving on once a week's results are overdue. Without a
+ * published week, the Monday (UTC) of asOf's week.
+ */
+export function trackingWeekStart(latestPublishedWeekStart: Date | null, asOf: Date): Date {
+  if (!latestPublishedWeekStart) return netflixWeekStart(asOf);
+
+  let start = latestPublishedWeekStart.getTime() + TRACKING_DAYS * DAY_MS;
+  while (asOf.getTime() >= start + (TRACKING_DAYS + NETFLIX_PUBLISH_LAG_DAYS) * DAY_MS) {
+    start += TRACKING_DAYS * DAY_MS;
+  }
+  return new Date(start);
+}
+
+/**
+ * Project a title's points for the full week from its observed days: the
+ * latest level (mean of the last two days) carried over the remaining days
+ * along its recent daily trend. A recent release's remaining days follow
+ * its premiere curve instead, scaled to the days it has been out.
+ */
+export function projectWeekPoints(dailyPoints: number[], premiere?: NowcastPremiere | null): PointsProjection {
+  const observed = dailyPoints.slice(0, TRACKING_DAYS);
+  const observedPoints = observed.reduce((sum, p) => sum + p, 0);
+  const remainingDays = TRACKING_DAYS - observed.length;
+
+  if (observed.length === 0 || remainingDays === 0) {
+    return { observedPoints, projectedPoints: observedPoints, dailyGrowth: 0, premiereCurve: false };
+  }
+
+  if (premiere) {
+    // Day of the week i is day i - releaseOffset + 1 since release
+    const sinceRelease = (i: number) => i - premiere.releaseOffset + 1;
+    const remaining = projectFromCurve(
+      premiere.curve,
+      observed.map((points, i) => ({ day: sinceRelease(i), points })),
+      Array.from({ length: remainingDays }, (_, i) => sinceRelease(observed.length + i))
+    );
+    if (remaining !== null) {
+      return { observedPoints, projectedPoints: observedPoints + remaining, dailyGrowth: 0, premiereCurve: true };
+    }
+  }
+
+  const level = observed.slice(-2).reduce((sum, p) => sum + p, 0) / Math.min(2, observed.length);
+
+  // Average log change over the last three day-to-day steps both charted in
+  const steps = observed
+    .slice(-4)
+    .flatMap((p, i, recent) => (i > 0 && p > 0 && recent[i - 1] > 0 ? [Math.log(p / recent[i - 1])] : []));
+  const trend = steps.length > 0 ? steps.reduce((a, b) => a + b, 0) / steps.length : 0;
+  const dailyGrowth = Math.min(MAX_DAILY_GROWTH, Math.max(MIN_DAILY_GROWTH, trend));
+
+  let remainingPoints = 0;
+  for (let day = 1; day <= remainingDays; day++) {
+    remainingPoints += level * Math.exp(dailyGrowth * day);
+  }
+
+  return { observedPoints, projectedPoints: observedPoints + remainingPoints, dailyGrowth, premiereCurve: false };
+}
+
+/**
+ * Final-week log-views estimate for one title, null when it has no
+ * projected points or nothing to convert them to views with.
+ *
+ * Titles in the latest Netflix week scale that week's views by projected
+ * points over that week's points; others go through the points→views
+ * calibration. The projection's share of the spread shrinks with the days
+ * left, so the estimate tightens as the week is decided.
+ */
+export function nowcastContender(
+  key: string,
+  input: NowcastInput,
+  calibration: PointsCalibration | null
+): NowcastContender | null {
+  const projection = projectWeekPoints(input.dailyPoints, input.premiere);
+  if (projection.projectedPoints <= 0) return null;
+
+  const remainingShare = Math.max(0, TRACKING_DAYS - input.dailyPoints.length) / TRACKING_DAYS;
+  const projectionSigma = PROJECTION_SIGMA * remainingShare;
+  const combine = (conversionSigma: number) => Math.sqrt(conversionSigma ** 2 + projectionSigma ** 2);
+
+  if ((input.previousWeekViews ?? 0) > 0 && (input.previousWeekPoints ?? 0) > 0) {
+    return {
+      key,
+      ...projection,
+      basis: 'views_ratio',
+      logViews: Math.log(input.previousWeekViews!) + Math.log(projection.projectedPoints / input.previousWeekPoints!),
+      sigma: combine(RATIO_SIGMA),
+    };
+  }
+
+  if (calibration) {
+    return {
+      key,
+      ...projection,
+      basis: 'calibration',
+      logViews: calibration.intercept + calibration.slope * Math.log(projection.projectedPoints),
+      sigma: combine(Math.max(MIN_CALIBRATION_SIGMA, calibration.sigma)),
+    };
+  }
+
+  return null;
+}
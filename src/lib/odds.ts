@@ -0,0 +1,185 @@
+/**
+ * Odds Formats
+ *
+ * Converts quoted odds to implied probabilities. A value's own markers win
+ * over the format it was entered under: "85%" is a percent, "5/2" is
+ * fractional and "+150" is American wherever they appear; a bare number is
+ * read in the given format.
+ *
+ * A bookmaker's implied probabilities for a category sum past 100% (the
+ * overround); devig() turns one category's book into fair probabilities.
+ */
+
+export type OddsFormat = 'american' | 'fractional' | 'decimal' | 'percent';
+
+export const ODDS_FORMATS: OddsFormat[] = ['american', 'fractional', 'decimal', 'percent'];
+
+export interface ParsedOdds {
+  probability: number;  // Implied probability, 0-1
+  format: OddsFormat;   // Format the value was read as
+  rawOdds: string;      // The value as entered
+}
+
+/**
+ * -200 = 66.7% (favorite), +200 = 33.3% (underdog)
+ */
+export function americanToProbability(americanOdds: number): number | null {
+  if (!Number.isFinite(americanOdds) || Math.abs(americanOdds) < 100) return null;
+  if (americanOdds < 0) {
+    // Favorite: -200 means bet $200 to win $100
+    return -americanOdds / (-americanOdds + 100);
+  }
+  // Underdog: +200 means bet $100 to win $200
+  return 100 / (americanOdds + 100);
+}
+
+/**
+ * 5/2 = 28.6%: stake 2 to win 5
+ */
+export function fractionalToProbability(numerator: number, denominator: number): number | null {
+  if (!(numerator >= 0) || !(denominator > 0)) return null;
+  return denominator / (numerator + denominator);
+}
+
+/**
+ * 3.50 = 28.6%: total return per unit staked
+ */
+export function decimalToProbability(decimalOdds: number): number | null {
+  if (!Number.isFinite(decimalOdds) || decimalOdds < 1) return null;
+  return 1 / decimalOdds;
+}
+
+export function percentToProbability(percent: number): number | null {
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) return null;
+  return percent / 100;
+}
+
+const NUMBER = '\\d+(?:\\.\\d+)?';
+const PERCENT_PATTERN = new RegExp(`^(${NUMBER})\\s*%$`);
+const FRACTION_PATTERN = new RegExp(`^(${NUMBER})\\s*/\\s*(${NUMBER})$`);
+const SIGNED_PATTERN = new RegExp(`^[+-]${NUMBER}$`);
+const BARE_PATTERN = new RegExp(`^${NUMBER}$`);
+
+/**
+ * Implied probability of a quoted value, null if it can't be read
+ *
+ * @param format - How to read a bare number
+ */
+export function parseOdds(raw: string, format: OddsFormat): ParsedOdds | null {
+  const rawOdds = raw.trim();
+  const value = rawOdds.replace(/,/g, '');
+  if (!value) return null;
+
+  const read = (probability: number | null, as: OddsFormat): ParsedOdds | null =>
+    probability === null ? null : { probability, format: as, rawOdds };
+
+  if (/^(evs|evens|even)$/i.test(value)) return read(0.5, 'fractional');
+
+  const percent = value.match(PERCENT_PATTERN);
+  if (percent) return read(percentToProbability(parseFloat(percent[1])), 'percent');
+
+  const fraction = value.match(FRACTION_PATTERN);
+  if (fraction) return read(fractionalToProbability(parseFloat(fraction[1]), parseFloat(fraction[2])), 'fractional');
+
+  if (SIGNED_PATTERN.test(value)) return read(americanToProbability(parseFloat(value)), 'american');
+
+  if (!BARE_PATTERN.test(value)) return null;
+  const number = parseFloat(value);
+  switch (format) {
+    case 'american':
+      return read(americanToProbability(number), 'american');
+    case 'decimal':
+      return read(decimalToProbability(number), 'decimal');
+    case 'percent':
+      return read(percentToProbability(number), 'percent');
+    case 'fractional':
+      // A bare number is n/1
+      return read(fractionalToProbability(number, 1), 'fractional');
+  }
+}
+
+/**
+ * Ways to strip a bookmaker's margin from a category's implied probabilities
+ * - multiplicative: scale every line by the same factor
+ * - additive: take the same amount off every line
+ * - shin: Shin's model, which takes more off longshots
+ * - power: raise every line to the power that makes the book sum to 1
+ */
+export type DevigMethod = 'none' | 'multiplicative' | 'additive' | 'shin' | 'power';
+
+export const DEVIG_METHODS: DevigMethod[] = ['none', 'multiplicative', 'additive', 'shin', 'power'];
+
+/**
+ * How far a book's implied probabilities sum past 1 (0.18 = 118% book)
+ */
+export function overround(probabilities: number[]): number {
+  return probabilities.reduce((sum, p) => sum + p, 0) - 1;
+}
+
+// Find x in [low, high] where f(x) = 0, for f decreasing over the range
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (f(mid) > 0) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+function devigAdditive(probabilities: number[]): number[] {
+  // Lines that would go negative are zeroed and the margin shared by the rest
+  const fair = [...probabilities];
+  let active = fair.map((_, i) => i);
+  for (;;) {
+    const total = active.reduce((sum, i) => sum + probabilities[i], 0);
+    const cut = (total - 1) / active.length;
+    const remaining = active.filter((i) => probabilities[i] - cut > 0);
+    if (remaining.length === active.length) {
+      active.forEach((i) => { fair[i] = probabilities[i] - cut; });
+      return fair;
+    }
+    active.filter((i) => !remaining.includes(i)).forEach((i) => { fair[i] = 0; });
+    active = remaining;
+  }
+}
+
+function devigShin(probabilities: number[]): number[] {
+  const total = probabilities.reduce((sum, p) => sum + p, 0);
+  const fairAt = (z: number) =>
+    probabilities.map((p) => (Math.sqrt(z * z + (4 * (1 - z) * p * p) / total) - z) / (2 * (1 - z)));
+  // z is the share of money Shin attributes to insiders
+  const z = bisect((x) => fairAt(x).reduce((sum, p) => sum + p, 0) - 1, 0, 0.999);
+  return fairAt(z);
+}
+
+function devigPower(probabilities: number[]): number[] {
+  const k = bisect((x) => probabilities.reduce((sum, p) => sum + Math.pow(p, x), 0) - 1, 1, 100);
+  return probabilities.map((p) => Math.pow(p, k));
+}
+
+/**
+ * Fair probabilities for one category's book
+ *
+ * Books that don't sum past 1 (a partial or margin-free book) are returned
+ * as is, since there is no margin to remove.
+ */
+export function devig(probabilities: number[], method: DevigMethod): number[] {
+  if (method === 'none' || probabilities.length < 2 || overround(probabilities) <= 0) {
+    return [...probabilities];
+  }
+
+  const total = probabilities.reduce((sum, p) => sum + p, 0);
+  const multiplicative = () => probabilities.map((p) => p / total);
+
+  switch (method) {
+    case 'multiplicative':
+      return multiplicative();
+    case 'additive':
+      return devigAdditive(probabilities);
+    case 'shin':
+      return devigShin(probabilities);
+    case 'power':
+      // A certain line can't be shrunk by a power
+      return probabilities.some((p) => p >= 1) ? multiplicative() : devigPower(probabilities);
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Odds Entry
+ *
+ * Parses odds pasted or uploaded at /admin/awards/odds and matches them to
+ * a show's categories and nominees before they are committed to AwardOdds.
+ *
+ * A sheet is CSV or tab-separated, one nominee per line:
+ * - category,nominee,odds
+ * - nominee,odds (or "nominee +150"), for a category picked in the console
+ * An optional header row's odds column may name the format ("american",
+ * "percent", ...). Lines with no odds are skipped, so a filled-in template
+ * can be uploaded as is.
+ *
+ * Each category's matched lines form one book, de-vigged together before
+ * storage.
+ */
+
+import type { OddsSource } from '@prisma/client';
+import { matchCategoryName } from './awardShows';
+import { DEVIG_METHODS, DevigMethod, ODDS_FORMATS, OddsFormat, devig, overround, parseOdds } from './odds';
+
+// Sources entered by hand (Polymarket is synced), how each quotes odds and
+// how its margin is removed by default
+export const MANUAL_ODDS_SOURCES: Partial<Record<OddsSource, { label: string; format: OddsFormat; devig: DevigMethod }>> = {
+  GOLDDERBY: { label: 'Gold Derby', format: 'percent', devig: 'multiplicative' },
+  MYBOOKIE: { label: 'MyBookie', format: 'american', devig: 'shin' },
+  BOVADA: { label: 'Bovada', format: 'american', devig: 'shin' },
+  DRAFTKINGS: { label: 'DraftKings', format: 'american', devig: 'shin' },
+  BETMGM: { label: 'BetMGM', format: 'american', devig: 'shin' },
+};
+
+export interface OddsSheetRow {
+  line: number;            // 1-based line in the sheet
+  category: string | null; // Category as entered, null for the picked one
+  nominee: string;
+  odds: string;
+}
+
+export interface OddsSheet {
+  format: OddsFormat;      // The header's format, else the one given
+  rows: OddsSheetRow[];
+}
+
+export interface EntryCategory {
+  id: string;
+  name: string;
+  nominees: { id: string; name: string }[];
+}
+
+export type OddsRowStatus = 'matched' | 'invalid_odds' | 'unknown_category' | 'unknown_nominee' | 'skipped';
+
+export interface OddsPreviewRow extends OddsSheetRow {
+  status: OddsRowStatus;
+  probability: number | null;         // Implied by the odds as quoted
+  fairProbability: number | null;     // After de-vig, set by devigPreview
+  devigMethod: DevigMethod | null;    // Null when the book was left as quoted
+  rawOdds: string;
+  categoryId: string | null;
+  categoryName: string | null;
+  nomineeId: string | null;
+  nomineeName: string | null;
+}
+
+// Nominee chosen by hand for a sheet line (by line number); null skips it
+export type NomineeOverrides = Record<string, string | null>;
+
+type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+const TRAILING_ODDS = /^(.*?)[\s:]+((?:[+-]?\d+(?:\.\d+)?%?)|(?:\d+(?:\.\d+)?\s*\/\s*\d+(?:\.\d+)?)|evs|evens)$/i;
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+function splitLine(line: string): string[] {
+  if (line.includes('\t')) return line.split('\t').map((f) => f.trim());
+  const fields = splitCsvLine(line);
+  if (fields.length > 1) return fields;
+
+  // "Nominee Name +150"
+  const match = line.trim().match(TRAILING_ODDS);
+  return match ? [match[1].trim(), match[2].trim()] : fields;
+}
+
+function headerFormat(fields: string[]): OddsFormat | 'odds' | null {
+  const last = fields[fields.length - 1].toLowerCase();
+  if (ODDS_FORMATS.includes(last as OddsFormat)) return last as OddsFormat;
+  if (last === 'odds' || (fields.length > 1 && fields[fields.length - 2].toLowerCase() === 'nominee')) return 'odds';
+  return null;
+}
+
+/**
+ * Read a pasted or uploaded sheet into rows
+ *
+ * @param format - Format for bare numbers unless the header names one
+ */
+export function parseOddsSheet(text: string, format: OddsFormat): OddsSheet {
+  const sheet: OddsSheet = { format, rows: [] };
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const fields = splitLine(line);
+
+    if (sheet.rows.length === 0) {
+      const header = headerFormat(fields);
+      if (header) {
+        if (header !== 'odds') sheet.format = header;
+        return;
+      }
+    }
+
+    const [category, nominee, odds] = fields.length >= 3
+      ? [fields[0], fields[1], fields[2]]
+      : [null, fields[0], fields[1] ?? ''];
+    if (!nominee || !odds) return;
+
+    sheet.rows.push({ line: index + 1, category: category || null, nominee, odds });
+  });
+
+  return sheet;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * A category's nominee for an entered name: exact, then one name
+ * containing the other, then a shared last name of more than three letters
+ */
+export function matchNominee<T extends { name: string }>(name: string, nominees: T[]): T | null {
+  const wanted = normalizeName(name);
+  if (!wanted) return null;
+
+  const candidates = nominees.map((n) => ({ nominee: n, name: normalizeName(n.name) }));
+  const exact = candidates.find((c) => c.name === wanted);
+  if (exact) return exact.nominee;
+
+  const contains = candidates.find((c) => c.name && (c.name.includes(wanted) || wanted.includes(c.name)));
+  if (contains) return contains.nominee;
+
+  const lastName = wanted.split(' ').pop() ?? '';
+  if (lastName.length <= 3) return null;
+  return candidates.find((c) => c.name.split(' ').pop() === lastName)?.nominee ?? null;
+}
+
+/**
+ * Match a sheet's rows to a show's categories and nominees
+ *
+ * @param defaultCategoryId - Category for rows that don't name one
+ * @param overrides - Nominees picked by hand, by line number
+ */
+export function buildOddsPreview(
+  sheet: OddsSheet,
+  categories: EntryCategory[],
+  defaultCategoryId: string | null,
+  overrides: NomineeOverrides = {}
+): OddsPreviewRow[] {
+  const categoryNames = categories.map((c) => c.name);
+  const byName = new Map(categories.map((c) => [c.name, c]));
+  const nomineeCategory = new Map(
+    categories.flatMap((c) => c.nominees.map((n) => [n.id, { category: c, nominee: n }] as const))
+  );
+
+  return sheet.rows.map((row) => {
+    const parsed = parseOdds(row.odds, sheet.format);
+    const base: OddsPreviewRow = {
+      ...row,
+      status: 'matched',
+      probability: parsed?.probability ?? null,
+      fairProbability: null,
+      devigMethod: null,
+      rawOdds: parsed?.rawOdds ?? row.odds,
+      categoryId: null,
+      categoryName: null,
+      nomineeId: null,
+      nomineeName: null,
+    };
+
+    const override = overrides[String(row.line)];
+    if (override === null) return { ...base, status: 'skipped' };
+
+    let category = row.category
+      ? byName.get(matchCategoryName(row.category, categoryNames) ?? '') ?? null
+      : categories.find((c) => c.id === defaultCategoryId) ?? null;
+    let nominee = category ? matchNominee(row.nominee, category.nominees) : null;
+
+    const picked = override ? nomineeCategory.get(override) : undefined;
+    if (picked) {
+      category = picked.category;
+      nominee = picked.nominee;
+    }
+
+    const located = {
+      ...base,
+      categoryId: category?.id ?? null,
+      categoryName: category?.name ?? null,
+      nomineeId: nominee?.id ?? null,
+      nomineeName: nominee?.name ?? null,
+    };
+
+    if (!category) return { ...located, status: 'unknown_category' };
+    if (!nominee) return { ...located, status: 'unknown_nominee' };
+    if (!parsed) return { ...located, status: 'invalid_odds' };
+    return located;
+  });
+}
+
+export interface OddsBook {
+  categoryId: string;
+  categoryName: string;
+  lines: number;
+  overround: number;      // Before de-vig: 0.18 = 118% book
+}
+
+/**
+ * De-vig a preview's matched rows, one book per category
+ *
+ * Only the last line for a nominee counts, as on commit.
+ */
+export function devigPreview(
+  rows: OddsPreviewRow[],
+  method: DevigMethod
+): { rows: OddsPreviewRow[]; books: OddsBook[] } {
+  const latest = new Map<string, OddsPreviewRow>();
+  for (const row of rows) {
+    if (row.status === 'matched') latest.set(row.nomineeId!, row);
+  }
+
+  const byCategory = new Map<string, OddsPreviewRow[]>();
+  for (const row of latest.values()) {
+    const lines = byCategory.get(row.categoryId!) ?? [];
+    lines.push(row);
+    byCategory.set(row.categoryId!, lines);
+  }
+
+  const fair = new Map<number, { fairProbability: number; devigMethod: DevigMethod | null }>();
+  const books = [...byCategory.values()].map((lines) => {
+    const implied = lines.map((r) => r.probability!);
+    const devigged = devig(implied, method);
+    const applied = method !== 'none' && devigged.some((p, i) => p !== implied[i]);
+    devigged.forEach((p, i) => fair.set(lines[i].line, { fairProbability: p, devigMethod: applied ? method : null }));
+    return {
+      categoryId: lines[0].categoryId!,
+      categoryName: lines[0].categoryName!,
+      lines: lines.length,
+      overround: overround(implied),
+    };
+  });
+
+  return {
+    rows: rows.map((r) => ({ ...r, ...fair.get(r.line) })),
+    books,
+  };
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * A blank sheet listing a show's nominees, with the source's format in
+ * the header
+ */
+export function oddsTemplateCsv(format: OddsFormat, categories: EntryCategory[]): string {
+  const lines = [`category,nominee,${format}`];
+  for (const category of categories) {
+    for (const nominee of category.nominees) {
+      lines.push(`${csvField(category.name)},${csvField(nominee.name)},`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export interface OddsEntryRequest {
+  showId: string;
+  source: OddsSource;
+  text: string;
+  format: OddsFormat;
+  devigMethod: DevigMethod;
+  categoryId: string | null;
+  overrides: NomineeOverrides;
+  url: string | null;
+}
+
+/**
+ * Validate an odds preview or commit request body
+ */
+export function parseOddsEntryRequest(raw: unknown): ParseResult<OddsEntryRequest> {
+  const input = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+  if (!input) return { error: 'body must be an object' };
+
+  if (typeof input.showId !== 'string' || !input.showId) return { error: 'showId is required' };
+
+  const source = input.source as OddsSource;
+  const sourceConfig = MANUAL_ODDS_SOURCES[source];
+  if (!sourceConfig) {
+    return { error: `source must be one of ${Object.keys(MANUAL_ODDS_SOURCES).join(', ')}` };
+  }
+
+  if (typeof input.text !== 'string' || !input.text.trim()) return { error: 'text is required' };
+
+  const format = (input.format ?? sourceConfig.format) as OddsFormat;
+  if (!ODDS_FORMATS.includes(format)) return { error: `format must be one of ${ODDS_FORMATS.join(', ')}` };
+
+  const devigMethod = (input.devigMethod ?? sourceConfig.devig) as DevigMethod;
+  if (!DEVIG_METHODS.includes(devigMethod)) return { error: `devigMethod must be one of ${DEVIG_METHODS.join(', ')}` };
+
+  const categoryId = input.categoryId ?? null;
+  if (categoryId !== null && typeof categoryId !== 'string') return { error: 'categoryId must be a string' };
+
+  const overrides = input.overrides ?? {};
+  if (
+    typeof overrides !== 'object' || Array.isArray(overrides) ||
+    !Object.values(overrides as object).every((v) => v === null || typeof v === 'string')
+  ) {
+    return { error: 'overrides must map line numbers to a nominee id or null' };
+  }
+
+  const url = typeof input.url === 'string' && input.url.trim() ? input.url.trim() : null;
+  if (url && !/^https?:\/\/\S+$/i.test(url)) return { error: 'url must be an http(s) URL' };
+
+  return {
+    value: {
+      showId: input.showId,
+      source,
+      text: input.text,
+      format,
+      devigMethod,
+      categoryId: categoryId || null,
+      overrides: overrides as NomineeOverrides,
+      url,
+    },
+  };
+}
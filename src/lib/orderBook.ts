@@ -0,0 +1,195 @@
+/**
+ * Order Book
+ *
+ * Pure helpers for Polymarket CLOB order books: parsing bid/ask ladders,
+ * walking them to find the average price a stake actually executes at, and
+ * re-computing edge against that executable price instead of the midpoint.
+ *
+ * Books are for an outcome's Yes token. Buying Yes lifts the asks; buying No
+ * is equivalent to selling Yes, so it hits the bids at (1 - bid) per share.
+ */
+
+import { classifySignal, Signal, SignalStrength } from './edgeCalculator';
+import { PositionSide } from './paperTrading';
+
+// Stake used to judge whether an edge survives slippage
+export const DEFAULT_REFERENCE_STAKE = 200;
+
+export interface BookLevel {
+  price: number; // 0-1
+  size: number;  // Shares
+}
+
+export interface OrderBook {
+  bids: BookLevel[]; // Highest price first
+  asks: BookLevel[]; // Lowest price first
+}
+
+export interface RawOrderBook {
+  bids?: Array<{ price: string | number; size: string | number }>;
+  asks?: Array<{ price: string | number; size: string | number }>;
+}
+
+export interface BookSummary {
+  bestBid: number | null;
+  bestAsk: number | null;
+  midpoint: number | null;
+  spread: number | null;
+  bidDepth: number; // USD resting on the bid side
+  askDepth: number; // USD resting on the ask side
+}
+
+export interface Fill {
+  side: PositionSide;
+  requestedStake: number;
+  filledStake: number;
+  shares: number;
+  bestPrice: number;    // Price per share of the first level taken
+  averagePrice: number; // Volume-weighted price per share paid
+  worstPrice: number;   // Price per share of the last level taken
+  fullyFilled: boolean;
+}
+
+export interface ExecutableEdge {
+  side: PositionSide;
+  referenceStake: number;
+  filledStake: number;
+  fullyFilled: boolean;
+  executablePrice: number;  // Yes-equivalent average price (0-1)
+  edgePercent: number;      // Model minus executable price, in points
+  slippagePercent: number;  // Points of edge lost to spread and depth vs the midpoint
+}
+
+function round(value: number, decimals: number = 4): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function parseLevels(levels: RawOrderBook['bids']): BookLevel[] {
+  return (levels ?? [])
+    .map((l) => ({ price: Number(l.price), size: Number(l.size) }))
+    .filter((l) => Number.isFinite(l.price) && Number.isFinite(l.size) && l.size > 0 && l.price > 0 && l.price < 1);
+}
+
+/**
+ * Parse a CLOB /book response into sorted ladders
+ */
+export function parseOrderBook(raw: RawOrderBook): OrderBook {
+  return {
+    bids: parseLevels(raw.bids).sort((a, b) => b.price - a.price),
+    asks: parseLevels(raw.asks).sort((a, b) => a.price - b.price),
+  };
+}
+
+/**
+ * Top-of-book prices and total depth on each side
+ */
+export function summariseOrderBook(book: OrderBook): BookSummary {
+  const bestBid = book.bids[0]?.price ?? null;
+  const bestAsk = book.asks[0]?.price ?? null;
+
+  return {
+    bestBid,
+    bestAsk,
+    midpoint: bestBid !== null && bestAsk !== null ? round((bestBid + bestAsk) / 2) : null,
+    spread: bestBid !== null && bestAsk !== null ? round(bestAsk - bestBid) : null,
+    bidDepth: round(book.bids.reduce((sum, l) => sum + l.price * l.size, 0), 2),
+    askDepth: round(book.asks.reduce((sum, l) => sum + l.price * l.size, 0), 2),
+  };
+}
+
+/**
+ * Walk the book to spend `stake` dollars on one side
+ *
+ * Returns null when that side of the book is empty.
+ */
+export function fillStake(book: OrderBook, side: PositionSide, stake: number): Fill | null {
+  // Price per share for the side being bought at each level
+  const levels = side === 'YES'
+    ? book.asks.map((l) => ({ price: l.price, size: l.size }))
+    : book.bids.map((l) => ({ price: 1 - l.price, size: l.size }));
+
+  if (levels.length === 0) return null;
+
+  let remaining = stake;
+  let shares = 0;
+  let worstPrice = levels[0].price;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+
+    const levelCost = level.price * level.size;
+    const spend = Math.min(remaining, levelCost);
+    shares += spend / level.price;
+    remaining -= spend;
+    worstPrice = level.price;
+  }
+
+  const filledStake = stake - remaining;
+
+  return {
+    side,
+    requestedStake: stake,
+    filledStake: round(filledStake, 2),
+    shares: round(shares, 2),
+    bestPrice: levels[0].price,
+    averagePrice: shares > 0 ? round(filledStake / shares) : levels[0].price,
+    worstPrice,
+    fullyFilled: remaining <= 0.005,
+  };
+}
+
+/**
+ * Edge against the price a stake would actually execute at
+ *
+ * The side follows the model vs the midpoint (Yes if the model is higher).
+ * Returns null when the book has no liquidity on that side.
+ */
+export function calculateExecutableEdge(
+  modelProbability: number,
+  midPrice: number,
+  book: OrderBook,
+  stake: number = DEFAULT_REFERENCE_STAKE
+): ExecutableEdge | null {
+  const side: PositionSide = modelProbability >= midPrice ? 'YES' : 'NO';
+  const fill = fillStake(book, side, stake);
+  if (!fill) return null;
+
+  const executablePrice = side === 'YES' ? fill.averagePrice : 1 - fill.averagePrice;
+  const edgePercent = (modelProbability - executablePrice) * 100;
+  const midEdgePercent = (modelProbability - midPrice) * 100;
+
+  return {
+    side,
+    referenceStake: stake,
+    filledStake: fill.filledStake,
+    fullyFilled: fill.fullyFilled,
+    executablePrice: round(executablePrice),
+    edgePercent: round(edgePercent, 2),
+    slippagePercent: round(Math.abs(midEdgePercent) - (side === 'YES' ? edgePercent : -edgePercent), 2),
+  };
+}
+
+/**
+ * BUY/HOLD/AVOID signal using the executable edge when a book is available
+ *
+ * An edge that flips sign or drops under the HOLD threshold once the
+ * reference stake is walked through the book is a HOLD, and a book too thin
+ * to fill the reference stake at all can only be a weak signal.
+ */
+export function classifyExecutableSignal(
+  midEdgePercent: number | null,
+  execution: ExecutableEdge | null,
+  hasMarket: boolean
+): { signal: Signal; strength: SignalStrength } {
+  if (!execution) return classifySignal(midEdgePercent, hasMarket);
+
+  const expected: Signal = execution.side === 'YES' ? 'BUY' : 'AVOID';
+  const result = classifySignal(execution.edgePercent, hasMarket);
+
+  if (result.signal !== expected) {
+    return { signal: 'HOLD', strength: 'weak' };
+  }
+
+  return execution.fullyFilled ? result : { signal: result.signal, strength: 'weak' };
+}
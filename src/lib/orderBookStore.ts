@@ -0,0 +1,42 @@
+/**
+ * Order Book Store
+ *
+ * Reads the most recent stored CLOB order book per market outcome, for the
+ * routes that compute slippage-aware edges.
+ */
+
+import prisma from './prisma';
+import { OrderBook } from './orderBook';
+
+// Books older than this are treated as missing rather than trusted
+const MAX_BOOK_AGE_MS = 2 * 60 * 60 * 1000;
+
+export function orderBookKey(marketSlug: string, outcomeName: string): string {
+  return `${marketSlug}:${outcomeName.toLowerCase()}`;
+}
+
+/**
+ * Latest fresh order book for each outcome of the given markets
+ *
+ * Keyed by orderBookKey(marketSlug, outcomeName).
+ */
+export async function getLatestOrderBooks(marketSlugs: string[]): Promise<Map<string, OrderBook>> {
+  const books = new Map<string, OrderBook>();
+  if (marketSlugs.length === 0) return books;
+
+  const snapshots = await prisma.orderBookSnapshot.findMany({
+    where: {
+      marketSlug: { in: marketSlugs },
+      timestamp: { gte: new Date(Date.now() - MAX_BOOK_AGE_MS) },
+    },
+    orderBy: { timestamp: 'desc' },
+    distinct: ['marketSlug', 'outcomeName'],
+    select: { marketSlug: true, outcomeName: true, bids: true, asks: true },
+  });
+
+  for (const s of snapshots as Array<{ marketSlug: string; outcomeName: string; bids: OrderBook['bids']; asks: OrderBook['asks'] }>) {
+    books.set(orderBookKey(s.marketSlug, s.outcomeName), { bids: s.bids, asks: s.asks });
+  }
+
+  return books;
+}
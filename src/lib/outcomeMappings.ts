@@ -0,0 +1,147 @@
+/**
+ * Outcome Mapping Review Queue
+ *
+ * Polymarket outcomes that only fuzzy-matched a Title, or for which the
+ * sync job had to create a new Title, are queued here for an admin to
+ * confirm or remap. Decisions are keyed by outcomeMatchKey so the same
+ * outcome string is never guessed again, and confirmed mappings take
+ * precedence over name matching in buildTitleCache.
+ */
+
+import type { OutcomeMappingReason, OutcomeMappingStatus, TitleType } from '@prisma/client';
+import prisma from './prisma';
+import { outcomeMatchKey, ConfirmedOutcomeMapping } from './titleMatcher';
+import { mergeAliases } from './titleNormalize';
+import { mergeTitles } from './titleMerge';
+
+export interface OutcomeMappingRecord {
+  id: string;
+  outcomeKey: string;
+  outcomeName: string;
+  titleType: TitleType;
+  reason: OutcomeMappingReason;
+  status: OutcomeMappingStatus;
+  suggestedTitleId: string | null;
+  titleId: string | null;
+  marketSlug: string | null;
+  seenCount: number;
+  lastSeenAt: Date;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface QueueOutcomeInput {
+  outcomeName: string;
+  titleType: TitleType;
+  reason: OutcomeMappingReason;
+  suggestedTitleId: string | null;
+  marketSlug?: string;
+}
+
+export interface ReviewOutcomeInput {
+  titleId?: string;    // Remap to this title instead of the suggestion
+  addAlias?: boolean;  // Also add the outcome name to the title's aliases
+}
+
+export type ReviewOutcomeResult =
+  | { mapping: OutcomeMappingRecord; mergedAuditId: string | null; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * All confirmed outcome → title decisions, for buildTitleCache
+ */
+export async function getConfirmedOutcomeMappings(): Promise<ConfirmedOutcomeMapping[]> {
+  return prisma.outcomeTitleMapping.findMany({
+    where: { status: 'CONFIRMED' },
+    select: { outcomeKey: true, titleId: true },
+  }) as Promise<ConfirmedOutcomeMapping[]>;
+}
+
+/**
+ * Every stored decision (pending or confirmed), keyed by outcome key
+ */
+export async function getOutcomeMappingsByKey(): Promise<Map<string, OutcomeMappingRecord>> {
+  const mappings = await prisma.outcomeTitleMapping.findMany() as OutcomeMappingRecord[];
+  return new Map(mappings.map((m) => [m.outcomeKey, m]));
+}
+
+/**
+ * Queue an outcome for review. An outcome already in the queue (or already
+ * decided) keeps its entry; only its sighting count is bumped.
+ */
+export async function queueOutcomeForReview(input: QueueOutcomeInput): Promise<OutcomeMappingRecord> {
+  return prisma.outcomeTitleMapping.upsert({
+    where: { outcomeKey: outcomeMatchKey(input.outcomeName) },
+    update: { seenCount: { increment: 1 }, lastSeenAt: new Date() },
+    create: {
+      outcomeKey: outcomeMatchKey(input.outcomeName),
+      outcomeName: input.outcomeName,
+      titleType: input.titleType,
+      reason: input.reason,
+      suggestedTitleId: input.suggestedTitleId,
+      marketSlug: input.marketSlug ?? null,
+    },
+  }) as Promise<OutcomeMappingRecord>;
+}
+
+/**
+ * Resolve a queued outcome. Without a titleId the suggestion is confirmed.
+ * Remapping an auto-created title merges it into the chosen one, so the
+ * market links and external IDs it picked up move across.
+ */
+export async function reviewOutcomeMapping(
+  id: string,
+  input: ReviewOutcomeInput,
+  reviewedBy: string
+): Promise<ReviewOutcomeResult> {
+  const mapping = await prisma.outcomeTitleMapping.findUnique({ where: { id } }) as OutcomeMappingRecord | null;
+  if (!mapping) {
+    return { error: 'Outcome mapping not found', status: 404 };
+  }
+
+  const titleId = input.titleId || mapping.suggestedTitleId;
+  if (!titleId) {
+    return { error: 'No title suggested; choose a title to map to', status: 400 };
+  }
+
+  const title = await prisma.title.findUnique({
+    where: { id: titleId },
+    select: { id: true, canonicalName: true },
+  }) as { id: string; canonicalName: string } | null;
+  if (!title) {
+    return { error: 'Title not found', status: 404 };
+  }
+
+  let mergedAuditId: string | null = null;
+  if (mapping.reason === 'AUTO_CREATED' && mapping.suggestedTitleId && mapping.suggestedTitleId !== titleId) {
+    const created = await prisma.title.findUnique({ where: { id: mapping.suggestedTitleId }, select: { id: true } });
+    if (created) {
+      const merged = await mergeTitles(titleId, mapping.suggestedTitleId, reviewedBy);
+      if (merged.error !== undefined) return merged;
+      mergedAuditId = merged.auditId;
+    }
+  }
+
+  if (input.addAlias && outcomeMatchKey(title.canonicalName) !== mapping.outcomeKey) {
+    // Re-read aliases, which a merge above may have extended
+    const current = await prisma.title.findUnique({ where: { id: titleId }, select: { aliases: true } }) as { aliases: unknown };
+    const aliases = Array.isArray(current.aliases) ? current.aliases as string[] : [];
+    await prisma.title.update({
+      where: { id: titleId },
+      data: { aliases: mergeAliases(aliases, mapping.outcomeName) },
+    });
+  }
+
+  const updated = await prisma.outcomeTitleMapping.update({
+    where: { id },
+    data: {
+      status: 'CONFIRMED',
+      titleId,
+      reviewedBy,
+      reviewedAt: new Date(),
+    },
+  }) as OutcomeMappingRecord;
+
+  return { mapping: updated, mergedAuditId };
+}
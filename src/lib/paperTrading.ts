@@ -0,0 +1,201 @@
+/**
+ * Paper Trading
+ *
+ * Pure sizing and settlement logic for simulated portfolios that follow the
+ * BUY/AVOID signals from our market probabilities. A BUY buys YES shares at
+ * the market price; an AVOID buys NO shares at (1 - price). Shares pay 1 on
+ * a win and 0 otherwise. Kept free of Prisma so it can be unit tested.
+ */
+
+export type SizingRule = 'FLAT' | 'KELLY' | 'EDGE_PROPORTIONAL';
+export type PositionSide = 'YES' | 'NO';
+
+export interface PortfolioSettings {
+  flatStake: number;         // FLAT: dollars per signal
+  kellyFraction: number;     // KELLY: share of full Kelly to bet (0.25 = quarter Kelly)
+  edgeStakePerPoint: number; // EDGE_PROPORTIONAL: dollars per point of edge
+  maxPositionPct: number;    // Cap on any one position as a share of bankroll
+  minEdge: number;           // Minimum |edge| in points before a signal is traded
+}
+
+export const DEFAULT_PORTFOLIO_SETTINGS: PortfolioSettings = {
+  flatStake: 100,
+  kellyFraction: 0.25,
+  edgeStakePerPoint: 10,
+  maxPositionPct: 0.1,
+  minEdge: 10,
+};
+
+// Stakes below this are not worth recording
+const MIN_STAKE = 1;
+
+export interface SideQuote {
+  side: PositionSide;
+  price: number;          // Price per share of the side held (0-1)
+  winProbability: number; // Model probability that the side pays out (0-1)
+}
+
+export interface SettlementResult {
+  won: boolean;
+  payout: number;
+  pnl: number;
+}
+
+export interface PortfolioSummary {
+  equity: number;        // Cash plus open positions at cost
+  openExposure: number;  // Stake tied up in open positions
+  realizedPnl: number;
+  returnPct: number;     // Realized P&L as a share of starting balance (%)
+  openPositions: number;
+  settledPositions: number;
+  winRate: number | null; // Share of settled positions that paid out (0-1)
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  realizedPnl: number;
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Merge stored settings over the defaults, ignoring anything malformed
+ */
+export function resolveSettings(raw: unknown): PortfolioSettings {
+  const settings = { ...DEFAULT_PORTFOLIO_SETTINGS };
+  if (!raw || typeof raw !== 'object') return settings;
+
+  for (const key of Object.keys(settings) as (keyof PortfolioSettings)[]) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      settings[key] = value;
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Full Kelly fraction for a binary share bought at `price` that pays 1
+ *
+ * f* = (q - p) / (1 - p). Zero when there's no edge.
+ */
+export function kellyFraction(winProbability: number, price: number): number {
+  if (price <= 0 || price >= 1) return 0;
+  return Math.max(0, (winProbability - price) / (1 - price));
+}
+
+/**
+ * Which side a signal trades, with the price and win probability for that side
+ */
+export function quoteSide(
+  signal: 'BUY' | 'AVOID',
+  marketProbability: number,
+  modelProbability: number
+): SideQuote {
+  if (signal === 'BUY') {
+    return { side: 'YES', price: marketProbability, winProbability: modelProbability };
+  }
+  return { side: 'NO', price: 1 - marketProbability, winProbability: 1 - modelProbability };
+}
+
+/**
+ * Stake for a new position under a portfolio's sizing rule
+ *
+ * Capped at maxPositionPct of bankroll and at available cash. Returns 0 when
+ * the stake would be too small to record.
+ */
+export function calculateStake(
+  rule: SizingRule,
+  settings: PortfolioSettings,
+  params: { bankroll: number; cash: number; quote: SideQuote; edgePercent: number }
+): number {
+  const { bankroll, cash, quote, edgePercent } = params;
+
+  let stake: number;
+  switch (rule) {
+    case 'KELLY':
+      stake = bankroll * settings.kellyFraction * kellyFraction(quote.winProbability, quote.price);
+      break;
+    case 'EDGE_PROPORTIONAL':
+      stake = Math.abs(edgePercent) * settings.edgeStakePerPoint;
+      break;
+    case 'FLAT':
+    default:
+      stake = settings.flatStake;
+  }
+
+  stake = Math.min(stake, bankroll * settings.maxPositionPct, cash);
+  return stake >= MIN_STAKE ? round(stake) : 0;
+}
+
+/**
+ * Settle a position once its market resolves
+ *
+ * YES pays out if the outcome won; NO pays out if any other outcome won.
+ */
+export function settlePosition(
+  position: { side: PositionSide; outcomeName: string; shares: number; stake: number },
+  winningOutcome: string
+): SettlementResult {
+  const outcomeWon = position.outcomeName.trim().toLowerCase() === winningOutcome.trim().toLowerCase();
+  const won = position.side === 'YES' ? outcomeWon : !outcomeWon;
+  const payout = won ? round(position.shares) : 0;
+
+  return { won, payout, pnl: round(payout - position.stake) };
+}
+
+/**
+ * Headline stats for a portfolio from its positions
+ */
+export function summarisePortfolio(
+  startingBalance: number,
+  cashBalance: number,
+  positions: Array<{ status: 'OPEN' | 'SETTLED'; stake: number; pnl: number | null }>
+): PortfolioSummary {
+  const open = positions.filter((p) => p.status === 'OPEN');
+  const settled = positions.filter((p) => p.status === 'SETTLED');
+
+  const openExposure = open.reduce((sum, p) => sum + p.stake, 0);
+  const realizedPnl = settled.reduce((sum, p) => sum + (p.pnl ?? 0), 0);
+  const wins = settled.filter((p) => (p.pnl ?? 0) > 0).length;
+
+  return {
+    equity: round(cashBalance + openExposure),
+    openExposure: round(openExposure),
+    realizedPnl: round(realizedPnl),
+    returnPct: startingBalance > 0 ? round((realizedPnl / startingBalance) * 100) : 0,
+    openPositions: open.length,
+    settledPositions: settled.length,
+    winRate: settled.length > 0 ? round(wins / settled.length, 4) : null,
+  };
+}
+
+/**
+ * Equity curve from realized P&L, one point per settlement
+ */
+export function buildEquityCurve(
+  startingBalance: number,
+  settled: Array<{ settledAt: Date; pnl: number }>,
+  startedAt: Date
+): EquityPoint[] {
+  const points: EquityPoint[] = [
+    { date: startedAt.toISOString(), equity: round(startingBalance), realizedPnl: 0 },
+  ];
+
+  let realized = 0;
+  for (const position of [...settled].sort((a, b) => a.settledAt.getTime() - b.settledAt.getTime())) {
+    realized += position.pnl;
+    points.push({
+      date: position.settledAt.toISOString(),
+      equity: round(startingBalance + realized),
+      realizedPnl: round(realized),
+    });
+  }
+
+  return points;
+}
@@ -0,0 +1,48 @@
+/**
+ * Point-in-Time Filters
+ *
+ * Where-clause fragments that limit each source to what was known at an
+ * as-of date, so a forecast can be regenerated exactly as it would have
+ * been then. Rows are filtered on the date their data describes rather
+ * than createdAt: history backfilled later was still public at the time.
+ *
+ * - Netflix Top 10: a Monday–Sunday week is published the Tuesday after
+ * - DailySignal / FlixPatrolDaily: the day the value was observed
+ * - Forecasts and seasons: when the row was written
+ *
+ * Every helper returns {} without an asOf, leaving live queries unchanged.
+ * Pure functions only, so the cutoffs can be unit tested without Prisma.
+ */
+
+// Netflix publishes a week's Top 10 on the Tuesday after the week ends
+export const NETFLIX_PUBLISH_LAG_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Latest Netflix weekEnd that had been published by asOf
+ */
+export function netflixPublishedThrough(asOf: Date): Date {
+  return new Date(asOf.getTime() - NETFLIX_PUBLISH_LAG_DAYS * DAY_MS);
+}
+
+/**
+ * NetflixWeeklyGlobal / US / Country rows published by asOf
+ */
+export function netflixKnownAt(asOf?: Date): { weekEnd?: { lte: Date } } {
+  return asOf ? { weekEnd: { lte: netflixPublishedThrough(asOf) } } : {};
+}
+
+/**
+ * DailySignal / FlixPatrolDaily rows observed on or before asOf
+ */
+export function observedBy(asOf?: Date): { date?: { lte: Date } } {
+  return asOf ? { date: { lte: asOf } } : {};
+}
+
+/**
+ * Rows written on or before asOf (forecasts, seasons)
+ */
+export function writtenBy(asOf?: Date): { createdAt?: { lte: Date } } {
+  return asOf ? { createdAt: { lte: asOf } } : {};
+}
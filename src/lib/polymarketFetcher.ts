@@ -5,6 +5,10 @@
  * Used by both the API route and the opportunities API to avoid internal HTTP calls.
  */
 
+import { RawOrderBook } from './orderBook';
+
+export const CLOB_API_BASE = 'https://clob.polymarket.com';
+
 // Known Netflix market slug patterns - the number suffix changes weekly
 // US markets = US-only content, Global markets = ALL content (including US)
 const MARKET_PATTERNS = [
@@ -42,6 +46,7 @@ interface PolymarketMarket {
   volume: string;
   volumeNum: number;
   active: boolean;
+  clobTokenIds?: string; // JSON array: [yesTokenId, noTokenId]
 }
 
 interface PolymarketEvent {
@@ -314,3 +319,86 @@ export async function fetchPolymarketMarketsByCategory(category: string): Promis
 
   return markets;
 }
+
+export interface MarketResolution {
+  closed: boolean;
+  winner: string | null; // groupItemTitle of the outcome that paid out, once settled
+}
+
+/**
+ * Look up whether a weekly Netflix market has resolved, and to which outcome
+ *
+ * A closed event is only treated as settled once one outcome's Yes price has
+ * gone to ~1; until then winner is null.
+ */
+export async function fetchMarketResolution(slug: string): Promise<MarketResolution | null> {
+  const event = await fetchEventBySlug(slug);
+
+  if (!event) return null;
+  if (!event.closed) return { closed: false, winner: null };
+
+  for (const market of event.markets) {
+    try {
+      const prices = JSON.parse(market.outcomePrices || '[]');
+      const yesPrice = parseFloat(prices[0]) || 0;
+
+      if (yesPrice >= 0.99) {
+        return { closed: true, winner: market.groupItemTitle || null };
+      }
+    } catch {
+      // Skip malformed data
+    }
+  }
+
+  return { closed: true, winner: null };
+}
+
+export interface OutcomeToken {
+  name: string;
+  tokenId: string; // CLOB token for the outcome's Yes side
+}
+
+/**
+ * CLOB Yes-token IDs for each active outcome of a weekly market
+ */
+export async function fetchOutcomeTokens(slug: string): Promise<OutcomeToken[] | null> {
+  const event = await fetchEventBySlug(slug);
+
+  if (!event) return null;
+
+  const tokens: OutcomeToken[] = [];
+  for (const market of event.markets) {
+    if (!market.active || !market.groupItemTitle) continue;
+
+    try {
+      const tokenIds = JSON.parse(market.clobTokenIds || '[]');
+      if (tokenIds[0]) {
+        tokens.push({ name: market.groupItemTitle, tokenId: String(tokenIds[0]) });
+      }
+    } catch {
+      // Skip malformed data
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Fetch the current order book for a CLOB token
+ */
+export async function fetchOrderBook(tokenId: string): Promise<RawOrderBook | null> {
+  try {
+    const response = await fetch(
+      `${CLOB_API_BASE}/book?token_id=${encodeURIComponent(tokenId)}`,
+      {
+        headers: { 'Accept': 'application/json' },
+      }
+    );
+
+    if (!response.ok) return null;
+
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Position Sizing
+ *
+ * Turns an edge into a stake: how much of a bankroll to put on each outcome
+ * of a weekly market, what that's expected to return, and the most it can
+ * lose. Stakes are fractional Kelly.
+ *
+ * Outcomes in one weekly market are mutually exclusive (only one title can be
+ * #1), so YES stakes across a market are sized jointly rather than as
+ * independent bets: at most one of them can pay out, and the losing stakes
+ * on the others are part of every winning scenario.
+ *
+ * Probabilities and prices are 0-1. Pure functions only.
+ */
+
+import { kellyFraction, PositionSide } from './paperTrading';
+
+export interface SizingParams {
+  bankroll: number;     // Dollars available to trade
+  riskFraction: number; // Share of full Kelly to stake (0.25 = quarter Kelly)
+}
+
+export const DEFAULT_SIZING_PARAMS: SizingParams = {
+  bankroll: 1000,
+  riskFraction: 0.25,
+};
+
+/**
+ * Sizing params from stored settings, keeping only a finite positive
+ * bankroll and a risk fraction in (0, 1]; anything else falls back to
+ * the default
+ */
+export function parseSizingParams(raw: unknown): SizingParams {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const { bankroll, riskFraction } = value;
+  return {
+    bankroll:
+      typeof bankroll === 'number' && Number.isFinite(bankroll) && bankroll > 0
+        ? bankroll
+        : DEFAULT_SIZING_PARAMS.bankroll,
+    riskFraction:
+      typeof riskFraction === 'number' && Number.isFinite(riskFraction) && riskFraction > 0 && riskFraction <= 1
+        ? riskFraction
+        : DEFAULT_SIZING_PARAMS.riskFraction,
+  };
+}
+
+// Recommendations below this are shown as "no bet"
+const MIN_STAKE = 1;
+
+export interface OutcomeQuote {
+  name: string;
+  side: PositionSide;       // YES for BUY signals, NO for AVOID signals
+  modelProbability: number; // Model probability the outcome wins
+  marketPrice: number;      // YES price for the outcome
+}
+
+export interface StakeRecommendation {
+  name: string;
+  side: PositionSide;
+  price: number;         // Price per share of the side held
+  kellyFraction: number; // Full-Kelly share of bankroll, before riskFraction
+  stake: number;         // Dollars to stake (0 = no bet)
+  shares: number;
+  expectedValue: number; // Expected profit in dollars
+  maxProfit: number;     // Profit if this position pays out
+  maxLoss: number;       // Loss if it doesn't (the stake)
+}
+
+export interface MarketStakePlan {
+  recommendations: StakeRecommendation[];
+  totalStake: number;
+  expectedValue: number; // Expected profit across all positions
+  worstCaseLoss: number; // Largest loss over every possible winner (>= 0)
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function sidePrice(quote: OutcomeQuote): number {
+  return quote.side === 'YES' ? quote.marketPrice : 1 - quote.marketPrice;
+}
+
+function sideWinProbability(quote: OutcomeQuote): number {
+  return quote.side === 'YES' ? quote.modelProbability : 1 - quote.modelProbability;
+}
+
+function buildRecommendation(quote: OutcomeQuote, fullKelly: number, params: SizingParams): StakeRecommendation {
+  const price = sidePrice(quote);
+  const rawStake = params.bankroll * params.riskFraction * fullKelly;
+  const stake = rawStake >= MIN_STAKE && price > 0 ? round(rawStake) : 0;
+  const shares = stake > 0 ? stake / price : 0;
+
+  return {
+    name: quote.name,
+    side: quote.side,
+    price,
+    kellyFraction: round(fullKelly, 4),
+    stake,
+    shares: round(shares),
+    expectedValue: round(shares * sideWinProbability(quote) - stake),
+    maxProfit: round(shares - stake),
+    maxLoss: stake,
+  };
+}
+
+/**
+ * Size a single outcome as a standalone binary bet
+ */
+export function sizeOutcome(quote: OutcomeQuote, params: SizingParams = DEFAULT_SIZING_PARAMS): StakeRecommendation {
+  return buildRecommendation(quote, kellyFraction(sideWinProbability(quote), sidePrice(quote)), params);
+}
+
+/**
+ * Joint full-Kelly fractions for YES bets on mutually exclusive outcomes
+ *
+ * Standard multi-outcome Kelly: rank outcomes by model/price ratio and add
+ * them while the ratio beats the reserve rate R = (1 - Σq) / (1 - Σp) of the
+ * outcomes already chosen. Each chosen outcome then gets q - p·R. For a
+ * single outcome this reduces to the binary (q - p) / (1 - p).
+ */
+export function exclusiveKellyFractions(
+  outcomes: Array<{ name: string; modelProbability: number; marketPrice: number }>
+): Map<string, number> {
+  const candidates = outcomes
+    .filter((o) => o.marketPrice > 0 && o.marketPrice < 1 && o.modelProbability > o.marketPrice)
+    .sort((a, b) => b.modelProbability / b.marketPrice - a.modelProbability / a.marketPrice);
+
+  const chosen: typeof candidates = [];
+  let sumQ = 0;
+  let sumP = 0;
+  let reserveRate = 1;
+
+  for (const outcome of candidates) {
+    if (outcome.modelProbability / outcome.marketPrice <= reserveRate) break;
+    if (sumP + outcome.marketPrice >= 1) break;
+
+    chosen.push(outcome);
+    sumQ += outcome.modelProbability;
+    sumP += outcome.marketPrice;
+    reserveRate = Math.max(0, (1 - sumQ) / (1 - sumP));
+  }
+
+  return new Map(
+    chosen.map((o) => [o.name, Math.max(0, o.modelProbability - o.marketPrice * reserveRate)])
+  );
+}
+
+/**
+ * Profit in each winner scenario: each listed outcome, plus "none of them"
+ */
+function scenarioProfits(recommendations: StakeRecommendation[], quotes: OutcomeQuote[]): Array<{ probability: number; profit: number }> {
+  const totalStake = recommendations.reduce((sum, r) => sum + r.stake, 0);
+  const payoutIfWinner = (winner: string | null) =>
+    recommendations.reduce((sum, r) => {
+      const outcomeWon = r.name === winner;
+      const paysOut = r.side === 'YES' ? outcomeWon : !outcomeWon;
+      return sum + (paysOut ? r.shares : 0);
+    }, 0);
+
+  const scenarios = quotes.map((q) => ({
+    probability: q.modelProbability,
+    profit: payoutIfWinner(q.name) - totalStake,
+  }));
+
+  const listedProbability = quotes.reduce((sum, q) => sum + q.modelProbability, 0);
+  scenarios.push({
+    probability: Math.max(0, 1 - listedProbability),
+    profit: payoutIfWinner(null) - totalStake,
+  });
+
+  return scenarios;
+}
+
+/**
+ * Size every signalled outcome in one market together
+ *
+ * YES stakes come from exclusiveKellyFractions; NO stakes are sized as
+ * binary Kelly bets. If the combined stake would exceed riskFraction of the
+ * bankroll, every stake is scaled down proportionally. Expected value and
+ * worst-case loss are computed across every possible winner, so offsetting
+ * YES and NO positions are netted correctly.
+ */
+export function sizeMarket(quotes: OutcomeQuote[], params: SizingParams = DEFAULT_SIZING_PARAMS): MarketStakePlan {
+  const yesFractions = exclusiveKellyFractions(quotes.filter((q) => q.side === 'YES'));
+
+  const fractions = quotes.map((q) =>
+    q.side === 'YES'
+      ? yesFractions.get(q.name) ?? 0
+      : kellyFraction(sideWinProbability(q), sidePrice(q))
+  );
+
+  const totalFraction = fractions.reduce((sum, f) => sum + f, 0);
+  const scale = totalFraction > 1 ? 1 / totalFraction : 1;
+
+  const recommendations = quotes.map((q, i) => buildRecommendation(q, fractions[i] * scale, params));
+  const scenarios = scenarioProfits(recommendations, quotes);
+
+  return {
+    recommendations,
+    totalStake: round(recommendations.reduce((sum, r) => sum + r.stake, 0)),
+    expectedValue: round(scenarios.reduce((sum, s) => sum + s.probability * s.profit, 0)),
+    worstCaseLoss: round(Math.max(0, -Math.min(...scenarios.map((s) => s.profit)))),
+  };
+}
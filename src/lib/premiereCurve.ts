@@ -0,0 +1,229 @@
+/**
+ * Premiere Curves
+ *
+ * How a new release's audience builds and decays over its first days: the
+ * share of its first CURVE_DAYS days of FlixPatrol points that lands on each
+ * day since release (day 1 is the release day), learned per title type and
+ * genre by the fit-premiere-curves job.
+ *
+ * Netflix weeks run Monday–Sunday, so a Friday drop gets three days in its
+ * premiere week and a second week full of its peak. A week's curve share
+ * against a Monday release's share for the same week gives the factor a
+ * full-week forecast should be scaled by; the Top 10 views gap per rank
+ * turns that factor into ranks.
+ *
+ * Pure functions only, so the curve maths can be unit tested without Prisma.
+ */
+
+import type { TitleType } from '@prisma/client';
+
+export const CURVE_DAYS = 21;
+export const PREMIERE_WEEKS = 3;  // Weeks after release a curve can adjust
+
+// Log-views gap between adjacent Top 10 ranks when none has been fitted
+export const DEFAULT_LOG_VIEWS_PER_RANK = 0.2;
+
+// Releases a genre needs before its own curve is used over the type's
+export const MIN_GENRE_RELEASES = 5;
+
+// Weight of the default shape, in releases, when fitting a curve
+const PRIOR_RELEASES = 3;
+
+// Days a release must chart to be a usable sample
+const MIN_CHARTED_DAYS = 3;
+
+// Largest rank move a premiere adjustment can make
+const MAX_RANK_SHIFT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface PremiereCurveFit {
+  titleType: TitleType;
+  genre: string;                   // "" for every genre of the type
+  dayShares: number[];             // CURVE_DAYS shares, release day first
+  releases: number;                // Releases the curve was fitted on
+  logViewsPerRank: number | null;  // Log-views gap between adjacent Top 10 ranks
+}
+
+// A title's release and the curve that applies to it
+export interface PremiereContext {
+  releaseDate: Date;
+  curve: number[];
+  logViewsPerRank: number;
+  genre: string;  // Genre the curve was fitted for, "" for the type's
+}
+
+/**
+ * Default shape before any releases are fitted: films peak on their first
+ * weekend and fall away, series build over the first few days of binging
+ */
+export function defaultPremiereCurve(titleType: TitleType): number[] {
+  const [shape, scale] = titleType === 'MOVIE' ? [0.5, 3.5] : [1, 4];
+  const weights = Array.from({ length: CURVE_DAYS }, (_, i) => (i + 1) ** shape * Math.exp(-(i + 1) / scale));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map((w) => w / total);
+}
+
+/**
+ * Monday (UTC) of the Netflix week containing a date
+ */
+export function netflixWeekStart(date: Date): Date {
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday;
+}
+
+/**
+ * Days a release has in its premiere week: 7 for a Monday drop, 1 for Sunday
+ */
+export function daysInPremiereWeek(releaseDate: Date): number {
+  return 7 - ((releaseDate.getUTCDay() + 6) % 7);
+}
+
+/**
+ * Weeks between the release's Netflix week and the one a week starting at
+ * weekStart falls in (0 = premiere week). The week is placed by its
+ * midpoint, so Sunday-start forecast weeks map to the Netflix week they
+ * mostly overlap.
+ */
+export function premiereWeekIndex(releaseDate: Date, weekStart: Date): number {
+  const week = netflixWeekStart(new Date(weekStart.getTime() + 3 * DAY_MS));
+  return Math.round((week.getTime() - netflixWeekStart(releaseDate).getTime()) / WEEK_MS);
+}
+
+function curveShare(curve: number[], firstDay: number, lastDay: number): number {
+  let share = 0;
+  for (let day = Math.max(1, firstDay); day <= Math.min(CURVE_DAYS, lastDay); day++) {
+    share += curve[day - 1] ?? 0;
+  }
+  return share;
+}
+
+// Days since release covered by a week, for a release with daysInFirst days in its premiere week
+function weekDays(daysInFirst: number, weekIndex: number): [number, number] {
+  if (weekIndex === 0) return [1, daysInFirst];
+  return [daysInFirst + 7 * (weekIndex - 1) + 1, daysInFirst + 7 * weekIndex];
+}
+
+/**
+ * Factor to scale a full-week forecast by for a week near release: the
+ * week's curve share against a Monday release's share for the same week.
+ * Below 1 for a late-week premiere week, above 1 for the week after it;
+ * 1 outside the first PREMIERE_WEEKS weeks.
+ */
+export function premiereWeekFactor(curve: number[], releaseDate: Date, weekStart: Date): number {
+  const index = premiereWeekIndex(releaseDate, weekStart);
+  if (index < 0 || index >= PREMIERE_WEEKS) return 1;
+
+  const actual = curveShare(curve, ...weekDays(daysInPremiereWeek(releaseDate), index));
+  const full = curveShare(curve, ...weekDays(7, index));
+  return full > 0 && actual > 0 ? actual / full : 1;
+}
+
+/**
+ * Ranks a views factor moves a title by (positive = a worse rank)
+ */
+export function rankShiftForFactor(factor: number, logViewsPerRank: number): number {
+  if (factor <= 0 || factor === 1 || logViewsPerRank <= 0) return 0;
+  const shift = -Math.log(factor) / logViewsPerRank;
+  return Math.max(-MAX_RANK_SHIFT, Math.min(MAX_RANK_SHIFT, shift));
+}
+
+/**
+ * Project points for days since release from the days already observed,
+ * assuming they follow the curve. Null without an observed day inside the
+ * curve to scale it by.
+ *
+ * @param observed - Points by day since release (day 1 = release day)
+ * @param remainingDays - Days since release to project
+ */
+export function projectFromCurve(
+  curve: number[],
+  observed: { day: number; points: number }[],
+  remainingDays: number[]
+): number | null {
+  const inCurve = observed.filter((o) => o.day >= 1 && o.day <= CURVE_DAYS);
+  const observedShare = inCurve.reduce((sum, o) => sum + curve[o.day - 1], 0);
+  if (inCurve.length === 0 || observedShare <= 0) return null;
+
+  const scale = inCurve.reduce((sum, o) => sum + o.points, 0) / observedShare;
+  const tail = curve[CURVE_DAYS - 1];
+  return remainingDays.reduce((sum, day) => {
+    if (day < 1) return sum;
+    return sum + scale * (day <= CURVE_DAYS ? curve[day - 1] : tail);
+  }, 0);
+}
+
+/**
+ * A release's day shares from its daily points (release day first), null
+ * if it charted on too few days to say anything about its shape
+ */
+export function releaseCurveFromPoints(points: number[]): number[] | null {
+  const days = Array.from({ length: CURVE_DAYS }, (_, i) => Math.max(0, points[i] ?? 0));
+  if (days.filter((p) => p > 0).length < MIN_CHARTED_DAYS) return null;
+
+  const total = days.reduce((sum, p) => sum + p, 0);
+  return days.map((p) => p / total);
+}
+
+/**
+ * Average release shapes, shrunk toward the default for small samples
+ */
+export function fitPremiereCurve(samples: number[][], prior: number[]): { dayShares: number[]; releases: number } {
+  const dayShares = prior.map((p, i) => {
+    const observed = samples.reduce((sum, sample) => sum + sample[i], 0);
+    return (observed + PRIOR_RELEASES * p) / (samples.length + PRIOR_RELEASES);
+  });
+  return { dayShares, releases: samples.length };
+}
+
+/**
+ * Mean log-views gap between adjacent ranks, from each week's Top 10 of a
+ * list (null without a week with two ranked titles)
+ */
+export function fitLogViewsPerRank(weeks: { rank: number; views: number }[][]): number | null {
+  const gaps = weeks.flatMap((week) => {
+    const ranked = week.filter((r) => r.views > 0).sort((a, b) => a.rank - b.rank);
+    if (ranked.length < 2) return [];
+    const first = ranked[0];
+    const last = ranked[ranked.length - 1];
+    if (last.rank === first.rank) return [];
+    return [(Math.log(first.views) - Math.log(last.views)) / (last.rank - first.rank)];
+  });
+  if (gaps.length === 0) return null;
+  return gaps.reduce((sum, g) => sum + g, 0) / gaps.length;
+}
+
+/**
+ * The curve for a release: its first genre with enough releases, else the
+ * type's curve, else the default shape
+ */
+export function selectPremiereCurve(
+  fits: PremiereCurveFit[],
+  titleType: TitleType,
+  genres: string[]
+): Omit<PremiereContext, 'releaseDate'> {
+  const forType = fits.filter((f) => f.titleType === titleType);
+  const typeFit = forType.find((f) => f.genre === '');
+  const logViewsPerRank = typeFit?.logViewsPerRank ?? DEFAULT_LOG_VIEWS_PER_RANK;
+
+  for (const genre of genres) {
+    const fit = forType.find((f) => f.genre.toLowerCase() === genre.toLowerCase());
+    if (fit && fit.releases >= MIN_GENRE_RELEASES) {
+      return { curve: fit.dayShares, logViewsPerRank, genre: fit.genre };
+    }
+  }
+
+  if (typeFit) return { curve: typeFit.dayShares, logViewsPerRank, genre: '' };
+  return { curve: defaultPremiereCurve(titleType), logViewsPerRank, genre: '' };
+}
+
+/**
+ * Parse a stored dayShares column, null unless it is a full curve
+ */
+export function parseDayShares(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length !== CURVE_DAYS) return null;
+  if (!value.every((p) => typeof p === 'number' && Number.isFinite(p))) return null;
+  return value as number[];
+}
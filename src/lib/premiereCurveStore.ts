@@ -0,0 +1,112 @@
+/**
+ * Premiere Curve Store
+ *
+ * Reads the fitted premiere curves and pairs titles with their release
+ * date (from ReleaseCandidate) and the curve for their type and genre. The
+ * live curves are kept for a few minutes so per-title lookups in the
+ * forecast job don't re-read the table. As-of reads use the newest fit made
+ * by asOf, so backtests never see curves fitted on later releases; before
+ * the first fit they get the default shapes.
+ */
+
+import type { TitleType } from '@prisma/client';
+import prisma from './prisma';
+import {
+  parseDayShares,
+  selectPremiereCurve,
+  PremiereContext,
+  PremiereCurveFit,
+  CURVE_DAYS,
+} from './premiereCurve';
+import { writtenBy } from './pointInTime';
+
+const CURVES_TTL_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let cached: { fits: PremiereCurveFit[]; loadedAt: number } | null = null;
+
+/**
+ * Curves from the newest fit made by asOf (or the newest fit; cached)
+ */
+export async function getPremiereCurves(asOf?: Date): Promise<PremiereCurveFit[]> {
+  if (!asOf && cached && Date.now() - cached.loadedAt < CURVES_TTL_MS) return cached.fits;
+
+  const latest = await prisma.premiereCurve.findFirst({
+    where: asOf ? { fittedAt: { lte: asOf } } : {},
+    orderBy: { fittedAt: 'desc' },
+    select: { fittedAt: true },
+  }) as { fittedAt: Date } | null;
+
+  const rows = latest
+    ? await prisma.premiereCurve.findMany({
+      where: { fittedAt: latest.fittedAt },
+      select: { titleType: true, genre: true, dayShares: true, releases: true, logViewsPerRank: true },
+    }) as { titleType: TitleType; genre: string; dayShares: unknown; releases: number; logViewsPerRank: number | null }[]
+    : [];
+
+  const fits = rows.flatMap((row) => {
+    const dayShares = parseDayShares(row.dayShares);
+    return dayShares ? [{ ...row, dayShares }] : [];
+  });
+
+  if (!asOf) cached = { fits, loadedAt: Date.now() };
+  return fits;
+}
+
+/**
+ * Drop the cached curves (after a refit)
+ */
+export function invalidatePremiereCurves(): void {
+  cached = null;
+}
+
+/**
+ * Release date and premiere curve for titles released within the curve's
+ * reach of asOf (or now); titles without a recent release are left out
+ *
+ * @param asOf - Only use release candidates and curves known at this date
+ */
+export async function getPremiereContexts(
+  titleIds: string[],
+  asOf?: Date
+): Promise<Map<string, PremiereContext>> {
+  const contexts = new Map<string, PremiereContext>();
+  if (titleIds.length === 0) return contexts;
+
+  const now = asOf ?? new Date();
+  const candidates = await prisma.releaseCandidate.findMany({
+    where: {
+      titleId: { in: titleIds },
+      releaseDate: {
+        gte: new Date(now.getTime() - (CURVE_DAYS + 7) * DAY_MS),
+        lte: new Date(now.getTime() + 7 * DAY_MS),
+      },
+      ...writtenBy(asOf),
+    },
+    orderBy: { releaseDate: 'desc' },
+    select: { titleId: true, type: true, releaseDate: true, metadata: true },
+  }) as { titleId: string; type: TitleType; releaseDate: Date; metadata: { genres?: unknown } | null }[];
+
+  if (candidates.length === 0) return contexts;
+  const fits = await getPremiereCurves(asOf);
+
+  for (const candidate of candidates) {
+    if (contexts.has(candidate.titleId)) continue;
+    const genres = Array.isArray(candidate.metadata?.genres)
+      ? candidate.metadata!.genres.filter((g): g is string => typeof g === 'string')
+      : [];
+    contexts.set(candidate.titleId, {
+      releaseDate: candidate.releaseDate,
+      ...selectPremiereCurve(fits, candidate.type, genres),
+    });
+  }
+
+  return contexts;
+}
+
+/**
+ * Premiere context for one title, null without a recent release
+ */
+export async function getPremiereContext(titleId: string, asOf?: Date): Promise<PremiereContext | null> {
+  return (await getPremiereContexts([titleId], asOf)).get(titleId) ?? null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Price Bar Store
+ *
+ * Reads the minute bars written by the price-stream worker, for the live
+ * price SSE endpoint and for routes that want fresher prices than the
+ * hourly MarketPriceSnapshot.
+ */
+
+import prisma from './prisma';
+
+export interface PriceBarUpdate {
+  marketSlug: string;
+  outcomeName: string;
+  minute: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  tradeCount: number;
+  tradeVolume: number;
+  updatedAt: string;
+}
+
+const BAR_SELECT = {
+  marketSlug: true,
+  outcomeName: true,
+  minute: true,
+  open: true,
+  high: true,
+  low: true,
+  close: true,
+  tradeCount: true,
+  tradeVolume: true,
+  updatedAt: true,
+};
+
+type BarRow = Omit<PriceBarUpdate, 'minute' | 'updatedAt'> & { minute: Date; updatedAt: Date };
+
+function toUpdate(row: BarRow): PriceBarUpdate {
+  return { ...row, minute: row.minute.toISOString(), updatedAt: row.updatedAt.toISOString() };
+}
+
+export function priceBarKey(marketSlug: string, outcomeName: string): string {
+  return `${marketSlug}:${outcomeName.toLowerCase()}`;
+}
+
+/**
+ * Most recent bar for each outcome of the given markets, if newer than maxAgeMs
+ *
+ * An empty slug list means every streamed market, as in
+ * getPriceBarsUpdatedSince. Keyed by priceBarKey(marketSlug, outcomeName).
+ */
+export async function getLatestPriceBars(
+  marketSlugs: string[],
+  maxAgeMs: number
+): Promise<Map<string, PriceBarUpdate>> {
+  const bars = new Map<string, PriceBarUpdate>();
+
+  const rows = await prisma.marketPriceBar.findMany({
+    where: {
+      ...(marketSlugs.length > 0 ? { marketSlug: { in: marketSlugs } } : {}),
+      minute: { gte: new Date(Date.now() - maxAgeMs) },
+    },
+    orderBy: { minute: 'desc' },
+    distinct: ['marketSlug', 'outcomeName'],
+    select: BAR_SELECT,
+  });
+
+  for (const row of rows as BarRow[]) {
+    bars.set(priceBarKey(row.marketSlug, row.outcomeName), toUpdate(row));
+  }
+
+  return bars;
+}
+
+/**
+ * Bars written or updated after the cursor, oldest update first
+ *
+ * An empty slug list means every streamed market.
+ */
+export async function getPriceBarsUpdatedSince(
+  marketSlugs: string[],
+  since: Date,
+  limit: number = 500
+): Promise<PriceBarUpdate[]> {
+  const rows = await prisma.marketPriceBar.findMany({
+    where: {
+      ...(marketSlugs.length > 0 ? { marketSlug: { in: marketSlugs } } : {}),
+      updatedAt: { gt: since },
+    },
+    orderBy: { updatedAt: 'asc' },
+    take: limit,
+    select: BAR_SELECT,
+  });
+
+  return (rows as BarRow[]).map(toUpdate);
+}
@@ -0,0 +1,172 @@
+/**
+ * Price Stream
+ *
+ * Pure helpers for the Polymarket CLOB market websocket: turning raw channel
+ * messages into price ticks and folding ticks into one-minute OHLC bars.
+ *
+ * Bars track the outcome's Yes-token midpoint, which is what Polymarket shows
+ * as the probability. Trades add to the bar's count and volume, and only set
+ * its price when no quote has been seen yet that minute.
+ */
+
+import { parseOrderBook, summariseOrderBook, RawOrderBook } from './orderBook';
+
+export const POLYMARKET_MARKET_WS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+
+export type TickKind = 'quote' | 'trade';
+
+export interface PriceTick {
+  assetId: string;
+  kind: TickKind;
+  price: number;     // Midpoint for quotes, fill price for trades (0-1)
+  size: number;      // Shares traded; 0 for quotes
+  timestamp: Date;
+}
+
+export interface MinuteBar {
+  tokenId: string;
+  minute: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  tradeCount: number;
+  tradeVolume: number; // USD
+  hasQuote: boolean;
+}
+
+interface RawPriceChange {
+  asset_id?: string;
+  best_bid?: string | number;
+  best_ask?: string | number;
+}
+
+interface RawStreamEvent extends RawOrderBook {
+  event_type?: string;
+  asset_id?: string;
+  price?: string | number;
+  size?: string | number;
+  best_bid?: string | number;
+  best_ask?: string | number;
+  price_changes?: RawPriceChange[];
+  timestamp?: string | number;
+}
+
+function parseTimestamp(value: RawStreamEvent['timestamp'], fallback: Date): Date {
+  const ms = Number(value);
+  return Number.isFinite(ms) && ms > 0 ? new Date(ms) : fallback;
+}
+
+function midpoint(bestBid: unknown, bestAsk: unknown): number | null {
+  const bid = Number(bestBid);
+  const ask = Number(bestAsk);
+  if (!Number.isFinite(bid) || !Number.isFinite(ask) || bid <= 0 || ask >= 1 || ask < bid) return null;
+  return Math.round(((bid + ask) / 2) * 10000) / 10000;
+}
+
+function parseEvent(event: RawStreamEvent, now: Date): PriceTick[] {
+  const timestamp = parseTimestamp(event.timestamp, now);
+
+  switch (event.event_type) {
+    case 'book': {
+      if (!event.asset_id) return [];
+      const price = summariseOrderBook(parseOrderBook(event)).midpoint;
+      return price === null ? [] : [{ assetId: event.asset_id, kind: 'quote', price, size: 0, timestamp }];
+    }
+
+    case 'best_bid_ask': {
+      const price = midpoint(event.best_bid, event.best_ask);
+      if (!event.asset_id || price === null) return [];
+      return [{ assetId: event.asset_id, kind: 'quote', price, size: 0, timestamp }];
+    }
+
+    case 'price_change': {
+      // Older messages carry raw level changes without the touch; those are
+      // skipped and the next book message resyncs the price.
+      const ticks: PriceTick[] = [];
+      for (const change of event.price_changes ?? []) {
+        const price = midpoint(change.best_bid, change.best_ask);
+        if (change.asset_id && price !== null) {
+          ticks.push({ assetId: change.asset_id, kind: 'quote', price, size: 0, timestamp });
+        }
+      }
+      return ticks;
+    }
+
+    case 'last_trade_price': {
+      const price = Number(event.price);
+      const size = Number(event.size);
+      if (!event.asset_id || !Number.isFinite(price) || price <= 0 || price >= 1) return [];
+      return [{ assetId: event.asset_id, kind: 'trade', price, size: Number.isFinite(size) ? size : 0, timestamp }];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Parse one websocket message (a single event or an array of events)
+ *
+ * Non-JSON frames such as the PONG keep-alive reply yield no ticks.
+ */
+export function parseStreamMessage(data: string, now: Date = new Date()): PriceTick[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return [];
+  }
+
+  const events = Array.isArray(parsed) ? parsed : [parsed];
+  return events
+    .filter((e): e is RawStreamEvent => typeof e === 'object' && e !== null)
+    .flatMap((e) => parseEvent(e, now));
+}
+
+/**
+ * Start of the UTC minute containing the date
+ */
+export function minuteStart(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / 60000) * 60000);
+}
+
+/**
+ * Fold a tick into its minute's bar, returning the updated bar
+ *
+ * The bar passed in must be for the tick's token and minute (or undefined
+ * to start a new one).
+ */
+export function applyTick(bar: MinuteBar | undefined, tick: PriceTick): MinuteBar {
+  const current: MinuteBar = bar ?? {
+    tokenId: tick.assetId,
+    minute: minuteStart(tick.timestamp),
+    open: tick.price,
+    high: tick.price,
+    low: tick.price,
+    close: tick.price,
+    tradeCount: 0,
+    tradeVolume: 0,
+    hasQuote: false,
+  };
+
+  if (tick.kind === 'trade') {
+    return {
+      ...current,
+      tradeCount: current.tradeCount + 1,
+      tradeVolume: Math.round((current.tradeVolume + tick.price * tick.size) * 100) / 100,
+    };
+  }
+
+  // First quote of the minute replaces any trade-seeded price
+  if (!current.hasQuote) {
+    return { ...current, open: tick.price, high: tick.price, low: tick.price, close: tick.price, hasQuote: true };
+  }
+
+  return {
+    ...current,
+    high: Math.max(current.high, tick.price),
+    low: Math.min(current.low, tick.price),
+    close: tick.price,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Price Stream Client
+ *
+ * Subscribes to the Polymarket CLOB market websocket for a set of tokens and
+ * hands parsed ticks to a callback. Keeps the connection alive with PING
+ * frames and reconnects with exponential backoff until closed.
+ *
+ * The URL is configurable so the client can be pointed at a local mock server.
+ */
+
+import WebSocket from 'ws';
+import { parseStreamMessage, PriceTick, POLYMARKET_MARKET_WS_URL } from './priceStream';
+
+const PING_INTERVAL_MS = 10_000;
+const INITIAL_RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 60_000;
+
+export interface PriceStreamOptions {
+  assetIds: string[];
+  onTicks: (ticks: PriceTick[]) => void;
+  url?: string;
+  onOpen?: () => void;
+  onClose?: (reason: string) => void;
+  pingIntervalMs?: number;
+  reconnectDelayMs?: number;
+}
+
+export interface PriceStream {
+  close: () => void;
+}
+
+/**
+ * Open a market-channel subscription that reconnects until closed
+ */
+export function connectPriceStream(options: PriceStreamOptions): PriceStream {
+  const url = options.url ?? POLYMARKET_MARKET_WS_URL;
+  const pingIntervalMs = options.pingIntervalMs ?? PING_INTERVAL_MS;
+  const initialDelay = options.reconnectDelayMs ?? INITIAL_RECONNECT_DELAY_MS;
+
+  let socket: WebSocket | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = initialDelay;
+  let closed = false;
+
+  function connect() {
+    socket = new WebSocket(url);
+
+    socket.on('open', () => {
+      reconnectDelay = initialDelay;
+      socket?.send(JSON.stringify({ assets_ids: options.assetIds, type: 'market' }));
+      pingTimer = setInterval(() => {
+        if (socket?.readyState === WebSocket.OPEN) socket.send('PING');
+      }, pingIntervalMs);
+      options.onOpen?.();
+    });
+
+    socket.on('message', (data) => {
+      const ticks = parseStreamMessage(data.toString());
+      if (ticks.length > 0) options.onTicks(ticks);
+    });
+
+    socket.on('error', (error) => {
+      // A close event always follows, which handles the reconnect
+      console.error('[price-stream] Socket error:', error.message);
+    });
+
+    socket.on('close', (code, reason) => {
+      if (pingTimer) clearInterval(pingTimer);
+      pingTimer = null;
+      socket = null;
+      options.onClose?.(reason.toString() || `code ${code}`);
+
+      if (closed) return;
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    });
+  }
+
+  connect();
+
+  return {
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (pingTimer) clearInterval(pingTimer);
+      socket?.close();
+    },
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Rank Probability Distributions
+ *
+ * A title's forecast for a week as probability mass over ranks 1–10 plus
+ * "outside the Top 10" (RANK_SLOTS entries, index rank - 1, the last one
+ * outside). P(#1), P(#2) and P(top 3) are all read off the same vector, so
+ * the #1 and #2 markets and the edge calculations share one belief.
+ *
+ * Per-title marginals are then fitted jointly across a chart (one Top 10
+ * list, e.g. US shows) so every rank is held exactly once: each rank's mass
+ * over the titles, plus a "field" share for titles that weren't forecast,
+ * sums to one.
+ *
+ * Pure functions only, so the fitting can be unit tested without Prisma.
+ */
+
+import { errorFunction } from 'simple-statistics';
+
+export const TOP_RANKS = 10;
+export const RANK_SLOTS = TOP_RANKS + 1;
+export const OUTSIDE_TOP_10 = TOP_RANKS;  // Index of the outside-the-Top-10 slot
+
+// z-score of the 90th percentile, for reading a spread off p10/p90
+const Z_90 = 1.2816;
+
+// Floor on the latent rank spread so a p10 = p50 = p90 forecast isn't certain
+const MIN_RANK_SIGMA = 0.6;
+
+export type RankProbs = number[];
+
+export interface JointRankInput {
+  key: string;
+  probs: RankProbs;
+}
+
+export interface JointRankFit {
+  distributions: JointRankInput[];
+  field: number[];  // Per rank 1–10: probability it goes to a title not forecast
+  iterations: number;
+}
+
+function normalCdf(x: number): number {
+  return 0.5 * (1 + errorFunction(x / Math.SQRT2));
+}
+
+/**
+ * Rank mass from p10/p50/p90, reading the forecast as a normal latent rank
+ * centred on p50 and bucketing it at the half-ranks
+ */
+export function rankProbsFromQuantiles(p10: number, p50: number, p90: number): RankProbs {
+  const sigma = Math.max(MIN_RANK_SIGMA, (p90 - p10) / (2 * Z_90));
+  const below = (edge: number) => normalCdf((edge - p50) / sigma);
+
+  const probs: RankProbs = [];
+  for (let rank = 1; rank <= TOP_RANKS; rank++) {
+    // Rank 1 takes everything better than 1.5
+    probs.push(rank === 1 ? below(1.5) : below(rank + 0.5) - below(rank - 0.5));
+  }
+  probs.push(1 - below(TOP_RANKS + 0.5));
+
+  return normalizeRankProbs(probs);
+}
+
+/**
+ * Scale a rank vector to sum to one (uniform over the slots if it is empty)
+ */
+export function normalizeRankProbs(probs: RankProbs): RankProbs {
+  const total = probs.reduce((sum, p) => sum + Math.max(0, p), 0);
+  if (total <= 0) return probs.map(() => 1 / probs.length);
+  return probs.map((p) => Math.max(0, p) / total);
+}
+
+/**
+ * Fit titles' rank marginals jointly so each rank 1–10 is held once.
+ *
+ * Alternates two projections until the titles' rows stop moving: scale
+ * down any rank the titles over-claim (the field gets whatever they
+ * under-claim), then renormalise each title's row. "Outside the Top 10"
+ * has no capacity limit. Ends on the rank step, so ranks are exactly
+ * covered and rows are within tolerance of one.
+ */
+export function fitJointRankDistribution(
+  inputs: JointRankInput[],
+  options: { maxIterations?: number; tolerance?: number } = {}
+): JointRankFit {
+  const { maxIterations = 200, tolerance = 1e-6 } = options;
+  const rows = inputs.map((input) => normalizeRankProbs(input.probs));
+  const field = new Array<number>(TOP_RANKS).fill(1);
+
+  const fitRanks = () => {
+    for (let r = 0; r < TOP_RANKS; r++) {
+      const claimed = rows.reduce((sum, row) => sum + row[r], 0);
+      if (claimed > 1) {
+        for (const row of rows) row[r] /= claimed;
+        field[r] = 0;
+      } else {
+        field[r] = 1 - claimed;
+      }
+    }
+  };
+
+  let iterations = 0;
+  for (; iterations < maxIterations; iterations++) {
+    fitRanks();
+
+    let maxDrift = 0;
+    for (let i = 0; i < rows.length; i++) {
+      const total = rows[i].reduce((sum, p) => sum + p, 0);
+      maxDrift = Math.max(maxDrift, Math.abs(total - 1));
+      rows[i] = normalizeRankProbs(rows[i]);
+    }
+
+    if (maxDrift < tolerance) break;
+  }
+  fitRanks();
+
+  return {
+    distributions: inputs.map((input, i) => ({ key: input.key, probs: rows[i] })),
+    field,
+    iterations,
+  };
+}
+
+/**
+ * Fit marginals jointly within each chart, one fit per distinct chart key,
+ * returning the fitted rows in input order. Titles on different charts
+ * don't compete for the same ranks.
+ */
+export function fitJointRankDistributionsByChart(inputs: { chart: string; probs: RankProbs }[]): RankProbs[] {
+  const byChart = new Map<string, number[]>();
+  inputs.forEach((input, i) => byChart.set(input.chart, [...(byChart.get(input.chart) ?? []), i]));
+
+  const fitted: RankProbs[] = new Array(inputs.length);
+  for (const indexes of byChart.values()) {
+    const fit = fitJointRankDistribution(indexes.map((i) => ({ key: String(i), probs: inputs[i].probs })));
+    fit.distributions.forEach((d, j) => {
+      fitted[indexes[j]] = d.probs;
+    });
+  }
+  return fitted;
+}
+
+/**
+ * Probability of finishing exactly at a rank (1–10)
+ */
+export function probabilityOfRank(probs: RankProbs, rank: number): number {
+  if (rank < 1 || rank > TOP_RANKS) return 0;
+  return probs[rank - 1] ?? 0;
+}
+
+/**
+ * Probability of finishing in the top n
+ */
+export function probabilityTopN(probs: RankProbs, n: number): number {
+  return probs.slice(0, Math.min(n, TOP_RANKS)).reduce((sum, p) => sum + p, 0);
+}
+
+/**
+ * Parse a stored rankProbs column, null unless it is a full vector
+ */
+export function parseRankProbs(value: unknown): RankProbs | null {
+  if (!Array.isArray(value) || value.length !== RANK_SLOTS) return null;
+  if (!value.every((p) => typeof p === 'number' && Number.isFinite(p))) return null;
+  return value as RankProbs;
+}
@@ -0,0 +1,35 @@
+/**
+ * Season Numbers
+ *
+ * Reads the season a source name refers to, and the rule for replacing the
+ * unseasoned Netflix Top 10 row a seasoned one supersedes. Kept free of
+ * Prisma so it can be unit tested; seasons.ts does the database side.
+ */
+
+import { titleNameKey } from './titleMatcher';
+
+// Identifies a NetflixWeeklyGlobal / NetflixWeeklyUS row
+export interface WeeklyRowKey {
+  titleId: string;
+  seasonNumber: number;
+  weekStart: Date;
+  category: string;
+}
+
+/**
+ * Season number named in a title string, 0 if it names none.
+ * "Show: Season 3: Part 2" is season 3; a bare "Part 2" counts as season 2.
+ */
+export function seasonNumberFromName(name: string): number {
+  return titleNameKey(name).season ?? 0;
+}
+
+/**
+ * Rows ingested before seasons were tracked sit at seasonNumber 0. The key
+ * of the one a seasoned row replaces, so the week isn't counted twice; null
+ * for an unseasoned row, which replaces nothing.
+ */
+export function unseasonedRowKey(row: WeeklyRowKey): WeeklyRowKey | null {
+  if (row.seasonNumber <= 0) return null;
+  return { titleId: row.titleId, seasonNumber: 0, weekStart: row.weekStart, category: row.category };
+}
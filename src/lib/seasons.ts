@@ -0,0 +1,99 @@
+/**
+ * Season Resolution
+ *
+ * A multi-season show is one Title with a Season row per season. The season
+ * number is read from the source's name with seasonNumberFromName, so
+ * "Wednesday: Season 2" and "Wednesday S2" land on the same row. Names that
+ * carry no season (films, limited series) resolve to seasonNumber 0 and no
+ * Season row.
+ */
+
+import prisma from './prisma';
+import { seasonNumberFromName } from './seasonNumbers';
+import { netflixKnownAt, writtenBy } from './pointInTime';
+
+export interface SeasonRef {
+  seasonId: string | null;
+  seasonNumber: number;  // 0 = no season
+}
+
+export const NO_SEASON: SeasonRef = { seasonId: null, seasonNumber: 0 };
+
+const SEASON_TTL_MS = 5 * 60 * 1000;
+
+// titleId:seasonNumber -> Season id, so per-row ingestion doesn't re-upsert
+const seasonIds = new Map<string, { id: string; loadedAt: number }>();
+
+/**
+ * Season row for a title's numbered season, created on first sight
+ */
+export async function findOrCreateSeason(
+  titleId: string,
+  seasonNumber: number,
+  name: string
+): Promise<SeasonRef> {
+  if (seasonNumber <= 0) return NO_SEASON;
+
+  const key = `${titleId}:${seasonNumber}`;
+  const cached = seasonIds.get(key);
+  if (cached && Date.now() - cached.loadedAt < SEASON_TTL_MS) {
+    return { seasonId: cached.id, seasonNumber };
+  }
+
+  const season = await prisma.season.upsert({
+    where: { titleId_seasonNumber: { titleId, seasonNumber } },
+    update: {},
+    create: { titleId, seasonNumber, name },
+    select: { id: true },
+  }) as { id: string };
+
+  seasonIds.set(key, { id: season.id, loadedAt: Date.now() });
+  return { seasonId: season.id, seasonNumber };
+}
+
+/**
+ * The title's highest-numbered known season (as of a date, if given)
+ */
+export async function getLatestSeason(titleId: string, asOf?: Date): Promise<SeasonRef> {
+  const latest = await prisma.season.findFirst({
+    where: { titleId, ...writtenBy(asOf) },
+    orderBy: { seasonNumber: 'desc' },
+    select: { id: true, seasonNumber: true },
+  }) as { id: string; seasonNumber: number } | null;
+
+  return latest ? { seasonId: latest.id, seasonNumber: latest.seasonNumber } : NO_SEASON;
+}
+
+/**
+ * Resolve the season a source name refers to. With defaultToLatest, a name
+ * without a season (FlixPatrol lists shows by bare name) is attributed to
+ * the title's latest known season.
+ */
+export async function resolveSeason(
+  titleId: string,
+  name: string,
+  options: { defaultToLatest?: boolean } = {}
+): Promise<SeasonRef> {
+  const seasonNumber = seasonNumberFromName(name);
+  if (seasonNumber > 0) return findOrCreateSeason(titleId, seasonNumber, name);
+  return options.defaultToLatest ? getLatestSeason(titleId) : NO_SEASON;
+}
+
+/**
+ * Season of the title's most recent Netflix Top 10 week published by asOf
+ * (best-ranked row when two seasons charted that week)
+ */
+export async function getCurrentSeason(titleId: string, asOf?: Date): Promise<SeasonRef> {
+  const query = {
+    where: { titleId, ...netflixKnownAt(asOf) },
+    orderBy: [{ weekStart: 'desc' }, { rank: 'asc' }],
+    select: { seasonId: true, seasonNumber: true },
+  };
+
+  const latest = (
+    await prisma.netflixWeeklyGlobal.findFirst(query) ??
+    await prisma.netflixWeeklyUS.findFirst(query)
+  ) as SeasonRef | null;
+
+  return latest ?? NO_SEASON;
+}
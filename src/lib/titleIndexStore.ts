@@ -0,0 +1,46 @@
+/**
+ * Title Index Store
+ *
+ * Loads every Title, its aliases and external IDs, plus confirmed outcome
+ * mappings, into a TitleIndex for the title matcher. The index is kept for
+ * a few minutes so per-row lookups in ingestion jobs don't re-read the table.
+ */
+
+import prisma from './prisma';
+import { buildTitleIndex, TitleIndex, MatchableTitle } from './titleMatcher';
+import { getConfirmedOutcomeMappings } from './outcomeMappings';
+
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+let cached: { index: TitleIndex; loadedAt: number } | null = null;
+
+/**
+ * Read a fresh index from the database
+ */
+export async function loadTitleIndex(): Promise<TitleIndex> {
+  const [titles, confirmed] = await Promise.all([
+    prisma.title.findMany({
+      select: {
+        id: true,
+        canonicalName: true,
+        type: true,
+        aliases: true,
+        externalIds: { select: { provider: true, externalId: true } },
+      },
+    }) as Promise<MatchableTitle[]>,
+    getConfirmedOutcomeMappings(),
+  ]);
+
+  const index = buildTitleIndex(titles, confirmed);
+  cached = { index, loadedAt: Date.now() };
+  return index;
+}
+
+/**
+ * The shared index, reloaded once it is older than INDEX_TTL_MS.
+ * Callers that create titles should addTitleToIndex() on it.
+ */
+export async function getTitleIndex(): Promise<TitleIndex> {
+  if (cached && Date.now() - cached.loadedAt < INDEX_TTL_MS) return cached.index;
+  return loadTitleIndex();
+}
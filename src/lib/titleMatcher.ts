@@ -0,0 +1,386 @@
+/**
+ * Title Matcher
+ *
+ * The single service for resolving names from Polymarket, FlixPatrol,
+ * Netflix and release feeds to Titles. Every name is reduced to a base key
+ * plus a season, and candidates come back ranked with a score and reason:
+ * - CONFIRMED: an admin-confirmed outcome mapping
+ * - EXTERNAL_ID: the title carries the given provider ID
+ * - EXACT / ALIAS: same base and season as the canonical name / an alias
+ * - SEASON_VARIANT: same base, one side names a season and the other doesn't
+ * - PREFIX: one name extends the other ("Wake Up Dead Man: A Knives Out Mystery")
+ * - OTHER_SEASON: same base but a different season ("Season 4" vs "Season 5")
+ * - FUZZY: small edit distance between base names
+ *
+ * Only candidates scoring MATCH_ACCEPT_SCORE or more should be linked
+ * automatically; the rest are suggestions for review.
+ */
+
+import {
+  normalizeText,
+  removeBracketedSuffixes,
+  normalizeAccents,
+  convertRomanNumerals,
+  extractSeasonInfo,
+  createMatchingKey,
+} from './titleNormalize';
+
+export type TitleMatchReason =
+  | 'CONFIRMED'
+  | 'EXTERNAL_ID'
+  | 'EXACT'
+  | 'ALIAS'
+  | 'SEASON_VARIANT'
+  | 'PREFIX'
+  | 'OTHER_SEASON'
+  | 'FUZZY';
+
+type TitleKind = 'SHOW' | 'MOVIE';
+
+export interface TitleNameKey {
+  base: string;           // Matching key without season or suffixes
+  season: number | null;  // Season, part or volume number, if named
+  full: string;           // base plus season
+}
+
+export interface MatchableTitle {
+  id: string;
+  canonicalName: string;
+  type?: TitleKind | null;
+  aliases?: unknown;
+  externalIds?: { provider: string; externalId: string }[];
+}
+
+export interface TitleCandidate {
+  titleId: string;
+  canonicalName: string;
+  type: TitleKind | null;
+  score: number;        // 0-1, type mismatches halved
+  reason: TitleMatchReason;
+  matchedName: string;  // Canonical name or alias that matched
+}
+
+export interface ConfirmedOutcomeMapping {
+  outcomeKey: string;
+  titleId: string | null;
+}
+
+export interface IndexedName {
+  name: string;
+  key: TitleNameKey;
+  isAlias: boolean;
+}
+
+export interface IndexedTitle {
+  id: string;
+  canonicalName: string;
+  type: TitleKind | null;
+  names: IndexedName[];
+}
+
+export interface TitleIndex {
+  titles: Map<string, IndexedTitle>;
+  byBase: Map<string, Set<string>>;      // base key -> title IDs
+  byExternalId: Map<string, string>;     // provider:externalId -> title ID
+  byOutcome: Map<string, string>;        // confirmed outcome key -> title ID
+}
+
+export interface RankOptions {
+  type?: TitleKind | null;
+  externalId?: { provider: string; externalId: string };
+  fuzzy?: boolean;   // Include PREFIX/FUZZY candidates (default true)
+  limit?: number;
+}
+
+// Names scoring at least this are safe to link without review
+export const MATCH_ACCEPT_SCORE = 0.8;
+
+const REASON_SCORES: Record<TitleMatchReason, number> = {
+  CONFIRMED: 1,
+  EXTERNAL_ID: 1,
+  EXACT: 1,
+  ALIAS: 0.95,
+  SEASON_VARIANT: 0.85,
+  PREFIX: 0.75,
+  FUZZY: 0.7,
+  OTHER_SEASON: 0.55,
+};
+
+// Tie-break order when scores are equal
+const REASON_RANK: Record<TitleMatchReason, number> = {
+  CONFIRMED: 0,
+  EXTERNAL_ID: 1,
+  EXACT: 2,
+  ALIAS: 3,
+  SEASON_VARIANT: 4,
+  PREFIX: 5,
+  FUZZY: 6,
+  OTHER_SEASON: 7,
+};
+
+const TYPE_MISMATCH_FACTOR = 0.5;
+const PREFIX_MIN_LENGTH = 10;
+const FUZZY_STEP = 0.05;
+
+/**
+ * Calculate Levenshtein distance between two strings
+ */
+export function levenshteinDistance(str1: string, str2: string): number {
+  const m = str1.length;
+  const n = str2.length;
+
+  // Create a 2D array to store distances
+  const dp: number[][] = Array(m + 1)
+    .fill(null)
+    .map(() => Array(n + 1).fill(0));
+
+  // Initialize base cases
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+
+  // Fill in the rest of the matrix
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      if (str1[i - 1] === str2[j - 1]) {
+        dp[i][j] = dp[i - 1][j - 1];
+      } else {
+        dp[i][j] = 1 + Math.min(
+          dp[i - 1][j],     // deletion
+          dp[i][j - 1],     // insertion
+          dp[i - 1][j - 1]  // substitution
+        );
+      }
+    }
+  }
+
+  return dp[m][n];
+}
+
+/**
+ * Reduce a name to its base key and season.
+ * "Stranger Things: Season 5", "Stranger Things Season 5" and
+ * "Stranger Things - S5" share a full key; "Stranger Things" shares only the base.
+ * "&" and "and" are dropped so "Ginny and Georgia" and "Ginny & Georgia" agree.
+ */
+export function titleNameKey(name: string): TitleNameKey {
+  let processed = normalizeText(name);
+  processed = removeBracketedSuffixes(processed)
+    .replace(/\s*\(.*?\)\s*$/g, '')
+    .replace(/\s*[:–-]\s*Limited Series$/i, '');
+  processed = convertRomanNumerals(normalizeAccents(processed));
+
+  const seasonInfo = extractSeasonInfo(processed);
+  const baseName = (seasonInfo ? seasonInfo.baseName : processed).replace(/\s+(&|and)\s+/gi, ' ');
+  // Names without Latin characters keep their letters rather than becoming empty
+  const base = createMatchingKey(baseName) || baseName.toLowerCase().replace(/\s+/g, '');
+  const season = seasonInfo?.seasonNumber ?? null;
+
+  return { base, season, full: season === null ? base : `${base}#s${season}` };
+}
+
+/**
+ * Key identifying an outcome string for review decisions. Keeps the season,
+ * so "Show: Season 2" and "Show: Season 3" are decided separately.
+ */
+export function outcomeMatchKey(outcomeName: string): string {
+  return createMatchingKey(normalizeText(outcomeName));
+}
+
+function maxFuzzyDistance(a: string, b: string): number {
+  return Math.min(3, Math.floor(Math.min(a.length, b.length) / 5));
+}
+
+/**
+ * Score one name against another, or null if they are unrelated
+ */
+function scoreName(
+  query: TitleNameKey,
+  candidate: IndexedName,
+  fuzzy: boolean
+): { score: number; reason: TitleMatchReason } | null {
+  const key = candidate.key;
+  const seasonsConflict = query.season !== null && key.season !== null && query.season !== key.season;
+
+  if (query.base === key.base) {
+    if (seasonsConflict) return { score: REASON_SCORES.OTHER_SEASON, reason: 'OTHER_SEASON' };
+    if (query.season !== key.season) return { score: REASON_SCORES.SEASON_VARIANT, reason: 'SEASON_VARIANT' };
+    const reason = candidate.isAlias ? 'ALIAS' : 'EXACT';
+    return { score: REASON_SCORES[reason], reason };
+  }
+
+  if (!fuzzy || seasonsConflict) return null;
+
+  const [shorter, longer] = query.base.length <= key.base.length ? [query.base, key.base] : [key.base, query.base];
+  if (shorter.length >= PREFIX_MIN_LENGTH && longer.startsWith(shorter)) {
+    return { score: REASON_SCORES.PREFIX, reason: 'PREFIX' };
+  }
+
+  const maxDistance = maxFuzzyDistance(query.base, key.base);
+  if (maxDistance === 0 || longer.length - shorter.length > maxDistance) return null;
+  const distance = levenshteinDistance(query.base, key.base);
+  if (distance > maxDistance) return null;
+  return { score: REASON_SCORES.FUZZY - (distance - 1) * FUZZY_STEP, reason: 'FUZZY' };
+}
+
+/**
+ * Add a title to an index, e.g. one created during an ingestion run
+ */
+export function addTitleToIndex(index: TitleIndex, title: MatchableTitle): void {
+  const aliases = Array.isArray(title.aliases)
+    ? title.aliases.filter((a): a is string => typeof a === 'string')
+    : [];
+  const names: IndexedName[] = [
+    { name: title.canonicalName, key: titleNameKey(title.canonicalName), isAlias: false },
+    ...aliases.map((alias) => ({ name: alias, key: titleNameKey(alias), isAlias: true })),
+  ];
+
+  index.titles.set(title.id, {
+    id: title.id,
+    canonicalName: title.canonicalName,
+    type: title.type ?? null,
+    names,
+  });
+
+  for (const { key } of names) {
+    if (!index.byBase.has(key.base)) index.byBase.set(key.base, new Set());
+    index.byBase.get(key.base)!.add(title.id);
+  }
+  for (const external of title.externalIds ?? []) {
+    index.byExternalId.set(`${external.provider}:${external.externalId}`, title.id);
+  }
+}
+
+/**
+ * Build an index over titles. Confirmed outcome mappings take precedence
+ * over every name-based match.
+ */
+export function buildTitleIndex(
+  titles: MatchableTitle[],
+  confirmedMappings: ConfirmedOutcomeMapping[] = []
+): TitleIndex {
+  const index: TitleIndex = {
+    titles: new Map(),
+    byBase: new Map(),
+    byExternalId: new Map(),
+    byOutcome: new Map(),
+  };
+
+  for (const title of titles) addTitleToIndex(index, title);
+  for (const mapping of confirmedMappings) {
+    if (mapping.titleId && index.titles.has(mapping.titleId)) {
+      index.byOutcome.set(mapping.outcomeKey, mapping.titleId);
+    }
+  }
+
+  return index;
+}
+
+interface RankedCandidate {
+  candidate: TitleCandidate;
+  season: number;  // Season of the matched name, 0 if none
+}
+
+function compareCandidates(a: RankedCandidate, b: RankedCandidate): number {
+  return (
+    b.candidate.score - a.candidate.score ||
+    REASON_RANK[a.candidate.reason] - REASON_RANK[b.candidate.reason] ||
+    b.season - a.season ||  // Latest season first when a bare show name matches several
+    a.candidate.canonicalName.localeCompare(b.candidate.canonicalName)
+  );
+}
+
+/**
+ * Rank the titles a name could refer to, best first
+ */
+export function rankTitleCandidates(
+  index: TitleIndex,
+  name: string,
+  options: RankOptions = {}
+): TitleCandidate[] {
+  const query = titleNameKey(name);
+  const fuzzy = options.fuzzy !== false;
+  const best = new Map<string, RankedCandidate>();
+
+  const consider = (title: IndexedTitle, score: number, reason: TitleMatchReason, matched: IndexedName | null) => {
+    const typeMismatch = options.type && title.type && title.type !== options.type;
+    const ranked: RankedCandidate = {
+      candidate: {
+        titleId: title.id,
+        canonicalName: title.canonicalName,
+        type: title.type,
+        score: typeMismatch ? score * TYPE_MISMATCH_FACTOR : score,
+        reason,
+        matchedName: matched?.name ?? title.canonicalName,
+      },
+      season: matched?.key.season ?? 0,
+    };
+    const existing = best.get(title.id);
+    if (!existing || compareCandidates(ranked, existing) < 0) best.set(title.id, ranked);
+  };
+
+  const confirmedId = index.byOutcome.get(outcomeMatchKey(name));
+  if (confirmedId) consider(index.titles.get(confirmedId)!, REASON_SCORES.CONFIRMED, 'CONFIRMED', null);
+
+  if (options.externalId) {
+    const externalTitleId = index.byExternalId.get(`${options.externalId.provider}:${options.externalId.externalId}`);
+    if (externalTitleId) consider(index.titles.get(externalTitleId)!, REASON_SCORES.EXTERNAL_ID, 'EXTERNAL_ID', null);
+  }
+
+  // Same base name: exact, alias and season comparisons
+  for (const titleId of index.byBase.get(query.base) ?? []) {
+    const title = index.titles.get(titleId)!;
+    for (const candidateName of title.names) {
+      if (candidateName.key.base !== query.base) continue;
+      const scored = scoreName(query, candidateName, false)!;
+      consider(title, scored.score, scored.reason, candidateName);
+    }
+  }
+
+  if (fuzzy) {
+    for (const title of index.titles.values()) {
+      for (const candidateName of title.names) {
+        if (candidateName.key.base === query.base) continue;
+        const scored = scoreName(query, candidateName, true);
+        if (scored) consider(title, scored.score, scored.reason, candidateName);
+      }
+    }
+  }
+
+  const ranked = [...best.values()].sort(compareCandidates).map((r) => r.candidate);
+  return options.limit ? ranked.slice(0, options.limit) : ranked;
+}
+
+/**
+ * Best candidate for a name if it is safe to link automatically
+ */
+export function resolveTitle(
+  index: TitleIndex,
+  name: string,
+  options: RankOptions & { minScore?: number } = {}
+): TitleCandidate | null {
+  const [top] = rankTitleCandidates(index, name, { ...options, limit: 1 });
+  return top && top.score >= (options.minScore ?? MATCH_ACCEPT_SCORE) ? top : null;
+}
+
+/**
+ * Score two bare names against each other, or null if unrelated
+ */
+export function compareTitleNames(
+  name: string,
+  other: string,
+  options: { fuzzy?: boolean } = {}
+): { score: number; reason: TitleMatchReason } | null {
+  return scoreName(
+    titleNameKey(name),
+    { name: other, key: titleNameKey(other), isAlias: false },
+    options.fuzzy !== false
+  );
+}
+
+/**
+ * Whether two bare names safely refer to the same title
+ */
+export function namesMatch(name: string, other: string): boolean {
+  const scored = compareTitleNames(name, other, { fuzzy: false });
+  return scored !== null && scored.score >= MATCH_ACCEPT_SCORE;
+}
@@ -0,0 +1,439 @@
+/**
+ * Title Merge Service
+ *
+ * Merges duplicate Titles, splits wrongly merged ones, and undoes either
+ * from the TitleAuditEntry written alongside every change. Each operation
+ * runs as a single batch transaction: rows are re-pointed, the title rows
+ * updated and the audit entry created together or not at all.
+ *
+ * MarketProbabilitySnapshot.outcomes also carries titleIds inside Json, but
+ * calibration keys on outcome names, so those snapshots are left as-is.
+ */
+
+import type { TitleAuditAction } from '@prisma/client';
+import prisma from './prisma';
+import {
+  planRelationMerge,
+  planSeasonRemap,
+  unionAliases,
+  encodeSnapshotRow,
+  decodeSnapshotRow,
+  SeasonRemap,
+} from './titleResolution';
+
+export interface TitleRelation {
+  model: string;                // Prisma delegate name
+  label: string;
+  uniqueFields: string[] | null; // Columns unique together with titleId (null = no constraint)
+  describe: string[];           // Columns shown when picking rows to split off
+  seasonLinked?: boolean;       // Rows carry a seasonId pointing at the title's seasons
+}
+
+/**
+ * Every table that points at a Title
+ */
+export const TITLE_RELATIONS: TitleRelation[] = [
+  { model: 'season', label: 'Seasons', uniqueFields: ['seasonNumber'], describe: ['seasonNumber', 'name'] },
+  { model: 'netflixWeeklyGlobal', label: 'Netflix weekly (global)', uniqueFields: ['seasonNumber', 'weekStart', 'category'], describe: ['seasonNumber', 'weekStart', 'category', 'rank'], seasonLinked: true },
+  { model: 'netflixWeeklyUS', label: 'Netflix weekly (US)', uniqueFields: ['seasonNumber', 'weekStart', 'category'], describe: ['seasonNumber', 'weekStart', 'category', 'rank'], seasonLinked: true },
+  { model: 'netflixWeeklyCountry', label: 'Netflix weekly (countries)', uniqueFields: ['seasonNumber', 'weekStart', 'category', 'countryIso2'], describe: ['seasonNumber', 'weekStart', 'countryIso2', 'rank'], seasonLinked: true },
+  { model: 'dailySignal', label: 'Daily signals', uniqueFields: ['date', 'source', 'geo'], describe: ['date', 'source', 'geo', 'value'] },
+  { model: 'forecastWeekly', label: 'Forecasts', uniqueFields: ['seasonNumber', 'weekStart', 'target'], describe: ['seasonNumber', 'weekStart', 'target', 'p50'], seasonLinked: true },
+  { model: 'forecastWeeklyVersion', label: 'Forecast history', uniqueFields: null, describe: ['seasonNumber', 'weekStart', 'target', 'p50'], seasonLinked: true },
+  { model: 'pacingMetricDaily', label: 'Pacing metrics', uniqueFields: ['date'], describe: ['date', 'pacingScore'] },
+  { model: 'flixPatrolDaily', label: 'FlixPatrol daily', uniqueFields: null, describe: ['date', 'region', 'rank', 'titleName'], seasonLinked: true },
+  { model: 'flixPatrolTrailer', label: 'FlixPatrol trailers', uniqueFields: ['fpTrailerId', 'fetchedAt'], describe: ['trailerTitle', 'fetchedAt'] },
+  { model: 'flixPatrolSocial', label: 'FlixPatrol social', uniqueFields: ['platform', 'fetchedAt'], describe: ['platform', 'followers', 'fetchedAt'] },
+  { model: 'marketTitleLink', label: 'Market links', uniqueFields: ['marketId'], describe: ['marketId'], seasonLinked: true },
+  { model: 'titleExternalId', label: 'External IDs', uniqueFields: ['provider'], describe: ['provider', 'externalId'] },
+  { model: 'releaseCandidate', label: 'Release candidates', uniqueFields: null, describe: ['name', 'source', 'releaseDate'] },
+  { model: 'pinnedTitle', label: 'Legacy pins', uniqueFields: [], describe: ['pinnedBy', 'pinnedAt'] },
+  { model: 'watchlistItem', label: 'Watchlist items', uniqueFields: ['watchlistId'], describe: ['watchlistId', 'addedAt'] },
+  { model: 'paperPosition', label: 'Paper positions', uniqueFields: null, describe: ['outcomeName', 'category', 'status'] },
+  { model: 'outcomeTitleMapping', label: 'Outcome mappings', uniqueFields: null, describe: ['outcomeName', 'status'] },
+];
+
+// Title columns a merge copies from the duplicate when the survivor lacks them
+const MERGEABLE_TITLE_FIELDS = [
+  'tmdbId',
+  'imdbId',
+  'imdbRating',
+  'imdbVotes',
+  'rtCriticScore',
+  'metascore',
+  'rated',
+  'ratingsUpdatedAt',
+];
+
+const RELATION_BY_MODEL = new Map(TITLE_RELATIONS.map((r) => [r.model, r]));
+
+interface TitleRow {
+  id: string;
+  canonicalName: string;
+  type: 'SHOW' | 'MOVIE';
+  aliases: unknown;
+  [field: string]: unknown;
+}
+
+export interface TitleAuditSnapshot {
+  title: Record<string, unknown> | null;         // Merged-away title row (MERGE only)
+  targetBefore: Record<string, unknown>;         // Target columns before the change
+  moved: Record<string, string[]>;               // Row IDs re-pointed, by relation
+  dropped: Record<string, Record<string, unknown>[]>; // Rows deleted on unique clashes, by relation
+  reseasoned?: Record<string, SeasonRemap[]>;     // Moved rows re-pointed off dropped seasons, by relation
+}
+
+export type TitleOperationResult =
+  | { auditId: string; summary: string; moved: Record<string, number>; dropped: Record<string, number>; error?: undefined }
+  | { error: string; status: number };
+
+function aliasList(aliases: unknown): string[] {
+  return Array.isArray(aliases) ? aliases.filter((a): a is string => typeof a === 'string') : [];
+}
+
+// One updateMany per seasonId, setting the rows' seasonId to it
+function seasonUpdates(byRelation: Record<string, SeasonRemap[]>, seasonOf: (remap: SeasonRemap) => string) {
+  return Object.entries(byRelation).flatMap(([model, remaps]) => {
+    const idsBySeason = new Map<string, string[]>();
+    for (const remap of remaps) {
+      const seasonId = seasonOf(remap);
+      idsBySeason.set(seasonId, [...(idsBySeason.get(seasonId) ?? []), remap.id]);
+    }
+    return [...idsBySeason].map(([seasonId, ids]) =>
+      prisma[model].updateMany({ where: { id: { in: ids } }, data: { seasonId } })
+    );
+  });
+}
+
+function countByRelation<T>(byRelation: Record<string, T[]>): Record<string, number> {
+  return Object.fromEntries(Object.entries(byRelation).map(([model, rows]) => [model, rows.length]));
+}
+
+/**
+ * Merge sourceId into targetId: re-point every relation, union aliases,
+ * fill the target's missing ratings/IDs, delete the source and record an
+ * undoable audit entry. Rows on a source season that clashes with one of
+ * the target's move to the target's season before the source's is deleted.
+ */
+export async function mergeTitles(
+  targetId: string,
+  sourceId: string,
+  performedBy: string
+): Promise<TitleOperationResult> {
+  if (targetId === sourceId) {
+    return { error: 'Cannot merge a title into itself', status: 400 };
+  }
+
+  const [target, source] = await Promise.all([
+    prisma.title.findUnique({ where: { id: targetId } }),
+    prisma.title.findUnique({ where: { id: sourceId } }),
+  ]) as [TitleRow | null, TitleRow | null];
+  if (!target || !source) {
+    return { error: 'Title not found', status: 404 };
+  }
+
+  const moved: Record<string, string[]> = {};
+  const dropped: Record<string, Record<string, unknown>[]> = {};
+  const reseasoned: Record<string, SeasonRemap[]> = {};
+  let targetSeasons: Record<string, unknown>[] = [];
+
+  for (const relation of TITLE_RELATIONS) {
+    const delegate = prisma[relation.model];
+    const sourceRows = await delegate.findMany({ where: { titleId: sourceId } }) as Array<Record<string, unknown> & { id: string }>;
+    if (sourceRows.length === 0) continue;
+
+    const targetRows = relation.uniqueFields === null
+      ? []
+      : await delegate.findMany({
+          where: { titleId: targetId },
+          select: Object.fromEntries(['id', ...relation.uniqueFields].map((f) => [f, true])),
+        }) as Record<string, unknown>[];
+
+    const plan = planRelationMerge(targetRows, sourceRows, relation.uniqueFields);
+    if (plan.moveIds.length > 0) moved[relation.model] = plan.moveIds;
+    if (plan.dropped.length > 0) dropped[relation.model] = plan.dropped.map(encodeSnapshotRow);
+    if (relation.model === 'season') targetSeasons = targetRows;
+
+    // Seasons come first in TITLE_RELATIONS, so the dropped ones are known here
+    if (relation.seasonLinked && dropped.season) {
+      const moveIds = new Set(plan.moveIds);
+      const remaps = planSeasonRemap(targetSeasons, dropped.season, sourceRows.filter((r) => moveIds.has(r.id)));
+      if (remaps.length > 0) reseasoned[relation.model] = remaps;
+    }
+  }
+
+  const targetBefore: Record<string, unknown> = { aliases: aliasList(target.aliases) };
+  const targetUpdate: Record<string, unknown> = {
+    aliases: unionAliases(
+      { canonicalName: target.canonicalName, aliases: aliasList(target.aliases) },
+      { canonicalName: source.canonicalName, aliases: aliasList(source.aliases) }
+    ),
+  };
+  for (const field of MERGEABLE_TITLE_FIELDS) {
+    if (target[field] == null && source[field] != null) {
+      targetBefore[field] = null;
+      targetUpdate[field] = source[field];
+    }
+  }
+
+  const summary = `Merged "${source.canonicalName}" into "${target.canonicalName}"`;
+  const snapshot: TitleAuditSnapshot = { title: encodeSnapshotRow(source), targetBefore, moved, dropped, reseasoned };
+
+  const operations = [
+    // Before the dropped seasons are deleted, which would null these seasonIds
+    ...seasonUpdates(reseasoned, (remap) => remap.to),
+    ...Object.entries(dropped).map(([model, rows]) =>
+      prisma[model].deleteMany({ where: { id: { in: rows.map((r) => r.id) } } })
+    ),
+    ...Object.entries(moved).map(([model, ids]) =>
+      prisma[model].updateMany({ where: { id: { in: ids } }, data: { titleId: targetId } })
+    ),
+    prisma.title.update({ where: { id: targetId }, data: targetUpdate }),
+    prisma.title.delete({ where: { id: sourceId } }),
+    prisma.titleAuditEntry.create({
+      data: {
+        action: 'MERGE' as TitleAuditAction,
+        targetTitleId: targetId,
+        sourceTitleId: sourceId,
+        summary,
+        snapshot,
+        performedBy,
+      },
+    }),
+  ];
+
+  const results = await prisma.$transaction(operations);
+  const audit = results[results.length - 1] as { id: string };
+
+  return { auditId: audit.id, summary, moved: countByRelation(moved), dropped: countByRelation(dropped) };
+}
+
+export interface SplitTitleInput {
+  titleId: string;
+  canonicalName: string;
+  type: 'SHOW' | 'MOVIE';
+  aliases: string[];              // Aliases to move to the new title
+  rows: Record<string, string[]>; // Row IDs to move, by relation
+  performedBy: string;
+}
+
+/**
+ * Split a new title out of titleId, moving the chosen aliases and rows
+ */
+export async function splitTitle(input: SplitTitleInput): Promise<TitleOperationResult> {
+  const canonicalName = input.canonicalName.trim();
+  if (!canonicalName) {
+    return { error: 'canonicalName is required', status: 400 };
+  }
+
+  const unknownRelation = Object.keys(input.rows).find((model) => !RELATION_BY_MODEL.has(model));
+  if (unknownRelation) {
+    return { error: `Unknown relation: ${unknownRelation}`, status: 400 };
+  }
+
+  const original = await prisma.title.findUnique({ where: { id: input.titleId } }) as TitleRow | null;
+  if (!original) {
+    return { error: 'Title not found', status: 404 };
+  }
+
+  const clash = await prisma.title.findUnique({
+    where: { canonicalName_type: { canonicalName, type: input.type } },
+  });
+  if (clash) {
+    return { error: `A ${input.type} named "${canonicalName}" already exists`, status: 409 };
+  }
+
+  // Only move rows and aliases that really belong to the original title
+  const moved: Record<string, string[]> = {};
+  for (const [model, ids] of Object.entries(input.rows)) {
+    if (ids.length === 0) continue;
+    const owned = await prisma[model].findMany({
+      where: { id: { in: ids }, titleId: input.titleId },
+      select: { id: true },
+    }) as { id: string }[];
+    if (owned.length > 0) moved[model] = owned.map((r) => r.id);
+  }
+
+  const originalAliases = aliasList(original.aliases);
+  const movedAliases = originalAliases.filter((a) => input.aliases.includes(a));
+
+  if (Object.keys(moved).length === 0 && movedAliases.length === 0) {
+    return { error: 'Choose at least one row or alias to split off', status: 400 };
+  }
+
+  // The new title's ID is needed by the batch below, so it is created first
+  // and removed again if the batch fails
+  const created = await prisma.title.create({
+    data: { canonicalName, type: input.type, aliases: movedAliases },
+  }) as { id: string };
+
+  const summary = `Split "${canonicalName}" out of "${original.canonicalName}"`;
+  const snapshot: TitleAuditSnapshot = {
+    title: null,
+    targetBefore: { aliases: originalAliases },
+    moved,
+    dropped: {},
+  };
+
+  try {
+    const results = await prisma.$transaction([
+      ...Object.entries(moved).map(([model, ids]) =>
+        prisma[model].updateMany({ where: { id: { in: ids }, titleId: input.titleId }, data: { titleId: created.id } })
+      ),
+      prisma.title.update({
+        where: { id: input.titleId },
+        data: { aliases: originalAliases.filter((a) => !movedAliases.includes(a)) },
+      }),
+      prisma.titleAuditEntry.create({
+        data: {
+          action: 'SPLIT' as TitleAuditAction,
+          targetTitleId: input.titleId,
+          sourceTitleId: created.id,
+          summary,
+          snapshot,
+          performedBy: input.performedBy,
+        },
+      }),
+    ]);
+    const audit = results[results.length - 1] as { id: string };
+
+    return { auditId: audit.id, summary, moved: countByRelation(moved), dropped: {} };
+  } catch (error) {
+    await prisma.title.delete({ where: { id: created.id } });
+    throw error;
+  }
+}
+
+/**
+ * Reverse a merge (recreate the merged title and move its rows back) or a
+ * split (move the rows back and delete the split-off title)
+ */
+export async function undoTitleAudit(auditId: string, performedBy: string): Promise<TitleOperationResult> {
+  const entry = await prisma.titleAuditEntry.findUnique({ where: { id: auditId } }) as {
+    action: TitleAuditAction;
+    targetTitleId: string;
+    sourceTitleId: string;
+    summary: string;
+    snapshot: TitleAuditSnapshot;
+    undoneAt: Date | null;
+  } | null;
+  if (!entry) {
+    return { error: 'Audit entry not found', status: 404 };
+  }
+  if (entry.undoneAt) {
+    return { error: 'This change has already been undone', status: 409 };
+  }
+
+  const target = await prisma.title.findUnique({ where: { id: entry.targetTitleId } });
+  if (!target) {
+    return { error: 'The surviving title no longer exists', status: 409 };
+  }
+
+  const { snapshot } = entry;
+  const markUndone = prisma.titleAuditEntry.update({
+    where: { id: auditId },
+    data: { undoneAt: new Date(), undoneBy: performedBy },
+  });
+
+  if (entry.action === 'MERGE') {
+    const title = decodeSnapshotRow(snapshot.title ?? {});
+    const clash = await prisma.title.findFirst({
+      where: {
+        OR: [
+          { id: entry.sourceTitleId },
+          { canonicalName: title.canonicalName, type: title.type },
+        ],
+      },
+    });
+    if (clash) {
+      return { error: `A title named "${title.canonicalName}" exists again; rename or merge it first`, status: 409 };
+    }
+
+    await prisma.$transaction([
+      prisma.title.create({ data: title }),
+      ...Object.entries(snapshot.moved).map(([model, ids]) =>
+        prisma[model].updateMany({
+          where: { id: { in: ids }, titleId: entry.targetTitleId },
+          data: { titleId: entry.sourceTitleId },
+        })
+      ),
+      ...Object.entries(snapshot.dropped).map(([model, rows]) =>
+        prisma[model].createMany({ data: rows.map(decodeSnapshotRow) })
+      ),
+      // After the dropped seasons are recreated
+      ...seasonUpdates(snapshot.reseasoned ?? {}, (remap) => remap.from),
+      prisma.title.update({ where: { id: entry.targetTitleId }, data: snapshot.targetBefore }),
+      markUndone,
+    ]);
+  } else {
+    // Refuse if the split-off title has picked up data since the split
+    for (const relation of TITLE_RELATIONS) {
+      const movedIds = snapshot.moved[relation.model] ?? [];
+      const extra = await prisma[relation.model].count({
+        where: { titleId: entry.sourceTitleId, id: { notIn: movedIds } },
+      });
+      if (extra > 0) {
+        return {
+          error: `The split-off title has new ${relation.label.toLowerCase()}; merge it back instead`,
+          status: 409,
+        };
+      }
+    }
+
+    await prisma.$transaction([
+      ...Object.entries(snapshot.moved).map(([model, ids]) =>
+        prisma[model].updateMany({
+          where: { id: { in: ids }, titleId: entry.sourceTitleId },
+          data: { titleId: entry.targetTitleId },
+        })
+      ),
+      prisma.title.update({ where: { id: entry.targetTitleId }, data: snapshot.targetBefore }),
+      prisma.title.deleteMany({ where: { id: entry.sourceTitleId } }),
+      markUndone,
+    ]);
+  }
+
+  return {
+    auditId,
+    summary: `Undid: ${entry.summary}`,
+    moved: countByRelation(snapshot.moved),
+    dropped: countByRelation(snapshot.dropped),
+  };
+}
+
+/**
+ * Rows attached to a title, grouped by relation, for choosing what to split
+ */
+export async function getTitleRows(titleId: string, limitPerRelation = 200) {
+  const groups = [];
+
+  for (const relation of TITLE_RELATIONS) {
+    const delegate = prisma[relation.model];
+    const [total, rows] = await Promise.all([
+      delegate.count({ where: { titleId } }),
+      delegate.findMany({
+        where: { titleId },
+        select: Object.fromEntries(['id', ...relation.describe].map((f) => [f, true])),
+        take: limitPerRelation,
+      }),
+    ]) as [number, Record<string, unknown>[]];
+    if (total === 0) continue;
+
+    groups.push({
+      relation: relation.model,
+      label: relation.label,
+      total,
+      rows: rows.map((row) => ({
+        id: row.id as string,
+        summary: relation.describe
+          .map((field) => {
+            const value = row[field];
+            return value instanceof Date ? value.toISOString().split('T')[0] : String(value ?? '—');
+          })
+          .join(' · '),
+      })),
+    });
+  }
+
+  return groups;
+}
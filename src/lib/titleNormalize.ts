@@ -45,6 +45,9 @@ const SEASON_PATTERNS = [
   /^(.+?)[\s]+Volume[\s]+(\d+)$/i,
 ];
 
+// Patterns from here on match parts and volumes rather than seasons
+const FIRST_PART_PATTERN = 4;
+
 // Roman numeral mapping
 const ROMAN_NUMERALS: Record<string, number> = {
   'I': 1, 'II': 2, 'III': 3, 'IV': 4, 'V': 5,
@@ -100,9 +103,12 @@ export function removeBracketedSuffixes(title: string): string {
  * Returns the base name and season number if found
  */
 export function extractSeasonInfo(title: string): SeasonInfo | null {
-  for (const pattern of SEASON_PATTERNS) {
+  for (const [i, pattern] of SEASON_PATTERNS.entries()) {
     const match = title.match(pattern);
     if (match) {
+      // "Show: Season 3: Part 2" is a part of season 3, not season 2
+      const inner = i >= FIRST_PART_PATTERN ? extractSeasonInfo(match[1]) : null;
+      if (inner) return inner;
       return {
         baseName: normalizeText(match[1]),
         seasonNumber: parseInt(match[2], 10),
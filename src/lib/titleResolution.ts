@@ -0,0 +1,317 @@
+/**
+ * Title Resolution Library
+ *
+ * Pure helpers for the title entity-resolution workbench:
+ * - Finds probable duplicate Title clusters by name, alias, fuzzy name and
+ *   shared external IDs
+ * - Plans how a duplicate's rows move onto the surviving title without
+ *   breaking unique constraints, keeping their seasons
+ * - Encodes rows for the undo snapshot kept in TitleAuditEntry
+ */
+
+import {
+  titlesMatch,
+  isAlias,
+  normalizeTitle,
+  mergeAliases,
+  createMatchingKey,
+} from './titleNormalize';
+import { levenshteinDistance } from './titleMatcher';
+
+export type DuplicateReason = 'NAME_MATCH' | 'ALIAS' | 'FUZZY_NAME' | 'SHARED_EXTERNAL_ID';
+
+export interface ResolutionTitle {
+  id: string;
+  canonicalName: string;
+  type: 'SHOW' | 'MOVIE';
+  aliases: string[];
+  imdbId?: string | null;
+  tmdbId?: number | null;
+  externalIds: { provider: string; externalId: string }[];
+}
+
+export interface DuplicatePair {
+  titleIds: [string, string];
+  reason: DuplicateReason;
+  detail: string;
+}
+
+export interface DuplicateCluster {
+  titleIds: string[];
+  pairs: DuplicatePair[];
+}
+
+// Fuzzy names must be this long and this close to be flagged
+const FUZZY_MIN_LENGTH = 6;
+const FUZZY_MAX_DISTANCE = 2;
+
+// Strongest reason wins when a pair matches several ways
+const REASON_RANK: Record<DuplicateReason, number> = {
+  SHARED_EXTERNAL_ID: 0,
+  NAME_MATCH: 1,
+  ALIAS: 2,
+  FUZZY_NAME: 3,
+};
+
+function titleNames(title: ResolutionTitle): string[] {
+  return [title.canonicalName, ...title.aliases];
+}
+
+function identityKeys(title: ResolutionTitle): string[] {
+  const keys = title.externalIds.map((e) => `${e.provider}:${e.externalId}`);
+  if (title.imdbId) keys.push(`imdb:${title.imdbId}`);
+  if (title.tmdbId) keys.push(`tmdb:${title.tmdbId}`);
+  return [...new Set(keys)];
+}
+
+/**
+ * Compare the names of two titles, returning the closest match found
+ */
+function compareNames(a: ResolutionTitle, b: ResolutionTitle): Omit<DuplicatePair, 'titleIds'> | null {
+  let best: Omit<DuplicatePair, 'titleIds'> | null = null;
+  const consider = (candidate: Omit<DuplicatePair, 'titleIds'>) => {
+    if (!best || REASON_RANK[candidate.reason] < REASON_RANK[best.reason]) best = candidate;
+  };
+
+  for (const nameA of titleNames(a)) {
+    for (const nameB of titleNames(b)) {
+      if (titlesMatch(nameA, nameB)) {
+        consider({ reason: 'NAME_MATCH', detail: `"${nameA}" = "${nameB}"` });
+      } else if (isAlias(nameA, nameB) || isAlias(nameB, nameA)) {
+        consider({ reason: 'ALIAS', detail: `"${nameA}" ~ "${nameB}"` });
+      } else if (a.type === b.type) {
+        const keyA = normalizeTitle(nameA).normalized;
+        const keyB = normalizeTitle(nameB).normalized;
+        if (Math.min(keyA.length, keyB.length) < FUZZY_MIN_LENGTH) continue;
+        if (Math.abs(keyA.length - keyB.length) > FUZZY_MAX_DISTANCE) continue;
+        const distance = levenshteinDistance(keyA, keyB);
+        if (distance <= FUZZY_MAX_DISTANCE) {
+          consider({ reason: 'FUZZY_NAME', detail: `"${nameA}" / "${nameB}" (edit distance ${distance})` });
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find probable duplicate pairs among titles.
+ *
+ * Only pairs sharing a name bucket (same normalized key, or same type and
+ * key prefix for fuzzy matches) or an external ID are compared, so this
+ * stays fast on the full Title table.
+ */
+export function findDuplicatePairs(titles: ResolutionTitle[]): DuplicatePair[] {
+  const byId = new Map(titles.map((t) => [t.id, t]));
+  const candidates = new Map<string, [string, string]>();
+  const buckets = new Map<string, Set<string>>();
+
+  const addToBucket = (key: string, id: string) => {
+    if (!buckets.has(key)) buckets.set(key, new Set());
+    buckets.get(key)!.add(id);
+  };
+
+  for (const title of titles) {
+    for (const name of titleNames(title)) {
+      const key = normalizeTitle(name).normalized;
+      if (!key) continue;
+      addToBucket(`name:${key}`, title.id);
+      addToBucket(`raw:${createMatchingKey(name)}`, title.id);
+      if (key.length >= FUZZY_MIN_LENGTH) {
+        addToBucket(`prefix:${title.type}:${key.slice(0, 3)}`, title.id);
+      }
+    }
+    for (const key of identityKeys(title)) {
+      addToBucket(`id:${key}`, title.id);
+    }
+  }
+
+  for (const ids of buckets.values()) {
+    if (ids.size < 2) continue;
+    const list = [...ids].sort();
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        candidates.set(`${list[i]}|${list[j]}`, [list[i], list[j]]);
+      }
+    }
+  }
+
+  const pairs: DuplicatePair[] = [];
+  for (const [idA, idB] of candidates.values()) {
+    const a = byId.get(idA)!;
+    const b = byId.get(idB)!;
+
+    const sharedIds = identityKeys(a).filter((key) => identityKeys(b).includes(key));
+    if (sharedIds.length > 0) {
+      pairs.push({ titleIds: [idA, idB], reason: 'SHARED_EXTERNAL_ID', detail: sharedIds.join(', ') });
+      continue;
+    }
+
+    const match = compareNames(a, b);
+    if (match) pairs.push({ titleIds: [idA, idB], ...match });
+  }
+
+  return pairs.sort((x, y) => REASON_RANK[x.reason] - REASON_RANK[y.reason]);
+}
+
+/**
+ * Group duplicate pairs into connected clusters of titles
+ */
+export function clusterDuplicates(titles: ResolutionTitle[]): DuplicateCluster[] {
+  const pairs = findDuplicatePairs(titles);
+  const parent = new Map<string, string>();
+
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const pair of pairs) {
+    const [rootA, rootB] = pair.titleIds.map(find);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  }
+
+  const clusters = new Map<string, DuplicateCluster>();
+  for (const pair of pairs) {
+    const root = find(pair.titleIds[0]);
+    if (!clusters.has(root)) clusters.set(root, { titleIds: [], pairs: [] });
+    const cluster = clusters.get(root)!;
+    cluster.pairs.push(pair);
+    for (const id of pair.titleIds) {
+      if (!cluster.titleIds.includes(id)) cluster.titleIds.push(id);
+    }
+  }
+
+  return [...clusters.values()].sort(
+    (a, b) => REASON_RANK[a.pairs[0].reason] - REASON_RANK[b.pairs[0].reason] || b.titleIds.length - a.titleIds.length
+  );
+}
+
+/**
+ * Aliases for the surviving title: its own plus the duplicate's name and aliases
+ */
+export function unionAliases(
+  target: { canonicalName: string; aliases: string[] },
+  source: { canonicalName: string; aliases: string[] }
+): string[] {
+  const targetKey = createMatchingKey(target.canonicalName);
+  let aliases = [...target.aliases];
+
+  for (const name of [source.canonicalName, ...source.aliases]) {
+    if (createMatchingKey(name) === targetKey) continue;
+    aliases = mergeAliases(aliases, name);
+  }
+
+  return aliases;
+}
+
+/**
+ * Build the unique-constraint key of a row from the given fields
+ */
+export function rowKey(row: Record<string, unknown>, fields: string[]): string {
+  return fields
+    .map((field) => {
+      const value = row[field];
+      return value instanceof Date ? value.toISOString() : String(value);
+    })
+    .join('|');
+}
+
+/**
+ * Plan moving a duplicate's rows for one relation onto the surviving title.
+ *
+ * uniqueFields are the columns that, together with titleId, form a unique
+ * constraint (an empty list means titleId alone is unique; null means no
+ * constraint). Rows whose key the survivor already has are dropped, since
+ * the survivor's own data wins.
+ */
+export function planRelationMerge<T extends { id: string }>(
+  targetRows: Record<string, unknown>[],
+  sourceRows: T[],
+  uniqueFields: string[] | null
+): { moveIds: string[]; dropped: T[] } {
+  if (uniqueFields === null) {
+    return { moveIds: sourceRows.map((r) => r.id), dropped: [] };
+  }
+
+  const taken = new Set(targetRows.map((row) => rowKey(row, uniqueFields)));
+  const moveIds: string[] = [];
+  const dropped: T[] = [];
+
+  for (const row of sourceRows) {
+    const key = rowKey(row as unknown as Record<string, unknown>, uniqueFields);
+    if (taken.has(key)) {
+      dropped.push(row);
+    } else {
+      taken.add(key);
+      moveIds.push(row.id);
+    }
+  }
+
+  return { moveIds, dropped };
+}
+
+// A moved row's seasonId switched from a dropped season to the survivor's
+export interface SeasonRemap {
+  id: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Plan re-pointing moved rows off seasons dropped in a merge.
+ *
+ * A duplicate's season is dropped when the survivor already has its season
+ * number; rows that referenced it would otherwise lose their seasonId, so
+ * they move to the survivor's season with the same number.
+ */
+export function planSeasonRemap(
+  targetSeasons: Record<string, unknown>[],
+  droppedSeasons: Record<string, unknown>[],
+  movedRows: Record<string, unknown>[]
+): SeasonRemap[] {
+  const targetByNumber = new Map(targetSeasons.map((s) => [String(s.seasonNumber), s.id as string]));
+  const replacement = new Map<string, string>();
+  for (const season of droppedSeasons) {
+    const to = targetByNumber.get(String(season.seasonNumber));
+    if (to) replacement.set(season.id as string, to);
+  }
+
+  return movedRows.flatMap((row) => {
+    const from = row.seasonId as string | null | undefined;
+    const to = from ? replacement.get(from) : undefined;
+    return from && to ? [{ id: row.id as string, from, to }] : [];
+  });
+}
+
+/**
+ * Encode a database row for a Json snapshot (BigInt is not JSON-safe)
+ */
+export function encodeSnapshotRow(row: Record<string, unknown>): Record<string, unknown> {
+  const encoded: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(row)) {
+    encoded[field] = typeof value === 'bigint' ? { $bigint: value.toString() } : value;
+  }
+  return encoded;
+}
+
+/**
+ * Decode a snapshot row back into create input. Null columns are omitted
+ * so nullable Json columns fall back to their database default.
+ */
+export function decodeSnapshotRow(row: Record<string, unknown>): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(row)) {
+    if (value === null || value === undefined) continue;
+    if (typeof value === 'object' && value !== null && '$bigint' in value) {
+      decoded[field] = BigInt((value as { $bigint: string }).$bigint);
+    } else {
+      decoded[field] = value;
+    }
+  }
+  return decoded;
+}
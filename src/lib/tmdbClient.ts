@@ -10,6 +10,37 @@ import axios from 'axios';
 const TMDB_BASE_URL = 'https://api.themoviedb.org/3';
 const NETFLIX_PROVIDER_ID = 8; // Netflix's watch provider ID in TMDB
 
+// TMDB genre IDs (movie and TV lists share the common ones)
+const TMDB_GENRES: Record<number, string> = {
+  12: 'Adventure',
+  14: 'Fantasy',
+  16: 'Animation',
+  18: 'Drama',
+  27: 'Horror',
+  28: 'Action',
+  35: 'Comedy',
+  36: 'History',
+  37: 'Western',
+  53: 'Thriller',
+  80: 'Crime',
+  99: 'Documentary',
+  878: 'Science Fiction',
+  9648: 'Mystery',
+  10402: 'Music',
+  10749: 'Romance',
+  10751: 'Family',
+  10752: 'War',
+  10759: 'Action & Adventure',
+  10762: 'Kids',
+  10763: 'News',
+  10764: 'Reality',
+  10765: 'Sci-Fi & Fantasy',
+  10766: 'Soap',
+  10767: 'Talk',
+  10768: 'War & Politics',
+  10770: 'TV Movie',
+};
+
 interface TMDBMovie {
   id: number;
   title: string;
@@ -63,6 +94,11 @@ export interface NetflixRelease {
   posterPath: string | null;
   popularity: number;
   voteAverage: number;
+  genres: string[];
+}
+
+function genreNames(genreIds: number[]): string[] {
+  return genreIds.flatMap((id) => (TMDB_GENRES[id] ? [TMDB_GENRES[id]] : []));
 }
 
 function getApiKey(): string {
@@ -116,6 +152,7 @@ export async function discoverNetflixMovies(options: {
     posterPath: movie.poster_path,
     popularity: movie.popularity,
     voteAverage: movie.vote_average,
+    genres: genreNames(movie.genre_ids ?? []),
   }));
 }
 
@@ -162,6 +199,7 @@ export async function discoverNetflixShows(options: {
     posterPath: show.poster_path,
     popularity: show.popularity,
     voteAverage: show.vote_average,
+    genres: genreNames(show.genre_ids ?? []),
   }));
 }
 
@@ -274,6 +312,7 @@ export async function searchTMDB(
       posterPath: item.poster_path,
       popularity: item.popularity,
       voteAverage: item.vote_average,
+      genres: genreNames(item.genre_ids ?? []),
     };
   });
 }
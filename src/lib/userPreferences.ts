@@ -0,0 +1,145 @@
+/**
+ * User Preferences
+ *
+ * Pure validation for per-user settings stored in UserPreference rows and
+ * SavedInsiderFilter snapshots. Stored values are re-resolved on read so a
+ * preference saved under an older shape falls back to defaults field by
+ * field rather than breaking the page.
+ */
+
+import type { InsiderBadgeType } from '@prisma/client';
+import type { MarketCategory } from './forecaster';
+import { MARKET_CATEGORIES, INSIDER_BADGE_TYPES } from './alertRules';
+
+export const NETFLIX_PREFERENCE_KEY = 'netflix';
+
+export type NetflixViewMode = 'rankings' | 'opportunities';
+
+export const NETFLIX_VIEW_MODES: NetflixViewMode[] = ['rankings', 'opportunities'];
+export const MIN_EDGE_OPTIONS = [5, 10, 15, 20];
+
+export interface NetflixPreferences {
+  defaultTab: MarketCategory;
+  viewMode: NetflixViewMode;
+  minEdge: number;
+}
+
+export const DEFAULT_NETFLIX_PREFERENCES: NetflixPreferences = {
+  defaultTab: 'shows-us',
+  viewMode: 'rankings',
+  minEdge: 10,
+};
+
+export const INSIDER_TIMEFRAMES = [7, 30, 60, 90];
+export const MAX_SAVED_INSIDER_FILTERS = 20;
+
+export interface SavedInsiderFilters {
+  timeframe: number;
+  badges: InsiderBadgeType[];
+  categories: string[];
+  side: 'all' | 'buy' | 'sell';
+  minSize: number | null;
+  maxSize: number | null;
+}
+
+type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+function asRecord(raw: unknown): Record<string, unknown> | null {
+  return raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+}
+
+/**
+ * Resolve stored Netflix preferences, dropping unknown or invalid fields
+ */
+export function resolveNetflixPreferences(stored: unknown): NetflixPreferences {
+  const parsed = parseNetflixPreferences(stored);
+  return { ...DEFAULT_NETFLIX_PREFERENCES, ...(parsed.value ?? {}) };
+}
+
+/**
+ * Validate a (partial) Netflix preferences update
+ */
+export function parseNetflixPreferences(raw: unknown): ParseResult<Partial<NetflixPreferences>> {
+  const input = asRecord(raw);
+  if (!input) return { error: 'preferences must be an object' };
+
+  const value: Partial<NetflixPreferences> = {};
+
+  if (input.defaultTab !== undefined) {
+    if (!MARKET_CATEGORIES.includes(input.defaultTab as MarketCategory)) {
+      return { error: `defaultTab must be one of ${MARKET_CATEGORIES.join(', ')}` };
+    }
+    value.defaultTab = input.defaultTab as MarketCategory;
+  }
+
+  if (input.viewMode !== undefined) {
+    if (!NETFLIX_VIEW_MODES.includes(input.viewMode as NetflixViewMode)) {
+      return { error: `viewMode must be one of ${NETFLIX_VIEW_MODES.join(', ')}` };
+    }
+    value.viewMode = input.viewMode as NetflixViewMode;
+  }
+
+  if (input.minEdge !== undefined) {
+    if (!MIN_EDGE_OPTIONS.includes(input.minEdge as number)) {
+      return { error: `minEdge must be one of ${MIN_EDGE_OPTIONS.join(', ')}` };
+    }
+    value.minEdge = input.minEdge as number;
+  }
+
+  return { value };
+}
+
+function parseSize(raw: unknown, field: string): ParseResult<number | null> {
+  if (raw === undefined || raw === null) return { value: null };
+  if (typeof raw !== 'number' || !Number.isFinite(raw) || raw < 0) {
+    return { error: `${field} must be a non-negative number or null` };
+  }
+  return { value: raw };
+}
+
+/**
+ * Validate an Insider Finder filter snapshot before saving it
+ */
+export function parseInsiderFilters(raw: unknown): ParseResult<SavedInsiderFilters> {
+  const input = asRecord(raw);
+  if (!input) return { error: 'filters must be an object' };
+
+  const timeframe = input.timeframe ?? 30;
+  if (!INSIDER_TIMEFRAMES.includes(timeframe as number)) {
+    return { error: `timeframe must be one of ${INSIDER_TIMEFRAMES.join(', ')}` };
+  }
+
+  const badges = input.badges ?? [];
+  if (!Array.isArray(badges) || !badges.every((b) => INSIDER_BADGE_TYPES.includes(b))) {
+    return { error: `badges must be a list of ${INSIDER_BADGE_TYPES.join(', ')}` };
+  }
+
+  const categories = input.categories ?? [];
+  if (!Array.isArray(categories) || !categories.every((c) => typeof c === 'string' && c.trim())) {
+    return { error: 'categories must be a list of category names' };
+  }
+
+  const side = input.side ?? 'all';
+  if (side !== 'all' && side !== 'buy' && side !== 'sell') {
+    return { error: 'side must be one of all, buy, sell' };
+  }
+
+  const minSize = parseSize(input.minSize, 'minSize');
+  if (minSize.error !== undefined) return { error: minSize.error };
+  const maxSize = parseSize(input.maxSize, 'maxSize');
+  if (maxSize.error !== undefined) return { error: maxSize.error };
+  if (minSize.value !== null && maxSize.value !== null && minSize.value > maxSize.value) {
+    return { error: 'minSize cannot exceed maxSize' };
+  }
+
+  return {
+    value: {
+      timeframe: timeframe as number,
+      badges: [...new Set(badges as InsiderBadgeType[])],
+      categories: [...new Set((categories as string[]).map((c) => c.trim().toLowerCase()))],
+      side,
+      minSize: minSize.value,
+      maxSize: maxSize.value,
+    },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Watchlists
+ *
+ * Per-user named lists of tracked titles. Each user has one default list,
+ * created on first use, which quick "pin" actions add to when no list is
+ * named explicitly.
+ */
+
+import prisma from './prisma';
+
+export const DEFAULT_WATCHLIST_NAME = 'Watchlist';
+export const MAX_WATCHLISTS_PER_USER = 20;
+
+export interface WatchlistRecord {
+  id: string;
+  userId: string;
+  name: string;
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Get the user's default watchlist, creating it if they have none
+ */
+export async function getDefaultWatchlist(userId: string): Promise<WatchlistRecord> {
+  const existing = await prisma.watchlist.findFirst({
+    where: { userId },
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+  }) as WatchlistRecord | null;
+  if (existing) return existing;
+
+  return prisma.watchlist.upsert({
+    where: { userId_name: { userId, name: DEFAULT_WATCHLIST_NAME } },
+    update: { isDefault: true },
+    create: { userId, name: DEFAULT_WATCHLIST_NAME, isDefault: true },
+  }) as Promise<WatchlistRecord>;
+}
+
+/**
+ * Resolve a watchlist owned by the user: the named one, or their default.
+ * Returns null when the id belongs to someone else or does not exist.
+ */
+export async function resolveWatchlist(
+  userId: string,
+  watchlistId?: string | null
+): Promise<WatchlistRecord | null> {
+  if (!watchlistId) return getDefaultWatchlist(userId);
+
+  return prisma.watchlist.findFirst({
+    where: { id: watchlistId, userId },
+  }) as Promise<WatchlistRecord | null>;
+}
@@ -7,10 +7,11 @@ const ADMIN_USER_IDS = process.env.ADMIN_USER_IDS?.split(",") || [];
 // Routes that require admin access
 const isAdminRoute = createRouteMatcher(["/admin(.*)"]);
 
-// Routes that require authentication (Awards and Netflix sections)
+// Routes that require authentication (Awards, Netflix and Alerts sections)
 const isProtectedRoute = createRouteMatcher([
   "/awards(.*)",
   "/netflix(.*)",
+  "/alerts(.*)",
 ]);
 
 // Public routes (no auth required): /, /insider-finder, /sign-in, /sign-up
@@ -34,7 +35,7 @@ export default clerkMiddleware(async (auth, req) => {
     }
   }
 
-  // Protect Awards and Netflix routes - require authentication
+  // Protect Awards, Netflix and Alerts routes - require authentication
   if (isProtectedRoute(req) && !userId) {
     const signInUrl = new URL("/sign-in", req.url);
     signInUrl.searchParams.set("redirect_url", req.url);
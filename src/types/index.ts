@@ -93,6 +93,7 @@ export interface MomentumWeights {
   trendsWeight: number;
   wikipediaWeight: number;
   rankDeltaWeight: number;
+  countryBreadthWeight?: number;
 }
 
 export interface AppConfig {